@@ -1,134 +1,58 @@
 'use client'
 
-import { useState, useEffect } from "react"
+import { useMemo, useState } from "react"
+import Link from "next/link"
 import { Calendar } from "@/components/ui/calendar"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { CalendarDays, Clock, MapPin, Plus, Filter } from "lucide-react"
-import { format, isToday, isTomorrow, isPast } from "date-fns"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2, Plus } from "lucide-react"
 import { SidebarTrigger } from "@/components/ui/sidebar"
-import { createClient } from "@/lib/supabase/client"
 import { BreadcrumbNav } from "@/components/layout/breadcrumb-nav"
+import { ScheduleGrid } from "@/components/features/calendar/schedule-grid"
+import { CalendarSubscribeDialog } from "@/components/features/calendar/calendar-subscribe-dialog"
+import { useCalendarItems } from "@/hooks/use-calendar"
+import { useToast } from "@/hooks/use-toast"
+import {
+  SCHEDULE_SOURCES,
+  getViewDays,
+  getViewTitle,
+  groupItemsByDate,
+  stepViewDate,
+  toDateKey,
+  type ScheduleItem,
+  type ScheduleView
+} from "@/lib/calendar/schedule"
 
 export const dynamic = 'force-dynamic'
 
-interface Task {
-  id: string
-  title: string
-  description?: string
-  due_date: string
-  status: string
-  priority: string
-  client_id?: string
-  deal_id?: string
-}
-
-interface CalendarEvent {
-  id: string
-  title: string
-  start_time: string
-  end_time: string
-  description?: string
-  location?: string
-  type: 'meeting' | 'appointment' | 'call' | 'showing'
-}
+const VIEWS: { value: ScheduleView; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' }
+]
 
 export default function CalendarPage() {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date())
-  const [tasks, setTasks] = useState<Task[]>([])
-  const [events, setEvents] = useState<CalendarEvent[]>([])
-  const [loading, setLoading] = useState(true)
-  const [view, setView] = useState<'day' | 'week' | 'month'>('day')
-
-  const supabase = createClient()
-
-  useEffect(() => {
-    loadTasksAndEvents()
-  }, [selectedDate])
-
-  const loadTasksAndEvents = async () => {
-    try {
-      setLoading(true)
-      
-      // Format date for database query
-      const dateStr = format(selectedDate, 'yyyy-MM-dd')
-      
-      // Load tasks for selected date
-      const { data: tasksData, error: tasksError } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('due_date', dateStr)
-        .order('created_at', { ascending: false })
-
-      if (tasksError) {
-        console.error('Error loading tasks:', tasksError)
-      } else {
-        setTasks(tasksData || [])
-      }
-
-      // Note: Events would be loaded from a future events table
-      // For now, we'll show placeholder events
-      setEvents([
-        {
-          id: '1',
-          title: 'Client Meeting - Johnson Property',
-          start_time: '09:00',
-          end_time: '10:00',
-          description: 'Discuss listing strategy',
-          location: '123 Main St',
-          type: 'meeting'
-        },
-        {
-          id: '2', 
-          title: 'Property Showing',
-          start_time: '14:00',
-          end_time: '15:00',
-          description: 'Show 456 Oak Ave to potential buyers',
-          location: '456 Oak Ave',
-          type: 'showing'
-        }
-      ])
-
-    } catch (error) {
-      console.error('Error loading calendar data:', error)
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const getDateLabel = (date: Date) => {
-    if (isToday(date)) return 'Today'
-    if (isTomorrow(date)) return 'Tomorrow'
-    return format(date, 'EEEE, MMMM d, yyyy')
-  }
-
-  const getPriorityColor = (priority: string) => {
-    switch (priority?.toLowerCase()) {
-      case 'high': return 'destructive'
-      case 'medium': return 'default'
-      case 'low': return 'secondary'
-      default: return 'outline'
+  const [view, setView] = useState<ScheduleView>('week')
+  const { toast } = useToast()
+
+  const days = useMemo(() => getViewDays(view, selectedDate), [view, selectedDate])
+  const from = toDateKey(days[0])
+  const to = toDateKey(days[days.length - 1])
+  const { items, timeZone, loading, error, moveItem } = useCalendarItems(from, to)
+  const itemsByDate = useMemo(() => groupItemsByDate(items), [items])
+
+  const handleMove = async (item: ScheduleItem, date: string) => {
+    if (await moveItem(item, date)) {
+      toast({ title: `Moved "${item.title}"` })
     }
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status?.toLowerCase()) {
-      case 'completed': return 'bg-green-100 text-green-800'
-      case 'in_progress': return 'bg-blue-100 text-blue-800'
-      case 'pending': return 'bg-yellow-100 text-yellow-800'
-      default: return 'bg-gray-100 text-gray-800'
-    }
-  }
-
-  const getEventTypeIcon = (type: string) => {
-    switch (type) {
-      case 'meeting': return 'Meeting'
-      case 'call': return 'Call'
-      case 'showing': return 'Showing'
-      case 'appointment': return 'Appointment'
-      default: return 'Event'
-    }
+  const showDay = (date: Date) => {
+    setSelectedDate(date)
+    setView('day')
   }
 
   return (
@@ -141,16 +65,29 @@ export default function CalendarPage() {
             <h1 className="text-2xl font-bold text-slate-900">Calendar</h1>
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="outline" size="sm">
-              <Filter className="h-4 w-4 mr-2" />
-              Filter
-            </Button>
+            <div className="flex rounded-md border bg-white p-0.5">
+              {VIEWS.map(option => (
+                <Button
+                  key={option.value}
+                  variant={view === option.value ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7"
+                  onClick={() => setView(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            <CalendarSubscribeDialog />
             <Button
               className="bg-dealvize-teal hover:bg-dealvize-teal-dark text-white"
               size="sm"
+              asChild
             >
-              <Plus className="h-4 w-4 mr-2" />
-              New Event
+              <Link href="/tasks/new">
+                <Plus className="h-4 w-4 mr-2" />
+                New Task
+              </Link>
             </Button>
           </div>
         </div>
@@ -158,150 +95,82 @@ export default function CalendarPage() {
 
       <main className="p-6">
         <BreadcrumbNav />
-            
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6 mt-6">
-              {/* Calendar Widget */}
-              <Card className="lg:col-span-1">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <CalendarDays className="h-5 w-5" />
-                    Calendar
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <Calendar
-                    mode="single"
-                    selected={selectedDate}
-                    onSelect={(date) => date && setSelectedDate(date)}
-                    className="rounded-md border"
-                  />
-                </CardContent>
-              </Card>
 
-              {/* Daily Schedule */}
-              <div className="lg:col-span-2 space-y-4">
-                {/* Selected Date Header */}
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <Clock className="h-5 w-5" />
-                        {getDateLabel(selectedDate)}
-                      </div>
-                      <Badge variant="outline">
-                        {tasks.length + events.length} items
-                      </Badge>
-                    </CardTitle>
-                  </CardHeader>
-                </Card>
-
-                {loading ? (
-                  <Card>
-                    <CardContent className="p-8 text-center">
-                      <div className="animate-pulse">Loading schedule...</div>
-                    </CardContent>
-                  </Card>
-                ) : (
-                  <div className="space-y-4">
-                    {/* Events Section */}
-                    {events.length > 0 && (
-                      <Card>
-                        <CardHeader>
-                          <CardTitle className="text-lg">Events & Meetings</CardTitle>
-                        </CardHeader>
-                        <CardContent className="space-y-3">
-                          {events.map((event) => (
-                            <div key={event.id} className="flex items-start gap-3 p-3 border rounded-lg hover:bg-gray-50">
-                              <div className="text-lg">{getEventTypeIcon(event.type)}</div>
-                              <div className="flex-1">
-                                <div className="flex items-center justify-between">
-                                  <h4 className="font-medium">{event.title}</h4>
-                                  <span className="text-sm text-gray-500">
-                                    {event.start_time} - {event.end_time}
-                                  </span>
-                                </div>
-                                {event.description && (
-                                  <p className="text-sm text-gray-600 mt-1">{event.description}</p>
-                                )}
-                                {event.location && (
-                                  <div className="flex items-center gap-1 mt-1 text-sm text-gray-500">
-                                    <MapPin className="h-3 w-3" />
-                                    {event.location}
-                                  </div>
-                                )}
-                              </div>
-                            </div>
-                          ))}
-                        </CardContent>
-                      </Card>
-                    )}
-
-                    {/* Tasks Section */}
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="text-lg">Tasks Due</CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        {tasks.length === 0 ? (
-                          <div className="text-center py-8 text-gray-500">
-                            <CalendarDays className="h-12 w-12 mx-auto mb-3 opacity-50" />
-                            <p>No tasks due on this date</p>
-                            <Button variant="outline" size="sm" className="mt-2">
-                              <Plus className="h-4 w-4 mr-2" />
-                              Add Task
-                            </Button>
-                          </div>
-                        ) : (
-                          <div className="space-y-3">
-                            {tasks.map((task) => (
-                              <div key={task.id} className="flex items-start gap-3 p-3 border rounded-lg hover:bg-gray-50">
-                                <div className="flex-1">
-                                  <div className="flex items-center justify-between">
-                                    <h4 className="font-medium">{task.title}</h4>
-                                    <div className="flex items-center gap-2">
-                                      <Badge variant={getPriorityColor(task.priority)}>
-                                        {task.priority}
-                                      </Badge>
-                                      <span className={`text-xs px-2 py-1 rounded-full ${getStatusColor(task.status)}`}>
-                                        {task.status}
-                                      </span>
-                                    </div>
-                                  </div>
-                                  {task.description && (
-                                    <p className="text-sm text-gray-600 mt-1">{task.description}</p>
-                                  )}
-                                </div>
-                              </div>
-                            ))}
-                          </div>
-                        )}
-                      </CardContent>
-                    </Card>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mt-6 mb-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setSelectedDate(stepViewDate(view, selectedDate, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setSelectedDate(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setSelectedDate(stepViewDate(view, selectedDate, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <h2 className="text-lg font-semibold text-slate-900 ml-2">{getViewTitle(view, selectedDate)}</h2>
+            {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {SCHEDULE_SOURCES.map(source => (
+              <span key={source.value} className={`rounded border px-2 py-0.5 text-xs ${source.className}`}>
+                {source.label}
+              </span>
+            ))}
+          </div>
+        </div>
 
-                    {/* Quick Actions */}
-                    <Card>
-                      <CardContent className="p-4">
-                        <div className="flex flex-wrap gap-2">
-                          <Button variant="outline" size="sm">
-                            <Plus className="h-4 w-4 mr-2" />
-                            Add Task
-                          </Button>
-                          <Button variant="outline" size="sm">
-                            <Plus className="h-4 w-4 mr-2" />
-                            Schedule Meeting
-                          </Button>
-                          <Button variant="outline" size="sm">
-                            <Plus className="h-4 w-4 mr-2" />
-                            Book Showing
-                          </Button>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  </div>
-                )}
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {view === 'day' ? (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+            <Card className="lg:col-span-1">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarDays className="h-5 w-5" />
+                  Calendar
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Calendar
+                  mode="single"
+                  selected={selectedDate}
+                  onSelect={(date) => date && setSelectedDate(date)}
+                  className="rounded-md border"
+                />
+              </CardContent>
+            </Card>
+
+            <div className="lg:col-span-2 space-y-2">
+              <div className="flex justify-end">
+                <Badge variant="outline">{(itemsByDate.get(from) || []).length} items</Badge>
               </div>
+              <ScheduleGrid
+                view="day"
+                days={days}
+                focusedDate={selectedDate}
+                itemsByDate={itemsByDate}
+                timeZone={timeZone}
+                onMove={handleMove}
+                onSelectDate={showDay}
+              />
             </div>
-          </main>
+          </div>
+        ) : (
+          <ScheduleGrid
+            view={view}
+            days={days}
+            focusedDate={selectedDate}
+            itemsByDate={itemsByDate}
+            timeZone={timeZone}
+            onMove={handleMove}
+            onSelectDate={showDay}
+          />
+        )}
+      </main>
     </div>
   )
-}
\ No newline at end of file
+}
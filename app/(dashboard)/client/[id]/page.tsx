@@ -61,6 +61,7 @@ export default function ClientDetailPage() {
       company: clientData.company || '',
       status: clientData.status || 'lead',
       statusColor: getStatusColor(clientData.status || 'lead'),
+      lifecycle_stage: clientData.lifecycle_stage || null,
       lastContact: clientData.last_contact_date ? formatDate(clientData.last_contact_date) : 'Never',
       dealValue: formatCurrency(clientData.total_deal_value || 0),
       initials: clientData.initials || fullName.split(' ').map((n: string) => n[0]).join('').slice(0, 2).toUpperCase() || 'UC'
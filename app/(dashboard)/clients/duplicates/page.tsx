@@ -0,0 +1,27 @@
+'use client'
+
+import { SidebarTrigger } from "@/components/ui/sidebar"
+import { BreadcrumbNav } from "@/components/layout/breadcrumb-nav"
+import { DuplicateReviewQueue } from "@/components/features/clients/duplicate-review-queue"
+
+export default function ClientDuplicatesPage() {
+  return (
+    <div className="min-h-screen bg-gray-50/50 overflow-auto">
+      <header className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center gap-4">
+          <SidebarTrigger />
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900 tracking-tight">Duplicate Clients</h1>
+            <p className="text-sm text-slate-600 mt-1">
+              Review likely duplicates from imports, email and scanned cards
+            </p>
+          </div>
+        </div>
+      </header>
+      <main className="p-6">
+        <BreadcrumbNav />
+        <DuplicateReviewQueue />
+      </main>
+    </div>
+  )
+}
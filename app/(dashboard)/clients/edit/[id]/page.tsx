@@ -64,7 +64,8 @@ export default function EditClientPage() {
       statusColor: getStatusColor(clientData.status),
       lastContact: clientData.last_contact ? formatDate(clientData.last_contact) : 'Never',
       dealValue: formatCurrency(clientData.deal_value),
-      initials: clientData.initials || `${clientData.first_name.charAt(0)}${clientData.last_name.charAt(0)}`.toUpperCase()
+      initials: clientData.initials || `${clientData.first_name.charAt(0)}${clientData.last_name.charAt(0)}`.toUpperCase(),
+      custom_fields: clientData.custom_fields || {}
     }
   }
 
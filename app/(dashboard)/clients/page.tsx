@@ -6,21 +6,26 @@ import { ClientsList } from "@/components/features/clients/clients-list"
 import { BreadcrumbNav } from "@/components/layout/breadcrumb-nav"
 import { PaginationControls } from "@/components/ui/pagination-controls"
 import { useClients } from "@/hooks/use-clients"
+import type { CustomFieldFilter } from "@/lib/custom-fields/fields"
 
 export default function ClientsPage() {
   const [search, setSearch] = useState('')
   const [status, setStatus] = useState('')
+  const [lifecycleStage, setLifecycleStage] = useState('')
   const [sort, setSort] = useState<{ field: string; order: 'asc' | 'desc' }>({ field: 'name', order: 'asc' })
   const [page, setPage] = useState(1)
+  const [customFieldFilters, setCustomFieldFilters] = useState<CustomFieldFilter[]>([])
   const limit = 10
 
-  const { totalCount, exportClients, importClients, refreshClients } = useClients({ 
+  const { totalCount, exportClients, refreshClients } = useClients({ 
     search, 
     status, 
+    lifecycleStage,
     page, 
     limit, 
     sortBy: sort.field, 
-    sortOrder: sort.order 
+    sortOrder: sort.order,
+    customFieldFilters
   })
 
   const handleSearchChange = (newSearch: string) => {
@@ -33,25 +38,24 @@ export default function ClientsPage() {
     setPage(1) // Reset to first page when filtering
   }
 
+  const handleLifecycleStageFilter = (newStage: string) => {
+    setLifecycleStage(newStage)
+    setPage(1)
+  }
+
+  const handleCustomFieldFilterChange = (filters: CustomFieldFilter[]) => {
+    setCustomFieldFilters(filters)
+    setPage(1)
+  }
+
   const handleSortChange = (field: string, order: 'asc' | 'desc') => {
     setSort({ field, order })
     setPage(1) // Reset to first page when sorting
   }
 
-  const handleImport = async (file: File) => {
-    try {
-      const success = await importClients(file)
-      if (success) {
-        alert('Clients imported successfully!')
-        refreshClients()
-        setPage(1) // Reset to first page after import
-      } else {
-        alert('Import failed. Please check your file format and try again.')
-      }
-    } catch (error) {
-      console.error('Import error:', error)
-      alert('Import failed. Please try again.')
-    }
+  const handleImported = () => {
+    refreshClients()
+    setPage(1) // Reset to first page after import
   }
 
   return (
@@ -59,12 +63,16 @@ export default function ClientsPage() {
       <ClientsHeader
         onSearchChange={handleSearchChange}
         onStatusFilter={handleStatusFilter}
+        onLifecycleStageFilter={handleLifecycleStageFilter}
+        onCustomFieldFilterChange={handleCustomFieldFilterChange}
         onSortChange={handleSortChange}
         onExport={exportClients}
-        onImport={handleImport}
+        onImported={handleImported}
         currentSearch={search}
         currentStatus={status}
+        currentLifecycleStage={lifecycleStage}
         currentSort={sort}
+        currentCustomFieldFilters={customFieldFilters}
         totalCount={totalCount}
       />
       <main className="p-6">
@@ -72,10 +80,12 @@ export default function ClientsPage() {
         <ClientsList
           search={search}
           status={status}
+          lifecycleStage={lifecycleStage}
           page={page}
           limit={limit}
           sortBy={sort.field}
           sortOrder={sort.order}
+          customFieldFilters={customFieldFilters}
         />
         <PaginationControls
           currentPage={page}
@@ -0,0 +1,27 @@
+'use client'
+
+import { SidebarTrigger } from "@/components/ui/sidebar"
+import { BreadcrumbNav } from "@/components/layout/breadcrumb-nav"
+import { SphereView } from "@/components/features/clients/sphere-view"
+
+export default function ClientSpherePage() {
+  return (
+    <div className="min-h-screen bg-gray-50/50 overflow-auto">
+      <header className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center gap-4">
+          <SidebarTrigger />
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900 tracking-tight">Sphere</h1>
+            <p className="text-sm text-slate-600 mt-1">
+              Past clients and sphere contacts, longest since last touch first
+            </p>
+          </div>
+        </div>
+      </header>
+      <main className="p-6">
+        <BreadcrumbNav />
+        <SphereView />
+      </main>
+    </div>
+  )
+}
@@ -23,6 +23,20 @@ const LazyTasksDueToday = dynamic(
   }
 )
 
+const LazyDeadlinesThisWeek = dynamic(
+  () => import("@/components/shared/deadlines-this-week").then(mod => ({ default: mod.DeadlinesThisWeek })),
+  {
+    loading: () => <DashboardSkeleton />
+  }
+)
+
+const LazyPendingCdaApprovals = dynamic(
+  () => import("@/components/shared/pending-cda-approvals").then(mod => ({ default: mod.PendingCdaApprovals })),
+  {
+    loading: () => <DashboardSkeleton />
+  }
+)
+
 const LazyRevenueChart = dynamic(
   () => import("@/components/shared/enhanced-chart").then(mod => ({ default: mod.RevenueChart })),
   { loading: () => <ChartSkeleton /> }
@@ -103,6 +117,12 @@ export default async function DashboardPage() {
               <Suspense fallback={<DashboardSkeleton />}>
                 <LazyTasksDueToday />
               </Suspense>
+              <Suspense fallback={<DashboardSkeleton />}>
+                <LazyDeadlinesThisWeek />
+              </Suspense>
+              <Suspense fallback={<DashboardSkeleton />}>
+                <LazyPendingCdaApprovals />
+              </Suspense>
             </div>
           </div>
         </main>
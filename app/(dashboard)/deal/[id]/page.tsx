@@ -57,6 +57,7 @@ export default function DealDetailPage() {
     return {
       id: dealData.id,
       clientId: dealData.client_id,
+      householdId: dealData.household_id || null,
       title: dealData.title,
       value: formatCurrency(dealData.value),
       status: dealData.status as Deal['status'],
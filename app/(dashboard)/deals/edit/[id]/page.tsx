@@ -61,6 +61,7 @@ export default function EditDealPage() {
     return {
       id: dealData.id,
       clientId: dealData.client_id,
+      householdId: dealData.household_id || null,
       title: dealData.title,
       value: formatCurrency(dealData.value),
       status: dealData.status as Deal['status'],
@@ -75,7 +76,8 @@ export default function EditDealPage() {
         bedrooms: dealData.property_bedrooms,
         bathrooms: dealData.property_bathrooms,
         sqft: dealData.property_sqft
-      }
+      },
+      customFields: dealData.custom_fields || {}
     }
   }
 
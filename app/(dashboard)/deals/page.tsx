@@ -8,6 +8,7 @@ import { BreadcrumbNav } from "@/components/layout/breadcrumb-nav"
 import { SmartActionBar } from "@/components/shared/smart-action-bar"
 import { Button } from "@/components/ui/button"
 import { Zap, DollarSign, Calendar, LayoutList, LayoutGrid } from "lucide-react"
+import type { CustomFieldFilter } from "@/lib/custom-fields/fields"
 
 type ViewMode = 'list' | 'board'
 
@@ -20,10 +21,13 @@ interface DealFilters {
     from: Date | undefined
     to: Date | undefined
   }
+  customFields: CustomFieldFilter[]
 }
 
 export default function DealsPage() {
   const [viewMode, setViewMode] = useState<ViewMode>('board') // Default to Pipeline/Board view
+  // Bumped after an import so both views refetch
+  const [listVersion, setListVersion] = useState(0)
   const [search, setSearch] = useState('')
   const [status, setStatus] = useState('')
   const [filters, setFilters] = useState<DealFilters>({
@@ -31,7 +35,8 @@ export default function DealsPage() {
     propertyType: '',
     minValue: '',
     maxValue: '',
-    dateRange: { from: undefined, to: undefined }
+    dateRange: { from: undefined, to: undefined },
+    customFields: []
   })
 
   const handleFiltersChange = (newFilters: DealFilters) => {
@@ -85,6 +90,7 @@ export default function DealsPage() {
         onSearchChange={setSearch}
         onStatusChange={setStatus}
         onFiltersChange={handleFiltersChange}
+        onImported={() => setListVersion(version => version + 1)}
       />
       <main className="p-6">
         <BreadcrumbNav />
@@ -120,11 +126,12 @@ export default function DealsPage() {
 
         {/* Keep both views in DOM - toggle with CSS for instant switching */}
         <div className={viewMode === 'board' ? 'block' : 'hidden'}>
-          <DealPipeline />
+          <DealPipeline key={listVersion} />
         </div>
 
         <div className={viewMode === 'list' ? 'block' : 'hidden'}>
           <DealsList
+            key={listVersion}
             search={search}
             status={status}
             filters={filters}
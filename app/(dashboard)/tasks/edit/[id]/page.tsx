@@ -6,6 +6,7 @@ import { useParams, useRouter } from 'next/navigation'
 
 import { SidebarTrigger } from "@/components/ui/sidebar"
 import { TaskForm } from "@/components/shared/task-form"
+import { TaskRelations } from "@/components/shared/task-relations"
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Loader2, AlertCircle } from 'lucide-react'
 export const dynamic = 'force-dynamic'
@@ -53,6 +54,10 @@ export default function EditTaskPage() {
           type: data.type || 'Other',
           clientId: data.client_id || '',
           dealId: data.deal_id || '',
+          recurrenceRule: data.recurrence_rule || null,
+          recurrenceSeriesId: data.recurrence_series_id || null,
+          recurrenceIndex: data.recurrence_index ?? 0,
+          occurrenceDate: data.occurrence_date || null,
           client: data.clients ? {
             first_name: data.clients.first_name || '',
             last_name: data.clients.last_name || '',
@@ -130,6 +135,7 @@ export default function EditTaskPage() {
           </header>
           <main className="p-6">
             <TaskForm task={task} mode="edit" />
+            <TaskRelations taskId={task.id} />
           </main>
         </div>
       
@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { TasksHeader } from "@/components/layout/tasks-header"
 import { TasksList } from "@/components/shared/tasks-list"
 import { BreadcrumbNav } from "@/components/layout/breadcrumb-nav"
+import { clearCache } from "@/lib/cache-utils"
 
 export default function TasksPage() {
   const [search, setSearch] = useState('')
@@ -11,6 +12,12 @@ export default function TasksPage() {
   const [priority, setPriority] = useState('')
   const [dueSoon, setDueSoon] = useState(false)
   const [overdue, setOverdue] = useState(false)
+  const [listVersion, setListVersion] = useState(0)
+
+  const handleImported = () => {
+    clearCache('tasks')
+    setListVersion(version => version + 1)
+  }
 
   return (
     <div className="min-h-screen bg-gray-50/50 overflow-auto">
@@ -25,10 +32,12 @@ export default function TasksPage() {
         currentPriority={priority}
         dueSoon={dueSoon}
         overdue={overdue}
+        onImported={handleImported}
       />
       <main className="p-6">
         <BreadcrumbNav />
         <TasksList
+          key={listVersion}
           search={search}
           status={status}
           priority={priority}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getPipelineForUser } from '@/lib/pipeline/definitions'
+import { findStage, getInitialStage, getStageColorClasses } from '@/lib/pipeline/stages'
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,12 +16,19 @@ export async function GET(request: NextRequest) {
       }, { status: 401 })
     }
 
+    const pipeline = await getPipelineForUser(
+      supabase,
+      user.id,
+      request.nextUrl.searchParams.get('pipeline_id')
+    )
+    // Lost stages are excluded from the funnel, as before
+    const stages = pipeline.stages.filter(stage => stage.category !== 'lost')
+
     // Try to fetch real pipeline data  
     const { data: deals, error } = await supabase
       .from('deals')
-      .select('status, value')
+      .select('status, value, pipeline_id')
       .eq('user_id', user.id)
-      .neq('status', 'Lost')
 
     if (error) {
       console.error('Pipeline query error:', error)
@@ -29,42 +38,39 @@ export async function GET(request: NextRequest) {
       }, { status: 500 })
     }
 
-    // Process real data - map actual deal statuses to pipeline stages
-    const stageData = {
-      'Lead': { count: 0, value: 0 },
-      'In Progress': { count: 0, value: 0 },
-      'Under Contract': { count: 0, value: 0 },
-      'Closed': { count: 0, value: 0 }
-    }
+    // Process real data - map actual deal statuses to the pipeline's stages
+    const stageData: Record<string, { count: number; value: number }> = {}
+    stages.forEach(stage => {
+      stageData[stage.name] = { count: 0, value: 0 }
+    })
+
+    // Deals without a pipeline_id belong to the tenant's default pipeline
+    const belongsToPipeline = (pipelineId: string | null) =>
+      pipeline.is_default ? !pipelineId || pipelineId === pipeline.id : pipelineId === pipeline.id
 
     // Process deals if any exist
     if (deals && deals.length > 0) {
-      deals.forEach(deal => {
-        const status = deal.status || 'Lead'
+      deals
+        .filter(deal => belongsToPipeline(deal.pipeline_id))
+        .forEach(deal => {
+          const stage = findStage(stages, deal.status || getInitialStage(stages).name)
 
-        if ((stageData as any)[status]) {
-          (stageData as any)[status].count++
-          (stageData as any)[status].value += deal.value || 0
-        }
-      })
+          if (stage && stageData[stage.name]) {
+            stageData[stage.name].count++
+            stageData[stage.name].value += deal.value || 0
+          }
+        })
     }
 
     return NextResponse.json({
       pipeline: {
-        labels: ['Leads', 'In Progress', 'Under Contract', 'Closed'],
-        data: [
-          stageData['Lead'].count,
-          stageData['In Progress'].count,
-          stageData['Under Contract'].count,
-          stageData['Closed'].count
-        ],
-        values: [
-          stageData['Lead'].value,
-          stageData['In Progress'].value,
-          stageData['Under Contract'].value,
-          stageData['Closed'].value
-        ],
-        colors: ['#ef4444', '#f97316', '#eab308', '#22c55e']
+        id: pipeline.id,
+        name: pipeline.name,
+        labels: stages.map(stage => stage.name),
+        categories: stages.map(stage => stage.category),
+        data: stages.map(stage => stageData[stage.name].count),
+        values: stages.map(stage => stageData[stage.name].value),
+        colors: stages.map(stage => getStageColorClasses(stage.color).hex)
       }
     })
 
@@ -74,10 +80,10 @@ export async function GET(request: NextRequest) {
     // Return empty data on any error
     return NextResponse.json({
       pipeline: {
-        labels: ['Leads', 'In Progress', 'Under Contract', 'Closed'],
-        data: [0, 0, 0, 0],
-        values: [0, 0, 0, 0],
-        colors: ['#ef4444', '#f97316', '#eab308', '#22c55e']
+        labels: [],
+        data: [],
+        values: [],
+        colors: []
       }
     })
   }
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/auth/utils'
+import { getUserPipelines } from '@/lib/pipeline/definitions'
+import { calculateStageMetrics, getDaysInCurrentStage, type DealStageTransition, type StageMetrics } from '@/lib/pipeline/stage-history'
+import { getStageCategory, type PipelineStage } from '@/lib/pipeline/stages'
 
 export async function GET(request: NextRequest) {
   try {
@@ -29,18 +32,21 @@ async function generatePredictiveAnalytics(supabase: any, userId: string, timefr
   startDate.setDate(startDate.getDate() - timeframeDays)
 
   // Get historical data for analysis
-  const [dealsData, leadsData, activitiesData, revenueData] = await Promise.all([
+  const [dealsData, leadsData, activitiesData, revenueData, stageHistory, pipelines] = await Promise.all([
     getDealsData(supabase, userId, startDate),
     getLeadsData(supabase, userId, startDate),
     getActivitiesData(supabase, userId, startDate),
-    getRevenueData(supabase, userId, startDate)
+    getRevenueData(supabase, userId, startDate),
+    getStageHistoryData(supabase, userId, startDate),
+    getUserPipelines(supabase, userId)
   ])
+  const stages = pipelines.flatMap(pipeline => pipeline.stages)
 
   const predictions = {
     deal_conversion: await predictDealConversion(dealsData, leadsData),
     revenue_forecast: await predictRevenueForecast(revenueData, dealsData),
     lead_quality_trends: await predictLeadQualityTrends(leadsData, activitiesData),
-    pipeline_performance: await predictPipelinePerformance(dealsData, activitiesData),
+    pipeline_performance: await predictPipelinePerformance(dealsData, stageHistory, stages),
     seasonal_patterns: await identifySeasonalPatterns(revenueData, dealsData, timeframeDays),
     risk_assessment: await assessRisks(dealsData, leadsData, activitiesData)
   }
@@ -96,6 +102,28 @@ async function getActivitiesData(supabase: any, userId: string, startDate: Date)
   return data || []
 }
 
+// Full transition log for every deal that moved during the window, so stays that
+// began before the window are still measured
+async function getStageHistoryData(supabase: any, userId: string, startDate: Date): Promise<DealStageTransition[]> {
+  const { data: recent } = await supabase
+    .from('deal_stage_history')
+    .select('deal_id')
+    .eq('user_id', userId)
+    .gte('changed_at', startDate.toISOString())
+
+  const dealIds = [...new Set((recent || []).map((row: any) => row.deal_id))]
+  if (dealIds.length === 0) return []
+
+  const { data } = await supabase
+    .from('deal_stage_history')
+    .select('id, deal_id, user_id, pipeline_id, from_stage, to_stage, changed_by, changed_at, reason')
+    .eq('user_id', userId)
+    .in('deal_id', dealIds)
+    .order('changed_at', { ascending: true })
+
+  return data || []
+}
+
 async function getRevenueData(supabase: any, userId: string, startDate: Date) {
   const { data } = await supabase
     .from('deals')
@@ -193,15 +221,16 @@ async function predictLeadQualityTrends(leads: any[], activities: any[]) {
   }
 }
 
-async function predictPipelinePerformance(deals: any[], activities: any[]) {
-  const stageAnalysis = analyzeStagePerformance(deals)
+async function predictPipelinePerformance(deals: any[], stageHistory: DealStageTransition[], stages: PipelineStage[]) {
+  const stageAnalysis = analyzeStagePerformance(deals, stageHistory, stages)
   const bottlenecks = identifyBottlenecks(stageAnalysis)
-  const averageDealTime = calculateAverageDealTime(deals)
+  const averageDealTime = calculateAverageDealTime(deals, stages)
   
   const activeDealPredictions = deals
-    .filter(d => !['closed_won', 'closed_lost'].includes(d.status))
+    .filter(d => getStageCategory(stages, d.status) === 'open')
     .map(deal => {
-      const timeInCurrentStage = daysBetween(new Date(deal.updated_at), new Date())
+      const dealHistory = stageHistory.filter(t => t.deal_id === deal.id)
+      const timeInCurrentStage = getDaysInCurrentStage(dealHistory) ?? daysBetween(new Date(deal.updated_at), new Date())
       const stageData = stageAnalysis.find(s => s.stage === deal.status)
       const avgStageTime = stageData?.avg_time_in_stage || 14
       
@@ -210,7 +239,7 @@ async function predictPipelinePerformance(deals: any[], activities: any[]) {
         current_stage: deal.status,
         days_in_stage: timeInCurrentStage,
         predicted_close_probability: Math.max(10, Math.min(95, (deal.probability || 50) - (timeInCurrentStage - avgStageTime))),
-        expected_close_date: addDays(new Date(), avgStageTime - timeInCurrentStage)
+        expected_close_date: addDays(new Date(), Math.round(avgStageTime - timeInCurrentStage))
       }
     })
 
@@ -387,27 +416,27 @@ function calculateQualityTrend(leads: any[]) {
   return recentAvg - olderAvg
 }
 
-function analyzeStagePerformance(deals: any[]) {
-  const stages = ['lead', 'qualified', 'proposal_sent', 'negotiation', 'contract_review', 'closed_won', 'closed_lost']
-  
-  return stages.map(stage => {
-    const stageDeals = deals.filter(d => d.status === stage)
-    const avgTimeInStage = calculateAverageStageTime(stageDeals)
-    const conversionRate = calculateStageConversionRate(deals, stage)
-    
+function analyzeStagePerformance(deals: any[], stageHistory: DealStageTransition[], stages: PipelineStage[]) {
+  const metrics = calculateStageMetrics(stageHistory, stages)
+
+  return metrics.map(metric => {
+    const stageDeals = deals.filter(d => d.status === metric.stage)
+
     return {
-      stage,
+      ...metric,
+      category: getStageCategory(stages, metric.stage),
       deal_count: stageDeals.length,
-      avg_time_in_stage: avgTimeInStage,
-      conversion_rate: conversionRate,
       total_value: stageDeals.reduce((sum, d) => sum + (d.value || 0), 0)
     }
   })
 }
 
-function identifyBottlenecks(stageAnalysis: any[]) {
+// Bottlenecks are open stages that deals actually passed through and either sat in
+// for more than 3 weeks on average or left mostly backwards or lost
+function identifyBottlenecks(stageAnalysis: (StageMetrics & { category: string })[]) {
   return stageAnalysis
-    .filter(stage => stage.avg_time_in_stage > 21 || stage.conversion_rate < 30) // More than 3 weeks or low conversion
+    .filter(stage => stage.category === 'open' && stage.entered_count > 0)
+    .filter(stage => stage.avg_time_in_stage > 21 || (stage.entered_count > stage.current_count && stage.conversion_rate < 30))
     .map(stage => ({
       stage: stage.stage,
       issue: stage.avg_time_in_stage > 21 ? 'long_duration' : 'low_conversion',
@@ -416,8 +445,8 @@ function identifyBottlenecks(stageAnalysis: any[]) {
     }))
 }
 
-function calculateAverageDealTime(deals: any[]) {
-  const closedDeals = deals.filter(d => ['closed_won', 'closed_lost'].includes(d.status))
+function calculateAverageDealTime(deals: any[], stages: PipelineStage[]) {
+  const closedDeals = deals.filter(d => getStageCategory(stages, d.status) !== 'open')
   if (closedDeals.length === 0) return 0
 
   const totalDays = closedDeals.reduce((sum, deal) => {
@@ -429,26 +458,6 @@ function calculateAverageDealTime(deals: any[]) {
   return Math.round(totalDays / closedDeals.length)
 }
 
-function calculateAverageStageTime(stageDeals: any[]) {
-  if (stageDeals.length === 0) return 0
-  
-  const totalDays = stageDeals.reduce((sum, deal) => {
-    const created = new Date(deal.created_at)
-    const updated = new Date(deal.updated_at)
-    return sum + daysBetween(created, updated)
-  }, 0)
-
-  return Math.round(totalDays / stageDeals.length)
-}
-
-function calculateStageConversionRate(deals: any[], stage: string) {
-  const stageDeals = deals.filter(d => d.status === stage)
-  const convertedDeals = deals.filter(d => d.status === 'closed_won')
-  
-  if (stageDeals.length === 0) return 0
-  return Math.round((convertedDeals.length / stageDeals.length) * 100)
-}
-
 function calculatePipelineHealth(stageAnalysis: any[], bottlenecks: any[]) {
   const totalScore = 100
   const bottleneckPenalty = bottlenecks.length * 15
@@ -0,0 +1,74 @@
+/**
+ * Calendar Feed Token API
+ * Check, issue and turn off the secret URL of the user's iCalendar subscription
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { AppError } from '@/lib/errors'
+import { createCalendarFeed, getActiveCalendarFeed, revokeCalendarFeeds } from '@/lib/calendar/calendar-feeds'
+import { getCalendarFeedUrl, getWebcalUrl } from '@/lib/calendar/ical'
+
+function feedErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${fallback}:`, error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+export async function GET() {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+
+    try {
+      const feed = await getActiveCalendarFeed(supabase, user.id)
+      return NextResponse.json({ feed })
+    } catch (error) {
+      return feedErrorResponse(error, 'Failed to load calendar feed')
+    }
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+// POST issues a new URL; any previous one stops working
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+
+    try {
+      const { feed, token } = await createCalendarFeed(supabase, user.id)
+      const url = getCalendarFeedUrl(request.nextUrl.origin, token)
+
+      // The token is only ever shown here, so hand back the full URL to copy
+      return NextResponse.json({ feed, url, webcal_url: getWebcalUrl(url) }, { status: 201 })
+    } catch (error) {
+      return feedErrorResponse(error, 'Failed to create calendar feed')
+    }
+  } catch (error) {
+    console.error('Error creating calendar feed:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function DELETE() {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+
+    try {
+      await revokeCalendarFeeds(supabase, user.id)
+      return NextResponse.json({ feed: null })
+    } catch (error) {
+      return feedErrorResponse(error, 'Failed to turn off calendar feed')
+    }
+  } catch (error) {
+    console.error('Error turning off calendar feed:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Calendar Feed API
+ * Public, token-authenticated iCalendar feed of a user's schedule for
+ * subscribing from phone and desktop calendar apps
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { AppError } from '@/lib/errors'
+import { recordCalendarFeedAccess, resolveCalendarFeed } from '@/lib/calendar/calendar-feeds'
+import { getScheduleItems } from '@/lib/calendar/schedule-items'
+import { FEED_FUTURE_DAYS, FEED_PAST_DAYS, buildICalendar } from '@/lib/calendar/ical'
+
+interface Params {
+  token: string
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+// GET - Resolve the token and return the schedule around today as text/calendar
+export async function GET(request: NextRequest, { params }: { params: Promise<Params> }) {
+  // Calendar apps expect the URL to end in .ics, which isn't part of the token
+  const token = (await params).token.replace(/\.ics$/i, '')
+
+  if (!token) {
+    return NextResponse.json({ error: 'Token is required' }, { status: 400 })
+  }
+
+  // There's no session here - the token is the only credential, checked below
+  const supabase = createServiceClient()
+
+  try {
+    const feed = await resolveCalendarFeed(supabase, token)
+
+    const now = Date.now()
+    const from = new Date(now - FEED_PAST_DAYS * DAY_MS).toISOString().slice(0, 10)
+    const to = new Date(now + FEED_FUTURE_DAYS * DAY_MS).toISOString().slice(0, 10)
+    const { items } = await getScheduleItems(supabase, feed.user_id, from, to)
+    await recordCalendarFeedAccess(supabase, feed)
+
+    const body = buildICalendar(items, { name: 'Dealvize Schedule', origin: request.nextUrl.origin })
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="dealvize.ics"',
+        'Cache-Control': 'private, max-age=300'
+      }
+    })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error building calendar feed:', error)
+    return NextResponse.json({ error: 'Failed to load calendar feed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Calendar Items API
+ * Everything on the user's calendar for a date range, and moving an item to another day
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { getScheduleItems, rescheduleScheduleItem } from '@/lib/calendar/schedule-items'
+import { syncCalendarItem } from '@/lib/calendar/google-sync'
+import { MAX_SCHEDULE_RANGE_DAYS, getDaysBetween, isDateKey } from '@/lib/calendar/schedule'
+
+const rescheduleSchema = z.object({
+  source: z.enum(['task', 'task_occurrence', 'meeting', 'showing', 'milestone']),
+  id: z.string().uuid('Invalid item ID'),
+  date: z.string().refine(isDateKey, 'Date must be YYYY-MM-DD')
+})
+
+function calendarErrorResponse(error: unknown, context: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`Error in ${context}:`, error)
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from') || ''
+    const to = searchParams.get('to') || ''
+
+    if (!isDateKey(from) || !isDateKey(to) || from > to) {
+      return NextResponse.json({ error: 'from and to must be dates (YYYY-MM-DD) with from before to' }, { status: 400 })
+    }
+    if (getDaysBetween(from, to) > MAX_SCHEDULE_RANGE_DAYS) {
+      return NextResponse.json({ error: `Range can be at most ${MAX_SCHEDULE_RANGE_DAYS} days` }, { status: 400 })
+    }
+
+    const schedule = await getScheduleItems(supabase, user.id, from, to)
+    return NextResponse.json(schedule)
+  } catch (error) {
+    return calendarErrorResponse(error, 'GET /api/calendar/items')
+  }
+}
+
+// PUT - Move an item to another day, keeping its time of day
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validation = rescheduleSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    const { source, id, date } = validation.data
+    await rescheduleScheduleItem(supabase, user.id, source, id, date)
+    if (source === 'task' || source === 'meeting' || source === 'showing') {
+      await syncCalendarItem(supabase, user.id, source, id)
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return calendarErrorResponse(error, 'PUT /api/calendar/items')
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Client Consent API
+ * A client's per-channel communication consent and its change log
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { getClientConsents, listConsentEvents, recordConsent } from '@/lib/clients/consent-records'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const recordConsentSchema = z.object({
+  // Opting out of every channel at once is how an agent marks do-not-contact
+  channels: z.array(z.enum(['email', 'sms', 'phone', 'whatsapp'])).min(1, 'Choose at least one channel'),
+  status: z.enum(['opted_in', 'opted_out']),
+  source: z.enum(['manual', 'verbal', 'web_form', 'import']).default('manual'),
+  consent_text: z.string().max(2000, 'Consent text too long').optional()
+}).refine(data => data.status === 'opted_out' || !!data.consent_text?.trim(), {
+  message: 'Record the opt-in wording the client agreed to',
+  path: ['consent_text']
+})
+
+function consentErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${fallback}:`, error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid client ID format' }, { status: 400 })
+    }
+
+    try {
+      const [consents, events] = await Promise.all([
+        getClientConsents(supabase, user.id, id),
+        listConsentEvents(supabase, user.id, { clientId: id, limit: 50 })
+      ])
+      return NextResponse.json({ consents, events })
+    } catch (error) {
+      return consentErrorResponse(error, 'Failed to load consent')
+    }
+  } catch (error) {
+    console.error('Error fetching client consent:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid client ID format' }, { status: 400 })
+    }
+
+    const validation = recordConsentSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    const { channels, status, source, consent_text } = validation.data
+
+    try {
+      for (const channel of channels) {
+        await recordConsent(supabase, user.id, id, channel, status, {
+          source,
+          consentText: consent_text?.trim() || null,
+          recordedBy: user.id,
+          metadata: { user_agent: request.headers.get('user-agent') }
+        })
+      }
+
+      const [consents, events] = await Promise.all([
+        getClientConsents(supabase, user.id, id),
+        listConsentEvents(supabase, user.id, { clientId: id, limit: 50 })
+      ])
+      return NextResponse.json({ consents, events })
+    } catch (error) {
+      return consentErrorResponse(error, 'Failed to record consent')
+    }
+  } catch (error) {
+    console.error('Error recording client consent:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
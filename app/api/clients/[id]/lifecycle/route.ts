@@ -0,0 +1,90 @@
+/**
+ * Client Lifecycle API
+ * A client's lifecycle stage history, and moving them to a new stage by hand
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { changeLifecycleStage, getLifecycleHistory } from '@/lib/clients/lifecycle-history'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const changeStageSchema = z.object({
+  stage: z.enum(['lead', 'active_buyer', 'active_seller', 'under_contract', 'past_client', 'sphere', 'dead']),
+  reason: z.string().max(500, 'Reason too long').optional()
+})
+
+function lifecycleErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${fallback}:`, error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid client ID format' }, { status: 400 })
+    }
+
+    try {
+      const history = await getLifecycleHistory(supabase, user.id, id)
+      return NextResponse.json({ history })
+    } catch (error) {
+      return lifecycleErrorResponse(error, 'Failed to load lifecycle history')
+    }
+  } catch (error) {
+    console.error('Error fetching lifecycle history:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+// Changing the stage here doesn't count as contacting the client
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid client ID format' }, { status: 400 })
+    }
+
+    const validation = changeStageSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    try {
+      await changeLifecycleStage(supabase, user.id, id, validation.data.stage, {
+        trigger: 'manual',
+        changedBy: user.id,
+        reason: validation.data.reason
+      })
+      const history = await getLifecycleHistory(supabase, user.id, id)
+      return NextResponse.json({ stage: validation.data.stage, history })
+    } catch (error) {
+      return lifecycleErrorResponse(error, 'Failed to change lifecycle stage')
+    }
+  } catch (error) {
+    console.error('Error changing lifecycle stage:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
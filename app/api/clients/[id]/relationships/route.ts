@@ -0,0 +1,119 @@
+/**
+ * Client Relationships API
+ * A client's relationship graph, and adding or removing typed links
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import {
+  createClientRelationship,
+  deleteClientRelationship,
+  getClientRelationshipGraph
+} from '@/lib/clients/households'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const relationshipSchema = z.object({
+  related_client_id: z.string().uuid('Invalid related client ID'),
+  relationship_type: z.enum(['spouse_partner', 'household_member', 'family', 'referred_by', 'attorney', 'lender']),
+  notes: z.string().max(500, 'Notes too long').nullable().optional(),
+  add_to_household: z.boolean().optional()
+})
+
+function relationshipErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${fallback}:`, error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid client ID format' }, { status: 400 })
+    }
+
+    try {
+      const graph = await getClientRelationshipGraph(supabase, user.id, id)
+      return NextResponse.json(graph)
+    } catch (error) {
+      return relationshipErrorResponse(error, 'Failed to load relationships')
+    }
+  } catch (error) {
+    console.error('Error fetching client relationships:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid client ID format' }, { status: 400 })
+    }
+
+    const validation = relationshipSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    try {
+      const relationship = await createClientRelationship(supabase, user.id, { ...validation.data, client_id: id })
+      const graph = await getClientRelationshipGraph(supabase, user.id, id)
+      return NextResponse.json({ relationship, ...graph }, { status: 201 })
+    } catch (error) {
+      return relationshipErrorResponse(error, 'Failed to add relationship')
+    }
+  } catch (error) {
+    console.error('Error creating client relationship:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+// Remove by relationship id: DELETE /api/clients/:id/relationships?relationshipId=<id>
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+    const relationshipId = new URL(request.url).searchParams.get('relationshipId')
+
+    if (!relationshipId) {
+      return NextResponse.json({ error: 'Relationship ID is required' }, { status: 400 })
+    }
+
+    try {
+      await deleteClientRelationship(supabase, user.id, relationshipId)
+      const graph = await getClientRelationshipGraph(supabase, user.id, id)
+      return NextResponse.json(graph)
+    } catch (error) {
+      return relationshipErrorResponse(error, 'Failed to remove relationship')
+    }
+  } catch (error) {
+    console.error('Error deleting client relationship:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
+import { resolveCustomFieldValues } from '@/lib/custom-fields/definitions'
+import { changeLifecycleStage } from '@/lib/clients/lifecycle-history'
+import { NotFoundError } from '@/lib/errors'
 
 // UUID validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
@@ -13,7 +16,11 @@ const updateClientSchema = z.object({
   phone: z.string().max(20, 'Phone too long').optional(),
   address: z.string().max(500, 'Address too long').optional().or(z.literal('')),
   company: z.string().max(100, 'Company name too long').optional().or(z.literal('')),
-  status: z.enum(['Buyer', 'Seller', 'In Contract']).optional()
+  status: z.enum(['Buyer', 'Seller', 'In Contract']).optional(),
+  lifecycle_stage: z.enum(['lead', 'active_buyer', 'active_seller', 'under_contract', 'past_client', 'sphere', 'dead']).optional(),
+  // Recorded on the lifecycle history entry when the stage changes
+  lifecycle_reason: z.string().max(500, 'Reason too long').optional(),
+  custom_fields: z.record(z.unknown()).optional()
 })
 
 export async function GET(
@@ -83,20 +90,58 @@ export async function PUT(
       }, { status: 400 })
     }
 
-    const { first_name, last_name, email, phone, address, company, status } = validation.data
+    const { first_name, last_name, email, phone, address, company, status, custom_fields } = validation.data
+
+    const updates: Record<string, any> = {
+      first_name,
+      last_name,
+      email,
+      phone,
+      address,
+      company,
+      status,
+      last_contact: new Date().toISOString(),
+    }
+
+    if (custom_fields) {
+      const { data: existing } = await supabase
+        .from('clients')
+        .select('custom_fields')
+        .eq('id', resolvedParams.id)
+        .eq('user_id', user.id)
+        .single()
+
+      if (!existing) {
+        return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+      }
+
+      const { values, errors } = await resolveCustomFieldValues(
+        supabase, user.id, 'clients', custom_fields, existing.custom_fields || {}
+      )
+      if (errors.length > 0) {
+        return NextResponse.json({ error: 'Validation failed', details: errors }, { status: 400 })
+      }
+      updates.custom_fields = values
+    }
+
+    if (validation.data.lifecycle_stage) {
+      try {
+        await changeLifecycleStage(supabase, user.id, resolvedParams.id, validation.data.lifecycle_stage, {
+          trigger: 'manual',
+          changedBy: user.id,
+          reason: validation.data.lifecycle_reason
+        })
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+        }
+        throw error
+      }
+    }
 
     const { data: client, error } = await supabase
       .from('clients')
-      .update({
-        first_name,
-        last_name,
-        email,
-        phone,
-        address,
-        company,
-        status,
-        last_contact: new Date().toISOString(),
-      })
+      .update(updates)
       .eq('id', resolvedParams.id)
       .eq('user_id', user.id)
       .select()
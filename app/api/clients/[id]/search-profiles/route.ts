@@ -0,0 +1,156 @@
+/**
+ * Buyer Search Profiles API
+ * A buyer client's saved search criteria
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import {
+  createSearchProfile,
+  deleteSearchProfile,
+  listSearchProfiles,
+  updateSearchProfile
+} from '@/lib/clients/search-profiles'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const searchProfileSchema = z.object({
+  name: z.string().max(100, 'Name too long').optional(),
+  price_min: z.number().min(0, 'Price must be positive').nullable().optional(),
+  price_max: z.number().min(0, 'Price must be positive').nullable().optional(),
+  beds_min: z.number().int().min(0).max(50).nullable().optional(),
+  baths_min: z.number().min(0).max(50).nullable().optional(),
+  sqft_min: z.number().int().min(0).nullable().optional(),
+  sqft_max: z.number().int().min(0).nullable().optional(),
+  locations: z.array(z.string().max(100)).max(25, 'Too many locations').optional(),
+  property_types: z.array(z.enum([
+    'single_family', 'condo', 'townhouse', 'multi_family', 'land', 'commercial', 'mobile_home'
+  ])).optional(),
+  must_have_features: z.array(z.string().max(100)).max(25, 'Too many features').optional(),
+  timeline: z.enum(['immediate', '30_days', '90_days', 'exploratory']).nullable().optional(),
+  is_active: z.boolean().optional(),
+  notes: z.string().max(1000, 'Notes too long').nullable().optional()
+})
+
+function searchProfileErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${fallback}:`, error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+function validationFailed(error: z.ZodError) {
+  return NextResponse.json({
+    error: 'Validation failed',
+    details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+  }, { status: 400 })
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid client ID format' }, { status: 400 })
+    }
+
+    try {
+      const profiles = await listSearchProfiles(supabase, user.id, id)
+      return NextResponse.json({ profiles })
+    } catch (error) {
+      return searchProfileErrorResponse(error, 'Failed to load search profiles')
+    }
+  } catch (error) {
+    console.error('Error fetching search profiles:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid client ID format' }, { status: 400 })
+    }
+
+    const validation = searchProfileSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return validationFailed(validation.error)
+    }
+
+    try {
+      const profile = await createSearchProfile(supabase, user.id, id, validation.data)
+      return NextResponse.json({ profile }, { status: 201 })
+    } catch (error) {
+      return searchProfileErrorResponse(error, 'Failed to create search profile')
+    }
+  } catch (error) {
+    console.error('Error creating search profile:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+// Update by profile id: PUT /api/clients/:id/search-profiles?profileId=<id>
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const profileId = new URL(request.url).searchParams.get('profileId')
+
+    if (!profileId || !UUID_REGEX.test(profileId)) {
+      return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 })
+    }
+
+    const validation = searchProfileSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return validationFailed(validation.error)
+    }
+
+    try {
+      const profile = await updateSearchProfile(supabase, user.id, profileId, validation.data)
+      return NextResponse.json({ profile })
+    } catch (error) {
+      return searchProfileErrorResponse(error, 'Failed to update search profile')
+    }
+  } catch (error) {
+    console.error('Error updating search profile:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const profileId = new URL(request.url).searchParams.get('profileId')
+
+    if (!profileId || !UUID_REGEX.test(profileId)) {
+      return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 })
+    }
+
+    try {
+      await deleteSearchProfile(supabase, user.id, profileId)
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      return searchProfileErrorResponse(error, 'Failed to delete search profile')
+    }
+  } catch (error) {
+    console.error('Error deleting search profile:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { VCardConverter, type VCardVersion } from '@/lib/smart-import/vcard'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// GET /api/clients/:id/vcard?version=3.0|4.0 - the client as a shareable contact card
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid client ID format' }, { status: 400 })
+    }
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: client, error } = await supabase
+      .from('clients')
+      .select('id, first_name, last_name, name, email, phone, address, company, updated_at')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (error || !client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    // 3.0 is what iOS and most Android contact apps read most reliably
+    const version: VCardVersion = new URL(request.url).searchParams.get('version') === '4.0' ? '4.0' : '3.0'
+    const contact = VCardConverter.fromClient(client)
+
+    return new NextResponse(VCardConverter.serialize([contact], version), {
+      headers: {
+        'Content-Type': `${VCardConverter.MIME_TYPE}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${VCardConverter.getFileName([contact])}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error in GET /api/clients/[id]/vcard:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Client Duplicates API
+ * Review queue of likely duplicate clients; rescan on demand and dismiss false positives
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { detectClientDuplicates } from '@/lib/clients/merge'
+
+const CLIENT_COLUMNS = 'id, first_name, last_name, email, phone, address, company, status, created_at, last_contact'
+
+const dismissSchema = z.object({
+  id: z.string().uuid('Invalid duplicate ID')
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+
+    const { data: duplicates, error } = await supabase
+      .from('client_duplicate_candidates')
+      .select(`
+        id, reasons, score, status, created_at,
+        client:clients!client_duplicate_candidates_client_id_fkey(${CLIENT_COLUMNS}),
+        duplicate:clients!client_duplicate_candidates_duplicate_client_id_fkey(${CLIENT_COLUMNS})
+      `)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .order('score', { ascending: false })
+      .limit(100)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    const { data: merges } = await supabase
+      .from('client_merges')
+      .select(`
+        id, survivor_id, duplicate_id, merged_at, undone_at,
+        survivor:clients!client_merges_survivor_id_fkey(id, first_name, last_name),
+        duplicate:clients!client_merges_duplicate_id_fkey(id, first_name, last_name)
+      `)
+      .eq('user_id', user.id)
+      .is('undone_at', null)
+      .order('merged_at', { ascending: false })
+      .limit(20)
+
+    return NextResponse.json({
+      duplicates: duplicates || [],
+      merges: merges || []
+    })
+  } catch (error) {
+    console.error('Error fetching duplicate clients:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+// Full rescan of the caller's clients
+export async function POST() {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+
+    try {
+      const matches = await detectClientDuplicates(supabase, user.id)
+      return NextResponse.json({ found: matches.length })
+    } catch (error) {
+      console.error('Error scanning for duplicate clients:', error)
+      return NextResponse.json({ error: 'Failed to scan for duplicates' }, { status: 500 })
+    }
+  } catch (error) {
+    console.error('Error scanning for duplicate clients:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+// Dismissed pairs are not queued again by later scans
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const body = await request.json()
+
+    const validation = dismissSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    const { data: duplicate, error } = await supabase
+      .from('client_duplicate_candidates')
+      .update({ status: 'dismissed', resolved_at: new Date().toISOString() })
+      .eq('id', validation.data.id)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .select('id, status')
+      .single()
+
+    if (error || !duplicate) {
+      return NextResponse.json({ error: 'Duplicate not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ duplicate })
+  } catch (error) {
+    console.error('Error dismissing duplicate client:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
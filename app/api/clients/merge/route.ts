@@ -0,0 +1,73 @@
+/**
+ * Client Merge API
+ * Merge a duplicate into a surviving client, or undo a previous merge
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { mergeClients, undoClientMerge } from '@/lib/clients/merge'
+
+const mergeSchema = z.object({
+  survivor_id: z.string().uuid('Invalid survivor client ID'),
+  duplicate_id: z.string().uuid('Invalid duplicate client ID')
+})
+
+function mergeErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${fallback}:`, error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const body = await request.json()
+
+    const validation = mergeSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    try {
+      const merge = await mergeClients(supabase, user.id, validation.data.survivor_id, validation.data.duplicate_id)
+      return NextResponse.json({ merge }, { status: 201 })
+    } catch (error) {
+      return mergeErrorResponse(error, 'Failed to merge clients')
+    }
+  } catch (error) {
+    console.error('Error merging clients:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+// Undo by merge id: DELETE /api/clients/merge?id=<merge id>
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const mergeId = new URL(request.url).searchParams.get('id')
+
+    if (!mergeId) {
+      return NextResponse.json({ error: 'Merge ID is required' }, { status: 400 })
+    }
+
+    try {
+      const merge = await undoClientMerge(supabase, user.id, mergeId)
+      return NextResponse.json({ merge })
+    } catch (error) {
+      return mergeErrorResponse(error, 'Failed to undo merge')
+    }
+  } catch (error) {
+    console.error('Error undoing client merge:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
@@ -3,6 +3,16 @@ import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
 import { LeadScoringService } from '@/lib/lead-scoring/lead-service'
 import { LeadScoringActivities } from '@/lib/lead-scoring-utils'
+import { detectClientDuplicates } from '@/lib/clients/merge'
+import { VCardConverter } from '@/lib/smart-import/vcard'
+import { getUserCustomFields, resolveCustomFieldValues } from '@/lib/custom-fields/definitions'
+import {
+  applyCustomFieldFilters,
+  getCustomFieldSearchConditions,
+  parseCustomFieldFilters
+} from '@/lib/custom-fields/fields'
+import { getDefaultLifecycleStage, isLifecycleStage } from '@/lib/clients/lifecycle'
+import { recordLifecycleChange } from '@/lib/clients/lifecycle-history'
 
 const createClientSchema = z.object({
   first_name: z.string().min(1, 'First name is required').max(50, 'First name too long'),
@@ -11,7 +21,10 @@ const createClientSchema = z.object({
   phone: z.string().min(1, 'Phone is required').max(20, 'Phone too long'),
   address: z.string().max(500, 'Address too long').optional().or(z.literal('')),
   company: z.string().max(100, 'Company name too long').optional().or(z.literal('')),
-  status: z.enum(['Buyer', 'Seller', 'In Contract']).default('Buyer')
+  status: z.enum(['Buyer', 'Seller', 'In Contract']).default('Buyer'),
+  // Defaults from status when not given
+  lifecycle_stage: z.enum(['lead', 'active_buyer', 'active_seller', 'under_contract', 'past_client', 'sphere', 'dead']).optional(),
+  custom_fields: z.record(z.unknown()).optional()
 })
 
 function getStatusColor(status: string): string {
@@ -59,26 +72,30 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const search = searchParams.get('search') || ''
     const status = searchParams.get('status') || ''
+    const lifecycleStage = searchParams.get('lifecycle_stage') || ''
     const sortBy = searchParams.get('sortBy') || 'created_at'
     const sortOrder = searchParams.get('sortOrder') || 'desc'
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '10')
     const offset = (page - 1) * limit
     const export_format = searchParams.get('export')
+    const customFields = await getUserCustomFields(supabase, user.id, 'clients')
 
     // FIX: Simplified join to avoid column ambiguity crash
     // We select specific columns to prevent collision with joined tables
     let query = supabase
       .from('clients')
       .select(`
-        id, user_id, first_name, last_name, email, phone, status, 
-        company, address, lead_score, created_at, last_contact,
+        id, user_id, first_name, last_name, email, phone, status, lifecycle_stage,
+        company, address, lead_score, created_at, last_contact, custom_fields,
         deals (
           value,
           status
         )
       `, { count: 'exact' })
       .eq('user_id', user.id)
+      // Merged duplicates stay archived until the merge is undone
+      .is('merged_into_id', null)
 
     if (search) {
       const searchVariations = getSearchVariations(search)
@@ -93,6 +110,7 @@ export async function GET(request: NextRequest) {
             searchConditions.push(`company.ilike.%${safeTerm}%`)
         }
       }
+      searchConditions.push(...getCustomFieldSearchConditions(customFields, search))
       
       const uniqueConditions = [...new Set(searchConditions)]
       if (uniqueConditions.length > 0) {
@@ -101,6 +119,8 @@ export async function GET(request: NextRequest) {
     }
 
     if (status) query = query.eq('status', status)
+    if (isLifecycleStage(lifecycleStage)) query = query.eq('lifecycle_stage', lifecycleStage)
+    query = applyCustomFieldFilters(query, customFields, parseCustomFieldFilters(searchParams, customFields))
 
     const ascending = sortOrder === 'asc'
     const sortCol = ['first_name', 'last_name', 'last_contact', 'status'].includes(sortBy) ? sortBy : 'created_at'
@@ -150,6 +170,15 @@ export async function GET(request: NextRequest) {
       })
     }
 
+    if (export_format === 'vcf') {
+      const version = searchParams.get('version') === '4.0' ? '4.0' : '3.0'
+      const vcards = VCardConverter.serialize(transformedClients.map(c => VCardConverter.fromClient(c)), version)
+
+      return new NextResponse(vcards, {
+        headers: { 'Content-Type': `${VCardConverter.MIME_TYPE}; charset=utf-8`, 'Content-Disposition': 'attachment; filename=clients.vcf' }
+      })
+    }
+
     return NextResponse.json({ 
       clients: transformedClients,
       totalCount: count || 0,
@@ -183,6 +212,13 @@ export async function POST(request: NextRequest) {
       last_name: lastName,
     });
 
+    const { values: customFieldValues, errors: customFieldErrors } = await resolveCustomFieldValues(
+      supabase, user.id, 'clients', validatedData.custom_fields
+    )
+    if (customFieldErrors.length > 0) {
+      return NextResponse.json({ error: 'Validation error', details: customFieldErrors }, { status: 400 })
+    }
+
     // Robust user profile check
     const { data: userProfile } = await supabase
       .from('users')
@@ -210,6 +246,8 @@ export async function POST(request: NextRequest) {
         address: validatedData.address,
         company: validatedData.company,
         status: validatedData.status,
+        lifecycle_stage: validatedData.lifecycle_stage || getDefaultLifecycleStage(validatedData.status),
+        custom_fields: customFieldValues,
         user_id: user.id,
         last_contact: new Date().toISOString(),
       })
@@ -234,6 +272,20 @@ export async function POST(request: NextRequest) {
       }
     })()
 
+    // Opening entry so the lifecycle history starts at creation
+    await recordLifecycleChange(supabase, user.id, client.id, null, client.lifecycle_stage, {
+      trigger: 'created',
+      changedBy: user.id
+    })
+
+    // Awaited so the scan finishes before the function is frozen; a failed
+    // scan is logged and doesn't fail the request that created the client
+    try {
+      await detectClientDuplicates(supabase, user.id, [client.id])
+    } catch (error) {
+      console.error('Error detecting duplicate clients:', error)
+    }
+
     return NextResponse.json(client, { status: 201 })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,40 @@
+/**
+ * Sphere API
+ * Past clients and sphere-of-influence contacts with how long since each was last touched
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { getSphereContacts } from '@/lib/clients/lifecycle-history'
+import { SPHERE_STAGES, SPHERE_STALE_DAYS } from '@/lib/clients/lifecycle'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { searchParams } = new URL(request.url)
+
+    const stage = SPHERE_STAGES.find(value => value === searchParams.get('stage'))
+    const minDays = parseInt(searchParams.get('minDays') || '0')
+
+    try {
+      const contacts = await getSphereContacts(supabase, user.id, {
+        stage,
+        minDaysSinceTouch: Number.isFinite(minDays) && minDays > 0 ? minDays : undefined
+      })
+
+      return NextResponse.json({
+        contacts,
+        staleAfterDays: SPHERE_STALE_DAYS,
+        staleCount: contacts.filter(contact => contact.stale).length
+      })
+    } catch (error) {
+      console.error('Failed to load sphere contacts:', error)
+      return NextResponse.json({ error: 'Failed to load sphere contacts' }, { status: 500 })
+    }
+  } catch (error) {
+    console.error('Error fetching sphere contacts:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * CDA Approval API
+ * Broker sign-off through deals:approve; approving locks the CDA and attaches its PDF
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { withRBAC } from '@/lib/rbac/middleware'
+import { AppError } from '@/lib/errors'
+import { approveCommissionDisbursement } from '@/lib/commissions/disbursements'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  return withRBAC(request, async (req, context) => {
+    const serviceClient = createServiceClient()
+
+    const { data: disbursement } = await serviceClient
+      .from('commission_disbursements')
+      .select('*')
+      .eq('id', id)
+      .eq('tenant_id', context.tenantId)
+      .single()
+
+    if (!disbursement) {
+      return NextResponse.json(
+        { error: 'CDA not found' },
+        { status: 404 }
+      )
+    }
+
+    try {
+      const approved = await approveCommissionDisbursement(serviceClient, disbursement, context.userId)
+      return NextResponse.json({ disbursement: approved })
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.statusCode }
+        )
+      }
+
+      console.error('CDA approval error:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  }, {
+    resource: 'deals',
+    action: 'approve',
+    requireTenant: true
+  })
+}
@@ -0,0 +1,67 @@
+/**
+ * CDA Document API
+ * Renders a CDA as printable HTML or PDF from its stored snapshot, so an
+ * approved CDA always reproduces exactly what was signed off
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { PermissionChecker, SYSTEM_ROLES } from '@/lib/rbac/permissions'
+import { renderCdaHtml, renderCdaPdf, type CommissionDisbursement } from '@/lib/commissions/cda'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+    const format = new URL(request.url).searchParams.get('format') === 'html' ? 'html' : 'pdf'
+
+    // Approvers read other agents' CDAs, so access is checked here rather than through RLS
+    const serviceClient = createServiceClient()
+    const { data: disbursement } = await serviceClient
+      .from('commission_disbursements')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (!disbursement) {
+      return NextResponse.json({ error: 'CDA not found' }, { status: 404 })
+    }
+
+    if (disbursement.user_id !== user.id) {
+      const { data: membership } = await serviceClient
+        .from('tenant_members')
+        .select('role')
+        .eq('tenant_id', disbursement.tenant_id)
+        .eq('user_id', user.id)
+        .eq('status', 'active')
+        .single()
+
+      const permissions = SYSTEM_ROLES.find(role => role.id === membership?.role)?.permissions || []
+      if (!PermissionChecker.hasAnyPermission(permissions, ['DEALS_APPROVE', 'DEALS_VIEW_ALL'])) {
+        return NextResponse.json({ error: 'CDA not found' }, { status: 404 })
+      }
+    }
+
+    const cda = (disbursement as CommissionDisbursement).document
+
+    if (format === 'html') {
+      return new NextResponse(renderCdaHtml(cda), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' }
+      })
+    }
+
+    return new NextResponse(Buffer.from(renderCdaPdf(cda)), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${cda.reference}.pdf"`
+      }
+    })
+  } catch (error) {
+    console.error('Error rendering CDA:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
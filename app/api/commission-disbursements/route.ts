@@ -0,0 +1,118 @@
+/**
+ * Commission Disbursement Authorization API
+ * Agents generate draft CDAs for their transactions; approvers list the drafts awaiting them
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { getActiveTenantId } from '@/lib/pipeline/definitions'
+import { PermissionChecker, SYSTEM_ROLES } from '@/lib/rbac/permissions'
+import { generateCommissionDisbursement, getDisbursementForTransaction } from '@/lib/commissions/disbursements'
+
+const generateDisbursementSchema = z.object({
+  transaction_id: z.string().uuid('Invalid transaction ID')
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { searchParams } = new URL(request.url)
+
+    const transactionId = searchParams.get('transaction_id')
+    const dealId = searchParams.get('deal_id')
+
+    if (transactionId || dealId) {
+      let transactionQuery = supabase
+        .from('transactions')
+        .select('id')
+        .eq('user_id', user.id)
+
+      transactionQuery = transactionId
+        ? transactionQuery.eq('id', transactionId)
+        : transactionQuery.eq('deal_id', dealId).order('created_at', { ascending: false }).limit(1)
+
+      const { data: transactions } = await transactionQuery
+      const transaction = transactions?.[0]
+
+      if (!transaction) {
+        return NextResponse.json({ transaction_id: null, disbursement: null })
+      }
+
+      return NextResponse.json({
+        transaction_id: transaction.id,
+        disbursement: await getDisbursementForTransaction(supabase, transaction.id)
+      })
+    }
+
+    // Without a transaction, list the drafts awaiting approval in the caller's tenant
+    const tenantId = await getActiveTenantId(supabase, user.id)
+    if (!tenantId) {
+      return NextResponse.json({ disbursements: [] })
+    }
+
+    const { data: membership } = await supabase
+      .from('tenant_members')
+      .select('role')
+      .eq('tenant_id', tenantId)
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .single()
+
+    const permissions = SYSTEM_ROLES.find(role => role.id === membership?.role)?.permissions || []
+    if (!PermissionChecker.hasPermission(permissions, 'DEALS_APPROVE')) {
+      return NextResponse.json({ disbursements: [] })
+    }
+
+    // Other agents' drafts are outside the approver's RLS scope
+    const { data: disbursements, error } = await createServiceClient()
+      .from('commission_disbursements')
+      .select('id, transaction_id, deal_id, user_id, status, document, created_at, updated_at')
+      .eq('tenant_id', tenantId)
+      .eq('status', 'draft')
+      .order('updated_at', { ascending: false })
+      .limit(100)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ disbursements: disbursements || [] })
+  } catch (error) {
+    console.error('Error fetching commission disbursements:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const body = await request.json()
+
+    const validation = generateDisbursementSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    try {
+      const disbursement = await generateCommissionDisbursement(supabase, user.id, validation.data.transaction_id)
+      return NextResponse.json({ disbursement }, { status: 201 })
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+      }
+      console.error('Error saving commission disbursement:', error)
+      return NextResponse.json({ error: 'Failed to generate CDA' }, { status: 500 })
+    }
+  } catch (error) {
+    console.error('Error generating commission disbursement:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Consent Report API
+ * Every consent change across the agent's clients, for compliance review
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { AppError } from '@/lib/errors'
+import { listConsentEvents } from '@/lib/clients/consent-records'
+import { CONSENT_SOURCE_LABELS, getConsentChannelLabel, isConsentChannel, type ConsentEvent } from '@/lib/clients/consent'
+
+function toCSV(events: ConsentEvent[]): string {
+  const headers = ['Recorded At', 'Client', 'Email', 'Phone', 'Channel', 'From', 'To', 'Source', 'Consent Text']
+  const rows = events.map(event => [
+    event.recorded_at,
+    `${event.client?.first_name || ''} ${event.client?.last_name || ''}`.trim(),
+    event.client?.email || '',
+    event.client?.phone || '',
+    getConsentChannelLabel(event.channel),
+    event.from_status || 'none',
+    event.to_status,
+    CONSENT_SOURCE_LABELS[event.source] || event.source,
+    event.consent_text || ''
+  ].map(field => {
+    // Escape quotes and wrap in quotes if contains comma, quote, or newline
+    const stringField = String(field)
+    if (stringField.includes(',') || stringField.includes('"') || stringField.includes('\n')) {
+      return `"${stringField.replace(/"/g, '""')}"`
+    }
+    return stringField
+  }).join(','))
+
+  return [headers.join(','), ...rows].join('\n')
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { searchParams } = new URL(request.url)
+
+    const channel = searchParams.get('channel')
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+    const format = searchParams.get('format')
+
+    if (channel && !isConsentChannel(channel)) {
+      return NextResponse.json({ error: 'Invalid channel' }, { status: 400 })
+    }
+    if ((from && Number.isNaN(Date.parse(from))) || (to && Number.isNaN(Date.parse(to)))) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 })
+    }
+
+    try {
+      const events = await listConsentEvents(supabase, user.id, {
+        channel: channel && isConsentChannel(channel) ? channel : undefined,
+        from: from || undefined,
+        // A bare date means the whole of that day
+        to: to && /^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to || undefined,
+        limit: 5000
+      })
+
+      if (format === 'csv') {
+        return new NextResponse(toCSV(events), {
+          status: 200,
+          headers: {
+            'Content-Type': 'text/csv',
+            'Content-Disposition': `attachment; filename="consent-report-${new Date().toISOString().split('T')[0]}.csv"`
+          }
+        })
+      }
+
+      const summary = {
+        total: events.length,
+        opted_out: events.filter(event => event.to_status === 'opted_out').length,
+        opted_in: events.filter(event => event.to_status === 'opted_in').length
+      }
+
+      return NextResponse.json({ events, summary })
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+      }
+      console.error('Failed to build consent report:', error)
+      return NextResponse.json({ error: 'Failed to build consent report' }, { status: 500 })
+    }
+  } catch (error) {
+    console.error('Error fetching consent report:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
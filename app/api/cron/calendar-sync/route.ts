@@ -0,0 +1,109 @@
+/**
+ * Google Calendar Sync Cron Job
+ * Reconciles CRM tasks and meetings with Google for every user who granted
+ * calendar write access, catching edits the routes didn't push as they saved.
+ * Runs at half past the hour (vercel.json) so it doesn't start alongside the
+ * hourly contingency alerts; sub-daily schedules need Vercel Pro
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { hasCalendarWriteAccess, syncUserCalendar } from '@/lib/calendar/google-sync'
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const executionInterval = 60 * 60 * 1000
+  const executionId = `calendar-sync-${Math.floor(Date.now() / executionInterval) * executionInterval}`
+
+  try {
+    const serviceClient = createServiceClient()
+
+    const { data: existingExecution } = await serviceClient
+      .from('cron_execution_log')
+      .select('id, status')
+      .eq('execution_id', executionId)
+      .single()
+
+    if (existingExecution && existingExecution.status !== 'failed') {
+      return NextResponse.json({
+        skipped: true,
+        reason: existingExecution.status === 'running' ? 'Execution already in progress' : 'Already executed',
+        execution_id: executionId
+      })
+    }
+
+    const { data: executionLog } = await serviceClient
+      .from('cron_execution_log')
+      .insert({
+        job_name: 'calendar-sync',
+        execution_id: executionId,
+        status: 'running'
+      })
+      .select()
+      .single()
+
+    if (!executionLog) {
+      return NextResponse.json({ error: 'Failed to create execution log' }, { status: 500 })
+    }
+
+    const { data: integrations, error: integrationError } = await serviceClient
+      .from('user_integrations')
+      .select('user_id, access_token, refresh_token, scopes')
+      .eq('provider', 'google')
+
+    if (integrationError) throw integrationError
+
+    const errors: { user_id: string; error: string }[] = []
+    let usersSynced = 0
+    let changes = 0
+
+    for (const integration of (integrations || []).filter(hasCalendarWriteAccess)) {
+      try {
+        const summary = await syncUserCalendar(serviceClient, integration.user_id, integration)
+        usersSynced++
+        changes += summary.created + summary.updated + summary.deleted
+        errors.push(...summary.errors.map(error => ({ user_id: integration.user_id, error })))
+      } catch (error) {
+        errors.push({ user_id: integration.user_id, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+
+    await serviceClient
+      .from('cron_execution_log')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        records_processed: changes,
+        errors
+      })
+      .eq('id', executionLog.id)
+
+    return NextResponse.json({
+      users_synced: usersSynced,
+      changes,
+      errors: errors.length,
+      execution_id: executionId,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Error in calendar sync cron:', error)
+
+    await createServiceClient()
+      .from('cron_execution_log')
+      .update({
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        errors: [{ error: error instanceof Error ? error.message : 'Unknown error' }]
+      })
+      .eq('execution_id', executionId)
+      .eq('status', 'running')
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
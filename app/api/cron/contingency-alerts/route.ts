@@ -0,0 +1,86 @@
+/**
+ * Contingency Deadline Alerts Cron Job
+ * Sends the 72h, 24h and day-of alerts for open transaction contingencies
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { sendDueDeadlineAlerts } from '@/lib/transactions/deadlines'
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const executionInterval = 60 * 60 * 1000
+  const executionId = `contingency-alerts-${Math.floor(Date.now() / executionInterval) * executionInterval}`
+
+  try {
+    const serviceClient = createServiceClient()
+
+    const { data: existingExecution } = await serviceClient
+      .from('cron_execution_log')
+      .select('id, status')
+      .eq('execution_id', executionId)
+      .single()
+
+    if (existingExecution && existingExecution.status !== 'failed') {
+      return NextResponse.json({
+        skipped: true,
+        reason: existingExecution.status === 'running' ? 'Execution already in progress' : 'Already executed',
+        execution_id: executionId
+      })
+    }
+
+    const { data: executionLog } = await serviceClient
+      .from('cron_execution_log')
+      .insert({
+        job_name: 'contingency-alerts',
+        execution_id: executionId,
+        status: 'running'
+      })
+      .select()
+      .single()
+
+    if (!executionLog) {
+      return NextResponse.json({ error: 'Failed to create execution log' }, { status: 500 })
+    }
+
+    const results = await sendDueDeadlineAlerts(serviceClient)
+    const errors = results.filter(r => !r.success)
+
+    await serviceClient
+      .from('cron_execution_log')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        records_processed: results.length,
+        errors: errors.map(r => ({ contingency_id: r.contingency_id, error: r.error }))
+      })
+      .eq('id', executionLog.id)
+
+    return NextResponse.json({
+      alerts_sent: results.length - errors.length,
+      errors: errors.length,
+      execution_id: executionId,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Error in contingency alerts cron:', error)
+
+    await createServiceClient()
+      .from('cron_execution_log')
+      .update({
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        errors: [{ error: error instanceof Error ? error.message : 'Unknown error' }]
+      })
+      .eq('execution_id', executionId)
+      .eq('status', 'running')
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -5,6 +5,8 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase/server'
+import { getHouseholdRecipients } from '@/lib/clients/households'
+import { buildUnsubscribeFooter, getOptedOutClientIds, isUnsubscribeConfigured } from '@/lib/clients/consent-records'
 
 export async function GET(request: NextRequest) {
   const authHeader = request.headers.get('authorization')
@@ -14,6 +16,13 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
+  // Every sequence email carries a signed unsubscribe link; leave enrollments
+  // due rather than failing each one
+  if (!isUnsubscribeConfigured()) {
+    console.error('UNSUBSCRIBE_SECRET is not configured; skipping sequence emails')
+    return NextResponse.json({ error: 'UNSUBSCRIBE_SECRET is not configured' }, { status: 503 })
+  }
+
   try {
     const serviceClient = createServiceClient()
 
@@ -203,6 +212,37 @@ async function processSequenceStep(serviceClient: any, enrollment: any) {
     }
   }
 
+  // Household enrollments email everyone in the client's household, minus
+  // anyone who has opted out of email
+  const householdRecipients = enrollment.include_household
+    ? await getHouseholdRecipients(serviceClient, enrollment.user_id, client.id)
+    : []
+  const optedOut = await getOptedOutClientIds(
+    serviceClient,
+    enrollment.user_id,
+    [client.id, ...householdRecipients.map(recipient => recipient.client_id)],
+    'email'
+  )
+
+  // Stop the sequence for a client who has opted out rather than retrying every run
+  if (optedOut.has(client.id)) {
+    await serviceClient
+      .from('sequence_enrollments')
+      .update({
+        status: 'paused',
+        paused_at: new Date().toISOString(),
+        pause_reason: 'contact_opted_out',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', enrollment.id)
+
+    return {
+      enrollment_id: enrollment.id,
+      success: true,
+      action: 'paused_due_to_opt_out'
+    }
+  }
+
   // Process the email template with client data
   const processedTemplate = processEmailTemplate(
     current_step.template,
@@ -210,16 +250,29 @@ async function processSequenceStep(serviceClient: any, enrollment: any) {
     sequence
   )
 
-  // Send the email via Resend
-  const emailResult = await sendEmailWithResend({
-    to: client.email,
-    subject: processedTemplate.subject,
-    content: processedTemplate.content,
-    template_id: current_step.template.id,
-    client_id: client.id,
-    sequence_id: sequence.id,
-    step_id: current_step.id
-  })
+  const householdMembers = householdRecipients.filter(recipient => !optedOut.has(recipient.client_id))
+  const recipientList = householdMembers.length > 0
+    ? householdMembers.map(recipient => ({ client_id: recipient.client_id, email: recipient.email }))
+    : [{ client_id: client.id, email: client.email }]
+  const recipients = recipientList.map(recipient => recipient.email)
+
+  // One message per recipient, each with their own unsubscribe link
+  const sends = []
+  for (const recipient of recipientList) {
+    sends.push(await sendEmailWithResend({
+      to: recipient.email,
+      subject: processedTemplate.subject,
+      content: processedTemplate.content,
+      footer: process.env.NEXT_PUBLIC_APP_URL
+        ? buildUnsubscribeFooter(process.env.NEXT_PUBLIC_APP_URL, enrollment.user_id, recipient.client_id)
+        : null,
+      template_id: current_step.template.id,
+      client_id: recipient.client_id,
+      sequence_id: sequence.id,
+      step_id: current_step.id
+    }))
+  }
+  const emailResult = sends.find(send => send.success) || sends[0]
 
   // Record the message in the messages table
   const messageResult = await serviceClient
@@ -241,6 +294,7 @@ async function processSequenceStep(serviceClient: any, enrollment: any) {
         step_id: current_step.id,
         enrollment_id: enrollment.id,
         automated: true,
+        recipients,
         provider: emailResult.provider || 'unknown',
         message_id: emailResult.message_id,
         error: emailResult.error || null
@@ -359,10 +413,11 @@ async function sendEmailWithResend(emailData: any) {
   try {
     const emailResponse = await resend.emails.send({
       from: `Dealvize Automation <${fromEmail}>`,
-      to: [emailData.to],
+      to: Array.isArray(emailData.to) ? emailData.to : [emailData.to],
       subject: emailData.subject,
-      text: emailData.content,
-      html: emailData.content.replace(/\n/g, '<br>'),
+      text: emailData.content + (emailData.footer?.text || ''),
+      html: emailData.content.replace(/\n/g, '<br>') + (emailData.footer?.html || ''),
+      headers: emailData.footer ? { 'List-Unsubscribe': `<${emailData.footer.url}>` } : undefined,
       tags: [
         { name: 'type', value: 'automation' },
         { name: 'sequence_id', value: emailData.sequence_id?.toString() || 'unknown' },
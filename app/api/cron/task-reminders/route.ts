@@ -0,0 +1,90 @@
+/**
+ * Task Reminders Cron Job
+ * Sends task reminders as they come due and each user's morning digest of
+ * overdue tasks
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { sendDueTaskReminders, sendOverdueDigests } from '@/lib/tasks/task-reminders'
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const executionInterval = 15 * 60 * 1000
+  const executionId = `task-reminders-${Math.floor(Date.now() / executionInterval) * executionInterval}`
+
+  try {
+    const serviceClient = createServiceClient()
+
+    const { data: existingExecution } = await serviceClient
+      .from('cron_execution_log')
+      .select('id, status')
+      .eq('execution_id', executionId)
+      .single()
+
+    if (existingExecution && existingExecution.status !== 'failed') {
+      return NextResponse.json({
+        skipped: true,
+        reason: existingExecution.status === 'running' ? 'Execution already in progress' : 'Already executed',
+        execution_id: executionId
+      })
+    }
+
+    const { data: executionLog } = await serviceClient
+      .from('cron_execution_log')
+      .insert({
+        job_name: 'task-reminders',
+        execution_id: executionId,
+        status: 'running'
+      })
+      .select()
+      .single()
+
+    if (!executionLog) {
+      return NextResponse.json({ error: 'Failed to create execution log' }, { status: 500 })
+    }
+
+    const now = new Date()
+    const reminders = await sendDueTaskReminders(serviceClient, now)
+    const digests = await sendOverdueDigests(serviceClient, now)
+    const errors = [...reminders, ...digests].filter(r => !r.success)
+
+    await serviceClient
+      .from('cron_execution_log')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        records_processed: reminders.length + digests.length,
+        errors: errors.map(r => ({ task_id: r.task_id, user_id: r.user_id, kind: r.kind, error: r.error }))
+      })
+      .eq('id', executionLog.id)
+
+    return NextResponse.json({
+      reminders_sent: reminders.filter(r => r.success).length,
+      digests_sent: digests.filter(r => r.success).length,
+      errors: errors.length,
+      execution_id: executionId,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Error in task reminders cron:', error)
+
+    await createServiceClient()
+      .from('cron_execution_log')
+      .update({
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        errors: [{ error: error instanceof Error ? error.message : 'Unknown error' }]
+      })
+      .eq('execution_id', executionId)
+      .eq('status', 'running')
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
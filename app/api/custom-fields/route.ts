@@ -0,0 +1,293 @@
+/**
+ * Custom Field Definitions API
+ * Tenant-defined typed fields for clients, deals and transactions, capped by
+ * the plan's max_custom_fields
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { withRBAC } from '@/lib/rbac/middleware'
+import { getActiveTenantId } from '@/lib/pipeline/definitions'
+import { getCustomFieldUsage, getTenantCustomFields } from '@/lib/custom-fields/definitions'
+import {
+  hasOptions,
+  isCustomFieldEntity,
+  slugifyFieldKey,
+  validateCustomFieldDefinition
+} from '@/lib/custom-fields/fields'
+import { isWithinLimit } from '@/lib/tenants/plans'
+import { z } from 'zod'
+
+const validationSchema = z.object({
+  min: z.coerce.number().nullable().optional(),
+  max: z.coerce.number().nullable().optional(),
+  max_length: z.coerce.number().int().nullable().optional(),
+  pattern: z.string().max(200).nullable().optional()
+})
+
+const FieldSchema = z.object({
+  entity_type: z.enum(['clients', 'deals', 'transactions']),
+  label: z.string().trim().min(1, 'Field label is required').max(60, 'Field label too long'),
+  key: z.string().max(50).optional(),
+  field_type: z.enum(['text', 'number', 'currency', 'date', 'select', 'multi_select', 'checkbox', 'url']),
+  options: z.array(z.string().trim().max(100)).max(100, 'Too many options').default([]),
+  required: z.boolean().default(false),
+  validation: validationSchema.default({}),
+  help_text: z.string().max(200).nullable().optional(),
+  position: z.coerce.number().int().min(0).optional()
+})
+
+// Key, type and entity are fixed once records may hold values for the field
+const FieldUpdateSchema = FieldSchema.omit({ entity_type: true, key: true, field_type: true }).partial()
+
+const ReorderSchema = z.object({
+  entity_type: z.enum(['clients', 'deals', 'transactions']),
+  order: z.array(z.string()).min(1)
+})
+
+function validationResponse(error: z.ZodError) {
+  return NextResponse.json({
+    error: 'Validation error',
+    details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+  }, { status: 400 })
+}
+
+// GET - Field definitions for the current user's tenant, with plan usage
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const entity = new URL(request.url).searchParams.get('entity')
+    const tenantId = await getActiveTenantId(supabase, user.id)
+    const fields = await getTenantCustomFields(supabase, tenantId, isCustomFieldEntity(entity) ? entity : undefined)
+    const usage = tenantId ? await getCustomFieldUsage(supabase, tenantId) : { limit: 0, used: 0 }
+
+    return NextResponse.json({ fields, ...usage })
+  } catch (error) {
+    console.error('Error in GET /api/custom-fields:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Define a new field, within the plan limit
+export async function POST(request: NextRequest) {
+  return withRBAC(request, async (req, context) => {
+    try {
+      const supabase = await createClient()
+      const validatedData = FieldSchema.parse(await req.json())
+      const key = validatedData.key?.trim() || slugifyFieldKey(validatedData.label)
+      const options = hasOptions(validatedData.field_type) ? validatedData.options : []
+
+      const definitionErrors = validateCustomFieldDefinition({ ...validatedData, key, options })
+      if (definitionErrors.length > 0) {
+        return NextResponse.json({ error: 'Invalid field', details: definitionErrors }, { status: 400 })
+      }
+
+      const { limit, used } = await getCustomFieldUsage(supabase, context.tenantId)
+      if (!isWithinLimit(limit, used)) {
+        return NextResponse.json({
+          error: `Your plan allows ${limit} custom fields. Upgrade to add more.`,
+          code: 'PLAN_LIMIT_REACHED'
+        }, { status: 403 })
+      }
+
+      let position = validatedData.position
+      if (position === undefined) {
+        const { count } = await supabase
+          .from('custom_field_definitions')
+          .select('id', { count: 'exact', head: true })
+          .eq('tenant_id', context.tenantId)
+          .eq('entity_type', validatedData.entity_type)
+        position = count || 0
+      }
+
+      const { data: field, error } = await supabase
+        .from('custom_field_definitions')
+        .insert({
+          tenant_id: context.tenantId,
+          entity_type: validatedData.entity_type,
+          key,
+          label: validatedData.label,
+          field_type: validatedData.field_type,
+          options,
+          required: validatedData.required,
+          validation: validatedData.validation,
+          help_text: validatedData.help_text || null,
+          position,
+          created_by: context.userId
+        })
+        .select()
+        .single()
+
+      if (error) {
+        // Unique on (tenant_id, entity_type, key)
+        if (error.code === '23505') {
+          return NextResponse.json({ error: `A field with key "${key}" already exists` }, { status: 409 })
+        }
+        console.error('Error creating custom field:', error)
+        return NextResponse.json({ error: 'Failed to create custom field' }, { status: 500 })
+      }
+
+      return NextResponse.json({ field }, { status: 201 })
+    } catch (error) {
+      if (error instanceof z.ZodError) return validationResponse(error)
+      console.error('Error in POST /api/custom-fields:', error)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  }, {
+    resource: 'settings',
+    action: 'manage',
+    requireTenant: true
+  })
+}
+
+// PUT - Update a field's label, options, rules or position
+export async function PUT(request: NextRequest) {
+  return withRBAC(request, async (req, context) => {
+    try {
+      const supabase = await createClient()
+      const { id, ...updateData } = await req.json()
+
+      if (!id) {
+        return NextResponse.json({ error: 'Field ID is required' }, { status: 400 })
+      }
+
+      const validatedData = FieldUpdateSchema.parse(updateData)
+
+      const { data: existing } = await supabase
+        .from('custom_field_definitions')
+        .select('*')
+        .eq('id', id)
+        .eq('tenant_id', context.tenantId)
+        .maybeSingle()
+
+      if (!existing) {
+        return NextResponse.json({ error: 'Custom field not found' }, { status: 404 })
+      }
+
+      const merged = {
+        key: existing.key,
+        label: validatedData.label ?? existing.label,
+        field_type: existing.field_type,
+        options: hasOptions(existing.field_type) ? validatedData.options ?? existing.options ?? [] : [],
+        validation: validatedData.validation ?? existing.validation ?? {}
+      }
+
+      const definitionErrors = validateCustomFieldDefinition(merged)
+      if (definitionErrors.length > 0) {
+        return NextResponse.json({ error: 'Invalid field', details: definitionErrors }, { status: 400 })
+      }
+
+      const updates: Record<string, any> = {
+        label: merged.label,
+        options: merged.options,
+        validation: merged.validation,
+        updated_at: new Date().toISOString()
+      }
+      if (validatedData.required !== undefined) updates.required = validatedData.required
+      if (validatedData.help_text !== undefined) updates.help_text = validatedData.help_text || null
+      if (validatedData.position !== undefined) updates.position = validatedData.position
+
+      const { data: field, error } = await supabase
+        .from('custom_field_definitions')
+        .update(updates)
+        .eq('id', id)
+        .eq('tenant_id', context.tenantId)
+        .select()
+        .single()
+
+      if (error || !field) {
+        return NextResponse.json({ error: 'Custom field not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({ field })
+    } catch (error) {
+      if (error instanceof z.ZodError) return validationResponse(error)
+      console.error('Error in PUT /api/custom-fields:', error)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  }, {
+    resource: 'settings',
+    action: 'manage',
+    requireTenant: true
+  })
+}
+
+// PATCH - Reorder an entity's fields; `order` lists field IDs top to bottom
+export async function PATCH(request: NextRequest) {
+  return withRBAC(request, async (req, context) => {
+    try {
+      const supabase = await createClient()
+      const { entity_type, order } = ReorderSchema.parse(await req.json())
+
+      const results = await Promise.all(order.map((id, position) =>
+        supabase
+          .from('custom_field_definitions')
+          .update({ position, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('tenant_id', context.tenantId)
+          .eq('entity_type', entity_type)
+      ))
+
+      const failed = results.find(result => result.error)
+      if (failed) {
+        console.error('Error reordering custom fields:', failed.error)
+        return NextResponse.json({ error: 'Failed to reorder custom fields' }, { status: 500 })
+      }
+
+      const fields = await getTenantCustomFields(supabase, context.tenantId, entity_type)
+      return NextResponse.json({ fields })
+    } catch (error) {
+      if (error instanceof z.ZodError) return validationResponse(error)
+      console.error('Error in PATCH /api/custom-fields:', error)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  }, {
+    resource: 'settings',
+    action: 'manage',
+    requireTenant: true
+  })
+}
+
+// DELETE - Remove a field definition; values already stored on records are left in place
+export async function DELETE(request: NextRequest) {
+  return withRBAC(request, async (req, context) => {
+    try {
+      const supabase = await createClient()
+      const id = new URL(req.url).searchParams.get('id')
+
+      if (!id) {
+        return NextResponse.json({ error: 'Field ID is required' }, { status: 400 })
+      }
+
+      const { data, error } = await supabase
+        .from('custom_field_definitions')
+        .delete()
+        .eq('id', id)
+        .eq('tenant_id', context.tenantId)
+        .select('id')
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+
+      if (!data || data.length === 0) {
+        return NextResponse.json({ error: 'Custom field not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({ message: 'Custom field deleted successfully' })
+    } catch (error) {
+      console.error('Error in DELETE /api/custom-fields:', error)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  }, {
+    resource: 'settings',
+    action: 'manage',
+    requireTenant: true
+  })
+}
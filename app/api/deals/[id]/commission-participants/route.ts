@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { buildCommissionLedger, PARTICIPANT_ROLES, type ParticipantRole } from '@/lib/commissions/ledger'
+import { getDealCommissionParticipants, replaceDealCommissionParticipants } from '@/lib/commissions/participants'
+
+const participantSchema = z.object({
+  role: z.enum(PARTICIPANT_ROLES.map(option => option.value) as [ParticipantRole, ...ParticipantRole[]]),
+  participant_user_id: z.string().uuid('Invalid user ID').nullable().default(null),
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+  amount_type: z.enum(['percentage', 'flat']),
+  amount: z.number().min(0, 'Amount must be 0 or greater')
+}).refine(
+  participant => participant.amount_type !== 'percentage' || participant.amount <= 100,
+  { message: 'Percentage cannot exceed 100%', path: ['amount'] }
+).refine(
+  participant => participant.role !== 'outside_referral' || !participant.participant_user_id,
+  { message: 'Outside referral fees go to another brokerage, not a user', path: ['participant_user_id'] }
+)
+
+const replaceParticipantsSchema = z.object({
+  // Order of the list is the order of application
+  participants: z.array(participantSchema).max(10, 'Too many participants')
+})
+
+async function loadDeal(supabase: any, dealId: string, userId: string) {
+  const { data: deal } = await supabase
+    .from('deals')
+    .select('id, user_id, commission')
+    .eq('id', dealId)
+    .eq('user_id', userId)
+    .single()
+
+  return deal
+}
+
+async function getPrimaryAgent(supabase: any, userId: string) {
+  const { data: owner } = await supabase
+    .from('users')
+    .select('name, email')
+    .eq('id', userId)
+    .single()
+
+  return { userId, name: owner?.name || owner?.email || 'Primary Agent' }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const resolvedParams = await params
+
+    const deal = await loadDeal(supabase, resolvedParams.id, user.id)
+    if (!deal) {
+      return NextResponse.json({ error: 'Deal not found' }, { status: 404 })
+    }
+
+    const participants = await getDealCommissionParticipants(supabase, deal.id)
+    const ledger = buildCommissionLedger(
+      parseFloat(deal.commission) || 0,
+      participants,
+      await getPrimaryAgent(supabase, deal.user_id)
+    )
+
+    return NextResponse.json({ participants, ledger })
+  } catch (error) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const resolvedParams = await params
+    const body = await request.json()
+
+    const validation = replaceParticipantsSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    const deal = await loadDeal(supabase, resolvedParams.id, user.id)
+    if (!deal) {
+      return NextResponse.json({ error: 'Deal not found' }, { status: 404 })
+    }
+
+    let participants
+    try {
+      participants = await replaceDealCommissionParticipants(supabase, user.id, deal.id, validation.data.participants)
+    } catch (error) {
+      console.error('Error saving commission participants:', error)
+      return NextResponse.json({ error: 'Failed to save commission participants' }, { status: 500 })
+    }
+
+    const ledger = buildCommissionLedger(
+      parseFloat(deal.commission) || 0,
+      participants,
+      await getPrimaryAgent(supabase, deal.user_id)
+    )
+
+    return NextResponse.json({ participants, ledger })
+  } catch (error) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
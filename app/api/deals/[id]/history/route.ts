@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { buildStageStays, getDaysInCurrentStage } from '@/lib/pipeline/stage-history'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const resolvedParams = await params
+
+    const { data: deal, error: dealError } = await supabase
+      .from('deals')
+      .select('id')
+      .eq('id', resolvedParams.id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (dealError || !deal) {
+      return NextResponse.json({ error: 'Deal not found' }, { status: 404 })
+    }
+
+    const { data: history, error } = await supabase
+      .from('deal_stage_history')
+      .select(`
+        *,
+        users:changed_by (
+          id,
+          name
+        )
+      `)
+      .eq('deal_id', resolvedParams.id)
+      .order('changed_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching deal stage history:', error)
+      return NextResponse.json({ error: 'Failed to fetch stage history' }, { status: 500 })
+    }
+
+    const transitions = history || []
+    const stays = buildStageStays(transitions)
+
+    return NextResponse.json({
+      history: transitions.map((transition: any, index: number) => ({
+        ...transition,
+        changed_by_name: transition.users?.name || null,
+        duration_days: Math.round(stays[index]?.duration_days ?? 0)
+      })),
+      days_in_current_stage: getDaysInCurrentStage(transitions)
+    })
+  } catch (error) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
@@ -2,12 +2,24 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/auth/utils'
 import { z } from 'zod'
+import { getPipelineForUser } from '@/lib/pipeline/definitions'
+import { findStage, getInitialStage, DEFAULT_PIPELINE_ID, type PipelineStage } from '@/lib/pipeline/stages'
+import { recordStageTransition } from '@/lib/pipeline/stage-history'
+import { checkStageTransition } from '@/lib/pipeline/transition-guards'
+import { executePipelineTrigger } from '@/lib/automation/pipeline-executor'
+import { generateCommissionDisbursement } from '@/lib/commissions/disbursements'
+import { resolveCustomFieldValues } from '@/lib/custom-fields/definitions'
+import { applyDealStageToClient } from '@/lib/clients/lifecycle-history'
 
 // Update deal schema - all fields optional for partial updates
 const updateDealSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title too long').optional(),
   value: z.coerce.number().min(0, 'Value must be positive').optional(),
-  status: z.enum(['Lead', 'In Progress', 'Under Contract', 'Closed', 'Lost']).optional(),
+  // Validated against the deal's pipeline definition
+  status: z.string().max(60, 'Status too long').optional(),
+  pipeline_id: z.string().max(100).optional(),
+  // Recorded on the stage history entry, e.g. why a deal was lost
+  stage_change_reason: z.string().max(500, 'Reason too long').optional(),
   probability: z.coerce.number().min(0).max(100, 'Probability must be 0-100').optional(),
   expected_close_date: z.string().datetime().optional().or(z.literal('')),
   commission: z.coerce.number().min(0, 'Commission must be positive').optional(),
@@ -15,7 +27,10 @@ const updateDealSchema = z.object({
   property_type: z.string().max(50, 'Property type too long').optional().or(z.literal('')),
   property_bedrooms: z.coerce.number().min(0).max(50).optional(),
   property_bathrooms: z.coerce.number().min(0).max(50).optional(),
-  property_sqft: z.coerce.number().min(0).max(1000000).optional()
+  property_sqft: z.coerce.number().min(0).max(1000000).optional(),
+  // null clears a household party back to the client alone
+  household_id: z.string().uuid('Invalid household ID').nullable().optional(),
+  custom_fields: z.record(z.unknown()).optional()
 })
 
 export async function GET(
@@ -77,8 +92,6 @@ export async function PUT(
     const {
       title,
       value,
-      status,
-      probability,
       expected_close_date,
       commission,
       property_address,
@@ -88,12 +101,125 @@ export async function PUT(
       property_sqft
     } = validation.data
 
+    let status: string | undefined
+    let probability = validation.data.probability
+    let pipelineId: string | null | undefined
+    let previousStatus: string | null = null
+    let stageCategory: string | null = null
+    let newStage: PipelineStage | null = null
+
+    if (validation.data.status !== undefined || validation.data.pipeline_id !== undefined) {
+      const { data: existingDeal, error: existingError } = await supabase
+        .from('deals')
+        .select('status, pipeline_id')
+        .eq('id', resolvedParams.id)
+        .eq('user_id', user.id)
+        .single()
+
+      if (existingError || !existingDeal) {
+        return NextResponse.json({ error: 'Deal not found' }, { status: 404 })
+      }
+
+      const pipeline = await getPipelineForUser(
+        supabase,
+        user.id,
+        validation.data.pipeline_id ?? existingDeal.pipeline_id
+      )
+      // Moving pipelines without a stage drops the deal into the new pipeline's first open stage
+      const stage = validation.data.status !== undefined
+        ? findStage(pipeline.stages, validation.data.status)
+        : findStage(pipeline.stages, existingDeal.status) || getInitialStage(pipeline.stages)
+
+      if (!stage) {
+        return NextResponse.json({
+          error: 'Validation failed',
+          details: [{ field: 'status', message: `"${validation.data.status}" is not a stage in the ${pipeline.name} pipeline` }]
+        }, { status: 400 })
+      }
+
+      if (stage.name !== existingDeal.status) {
+        const violation = await checkStageTransition(supabase, {
+          dealId: resolvedParams.id,
+          userId: user.id,
+          toStage: stage,
+          reason: validation.data.stage_change_reason
+        })
+
+        if (violation) {
+          return NextResponse.json({
+            error: violation.message,
+            code: violation.code,
+            details: [{ field: violation.field, message: violation.message }]
+          }, { status: 422 })
+        }
+      }
+
+      previousStatus = existingDeal.status
+      status = stage.name
+      stageCategory = stage.category
+      newStage = stage
+      pipelineId = pipeline.id === DEFAULT_PIPELINE_ID ? null : pipeline.id
+      if (probability === undefined && stage.name !== existingDeal.status) {
+        probability = stage.probability
+      }
+    }
+
+    let customFields: Record<string, unknown> | undefined
+    if (validation.data.custom_fields) {
+      const { data: existingDeal } = await supabase
+        .from('deals')
+        .select('custom_fields')
+        .eq('id', resolvedParams.id)
+        .eq('user_id', user.id)
+        .single()
+
+      if (!existingDeal) {
+        return NextResponse.json({ error: 'Deal not found' }, { status: 404 })
+      }
+
+      const { values, errors } = await resolveCustomFieldValues(
+        supabase, user.id, 'deals', validation.data.custom_fields, existingDeal.custom_fields || {}
+      )
+      if (errors.length > 0) {
+        return NextResponse.json({ error: 'Validation failed', details: errors }, { status: 400 })
+      }
+      customFields = values
+    }
+
+    if (validation.data.household_id) {
+      const { data: existingDeal } = await supabase
+        .from('deals')
+        .select('client_id')
+        .eq('id', resolvedParams.id)
+        .eq('user_id', user.id)
+        .single()
+
+      if (!existingDeal) {
+        return NextResponse.json({ error: 'Deal not found' }, { status: 404 })
+      }
+
+      const { data: client } = await supabase
+        .from('clients')
+        .select('household_id')
+        .eq('id', existingDeal.client_id)
+        .eq('user_id', user.id)
+        .single()
+
+      if (client?.household_id !== validation.data.household_id) {
+        return NextResponse.json({
+          error: 'Validation failed',
+          details: [{ field: 'household_id', message: 'The client is not a member of this household' }]
+        }, { status: 400 })
+      }
+    }
+
     const { data: deal, error } = await supabase
       .from('deals')
       .update({
         title,
         value,
         status,
+        pipeline_id: pipelineId,
         probability,
         expected_close_date,
         commission,
@@ -102,6 +228,8 @@ export async function PUT(
         property_bedrooms,
         property_bathrooms,
         property_sqft,
+        household_id: validation.data.household_id,
+        custom_fields: customFields,
       })
       .eq('id', resolvedParams.id)
       .eq('user_id', user.id)
@@ -122,6 +250,66 @@ export async function PUT(
       return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
+    if (status && status !== previousStatus) {
+      await recordStageTransition(supabase, {
+        dealId: resolvedParams.id,
+        userId: user.id,
+        changedBy: user.id,
+        fromStage: previousStatus,
+        toStage: status,
+        pipelineId,
+        reason: validation.data.stage_change_reason
+      })
+
+      // Same trigger the pipeline-executor endpoint handles. Awaited so the work
+      // finishes before the function is frozen; a failing automation is logged
+      // and doesn't fail the stage change
+      try {
+        await executePipelineTrigger(supabase, {
+          trigger_type: 'deal_stage_change',
+          entity_type: 'deal',
+          entity_id: resolvedParams.id,
+          trigger_data: {
+            from_stage: previousStatus,
+            to_stage: status,
+            pipeline_id: pipelineId ?? null,
+            reason: validation.data.stage_change_reason || null
+          }
+        })
+      } catch (e) {
+        console.warn('Deal stage automation failed:', e)
+      }
+
+      // Under contract, closed and lost move the client along their lifecycle
+      if (newStage) {
+        try {
+          await applyDealStageToClient(supabase, user.id, deal, newStage)
+        } catch (e) {
+          console.warn('Client lifecycle update failed:', e)
+        }
+      }
+
+      // Closing a deal drafts the CDA for its transaction, ready for broker approval
+      if (stageCategory === 'won') {
+        try {
+          const { data: transaction } = await supabase
+            .from('transactions')
+            .select('id')
+            .eq('deal_id', resolvedParams.id)
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+
+          if (transaction) {
+            await generateCommissionDisbursement(supabase, user.id, transaction.id)
+          }
+        } catch (e) {
+          console.warn('CDA draft generation failed:', e)
+        }
+      }
+    }
+
     return NextResponse.json(deal)
   } catch (error) {
     return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
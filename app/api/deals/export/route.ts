@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getUserCustomFields } from '@/lib/custom-fields/definitions'
+import { applyCustomFieldFilters, formatCustomFieldValue, parseCustomFieldFilters } from '@/lib/custom-fields/fields'
 
 export async function GET(request: NextRequest) {
   try {
@@ -60,6 +62,9 @@ export async function GET(request: NextRequest) {
       query = query.lte('expected_close_date', dateTo)
     }
 
+    const customFields = await getUserCustomFields(supabase, user.id, 'deals')
+    query = applyCustomFieldFilters(query, customFields, parseCustomFieldFilters(searchParams, customFields))
+
     const { data: deals, error } = await query
 
     if (error) {
@@ -84,7 +89,8 @@ export async function GET(request: NextRequest) {
       'Commission',
       'Probability %',
       'Expected Close Date',
-      'Created Date'
+      'Created Date',
+      ...customFields.map(field => field.label)
     ]
 
     const csvRows = deals?.map(deal => {
@@ -109,7 +115,8 @@ export async function GET(request: NextRequest) {
         deal.commission || '',
         deal.probability || '',
         deal.expected_close_date || '',
-        new Date(deal.created_at).toLocaleDateString()
+        new Date(deal.created_at).toLocaleDateString(),
+        ...customFields.map(field => formatCustomFieldValue(field, deal.custom_fields?.[field.key]))
       ].map(field => {
         // Escape quotes and wrap in quotes if contains comma, quote, or newline
         const stringField = String(field)
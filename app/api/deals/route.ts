@@ -3,13 +3,25 @@ import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
 import { LeadScoringService } from '@/lib/lead-scoring/lead-service'
 import { LeadScoringActivities } from '@/lib/lead-scoring-utils'
+import { getPipelineForUser } from '@/lib/pipeline/definitions'
+import { findStage, getInitialStage, DEFAULT_PIPELINE_ID } from '@/lib/pipeline/stages'
+import { recordStageTransition } from '@/lib/pipeline/stage-history'
+import { getUserCustomFields, resolveCustomFieldValues } from '@/lib/custom-fields/definitions'
+import {
+  applyCustomFieldFilters,
+  getCustomFieldSearchConditions,
+  parseCustomFieldFilters
+} from '@/lib/custom-fields/fields'
 
 const createDealSchema = z.object({
   client_id: z.string().uuid('Invalid client ID'),
+  // Set when the client's whole household is the party on the deal
+  household_id: z.string().uuid('Invalid household ID').nullable().optional(),
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
   value: z.coerce.number().min(0, 'Value must be positive').optional(),
-  // Aligned with DB migration enum
-  status: z.enum(['Qualified', 'In Progress', 'Under Contract', 'Closed', 'Lost']).default('Qualified'),
+  // Validated against the tenant's pipeline definition below
+  status: z.string().max(60, 'Status too long').optional(),
+  pipeline_id: z.string().max(100).optional(),
   probability: z.coerce.number().min(0).max(100, 'Probability must be 0-100').optional(),
   expected_close_date: z.string().optional(),
   commission: z.coerce.number().min(0, 'Commission must be positive').optional(),
@@ -17,7 +29,8 @@ const createDealSchema = z.object({
   property_type: z.string().max(50, 'Property type too long').optional(),
   property_bedrooms: z.coerce.number().min(0).max(50).optional(),
   property_bathrooms: z.coerce.number().min(0).max(50).optional(),
-  property_sqft: z.coerce.number().min(0).max(1000000).optional()
+  property_sqft: z.coerce.number().min(0).max(1000000).optional(),
+  custom_fields: z.record(z.unknown()).optional()
 })
 
 export async function GET(request: NextRequest) {
@@ -33,7 +46,9 @@ export async function GET(request: NextRequest) {
     const search = searchParams.get('search')
     const status = searchParams.get('status')
     const clientId = searchParams.get('client_id')
-    
+    const pipelineId = searchParams.get('pipeline_id')
+    const customFields = await getUserCustomFields(supabase, user.id, 'deals')
+
     let query = supabase
       .from('deals')
       .select(`
@@ -51,7 +66,11 @@ export async function GET(request: NextRequest) {
     if (search) {
       // Optimized search to prevent ReDoS or overly complex SQL
       const cleanSearch = search.replace(/[^\w\s]/gi, '').trim();
-      query = query.or(`title.ilike.%${cleanSearch}%,property_address.ilike.%${cleanSearch}%`)
+      query = query.or([
+        `title.ilike.%${cleanSearch}%`,
+        `property_address.ilike.%${cleanSearch}%`,
+        ...getCustomFieldSearchConditions(customFields, cleanSearch)
+      ].join(','))
     }
 
     if (status) {
@@ -62,6 +81,14 @@ export async function GET(request: NextRequest) {
       query = query.eq('client_id', clientId)
     }
 
+    if (pipelineId) {
+      query = pipelineId === DEFAULT_PIPELINE_ID
+        ? query.is('pipeline_id', null)
+        : query.eq('pipeline_id', pipelineId)
+    }
+
+    query = applyCustomFieldFilters(query, customFields, parseCustomFieldFilters(searchParams, customFields))
+
     const { data: deals, error } = await query
 
     if (error) {
@@ -90,7 +117,7 @@ export async function POST(request: NextRequest) {
 
     const { data: client, error: clientError } = await supabase
       .from('clients')
-      .select('id, status')
+      .select('id, status, household_id')
       .eq('id', validatedData.client_id)
       .eq('user_id', user.id)
       .single()
@@ -99,11 +126,44 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Client not found or access denied' }, { status: 404 })
     }
 
+    if (validatedData.household_id && validatedData.household_id !== client.household_id) {
+      return NextResponse.json({
+        error: 'Validation error',
+        details: [{ path: ['household_id'], message: 'The client is not a member of this household' }]
+      }, { status: 400 })
+    }
+
+    const pipeline = await getPipelineForUser(supabase, user.id, validatedData.pipeline_id)
+    const stage = validatedData.status
+      ? findStage(pipeline.stages, validatedData.status)
+      : getInitialStage(pipeline.stages)
+
+    if (!stage) {
+      return NextResponse.json({
+        error: 'Validation error',
+        details: [{ path: ['status'], message: `"${validatedData.status}" is not a stage in the ${pipeline.name} pipeline` }]
+      }, { status: 400 })
+    }
+
+    const { values: customFieldValues, errors: customFieldErrors } = await resolveCustomFieldValues(
+      supabase, user.id, 'deals', validatedData.custom_fields
+    )
+    if (customFieldErrors.length > 0) {
+      return NextResponse.json({
+        error: 'Validation error',
+        details: customFieldErrors.map(e => ({ path: e.field.split('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
     // Insert deal
     const { data: deal, error } = await supabase
       .from('deals')
       .insert({
         ...validatedData,
+        status: stage.name,
+        probability: validatedData.probability ?? stage.probability,
+        pipeline_id: pipeline.id === DEFAULT_PIPELINE_ID ? null : pipeline.id,
+        custom_fields: customFieldValues,
         user_id: user.id,
       })
       .select(`*, clients(id, first_name, last_name, email)`)
@@ -137,6 +197,17 @@ export async function POST(request: NextRequest) {
       }
     })()
 
+    // Opening entry so time-in-stage is measured from creation. Awaited so it
+    // is written before the function is frozen
+    await recordStageTransition(supabase, {
+      dealId: deal.id,
+      userId: user.id,
+      changedBy: user.id,
+      fromStage: null,
+      toStage: stage.name,
+      pipelineId: deal.pipeline_id
+    })
+
     return NextResponse.json(deal, { status: 201 })
   } catch (error) {
     if (error instanceof z.ZodError) {
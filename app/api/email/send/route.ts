@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth/utils'
 import { createClient } from '@/lib/supabase/server'
 import { Resend } from 'resend'
+import { getHouseholdRecipients } from '@/lib/clients/households'
+import { buildUnsubscribeFooter, findClientIdsByEmail, getOptedOutClientIds, isUnsubscribeConfigured } from '@/lib/clients/consent-records'
 
 const fromEmail = process.env.FROM_EMAIL || 'noreply@dealvize.com'
 
@@ -11,7 +13,7 @@ export async function POST(request: NextRequest) {
     const supabase = await createClient()
     
     const body = await request.json()
-    const { to, subject, message, clientId, templateId } = body
+    const { to, subject, message, clientId, templateId, includeHousehold } = body
 
     // Validate required fields
     if (!to || !subject || !message) {
@@ -27,6 +29,14 @@ export async function POST(request: NextRequest) {
       }, { status: 503 })
     }
 
+    // Every client email carries a signed unsubscribe link
+    if (!isUnsubscribeConfigured()) {
+      console.error('UNSUBSCRIBE_SECRET is not configured; refusing to send email')
+      return NextResponse.json({
+        error: 'Email service not configured. Please contact your administrator.'
+      }, { status: 503 })
+    }
+
     const resend = new Resend(process.env.RESEND_API_KEY);
 
     // Validate email format
@@ -35,6 +45,33 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid email format' }, { status: 400 })
     }
 
+    // Refuse clients who have opted out of email, whether or not the caller
+    // passed the client ID
+    const recipientClientId: string | null = clientId || (await findClientIdsByEmail(supabase, to, user.id))[0]?.id || null
+
+    // Household members each get their own copy, so each unsubscribe link
+    // opts out the person who clicked it
+    const householdCandidates = includeHousehold && clientId
+      ? (await getHouseholdRecipients(supabase, user.id, clientId))
+          .filter(recipient => recipient.email.toLowerCase() !== to.toLowerCase())
+      : []
+
+    const optedOut = await getOptedOutClientIds(
+      supabase,
+      user.id,
+      [recipientClientId, ...householdCandidates.map(recipient => recipient.client_id)].filter(Boolean) as string[],
+      'email'
+    )
+
+    if (recipientClientId && optedOut.has(recipientClientId)) {
+      return NextResponse.json({
+        error: 'This contact has opted out of email messages',
+        code: 'CONTACT_OPTED_OUT'
+      }, { status: 403 })
+    }
+
+    const householdRecipients = householdCandidates.filter(recipient => !optedOut.has(recipient.client_id))
+
     // Get user info for reply-to
     const { data: userProfile } = await supabase
       .from('profiles')
@@ -48,33 +85,51 @@ export async function POST(request: NextRequest) {
 
     const replyTo = userProfile?.email || user.email
 
+    const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin
+    const recipients = [
+      { client_id: recipientClientId, email: to },
+      ...householdRecipients.map(recipient => ({ client_id: recipient.client_id as string | null, email: recipient.email }))
+    ]
+
     try {
-      // Send email via Resend
-      const emailResponse = await resend.emails.send({
-        from: `${senderName} <${fromEmail}>`,
-        to: [to],
-        subject: subject,
-        text: message,
-        html: message.replace(/\n/g, '<br>'),
-        replyTo: replyTo
-      })
+      // Send email via Resend, one message per recipient
+      const sends: { client_id: string | null; email: string; messageId?: string; error?: any }[] = []
+      for (const recipient of recipients) {
+        const footer = recipient.client_id ? buildUnsubscribeFooter(origin, user.id, recipient.client_id) : null
+        try {
+          const emailResponse = await resend.emails.send({
+            from: `${senderName} <${fromEmail}>`,
+            to: recipient.email,
+            subject: subject,
+            text: message + (footer?.text || ''),
+            html: message.replace(/\n/g, '<br>') + (footer?.html || ''),
+            replyTo: replyTo,
+            headers: footer ? { 'List-Unsubscribe': `<${footer.url}>` } : undefined
+          })
+          sends.push({ ...recipient, messageId: emailResponse.data?.id })
+        } catch (error) {
+          console.error(`Failed to send email to ${recipient.email}:`, error)
+          sends.push({ ...recipient, error })
+        }
+      }
+
+      const delivered = sends.filter(send => !send.error)
+      if (delivered.length === 0) throw sends[0].error
 
       // Log the email in the database
-      const { data: emailLog, error: logError } = await supabase
+      const { error: logError } = await supabase
         .from('email_logs')
-        .insert({
+        .insert(sends.map(send => ({
           user_id: user.id,
-          client_id: clientId || null,
+          client_id: send.client_id,
           template_id: templateId || null,
-          to_email: to,
+          to_email: send.email,
           subject: subject,
           message_content: message,
-          resend_message_id: emailResponse.data?.id,
-          status: 'sent',
+          resend_message_id: send.messageId,
+          status: send.error ? 'failed' : 'sent',
           created_at: new Date().toISOString()
-        })
-        .select()
-        .single()
+        })))
 
       if (logError) {
         console.error('Failed to log email:', logError)
@@ -89,7 +144,7 @@ export async function POST(request: NextRequest) {
             last_contact: new Date().toISOString(),
             updated_at: new Date().toISOString()
           })
-          .eq('id', clientId)
+          .in('id', delivered.flatMap(send => send.client_id ? [send.client_id] : []))
           .eq('user_id', user.id)
       }
 
@@ -107,8 +162,9 @@ export async function POST(request: NextRequest) {
 
       return NextResponse.json({
         success: true,
-        messageId: emailResponse.data?.id,
-        status: 'sent'
+        messageId: delivered[0].messageId,
+        status: 'sent',
+        recipients: delivered.map(send => send.email)
       })
 
     } catch (resendError: any) {
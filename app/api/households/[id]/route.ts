@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { deleteHousehold, getHousehold, updateHousehold } from '@/lib/clients/households'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const updateHouseholdSchema = z.object({
+  name: z.string().trim().max(100, 'Household name too long').optional(),
+  address: z.string().max(255, 'Address too long').nullable().optional(),
+  add_member_ids: z.array(z.string().uuid('Invalid client ID')).max(20, 'Too many members').optional(),
+  remove_member_ids: z.array(z.string().uuid('Invalid client ID')).optional(),
+  apply_address_to_members: z.boolean().optional()
+})
+
+function householdErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${fallback}:`, error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid household ID format' }, { status: 400 })
+    }
+
+    try {
+      const household = await getHousehold(supabase, user.id, id)
+      return NextResponse.json({ household })
+    } catch (error) {
+      return householdErrorResponse(error, 'Failed to load household')
+    }
+  } catch (error) {
+    console.error('Error fetching household:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid household ID format' }, { status: 400 })
+    }
+
+    const validation = updateHouseholdSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    try {
+      const household = await updateHousehold(supabase, user.id, id, validation.data)
+      return NextResponse.json({ household })
+    } catch (error) {
+      return householdErrorResponse(error, 'Failed to update household')
+    }
+  } catch (error) {
+    console.error('Error updating household:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid household ID format' }, { status: 400 })
+    }
+
+    try {
+      await deleteHousehold(supabase, user.id, id)
+      return NextResponse.json({ message: 'Household deleted successfully' })
+    } catch (error) {
+      return householdErrorResponse(error, 'Failed to delete household')
+    }
+  } catch (error) {
+    console.error('Error deleting household:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
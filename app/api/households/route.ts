@@ -0,0 +1,64 @@
+/**
+ * Households API
+ * Clients who share an address and can act together as one party on a deal
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { createHousehold, listHouseholds } from '@/lib/clients/households'
+
+const householdSchema = z.object({
+  name: z.string().trim().max(100, 'Household name too long').optional(),
+  address: z.string().max(255, 'Address too long').nullable().optional(),
+  member_ids: z.array(z.string().uuid('Invalid client ID')).max(20, 'Too many members').default([])
+})
+
+export async function GET() {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+
+    try {
+      const households = await listHouseholds(supabase, user.id)
+      return NextResponse.json({ households })
+    } catch (error) {
+      console.error('Failed to load households:', error)
+      return NextResponse.json({ error: 'Failed to load households' }, { status: 500 })
+    }
+  } catch (error) {
+    console.error('Error fetching households:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+
+    const validation = householdSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    try {
+      const household = await createHousehold(supabase, user.id, validation.data)
+      return NextResponse.json({ household }, { status: 201 })
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+      }
+      console.error('Failed to create household:', error)
+      return NextResponse.json({ error: 'Failed to create household' }, { status: 500 })
+    }
+  } catch (error) {
+    console.error('Error creating household:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { AppError } from '@/lib/errors'
+import { rollbackImportBatch } from '@/lib/import/engine'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const batch = await rollbackImportBatch(supabase, user.id, id)
+    return NextResponse.json({ batch })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error rolling back import:', error)
+    return NextResponse.json({ error: 'Failed to roll back import' }, { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isImportEntityType } from '@/lib/import/entities'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const type = new URL(request.url).searchParams.get('type')
+
+    let query = supabase
+      .from('import_batches')
+      .select('id, entity_type, file_name, status, total_rows, created_count, updated_count, error_count, created_at, completed_at, rolled_back_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    if (isImportEntityType(type)) {
+      query = query.eq('entity_type', type)
+    }
+
+    const { data: batches, error } = await query
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ batches: batches || [] })
+  } catch (error) {
+    console.error('Error in GET /api/import/batches:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
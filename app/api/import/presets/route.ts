@@ -0,0 +1,108 @@
+/**
+ * Import Presets API
+ * List built-in and saved presets, save a column mapping as a preset, or
+ * remove a saved one
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { isImportEntityType } from '@/lib/import/entities'
+import { sanitizePreset } from '@/lib/import/presets'
+import { deleteImportPreset, getImportPresets, saveImportPreset } from '@/lib/import/saved-presets'
+
+const presetSchema = z.object({
+  name: z.string().trim().min(1, 'Preset name is required').max(100, 'Preset name is too long'),
+  entity_type: z.enum(['clients', 'deals', 'tasks']),
+  source: z.string().max(100).optional().nullable(),
+  description: z.string().max(500).optional().nullable(),
+  column_mapping: z.record(z.string()),
+  value_maps: z.record(z.record(z.string())).optional()
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const type = new URL(request.url).searchParams.get('type')
+    const presets = await getImportPresets(supabase, user.id, isImportEntityType(type) ? type : undefined)
+
+    return NextResponse.json({ presets })
+  } catch (error) {
+    console.error('Error in GET /api/import/presets:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const validation = presetSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    const { name, entity_type, source, description, column_mapping, value_maps } = validation.data
+    if (Object.keys(sanitizePreset(entity_type, column_mapping).columns).length === 0) {
+      return NextResponse.json({ error: 'Map at least one column before saving a preset' }, { status: 400 })
+    }
+
+    const preset = await saveImportPreset(supabase, user.id, {
+      name,
+      entity: entity_type,
+      source,
+      description,
+      columns: column_mapping,
+      valueMaps: value_maps
+    })
+
+    return NextResponse.json({ preset }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error in POST /api/import/presets:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/import/presets?id=<preset id>
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const presetId = new URL(request.url).searchParams.get('id')
+    if (!presetId) {
+      return NextResponse.json({ error: 'Preset ID is required' }, { status: 400 })
+    }
+
+    await deleteImportPreset(supabase, user.id, presetId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error in DELETE /api/import/presets:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Import API
+ * CSV import for clients, deals and tasks: preview, dry run or commit as a batch
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { AppError } from '@/lib/errors'
+import { CsvParseError } from '@/lib/import/csv'
+import { isImportEntityType } from '@/lib/import/entities'
+import { getImportRequest, runImport } from '@/lib/import/engine'
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const type = formData.get('type') as string | null
+    if (!isImportEntityType(type)) {
+      return NextResponse.json({ error: 'Import type must be one of clients, deals or tasks' }, { status: 400 })
+    }
+
+    const { file, options } = getImportRequest(formData, type)
+    const result = await runImport(supabase, user.id, file.stream(), options)
+
+    return NextResponse.json(result, { status: result.batchId ? 201 : 200 })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    if (error instanceof CsvParseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error in POST /api/import:', error)
+    return NextResponse.json({
+      error: 'Import failed; no records were changed',
+      details: error instanceof Error ? error.message : undefined
+    }, { status: 500 })
+  }
+}
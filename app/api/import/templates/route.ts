@@ -1,4 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { IMPORT_ENTITIES, CLIENT_STATUSES, TASK_PRIORITIES, TASK_STATUSES, type ImportEntityType } from '@/lib/import/entities'
+import { getBuiltInPresets } from '@/lib/import/presets'
+import { DEFAULT_PIPELINE_STAGES } from '@/lib/pipeline/stages'
+
+// Required and optional columns come from the import engine's field definitions
+function describeFields(type: ImportEntityType) {
+  const { fields } = IMPORT_ENTITIES[type]
+  return {
+    required_fields: fields.filter(field => field.required).map(field => field.key),
+    optional_fields: fields.filter(field => !field.required).map(field => field.key),
+    fields: fields.map(({ key, label, required, description }) => ({ key, label, required: !!required, description })),
+    // Exports from other CRMs that import without manual mapping
+    presets: getBuiltInPresets(type).map(({ id, name, source, description }) => ({ id, name, source, description }))
+  }
+}
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
@@ -19,9 +34,9 @@ export async function GET(request: NextRequest) {
 
       case 'deals':
         csvContent = 'title,client_name,value,status,property_address,property_type,expected_close_date\n' +
-                    'Downtown Condo Sale,John Doe,450000,active,"123 Main St, Downtown",Condo,2024-03-15\n' +
-                    'Suburban House Purchase,Jane Smith,650000,negotiating,"456 Oak Ave, Suburbs",House,2024-04-20\n' +
-                    'Commercial Property,Bob Johnson,1200000,lead,"789 Business Blvd",Commercial,2024-05-10'
+                    'Downtown Condo Sale,John Doe,450000,In Progress,"123 Main St, Downtown",Condo,2024-03-15\n' +
+                    'Suburban House Purchase,Jane Smith,650000,Under Contract,"456 Oak Ave, Suburbs",House,2024-04-20\n' +
+                    'Commercial Property,Bob Johnson,1200000,Lead,"789 Business Blvd",Commercial,2024-05-10'
         filename = 'deals_import_template.csv'
         break
 
@@ -57,10 +72,9 @@ export async function POST(request: NextRequest) {
       {
         type: 'clients',
         name: 'Client Import Template',
-        description: 'Import client contacts with name, email, phone, address, company, and status.',
-        required_fields: ['name', 'email'],
-        optional_fields: ['phone', 'address', 'company', 'status'],
-        valid_statuses: ['Buyer', 'Seller', 'In Contract'],
+        description: 'Import client contacts with name, email, phone, address, company, and status. Existing clients can be updated by email.',
+        ...describeFields('clients'),
+        valid_statuses: CLIENT_STATUSES,
         sample_count: 3,
         download_url: '/api/import/templates?type=clients'
       },
@@ -68,9 +82,9 @@ export async function POST(request: NextRequest) {
         type: 'deals',
         name: 'Deal Import Template', 
         description: 'Import deals with title, client, value, status, property details, and expected close date.',
-        required_fields: ['title', 'client_name', 'value'],
-        optional_fields: ['status', 'property_address', 'property_type', 'expected_close_date'],
-        valid_statuses: ['lead', 'active', 'negotiating', 'under_contract', 'won', 'lost'],
+        ...describeFields('deals'),
+        // Default pipeline; tenants with custom pipelines use their own stage names
+        valid_statuses: DEFAULT_PIPELINE_STAGES.map(stage => stage.name),
         sample_count: 3,
         download_url: '/api/import/templates?type=deals'
       },
@@ -78,10 +92,9 @@ export async function POST(request: NextRequest) {
         type: 'tasks',
         name: 'Task Import Template',
         description: 'Import tasks with title, description, due date, priority, and assigned client.',
-        required_fields: ['title'],
-        optional_fields: ['description', 'due_date', 'priority', 'status', 'client_name'],
-        valid_priorities: ['Low', 'Medium', 'High'],
-        valid_statuses: ['Pending', 'In Progress', 'Completed'],
+        ...describeFields('tasks'),
+        valid_priorities: TASK_PRIORITIES,
+        valid_statuses: TASK_STATUSES,
         sample_count: 3,
         download_url: '/api/import/templates?type=tasks'
       }
@@ -93,14 +106,18 @@ export async function POST(request: NextRequest) {
         format: 'CSV (Comma Separated Values)',
         requirements: [
           'First row must contain column headers',
-          'Use double quotes around fields containing commas',
-          'Date format should be YYYY-MM-DD',
+          'Use double quotes around fields containing commas, quotes or line breaks',
+          'Date format should be YYYY-MM-DD (M/D/YYYY is also accepted)',
           'Phone format can be (555) 123-4567 or 555-123-4567',
-          'Status values are case-sensitive'
+          'Client and deal names are matched to existing clients'
         ],
         tips: [
           'Download the template file to see the exact format',
-          'You can add or remove optional columns as needed',
+          'Columns with other headers can be mapped to fields, or to custom fields, before importing',
+          'Preview and dry-run an import to check it before anything is saved',
+          'Exports from Follow Up Boss, kvCORE, LionDesk and Wise Agent can be imported with a preset',
+          'A column mapping can be saved as a preset for the rest of your team',
+          'A completed import can be rolled back from the import history',
           'Empty rows will be skipped during import',
           'Invalid data will be reported with row numbers'
         ]
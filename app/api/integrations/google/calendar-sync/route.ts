@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { getCalendarSyncIntegration, syncUserCalendar } from '@/lib/calendar/google-sync'
+
+export async function POST() {
+    try {
+        const user = await requireAuth()
+        const supabase = await createClient()
+
+        const integration = await getCalendarSyncIntegration(supabase, user.id)
+        if (!integration) {
+            return NextResponse.json({
+                error: 'Reconnect Google to allow Dealvize to add events to your calendar',
+                code: 'CALENDAR_WRITE_ACCESS_REQUIRED'
+            }, { status: 400 })
+        }
+
+        const summary = await syncUserCalendar(supabase, user.id, integration)
+
+        return NextResponse.json({ success: summary.errors.length === 0, ...summary })
+    } catch (error) {
+        console.error('Google Calendar sync error:', error)
+        return NextResponse.json({ error: 'Failed to sync calendar' }, { status: 500 })
+    }
+}
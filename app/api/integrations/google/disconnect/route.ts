@@ -56,6 +56,12 @@ export async function POST() {
             .eq('user_id', user.id)
             .in('provider', ['gmail', 'calendar'])
 
+        // Events already on Google stay there but no longer sync
+        await supabase
+            .from('calendar_sync_links')
+            .delete()
+            .eq('user_id', user.id)
+
         return NextResponse.json({ success: true })
     } catch (error) {
         console.error('Google disconnect error:', error)
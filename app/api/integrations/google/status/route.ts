@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/auth/utils'
+import { hasCalendarWriteAccess } from '@/lib/calendar/google-sync'
 
 export async function GET() {
     try {
@@ -24,6 +25,7 @@ export async function GET() {
             connected: !isExpired,
             email: integration.metadata?.email,
             scopes: integration.scopes,
+            calendar_sync: hasCalendarWriteAccess(integration),
             expires_at: integration.expires_at,
             last_sync: integration.updated_at
         })
@@ -0,0 +1,78 @@
+/**
+ * Listing Match API
+ * Rank buyer clients for a listing, either entered by hand or parsed out of
+ * a listing email
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { EmailParser } from '@/lib/smart-import/email-parser'
+import { matchListing } from '@/lib/clients/search-profiles'
+import type { PropertyDetails } from '@/lib/smart-import/types'
+
+const listingSchema = z.object({
+  address: z.string().max(500),
+  price: z.number().min(0).optional(),
+  bedrooms: z.number().min(0).optional(),
+  bathrooms: z.number().min(0).optional(),
+  sqft: z.number().min(0).optional(),
+  propertyType: z.string().max(50).optional(),
+  description: z.string().max(10000).optional(),
+  features: z.array(z.string().max(100)).optional()
+}).passthrough()
+
+const matchSchema = z.object({
+  listing: listingSchema.optional(),
+  emailContent: z.string().min(10, 'Email content is too short').max(100000).optional(),
+  minScore: z.number().min(0).max(100).optional(),
+  limit: z.number().int().min(1).max(100).optional()
+}).refine(data => data.listing || data.emailContent, {
+  message: 'A listing or listing email is required',
+  path: ['listing']
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+
+    const validation = matchSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    const { emailContent, minScore, limit } = validation.data
+    let listing = validation.data.listing as PropertyDetails | undefined
+
+    if (!listing && emailContent) {
+      const parsed = EmailParser.parsePropertyEmail(emailContent)
+      if (!parsed.data) {
+        return NextResponse.json({
+          error: 'Could not find listing details in the email',
+          details: (parsed.errors || []).map(message => ({ field: 'emailContent', message }))
+        }, { status: 422 })
+      }
+      listing = parsed.data
+    }
+
+    try {
+      const matches = await matchListing(supabase, user.id, listing!, { minScore, limit })
+      return NextResponse.json({ listing, matches })
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+      }
+      console.error('Failed to match listing:', error)
+      return NextResponse.json({ error: 'Failed to match listing' }, { status: 500 })
+    }
+  } catch (error) {
+    console.error('Error matching listing:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Milestone Templates API
+ * Per-tenant transaction milestone templates, one per transaction type
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { withRBAC } from '@/lib/rbac/middleware'
+import { getActiveTenantId } from '@/lib/pipeline/definitions'
+import { getDefaultMilestoneTemplate, TRANSACTION_TYPES, type TransactionType } from '@/lib/transactions/milestone-templates'
+import { getTenantMilestoneTemplates } from '@/lib/transactions/milestones'
+import { wouldCreateCycle } from '@/lib/tasks/dependencies'
+import { z } from 'zod'
+
+const templateItemSchema = z.object({
+  milestone: z.string().min(1, 'Milestone name is required').max(100, 'Milestone name too long'),
+  anchor: z.enum(['contract', 'closing']),
+  offset_days: z.coerce.number().int().min(-365).max(365, 'Offset must be within a year'),
+  notes: z.string().max(500, 'Notes too long').optional(),
+  priority: z.enum(['low', 'medium', 'high']).default('medium'),
+  create_task: z.boolean().default(true),
+  blocked_by: z.array(z.string().min(1).max(100)).max(10).optional()
+})
+
+const TemplateSchema = z.object({
+  transaction_type: z.enum(TRANSACTION_TYPES as [TransactionType, ...TransactionType[]]),
+  items: z.array(templateItemSchema).max(30, 'Too many milestones')
+}).superRefine((template, ctx) => {
+  // Milestone tasks are linked by name, so the blocked_by lists must not loop
+  const links: { task_id: string; blocked_by_task_id: string }[] = []
+  template.items.forEach((item, index) => {
+    for (const blocker of item.blocked_by || []) {
+      if (wouldCreateCycle(links, item.milestone, blocker)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['items', index, 'blocked_by'],
+          message: `${item.milestone} and ${blocker} cannot wait on each other`
+        })
+      }
+      links.push({ task_id: item.milestone, blocked_by_task_id: blocker })
+    }
+  })
+})
+
+// GET - Templates for the current user's tenant, one per transaction type
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = await getActiveTenantId(supabase, user.id)
+    const templates = await getTenantMilestoneTemplates(supabase, tenantId)
+
+    return NextResponse.json({ templates })
+  } catch (error) {
+    console.error('Error in GET /api/milestone-templates:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Replace the tenant's template for a transaction type
+export async function PUT(request: NextRequest) {
+  return withRBAC(request, async (req, context) => {
+    try {
+      const supabase = await createClient()
+      const body = await req.json()
+      const validatedData = TemplateSchema.parse(body)
+
+      const { data: template, error } = await supabase
+        .from('milestone_templates')
+        .upsert({
+          tenant_id: context.tenantId,
+          transaction_type: validatedData.transaction_type,
+          items: validatedData.items.map(item => ({ ...item, milestone: item.milestone.trim() })),
+          updated_by: context.userId,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'tenant_id,transaction_type' })
+        .select('id, tenant_id, transaction_type, items')
+        .single()
+
+      if (error) {
+        console.error('Error saving milestone template:', error)
+        return NextResponse.json({ error: 'Failed to save milestone template' }, { status: 500 })
+      }
+
+      return NextResponse.json({ template })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json({
+          error: 'Validation error',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        }, { status: 400 })
+      }
+      console.error('Error in PUT /api/milestone-templates:', error)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  }, {
+    resource: 'settings',
+    action: 'manage',
+    requireTenant: true
+  })
+}
+
+// DELETE - Reset a transaction type back to the built-in template
+export async function DELETE(request: NextRequest) {
+  return withRBAC(request, async (req, context) => {
+    try {
+      const supabase = await createClient()
+      const transactionType = new URL(req.url).searchParams.get('transaction_type') as TransactionType | null
+
+      if (!transactionType || !TRANSACTION_TYPES.includes(transactionType)) {
+        return NextResponse.json({ error: 'A valid transaction type is required' }, { status: 400 })
+      }
+
+      const { error } = await supabase
+        .from('milestone_templates')
+        .delete()
+        .eq('tenant_id', context.tenantId)
+        .eq('transaction_type', transactionType)
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+
+      return NextResponse.json({ template: getDefaultMilestoneTemplate(transactionType) })
+    } catch (error) {
+      console.error('Error in DELETE /api/milestone-templates:', error)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  }, {
+    resource: 'settings',
+    action: 'manage',
+    requireTenant: true
+  })
+}
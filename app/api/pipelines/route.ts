@@ -0,0 +1,219 @@
+/**
+ * Pipeline Definitions API
+ * Per-tenant deal pipelines: ordered stages with a category and default probability
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { withRBAC } from '@/lib/rbac/middleware'
+import { getUserPipelines } from '@/lib/pipeline/definitions'
+import { slugifyStageName, validatePipelineStages, STAGE_COLORS } from '@/lib/pipeline/stages'
+import { z } from 'zod'
+
+const stageSchema = z.object({
+  id: z.string().max(60).optional(),
+  name: z.string().min(1, 'Stage name is required').max(60, 'Stage name too long'),
+  category: z.enum(['open', 'won', 'lost']),
+  probability: z.coerce.number().min(0).max(100, 'Probability must be 0-100'),
+  color: z.enum(STAGE_COLORS).default('gray'),
+  requires_transaction: z.boolean().optional(),
+  requires_reason: z.boolean().optional()
+})
+
+const PipelineSchema = z.object({
+  name: z.string().min(1, 'Pipeline name is required').max(100, 'Pipeline name too long'),
+  stages: z.array(stageSchema).min(1, 'At least one stage is required').max(20, 'Too many stages'),
+  is_default: z.boolean().optional(),
+  position: z.coerce.number().int().min(0).optional()
+})
+
+function normalizeStages(stages: z.infer<typeof stageSchema>[]) {
+  return stages.map(stage => ({
+    ...stage,
+    name: stage.name.trim(),
+    id: stage.id || slugifyStageName(stage.name)
+  }))
+}
+
+function validationResponse(error: z.ZodError) {
+  return NextResponse.json({
+    error: 'Validation error',
+    details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+  }, { status: 400 })
+}
+
+// GET - Pipelines for the current user's tenant (falls back to the default pipeline)
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const pipelines = await getUserPipelines(supabase, user.id)
+
+    return NextResponse.json({ pipelines })
+  } catch (error) {
+    console.error('Error in GET /api/pipelines:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Create a pipeline definition for the tenant
+export async function POST(request: NextRequest) {
+  return withRBAC(request, async (req, context) => {
+    try {
+      const supabase = await createClient()
+      const body = await req.json()
+      const validatedData = PipelineSchema.parse(body)
+      const stages = normalizeStages(validatedData.stages)
+
+      const stageErrors = validatePipelineStages(stages)
+      if (stageErrors.length > 0) {
+        return NextResponse.json({ error: 'Invalid stages', details: stageErrors }, { status: 400 })
+      }
+
+      if (validatedData.is_default) {
+        await supabase
+          .from('pipeline_definitions')
+          .update({ is_default: false })
+          .eq('tenant_id', context.tenantId)
+      }
+
+      const { data: pipeline, error } = await supabase
+        .from('pipeline_definitions')
+        .insert({
+          tenant_id: context.tenantId,
+          name: validatedData.name,
+          stages,
+          is_default: validatedData.is_default ?? false,
+          position: validatedData.position ?? 0,
+          created_by: context.userId
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating pipeline:', error)
+        return NextResponse.json({ error: 'Failed to create pipeline' }, { status: 500 })
+      }
+
+      return NextResponse.json({ pipeline }, { status: 201 })
+    } catch (error) {
+      if (error instanceof z.ZodError) return validationResponse(error)
+      console.error('Error in POST /api/pipelines:', error)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  }, {
+    resource: 'settings',
+    action: 'manage',
+    requireTenant: true
+  })
+}
+
+// PUT - Update a pipeline's name, stages or default flag
+export async function PUT(request: NextRequest) {
+  return withRBAC(request, async (req, context) => {
+    try {
+      const supabase = await createClient()
+      const body = await req.json()
+      const { id, ...updateData } = body
+
+      if (!id) {
+        return NextResponse.json({ error: 'Pipeline ID is required' }, { status: 400 })
+      }
+
+      const validatedData = PipelineSchema.partial().parse(updateData)
+      const updates: Record<string, any> = { updated_at: new Date().toISOString() }
+
+      if (validatedData.name !== undefined) updates.name = validatedData.name
+      if (validatedData.position !== undefined) updates.position = validatedData.position
+      if (validatedData.stages) {
+        const stages = normalizeStages(validatedData.stages)
+        const stageErrors = validatePipelineStages(stages)
+        if (stageErrors.length > 0) {
+          return NextResponse.json({ error: 'Invalid stages', details: stageErrors }, { status: 400 })
+        }
+        updates.stages = stages
+      }
+      if (validatedData.is_default !== undefined) {
+        updates.is_default = validatedData.is_default
+        if (validatedData.is_default) {
+          await supabase
+            .from('pipeline_definitions')
+            .update({ is_default: false })
+            .eq('tenant_id', context.tenantId)
+            .neq('id', id)
+        }
+      }
+
+      const { data: pipeline, error } = await supabase
+        .from('pipeline_definitions')
+        .update(updates)
+        .eq('id', id)
+        .eq('tenant_id', context.tenantId)
+        .select()
+        .single()
+
+      if (error || !pipeline) {
+        return NextResponse.json({ error: 'Pipeline not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({ pipeline })
+    } catch (error) {
+      if (error instanceof z.ZodError) return validationResponse(error)
+      console.error('Error in PUT /api/pipelines:', error)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  }, {
+    resource: 'settings',
+    action: 'manage',
+    requireTenant: true
+  })
+}
+
+// DELETE - Remove a pipeline that no deals reference
+export async function DELETE(request: NextRequest) {
+  return withRBAC(request, async (req, context) => {
+    try {
+      const supabase = await createClient()
+      const id = new URL(req.url).searchParams.get('id')
+
+      if (!id) {
+        return NextResponse.json({ error: 'Pipeline ID is required' }, { status: 400 })
+      }
+
+      const { count } = await supabase
+        .from('deals')
+        .select('id', { count: 'exact', head: true })
+        .eq('pipeline_id', id)
+
+      if ((count || 0) > 0) {
+        return NextResponse.json({
+          error: 'Pipeline still has deals. Move them to another pipeline first.'
+        }, { status: 409 })
+      }
+
+      const { error } = await supabase
+        .from('pipeline_definitions')
+        .delete()
+        .eq('id', id)
+        .eq('tenant_id', context.tenantId)
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+
+      return NextResponse.json({ message: 'Pipeline deleted successfully' })
+    } catch (error) {
+      console.error('Error in DELETE /api/pipelines:', error)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  }, {
+    resource: 'settings',
+    action: 'manage',
+    requireTenant: true
+  })
+}
@@ -0,0 +1,114 @@
+/**
+ * Client Portal Links API
+ * Create, list and revoke the secret links that open a transaction's client portal
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { createPortalLink, listPortalLinks, revokePortalLink } from '@/lib/transactions/portal-access'
+import { DEFAULT_PORTAL_EXPIRY_DAYS, MAX_PORTAL_EXPIRY_DAYS, getPortalUrl } from '@/lib/transactions/portal'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const createPortalLinkSchema = z.object({
+  transaction_id: z.string().uuid('Invalid transaction ID'),
+  expires_in_days: z.number()
+    .int()
+    .min(1, 'Links must last at least a day')
+    .max(MAX_PORTAL_EXPIRY_DAYS, `Links can last at most ${MAX_PORTAL_EXPIRY_DAYS} days`)
+    .default(DEFAULT_PORTAL_EXPIRY_DAYS)
+})
+
+function portalLinkErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${fallback}:`, error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { searchParams } = new URL(request.url)
+    const transactionId = searchParams.get('transaction_id')
+
+    if (!transactionId || !UUID_REGEX.test(transactionId)) {
+      return NextResponse.json({ error: 'Valid transaction ID is required' }, { status: 400 })
+    }
+
+    try {
+      const links = await listPortalLinks(supabase, user.id, transactionId)
+      return NextResponse.json({ links })
+    } catch (error) {
+      return portalLinkErrorResponse(error, 'Failed to load portal links')
+    }
+  } catch (error) {
+    console.error('Error fetching portal links:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const body = await request.json()
+
+    const validation = createPortalLinkSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    try {
+      const { link, token } = await createPortalLink(
+        supabase,
+        user.id,
+        validation.data.transaction_id,
+        validation.data.expires_in_days
+      )
+
+      // The token is only ever shown here, so hand back the full URL to copy
+      return NextResponse.json({
+        link,
+        url: getPortalUrl(request.nextUrl.origin, token)
+      }, { status: 201 })
+    } catch (error) {
+      return portalLinkErrorResponse(error, 'Failed to create portal link')
+    }
+  } catch (error) {
+    console.error('Error creating portal link:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+// DELETE revokes rather than removes, so view history stays on the link
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { searchParams } = new URL(request.url)
+    const linkId = searchParams.get('id')
+
+    if (!linkId || !UUID_REGEX.test(linkId)) {
+      return NextResponse.json({ error: 'Valid portal link ID is required' }, { status: 400 })
+    }
+
+    try {
+      const link = await revokePortalLink(supabase, user.id, linkId)
+      return NextResponse.json({ link })
+    } catch (error) {
+      return portalLinkErrorResponse(error, 'Failed to revoke portal link')
+    }
+  } catch (error) {
+    console.error('Error revoking portal link:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Client Portal Messages API
+ * Lets the client write to their agent from the portal
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { AppError, RateLimitError } from '@/lib/errors'
+import { chatSecurity } from '@/lib/security/chat-security'
+import { postPortalMessage, resolvePortalLink } from '@/lib/transactions/portal-access'
+
+interface Params {
+  token: string
+}
+
+const portalMessageSchema = z.object({
+  content: z.string().min(1, 'Message is required').max(4000, 'Message too long')
+})
+
+// POST - Post a message into the agent's conversation for this transaction
+export async function POST(request: NextRequest, { params }: { params: Promise<Params> }) {
+  const { token } = await params
+
+  if (!token) {
+    return NextResponse.json({ error: 'Token is required' }, { status: 400 })
+  }
+
+  const supabase = createServiceClient()
+
+  try {
+    const body = await request.json()
+    const validation = portalMessageSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    const link = await resolvePortalLink(supabase, token)
+
+    const rateLimit = await chatSecurity.checkRateLimit(`portal:${link.id}`, 'messages')
+    if (!rateLimit.success) throw new RateLimitError('Too many messages - please wait a minute and try again')
+
+    const message = await postPortalMessage(supabase, link, validation.data.content)
+    return NextResponse.json({ message }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error posting portal message:', error)
+    return NextResponse.json({ error: 'Failed to send message' }, { status: 500 })
+  }
+}
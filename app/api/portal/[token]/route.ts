@@ -0,0 +1,39 @@
+/**
+ * Client Portal API
+ * Public, token-authenticated view of a transaction's status
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { AppError } from '@/lib/errors'
+import { getPortalView, recordPortalView, resolvePortalLink } from '@/lib/transactions/portal-access'
+
+interface Params {
+  token: string
+}
+
+// GET - Resolve the token, log the view and return the portal contents
+export async function GET(request: NextRequest, { params }: { params: Promise<Params> }) {
+  const { token } = await params
+
+  if (!token) {
+    return NextResponse.json({ error: 'Token is required' }, { status: 400 })
+  }
+
+  // There's no session here - the token is the only credential, checked below
+  const supabase = createServiceClient()
+
+  try {
+    const link = await resolvePortalLink(supabase, token)
+    const portal = await getPortalView(supabase, link)
+    await recordPortalView(supabase, link)
+
+    return NextResponse.json({ portal })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error loading client portal:', error)
+    return NextResponse.json({ error: 'Failed to load portal' }, { status: 500 })
+  }
+}
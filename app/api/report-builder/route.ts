@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/auth/utils'
+import { getUserCustomFields } from '@/lib/custom-fields/definitions'
+import {
+  CUSTOM_FIELD_REF_PREFIX,
+  findCustomFieldByRef,
+  getCustomFieldColumn,
+  isCustomFieldEntity,
+  type CustomFieldDefinition
+} from '@/lib/custom-fields/fields'
 
 export async function GET(request: NextRequest) {
   try {
@@ -211,12 +219,29 @@ export async function DELETE(request: NextRequest) {
 async function generateReportData(supabase: any, userId: string, report: any) {
   try {
     const results: any = {}
+    const customFields = await getUserCustomFields(supabase, userId)
     
     // Process each data source
     for (const source of report.data_sources) {
+      // Custom fields are referenced as cf.<key> and read from the custom_fields column
+      const definitions = isCustomFieldEntity(source.table)
+        ? customFields.filter(definition => definition.entity_type === source.table)
+        : []
+      const resolveColumn = (field: string) => {
+        const definition = findCustomFieldByRef(definitions, field)
+        return definition ? getCustomFieldColumn(definition) : field
+      }
+      const selectedCustomFields = source.fields
+        .map((field: string) => findCustomFieldByRef(definitions, field))
+        .filter(Boolean) as CustomFieldDefinition[]
+      const selectColumns = source.fields.map((field: string) => {
+        const definition = findCustomFieldByRef(definitions, field)
+        return definition ? `cf_${definition.key}:${getCustomFieldColumn(definition)}` : field
+      })
+      
       let query = supabase
         .from(source.table)
-        .select(source.fields.join(', '))
+        .select(selectColumns.join(', '))
       
       // Add user filter for security
       if (source.table !== 'communication_channels' && source.table !== 'lead_categories') {
@@ -226,7 +251,8 @@ async function generateReportData(supabase: any, userId: string, report: any) {
       // Apply filters
       if (report.filters && report.filters[source.table]) {
         const filters = report.filters[source.table]
-        Object.entries(filters).forEach(([key, value]: [string, any]) => {
+        Object.entries(filters).forEach(([field, value]: [string, any]) => {
+          const key = resolveColumn(field)
           if (value !== null && value !== undefined && value !== '') {
             if (Array.isArray(value)) {
               query = query.in(key, value)
@@ -264,7 +290,7 @@ async function generateReportData(supabase: any, userId: string, report: any) {
       if (report.sorting && report.sorting.length > 0) {
         report.sorting.forEach((sort: any) => {
           if (source.fields.includes(sort.field)) {
-            query = query.order(sort.field, { ascending: sort.direction === 'asc' })
+            query = query.order(resolveColumn(sort.field), { ascending: sort.direction === 'asc' })
           }
         })
       }
@@ -274,12 +300,25 @@ async function generateReportData(supabase: any, userId: string, report: any) {
         query = query.limit(Math.min(source.limit, 1000)) // Max 1000 records
       }
       
-      const { data, error } = await query
+      const { data: rows, error } = await query
       
       if (error) {
         console.error(`Error querying ${source.table}:`, error)
         results[source.table] = { error: error.message, data: [] }
       } else {
+        // Put aliased custom field values back under their cf.<key> names so
+        // grouping and aggregations can reference them like any other field
+        const data = selectedCustomFields.length > 0
+          ? (rows || []).map((row: any) => {
+              const mapped = { ...row }
+              selectedCustomFields.forEach(definition => {
+                mapped[`${CUSTOM_FIELD_REF_PREFIX}${definition.key}`] = row[`cf_${definition.key}`] ?? null
+                delete mapped[`cf_${definition.key}`]
+              })
+              return mapped
+            })
+          : rows
+        
         results[source.table] = { data: data || [] }
         
         // Apply grouping if specified
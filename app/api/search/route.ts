@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/auth/utils'
+import { getUserCustomFields } from '@/lib/custom-fields/definitions'
+import { getCustomFieldSearchConditions, type CustomFieldDefinition } from '@/lib/custom-fields/fields'
 
 // Helper function for fuzzy search matching
 function createFuzzySearchPattern(query: string): string {
@@ -53,6 +55,15 @@ function getSearchVariations(query: string): string[] {
   return [...new Set(variations)]
 }
 
+// Whether any of a record's searchable custom field values contain the query
+function matchesCustomFields(definitions: CustomFieldDefinition[], values: Record<string, unknown> | null, query: string): boolean {
+  if (!values) return false
+  return definitions.some(definition => {
+    const value = values[definition.key]
+    return value != null && String(Array.isArray(value) ? value.join(' ') : value).toLowerCase().includes(query)
+  })
+}
+
 export async function GET(request: NextRequest) {
   try {
     const user = await requireAuth()
@@ -81,6 +92,9 @@ export async function GET(request: NextRequest) {
 
     const results: any[] = []
     const searchVariations = getSearchVariations(query)
+    const customFields = await getUserCustomFields(supabase, user.id)
+    const clientFields = customFields.filter(field => field.entity_type === 'clients')
+    const dealFields = customFields.filter(field => field.entity_type === 'deals')
 
     // Search clients with fuzzy matching
     if (type === 'all' || type === 'clients') {
@@ -115,7 +129,10 @@ export async function GET(request: NextRequest) {
         })
       }
 
-      const uniqueConditions = [...new Set(searchConditions)].slice(0, 20)
+      const uniqueConditions = [
+        ...[...new Set(searchConditions)].slice(0, 20),
+        ...getCustomFieldSearchConditions(clientFields, query)
+      ]
       const orQuery = uniqueConditions.join(',')
 
       if (uniqueConditions.length === 0) {
@@ -125,7 +142,7 @@ export async function GET(request: NextRequest) {
 
       const { data: clients, error: clientError } = await supabase
         .from('clients')
-        .select('id, first_name, last_name, email, phone, company, address, status, created_at')
+        .select('id, first_name, last_name, email, phone, company, address, status, created_at, custom_fields')
         .eq('user_id', user.id)
         .or(orQuery)
         .limit(10)
@@ -162,6 +179,8 @@ export async function GET(request: NextRequest) {
             score += 25
           }
 
+          if (matchesCustomFields(clientFields, client.custom_fields, queryLower)) score += 15
+
           return { ...client, score }
         })
 
@@ -202,13 +221,16 @@ export async function GET(request: NextRequest) {
         })
       }
 
-      const uniqueConditions = [...new Set(searchConditions)]
+      const uniqueConditions = [
+        ...new Set(searchConditions),
+        ...getCustomFieldSearchConditions(dealFields, query)
+      ]
       const orQuery = uniqueConditions.join(',')
 
       const { data: deals, error: dealError } = await supabase
         .from('deals')
         .select(`
-          id, title, value, status, property_address,
+          id, title, value, status, property_address, custom_fields,
           clients(first_name, last_name)
         `)
         .eq('user_id', user.id)
@@ -237,6 +259,8 @@ export async function GET(request: NextRequest) {
             if (deal.status?.toLowerCase().includes(word)) score += 20
           })
 
+          if (matchesCustomFields(dealFields, deal.custom_fields, queryLower)) score += 15
+
           return { ...deal, score }
         })
 
@@ -53,7 +53,9 @@ export async function POST(request: NextRequest) {
     const {
       client_id,
       sequence_id,
-      enrollment_source = 'manual'
+      enrollment_source = 'manual',
+      // Send each step to everyone in the client's household
+      include_household = false
     } = body
 
     // Validate required fields
@@ -130,6 +132,7 @@ export async function POST(request: NextRequest) {
         sequence_id,
         current_step_id: firstStep?.id || null,
         enrollment_source,
+        include_household: include_household === true,
         next_step_at: nextStepAt?.toISOString()
       })
       .select(`
@@ -162,10 +165,14 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Enrollment ID is required' }, { status: 400 })
     }
 
-    const { status, pause_reason } = body
+    const { status, pause_reason, include_household } = body
 
     const updateData: any = { updated_at: new Date().toISOString() }
 
+    if (typeof include_household === 'boolean') {
+      updateData.include_household = include_household
+    }
+
     if (status) {
       updateData.status = status
       if (status === 'completed') {
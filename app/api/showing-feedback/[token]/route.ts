@@ -0,0 +1,80 @@
+/**
+ * Showing Feedback API
+ * Public, token-authenticated form the buyer fills in after a showing
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { getFeedbackRequest, resolveFeedbackLink, submitShowingFeedback } from '@/lib/showings/showings'
+
+interface Params {
+  token: string
+}
+
+const feedbackSchema = z.object({
+  interest_level: z.enum(['not_interested', 'somewhat_interested', 'very_interested', 'ready_to_offer'], {
+    errorMap: () => ({ message: 'Please tell us how interested you are' })
+  }),
+  price_opinion: z.enum(['too_high', 'about_right', 'good_value'], {
+    errorMap: () => ({ message: 'Please tell us what you think of the price' })
+  }),
+  comments: z.string().max(2000, 'Comments too long').nullable().optional()
+})
+
+function feedbackErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${fallback}:`, error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+// GET - What the buyer is being asked about
+export async function GET(request: NextRequest, { params }: { params: Promise<Params> }) {
+  const { token } = await params
+
+  if (!token) {
+    return NextResponse.json({ error: 'Token is required' }, { status: 400 })
+  }
+
+  // There's no session here - the token is the only credential, checked below
+  const supabase = createServiceClient()
+
+  try {
+    const showing = await resolveFeedbackLink(supabase, token)
+    const feedbackRequest = await getFeedbackRequest(supabase, showing)
+    return NextResponse.json({ request: feedbackRequest })
+  } catch (error) {
+    return feedbackErrorResponse(error, 'Failed to load feedback form')
+  }
+}
+
+// POST - Save the buyer's answers
+export async function POST(request: NextRequest, { params }: { params: Promise<Params> }) {
+  const { token } = await params
+
+  if (!token) {
+    return NextResponse.json({ error: 'Token is required' }, { status: 400 })
+  }
+
+  const supabase = createServiceClient()
+
+  try {
+    const body = await request.json()
+    const validation = feedbackSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    const showing = await resolveFeedbackLink(supabase, token)
+    const feedback = await submitShowingFeedback(supabase, showing, validation.data)
+    return NextResponse.json({ feedback }, { status: 201 })
+  } catch (error) {
+    return feedbackErrorResponse(error, 'Failed to save feedback')
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Showing Feedback Link API
+ * Issue the secret link the buyer uses to leave feedback on a showing
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { AppError } from '@/lib/errors'
+import { createFeedbackLink } from '@/lib/showings/showings'
+import { getShowingFeedbackUrl } from '@/lib/showings/schedule'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid showing ID format' }, { status: 400 })
+    }
+
+    try {
+      const { showing, token } = await createFeedbackLink(supabase, user.id, id)
+
+      // The token is only ever shown here, so hand back the full URL to copy
+      return NextResponse.json({
+        showing,
+        url: getShowingFeedbackUrl(request.nextUrl.origin, token)
+      }, { status: 201 })
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+      }
+      console.error('Failed to create feedback link:', error)
+      return NextResponse.json({ error: 'Failed to create feedback link' }, { status: 500 })
+    }
+  } catch (error) {
+    console.error('Error creating feedback link:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
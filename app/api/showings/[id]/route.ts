@@ -0,0 +1,99 @@
+/**
+ * Showing API
+ * Reschedule a showing, record the listing agent's confirmation, or remove it
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { deleteShowing, updateShowing } from '@/lib/showings/showings'
+import { syncCalendarItem } from '@/lib/calendar/google-sync'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const dateTime = (label: string) => z.string().refine(value => !isNaN(Date.parse(value)), `Invalid ${label}`)
+
+const updateShowingSchema = z.object({
+  property_address: z.string().trim().min(1, 'Property address is required').max(500, 'Address too long').optional(),
+  listing_price: z.number().min(0, 'Price must be positive').nullable().optional(),
+  mls_number: z.string().max(50, 'MLS number too long').nullable().optional(),
+  listing_agent_name: z.string().max(200, 'Name too long').nullable().optional(),
+  listing_agent_email: z.string().email('Invalid listing agent email').nullable().optional().or(z.literal('')),
+  listing_agent_phone: z.string().max(50, 'Phone too long').nullable().optional(),
+  start_time: dateTime('start time').optional(),
+  end_time: dateTime('end time').optional(),
+  notes: z.string().max(1000, 'Notes too long').nullable().optional(),
+  deal_id: z.string().uuid('Invalid deal ID').nullable().optional(),
+  confirmation_status: z.enum(['pending', 'confirmed', 'declined']).optional(),
+  status: z.enum(['scheduled', 'completed', 'cancelled']).optional()
+})
+
+function showingErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${fallback}:`, error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid showing ID format' }, { status: 400 })
+    }
+
+    const validation = updateShowingSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    try {
+      const showing = await updateShowing(supabase, user.id, id, validation.data)
+      await syncCalendarItem(supabase, user.id, 'showing', id)
+      return NextResponse.json({ showing })
+    } catch (error) {
+      return showingErrorResponse(error, 'Failed to update showing')
+    }
+  } catch (error) {
+    console.error('Error updating showing:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { id } = await params
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid showing ID format' }, { status: 400 })
+    }
+
+    try {
+      await deleteShowing(supabase, user.id, id)
+      await syncCalendarItem(supabase, user.id, 'showing', id)
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      return showingErrorResponse(error, 'Failed to delete showing')
+    }
+  } catch (error) {
+    console.error('Error deleting showing:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
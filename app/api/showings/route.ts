@@ -0,0 +1,103 @@
+/**
+ * Showings API
+ * List showings and schedule single showings or multi-property tours
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { createShowingTour, listShowings } from '@/lib/showings/showings'
+import { MAX_TOUR_STOPS, groupShowingTours } from '@/lib/showings/schedule'
+import { syncCalendarItem } from '@/lib/calendar/google-sync'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const dateTime = (label: string) => z.string().refine(value => !isNaN(Date.parse(value)), `Invalid ${label}`)
+
+const showingStopSchema = z.object({
+  property_address: z.string().trim().min(1, 'Property address is required').max(500, 'Address too long'),
+  listing_price: z.number().min(0, 'Price must be positive').nullable().optional(),
+  mls_number: z.string().max(50, 'MLS number too long').nullable().optional(),
+  listing_agent_name: z.string().max(200, 'Name too long').nullable().optional(),
+  listing_agent_email: z.string().email('Invalid listing agent email').nullable().optional().or(z.literal('')),
+  listing_agent_phone: z.string().max(50, 'Phone too long').nullable().optional(),
+  start_time: dateTime('start time'),
+  end_time: dateTime('end time'),
+  notes: z.string().max(1000, 'Notes too long').nullable().optional()
+})
+
+const createTourSchema = z.object({
+  client_id: z.string().uuid('Invalid client ID'),
+  deal_id: z.string().uuid('Invalid deal ID').nullable().optional(),
+  tour_id: z.string().uuid('Invalid tour ID').optional(),
+  stops: z.array(showingStopSchema)
+    .min(1, 'Add at least one property')
+    .max(MAX_TOUR_STOPS, `A tour can have at most ${MAX_TOUR_STOPS} stops`)
+})
+
+function showingErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(`${fallback}:`, error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { searchParams } = new URL(request.url)
+    const clientId = searchParams.get('client_id') || undefined
+    const dealId = searchParams.get('deal_id') || undefined
+
+    if ((clientId && !UUID_REGEX.test(clientId)) || (dealId && !UUID_REGEX.test(dealId))) {
+      return NextResponse.json({ error: 'Invalid client or deal ID format' }, { status: 400 })
+    }
+
+    try {
+      const showings = await listShowings(supabase, user.id, {
+        clientId,
+        dealId,
+        from: searchParams.get('from') || undefined,
+        to: searchParams.get('to') || undefined
+      })
+      return NextResponse.json({ showings, tours: groupShowingTours(showings) })
+    } catch (error) {
+      return showingErrorResponse(error, 'Failed to load showings')
+    }
+  } catch (error) {
+    console.error('Error fetching showings:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+
+    const validation = createTourSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    try {
+      const showings = await createShowingTour(supabase, user.id, validation.data)
+      for (const showing of showings) {
+        await syncCalendarItem(supabase, user.id, 'showing', showing.id)
+      }
+      return NextResponse.json({ showings }, { status: 201 })
+    } catch (error) {
+      return showingErrorResponse(error, 'Failed to schedule showings')
+    }
+  } catch (error) {
+    console.error('Error creating showings:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
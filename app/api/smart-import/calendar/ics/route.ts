@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CalendarIntegration } from '@/lib/smart-import/calendar-integration'
+import { ICS_IMPORT_FUTURE_DAYS, ICS_IMPORT_PAST_DAYS } from '@/lib/smart-import/icalendar'
+import { getUserTimezone } from '@/lib/tasks/recurring-tasks'
+
+const ICS_TYPES = ['text/calendar', 'application/ics', 'text/x-vcalendar']
+const PRIORITIES = ['Low', 'Medium', 'High'] as const
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Read an uploaded .ics file. With action=preview the events are returned for
+ * the user to pick from; with action=import the picked events (event_ids, a
+ * JSON array) are saved as tasks
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+    const action = formData.get('action') === 'import' ? 'import' : 'preview'
+
+    if (!file) {
+      return NextResponse.json({
+        error: 'No file provided'
+      }, { status: 400 })
+    }
+
+    // Browsers often send .ics files without a MIME type
+    if (!ICS_TYPES.includes(file.type) && !/\.(ics|ical|ifb)$/i.test(file.name)) {
+      return NextResponse.json({
+        error: 'File must be an iCalendar file (.ics)'
+      }, { status: 400 })
+    }
+
+    if (file.size > 10 * 1024 * 1024) {
+      return NextResponse.json({
+        error: 'Calendar file too large (max 10MB)'
+      }, { status: 400 })
+    }
+
+    const now = Date.now()
+    const parsed = CalendarIntegration.parseICalendarEvents(await file.text(), {
+      windowStart: new Date(now - ICS_IMPORT_PAST_DAYS * DAY_MS),
+      windowEnd: new Date(now + ICS_IMPORT_FUTURE_DAYS * DAY_MS),
+      defaultTimeZone: await getUserTimezone(supabase, user.id)
+    })
+
+    if (!parsed.success || action === 'preview') {
+      return NextResponse.json({
+        success: parsed.success,
+        data: parsed.data,
+        errors: parsed.errors,
+        warnings: parsed.warnings,
+        calendarName: parsed.calendarName
+      }, { status: parsed.success ? 200 : 400 })
+    }
+
+    let eventIds: string[] | null = null
+    const rawEventIds = formData.get('event_ids')
+    if (typeof rawEventIds === 'string' && rawEventIds) {
+      try {
+        const ids = JSON.parse(rawEventIds)
+        if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) throw new Error()
+        eventIds = ids
+      } catch {
+        return NextResponse.json({ error: 'event_ids must be a JSON array of event IDs' }, { status: 400 })
+      }
+    }
+
+    const defaultPriority = PRIORITIES.find(priority => priority === formData.get('defaultPriority')) || 'Medium'
+    const events = (parsed.data || []).filter(event => !eventIds || eventIds.includes(event.id))
+
+    // Events were picked by hand, so the real estate keyword filter is off unless asked for
+    const result = await CalendarIntegration.importCalendarEvents(
+      events,
+      {
+        autoCreateTasks: true,
+        defaultPriority,
+        filterRealEstateOnly: formData.get('filterRealEstateOnly') === 'true'
+      },
+      { supabase, userId: user.id, provider: 'ics' }
+    )
+
+    const { error: logError } = await supabase
+      .from('import_logs')
+      .insert({
+        user_id: user.id,
+        import_type: 'calendar',
+        status: result.success ? 'success' : 'failed',
+        source_data: {
+          provider: 'ics',
+          filename: file.name,
+          size: file.size,
+          calendar_name: parsed.calendarName || null,
+          event_count: events.length
+        },
+        extracted_data: {
+          events: result.data,
+          tasks_created: result.tasksCreated || 0,
+          tasks_updated: result.tasksUpdated || 0
+        },
+        errors: result.errors || null
+      })
+
+    if (logError) {
+      console.warn('Failed to log import attempt:', logError)
+    }
+
+    return NextResponse.json({
+      success: result.success,
+      errors: result.errors,
+      warnings: parsed.warnings,
+      tasksCreated: result.tasksCreated || 0,
+      tasksUpdated: result.tasksUpdated || 0,
+      clientsLinked: result.clientsLinked || 0,
+      summary: CalendarIntegration.generateSyncSummary(result),
+      tasks: result.tasks || []
+    }, { status: result.success ? 200 : 500 })
+
+  } catch (error) {
+    console.error('Error in POST /api/smart-import/calendar/ics:', error)
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -61,36 +61,13 @@ export async function POST(request: NextRequest) {
         ? CalendarIntegration.parseGoogleCalendarEvents(calendarEvents)
         : CalendarIntegration.parseOutlookCalendarEvents(calendarEvents)
 
-      // Process events and create tasks
-      const result = await CalendarIntegration.importCalendarEvents(parsedEvents, options)
-
-      // Create tasks if auto-create is enabled
-      let createdTasks: any[] = []
-      if (result.success && (options as any).autoCreateTasks && result.data) {
-        for (const event of result.data) {
-          const taskData = CalendarIntegration.convertEventToTask(event, (options as any).defaultPriority || 'Medium')
-          
-          if (taskData) {
-            try {
-              // Create task in database
-              const { data: task, error: taskError } = await supabase
-                .from('tasks')
-                .insert({
-                  ...taskData,
-                  user_id: user.id
-                })
-                .select()
-                .single()
-
-              if (!taskError && task) {
-                createdTasks.push(task)
-              }
-            } catch (taskCreateError) {
-              console.warn('Failed to create task from calendar event:', taskCreateError)
-            }
-          }
-        }
-      }
+      // Process events and save them as tasks
+      const result = await CalendarIntegration.importCalendarEvents(parsedEvents, options, {
+        supabase,
+        userId: user.id,
+        provider
+      })
+      const createdTasks = result.tasks || []
 
       // Log the import attempt
       const { error: logError } = await supabase
@@ -107,7 +84,8 @@ export async function POST(request: NextRequest) {
           },
           extracted_data: {
             events: result.data,
-            tasks_created: createdTasks.length
+            tasks_created: createdTasks.length,
+            tasks_updated: result.tasksUpdated || 0
           },
           errors: result.errors || null
         })
@@ -116,16 +94,14 @@ export async function POST(request: NextRequest) {
         console.warn('Failed to log import attempt:', logError)
       }
 
-      const summary = CalendarIntegration.generateSyncSummary({
-        ...result,
-        tasksCreated: createdTasks.length
-      })
+      const summary = CalendarIntegration.generateSyncSummary(result)
 
       return NextResponse.json({
         success: result.success,
         data: result.data,
         errors: result.errors,
         tasksCreated: createdTasks.length,
+        tasksUpdated: result.tasksUpdated,
         clientsLinked: result.clientsLinked,
         summary,
         tasks: createdTasks
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { VCardConverter } from '@/lib/smart-import/vcard'
+
+const VCARD_TYPES = ['text/vcard', 'text/x-vcard', 'text/directory']
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+
+    if (!file) {
+      return NextResponse.json({
+        error: 'No file provided'
+      }, { status: 400 })
+    }
+
+    // Browsers often send .vcf files without a MIME type
+    if (!VCARD_TYPES.includes(file.type) && !/\.vcf$/i.test(file.name)) {
+      return NextResponse.json({
+        error: 'File must be a vCard (.vcf)'
+      }, { status: 400 })
+    }
+
+    if (file.size > 5 * 1024 * 1024) {
+      return NextResponse.json({
+        error: 'vCard file too large (max 5MB)'
+      }, { status: 400 })
+    }
+
+    const result = VCardConverter.parse(await file.text())
+
+    const { error: logError } = await supabase
+      .from('import_logs')
+      .insert({
+        user_id: user.id,
+        import_type: 'vcard',
+        status: result.success ? 'success' : 'failed',
+        source_data: {
+          filename: file.name,
+          size: file.size,
+          type: file.type,
+          version: result.version
+        },
+        extracted_data: result.data || null,
+        errors: result.errors || null
+      })
+
+    if (logError) {
+      console.warn('Failed to log import attempt:', logError)
+    }
+
+    // Contacts are created through /api/clients, one per selected contact,
+    // the same way a scanned business card is
+    return NextResponse.json({
+      success: result.success,
+      data: (result.data || []).map(contact => ({
+        ...contact,
+        missingFields: VCardConverter.getMissingClientFields(contact)
+      })),
+      errors: result.errors,
+      warnings: result.warnings,
+      version: result.version
+    }, { status: result.success ? 200 : 400 })
+
+  } catch (error) {
+    console.error('Error in POST /api/smart-import/vcard:', error)
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
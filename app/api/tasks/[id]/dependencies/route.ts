@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import {
+  addTaskDependency,
+  getTaskRelations,
+  removeTaskDependency
+} from '@/lib/tasks/task-dependencies'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const addDependencySchema = z.object({
+  blocked_by_task_id: z.string().uuid('Invalid task ID')
+})
+
+function dependencyErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+  }
+  console.error(fallback, error)
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+}
+
+// GET - Parent, subtasks, blockers and the tasks waiting on this one
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid task ID' }, { status: 400 })
+    }
+
+    const relations = await getTaskRelations(supabase, user.id, id)
+    return NextResponse.json(relations)
+  } catch (error) {
+    return dependencyErrorResponse(error, 'Error in GET /api/tasks/[id]/dependencies:')
+  }
+}
+
+// POST - Make this task wait on another
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid task ID' }, { status: 400 })
+    }
+
+    const validation = addDependencySchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    await addTaskDependency(supabase, user.id, id, validation.data.blocked_by_task_id)
+    const relations = await getTaskRelations(supabase, user.id, id)
+    return NextResponse.json(relations, { status: 201 })
+  } catch (error) {
+    return dependencyErrorResponse(error, 'Error in POST /api/tasks/[id]/dependencies:')
+  }
+}
+
+// DELETE - Stop this task waiting on another (?blocked_by_task_id=)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const blockerId = new URL(request.url).searchParams.get('blocked_by_task_id') || ''
+    if (!UUID_REGEX.test(id) || !UUID_REGEX.test(blockerId)) {
+      return NextResponse.json({ error: 'Invalid task ID' }, { status: 400 })
+    }
+
+    await removeTaskDependency(supabase, user.id, id, blockerId)
+    const relations = await getTaskRelations(supabase, user.id, id)
+    return NextResponse.json(relations)
+  } catch (error) {
+    return dependencyErrorResponse(error, 'Error in DELETE /api/tasks/[id]/dependencies:')
+  }
+}
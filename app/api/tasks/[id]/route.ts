@@ -1,17 +1,71 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { getRecurrenceRuleError } from '@/lib/tasks/recurrence'
+import {
+  generateNextOccurrence,
+  getUserTimezone,
+  resolveRecurrenceChange,
+  resolveSeriesTemplate,
+  updateFutureOccurrences
+} from '@/lib/tasks/recurring-tasks'
+import { getDueDateShiftDays } from '@/lib/tasks/dependencies'
+import { notifyUnblockedTasks, shiftDependentTasks } from '@/lib/tasks/task-dependencies'
+import { syncCalendarItem } from '@/lib/calendar/google-sync'
+import { MAX_REMINDER_OFFSETS, MAX_REMINDER_OFFSET_MINUTES, normalizeReminderOffsets } from '@/lib/tasks/reminders'
 
 const updateTaskSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title too long').optional(),
   description: z.string().max(1000, 'Description too long').optional().or(z.literal('')),
-  due_date: z.string().datetime('Invalid date format').optional(),
+  due_date: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date format').optional(),
   priority: z.enum(['Low', 'Medium', 'High']).optional(),
   status: z.enum(['Pending', 'In Progress', 'Completed']).optional(),
   assigned_to: z.string().uuid('Invalid user ID').optional().nullable(),
-  type: z.enum(['Call', 'Email', 'Meeting', 'Document', 'Follow-up', 'Other']).optional()
+  type: z.enum(['Call', 'Email', 'Meeting', 'Document', 'Follow-up', 'Other']).optional(),
+  recurrence_rule: z.string().max(200).optional().nullable().superRefine((rule, ctx) => {
+    const ruleError = rule ? getRecurrenceRuleError(rule) : null
+    if (ruleError) ctx.addIssue({ code: z.ZodIssueCode.custom, message: ruleError })
+  }),
+  // Minutes before the due time; null goes back to the user's default reminders
+  reminder_offsets: z.array(z.number().int().min(0).max(MAX_REMINDER_OFFSET_MINUTES))
+    .max(MAX_REMINDER_OFFSETS, `At most ${MAX_REMINDER_OFFSETS} reminders`)
+    .optional()
+    .nullable()
+    .transform(offsets => offsets ? normalizeReminderOffsets(offsets) : offsets),
+  // For a repeating task: this occurrence only, or this and all future ones
+  scope: z.enum(['this', 'future']).default('this'),
+  // Move open subtasks and dependent tasks by as many days as the due date moved
+  shift_dependents: z.boolean().default(false)
 })
 
+const TASK_SELECT = `
+  *,
+  clients (
+    id,
+    name,
+    email,
+    initials
+  ),
+  deals (
+    id,
+    title
+  )
+`
+
+// Completing a task tells the assignees of tasks it was blocking, and for a
+// repeating task creates the next occurrence. Failures are logged so the
+// completion itself still goes through
+async function completeTask(supabase: any, task: any) {
+  await notifyUnblockedTasks(supabase, task)
+  try {
+    return await generateNextOccurrence(supabase, task)
+  } catch (error) {
+    console.error('Error generating next occurrence:', error)
+    return null
+  }
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -28,19 +82,7 @@ export async function GET(
     
     const { data: task, error } = await supabase
       .from('tasks')
-      .select(`
-        *,
-        clients (
-          id,
-          name,
-          email,
-          initials
-        ),
-        deals (
-          id,
-          title
-        )
-      `)
+      .select(TASK_SELECT)
       .eq('id', resolvedParams.id)
       .or(`user_id.eq.${user.id},assigned_to.eq.${user.id}`)
       .single()
@@ -87,35 +129,54 @@ export async function PUT(
       priority,
       status,
       assigned_to,
-      type
+      type,
+      recurrence_rule,
+      reminder_offsets,
+      scope,
+      shift_dependents
     } = validation.data
 
-    const { data: task, error } = await supabase
+    const { data: existing, error: fetchError } = await supabase
       .from('tasks')
-      .update({
-        title,
-        description,
-        due_date,
-        priority,
-        status,
-        assigned_to,
-        type,
-      })
+      .select('*')
       .eq('id', resolvedParams.id)
       .or(`user_id.eq.${user.id},assigned_to.eq.${user.id}`)
-      .select(`
-        *,
-        clients (
-          id,
-          name,
-          email,
-          initials
-        ),
-        deals (
-          id,
-          title
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    const recurrenceFields = (recurrence_rule !== undefined || existing.recurrence_rule)
+      ? resolveRecurrenceChange(
+          existing,
+          { recurrence_rule, due_date, scope },
+          await getUserTimezone(supabase, existing.user_id)
         )
-      `)
+      : {}
+
+    const fieldUpdates = {
+      title,
+      description,
+      due_date,
+      priority,
+      status,
+      assigned_to,
+      type,
+      reminder_offsets
+    }
+    const updates = {
+      ...fieldUpdates,
+      ...recurrenceFields,
+      recurrence_template: resolveSeriesTemplate(existing, fieldUpdates, recurrenceFields, scope)
+    }
+
+    const { data: task, error } = await supabase
+      .from('tasks')
+      .update(updates)
+      .eq('id', resolvedParams.id)
+      .or(`user_id.eq.${user.id},assigned_to.eq.${user.id}`)
+      .select(TASK_SELECT)
       .single()
 
     if (error) {
@@ -123,8 +184,26 @@ export async function PUT(
       return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
-    return NextResponse.json(task)
+    if (scope === 'future') {
+      await updateFutureOccurrences(supabase, existing.user_id, existing, updates)
+    }
+
+    const shiftedDependents = shift_dependents && due_date && existing.due_date
+      ? await shiftDependentTasks(supabase, existing.user_id, existing.id, getDueDateShiftDays(existing.due_date, due_date))
+      : 0
+
+    const nextOccurrence = status === 'Completed' && existing.status !== 'Completed'
+      ? await completeTask(supabase, task)
+      : null
+
+    await syncCalendarItem(supabase, existing.user_id, 'task', task.id)
+    if (nextOccurrence) await syncCalendarItem(supabase, existing.user_id, 'task', nextOccurrence.id)
+
+    return NextResponse.json({ ...task, next_occurrence: nextOccurrence, shifted_dependents: shiftedDependents })
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
     console.error('Error in PUT /api/tasks/[id]:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
@@ -154,6 +233,13 @@ export async function PATCH(
       userEmail: user.email
     })
 
+    const { data: existing } = await supabase
+      .from('tasks')
+      .select('status')
+      .eq('id', resolvedParams.id)
+      .eq('user_id', user.id)
+      .single()
+
     // Quick status update for task completion toggle
     const { data: task, error } = await supabase
       .from('tasks')
@@ -178,7 +264,14 @@ export async function PATCH(
       return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
-    return NextResponse.json(task)
+    const nextOccurrence = status === 'Completed' && existing?.status !== 'Completed'
+      ? await completeTask(supabase, task)
+      : null
+
+    await syncCalendarItem(supabase, user.id, 'task', task.id)
+    if (nextOccurrence) await syncCalendarItem(supabase, user.id, 'task', nextOccurrence.id)
+
+    return NextResponse.json({ ...task, next_occurrence: nextOccurrence })
   } catch (error) {
     console.error('Error in PATCH /api/tasks/[id]:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -210,6 +303,8 @@ export async function DELETE(
       return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
+    await syncCalendarItem(supabase, user.id, 'task', resolvedParams.id)
+
     return NextResponse.json({ message: 'Task deleted successfully' })
   } catch (error) {
     console.error('Error in DELETE /api/tasks/[id]:', error)
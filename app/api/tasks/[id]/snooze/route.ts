@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { snoozeTaskReminder } from '@/lib/tasks/task-reminders'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const snoozeSchema = z.object({
+  snooze: z.enum(['1h', 'tomorrow'], {
+    errorMap: () => ({ message: 'Snooze must be 1h or tomorrow' })
+  })
+})
+
+// POST - Snooze the task's reminder, called from the reminder notification
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid task ID' }, { status: 400 })
+    }
+
+    const validation = snoozeSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    const result = await snoozeTaskReminder(supabase, user.id, id, validation.data.snooze)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error in POST /api/tasks/[id]/snooze:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
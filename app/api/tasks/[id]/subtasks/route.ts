@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { createSubtask } from '@/lib/tasks/task-dependencies'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const createSubtaskSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title too long'),
+  due_date: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date format').optional().nullable(),
+  priority: z.enum(['Low', 'Medium', 'High']).optional()
+})
+
+// POST - Add a checklist item under this task
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { id } = await params
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid task ID' }, { status: 400 })
+    }
+
+    const validation = createSubtaskSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+      }, { status: 400 })
+    }
+
+    const subtask = await createSubtask(supabase, user.id, id, validation.data)
+    return NextResponse.json({ subtask }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error in POST /api/tasks/[id]/subtasks:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { AppError } from '@/lib/errors'
+import { listProjectedOccurrences } from '@/lib/tasks/recurring-tasks'
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+// Longest range the calendar asks for at once
+const MAX_RANGE_DAYS = 366
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from') || ''
+    const to = searchParams.get('to') || ''
+
+    if (!DATE_REGEX.test(from) || !DATE_REGEX.test(to) || from > to) {
+      return NextResponse.json({ error: 'from and to must be dates (YYYY-MM-DD) with from before to' }, { status: 400 })
+    }
+    if ((Date.parse(to) - Date.parse(from)) / 86400000 > MAX_RANGE_DAYS) {
+      return NextResponse.json({ error: `Range can be at most ${MAX_RANGE_DAYS} days` }, { status: 400 })
+    }
+
+    const occurrences = await listProjectedOccurrences(supabase, user.id, from, to)
+    return NextResponse.json({ occurrences })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error in GET /api/tasks/occurrences:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
+import { AppError } from '@/lib/errors'
+import { getRecurrenceRuleError } from '@/lib/tasks/recurrence'
+import { buildSeriesFields, buildSeriesTemplate, getUserTimezone } from '@/lib/tasks/recurring-tasks'
+import { syncCalendarItem } from '@/lib/calendar/google-sync'
+import { attachTaskRelations } from '@/lib/tasks/task-dependencies'
+import { MAX_REMINDER_OFFSETS, MAX_REMINDER_OFFSET_MINUTES, normalizeReminderOffsets } from '@/lib/tasks/reminders'
 
 const createTaskSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
@@ -10,7 +16,18 @@ const createTaskSchema = z.object({
   status: z.enum(['Pending', 'In Progress', 'Completed']).default('Pending'),
   type: z.enum(['Call', 'Email', 'Meeting', 'Document', 'Follow-up', 'Other']).default('Other'),
   client_id: z.string().uuid().optional().nullable(),
-  deal_id: z.string().uuid().optional().nullable()
+  deal_id: z.string().uuid().optional().nullable(),
+  parent_task_id: z.string().uuid().optional().nullable(),
+  recurrence_rule: z.string().max(200).optional().nullable().superRefine((rule, ctx) => {
+    const ruleError = rule ? getRecurrenceRuleError(rule) : null
+    if (ruleError) ctx.addIssue({ code: z.ZodIssueCode.custom, message: ruleError })
+  }),
+  // Minutes before the due time; null uses the user's default reminders
+  reminder_offsets: z.array(z.number().int().min(0).max(MAX_REMINDER_OFFSET_MINUTES))
+    .max(MAX_REMINDER_OFFSETS, `At most ${MAX_REMINDER_OFFSETS} reminders`)
+    .optional()
+    .nullable()
+    .transform(offsets => offsets ? normalizeReminderOffsets(offsets) : offsets)
 })
 
 export async function GET(request: NextRequest) {
@@ -62,7 +79,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ tasks: [] })
     }
 
-    return NextResponse.json({ tasks: tasks || [] })
+    return NextResponse.json({ tasks: await attachTaskRelations(supabase, user.id, tasks || []) })
   } catch (error) {
     console.error('Error in GET /api/tasks:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -83,10 +100,23 @@ export async function POST(request: NextRequest) {
       const { count } = await supabase.from('clients').select('id', { count: 'exact', head: true }).eq('id', validatedData.client_id);
       if (!count) return NextResponse.json({ error: 'Client not found' }, { status: 404 })
     }
+    if (validatedData.parent_task_id) {
+      const { data: parent } = await supabase.from('tasks').select('parent_task_id').eq('id', validatedData.parent_task_id).eq('user_id', user.id).maybeSingle()
+      if (!parent) return NextResponse.json({ error: 'Parent task not found' }, { status: 404 })
+      if (parent.parent_task_id) return NextResponse.json({ error: 'Subtasks cannot have subtasks of their own' }, { status: 400 })
+    }
+
+    const { recurrence_rule, ...taskData } = validatedData
+    const recurrenceFields = recurrence_rule
+      ? {
+          ...buildSeriesFields(recurrence_rule, taskData.due_date, await getUserTimezone(supabase, user.id)),
+          recurrence_template: buildSeriesTemplate(taskData)
+        }
+      : {}
 
     const { data: task, error } = await supabase
       .from('tasks')
-      .insert({ ...validatedData, user_id: user.id })
+      .insert({ ...taskData, ...recurrenceFields, user_id: user.id })
       .select()
       .single()
 
@@ -95,9 +125,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to create task' }, { status: 500 })
     }
 
+    await syncCalendarItem(supabase, user.id, 'task', task.id)
+
     return NextResponse.json(task, { status: 201 })
   } catch (error) {
     if (error instanceof z.ZodError) return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    if (error instanceof AppError) return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
\ No newline at end of file
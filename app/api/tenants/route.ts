@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/auth/utils'
+import { getPlanLimits } from '@/lib/tenants/plans'
+import { DEFAULT_PIPELINE } from '@/lib/pipeline/stages'
 
 export async function GET(request: NextRequest) {
   try {
@@ -298,26 +300,17 @@ async function checkTenantPermission(supabase: any, userId: string, tenantId: st
 }
 
 async function initializeTenantDefaults(supabase: any, tenantId: string, userId: string) {
-  // Create default pipeline stages
-  const defaultStages = [
-    { name: 'Lead', order_index: 0, color: '#6b7280', is_default: true },
-    { name: 'Qualified', order_index: 1, color: '#3b82f6', is_default: false },
-    { name: 'Proposal', order_index: 2, color: '#f59e0b', is_default: false },
-    { name: 'Negotiation', order_index: 3, color: '#ef4444', is_default: false },
-    { name: 'Closed Won', order_index: 4, color: '#10b981', is_default: false },
-    { name: 'Closed Lost', order_index: 5, color: '#6b7280', is_default: false }
-  ]
-
-  const stageInserts = defaultStages.map(stage => ({
-    ...stage,
-    tenant_id: tenantId,
-    user_id: userId,
-    created_at: new Date().toISOString()
-  }))
-
+  // Seed the default pipeline definition so the tenant starts with stages it can edit
   await supabase
-    .from('pipeline_stages')
-    .insert(stageInserts)
+    .from('pipeline_definitions')
+    .insert({
+      tenant_id: tenantId,
+      name: DEFAULT_PIPELINE.name,
+      stages: DEFAULT_PIPELINE.stages,
+      is_default: true,
+      position: 0,
+      created_by: userId
+    })
 
   // Create default email templates
   const defaultTemplates = [
@@ -375,43 +368,3 @@ async function initializeTenantDefaults(supabase: any, tenantId: string, userId:
     .from('tenant_roles')
     .insert(roleInserts)
 }
-
-function getPlanLimits(planType: string) {
-  const limits = {
-    starter: {
-      max_users: 5,
-      max_clients: 1000,
-      max_deals: 500,
-      max_storage_gb: 5,
-      max_api_calls_per_month: 1000,
-      max_email_sends_per_month: 1000,
-      max_sms_sends_per_month: 100,
-      max_automations: 5,
-      max_custom_fields: 10
-    },
-    professional: {
-      max_users: 25,
-      max_clients: 10000,
-      max_deals: 5000,
-      max_storage_gb: 50,
-      max_api_calls_per_month: 10000,
-      max_email_sends_per_month: 10000,
-      max_sms_sends_per_month: 1000,
-      max_automations: 25,
-      max_custom_fields: 50
-    },
-    enterprise: {
-      max_users: -1, // unlimited
-      max_clients: -1,
-      max_deals: -1,
-      max_storage_gb: -1,
-      max_api_calls_per_month: -1,
-      max_email_sends_per_month: -1,
-      max_sms_sends_per_month: -1,
-      max_automations: -1,
-      max_custom_fields: -1
-    }
-  }
-
-  return limits[planType as keyof typeof limits] || limits.starter
-}
\ No newline at end of file
@@ -0,0 +1,104 @@
+/**
+ * Team Deadlines API
+ * Open contingency deadlines across every transaction the caller can see:
+ * the whole tenant for roles with team or tenant deal visibility, otherwise their own
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { getActiveTenantId } from '@/lib/pipeline/definitions'
+import { PermissionChecker, SYSTEM_ROLES } from '@/lib/rbac/permissions'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { searchParams } = new URL(request.url)
+
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '7'), 1), 31)
+    const includeOverdue = searchParams.get('include_overdue') !== 'false'
+
+    const now = new Date()
+    const startOfToday = new Date(now)
+    startOfToday.setHours(0, 0, 0, 0)
+    const until = new Date(startOfToday.getTime() + days * 24 * 60 * 60 * 1000)
+
+    let userIds = [user.id]
+    let scope: 'own' | 'team' = 'own'
+
+    const tenantId = await getActiveTenantId(supabase, user.id)
+    if (tenantId) {
+      const { data: membership } = await supabase
+        .from('tenant_members')
+        .select('role')
+        .eq('tenant_id', tenantId)
+        .eq('user_id', user.id)
+        .eq('status', 'active')
+        .single()
+
+      const permissions = SYSTEM_ROLES.find(role => role.id === membership?.role)?.permissions || []
+      if (PermissionChecker.hasAnyPermission(permissions, ['DEALS_VIEW_TEAM', 'DEALS_VIEW_ALL'])) {
+        const { data: members } = await supabase
+          .from('tenant_members')
+          .select('user_id')
+          .eq('tenant_id', tenantId)
+          .eq('status', 'active')
+
+        userIds = (members || []).map((member: any) => member.user_id)
+        scope = 'team'
+      }
+    }
+
+    // Other agents' rows are outside the caller's RLS scope, so team reads go through the service client
+    const client = scope === 'team' ? createServiceClient() : supabase
+
+    let query = client
+      .from('transaction_contingencies')
+      .select(`
+        id,
+        transaction_id,
+        user_id,
+        type,
+        deadline,
+        status,
+        notes,
+        extensions,
+        transaction:transactions(
+          id,
+          transaction_type,
+          closing_date,
+          deal:deals(id, title),
+          client:clients(id, first_name, last_name)
+        ),
+        agent:users(id, name, email)
+      `)
+      .in('user_id', userIds)
+      .in('status', ['pending', 'extended'])
+      .lt('deadline', until.toISOString())
+      .order('deadline', { ascending: true })
+      .limit(500)
+
+    if (!includeOverdue) {
+      query = query.gte('deadline', startOfToday.toISOString())
+    }
+
+    const { data: deadlines, error } = await query
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      deadlines: (deadlines || []).map((deadline: any) => ({
+        ...deadline,
+        is_overdue: new Date(deadline.deadline) < now
+      })),
+      scope,
+      range: { from: startOfToday.toISOString(), to: until.toISOString() }
+    })
+  } catch (error) {
+    console.error('Error fetching team deadlines:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { requireAuth } from '@/lib/auth/utils'
+import { z } from 'zod'
+import { CONTINGENCY_STATUSES, CONTINGENCY_TYPES, extendContingency, type ContingencyStatus, type ContingencyType } from '@/lib/transactions/contingencies'
+import { createContingencies } from '@/lib/transactions/deadlines'
+
+const contingencyTypeSchema = z.enum(CONTINGENCY_TYPES.map(option => option.value) as [ContingencyType, ...ContingencyType[]])
+
+const createContingencySchema = z.object({
+  transaction_id: z.string().uuid('Invalid transaction ID'),
+  type: contingencyTypeSchema,
+  deadline: z.string().datetime({ offset: true }),
+  notes: z.string().max(1000, 'Notes too long').optional()
+})
+
+const updateContingencySchema = z.object({
+  status: z.enum(CONTINGENCY_STATUSES as [ContingencyStatus, ...ContingencyStatus[]]).optional(),
+  notes: z.string().max(1000, 'Notes too long').optional(),
+  // Extending records the old deadline in the extension history
+  extend_to: z.string().datetime({ offset: true }).optional(),
+  extension_reason: z.string().max(500, 'Reason too long').optional()
+})
+
+function validationResponse(error: z.ZodError) {
+  return NextResponse.json({
+    error: 'Validation failed',
+    details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+  }, { status: 400 })
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { searchParams } = new URL(request.url)
+
+    const transaction_id = searchParams.get('transaction_id')
+
+    if (!transaction_id) {
+      return NextResponse.json({ error: 'Transaction ID is required' }, { status: 400 })
+    }
+
+    const { data: contingencies, error } = await supabase
+      .from('transaction_contingencies')
+      .select('*')
+      .eq('transaction_id', transaction_id)
+      .eq('user_id', user.id)
+      .order('deadline', { ascending: true })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ contingencies: contingencies || [] })
+  } catch (error) {
+    console.error('Error fetching contingencies:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const body = await request.json()
+
+    const validation = createContingencySchema.safeParse(body)
+    if (!validation.success) return validationResponse(validation.error)
+
+    const { transaction_id, type, deadline, notes } = validation.data
+
+    // Verify transaction belongs to user
+    const { data: transaction, error: transactionError } = await supabase
+      .from('transactions')
+      .select('id')
+      .eq('id', transaction_id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (transactionError || !transaction) {
+      return NextResponse.json({ error: 'Transaction not found' }, { status: 404 })
+    }
+
+    const [contingency] = await createContingencies(supabase, user.id, transaction_id, [{ type, deadline, notes }])
+
+    if (!contingency) {
+      return NextResponse.json({ error: 'Failed to create contingency' }, { status: 500 })
+    }
+
+    return NextResponse.json({ contingency }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating contingency:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { searchParams } = new URL(request.url)
+    const contingencyId = searchParams.get('id')
+    const body = await request.json()
+
+    if (!contingencyId) {
+      return NextResponse.json({ error: 'Contingency ID is required' }, { status: 400 })
+    }
+
+    const validation = updateContingencySchema.safeParse(body)
+    if (!validation.success) return validationResponse(validation.error)
+
+    const { status, notes, extend_to, extension_reason } = validation.data
+
+    const { data: existing, error: existingError } = await supabase
+      .from('transaction_contingencies')
+      .select('id, deadline, extensions')
+      .eq('id', contingencyId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (existingError || !existing) {
+      return NextResponse.json({ error: 'Contingency not found' }, { status: 404 })
+    }
+
+    let updateData: any = {
+      updated_at: new Date().toISOString()
+    }
+
+    if (extend_to) {
+      if (new Date(extend_to) <= new Date(existing.deadline)) {
+        return NextResponse.json({ error: 'An extension must move the deadline later' }, { status: 400 })
+      }
+      updateData = { ...updateData, ...extendContingency(existing, extend_to, user.id, extension_reason) }
+    } else if (status === 'extended') {
+      return NextResponse.json({ error: 'Provide extend_to to extend a deadline' }, { status: 400 })
+    } else if (status) {
+      updateData.status = status
+      updateData.resolved_at = status === 'satisfied' || status === 'waived' ? new Date().toISOString() : null
+    }
+
+    if (notes !== undefined) updateData.notes = notes
+
+    const { data: contingency, error } = await supabase
+      .from('transaction_contingencies')
+      .update(updateData)
+      .eq('id', contingencyId)
+      .eq('user_id', user.id)
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ contingency })
+  } catch (error) {
+    console.error('Error updating contingency:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const supabase = await createClient()
+    const { searchParams } = new URL(request.url)
+    const contingencyId = searchParams.get('id')
+
+    if (!contingencyId) {
+      return NextResponse.json({ error: 'Contingency ID is required' }, { status: 400 })
+    }
+
+    const { error } = await supabase
+      .from('transaction_contingencies')
+      .delete()
+      .eq('id', contingencyId)
+      .eq('user_id', user.id)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting contingency:', error)
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+}
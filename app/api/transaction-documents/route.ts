@@ -2,6 +2,22 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/auth/utils'
 
+// Approved CDAs (and any other locked document) stay exactly as filed
+async function checkDocumentLock(supabase: any, documentId: string, userId: string) {
+  const { data: existing } = await supabase
+    .from('transaction_documents')
+    .select('id, is_locked')
+    .eq('id', documentId)
+    .eq('user_id', userId)
+    .single()
+
+  if (existing?.is_locked) {
+    return NextResponse.json({ error: 'This document is locked and cannot be changed' }, { status: 409 })
+  }
+
+  return null
+}
+
 export async function GET(request: NextRequest) {
   try {
     const user = await requireAuth()
@@ -51,7 +67,7 @@ export async function POST(request: NextRequest) {
     const {
       transaction_id,
       document_name,
-      document_type, // 'contract', 'disclosure', 'inspection', 'appraisal', 'loan_docs', 'title', 'insurance', 'other'
+      document_type, // 'contract', 'disclosure', 'inspection', 'appraisal', 'loan_docs', 'title', 'insurance', 'commission_disbursement', 'other'
       file_url,
       file_size,
       mime_type,
@@ -160,12 +176,16 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Document ID is required' }, { status: 400 })
     }
 
+    const lockedResponse = await checkDocumentLock(supabase, documentId, user.id)
+    if (lockedResponse) return lockedResponse
+
     const {
       document_name,
       document_type,
       description,
       is_required,
       expiration_date,
+      shared_with_client,
       status = 'active'
     } = body
 
@@ -177,6 +197,7 @@ export async function PUT(request: NextRequest) {
     if (document_type) updateData.document_type = document_type
     if (description !== undefined) updateData.description = description
     if (typeof is_required === 'boolean') updateData.is_required = is_required
+    if (typeof shared_with_client === 'boolean') updateData.shared_with_client = shared_with_client
     if (expiration_date !== undefined) updateData.expiration_date = expiration_date
     if (status) updateData.status = status
 
@@ -210,6 +231,9 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Document ID is required' }, { status: 400 })
     }
 
+    const lockedResponse = await checkDocumentLock(supabase, documentId, user.id)
+    if (lockedResponse) return lockedResponse
+
     // Delete associated tasks first
     await supabase
       .from('tasks')
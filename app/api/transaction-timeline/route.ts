@@ -147,7 +147,11 @@ export async function PUT(request: NextRequest) {
       }
     }
     if (milestone) updateData.milestone = milestone
-    if (milestone_date) updateData.milestone_date = milestone_date
+    if (milestone_date) {
+      updateData.milestone_date = milestone_date
+      // A hand-picked date detaches the milestone from its template anchor so recalculation leaves it alone
+      updateData.anchor = null
+    }
     if (notes !== undefined) updateData.notes = notes
     if (assigned_to !== undefined) updateData.assigned_to = assigned_to
     if (completed_date) updateData.completed_date = completed_date
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/auth/utils'
+import { getActiveTenantId } from '@/lib/pipeline/definitions'
+import { isTransactionType } from '@/lib/transactions/milestone-templates'
+import { createTransactionMilestones, getMilestoneTemplate, recalculateTransactionMilestones } from '@/lib/transactions/milestones'
+import { isContingencyType } from '@/lib/transactions/contingencies'
+import { createContingencies, syncEarnestMoneyDeadline } from '@/lib/transactions/deadlines'
+import { getUserCustomFields, resolveCustomFieldValues } from '@/lib/custom-fields/definitions'
+import { applyCustomFieldFilters, parseCustomFieldFilters } from '@/lib/custom-fields/fields'
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,6 +32,7 @@ export async function GET(request: NextRequest) {
         client:clients(id, first_name, last_name, email, phone),
         deal:deals(id, title, status, value, address),
         documents:transaction_documents(id, document_name, document_type, file_url, uploaded_at),
+        contingency_records:transaction_contingencies(id, type, deadline, status, extensions, resolved_at),
         timeline:transaction_timeline(
           id,
           milestone,
@@ -47,6 +55,10 @@ export async function GET(request: NextRequest) {
     if (date_from) query = query.gte('created_at', date_from)
     if (date_to) query = query.lte('created_at', date_to)
 
+    const customFields = await getUserCustomFields(supabase, user.id, 'transactions')
+    const customFieldFilters = parseCustomFieldFilters(searchParams, customFields)
+    query = applyCustomFieldFilters(query, customFields, customFieldFilters)
+
     const { data: transactions, error } = await query
 
     if (error) {
@@ -66,6 +78,7 @@ export async function GET(request: NextRequest) {
     if (status) countQuery = countQuery.eq('status', status)
     if (date_from) countQuery = countQuery.gte('created_at', date_from)
     if (date_to) countQuery = countQuery.lte('created_at', date_to)
+    countQuery = applyCustomFieldFilters(countQuery, customFields, customFieldFilters)
 
     const { count } = await countQuery
 
@@ -100,6 +113,7 @@ export async function POST(request: NextRequest) {
       interest_rate,
       loan_term,
       monthly_payment,
+      contract_date,
       closing_date,
       title_company,
       lender_name,
@@ -112,7 +126,8 @@ export async function POST(request: NextRequest) {
       commission_percentage,
       commission_amount,
       earnest_money_amount,
-      earnest_money_due_date
+      earnest_money_due_date,
+      custom_fields
     } = body
 
     // Validate required fields
@@ -122,6 +137,30 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    if (!isTransactionType(transaction_type)) {
+      return NextResponse.json({
+        error: 'Transaction type must be purchase, sale, lease, or rental'
+      }, { status: 400 })
+    }
+
+    // Contingencies are typed records with their own deadline
+    const invalidContingency = !Array.isArray(contingencies) || contingencies.some((contingency: any) =>
+      !contingency || !isContingencyType(contingency.type) || !contingency.deadline || isNaN(new Date(contingency.deadline).getTime())
+    )
+    if (invalidContingency) {
+      return NextResponse.json({
+        error: 'Each contingency needs a type (inspection, financing, appraisal, hoa_docs, sale_of_home) and a deadline'
+      }, { status: 400 })
+    }
+
+    const customFieldResult = await resolveCustomFieldValues(supabase, user.id, 'transactions', custom_fields)
+    if (customFieldResult.errors.length > 0) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: customFieldResult.errors
+      }, { status: 400 })
+    }
+
     // Verify deal and client exist and belong to user
     const [dealResult, clientResult] = await Promise.all([
       supabase
@@ -160,6 +199,7 @@ export async function POST(request: NextRequest) {
         interest_rate: interest_rate || null,
         loan_term: loan_term || null,
         monthly_payment: monthly_payment || null,
+        contract_date: contract_date || null,
         closing_date: closing_date || null,
         title_company: title_company || null,
         lender_name: lender_name || null,
@@ -167,12 +207,12 @@ export async function POST(request: NextRequest) {
         real_estate_attorney: real_estate_attorney || null,
         home_inspector: home_inspector || null,
         appraiser: appraiser || null,
-        contingencies,
         special_conditions: special_conditions || null,
         commission_percentage: commission_percentage || null,
         commission_amount: commission_amount || null,
         earnest_money_amount: earnest_money_amount || null,
         earnest_money_due_date: earnest_money_due_date || null,
+        custom_fields: customFieldResult.values,
         status: 'pending'
       })
       .select(`
@@ -186,45 +226,29 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
-    // Create initial timeline milestones
-    const initialMilestones = getInitialMilestones(transaction_type, closing_date)
-    
-    if (initialMilestones.length > 0) {
-      await supabase
-        .from('transaction_timeline')
-        .insert(
-          initialMilestones.map(milestone => ({
-            user_id: user.id,
-            transaction_id: transaction.id,
-            ...milestone
-          }))
-        )
-    }
+    // Create timeline milestones (and their tasks) from the tenant's template for this transaction type
+    const tenantId = await getActiveTenantId(supabase, user.id)
+    const template = await getMilestoneTemplate(supabase, tenantId, transaction_type)
+    await createTransactionMilestones(supabase, {
+      userId: user.id,
+      transactionId: transaction.id,
+      clientId: client_id,
+      dealId: deal_id,
+      template,
+      anchors: {
+        contractDate: contract_date || transaction.created_at,
+        closingDate: closing_date
+      }
+    })
 
-    // Create tasks for important milestones
-    const taskMilestones = initialMilestones.filter(m => m.create_task)
-    if (taskMilestones.length > 0) {
-      await supabase
-        .from('tasks')
-        .insert(
-          taskMilestones.map(milestone => ({
-            user_id: user.id,
-            client_id,
-            deal_id,
-            title: milestone.milestone,
-            description: milestone.notes || `Complete ${milestone.milestone.toLowerCase()} for transaction`,
-            task_type: 'transaction',
-            due_date: milestone.milestone_date,
-            priority: milestone.priority || 'medium',
-            status: 'pending',
-            metadata: {
-              transaction_id: transaction.id,
-              milestone_type: milestone.milestone,
-              auto_generated: true
-            }
-          }))
-        )
-    }
+    await createContingencies(supabase, user.id, transaction.id, [
+      ...contingencies.map((contingency: any) => ({
+        type: contingency.type,
+        deadline: new Date(contingency.deadline).toISOString(),
+        notes: contingency.notes
+      })),
+      ...(earnest_money_due_date ? [{ type: 'earnest_money' as const, deadline: earnest_money_due_date }] : [])
+    ])
 
     // Record activity
     await supabase
@@ -270,6 +294,7 @@ export async function PUT(request: NextRequest) {
       interest_rate,
       loan_term,
       monthly_payment,
+      contract_date,
       closing_date,
       title_company,
       lender_name,
@@ -277,14 +302,26 @@ export async function PUT(request: NextRequest) {
       real_estate_attorney,
       home_inspector,
       appraiser,
-      contingencies,
       special_conditions,
       commission_percentage,
       commission_amount,
       earnest_money_amount,
-      earnest_money_due_date
+      earnest_money_due_date,
+      custom_fields
     } = body
 
+    // Anchor dates before the update, to tell whether milestones need re-dating
+    const { data: existing, error: existingError } = await supabase
+      .from('transactions')
+      .select('contract_date, closing_date, created_at, custom_fields')
+      .eq('id', transactionId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (existingError || !existing) {
+      return NextResponse.json({ error: 'Transaction not found' }, { status: 404 })
+    }
+
     const updateData: any = {
       updated_at: new Date().toISOString()
     }
@@ -296,6 +333,7 @@ export async function PUT(request: NextRequest) {
     if (interest_rate !== undefined) updateData.interest_rate = interest_rate
     if (loan_term !== undefined) updateData.loan_term = loan_term
     if (monthly_payment !== undefined) updateData.monthly_payment = monthly_payment
+    if (contract_date !== undefined) updateData.contract_date = contract_date
     if (closing_date !== undefined) updateData.closing_date = closing_date
     if (title_company !== undefined) updateData.title_company = title_company
     if (lender_name !== undefined) updateData.lender_name = lender_name
@@ -303,13 +341,22 @@ export async function PUT(request: NextRequest) {
     if (real_estate_attorney !== undefined) updateData.real_estate_attorney = real_estate_attorney
     if (home_inspector !== undefined) updateData.home_inspector = home_inspector
     if (appraiser !== undefined) updateData.appraiser = appraiser
-    if (contingencies !== undefined) updateData.contingencies = contingencies
     if (special_conditions !== undefined) updateData.special_conditions = special_conditions
     if (commission_percentage !== undefined) updateData.commission_percentage = commission_percentage
     if (commission_amount !== undefined) updateData.commission_amount = commission_amount
     if (earnest_money_amount !== undefined) updateData.earnest_money_amount = earnest_money_amount
     if (earnest_money_due_date !== undefined) updateData.earnest_money_due_date = earnest_money_due_date
 
+    if (custom_fields !== undefined) {
+      const { values, errors } = await resolveCustomFieldValues(
+        supabase, user.id, 'transactions', custom_fields, existing.custom_fields || {}
+      )
+      if (errors.length > 0) {
+        return NextResponse.json({ error: 'Validation failed', details: errors }, { status: 400 })
+      }
+      updateData.custom_fields = values
+    }
+
     const { data: transaction, error } = await supabase
       .from('transactions')
       .update(updateData)
@@ -320,6 +367,7 @@ export async function PUT(request: NextRequest) {
         client:clients(id, first_name, last_name, email, phone),
         deal:deals(id, title, status, value, address),
         documents:transaction_documents(id, document_name, document_type, file_url, uploaded_at),
+        contingency_records:transaction_contingencies(id, type, deadline, status, extensions, resolved_at),
         timeline:transaction_timeline(
           id,
           milestone,
@@ -336,6 +384,30 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
+    const anchorsChanged =
+      (closing_date !== undefined && !sameDate(closing_date, existing.closing_date)) ||
+      (contract_date !== undefined && !sameDate(contract_date, existing.contract_date))
+
+    let milestonesRecalculated = 0
+    if (anchorsChanged) {
+      milestonesRecalculated = await recalculateTransactionMilestones(supabase, user.id, transactionId, {
+        contractDate: transaction.contract_date || transaction.created_at,
+        closingDate: transaction.closing_date
+      })
+
+      if (milestonesRecalculated > 0) {
+        const { data: timeline } = await supabase
+          .from('transaction_timeline')
+          .select('id, milestone, milestone_date, status, notes, created_at, assigned_to')
+          .eq('transaction_id', transactionId)
+        transaction.timeline = timeline || transaction.timeline
+      }
+    }
+
+    if (earnest_money_due_date !== undefined) {
+      await syncEarnestMoneyDeadline(supabase, user.id, transactionId, earnest_money_due_date || null)
+    }
+
     // Record status change activity
     if (status && transaction.client_id) {
       await supabase
@@ -354,7 +426,7 @@ export async function PUT(request: NextRequest) {
         })
     }
 
-    return NextResponse.json({ transaction })
+    return NextResponse.json({ transaction, milestones_recalculated: milestonesRecalculated })
   } catch (error) {
     console.error('Error updating transaction:', error)
     return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
@@ -402,114 +474,8 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
-// Helper function to generate initial milestones
-function getInitialMilestones(transactionType: string, closingDate: string | null) {
-  const milestones = []
-  const baseDate = closingDate ? new Date(closingDate) : new Date()
-
-  if (transactionType === 'purchase') {
-    milestones.push(
-      {
-        milestone: 'Earnest Money Deposit',
-        milestone_date: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'pending',
-        notes: 'Submit earnest money deposit to secure the property',
-        priority: 'high',
-        create_task: true
-      },
-      {
-        milestone: 'Loan Application',
-        milestone_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'pending',
-        notes: 'Submit mortgage loan application to lender',
-        priority: 'high',
-        create_task: true
-      },
-      {
-        milestone: 'Home Inspection',
-        milestone_date: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'pending',
-        notes: 'Schedule and complete home inspection',
-        priority: 'high',
-        create_task: true
-      },
-      {
-        milestone: 'Appraisal',
-        milestone_date: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'pending',
-        notes: 'Property appraisal by lender',
-        priority: 'medium',
-        create_task: true
-      },
-      {
-        milestone: 'Loan Approval',
-        milestone_date: new Date(Date.now() + 21 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'pending',
-        notes: 'Receive final loan approval from lender',
-        priority: 'high',
-        create_task: false
-      },
-      {
-        milestone: 'Final Walkthrough',
-        milestone_date: new Date(baseDate.getTime() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'pending',
-        notes: 'Final property walkthrough before closing',
-        priority: 'high',
-        create_task: true
-      },
-      {
-        milestone: 'Closing',
-        milestone_date: closingDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'pending',
-        notes: 'Property closing and key transfer',
-        priority: 'high',
-        create_task: true
-      }
-    )
-  } else if (transactionType === 'sale') {
-    milestones.push(
-      {
-        milestone: 'Property Preparation',
-        milestone_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'pending',
-        notes: 'Prepare property for showing and listing',
-        priority: 'medium',
-        create_task: true
-      },
-      {
-        milestone: 'Professional Photography',
-        milestone_date: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'pending',
-        notes: 'Schedule professional property photography',
-        priority: 'medium',
-        create_task: true
-      },
-      {
-        milestone: 'MLS Listing',
-        milestone_date: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'pending',
-        notes: 'List property on MLS and marketing platforms',
-        priority: 'high',
-        create_task: true
-      },
-      {
-        milestone: 'Offer Review',
-        milestone_date: new Date(Date.now() + 21 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'pending',
-        notes: 'Review and negotiate offers',
-        priority: 'high',
-        create_task: false
-      },
-      {
-        milestone: 'Purchase Agreement',
-        milestone_date: new Date(Date.now() + 25 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'pending',
-        notes: 'Execute purchase agreement with buyer',
-        priority: 'high',
-        create_task: false
-      }
-    )
-  }
-
-  return milestones
-}
\ No newline at end of file
+// Helper function to compare nullable date strings
+function sameDate(a: string | null | undefined, b: string | null | undefined) {
+  if (!a || !b) return !a && !b
+  return new Date(a).getTime() === new Date(b).getTime()
+}
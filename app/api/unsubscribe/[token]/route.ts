@@ -0,0 +1,64 @@
+/**
+ * Email Unsubscribe API
+ * Public endpoint behind the unsubscribe link in every outgoing client email
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { AppError } from '@/lib/errors'
+import { getClientConsents, recordConsent, verifyUnsubscribeToken } from '@/lib/clients/consent-records'
+
+interface Params {
+  token: string
+}
+
+// GET - Check the link and report whether the client is already unsubscribed.
+// Mail scanners follow links, so opening the page never unsubscribes on its own
+export async function GET(request: NextRequest, { params }: { params: Promise<Params> }) {
+  const { token } = await params
+  const subscriber = verifyUnsubscribeToken(token)
+
+  if (!subscriber) {
+    return NextResponse.json({ error: 'This unsubscribe link is invalid' }, { status: 404 })
+  }
+
+  try {
+    const supabase = createServiceClient()
+    const consents = await getClientConsents(supabase, subscriber.userId, subscriber.clientId)
+    const email = consents.find(consent => consent.channel === 'email')
+
+    return NextResponse.json({ unsubscribed: email?.status === 'opted_out' })
+  } catch (error) {
+    console.error('Error checking unsubscribe link:', error)
+    return NextResponse.json({ error: 'Failed to load unsubscribe link' }, { status: 500 })
+  }
+}
+
+// POST - Opt the client out of email
+export async function POST(request: NextRequest, { params }: { params: Promise<Params> }) {
+  const { token } = await params
+  const subscriber = verifyUnsubscribeToken(token)
+
+  if (!subscriber) {
+    return NextResponse.json({ error: 'This unsubscribe link is invalid' }, { status: 404 })
+  }
+
+  try {
+    const supabase = createServiceClient()
+    await recordConsent(supabase, subscriber.userId, subscriber.clientId, 'email', 'opted_out', {
+      source: 'unsubscribe_link',
+      metadata: {
+        ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || null,
+        user_agent: request.headers.get('user-agent')
+      }
+    })
+
+    return NextResponse.json({ unsubscribed: true })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error processing unsubscribe:', error)
+    return NextResponse.json({ error: 'Failed to unsubscribe' }, { status: 500 })
+  }
+}
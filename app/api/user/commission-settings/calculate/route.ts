@@ -1,12 +1,16 @@
 /**
  * Commission Calculation API
- * Calculate commission splits and amounts based on user settings
+ * Split a commission under the agent's plan, given their year-to-date GCI
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
 import { withRBAC } from '@/lib/rbac/middleware'
 import { CommissionCalculationSchema } from '@/lib/validations/commission'
+import { calculateCommissionBreakdown } from '@/lib/commissions/plans'
+import { buildCommissionLedger, getLedgerShare, type CommissionLedger } from '@/lib/commissions/ledger'
+import { getDealCommissionParticipants } from '@/lib/commissions/participants'
+import { getCommissionPlan, getYearToDateProduction, isActiveTenantMember } from '@/lib/commissions/production'
 import { z } from 'zod'
 
 // POST - Calculate commission split
@@ -19,7 +23,14 @@ export async function POST(request: NextRequest) {
       const validatedData = CommissionCalculationSchema.parse(body)
 
       const targetUserId = validatedData.userId || context.userId
-      const targetTenantId = validatedData.tenantId || context.tenantId
+      // Plans are only ever read in the caller's own tenant
+      if (validatedData.tenantId && validatedData.tenantId !== context.tenantId) {
+        return NextResponse.json(
+          { error: 'Access denied' },
+          { status: 403 }
+        )
+      }
+      const targetTenantId = context.tenantId
 
       // Check permissions for calculating other users' commissions
       if (targetUserId !== context.userId) {
@@ -32,50 +43,75 @@ export async function POST(request: NextRequest) {
             { status: 403 }
           )
         }
+
+        if (!(await isActiveTenantMember(supabase, targetUserId, targetTenantId))) {
+          return NextResponse.json(
+            { error: 'Access denied' },
+            { status: 403 }
+          )
+        }
       }
 
-      // Use the database function to calculate commission split
-      const { data, error } = await supabase
-        .rpc('calculate_commission_split', {
-          commission_amount: validatedData.commissionAmount,
-          user_id: targetUserId,
-          tenant_id: targetTenantId
-        })
+      // Production includes shares of colleagues' closings, which are outside
+      // the caller's RLS scope; the service client is only used for members of
+      // the caller's tenant, and only for closings on that tenant's deals
+      const client = createServiceClient()
 
-      if (error) {
-        console.error('Error calculating commission split:', error)
-        return NextResponse.json(
-          { error: 'Failed to calculate commission split' },
-          { status: 500 }
-        )
-      }
+      const plan = await getCommissionPlan(client, targetUserId, targetTenantId)
+      const { capYear, production } = await getYearToDateProduction(client, targetUserId, plan, {
+        asOf: validatedData.closingDate ? new Date(`${validatedData.closingDate}T23:59:59Z`) : undefined,
+        excludeTransactionId: validatedData.transactionId,
+        tenantId: targetTenantId
+      })
 
-      const result = data[0]
-      if (!result) {
-        return NextResponse.json(
-          { error: 'No commission settings found' },
-          { status: 404 }
-        )
+      // With a deal, the agent's plan applies only to their share of the participant ledger.
+      // The deal is read under the caller's own access, never the service client
+      let ledger: CommissionLedger | null = null
+      if (validatedData.dealId) {
+        const { data: deal } = await supabase
+          .from('deals')
+          .select('id, user_id')
+          .eq('id', validatedData.dealId)
+          .maybeSingle()
+
+        if (!deal) {
+          return NextResponse.json(
+            { error: 'Deal not found' },
+            { status: 404 }
+          )
+        }
+
+        const participants = await getDealCommissionParticipants(supabase, deal.id)
+        ledger = buildCommissionLedger(validatedData.commissionAmount, participants, { userId: deal.user_id, name: 'Primary Agent' })
       }
 
+      const agentGross = ledger ? getLedgerShare(ledger, targetUserId) : validatedData.commissionAmount
+      const breakdown = calculateCommissionBreakdown(agentGross, plan, production)
+
       // Calculate additional metrics if deal value is provided
       let effectiveRate = null
       if (validatedData.dealValue) {
         effectiveRate = (validatedData.commissionAmount / validatedData.dealValue) * 100
       }
 
+      const brokerPercentage = parseFloat((100 - breakdown.effectiveAgentSplit).toFixed(2))
+
       const response = {
-        agentAmount: parseFloat(result.agent_amount),
-        brokerAmount: parseFloat(result.broker_amount),
-        splitPercentage: parseFloat(result.split_percentage),
+        agentAmount: breakdown.agentNet,
+        brokerAmount: breakdown.companyDollar,
+        splitPercentage: brokerPercentage,
         totalCommission: validatedData.commissionAmount,
         effectiveRate: effectiveRate ? parseFloat(effectiveRate.toFixed(4)) : null,
         calculation: {
           dealValue: validatedData.dealValue || null,
           commissionAmount: validatedData.commissionAmount,
-          agentPercentage: 100 - parseFloat(result.split_percentage),
-          brokerPercentage: parseFloat(result.split_percentage)
-        }
+          agentPercentage: breakdown.effectiveAgentSplit,
+          brokerPercentage
+        },
+        breakdown,
+        ledger,
+        plan,
+        capYear
       }
 
       return NextResponse.json(response)
@@ -11,6 +11,7 @@ import {
   UpdateCommissionSettingsSchema,
   DEFAULT_COMMISSION_SETTINGS 
 } from '@/lib/validations/commission'
+import { mapCommissionPlanColumns } from '@/lib/commissions/plans'
 import { z } from 'zod'
 
 // GET - Fetch user's commission settings
@@ -59,6 +60,7 @@ export async function GET(request: NextRequest) {
         currency: settings.currency,
         effectiveDate: settings.effective_date,
         notes: settings.notes,
+        ...mapCommissionPlanColumns(settings),
         isActive: settings.is_active,
         createdAt: settings.created_at,
         updatedAt: settings.updated_at
@@ -119,7 +121,13 @@ export async function POST(request: NextRequest) {
           custom_rates: validatedData.customRates || {},
           currency: validatedData.currency,
           effective_date: validatedData.effectiveDate || new Date().toISOString().split('T')[0],
-          notes: validatedData.notes || null
+          notes: validatedData.notes || null,
+          commission_tiers: validatedData.tiers || [],
+          annual_cap: validatedData.annualCap ?? null,
+          anniversary_date: validatedData.anniversaryDate ?? null,
+          transaction_fee: validatedData.transactionFee ?? 0,
+          royalty_percentage: validatedData.royaltyPercentage ?? 0,
+          royalty_cap: validatedData.royaltyCap ?? null
         })
         .select()
         .single()
@@ -142,6 +150,7 @@ export async function POST(request: NextRequest) {
         currency: settings.currency,
         effectiveDate: settings.effective_date,
         notes: settings.notes,
+        ...mapCommissionPlanColumns(settings),
         isActive: settings.is_active
       }
 
@@ -224,6 +233,24 @@ export async function PUT(request: NextRequest) {
       if (validatedData.notes !== undefined) {
         updateObject.notes = validatedData.notes || null
       }
+      if (validatedData.tiers !== undefined) {
+        updateObject.commission_tiers = validatedData.tiers
+      }
+      if (validatedData.annualCap !== undefined) {
+        updateObject.annual_cap = validatedData.annualCap
+      }
+      if (validatedData.anniversaryDate !== undefined) {
+        updateObject.anniversary_date = validatedData.anniversaryDate
+      }
+      if (validatedData.transactionFee !== undefined) {
+        updateObject.transaction_fee = validatedData.transactionFee
+      }
+      if (validatedData.royaltyPercentage !== undefined) {
+        updateObject.royalty_percentage = validatedData.royaltyPercentage
+      }
+      if (validatedData.royaltyCap !== undefined) {
+        updateObject.royalty_cap = validatedData.royaltyCap
+      }
 
       // Add updated_at timestamp
       updateObject.updated_at = new Date().toISOString()
@@ -259,6 +286,7 @@ export async function PUT(request: NextRequest) {
         currency: settings.currency,
         effectiveDate: settings.effective_date,
         notes: settings.notes,
+        ...mapCommissionPlanColumns(settings),
         isActive: settings.is_active
       }
 
@@ -0,0 +1,69 @@
+/**
+ * Commission Year-to-Date API
+ * The agent's commission plan, current cap year and production so far
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { withRBAC } from '@/lib/rbac/middleware'
+import { getTierForGci } from '@/lib/commissions/plans'
+import { getCommissionPlan, getYearToDateProduction, isActiveTenantMember } from '@/lib/commissions/production'
+
+// GET - Fetch plan and year-to-date production
+export async function GET(request: NextRequest) {
+  return withRBAC(request, async (req, context) => {
+    const supabase = await createClient()
+    const url = new URL(req.url)
+    const targetUserId = url.searchParams.get('userId') || context.userId
+
+    if (targetUserId !== context.userId) {
+      const hasAccess = context.userPermissions.includes('DEALS_VIEW_ALL') ||
+                       ['admin', 'owner', 'manager'].includes(context.userRole)
+
+      if (!hasAccess) {
+        return NextResponse.json(
+          { error: 'Access denied' },
+          { status: 403 }
+        )
+      }
+
+      if (!(await isActiveTenantMember(supabase, targetUserId, context.tenantId))) {
+        return NextResponse.json(
+          { error: 'Access denied' },
+          { status: 403 }
+        )
+      }
+    }
+
+    try {
+      // Production includes shares of colleagues' closings, which are outside
+      // the caller's RLS scope; the service client only reads closings on the
+      // caller's tenant's deals
+      const client = createServiceClient()
+
+      const plan = await getCommissionPlan(client, targetUserId, context.tenantId)
+      const { capYear, production } = await getYearToDateProduction(client, targetUserId, plan, {
+        tenantId: context.tenantId
+      })
+
+      return NextResponse.json({
+        plan,
+        capYear,
+        production,
+        currentTier: getTierForGci(plan.tiers, production.gci),
+        capRemaining: plan.annualCap !== null
+          ? Math.max(plan.annualCap - production.companyDollar, 0)
+          : null
+      })
+
+    } catch (error) {
+      console.error('Commission year-to-date error:', error)
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  }, {
+    requireTenant: true
+  })
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { validateSession } from '@/lib/auth/session'
 import { UserPreferences, defaultUserPreferences } from '@/lib/user/preferences'
+import { isReminderTime, normalizeReminderOffsets } from '@/lib/tasks/reminders'
 
 // GET /api/user/preferences - Get user preferences
 export async function GET(request: NextRequest) {
@@ -303,6 +304,43 @@ function validatePreferences(preferences: any): Partial<UserPreferences> {
     }
   }
 
+  // Push notifications and quiet hours
+  if (preferences.pushNotifications && typeof preferences.pushNotifications === 'object') {
+    validated.pushNotifications = { ...defaultUserPreferences.pushNotifications }
+    const pushNotifs = preferences.pushNotifications
+
+    if (typeof pushNotifs.enabled === 'boolean') {
+      validated.pushNotifications.enabled = pushNotifs.enabled
+    }
+    if (typeof pushNotifs.urgentOnly === 'boolean') {
+      validated.pushNotifications.urgentOnly = pushNotifs.urgentOnly
+    }
+    if (pushNotifs.quietHours && typeof pushNotifs.quietHours === 'object') {
+      const quietHours = pushNotifs.quietHours
+      validated.pushNotifications.quietHours = {
+        enabled: typeof quietHours.enabled === 'boolean' ? quietHours.enabled : false,
+        startTime: isReminderTime(quietHours.startTime) ? quietHours.startTime : defaultUserPreferences.pushNotifications.quietHours.startTime,
+        endTime: isReminderTime(quietHours.endTime) ? quietHours.endTime : defaultUserPreferences.pushNotifications.quietHours.endTime
+      }
+    }
+  }
+
+  // Task reminders
+  if (preferences.reminders && typeof preferences.reminders === 'object') {
+    validated.reminders = { ...defaultUserPreferences.reminders }
+    const reminders = preferences.reminders
+
+    if (Array.isArray(reminders.defaultOffsets) && reminders.defaultOffsets.every((offset: unknown) => typeof offset === 'number')) {
+      validated.reminders.defaultOffsets = normalizeReminderOffsets(reminders.defaultOffsets)
+    }
+    if (typeof reminders.overdueDigest === 'boolean') {
+      validated.reminders.overdueDigest = reminders.overdueDigest
+    }
+    if (isReminderTime(reminders.digestTime)) {
+      validated.reminders.digestTime = reminders.digestTime
+    }
+  }
+
   // Currency validation
   if (preferences.defaultCurrency && typeof preferences.defaultCurrency === 'string') {
     validated.defaultCurrency = preferences.defaultCurrency
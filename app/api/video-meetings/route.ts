@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/auth/utils'
+import { syncCalendarItem } from '@/lib/calendar/google-sync'
 
 export async function GET(request: NextRequest) {
   try {
@@ -171,6 +172,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
+    await syncCalendarItem(supabase, user.id, 'meeting', meeting.id)
+
     // Add attendees to meeting_attendees table
     if (attendees.length > 0) {
       const attendeeRecords = attendees.map((email: string) => ({
@@ -305,6 +308,8 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
+    await syncCalendarItem(supabase, user.id, 'meeting', meeting.id)
+
     // Create follow-up task if required
     if (follow_up_required && follow_up_date && meeting.client_id) {
       await supabase
@@ -380,6 +385,8 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
+    await syncCalendarItem(supabase, user.id, 'meeting', meetingId)
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Error deleting video meeting:', error)
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { checkIdempotency } from '@/lib/redis-utils'
 import { extractFromEmail } from '@/lib/openrouter'
-import { createClient } from '@/lib/supabase/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { detectClientDuplicates } from '@/lib/clients/merge'
+import { captureSearchProfileFromExtraction } from '@/lib/clients/search-profiles'
+import { applyInboundConsentReply, findClientIdsByEmail } from '@/lib/clients/consent-records'
+import { parseConsentReply } from '@/lib/clients/consent'
+import { verifyWebhookSignature } from '@/lib/security/webhook-signature'
 
 interface EmailWebhookPayload {
     id: string
@@ -18,9 +23,29 @@ interface EmailWebhookPayload {
     }
 }
 
+// The agents whose inboxes the message was delivered to
+async function findInboxOwnerIds(serviceClient: any, recipients: Array<{ email: string }>): Promise<string[]> {
+    const addresses = recipients.map(recipient => recipient.email?.trim().toLowerCase()).filter(Boolean)
+    if (addresses.length === 0) return []
+
+    const { data } = await serviceClient
+        .from('users')
+        .select('id')
+        .in('email', addresses)
+
+    return (data || []).map((user: { id: string }) => user.id)
+}
+
 export async function POST(request: NextRequest) {
     try {
-        const payload: EmailWebhookPayload = await request.json()
+        // Deliveries are signed with the webhook secret; consent changes must
+        // never come from an unsigned request
+        const rawBody = await request.text()
+        if (!verifyWebhookSignature(rawBody, request.headers.get('x-nylas-signature'), process.env.EMAIL_WEBHOOK_SECRET)) {
+            return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+        }
+
+        const payload: EmailWebhookPayload = JSON.parse(rawBody)
 
         const idempotencyResult = await checkIdempotency(`email:${payload.data.id}`, 604800)
         if (idempotencyResult === 'DUPLICATE') {
@@ -32,6 +57,39 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ status: 'no_sender' }, { status: 200 })
         }
 
+        // An UNSUBSCRIBE / STOP reply (in the subject or as the whole first line)
+        // opts the sender out of email with the agents it was sent to, and isn't
+        // worth extracting. There is no session here, so the match runs on the
+        // service client scoped to each receiving agent
+        const firstLine = payload.data.body?.trim().split('\n')[0]
+        const consentText = parseConsentReply(payload.data.subject) ? payload.data.subject : firstLine
+        const consentStatus = parseConsentReply(consentText)
+        if (consentStatus) {
+            const serviceClient = createServiceClient()
+            let matched = 0
+
+            for (const ownerId of await findInboxOwnerIds(serviceClient, payload.data.to || [])) {
+                const clients = await findClientIdsByEmail(serviceClient, sender.email, ownerId)
+                if (clients.length === 0) continue
+
+                matched += clients.length
+                await applyInboundConsentReply(serviceClient, {
+                    channel: 'email',
+                    text: consentText,
+                    email: sender.email,
+                    userId: ownerId,
+                    metadata: { message_id: payload.data.id }
+                })
+            }
+
+            return NextResponse.json({
+                status: matched > 0 ? 'consent_updated' : 'consent_unmatched',
+                consent: consentStatus
+            }, { status: 200 })
+        }
+
+        const supabase = await createClient()
+
         const emailContent = `
 Subject: ${payload.data.subject}
 From: ${sender.name} <${sender.email}>
@@ -45,17 +103,19 @@ ${payload.data.body}
             return NextResponse.json({ status: 'low_confidence' }, { status: 200 })
         }
 
-        const supabase = await createClient()
-
         let clientId: string | null = null
+        let ownerId: string | null = null
         const { data: existingClient } = await supabase
             .from('clients')
-            .select('id')
+            .select('id, user_id')
             .eq('email', sender.email)
-            .single()
+            // Merged duplicates share the address; match the surviving client
+            .is('merged_into_id', null)
+            .maybeSingle()
 
         if (existingClient) {
             clientId = existingClient.id
+            ownerId = existingClient.user_id
         } else if (extraction.data.client.email || extraction.data.client.name) {
             const { data: newClient } = await supabase
                 .from('clients')
@@ -67,10 +127,22 @@ ${payload.data.body}
                     status: 'lead',
                     source: 'email_webhook',
                 })
-                .select('id')
+                .select('id, user_id')
                 .single()
 
             clientId = newClient?.id || null
+            ownerId = newClient?.user_id || null
+            if (newClient?.user_id) {
+                try {
+                    await detectClientDuplicates(supabase, newClient.user_id, [newClient.id])
+                } catch (error) {
+                    console.error('Error detecting duplicate clients:', error)
+                }
+            }
+        }
+
+        if (clientId && ownerId) {
+            await captureSearchProfileFromExtraction(supabase, ownerId, clientId, extraction.data.deal)
         }
 
         for (const task of extraction.data.tasks) {
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { checkIdempotency } from '@/lib/redis-utils'
-import { getUpdatedEvents, isClosingEvent } from '@/lib/google'
+import { getUpdatedEvents, isClosingEvent, isSyncTokenExpired } from '@/lib/google'
 import { createServiceClient } from '@/lib/supabase/server'
+import { applyGoogleEventChange, hasCalendarWriteAccess } from '@/lib/calendar/google-sync'
 import { logger } from '@/lib/logger'
 
 export async function POST(request: NextRequest) {
@@ -63,21 +64,49 @@ export async function POST(request: NextRequest) {
             .eq('provider', 'calendar')
             .single()
 
-        const { events, nextSyncToken } = await getUpdatedEvents(
-            integration.access_token,
-            integration.refresh_token,
-            'primary',
-            syncState?.sync_token
-        )
+        let updated
+        try {
+            updated = await getUpdatedEvents(
+                integration.access_token,
+                integration.refresh_token,
+                'primary',
+                syncState?.sync_token
+            )
+        } catch (error) {
+            if (!syncState?.sync_token || !isSyncTokenExpired(error)) throw error
+            await logger.warn('calendar_webhook', 'Sync token expired, starting a full sync', { userId: integration.user_id })
+            updated = await getUpdatedEvents(integration.access_token, integration.refresh_token, 'primary')
+        }
+        const { events, nextSyncToken } = updated
 
         await logger.info('calendar_webhook', 'Fetched updated events', { count: events.length, userId: integration.user_id })
 
+        const twoWaySync = hasCalendarWriteAccess(integration)
+
         for (const event of events) {
-            if (!event.id || event.status === 'cancelled') continue
+            if (!event.id) continue
 
             const eventIdempotency = await checkIdempotency(`event:${event.id}:${event.updated}`, 604800)
             if (eventIdempotency === 'DUPLICATE') continue
 
+            // Edits to events that came from CRM tasks and meetings flow back to those records
+            if (twoWaySync) {
+                try {
+                    const outcome = await applyGoogleEventChange(supabase, integration, event)
+                    if (outcome !== 'skipped' && outcome !== 'unchanged') {
+                        await logger.info('calendar_webhook', 'Applied event change to CRM', { id: event.id, outcome })
+                    }
+                } catch (syncError) {
+                    await logger.error('calendar_webhook', 'Failed to apply event change', {
+                        id: event.id,
+                        error: syncError instanceof Error ? syncError.message : String(syncError)
+                    })
+                }
+            }
+
+            // Events pushed from the CRM already have their task
+            if (event.status === 'cancelled' || event.extendedProperties?.private?.dealvize_source) continue
+
             if (isClosingEvent(event)) {
                 await logger.info('calendar_webhook', 'Detected closing event', { summary: event.summary, id: event.id })
                 const eventStart = event.start?.dateTime || event.start?.date
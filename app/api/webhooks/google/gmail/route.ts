@@ -3,6 +3,10 @@ import { checkIdempotency } from '@/lib/redis-utils'
 import { getHistoryChanges, getMessage, parseEmailContent } from '@/lib/google'
 import { extractFromEmail } from '@/lib/openrouter'
 import { createServiceClient } from '@/lib/supabase/server'
+import { detectClientDuplicates } from '@/lib/clients/merge'
+import { captureSearchProfileFromExtraction } from '@/lib/clients/search-profiles'
+import { applyInboundConsentReply } from '@/lib/clients/consent-records'
+import { parseConsentReply } from '@/lib/clients/consent'
 import { logger } from '@/lib/logger'
 
 interface PubSubMessage {
@@ -89,6 +93,24 @@ export async function POST(request: NextRequest) {
                     from: emailContent.from
                 })
 
+                const fromMatch = emailContent.from.match(/<([^>]+)>/) || [null, emailContent.from]
+                const senderEmail = fromMatch[1] || emailContent.from
+
+                // UNSUBSCRIBE / STOP replies opt the sender out of this agent's email
+                const consentReply = await applyInboundConsentReply(supabase, {
+                    channel: 'email',
+                    text: parseConsentReply(emailContent.subject)
+                        ? emailContent.subject
+                        : emailContent.body?.trim().split('\n')[0],
+                    email: senderEmail,
+                    userId: integration.user_id,
+                    metadata: { gmail_message_id: added.message.id }
+                })
+                if (consentReply) {
+                    await logger.info('gmail_webhook', 'Applied consent reply', { consent: consentReply })
+                    continue
+                }
+
                 const emailText = `Subject: ${emailContent.subject}\nFrom: ${emailContent.from}\n\n${emailContent.body}`
                 const extraction = await extractFromEmail(emailText)
 
@@ -103,9 +125,6 @@ export async function POST(request: NextRequest) {
                     continue
                 }
 
-                const fromMatch = emailContent.from.match(/<([^>]+)>/) || [null, emailContent.from]
-                const senderEmail = fromMatch[1] || emailContent.from
-
                 // Get the user_id from the integration for data isolation
                 const userId = integration.user_id
 
@@ -116,7 +135,9 @@ export async function POST(request: NextRequest) {
                     .select('id')
                     .eq('user_id', userId)
                     .eq('email', senderEmail)
-                    .single()
+                    // Merged duplicates share the address; match the surviving client
+                    .is('merged_into_id', null)
+                    .maybeSingle()
 
                 if (existingClient) {
                     clientId = existingClient.id
@@ -138,6 +159,21 @@ export async function POST(request: NextRequest) {
 
                     clientId = newClient?.id || null
                     await logger.info('gmail_webhook', 'Created new client', { clientId })
+                    if (clientId) {
+                        try {
+                            await detectClientDuplicates(supabase, userId, [clientId])
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : String(error)
+                            await logger.warn('gmail_webhook', 'Duplicate detection failed', { clientId, error: errorMessage })
+                        }
+                    }
+                }
+
+                if (clientId) {
+                    const profile = await captureSearchProfileFromExtraction(supabase, userId, clientId, extraction.data.deal)
+                    if (profile) {
+                        await logger.info('gmail_webhook', 'Saved buyer search profile', { clientId, profileId: profile.id })
+                    }
                 }
 
                 for (const task of extraction.data.tasks) {
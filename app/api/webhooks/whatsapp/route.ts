@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { checkIdempotency } from '@/lib/redis-utils'
 import { extractFromMessage } from '@/lib/openrouter'
-import { createClient } from '@/lib/supabase/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { applyInboundConsentReply } from '@/lib/clients/consent-records'
+import { verifyWebhookSignature } from '@/lib/security/webhook-signature'
 
 interface WhatsAppMessage {
     id: string
@@ -42,7 +44,14 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
     try {
-        const payload: WhatsAppWebhookPayload = await request.json()
+        // Meta signs every delivery with the app secret; anything unsigned could
+        // opt any client in or out of WhatsApp
+        const rawBody = await request.text()
+        if (!verifyWebhookSignature(rawBody, request.headers.get('x-hub-signature-256'), process.env.WHATSAPP_APP_SECRET)) {
+            return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+        }
+
+        const payload: WhatsAppWebhookPayload = JSON.parse(rawBody)
 
         if (payload.object !== 'whatsapp_business_account') {
             return NextResponse.json({ status: 'ignored' }, { status: 200 })
@@ -58,6 +67,15 @@ export async function POST(request: NextRequest) {
 
                     if (message.type !== 'text' || !message.text?.body) continue
 
+                    // STOP / START replies update consent and need nothing else
+                    const consentReply = await applyInboundConsentReply(createServiceClient(), {
+                        channel: 'whatsapp',
+                        text: message.text.body,
+                        phone: message.from,
+                        metadata: { whatsapp_message_id: message.id }
+                    })
+                    if (consentReply) continue
+
                     const contact = change.value.contacts?.find(c => c.wa_id === message.from)
                     const senderName = contact?.profile?.name || 'Unknown'
                     const senderPhone = message.from
@@ -70,7 +88,8 @@ export async function POST(request: NextRequest) {
                             .from('clients')
                             .select('id')
                             .eq('phone', senderPhone)
-                            .single()
+                            .is('merged_into_id', null)
+                            .maybeSingle()
 
                         if (client) {
                             await supabase.from('tasks').insert({
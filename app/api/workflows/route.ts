@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { requireAuth } from '@/lib/auth/utils'
+import { assertContactAllowed } from '@/lib/clients/consent-records'
 
 export async function GET(request: NextRequest) {
   try {
@@ -504,6 +505,10 @@ async function sendEmailStep(config: any, entityType: string, entityId: string,
     return { success: false, message: 'Recipient email not found', data: null }
   }
 
+  // Opted-out contacts fail the step instead of being reported as sent
+  const clientId = getEntityClientId(entityType, entityData)
+  if (clientId) await assertContactAllowed(supabase, userId, clientId, 'email')
+
   // This would integrate with your email service
   return { 
     success: true, 
@@ -525,6 +530,9 @@ async function sendSMSStep(config: any, entityType: string, entityId: string, us
     return { success: false, message: 'Recipient phone not found', data: null }
   }
 
+  const clientId = getEntityClientId(entityType, entityData)
+  if (clientId) await assertContactAllowed(supabase, userId, clientId, 'sms')
+
   return { 
     success: true, 
     message: `SMS sent to ${recipientPhone}`, 
@@ -780,6 +788,11 @@ async function getEntityData(entityType: string, entityId: string, userId: strin
   return data
 }
 
+// The client a workflow entity belongs to, for consent checks
+function getEntityClientId(entityType: string, entityData: any): string | null {
+  return getTableName(entityType) === 'clients' ? entityData.id : entityData.client_id || null
+}
+
 function getTableName(entityType: string) {
   const tableMap: { [key: string]: string } = {
     'client': 'clients',
@@ -0,0 +1,311 @@
+'use client'
+
+/**
+ * Client Portal Page
+ * Read-only transaction status for the client, opened from a secret link
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import {
+  AlertCircle,
+  Calendar,
+  CheckCircle,
+  Circle,
+  FileText,
+  Home,
+  Loader2,
+  MessageSquare,
+  Send
+} from 'lucide-react'
+import { apiFetch } from '@/lib/api-fetch'
+import { describeDaysUntil, type PortalView } from '@/lib/transactions/portal'
+
+function formatPortalDate(date: string | null) {
+  if (!date) return 'Date to be confirmed'
+  return new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+export default function ClientPortalPage() {
+  const params = useParams()
+  const token = params.token as string
+
+  const [portal, setPortal] = useState<PortalView | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+  const [sending, setSending] = useState(false)
+  const [sendError, setSendError] = useState<string | null>(null)
+
+  const loadPortal = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/portal/${token}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setPortal(data.portal)
+      } else {
+        setError(data.error || 'This portal link is invalid or has expired')
+      }
+    } catch (error) {
+      console.error('Error loading portal:', error)
+      setError('Failed to load your transaction. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    if (token) {
+      loadPortal()
+    }
+  }, [token, loadPortal])
+
+  const sendMessage = async () => {
+    if (!message.trim()) return
+
+    try {
+      setSending(true)
+      setSendError(null)
+
+      const response = await apiFetch(`/api/portal/${token}/messages`, {
+        method: 'POST',
+        body: JSON.stringify({ content: message })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setSendError(data.details?.[0]?.message || data.error || 'Failed to send message')
+        return
+      }
+
+      setPortal(prev => prev ? { ...prev, messages: [...prev.messages, data.message] } : prev)
+      setMessage('')
+    } catch (error) {
+      console.error('Error sending portal message:', error)
+      setSendError('Failed to send message. Please try again.')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-center space-x-2">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Loading your transaction...</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (error || !portal) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <CardTitle className="text-red-900">Link Unavailable</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Alert variant="destructive">
+              <AlertDescription>
+                {error || 'This portal link is invalid or has expired.'}
+              </AlertDescription>
+            </Alert>
+            <p className="text-sm text-gray-600 text-center mt-4">
+              Please contact your agent for a new link.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const { transaction, agent } = portal
+  const completed = portal.milestones.filter(milestone => milestone.status === 'completed').length
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="text-center">
+          <div className="mx-auto w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+            <Home className="h-6 w-6 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {portal.client_first_name ? `Hi ${portal.client_first_name}, here's where things stand` : "Here's where things stand"}
+          </h1>
+          {transaction.property_address && (
+            <p className="text-gray-600 mt-2">{transaction.property_address}</p>
+          )}
+          <div className="flex items-center justify-center gap-2 mt-3">
+            {transaction.transaction_type && (
+              <Badge variant="outline" className="capitalize">{transaction.transaction_type}</Badge>
+            )}
+            {transaction.status && (
+              <Badge variant="secondary" className="capitalize">{transaction.status.replace(/_/g, ' ')}</Badge>
+            )}
+          </div>
+        </div>
+
+        {/* Upcoming Dates */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Coming Up
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {portal.upcoming.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing scheduled in the next few weeks</p>
+            ) : (
+              <div className="space-y-3">
+                {portal.upcoming.map(date => (
+                  <div key={`${date.label}-${date.date}`} className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">{date.label}</span>
+                    <span className="text-sm text-gray-600">
+                      {formatPortalDate(date.date)} · {describeDaysUntil(date.days_until)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Milestones */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">Milestones</CardTitle>
+              {portal.milestones.length > 0 && (
+                <span className="text-sm text-gray-600">{completed} of {portal.milestones.length} complete</span>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {portal.milestones.length === 0 ? (
+              <p className="text-sm text-gray-500">Your agent hasn't added milestones yet</p>
+            ) : (
+              <ol className="space-y-3">
+                {portal.milestones.map(milestone => {
+                  const done = milestone.status === 'completed'
+                  return (
+                    <li key={milestone.id} className="flex items-start gap-3">
+                      {done ? (
+                        <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0" />
+                      ) : (
+                        <Circle className="h-5 w-5 text-gray-300 flex-shrink-0" />
+                      )}
+                      <div>
+                        <div className={`text-sm font-medium ${done ? 'text-gray-500' : 'text-gray-900'}`}>
+                          {milestone.milestone}
+                        </div>
+                        <div className="text-xs text-gray-500">{formatPortalDate(milestone.milestone_date)}</div>
+                      </div>
+                    </li>
+                  )
+                })}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Shared Documents */}
+        {portal.documents.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Documents</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {portal.documents.map(document => (
+                  <a
+                    key={document.id}
+                    href={document.file_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 text-sm text-blue-600 hover:underline"
+                  >
+                    <FileText className="h-4 w-4" />
+                    {document.document_name}
+                  </a>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Messages */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              Message {agent.name || 'your agent'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {portal.messages.length > 0 && (
+              <div className="space-y-3 max-h-80 overflow-y-auto">
+                {portal.messages.map(entry => (
+                  <div key={entry.id} className={`flex ${entry.direction === 'inbound' ? 'justify-end' : 'justify-start'}`}>
+                    <div className={`max-w-[80%] rounded-lg px-3 py-2 ${
+                      entry.direction === 'inbound' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
+                    }`}>
+                      <p className="text-sm whitespace-pre-wrap">{entry.content}</p>
+                      <p className={`text-xs mt-1 ${entry.direction === 'inbound' ? 'text-blue-100' : 'text-gray-500'}`}>
+                        {new Date(entry.sent_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Textarea
+              rows={3}
+              placeholder="Ask a question about your transaction..."
+              value={message}
+              onChange={e => setMessage(e.target.value)}
+              maxLength={4000}
+            />
+
+            {sendError && (
+              <Alert variant="destructive">
+                <AlertDescription>{sendError}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-500">
+                {agent.email && `Or email ${agent.email}`}
+              </span>
+              <Button onClick={sendMessage} disabled={sending || !message.trim()}>
+                {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                Send
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <p className="text-xs text-gray-500 text-center">
+          This link is private to you and expires {formatPortalDate(portal.expires_at)}.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,228 @@
+'use client'
+
+/**
+ * Showing Feedback Page
+ * The buyer's answers after a showing, opened from a secret link
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { AlertCircle, CheckCircle, Home, Loader2, Send } from 'lucide-react'
+import { apiFetch } from '@/lib/api-fetch'
+import {
+  SHOWING_INTEREST_LEVELS,
+  SHOWING_PRICE_OPINIONS,
+  type ShowingFeedbackRequest,
+  type ShowingInterestLevel,
+  type ShowingPriceOpinion
+} from '@/lib/showings/schedule'
+
+export default function ShowingFeedbackPage() {
+  const params = useParams()
+  const token = params.token as string
+
+  const [feedbackRequest, setFeedbackRequest] = useState<ShowingFeedbackRequest | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [interestLevel, setInterestLevel] = useState<ShowingInterestLevel | ''>('')
+  const [priceOpinion, setPriceOpinion] = useState<ShowingPriceOpinion | ''>('')
+  const [comments, setComments] = useState('')
+  const [sending, setSending] = useState(false)
+  const [sendError, setSendError] = useState<string | null>(null)
+
+  const loadRequest = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/showing-feedback/${token}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setFeedbackRequest(data.request)
+      } else {
+        setError(data.error || 'This feedback link is invalid or has expired')
+      }
+    } catch (error) {
+      console.error('Error loading feedback form:', error)
+      setError('Failed to load the feedback form. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    if (token) {
+      loadRequest()
+    }
+  }, [token, loadRequest])
+
+  const submitFeedback = async () => {
+    if (!interestLevel || !priceOpinion) return
+
+    try {
+      setSending(true)
+      setSendError(null)
+
+      const response = await apiFetch(`/api/showing-feedback/${token}`, {
+        method: 'POST',
+        body: JSON.stringify({
+          interest_level: interestLevel,
+          price_opinion: priceOpinion,
+          comments: comments.trim() || null
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setSendError(data.details?.[0]?.message || data.error || 'Failed to send feedback')
+        return
+      }
+
+      setFeedbackRequest(prev => prev ? { ...prev, submitted: true } : prev)
+    } catch (error) {
+      console.error('Error sending showing feedback:', error)
+      setSendError('Failed to send feedback. Please try again.')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-center space-x-2">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Loading...</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (error || !feedbackRequest) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <CardTitle className="text-red-900">Link Unavailable</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Alert variant="destructive">
+              <AlertDescription>
+                {error || 'This feedback link is invalid or has expired.'}
+              </AlertDescription>
+            </Alert>
+            <p className="text-sm text-gray-600 text-center mt-4">
+              You can still share your thoughts with your agent directly.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const agentName = feedbackRequest.agent_name || 'your agent'
+
+  if (feedbackRequest.submitted) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+            <CardTitle>Thanks for your feedback</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-600 text-center">
+              We&apos;ve passed it on to {agentName}, who&apos;ll be in touch about next steps.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-xl mx-auto space-y-6">
+        <div className="text-center">
+          <div className="mx-auto w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+            <Home className="h-6 w-6 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {feedbackRequest.client_first_name ? `${feedbackRequest.client_first_name}, what did you think?` : 'What did you think?'}
+          </h1>
+          <p className="text-gray-600 mt-2">{feedbackRequest.property_address}</p>
+          <p className="text-sm text-gray-500">
+            Viewed {new Date(feedbackRequest.start_time).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6 space-y-6">
+            <div className="space-y-3">
+              <Label className="text-base">How interested are you in this home?</Label>
+              <RadioGroup value={interestLevel} onValueChange={value => setInterestLevel(value as ShowingInterestLevel)}>
+                {SHOWING_INTEREST_LEVELS.map(option => (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <RadioGroupItem value={option.value} id={`interest-${option.value}`} />
+                    <Label htmlFor={`interest-${option.value}`} className="font-normal">{option.label}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-3">
+              <Label className="text-base">What do you think of the asking price?</Label>
+              <RadioGroup value={priceOpinion} onValueChange={value => setPriceOpinion(value as ShowingPriceOpinion)}>
+                {SHOWING_PRICE_OPINIONS.map(option => (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <RadioGroupItem value={option.value} id={`price-${option.value}`} />
+                    <Label htmlFor={`price-${option.value}`} className="font-normal">{option.label}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="feedback-comments" className="text-base">Anything else?</Label>
+              <Textarea
+                id="feedback-comments"
+                rows={4}
+                placeholder="What you liked, what put you off, questions for the seller..."
+                value={comments}
+                onChange={e => setComments(e.target.value)}
+                maxLength={2000}
+              />
+            </div>
+
+            {sendError && (
+              <Alert variant="destructive">
+                <AlertDescription>{sendError}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button className="w-full" onClick={submitFeedback} disabled={sending || !interestLevel || !priceOpinion}>
+              {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Send to {agentName}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <p className="text-xs text-gray-500 text-center">
+          This link is private to you and expires {new Date(feedbackRequest.expires_at).toLocaleDateString()}.
+        </p>
+      </div>
+    </div>
+  )
+}
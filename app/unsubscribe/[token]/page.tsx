@@ -0,0 +1,137 @@
+'use client'
+
+/**
+ * Email Unsubscribe Page
+ * Confirms before opting the client out, so link scanners can't unsubscribe anyone
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, CheckCircle, Loader2, MailX } from 'lucide-react'
+import { apiFetch } from '@/lib/api-fetch'
+
+export default function UnsubscribePage() {
+  const params = useParams()
+  const token = params.token as string
+
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [unsubscribed, setUnsubscribed] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [invalid, setInvalid] = useState(false)
+
+  const checkLink = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/unsubscribe/${token}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setUnsubscribed(!!data.unsubscribed)
+      } else {
+        setError(data.error || 'This unsubscribe link is invalid')
+        setInvalid(response.status === 404)
+      }
+    } catch (error) {
+      console.error('Error checking unsubscribe link:', error)
+      setError('Failed to load this page. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    if (token) {
+      checkLink()
+    }
+  }, [token, checkLink])
+
+  const unsubscribe = async () => {
+    try {
+      setSubmitting(true)
+      setError(null)
+      const response = await apiFetch(`/api/unsubscribe/${token}`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to unsubscribe')
+        return
+      }
+      setUnsubscribed(true)
+    } catch (error) {
+      console.error('Error unsubscribing:', error)
+      setError('Failed to unsubscribe. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-center space-x-2">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Loading...</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (unsubscribed) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+            <CardTitle className="text-green-900">You&apos;re unsubscribed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-600 text-center">
+              You won&apos;t receive any more emails from your agent. Reply to any earlier email if you change your mind.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          {error ? (
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          ) : (
+            <MailX className="h-12 w-12 text-gray-500 mx-auto mb-4" />
+          )}
+          <CardTitle>Unsubscribe from emails</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {!invalid && (
+            <>
+              <p className="text-sm text-gray-600 text-center">
+                Stop receiving emails from your agent, including automated follow-ups.
+              </p>
+              <Button className="w-full" onClick={unsubscribe} disabled={submitting}>
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Unsubscribe
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,31 +1,65 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
 import { Settings, TrendingUp, DollarSign, Calculator } from 'lucide-react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { useToast } from '@/hooks/use-toast'
+import { usePipelines } from '@/hooks/use-pipelines'
+import { useRBAC } from '@/lib/rbac/context'
 import { calculateCommission, formatCurrency, formatCommissionDisplay, calculateTotalCommissionRevenue, getCommissionForecast } from '@/lib/commission'
+import { buildCommissionLedger, getParticipantRoleLabel } from '@/lib/commissions/ledger'
+import { getStageCategory } from '@/lib/pipeline/stages'
+import { calculateCommissionBreakdown, type CapYear, type CommissionPlan, type CommissionTier, type YearToDateProduction } from '@/lib/commissions/plans'
 import { Deal } from '@/lib/types'
 
 interface CommissionDashboardProps {
   deals: Deal[]
 }
 
+interface YearToDateSummary {
+  plan: CommissionPlan
+  capYear: CapYear
+  production: YearToDateProduction
+  currentTier: CommissionTier
+  capRemaining: number | null
+}
+
 export function CommissionDashboard({ deals }: CommissionDashboardProps) {
   const [defaultPercentage, setDefaultPercentage] = useState(2.5)
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [yearToDate, setYearToDate] = useState<YearToDateSummary | null>(null)
   const { toast } = useToast()
+  const { allStages } = usePipelines()
+  const { currentTenant } = useRBAC()
 
   useEffect(() => {
     fetchCommissionSettings()
   }, [])
 
+  useEffect(() => {
+    if (currentTenant) fetchYearToDate(currentTenant)
+  }, [currentTenant])
+
+  const fetchYearToDate = async (tenantId: string) => {
+    try {
+      const response = await fetch(`/api/user/commission-settings/year-to-date?tenantId=${tenantId}`, {
+        credentials: 'include'
+      })
+      if (response.ok) {
+        setYearToDate(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch year-to-date production:', error)
+    }
+  }
+
   const fetchCommissionSettings = async () => {
     try {
       const response = await fetch('/api/commission-settings')
@@ -69,8 +103,38 @@ export function CommissionDashboard({ deals }: CommissionDashboardProps) {
     }
   }
 
-  const commissionRevenue = calculateTotalCommissionRevenue(deals)
-  const forecast = getCommissionForecast(deals)
+  const commissionRevenue = calculateTotalCommissionRevenue(deals, allStages)
+  const forecast = getCommissionForecast(deals, allStages)
+
+  const getDealLedger = (deal: Deal) => {
+    const value = parseFloat(deal.value.replace(/[$,]/g, ''))
+    return buildCommissionLedger(
+      calculateCommission(value, deal.commissionPercentage || defaultPercentage),
+      deal.commissionParticipants || [],
+      { userId: null, name: 'You' }
+    )
+  }
+
+  // Each party's net share of closed deals after the split ledger is applied
+  const agentShares = useMemo(() => {
+    const shares = new Map<string, { name: string; role: string; amount: number; deals: number }>()
+
+    deals
+      .filter(deal => getStageCategory(allStages, deal.status) === 'won')
+      .forEach(deal => {
+        getDealLedger(deal).entries.forEach(entry => {
+          const key = entry.role === 'primary_agent' ? 'you' : entry.userId || `${entry.role}:${entry.name}`
+          const share = shares.get(key) || { name: entry.name, role: getParticipantRoleLabel(entry.role), amount: 0, deals: 0 }
+          share.amount += entry.amount
+          share.deals += 1
+          shares.set(key, share)
+        })
+      })
+
+    return Array.from(shares.values()).sort((a, b) => b.amount - a.amount)
+  }, [deals, allStages, defaultPercentage])
+  const formatCapYearDate = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
 
   return (
     <div className="space-y-6">
@@ -187,6 +251,100 @@ export function CommissionDashboard({ deals }: CommissionDashboardProps) {
         </Card>
       </div>
 
+      {yearToDate && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Commission Plan</CardTitle>
+            <CardDescription>
+              Cap year {formatCapYearDate(yearToDate.capYear.start)} – {formatCapYearDate(yearToDate.capYear.end)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-xs text-muted-foreground">Year-to-Date GCI</p>
+                <div className="text-xl font-bold">{formatCurrency(yearToDate.production.gci)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {yearToDate.production.transactions} closed {yearToDate.production.transactions === 1 ? 'transaction' : 'transactions'}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Current Split</p>
+                <div className="text-xl font-bold">
+                  {yearToDate.currentTier.rate}/{100 - yearToDate.currentTier.rate}
+                </div>
+                <p className="text-xs text-muted-foreground">{yearToDate.currentTier.label}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Company Dollar Paid</p>
+                <div className="text-xl font-bold">{formatCurrency(yearToDate.production.companyDollar)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {yearToDate.plan.annualCap !== null ? `of ${formatCurrency(yearToDate.plan.annualCap)} cap` : 'No annual cap'}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Royalty Paid</p>
+                <div className="text-xl font-bold">{formatCurrency(yearToDate.production.royaltyPaid)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {yearToDate.plan.royaltyPercentage}%{yearToDate.plan.royaltyCap !== null && ` up to ${formatCurrency(yearToDate.plan.royaltyCap)}`}
+                </p>
+              </div>
+            </div>
+
+            {yearToDate.plan.annualCap !== null && (
+              <div className="space-y-1">
+                <Progress value={Math.min((yearToDate.production.companyDollar / yearToDate.plan.annualCap) * 100, 100)} />
+                <p className="text-xs text-muted-foreground">
+                  {yearToDate.capRemaining === 0
+                    ? 'Capped: you keep 100% of the split until your anniversary'
+                    : `${formatCurrency(yearToDate.capRemaining || 0)} to cap`}
+                </p>
+              </div>
+            )}
+
+            {yearToDate.plan.tiers.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {yearToDate.plan.tiers.map((tier) => (
+                  <Badge
+                    key={tier.threshold}
+                    variant={tier.threshold === yearToDate.currentTier.threshold ? 'default' : 'outline'}
+                  >
+                    {tier.label}: {tier.rate}/{100 - tier.rate} from {formatCurrency(tier.threshold)}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {agentShares.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Net Shares by Agent</CardTitle>
+            <CardDescription>Closed deal commission after referral fees, co-listing splits and overrides</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {agentShares.map((share) => (
+                <div key={`${share.role}-${share.name}`} className="flex items-center justify-between text-sm">
+                  <div>
+                    <span className="font-medium">{share.name}</span>
+                    <span className="text-muted-foreground ml-2">{share.role}</span>
+                  </div>
+                  <div className="text-right">
+                    <span className="font-medium">{formatCurrency(share.amount)}</span>
+                    <span className="text-xs text-muted-foreground ml-2">
+                      {share.deals} {share.deals === 1 ? 'deal' : 'deals'}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Recent Deals</CardTitle>
@@ -197,6 +355,10 @@ export function CommissionDashboard({ deals }: CommissionDashboardProps) {
             {deals.slice(0, 5).map((deal) => {
               const value = parseFloat(deal.value.replace(/[$,]/g, ''))
               const commission = calculateCommission(value, deal.commissionPercentage || defaultPercentage)
+              const ledger = getDealLedger(deal)
+              const breakdown = yearToDate
+                ? calculateCommissionBreakdown(ledger.primaryAgentAmount, yearToDate.plan, yearToDate.production)
+                : null
               
               return (
                 <div key={deal.id} className="flex items-center justify-between p-4 border rounded-lg">
@@ -208,11 +370,24 @@ export function CommissionDashboard({ deals }: CommissionDashboardProps) {
                     <p className="text-sm text-muted-foreground">
                       Deal Value: {deal.value}
                     </p>
+                    {ledger.entries.length > 1 && (
+                      <p className="text-xs text-muted-foreground">
+                        {ledger.entries
+                          .filter(entry => entry.role !== 'primary_agent')
+                          .map(entry => `${getParticipantRoleLabel(entry.role)} ${entry.name}: ${formatCurrency(entry.amount)}`)
+                          .join(' · ')}
+                      </p>
+                    )}
                   </div>
                   <div className="text-right">
                     <div className="font-medium">
                       {formatCommissionDisplay(value, deal.commissionPercentage || defaultPercentage)}
                     </div>
+                    {breakdown && (
+                      <p className="text-sm text-green-600">
+                        {formatCurrency(breakdown.agentNet)} net to you
+                      </p>
+                    )}
                     <p className="text-sm text-muted-foreground">
                       {deal.probability}% probability
                     </p>
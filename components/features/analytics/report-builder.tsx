@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -37,8 +37,11 @@ import {
   Users,
   DollarSign,
   MessageSquare,
-  Phone
+  Phone,
+  Home
 } from "lucide-react"
+import { useCustomFields } from "@/hooks/use-custom-fields"
+import { CUSTOM_FIELD_REF_PREFIX, isNumericField, type CustomFieldDefinition } from "@/lib/custom-fields/fields"
 
 interface ReportBuilderProps {
   onSave?: (report: any) => void
@@ -79,6 +82,21 @@ const DATA_SOURCES = [
       { name: 'closed_at', type: 'datetime', label: 'Closed Date' }
     ]
   },
+  { 
+    table: 'transactions', 
+    name: 'Transactions', 
+    icon: Home,
+    fields: [
+      { name: 'id', type: 'uuid', label: 'Transaction ID' },
+      { name: 'transaction_type', type: 'text', label: 'Type' },
+      { name: 'status', type: 'text', label: 'Status' },
+      { name: 'purchase_price', type: 'number', label: 'Purchase Price' },
+      { name: 'commission_amount', type: 'number', label: 'Commission' },
+      { name: 'contract_date', type: 'date', label: 'Contract Date' },
+      { name: 'closing_date', type: 'date', label: 'Closing Date' },
+      { name: 'created_at', type: 'datetime', label: 'Created Date' }
+    ]
+  },
   { 
     table: 'tasks', 
     name: 'Tasks', 
@@ -124,6 +142,23 @@ const DATA_SOURCES = [
   }
 ]
 
+// Custom fields appear under each source as cf.<key>; the report API reads
+// them out of the record's custom_fields column
+function withCustomFields(sources: typeof DATA_SOURCES, customFields: CustomFieldDefinition[]) {
+  if (customFields.length === 0) return sources
+
+  return sources.map(source => {
+    const fields = customFields
+      .filter(field => field.entity_type === source.table)
+      .map(field => ({
+        name: `${CUSTOM_FIELD_REF_PREFIX}${field.key}`,
+        type: isNumericField(field.field_type) ? 'number' : field.field_type === 'date' ? 'date' : 'text',
+        label: field.label
+      }))
+    return fields.length > 0 ? { ...source, fields: [...source.fields, ...fields] } : source
+  })
+}
+
 const CHART_TYPES = [
   { value: 'table', label: 'Table', icon: Table },
   { value: 'bar', label: 'Bar Chart', icon: BarChart3 },
@@ -168,6 +203,8 @@ export function ReportBuilder({ onSave, onPreview, initialReport }: ReportBuilde
   const [isPreviewMode, setIsPreviewMode] = useState(false)
   const [previewData, setPreviewData] = useState(null)
   const [isLoading, setIsLoading] = useState(false)
+  const { fields: customFields } = useCustomFields()
+  const dataSources = useMemo(() => withCustomFields(DATA_SOURCES, customFields), [customFields])
 
   const addDataSource = (tableInfo: any) => {
     const newSource = {
@@ -403,7 +440,7 @@ export function ReportBuilder({ onSave, onPreview, initialReport }: ReportBuilde
                       </SheetDescription>
                     </SheetHeader>
                     <div className="space-y-4 mt-6">
-                      {DATA_SOURCES.map((source) => (
+                      {dataSources.map((source) => (
                         <Card
                           key={source.table}
                           className="cursor-pointer hover:border-blue-300 transition-colors"
@@ -442,7 +479,7 @@ export function ReportBuilder({ onSave, onPreview, initialReport }: ReportBuilde
                     <DataSourceConfig
                       key={index}
                       source={source}
-                      sourceInfo={DATA_SOURCES.find((s: any) => s.table === source.table)}
+                      sourceInfo={dataSources.find((s: any) => s.table === source.table)}
                       onUpdate={(updates: any) => updateDataSource(index, updates)}
                       onRemove={() => removeDataSource(index)}
                     />
@@ -463,7 +500,7 @@ export function ReportBuilder({ onSave, onPreview, initialReport }: ReportBuilde
                 <Tabs defaultValue={report.data_sources[0]?.table || ''}>
                   <TabsList className="grid w-full" style={{ gridTemplateColumns: `repeat(${report.data_sources.length}, minmax(0, 1fr))` }}>
                     {report.data_sources.map((source: any) => {
-                      const sourceInfo = DATA_SOURCES.find((s: any) => s.table === source.table)
+                      const sourceInfo = dataSources.find((s: any) => s.table === source.table)
                       return (
                         <TabsTrigger key={source.table} value={source.table} className="flex items-center">
                           {sourceInfo && <sourceInfo.icon className="h-4 w-4 mr-1" />}
@@ -476,7 +513,7 @@ export function ReportBuilder({ onSave, onPreview, initialReport }: ReportBuilde
                   {report.data_sources.map((source: any) => (
                     <TabsContent key={source.table} value={source.table} className="space-y-4">
                       <div className="flex justify-between items-center">
-                        <h4 className="font-medium">Filters for {DATA_SOURCES.find((s: any) => s.table === source.table)?.name}</h4>
+                        <h4 className="font-medium">Filters for {dataSources.find((s: any) => s.table === source.table)?.name}</h4>
                         <Button
                           size="sm"
                           variant="outline"
@@ -493,7 +530,7 @@ export function ReportBuilder({ onSave, onPreview, initialReport }: ReportBuilde
                           table={source.table}
                           field={field}
                           filter={filter}
-                          availableFields={DATA_SOURCES.find((s: any) => s.table === source.table)?.fields || []}
+                          availableFields={dataSources.find((s: any) => s.table === source.table)?.fields || []}
                           onUpdate={(updates: any) => updateFilter(source.table, field, updates)}
                           onRemove={() => removeFilter(source.table, field)}
                         />
@@ -529,7 +566,7 @@ export function ReportBuilder({ onSave, onPreview, initialReport }: ReportBuilde
                   <div className="space-y-1">
                     {report.data_sources.map((source: any, index: number) => (
                       <Badge key={index} variant="secondary" className="text-xs">
-                        {DATA_SOURCES.find((s: any) => s.table === source.table)?.name}
+                        {dataSources.find((s: any) => s.table === source.table)?.name}
                       </Badge>
                     ))}
                   </div>
@@ -557,7 +594,7 @@ export function ReportBuilder({ onSave, onPreview, initialReport }: ReportBuilde
                   reportType={report.report_type}
                   config={report.chart_config}
                   dataSources={report.data_sources}
-                  availableFields={DATA_SOURCES}
+                  availableFields={dataSources}
                   onChange={(config: any) => setReport((prev: any) => ({ ...prev, chart_config: config }))}
                 />
               </CardContent>
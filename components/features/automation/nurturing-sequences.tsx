@@ -55,6 +55,7 @@ interface SequenceEnrollment {
   steps_completed: number
   enrolled_at: string
   next_step_at?: string
+  include_household?: boolean
   client: {
     first_name: string
     last_name: string
@@ -559,6 +560,9 @@ export function NurturingSequences() {
                         <Badge className={getStatusColor(enrollment.status)}>
                           {enrollment.status}
                         </Badge>
+                        {enrollment.include_household && (
+                          <Badge variant="outline">Household</Badge>
+                        )}
                         {enrollment.next_step_at && (
                           <div className="text-xs text-gray-600 flex items-center">
                             <Clock className="h-3 w-3 mr-1" />
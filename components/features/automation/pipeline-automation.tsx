@@ -38,6 +38,8 @@ import {
   ArrowRight,
   Bot
 } from "lucide-react"
+import { useCustomFields } from "@/hooks/use-custom-fields"
+import type { CustomFieldDefinition } from "@/lib/custom-fields/fields"
 
 interface PipelineAutomationProps {
   onUpdate?: () => void
@@ -93,12 +95,31 @@ const CONDITION_OPERATORS = [
   { value: 'date_after', label: 'Date After' }
 ]
 
+// Condition fields are dotted paths into the entity record, so custom fields
+// are custom_fields.<key>, and a deal's client fields hang off client.
+function getCustomFieldSuggestions(triggerType: string, fields: CustomFieldDefinition[]) {
+  const suggestions = (entity: string, prefix = '') => fields
+    .filter(field => field.entity_type === entity)
+    .map(field => ({ path: `${prefix}custom_fields.${field.key}`, label: field.label }))
+
+  switch (triggerType) {
+    case 'deal_stage_change':
+      return [...suggestions('deals'), ...suggestions('clients', 'client.')]
+    case 'client_status_change':
+    case 'score_threshold':
+      return suggestions('clients')
+    default:
+      return [...suggestions('clients'), ...suggestions('deals'), ...suggestions('transactions')]
+  }
+}
+
 export function PipelineAutomation({ onUpdate }: PipelineAutomationProps) {
   const [automations, setAutomations] = useState<Automation[]>([])
   const [loading, setLoading] = useState(true)
   const [isNewAutomationOpen, setIsNewAutomationOpen] = useState(false)
   const [editingAutomation, setEditingAutomation] = useState<Automation | null>(null)
   const [testingAutomation, setTestingAutomation] = useState<string | null>(null)
+  const { fields: customFields } = useCustomFields()
 
   // New automation form state
   const [newAutomation, setNewAutomation] = useState({
@@ -385,6 +406,12 @@ export function PipelineAutomation({ onUpdate }: PipelineAutomationProps) {
                     </Button>
                   </div>
                   
+                  <datalist id="automation-condition-fields">
+                    {getCustomFieldSuggestions(newAutomation.trigger_type, customFields).map((suggestion) => (
+                      <option key={suggestion.path} value={suggestion.path}>{suggestion.label}</option>
+                    ))}
+                  </datalist>
+                  
                   <div className="space-y-3">
                     {newAutomation.conditions.map((condition, index) => (
                       <Card key={index}>
@@ -412,6 +439,7 @@ export function PipelineAutomation({ onUpdate }: PipelineAutomationProps) {
                                 value={condition.field}
                                 onChange={(e) => updateCondition(index, { field: e.target.value })}
                                 placeholder="status"
+                                list="automation-condition-fields"
                               />
                             </div>
                             
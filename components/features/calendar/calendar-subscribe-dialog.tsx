@@ -0,0 +1,125 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Copy, Link2, Loader2, Rss } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useCalendarFeed } from "@/hooks/use-calendar"
+import { FEED_FUTURE_DAYS, FEED_PAST_DAYS } from "@/lib/calendar/ical"
+import { formatDate } from "@/lib/utils"
+
+/**
+ * Issue, copy and turn off the secret iCalendar URL for subscribing from a phone calendar
+ */
+export function CalendarSubscribeDialog() {
+  const { feed, loading, error, createFeed, revokeFeed } = useCalendarFeed()
+  const [urls, setUrls] = useState<{ url: string; webcal_url: string } | null>(null)
+  const [working, setWorking] = useState(false)
+  const { toast } = useToast()
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+      toast({ title: 'Calendar URL copied' })
+    } catch {
+      toast({ title: 'Could not copy URL', description: url, variant: 'destructive' })
+    }
+  }
+
+  const handleCreate = async () => {
+    if (feed && !confirm('Create a new URL? Calendars subscribed to the current one will stop updating.')) return
+    setWorking(true)
+    const created = await createFeed()
+    setWorking(false)
+    if (created) setUrls(created)
+  }
+
+  const handleRevoke = async () => {
+    if (!confirm('Turn off your calendar URL? Subscribed calendars will stop updating.')) return
+    setWorking(true)
+    if (await revokeFeed()) {
+      setUrls(null)
+      toast({ title: 'Calendar URL turned off' })
+    }
+    setWorking(false)
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Rss className="h-4 w-4 mr-2" />
+          Subscribe
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Subscribe from your phone</DialogTitle>
+          <DialogDescription>
+            Add this private URL to Apple Calendar, Google Calendar or Outlook to see your tasks, meetings, showings
+            and closing milestones from the last {FEED_PAST_DAYS} and next {FEED_FUTURE_DAYS} days.
+            Calendar apps check it for changes every hour or so.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {urls ? (
+              <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 space-y-2">
+                <p className="text-sm text-blue-900">
+                  Anyone with this URL can see your schedule. It won&apos;t be shown again once you close this window.
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 truncate text-xs bg-white rounded px-2 py-1 border">{urls.url}</code>
+                  <Button size="sm" variant="outline" onClick={() => copy(urls.url)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Button size="sm" variant="outline" asChild>
+                  <a href={urls.webcal_url}>Open in calendar app</a>
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                {feed
+                  ? `Your calendar URL was created ${formatDate(feed.created_at)}${feed.last_accessed_at ? ` and last checked ${formatDate(feed.last_accessed_at)}` : ' and hasn’t been checked yet'}. Create a new one if you need to copy it again.`
+                  : 'You don’t have a calendar URL yet.'}
+              </p>
+            )}
+
+            <div className="flex justify-between gap-2">
+              {feed ? (
+                <Button variant="ghost" className="text-red-600" onClick={handleRevoke} disabled={working}>
+                  Turn off
+                </Button>
+              ) : <span />}
+              <Button onClick={handleCreate} disabled={working}>
+                {working ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+                {feed ? 'Create new URL' : 'Create URL'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
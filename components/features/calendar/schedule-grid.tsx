@@ -0,0 +1,209 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { format, isSameMonth, isToday } from "date-fns"
+import { Badge } from "@/components/ui/badge"
+import { CalendarDays, Clock, MapPin, Repeat } from "lucide-react"
+import {
+  formatItemTime,
+  getScheduleSource,
+  toDateKey,
+  type ScheduleItem,
+  type ScheduleView
+} from "@/lib/calendar/schedule"
+
+interface ScheduleGridProps {
+  view: ScheduleView
+  days: Date[]
+  focusedDate: Date
+  itemsByDate: Map<string, ScheduleItem[]>
+  timeZone?: string
+  onMove: (item: ScheduleItem, date: string) => void
+  onSelectDate: (date: Date) => void
+}
+
+// Items shown in a month cell before the rest collapse into "+N more"
+const MONTH_CELL_LIMIT = 3
+
+function ItemChip({
+  item,
+  timeZone,
+  compact,
+  dragging,
+  onDragStart,
+  onDragEnd
+}: {
+  item: ScheduleItem
+  timeZone?: string
+  compact: boolean
+  dragging: boolean
+  onDragStart: (e: React.DragEvent, item: ScheduleItem) => void
+  onDragEnd: () => void
+}) {
+  const source = getScheduleSource(item.source)
+  const done = item.status?.toLowerCase() === 'completed'
+  const content = (
+    <>
+      <div className="flex items-center gap-1 min-w-0">
+        {item.source === 'task_occurrence' && <Repeat className="h-3 w-3 flex-shrink-0" />}
+        {!item.all_day && compact && (
+          <span className="flex-shrink-0 opacity-75">{formatItemTime({ ...item, end: null }, timeZone)}</span>
+        )}
+        <span className={`truncate ${done ? 'line-through opacity-60' : ''}`}>{item.title}</span>
+      </div>
+      {!compact && (
+        <div className="mt-1 space-y-1 text-xs opacity-80">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0">{source.label}</Badge>
+            <span className="flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              {formatItemTime(item, timeZone)}
+            </span>
+          </div>
+          {item.description && <p className="line-clamp-2">{item.description}</p>}
+          {item.location && (
+            <p className="flex items-center gap-1 truncate">
+              <MapPin className="h-3 w-3 flex-shrink-0" />
+              {item.location}
+            </p>
+          )}
+        </div>
+      )}
+    </>
+  )
+
+  return (
+    <div
+      className={`rounded border px-2 py-1 text-xs ${source.className} ${
+        item.reschedulable ? 'cursor-grab active:cursor-grabbing' : ''
+      } ${dragging ? 'opacity-50' : ''}`}
+      draggable={item.reschedulable}
+      onDragStart={(e) => onDragStart(e, item)}
+      onDragEnd={onDragEnd}
+      title={item.reschedulable ? `${item.title} - drag to another day to move it` : item.title}
+    >
+      {item.href ? (
+        <Link href={item.href} className="block" draggable={false}>{content}</Link>
+      ) : content}
+    </div>
+  )
+}
+
+/**
+ * Day, week and month layouts of the schedule. Items that can be moved are
+ * dragged onto another day; their time of day is kept
+ */
+export function ScheduleGrid({ view, days, focusedDate, itemsByDate, timeZone, onMove, onSelectDate }: ScheduleGridProps) {
+  const [dragging, setDragging] = useState<ScheduleItem | null>(null)
+  const [dragOverDate, setDragOverDate] = useState<string | null>(null)
+
+  const handleDragStart = (e: React.DragEvent, item: ScheduleItem) => {
+    e.dataTransfer.setData('text/plain', item.id)
+    e.dataTransfer.effectAllowed = 'move'
+    setDragging(item)
+  }
+
+  const handleDragEnd = () => {
+    setDragging(null)
+    setDragOverDate(null)
+  }
+
+  const dropTargetProps = (dateKey: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragging) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+      if (dragOverDate !== dateKey) setDragOverDate(dateKey)
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragOverDate(null)
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      const item = dragging
+      handleDragEnd()
+      if (item && item.date !== dateKey) onMove(item, dateKey)
+    }
+  })
+
+  const renderChip = (item: ScheduleItem, compact: boolean) => (
+    <ItemChip
+      key={item.id}
+      item={item}
+      timeZone={timeZone}
+      compact={compact}
+      dragging={dragging?.id === item.id}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+    />
+  )
+
+  if (view === 'day') {
+    const dateKey = toDateKey(focusedDate)
+    const dayItems = itemsByDate.get(dateKey) || []
+    return (
+      <div className="rounded-lg border bg-white p-4 space-y-2 min-h-[300px]">
+        {dayItems.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <CalendarDays className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>Nothing scheduled for this day</p>
+          </div>
+        ) : (
+          dayItems.map(item => renderChip(item, false))
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-lg border bg-white overflow-hidden">
+      <div className="grid grid-cols-7 border-b bg-gray-50">
+        {days.slice(0, 7).map(day => (
+          <div key={day.toISOString()} className="px-2 py-2 text-xs font-medium text-gray-500 text-center">
+            {format(day, view === 'week' ? 'EEE d' : 'EEE')}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {days.map(day => {
+          const dateKey = toDateKey(day)
+          const dayItems = itemsByDate.get(dateKey) || []
+          const shown = view === 'month' ? dayItems.slice(0, MONTH_CELL_LIMIT) : dayItems
+          const hidden = dayItems.length - shown.length
+          return (
+            <div
+              key={dateKey}
+              className={`border-b border-r p-1.5 space-y-1 ${view === 'week' ? 'min-h-[420px]' : 'min-h-[110px]'} ${
+                view === 'month' && !isSameMonth(day, focusedDate) ? 'bg-gray-50/70' : ''
+              } ${dragOverDate === dateKey ? 'ring-2 ring-inset ring-blue-500' : ''}`}
+              {...dropTargetProps(dateKey)}
+            >
+              {view === 'month' && (
+                <button
+                  type="button"
+                  onClick={() => onSelectDate(day)}
+                  className={`text-xs font-medium rounded-full w-6 h-6 flex items-center justify-center hover:bg-gray-100 ${
+                    isToday(day) ? 'bg-dealvize-teal text-white hover:bg-dealvize-teal-dark' : 'text-gray-700'
+                  }`}
+                >
+                  {format(day, 'd')}
+                </button>
+              )}
+              {shown.map(item => renderChip(item, true))}
+              {hidden > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onSelectDate(day)}
+                  className="text-xs text-gray-500 hover:text-gray-900 px-1"
+                >
+                  +{hidden} more
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
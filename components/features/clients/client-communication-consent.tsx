@@ -0,0 +1,191 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Ban, Loader2, ShieldCheck } from "lucide-react"
+import { useClientConsent } from "@/hooks/use-client-consent"
+import {
+  CONSENT_CHANNELS,
+  CONSENT_SOURCE_LABELS,
+  MANUAL_CONSENT_SOURCES,
+  getConsentChannelLabel,
+  type ConsentChannel,
+  type ConsentSource,
+  type ConsentStatus
+} from "@/lib/clients/consent"
+import { formatDate } from "@/lib/utils"
+
+interface ClientCommunicationConsentProps {
+  clientId: string
+}
+
+function statusBadge(status: ConsentStatus | null) {
+  if (status === 'opted_in') return <Badge className="bg-green-100 text-green-800" variant="secondary">Opted in</Badge>
+  if (status === 'opted_out') return <Badge className="bg-red-100 text-red-800" variant="secondary">Opted out</Badge>
+  return <Badge variant="outline" className="text-gray-500">Not recorded</Badge>
+}
+
+/**
+ * Per-channel consent, recording a change with the wording shown, and do-not-contact
+ */
+export function ClientCommunicationConsent({ clientId }: ClientCommunicationConsentProps) {
+  const { consents, events, loading, error, recordConsent } = useClientConsent(clientId)
+  const [channel, setChannel] = useState<ConsentChannel | '__all'>('email')
+  const [status, setStatus] = useState<ConsentStatus>('opted_in')
+  const [source, setSource] = useState<ConsentSource>('manual')
+  const [consentText, setConsentText] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const allChannels = CONSENT_CHANNELS.map(option => option.value)
+  const doNotContact = consents.length > 0 && consents.every(consent => consent.status === 'opted_out')
+
+  const handleSave = async () => {
+    setSaving(true)
+    const saved = await recordConsent({
+      channels: channel === '__all' ? allChannels : [channel],
+      status,
+      source,
+      consent_text: consentText.trim() || undefined
+    })
+    setSaving(false)
+    if (saved) setConsentText('')
+  }
+
+  const handleDoNotContact = async () => {
+    if (!confirm('Mark this client do-not-contact? Emails, texts, calls and WhatsApp messages to them will be blocked.')) return
+    setSaving(true)
+    await recordConsent({ channels: allChannels, status: 'opted_out', source: 'manual' })
+    setSaving(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Communication Consent
+          </CardTitle>
+          {doNotContact ? (
+            <Badge className="bg-red-100 text-red-800" variant="secondary">Do not contact</Badge>
+          ) : (
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-red-600 border-red-600 hover:bg-red-600 hover:text-white"
+              onClick={handleDoNotContact}
+              disabled={saving || loading}
+            >
+              <Ban className="h-4 w-4 mr-1" />
+              Do Not Contact
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {consents.map(consent => (
+              <div key={consent.channel} className="border rounded-lg p-3 space-y-1">
+                <div className="text-sm font-medium text-gray-900">{getConsentChannelLabel(consent.channel)}</div>
+                {statusBadge(consent.status)}
+                {consent.changed_at && (
+                  <div className="text-xs text-gray-500">
+                    {consent.source ? CONSENT_SOURCE_LABELS[consent.source] : ''} · {formatDate(consent.changed_at)}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <Select value={channel} onValueChange={value => setChannel(value as ConsentChannel | '__all')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONSENT_CHANNELS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+                <SelectItem value="__all">All channels</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={status} onValueChange={value => setStatus(value as ConsentStatus)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="opted_in">Opted in</SelectItem>
+                <SelectItem value="opted_out">Opted out</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={source} onValueChange={value => setSource(value as ConsentSource)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MANUAL_CONSENT_SOURCES.map(option => (
+                  <SelectItem key={option} value={option}>{CONSENT_SOURCE_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Textarea
+            rows={2}
+            placeholder={status === 'opted_in'
+              ? 'Opt-in wording the client agreed to (required)'
+              : 'Notes (optional)'}
+            value={consentText}
+            onChange={e => setConsentText(e.target.value)}
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={saving || (status === 'opted_in' && !consentText.trim())}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Record Consent
+            </Button>
+          </div>
+        </div>
+
+        {events.length > 0 && (
+          <div className="border-t pt-4">
+            <div className="text-sm font-medium text-gray-900 mb-2">Changes</div>
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {events.map(event => (
+                <div key={event.id} className="text-xs text-gray-600">
+                  <span className="font-medium text-gray-900">{getConsentChannelLabel(event.channel)}</span>
+                  {` ${event.to_status === 'opted_out' ? 'opted out' : 'opted in'} · `}
+                  {CONSENT_SOURCE_LABELS[event.source] || event.source}
+                  {` · ${formatDate(event.recorded_at)}`}
+                  {event.consent_text && (
+                    <p className="text-gray-500 italic truncate">&ldquo;{event.consent_text}&rdquo;</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -7,16 +7,23 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Loader2, Mail, Phone, MapPin, Building2, DollarSign, Calendar, Plus, AlertCircle, MessageSquare } from "lucide-react"
+import { Loader2, Mail, Phone, MapPin, Building2, DollarSign, Calendar, Plus, AlertCircle, MessageSquare, Share2 } from "lucide-react"
 import { createClient } from '@/lib/supabase/client'
 import { type Client } from "@/lib/types"
 import { ClientNotes } from "@/components/features/clients/client-notes"
+import { ClientRelationships } from "@/components/features/clients/client-relationships"
+import { ClientSearchProfiles } from "@/components/features/clients/client-search-profiles"
+import { ShowingTours } from "@/components/features/showings/showing-tours"
+import { ClientLifecycle } from "@/components/features/clients/client-lifecycle"
+import { ClientCommunicationConsent } from "@/components/features/clients/client-communication-consent"
 import { ActivityTimeline } from "@/components/shared/activity-timeline"
 import { SmsDialog } from "@/components/features/messaging/sms-dialog"
 import { SmsHistory } from "@/components/features/messaging/sms-history"
 import { EmailDialog } from "@/components/features/messaging/email-dialog"
 import { EmailHistory } from "@/components/features/messaging/email-history"
 import { formatDate, formatCurrency } from "@/lib/utils"
+import { useToast } from "@/hooks/use-toast"
+import { useClientRelationships } from "@/hooks/use-client-relationships"
 
 interface ClientDetailContentProps {
   client: Client
@@ -51,6 +58,9 @@ export function ClientDetailContent({ client }: ClientDetailContentProps) {
   const [notes, setNotes] = useState<Note[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [sharing, setSharing] = useState(false)
+  const { toast } = useToast()
+  const relationshipGraph = useClientRelationships(client.id)
 
   useEffect(() => {
     const fetchClientData = async () => {
@@ -103,6 +113,42 @@ export function ClientDetailContent({ client }: ClientDetailContentProps) {
   }, [client.id])
 
 
+  // Share sheet where supported (AirDrop, Messages, Contacts); otherwise download the .vcf
+  const handleShareContact = async () => {
+    setSharing(true)
+    try {
+      const response = await fetch(`/api/clients/${client.id}/vcard`, { credentials: 'include' })
+      if (!response.ok) throw new Error('Failed to create contact card')
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'contact.vcf'
+      const file = new File([await response.blob()], fileName, { type: 'text/vcard' })
+
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: `${client.first_name} ${client.last_name}` })
+        return
+      }
+
+      const url = window.URL.createObjectURL(file)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = fileName
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      window.URL.revokeObjectURL(url)
+    } catch (err) {
+      // Closing the share sheet rejects with AbortError
+      if (err instanceof Error && err.name === 'AbortError') return
+      toast({
+        title: 'Could not share contact',
+        description: err instanceof Error ? err.message : 'Failed to create contact card',
+        variant: 'destructive'
+      })
+    } finally {
+      setSharing(false)
+    }
+  }
+
   const getStatusColor = (status: string): string => {
     switch (status.toLowerCase()) {
       case 'lead':
@@ -199,6 +245,7 @@ export function ClientDetailContent({ client }: ClientDetailContentProps) {
                   clientId={client.id}
                   clientName={`${client.first_name} ${client.last_name}`}
                   clientEmail={client.email}
+                  household={relationshipGraph.household}
                   trigger={
                     <Button variant="ghost" size="sm" className="h-6 px-2">
                       <Mail className="h-3 w-3" />
@@ -351,6 +398,20 @@ export function ClientDetailContent({ client }: ClientDetailContentProps) {
         </Card>
       </div>
 
+      {/* Relationships & Household */}
+      <ClientRelationships client={client} graph={relationshipGraph} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Lifecycle Stage & History */}
+        <ClientLifecycle client={client} />
+
+        {/* Buyer Search Criteria */}
+        <ClientSearchProfiles clientId={client.id} />
+      </div>
+
+      {/* Showings & Tours */}
+      <ShowingTours clientId={client.id} />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Upcoming Tasks */}
         <Card>
@@ -440,11 +501,22 @@ export function ClientDetailContent({ client }: ClientDetailContentProps) {
                 <Plus className="h-4 w-4 mr-2" />
                 Add Note
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="justify-start"
+                onClick={handleShareContact}
+                disabled={sharing}
+              >
+                {sharing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Share2 className="h-4 w-4 mr-2" />}
+                Share Contact
+              </Button>
               {client.email && (
                 <EmailDialog
                   clientId={client.id}
                   clientName={`${client.first_name} ${client.last_name}`}
                   clientEmail={client.email}
+                  household={relationshipGraph.household}
                   trigger={
                     <Button variant="outline" size="sm" className="justify-start">
                       <Mail className="h-4 w-4 mr-2" />
@@ -479,6 +551,9 @@ export function ClientDetailContent({ client }: ClientDetailContentProps) {
         <ActivityTimeline clientId={client.id} />
       </div>
 
+      {/* Communication Consent */}
+      <ClientCommunicationConsent clientId={client.id} />
+
       {/* Communication History Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <EmailHistory clientId={client.id} showClientName={false} />
@@ -1,5 +1,6 @@
 'use client'
 
+import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
@@ -15,6 +16,10 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Loader2, Save, X } from 'lucide-react'
 import { useClients, type Client } from '@/hooks/use-clients'
 import { useDeals } from '@/hooks/use-deals'
+import { usePipelines } from '@/hooks/use-pipelines'
+import { useCustomFields } from '@/hooks/use-custom-fields'
+import { CustomFieldInputs } from '@/components/shared/custom-field-inputs'
+import { validateCustomFieldValues, type CustomFieldValues } from '@/lib/custom-fields/fields'
 import { z } from 'zod'
 
 const clientSchema = z.object({
@@ -29,7 +34,7 @@ const clientSchema = z.object({
   dealTitle: z.string().optional(),
   dealValue: z.string().optional(),
   dealCommission: z.string().optional(),
-  dealStatus: z.enum(['Lead', 'In Progress', 'Under Contract', 'Closed', 'Lost']).default('Lead'),
+  dealStatus: z.string().optional(),
   expectedCloseDate: z.string().optional(),
   propertyAddress: z.string().optional(),
   propertyType: z.string().optional(),
@@ -49,6 +54,10 @@ export function ClientForm({ client, mode }: ClientFormProps) {
   const router = useRouter()
   const { createClient, updateClient } = useClients()
   const { createDeal } = useDeals()
+  const { defaultPipeline } = usePipelines()
+  const { fields: customFields } = useCustomFields('clients')
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>(client?.custom_fields ?? {})
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({})
 
   const form = useForm<ClientFormData>({
     resolver: zodResolver(clientSchema),
@@ -65,7 +74,7 @@ export function ClientForm({ client, mode }: ClientFormProps) {
       dealTitle: '',
       dealValue: '',
       dealCommission: '',
-      dealStatus: 'Lead',
+      dealStatus: '',
       expectedCloseDate: '',
       propertyAddress: '',
       propertyType: '',
@@ -81,13 +90,7 @@ export function ClientForm({ client, mode }: ClientFormProps) {
     { value: 'In Contract', label: 'In Contract' }
   ] as const
 
-  const dealStatusOptions = [
-    { value: 'Lead', label: 'Lead' },
-    { value: 'In Progress', label: 'In Progress' },
-    { value: 'Under Contract', label: 'Under Contract' },
-    { value: 'Closed', label: 'Closed' },
-    { value: 'Lost', label: 'Lost' }
-  ] as const
+  const dealStatusOptions = defaultPipeline.stages.map(stage => ({ value: stage.name, label: stage.name }))
 
   const propertyTypeOptions = [
     { value: 'Single Family', label: 'Single Family Home' },
@@ -100,6 +103,12 @@ export function ClientForm({ client, mode }: ClientFormProps) {
   ] as const
 
   const onSubmit = async (data: ClientFormData) => {
+    const customFieldResult = validateCustomFieldValues(customFields, customFieldValues)
+    setCustomFieldErrors(Object.fromEntries(
+      customFieldResult.errors.map(error => [error.field.replace('custom_fields.', ''), error.message])
+    ))
+    if (customFieldResult.errors.length > 0) return
+
     try {
             const clientData = {
         first_name: data.first_name.trim(),
@@ -108,7 +117,8 @@ export function ClientForm({ client, mode }: ClientFormProps) {
         phone: data.phone.trim(),
         address: (data.address || '').trim(),
         company: data.company?.trim() || '',
-        status: data.status
+        status: data.status,
+        custom_fields: customFieldValues
       }
 
       let clientResult
@@ -129,8 +139,8 @@ export function ClientForm({ client, mode }: ClientFormProps) {
           title: data.dealTitle.trim(),
           value: data.dealValue || '$0',
           commission: data.dealCommission || '$0',
-          status: data.dealStatus,
-          probability: 0,
+          // Empty status lets the API place the deal in the pipeline's first stage
+          status: data.dealStatus || undefined,
           expectedCloseDate: data.expectedCloseDate || undefined,
           property: {
             address: data.propertyAddress?.trim() || '',
@@ -317,6 +327,18 @@ export function ClientForm({ client, mode }: ClientFormProps) {
                 </div>
               </div>
 
+              {customFields.length > 0 && (
+                <div className="space-y-4">
+                  <h3 className="text-lg font-medium">Additional Details</h3>
+                  <CustomFieldInputs
+                    fields={customFields}
+                    values={customFieldValues}
+                    onChange={setCustomFieldValues}
+                    errors={customFieldErrors}
+                  />
+                </div>
+              )}
+
               {/* Deal Creation (only show for new clients) */}
               {mode === 'create' && (
                 <div className="space-y-4">
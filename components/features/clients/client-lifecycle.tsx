@@ -0,0 +1,117 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { History, Loader2 } from "lucide-react"
+import { useClientLifecycle } from "@/hooks/use-client-lifecycle"
+import {
+  LIFECYCLE_STAGES,
+  LIFECYCLE_TRIGGER_LABELS,
+  getClientLifecycleStage,
+  getLifecycleStageInfo,
+  type LifecycleStage
+} from "@/lib/clients/lifecycle"
+import { formatDate } from "@/lib/utils"
+import { type Client } from "@/lib/types"
+
+interface ClientLifecycleProps {
+  client: Client
+}
+
+/**
+ * The client's lifecycle stage, a manual override and the history of changes
+ */
+export function ClientLifecycle({ client }: ClientLifecycleProps) {
+  const { stage, history, loading, error, changeStage } = useClientLifecycle(client.id, getClientLifecycleStage(client))
+  const [nextStage, setNextStage] = useState<LifecycleStage | null>(null)
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    if (!nextStage) return
+    setSaving(true)
+    const changed = await changeStage(nextStage, reason.trim())
+    setSaving(false)
+    if (changed) {
+      setNextStage(null)
+      setReason('')
+    }
+  }
+
+  const info = getLifecycleStageInfo(stage)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Lifecycle
+          </CardTitle>
+          <Badge className={info.color} variant="secondary">{info.label}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Select value={nextStage || stage} onValueChange={value => setNextStage(value === stage ? null : value as LifecycleStage)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LIFECYCLE_STAGES.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {nextStage && (
+            <div className="flex gap-2">
+              <Input
+                placeholder="Reason (optional)"
+                value={reason}
+                onChange={e => setReason(e.target.value)}
+              />
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-2">No stage changes recorded yet</p>
+        ) : (
+          <ol className="space-y-3 border-l pl-4">
+            {history.map(entry => (
+              <li key={entry.id} className="text-sm">
+                <p className="font-medium">
+                  {entry.from_stage ? `${getLifecycleStageInfo(entry.from_stage).label} → ` : ''}
+                  {getLifecycleStageInfo(entry.to_stage).label}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {LIFECYCLE_TRIGGER_LABELS[entry.trigger] || entry.trigger} · {formatDate(entry.changed_at)}
+                </p>
+                {entry.reason && <p className="text-xs text-gray-600 mt-1">{entry.reason}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
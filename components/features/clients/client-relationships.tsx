@@ -0,0 +1,387 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Home, Loader2, MapPin, Network, Plus, Trash2, X } from "lucide-react"
+import { useClients } from "@/hooks/use-clients"
+import { type UseClientRelationshipsReturn } from "@/hooks/use-client-relationships"
+import {
+  RELATIONSHIP_TYPES,
+  getRelatedClientName,
+  getRelationshipTypeInfo,
+  suggestHouseholdName,
+  type RelatedClientSummary,
+  type RelationshipType
+} from "@/lib/clients/relationships"
+import { type Client } from "@/lib/types"
+
+interface ClientRelationshipsProps {
+  client: Client
+  // Shared with the detail page so email can go to the whole household
+  graph: UseClientRelationshipsReturn
+}
+
+interface GraphNode {
+  client: RelatedClientSummary
+  labels: string[]
+  inHousehold: boolean
+}
+
+const GRAPH_WIDTH = 420
+const GRAPH_HEIGHT = 280
+const GRAPH_RADIUS = 105
+
+function initialsOf(client: Pick<RelatedClientSummary, 'first_name' | 'last_name'>) {
+  return `${client.first_name?.[0] || ''}${client.last_name?.[0] || ''}`.toUpperCase() || '?'
+}
+
+/**
+ * A client's relationship graph and household, with controls to edit both
+ */
+export function ClientRelationships({ client, graph }: ClientRelationshipsProps) {
+  const router = useRouter()
+  const {
+    relationships,
+    household,
+    loading,
+    error,
+    addRelationship,
+    removeRelationship,
+    createHousehold,
+    updateHousehold
+  } = graph
+  const { clients: clientOptions } = useClients()
+
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [relatedClientId, setRelatedClientId] = useState('')
+  const [relationshipType, setRelationshipType] = useState<RelationshipType>('spouse_partner')
+  const [notes, setNotes] = useState('')
+  const [addToHousehold, setAddToHousehold] = useState(true)
+  const [newMemberId, setNewMemberId] = useState('')
+
+  const otherClients = clientOptions.filter(option => option.id !== client.id)
+  const householdMemberIds = new Set(household?.members.map(member => member.id) || [])
+
+  // One node per connected client; several links to the same person share a node
+  const nodes = useMemo(() => {
+    const byId = new Map<string, GraphNode>()
+    relationships.forEach(edge => {
+      const node = byId.get(edge.client.id) || { client: edge.client, labels: [], inHousehold: false }
+      node.labels.push(edge.label)
+      byId.set(edge.client.id, node)
+    })
+    household?.members.filter(member => member.id !== client.id).forEach(member => {
+      const node = byId.get(member.id) || { client: member, labels: [], inHousehold: false }
+      node.inHousehold = true
+      byId.set(member.id, node)
+    })
+    return Array.from(byId.values())
+  }, [relationships, household, client.id])
+
+  const resetDialog = () => {
+    setRelatedClientId('')
+    setRelationshipType('spouse_partner')
+    setNotes('')
+    setAddToHousehold(true)
+  }
+
+  const handleAddRelationship = async () => {
+    if (!relatedClientId) return
+    setSaving(true)
+    const added = await addRelationship({
+      relatedClientId,
+      type: relationshipType,
+      notes,
+      addToHousehold: getRelationshipTypeInfo(relationshipType).household && addToHousehold
+    })
+    setSaving(false)
+    if (added) {
+      setDialogOpen(false)
+      resetDialog()
+    }
+  }
+
+  const handleCreateHousehold = () => createHousehold(suggestHouseholdName(client), client.address || null, [])
+
+  const handleAddMember = async () => {
+    if (!newMemberId) return
+    if (await updateHousehold({ addMemberIds: [newMemberId] })) {
+      setNewMemberId('')
+    }
+  }
+
+  const renderGraph = () => {
+    const centerX = GRAPH_WIDTH / 2
+    const centerY = GRAPH_HEIGHT / 2
+
+    return (
+      <svg viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Relationship graph">
+        {nodes.map((node, index) => {
+          const angle = (2 * Math.PI * index) / nodes.length - Math.PI / 2
+          const x = centerX + GRAPH_RADIUS * 1.5 * Math.cos(angle)
+          const y = centerY + GRAPH_RADIUS * Math.sin(angle)
+          const label = node.labels.join(', ') || 'Household'
+
+          return (
+            <g
+              key={node.client.id}
+              className="cursor-pointer"
+              onClick={() => router.push(`/client/${node.client.id}`)}
+            >
+              <line
+                x1={centerX}
+                y1={centerY}
+                x2={x}
+                y2={y}
+                stroke={node.inHousehold ? '#2563eb' : '#94a3b8'}
+                strokeWidth={node.inHousehold ? 2 : 1.5}
+                strokeDasharray={node.labels.length === 0 ? '4 4' : undefined}
+              />
+              <text
+                x={(centerX + x) / 2}
+                y={(centerY + y) / 2 - 4}
+                textAnchor="middle"
+                className="fill-slate-500"
+                fontSize="10"
+              >
+                {label}
+              </text>
+              <circle cx={x} cy={y} r={18} className={node.inHousehold ? 'fill-blue-100 stroke-blue-600' : 'fill-slate-100 stroke-slate-400'} />
+              <text x={x} y={y + 4} textAnchor="middle" fontSize="11" fontWeight="600" className="fill-slate-700">
+                {initialsOf(node.client)}
+              </text>
+              <text x={x} y={y + 32} textAnchor="middle" fontSize="11" className="fill-slate-900">
+                {getRelatedClientName(node.client)}
+              </text>
+            </g>
+          )
+        })}
+        <circle cx={centerX} cy={centerY} r={24} className="fill-blue-600" />
+        <text x={centerX} y={centerY + 5} textAnchor="middle" fontSize="13" fontWeight="700" className="fill-white">
+          {initialsOf(client)}
+        </text>
+      </svg>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Network className="h-5 w-5" />
+            Relationships
+          </CardTitle>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-blue-600 border-blue-600 hover:bg-blue-600 hover:text-white"
+            onClick={() => setDialogOpen(true)}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Relationship
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              {nodes.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">No relationships yet</p>
+              ) : (
+                renderGraph()
+              )}
+              {relationships.length > 0 && (
+                <div className="space-y-2 mt-4">
+                  {relationships.map(edge => (
+                    <div key={edge.id} className="flex items-center justify-between text-sm">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">{edge.label}</Badge>
+                        <button
+                          className="hover:text-blue-600 hover:underline"
+                          onClick={() => router.push(`/client/${edge.client.id}`)}
+                        >
+                          {getRelatedClientName(edge.client)}
+                        </button>
+                        {edge.notes && <span className="text-gray-500 truncate max-w-[12rem]">{edge.notes}</span>}
+                      </div>
+                      <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => removeRelationship(edge.id)}>
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <h4 className="font-medium flex items-center gap-2">
+                <Home className="h-4 w-4 text-gray-500" />
+                Household
+              </h4>
+              {household ? (
+                <div className="space-y-3">
+                  <div>
+                    <p className="font-medium">{household.name}</p>
+                    {household.address && (
+                      <p className="text-sm text-gray-600 flex items-center gap-1">
+                        <MapPin className="h-3 w-3" />
+                        {household.address}
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    {household.members.map(member => (
+                      <div key={member.id} className="flex items-center justify-between text-sm">
+                        <span>
+                          {getRelatedClientName(member)}
+                          {member.email && <span className="text-gray-500 ml-2">{member.email}</span>}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2"
+                          onClick={() => updateHousehold({ removeMemberIds: [member.id] })}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <Select value={newMemberId} onValueChange={setNewMemberId}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Add a member" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {otherClients.filter(option => !householdMemberIds.has(option.id)).map(option => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {`${option.first_name} ${option.last_name}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" variant="outline" onClick={handleAddMember} disabled={!newMemberId}>
+                      Add
+                    </Button>
+                  </div>
+                  {household.address && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="px-0 text-blue-600"
+                      onClick={() => updateHousehold({ applyAddressToMembers: true })}
+                    >
+                      Use household address for all members
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <div className="text-center py-4 space-y-3">
+                  <p className="text-sm text-gray-500">Not part of a household</p>
+                  <Button size="sm" variant="outline" onClick={handleCreateHousehold}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Start Household
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => { setDialogOpen(open); if (!open) resetDialog() }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Relationship</DialogTitle>
+            <DialogDescription>
+              {`Link ${client.first_name} ${client.last_name} to another contact`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Contact</Label>
+              <Select value={relatedClientId} onValueChange={setRelatedClientId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherClients.map(option => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {`${option.first_name} ${option.last_name}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>They are this client's</Label>
+              <Select value={relationshipType} onValueChange={(value) => setRelationshipType(value as RelationshipType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RELATIONSHIP_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="relationship-notes">Notes</Label>
+              <Textarea
+                id="relationship-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g. Handles the closing for the Elm St sale"
+                rows={2}
+              />
+            </div>
+            {getRelationshipTypeInfo(relationshipType).household && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="relationship-household"
+                  checked={addToHousehold}
+                  onCheckedChange={(checked) => setAddToHousehold(checked === true)}
+                />
+                <Label htmlFor="relationship-household" className="font-normal">
+                  {household ? `Add them to ${household.name}` : 'Create a household for them both'}
+                </Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleAddRelationship} disabled={saving || !relatedClientId}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Relationship
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
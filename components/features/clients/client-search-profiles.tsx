@@ -0,0 +1,366 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Loader2, Mail, Pencil, Plus, Search, Trash2 } from "lucide-react"
+import { useSearchProfiles } from "@/hooks/use-search-profiles"
+import {
+  SEARCH_PROPERTY_TYPES,
+  SEARCH_TIMELINES,
+  describePriceRange,
+  getSearchPropertyTypeLabel,
+  type BuyerSearchProfile,
+  type SearchProfileInput,
+  type SearchPropertyType,
+  type SearchTimeline
+} from "@/lib/clients/search-criteria"
+
+interface ClientSearchProfilesProps {
+  clientId: string
+}
+
+interface ProfileFormState {
+  name: string
+  priceMin: string
+  priceMax: string
+  bedsMin: string
+  bathsMin: string
+  sqftMin: string
+  sqftMax: string
+  locations: string
+  propertyTypes: SearchPropertyType[]
+  features: string
+  timeline: string
+  notes: string
+}
+
+const EMPTY_FORM: ProfileFormState = {
+  name: '',
+  priceMin: '',
+  priceMax: '',
+  bedsMin: '',
+  bathsMin: '',
+  sqftMin: '',
+  sqftMax: '',
+  locations: '',
+  propertyTypes: [],
+  features: '',
+  timeline: '__none',
+  notes: ''
+}
+
+function toForm(profile: BuyerSearchProfile): ProfileFormState {
+  const text = (value: number | null) => value === null ? '' : String(value)
+  return {
+    name: profile.name,
+    priceMin: text(profile.price_min),
+    priceMax: text(profile.price_max),
+    bedsMin: text(profile.beds_min),
+    bathsMin: text(profile.baths_min),
+    sqftMin: text(profile.sqft_min),
+    sqftMax: text(profile.sqft_max),
+    locations: profile.locations.join(', '),
+    propertyTypes: profile.property_types,
+    features: profile.must_have_features.join(', '),
+    timeline: profile.timeline || '__none',
+    notes: profile.notes || ''
+  }
+}
+
+function fromForm(form: ProfileFormState): SearchProfileInput {
+  const number = (value: string) => value.trim() === '' ? null : Number(value)
+  const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean)
+  return {
+    name: form.name,
+    price_min: number(form.priceMin),
+    price_max: number(form.priceMax),
+    beds_min: number(form.bedsMin),
+    baths_min: number(form.bathsMin),
+    sqft_min: number(form.sqftMin),
+    sqft_max: number(form.sqftMax),
+    locations: list(form.locations),
+    property_types: form.propertyTypes,
+    must_have_features: list(form.features),
+    timeline: form.timeline === '__none' ? null : form.timeline as SearchTimeline,
+    notes: form.notes.trim() || null
+  }
+}
+
+function criteriaBadges(profile: BuyerSearchProfile): string[] {
+  const badges: string[] = []
+  const price = describePriceRange(profile)
+  if (price) badges.push(price)
+  if (profile.beds_min) badges.push(`${profile.beds_min}+ beds`)
+  if (profile.baths_min) badges.push(`${profile.baths_min}+ baths`)
+  if (profile.sqft_min || profile.sqft_max) {
+    badges.push(`${profile.sqft_min?.toLocaleString() || 'Any'} - ${profile.sqft_max?.toLocaleString() || 'Any'} sqft`)
+  }
+  badges.push(...profile.property_types.map(getSearchPropertyTypeLabel))
+  badges.push(...profile.locations)
+  return badges
+}
+
+/**
+ * Saved buyer search criteria for a client, used to suggest them for new listings
+ */
+export function ClientSearchProfiles({ clientId }: ClientSearchProfilesProps) {
+  const { profiles, loading, error, createProfile, updateProfile, deleteProfile } = useSearchProfiles(clientId)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<BuyerSearchProfile | null>(null)
+  const [form, setForm] = useState<ProfileFormState>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  const openCreate = () => {
+    setEditing(null)
+    setForm(EMPTY_FORM)
+    setDialogOpen(true)
+  }
+
+  const openEdit = (profile: BuyerSearchProfile) => {
+    setEditing(profile)
+    setForm(toForm(profile))
+    setDialogOpen(true)
+  }
+
+  const toggleType = (type: SearchPropertyType, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      propertyTypes: checked ? [...prev.propertyTypes, type] : prev.propertyTypes.filter(value => value !== type)
+    }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    const input = fromForm(form)
+    const saved = editing ? await updateProfile(editing.id, input) : await createProfile(input)
+    setSaving(false)
+    if (saved) setDialogOpen(false)
+  }
+
+  const handleDelete = async (profile: BuyerSearchProfile) => {
+    if (!confirm(`Delete the "${profile.name}" search profile?`)) return
+    await deleteProfile(profile.id)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Search className="h-5 w-5" />
+            Buyer Search Profiles
+          </CardTitle>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-blue-600 border-blue-600 hover:bg-blue-600 hover:text-white"
+            onClick={openCreate}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Profile
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && !dialogOpen && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : profiles.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No search criteria saved. Add a profile to get this client suggested for matching listings.
+          </p>
+        ) : (
+          profiles.map(profile => (
+            <div key={profile.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <p className="font-medium truncate">{profile.name}</p>
+                  {profile.source === 'email_extraction' && (
+                    <Badge variant="outline" className="gap-1">
+                      <Mail className="h-3 w-3" />
+                      From email
+                    </Badge>
+                  )}
+                  {profile.timeline && (
+                    <Badge variant="secondary">
+                      {SEARCH_TIMELINES.find(option => option.value === profile.timeline)?.label}
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Switch
+                    checked={profile.is_active}
+                    onCheckedChange={checked => updateProfile(profile.id, { is_active: checked })}
+                    aria-label="Use for listing matches"
+                  />
+                  <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openEdit(profile)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleDelete(profile)}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {criteriaBadges(profile).map(badge => (
+                  <Badge key={badge} variant="outline" className="font-normal">{badge}</Badge>
+                ))}
+              </div>
+              {profile.must_have_features.length > 0 && (
+                <p className="text-xs text-gray-500">Must have: {profile.must_have_features.join(', ')}</p>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Search Profile' : 'New Search Profile'}</DialogTitle>
+            <DialogDescription>
+              Listings are scored against every active profile. Leave a field blank to ignore it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                placeholder="Home search"
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="profile-price-min">Min Price</Label>
+                <Input id="profile-price-min" type="number" min={0} value={form.priceMin}
+                  onChange={e => setForm({ ...form, priceMin: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-price-max">Max Price</Label>
+                <Input id="profile-price-max" type="number" min={0} value={form.priceMax}
+                  onChange={e => setForm({ ...form, priceMax: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-beds">Min Beds</Label>
+                <Input id="profile-beds" type="number" min={0} value={form.bedsMin}
+                  onChange={e => setForm({ ...form, bedsMin: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-baths">Min Baths</Label>
+                <Input id="profile-baths" type="number" min={0} step={0.5} value={form.bathsMin}
+                  onChange={e => setForm({ ...form, bathsMin: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-sqft-min">Min Sqft</Label>
+                <Input id="profile-sqft-min" type="number" min={0} value={form.sqftMin}
+                  onChange={e => setForm({ ...form, sqftMin: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-sqft-max">Max Sqft</Label>
+                <Input id="profile-sqft-max" type="number" min={0} value={form.sqftMax}
+                  onChange={e => setForm({ ...form, sqftMax: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-locations">Locations</Label>
+              <Input
+                id="profile-locations"
+                placeholder="Austin, Round Rock, 78704"
+                value={form.locations}
+                onChange={e => setForm({ ...form, locations: e.target.value })}
+              />
+              <p className="text-xs text-gray-500">Cities, neighbourhoods or zip codes, separated by commas</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Property Types</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {SEARCH_PROPERTY_TYPES.map(type => (
+                  <label key={type.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.propertyTypes.includes(type.value)}
+                      onCheckedChange={checked => toggleType(type.value, checked === true)}
+                    />
+                    {type.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-features">Must-Have Features</Label>
+              <Input
+                id="profile-features"
+                placeholder="Garage, Pool, Fenced"
+                value={form.features}
+                onChange={e => setForm({ ...form, features: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Timeline</Label>
+              <Select value={form.timeline} onValueChange={timeline => setForm({ ...form, timeline })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__none">Not specified</SelectItem>
+                  {SEARCH_TIMELINES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-notes">Notes</Label>
+              <Textarea
+                id="profile-notes"
+                rows={2}
+                value={form.notes}
+                onChange={e => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? 'Save Changes' : 'Create Profile'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
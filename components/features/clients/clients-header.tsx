@@ -1,8 +1,8 @@
 "use client"
 
-import { useState, useRef } from "react"
+import { useState } from "react"
 import { useRouter } from "next/navigation"
-import { Search, Plus, Filter, Download, X, ArrowUpDown, ArrowUp, ArrowDown, Upload, FileText, Sparkles } from "lucide-react"
+import { Search, Plus, Filter, Download, X, ArrowUpDown, ArrowUp, ArrowDown, Upload, FileText, Sparkles, Users, Contact, Target, HeartHandshake, ShieldCheck } from "lucide-react"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { SidebarTrigger } from "@/components/ui/sidebar"
@@ -17,33 +17,51 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { Badge } from "@/components/ui/badge"
 import { SmartImportDialog } from "@/components/features/clients/smart-import-dialog"
+import { CsvImportDialog } from "@/components/shared/csv-import-dialog"
+import { ListingMatchDialog } from "@/components/features/clients/listing-matches"
+import { CustomFieldFilters, countCustomFieldFilters } from "@/components/shared/custom-field-filters"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useCustomFields } from "@/hooks/use-custom-fields"
+import type { CustomFieldFilter } from "@/lib/custom-fields/fields"
+import { LIFECYCLE_STAGES, getLifecycleStageInfo, isLifecycleStage } from "@/lib/clients/lifecycle"
 
 interface ClientsHeaderProps {
   onSearchChange: (search: string) => void
   onStatusFilter: (status: string) => void
+  onLifecycleStageFilter?: (stage: string) => void
+  onCustomFieldFilterChange?: (filters: CustomFieldFilter[]) => void
   onSortChange?: (sortBy: string, sortOrder: 'asc' | 'desc') => void
-  onExport?: () => void
-  onImport?: (file: File) => void
+  onExport?: (format: 'csv' | 'vcf') => void
+  onImported?: () => void
   currentSearch: string
   currentStatus: string
+  currentLifecycleStage?: string
   currentSort?: { field: string; order: 'asc' | 'desc' }
+  currentCustomFieldFilters?: CustomFieldFilter[]
   totalCount: number
 }
 
 export function ClientsHeader({ 
   onSearchChange, 
   onStatusFilter, 
+  onLifecycleStageFilter,
+  onCustomFieldFilterChange,
   onSortChange,
   onExport,
-  onImport,
+  onImported,
   currentSearch, 
   currentStatus, 
+  currentLifecycleStage = '',
   currentSort,
+  currentCustomFieldFilters = [],
   totalCount 
 }: ClientsHeaderProps) {
   const router = useRouter()
+  const { fields: customFields } = useCustomFields('clients')
+  const activeCustomFieldFilters = countCustomFieldFilters(currentCustomFieldFilters)
   const [searchValue, setSearchValue] = useState(currentSearch)
-  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [csvImportOpen, setCsvImportOpen] = useState(false)
+  const [listingMatchOpen, setListingMatchOpen] = useState(false)
 
   const statusOptions = [
     { value: '', label: 'All Status', count: totalCount },
@@ -85,28 +103,9 @@ export function ClientsHeader({
     router.push('/clients/new')
   }
 
-  const handleExport = () => {
+  const handleExport = (format: 'csv' | 'vcf') => {
     if (onExport) {
-      onExport()
-    }
-  }
-
-  const handleImportClick = () => {
-    fileInputRef.current?.click()
-  }
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file && onImport) {
-      if (file.type !== 'text/csv') {
-        alert('Please select a CSV file')
-        return
-      }
-      onImport(file)
-    }
-    // Reset the input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = ''
+      onExport(format)
     }
   }
 
@@ -142,6 +141,7 @@ export function ClientsHeader({
             <p className="text-xs sm:text-sm text-gray-500 mt-1 truncate">
               {totalCount} {totalCount === 1 ? 'client' : 'clients'}
               {currentStatus && ` · ${currentStatus}`}
+              {isLifecycleStage(currentLifecycleStage) && ` · ${getLifecycleStageInfo(currentLifecycleStage).label}`}
               {currentSearch && ` · Search: "${currentSearch}"`}
             </p>
           </div>
@@ -210,10 +210,28 @@ export function ClientsHeader({
                   </div>
                 </DropdownMenuItem>
               ))}
-              {currentStatus && (
+              {onLifecycleStageFilter && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Filter by Stage</DropdownMenuLabel>
+                  {LIFECYCLE_STAGES.map((stage) => (
+                    <DropdownMenuItem
+                      key={stage.value}
+                      onClick={() => onLifecycleStageFilter(currentLifecycleStage === stage.value ? '' : stage.value)}
+                      className={currentLifecycleStage === stage.value ? 'bg-blue-50' : ''}
+                    >
+                      {stage.label}
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
+              {(currentStatus || currentLifecycleStage) && (
                 <>
                   <DropdownMenuSeparator />
-                  <DropdownMenuItem onClick={() => handleStatusSelect('')}>
+                  <DropdownMenuItem onClick={() => {
+                    handleStatusSelect('')
+                    onLifecycleStageFilter?.('')
+                  }}>
                     <X className="h-4 w-4 mr-2" />
                     Clear Filter
                   </DropdownMenuItem>
@@ -222,6 +240,41 @@ export function ClientsHeader({
             </DropdownMenuContent>
           </DropdownMenu>
 
+          {/* Custom Field Filters */}
+          {onCustomFieldFilterChange && customFields.length > 0 && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="flex-shrink-0">
+                  <Filter className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Fields</span>
+                  {activeCustomFieldFilters > 0 && (
+                    <Badge variant="secondary" className="ml-2 hidden sm:inline-flex">
+                      {activeCustomFieldFilters}
+                    </Badge>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-80" align="end">
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-medium">Filter by Custom Fields</h3>
+                    {activeCustomFieldFilters > 0 && (
+                      <Button variant="ghost" size="sm" onClick={() => onCustomFieldFilterChange([])}>
+                        <X className="h-4 w-4 mr-1" />
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+                  <CustomFieldFilters
+                    fields={customFields}
+                    filters={currentCustomFieldFilters}
+                    onChange={onCustomFieldFilterChange}
+                  />
+                </div>
+              </PopoverContent>
+            </Popover>
+          )}
+
           {/* Sort Options */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -280,9 +333,25 @@ export function ClientsHeader({
                 <FileText className="h-4 w-4 mr-2" />
                 Download Template
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={handleImportClick}>
+              <DropdownMenuItem onClick={() => setCsvImportOpen(true)}>
                 <Upload className="h-4 w-4 mr-2" />
-                Upload CSV File
+                Import CSV File
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => router.push('/clients/duplicates')}>
+                <Users className="h-4 w-4 mr-2" />
+                Review Duplicates
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => router.push('/clients/sphere')}>
+                <HeartHandshake className="h-4 w-4 mr-2" />
+                Sphere Check-ins
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => router.push('/clients/consent')}>
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Consent Report
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setListingMatchOpen(true)}>
+                <Target className="h-4 w-4 mr-2" />
+                Match a Listing
               </DropdownMenuItem>
               <DropdownMenuSeparator />
               <div className="px-2 py-1">
@@ -301,19 +370,35 @@ export function ClientsHeader({
               </div>
             </DropdownMenuContent>
           </DropdownMenu>
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".csv"
-            onChange={handleFileChange}
-            style={{ display: 'none' }}
+          <CsvImportDialog
+            entity="clients"
+            open={csvImportOpen}
+            onOpenChange={setCsvImportOpen}
+            onImported={onImported}
           />
+          <ListingMatchDialog open={listingMatchOpen} onOpenChange={setListingMatchOpen} />
 
           {/* Export */}
-          <Button variant="outline" size="sm" onClick={handleExport} className="hidden sm:flex flex-shrink-0">
-            <Download className="h-4 w-4 mr-2" />
-            Export
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="hidden sm:flex flex-shrink-0">
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48">
+              <DropdownMenuLabel>Export filtered clients</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => handleExport('csv')}>
+                <FileText className="h-4 w-4 mr-2" />
+                CSV File
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('vcf')}>
+                <Contact className="h-4 w-4 mr-2" />
+                vCard (.vcf)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
 
           {/* Add Client */}
           <Button 
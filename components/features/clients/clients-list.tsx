@@ -11,19 +11,23 @@ import { VirtualList } from "@/components/shared/virtual-list"
 import { MoreHorizontal, Phone, Mail, MapPin, Loader2, AlertCircle, MessageSquare } from "lucide-react"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { useClients } from "@/hooks/use-clients"
+import type { CustomFieldFilter } from "@/lib/custom-fields/fields"
+import { getClientLifecycleStage, getLifecycleStageInfo } from "@/lib/clients/lifecycle"
 import { SmsDialog } from "@/components/features/messaging/sms-dialog"
 import { EmailDialog } from "@/components/features/messaging/email-dialog"
 
 interface ClientsListProps {
   search?: string
   status?: string
+  lifecycleStage?: string
   page?: number
   limit?: number
   sortBy?: string
   sortOrder?: 'asc' | 'desc'
+  customFieldFilters?: CustomFieldFilter[]
 }
 
-export function ClientsList({ search = '', status = '', page = 1, limit = 10, sortBy = 'name', sortOrder = 'asc' }: ClientsListProps) {
+export function ClientsList({ search = '', status = '', lifecycleStage = '', page = 1, limit = 10, sortBy = 'name', sortOrder = 'asc', customFieldFilters }: ClientsListProps) {
   const router = useRouter()
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [containerHeight, setContainerHeight] = useState(800) // Default height for SSR
@@ -31,10 +35,12 @@ export function ClientsList({ search = '', status = '', page = 1, limit = 10, so
   const { clients, loading, error, deleteClient } = useClients({
     search,
     status,
+    lifecycleStage,
     page,
     limit: Math.max(limit, 50), // Increase batch size for virtualization
     sortBy,
-    sortOrder
+    sortOrder,
+    customFieldFilters
   })
 
   // Measure container height after mount (client-side only)
@@ -94,6 +100,9 @@ export function ClientsList({ search = '', status = '', page = 1, limit = 10, so
                 <Badge className={client.statusColor} variant="secondary">
                   {client.status}
                 </Badge>
+                <Badge className={getLifecycleStageInfo(getClientLifecycleStage(client)).color} variant="secondary">
+                  {getLifecycleStageInfo(getClientLifecycleStage(client)).label}
+                </Badge>
               </div>
 
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-2 text-sm text-gray-600">
@@ -216,7 +225,7 @@ export function ClientsList({ search = '', status = '', page = 1, limit = 10, so
       <div className="text-center py-12">
         <p className="text-gray-500 text-lg">No clients found</p>
         <p className="text-gray-400 text-sm mt-2">
-          {search || status ? "Try adjusting your filters" : "Start by adding your first client"}
+          {search || status || lifecycleStage ? "Try adjusting your filters" : "Start by adding your first client"}
         </p>
       </div>
     )
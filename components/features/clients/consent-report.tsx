@@ -0,0 +1,140 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download, Loader2 } from "lucide-react"
+import { getConsentReportCsvUrl, useConsentReport } from "@/hooks/use-client-consent"
+import {
+  CONSENT_CHANNELS,
+  CONSENT_SOURCE_LABELS,
+  getConsentChannelLabel,
+  type ConsentChannel
+} from "@/lib/clients/consent"
+
+function describeStatus(status: string | null) {
+  if (status === 'opted_in') return 'Opted in'
+  if (status === 'opted_out') return 'Opted out'
+  return 'Not recorded'
+}
+
+/**
+ * Consent change log with channel and date filters, exportable as CSV
+ */
+export function ConsentReport() {
+  const [channel, setChannel] = useState<ConsentChannel | '__any'>('__any')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const filters = { channel: channel === '__any' ? undefined : channel, from: from || undefined, to: to || undefined }
+  const { events, summary, loading, error } = useConsentReport(filters)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-3 lg:flex-row lg:items-end lg:justify-between">
+          <CardTitle className="text-lg">
+            Consent changes
+            {!loading && <Badge variant="outline" className="ml-2">{summary.total}</Badge>}
+          </CardTitle>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Channel</Label>
+              <Select value={channel} onValueChange={value => setChannel(value as ConsentChannel | '__any')}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__any">All channels</SelectItem>
+                  {CONSENT_CHANNELS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="consent-from" className="text-xs">From</Label>
+              <Input id="consent-from" type="date" value={from} onChange={e => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="consent-to" className="text-xs">To</Label>
+              <Input id="consent-to" type="date" value={to} onChange={e => setTo(e.target.value)} />
+            </div>
+            <Button variant="outline" asChild>
+              <a href={getConsentReportCsvUrl(filters)}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">No consent changes in this period</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-4">
+              {summary.opted_out} opt-outs · {summary.opted_in} opt-ins
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium">Client</th>
+                    <th className="py-2 pr-4 font-medium">Channel</th>
+                    <th className="py-2 pr-4 font-medium">Change</th>
+                    <th className="py-2 pr-4 font-medium">Source</th>
+                    <th className="py-2 font-medium">Consent text</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {events.map(event => (
+                    <tr key={event.id} className="align-top">
+                      <td className="py-2 pr-4 whitespace-nowrap">{new Date(event.recorded_at).toLocaleString()}</td>
+                      <td className="py-2 pr-4">
+                        {event.client ? (
+                          <Link href={`/client/${event.client.id}`} className="hover:underline">
+                            {`${event.client.first_name || ''} ${event.client.last_name || ''}`.trim() || 'Unnamed client'}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-500">Deleted client</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">{getConsentChannelLabel(event.channel)}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        <span className="text-gray-500">{describeStatus(event.from_status)}</span>
+                        {' → '}
+                        <span className={event.to_status === 'opted_out' ? 'text-red-700' : 'text-green-700'}>
+                          {describeStatus(event.to_status)}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4">{CONSENT_SOURCE_LABELS[event.source] || event.source}</td>
+                      <td className="py-2 text-gray-600 max-w-xs truncate">{event.consent_text || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
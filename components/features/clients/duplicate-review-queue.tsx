@@ -0,0 +1,277 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { RefreshCw, Undo2, X, Check } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { formatDate } from "@/lib/utils"
+import { DUPLICATE_REASON_LABELS, type DuplicateReason } from "@/lib/clients/duplicates"
+
+interface QueueClient {
+  id: string
+  first_name: string | null
+  last_name: string | null
+  email: string | null
+  phone: string | null
+  address: string | null
+  company: string | null
+  status: string | null
+  created_at: string
+  last_contact: string | null
+}
+
+interface DuplicatePair {
+  id: string
+  reasons: DuplicateReason[]
+  score: number
+  client: QueueClient
+  duplicate: QueueClient
+}
+
+interface RecentMerge {
+  id: string
+  merged_at: string
+  survivor: { id: string; first_name: string | null; last_name: string | null } | null
+  duplicate: { id: string; first_name: string | null; last_name: string | null } | null
+}
+
+const COMPARED_FIELDS: { key: keyof QueueClient; label: string }[] = [
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'address', label: 'Address' },
+  { key: 'company', label: 'Company' },
+  { key: 'status', label: 'Status' }
+]
+
+function displayName(client: { first_name: string | null; last_name: string | null } | null) {
+  if (!client) return 'Unknown client'
+  return `${client.first_name || ''} ${client.last_name || ''}`.trim() || 'Unnamed client'
+}
+
+export function DuplicateReviewQueue() {
+  const [duplicates, setDuplicates] = useState<DuplicatePair[]>([])
+  const [merges, setMerges] = useState<RecentMerge[]>([])
+  const [loading, setLoading] = useState(true)
+  const [scanning, setScanning] = useState(false)
+  const [workingId, setWorkingId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await fetch('/api/clients/duplicates', { credentials: 'include' })
+      if (response.ok) {
+        const data = await response.json()
+        setDuplicates(data.duplicates || [])
+        setMerges(data.merges || [])
+      }
+    } catch (error) {
+      console.error('Error fetching duplicate clients:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  const scan = async () => {
+    setScanning(true)
+    try {
+      const response = await fetch('/api/clients/duplicates', { method: 'POST', credentials: 'include' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to scan for duplicates')
+
+      await fetchQueue()
+      toast({ title: 'Scan complete', description: `${data.found} likely duplicate pairs found.` })
+    } catch (error) {
+      toast({
+        title: 'Could not scan clients',
+        description: error instanceof Error ? error.message : 'Failed to scan for duplicates',
+        variant: 'destructive'
+      })
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const merge = async (pair: DuplicatePair, survivor: QueueClient, duplicate: QueueClient) => {
+    setWorkingId(pair.id)
+    try {
+      const response = await fetch('/api/clients/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ survivor_id: survivor.id, duplicate_id: duplicate.id })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to merge clients')
+
+      await fetchQueue()
+      toast({ title: 'Clients merged', description: `${displayName(duplicate)} was merged into ${displayName(survivor)}.` })
+    } catch (error) {
+      toast({
+        title: 'Could not merge clients',
+        description: error instanceof Error ? error.message : 'Failed to merge clients',
+        variant: 'destructive'
+      })
+    } finally {
+      setWorkingId(null)
+    }
+  }
+
+  const dismiss = async (pair: DuplicatePair) => {
+    setWorkingId(pair.id)
+    try {
+      const response = await fetch('/api/clients/duplicates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ id: pair.id })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to dismiss duplicate')
+
+      setDuplicates(current => current.filter(item => item.id !== pair.id))
+    } catch (error) {
+      toast({
+        title: 'Could not dismiss duplicate',
+        description: error instanceof Error ? error.message : 'Failed to dismiss duplicate',
+        variant: 'destructive'
+      })
+    } finally {
+      setWorkingId(null)
+    }
+  }
+
+  const undo = async (recent: RecentMerge) => {
+    setWorkingId(recent.id)
+    try {
+      const response = await fetch(`/api/clients/merge?id=${recent.id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to undo merge')
+
+      await fetchQueue()
+      toast({ title: 'Merge undone', description: `${displayName(recent.duplicate)} has been restored.` })
+    } catch (error) {
+      toast({
+        title: 'Could not undo merge',
+        description: error instanceof Error ? error.message : 'Failed to undo merge',
+        variant: 'destructive'
+      })
+    } finally {
+      setWorkingId(null)
+    }
+  }
+
+  const renderClient = (pair: DuplicatePair, client: QueueClient, other: QueueClient) => (
+    <div className="flex-1 min-w-0 rounded-lg border p-3 space-y-2">
+      <div>
+        <div className="font-medium truncate">{displayName(client)}</div>
+        <div className="text-xs text-gray-500">Added {formatDate(client.created_at)}</div>
+      </div>
+      <dl className="space-y-1 text-sm">
+        {COMPARED_FIELDS.map(({ key, label }) => (
+          <div key={key} className="flex gap-2">
+            <dt className="w-20 flex-shrink-0 text-gray-500">{label}</dt>
+            <dd className={`truncate ${client[key] !== other[key] ? 'text-amber-700' : ''}`}>
+              {client[key] || '—'}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        onClick={() => merge(pair, client, other)}
+        disabled={workingId === pair.id}
+      >
+        <Check className="h-4 w-4 mr-1" />
+        Keep this record
+      </Button>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">Review Queue</CardTitle>
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary">{duplicates.length} pending</Badge>
+              <Button size="sm" variant="outline" onClick={scan} disabled={scanning}>
+                <RefreshCw className={`h-4 w-4 mr-1 ${scanning ? 'animate-spin' : ''}`} />
+                Scan all clients
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading duplicates...</p>
+          ) : duplicates.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No likely duplicates. New clients are checked automatically as they arrive.
+            </p>
+          ) : (
+            duplicates.map((pair) => (
+              <div key={pair.id} className="space-y-2 border-b pb-4 last:border-b-0 last:pb-0">
+                <div className="flex items-center justify-between">
+                  <div className="flex flex-wrap items-center gap-1">
+                    {pair.reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary" className="bg-blue-100 text-blue-800">
+                        {DUPLICATE_REASON_LABELS[reason]}
+                      </Badge>
+                    ))}
+                    <span className="text-xs text-gray-500 ml-1">{Math.round(pair.score * 100)}% match</span>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => dismiss(pair)} disabled={workingId === pair.id}>
+                    <X className="h-4 w-4 mr-1" />
+                    Not a duplicate
+                  </Button>
+                </div>
+                <div className="flex flex-col md:flex-row gap-3">
+                  {renderClient(pair, pair.client, pair.duplicate)}
+                  {renderClient(pair, pair.duplicate, pair.client)}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {merges.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Recent Merges</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {merges.map((recent) => (
+                <div key={recent.id} className="flex items-center justify-between p-2 rounded-lg hover:bg-gray-50">
+                  <div className="text-sm">
+                    <span className="font-medium">{displayName(recent.duplicate)}</span>
+                    {' '}merged into{' '}
+                    <span className="font-medium">{displayName(recent.survivor)}</span>
+                    <span className="text-xs text-gray-500 ml-2">{formatDate(recent.merged_at)}</span>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => undo(recent)} disabled={workingId === recent.id}>
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Undo
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Loader2, Target } from "lucide-react"
+import { useListingMatches } from "@/hooks/use-search-profiles"
+import { SEARCH_PROPERTY_TYPES, type ListingMatch } from "@/lib/clients/search-criteria"
+import type { PropertyDetails } from "@/lib/smart-import/types"
+
+interface ListingMatchesProps {
+  listing: PropertyDetails
+}
+
+interface ListingMatchDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function scoreColor(score: number) {
+  if (score >= 80) return 'bg-green-100 text-green-800'
+  if (score >= 65) return 'bg-blue-100 text-blue-800'
+  return 'bg-yellow-100 text-yellow-800'
+}
+
+function MatchList({ matches }: { matches: ListingMatch[] }) {
+  if (matches.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-3">
+        No active buyer search profiles fit this listing
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {matches.map(match => (
+        <div key={match.profile_id} className="border rounded-lg p-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <Link href={`/client/${match.client.id}`} className="font-medium hover:underline">
+                {`${match.client.first_name || ''} ${match.client.last_name || ''}`.trim() || 'Unnamed client'}
+              </Link>
+              <p className="text-xs text-gray-500 truncate">
+                {match.profile_name}{match.client.email ? ` · ${match.client.email}` : ''}
+              </p>
+            </div>
+            <Badge className={scoreColor(match.score)}>{match.score}%</Badge>
+          </div>
+          {match.reasons.length > 0 && (
+            <p className="text-xs text-green-700 mt-2">{match.reasons.join(' · ')}</p>
+          )}
+          {match.misses.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1">{match.misses.join(' · ')}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Buyer clients to send a parsed listing to
+ */
+export function ListingMatches({ listing }: ListingMatchesProps) {
+  const { matches, loading, error, findMatches } = useListingMatches()
+
+  useEffect(() => {
+    findMatches(listing)
+  }, [listing, findMatches])
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        <Target className="h-4 w-4" />
+        Suggested Buyers
+      </Label>
+      {error ? (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : loading ? (
+        <div className="flex justify-center py-3">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <MatchList matches={matches} />
+      )}
+    </div>
+  )
+}
+
+/**
+ * Enter a listing by hand and see which buyers it suits
+ */
+export function ListingMatchDialog({ open, onOpenChange }: ListingMatchDialogProps) {
+  const { matches, loading, error, findMatches } = useListingMatches()
+  const [searched, setSearched] = useState(false)
+  const [address, setAddress] = useState('')
+  const [price, setPrice] = useState('')
+  const [bedrooms, setBedrooms] = useState('')
+  const [bathrooms, setBathrooms] = useState('')
+  const [sqft, setSqft] = useState('')
+  const [propertyType, setPropertyType] = useState('__any')
+  const [features, setFeatures] = useState('')
+
+  const handleMatch = async () => {
+    const number = (value: string) => value.trim() === '' ? undefined : Number(value)
+    await findMatches({
+      address: address.trim(),
+      price: number(price),
+      bedrooms: number(bedrooms),
+      bathrooms: number(bathrooms),
+      sqft: number(sqft),
+      propertyType: propertyType === '__any' ? undefined : propertyType,
+      features: features.split(',').map(feature => feature.trim()).filter(Boolean)
+    })
+    setSearched(true)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Match a Listing</DialogTitle>
+          <DialogDescription>
+            Score a listing against every active buyer search profile
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="listing-address">Address</Label>
+            <Input
+              id="listing-address"
+              placeholder="123 Main St, Austin, TX 78704"
+              value={address}
+              onChange={e => setAddress(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="listing-price">Price</Label>
+              <Input id="listing-price" type="number" min={0} value={price} onChange={e => setPrice(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Property Type</Label>
+              <Select value={propertyType} onValueChange={setPropertyType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__any">Not specified</SelectItem>
+                  {SEARCH_PROPERTY_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="listing-beds">Bedrooms</Label>
+              <Input id="listing-beds" type="number" min={0} value={bedrooms} onChange={e => setBedrooms(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="listing-baths">Bathrooms</Label>
+              <Input id="listing-baths" type="number" min={0} step={0.5} value={bathrooms} onChange={e => setBathrooms(e.target.value)} />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="listing-sqft">Square Feet</Label>
+              <Input id="listing-sqft" type="number" min={0} value={sqft} onChange={e => setSqft(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="listing-features">Features</Label>
+            <Textarea
+              id="listing-features"
+              rows={2}
+              placeholder="Garage, Pool, Fireplace"
+              value={features}
+              onChange={e => setFeatures(e.target.value)}
+            />
+          </div>
+
+          <Button onClick={handleMatch} disabled={loading || !address.trim()} className="w-full">
+            {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Target className="h-4 w-4 mr-2" />}
+            Find Buyers
+          </Button>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {searched && !loading && !error && <MatchList matches={matches} />}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -27,10 +27,12 @@ import {
   Sparkles,
   Users,
   Building,
-  Clock
+  Clock,
+  Contact
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { BusinessCardData, PropertyDetails, CalendarEvent } from '@/lib/smart-import/types'
+import { ListingMatches } from '@/components/features/clients/listing-matches'
 
 interface SmartImportDialogProps {
   onClientCreated?: (client: any) => void
@@ -39,7 +41,9 @@ interface SmartImportDialogProps {
   trigger?: React.ReactNode
 }
 
-type ImportType = 'business-card' | 'email' | 'calendar'
+type ImportType = 'business-card' | 'vcard' | 'email' | 'calendar'
+
+type VCardContact = BusinessCardData & { missingFields: string[] }
 type ProcessingStep = 'idle' | 'uploading' | 'processing' | 'analyzing' | 'creating' | 'complete'
 
 interface ProcessingState {
@@ -71,6 +75,11 @@ export function SmartImportDialog({
   const [businessCardPreview, setBusinessCardPreview] = useState<string | null>(null)
   const [extractedContactData, setExtractedContactData] = useState<BusinessCardData | null>(null)
 
+  // vCard states
+  const [vcardFile, setVcardFile] = useState<File | null>(null)
+  const [vcardContacts, setVcardContacts] = useState<VCardContact[]>([])
+  const [selectedContacts, setSelectedContacts] = useState<number[]>([])
+
   // Email states
   const [emailContent, setEmailContent] = useState('')
   const [emailMetadata, setEmailMetadata] = useState({
@@ -84,6 +93,8 @@ export function SmartImportDialog({
   const [calendarProvider, setCalendarProvider] = useState<'google' | 'outlook'>('google')
   const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([])
   const [selectedEvents, setSelectedEvents] = useState<string[]>([])
+  // Set when the events came from an uploaded .ics file rather than a connected calendar
+  const [calendarFile, setCalendarFile] = useState<File | null>(null)
 
   const businessCardInputRef = useRef<HTMLInputElement>(null)
 
@@ -98,10 +109,14 @@ export function SmartImportDialog({
     setBusinessCardFile(null)
     setBusinessCardPreview(null)
     setExtractedContactData(null)
+    setVcardFile(null)
+    setVcardContacts([])
+    setSelectedContacts([])
     setEmailContent('')
     setExtractedPropertyData(null)
     setCalendarEvents([])
     setSelectedEvents([])
+    setCalendarFile(null)
   }
 
   const updateProcessing = (update: Partial<ProcessingState>) => {
@@ -192,6 +207,30 @@ export function SmartImportDialog({
     }
   }
 
+  // Scanned cards and vCard contacts both become clients through /api/clients
+  const createClientFromContact = async (contact: BusinessCardData) => {
+    const response = await fetch('/api/clients', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        // Structured names keep multi-word first names intact
+        ...(contact.firstName && contact.lastName
+          ? { first_name: contact.firstName, last_name: contact.lastName }
+          : { name: contact.name }),
+        email: contact.email,
+        phone: contact.phone,
+        address: contact.address,
+        company: contact.company,
+        status: 'Buyer' // Default status
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error('Failed to create client')
+    }
+    return response.json()
+  }
+
   const createClientFromBusinessCard = async () => {
     if (!extractedContactData) return
 
@@ -202,45 +241,112 @@ export function SmartImportDialog({
     })
 
     try {
-      const response = await fetch('/api/clients', {
+      const client = await createClientFromContact(extractedContactData)
+      onClientCreated?.(client)
+      toast.success('Client created successfully from business card')
+      updateProcessing({
+        step: 'complete',
+        progress: 100,
+        message: 'Client created successfully'
+      })
+      setTimeout(() => {
+        setIsOpen(false)
+        resetState()
+      }, 2000)
+    } catch (error) {
+      updateProcessing({
+        step: 'complete',
+        progress: 100,
+        message: '',
+        errors: [error instanceof Error ? error.message : 'Failed to create client']
+      })
+    }
+  }
+
+  // vCard Processing
+  const processVCardFile = async (file: File | undefined) => {
+    if (!file) return
+
+    setVcardFile(file)
+    setVcardContacts([])
+    setSelectedContacts([])
+    updateProcessing({
+      step: 'processing',
+      progress: 40,
+      message: 'Reading contacts...',
+      errors: [],
+      warnings: []
+    })
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch('/api/smart-import/vcard', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name: extractedContactData.name,
-          email: extractedContactData.email,
-          phone: extractedContactData.phone,
-          address: extractedContactData.address,
-          company: extractedContactData.company,
-          status: 'Buyer' // Default status
-        })
+        body: formData
       })
+      const result = await response.json()
 
-      if (response.ok) {
-        const client = await response.json()
-        onClientCreated?.(client)
-        toast.success('Client created successfully from business card')
-        updateProcessing({
-          step: 'complete',
-          progress: 100,
-          message: 'Client created successfully'
-        })
-        setTimeout(() => {
-          setIsOpen(false)
-          resetState()
-        }, 2000)
-      } else {
-        throw new Error('Failed to create client')
+      if (!response.ok || !result.success) {
+        throw new Error(result.errors?.join(', ') || result.error || 'Failed to read vCard file')
       }
-    } catch (error) {
+
+      const contacts: VCardContact[] = result.data
+      setVcardContacts(contacts)
+      setSelectedContacts(contacts.flatMap((contact, index) => contact.missingFields.length === 0 ? [index] : []))
       updateProcessing({
         step: 'complete',
         progress: 100,
+        message: `Found ${contacts.length} ${contacts.length === 1 ? 'contact' : 'contacts'}`,
+        warnings: result.warnings || []
+      })
+    } catch (error) {
+      updateProcessing({
+        step: 'idle',
+        progress: 0,
         message: '',
-        errors: [error instanceof Error ? error.message : 'Failed to create client']
+        errors: [error instanceof Error ? error.message : 'Failed to read vCard file']
       })
     }
   }
 
+  const createClientsFromVCard = async () => {
+    const contacts = selectedContacts.map(index => vcardContacts[index])
+    const failed: VCardContact[] = []
+    let created = 0
+
+    for (const [position, contact] of contacts.entries()) {
+      updateProcessing({
+        step: 'creating',
+        progress: Math.round((position / contacts.length) * 100),
+        message: `Creating client ${position + 1} of ${contacts.length}...`
+      })
+      try {
+        const client = await createClientFromContact(contact)
+        onClientCreated?.(client)
+        created++
+      } catch {
+        failed.push(contact)
+      }
+    }
+
+    if (created > 0) {
+      toast.success(`Created ${created} ${created === 1 ? 'client' : 'clients'} from vCard`)
+    }
+    updateProcessing({
+      step: 'complete',
+      progress: 100,
+      message: `Created ${created} of ${contacts.length} clients`,
+      errors: failed.length > 0
+        ? [`Could not create: ${failed.map(contact => contact.name || contact.email || 'Unnamed contact').join(', ')}`]
+        : []
+    })
+    // Keep the failures on screen so they can be retried
+    setVcardContacts(failed)
+    setSelectedContacts(failed.map((_, index) => index))
+  }
+
   // Email Processing
   const processPropertyEmail = async () => {
     if (!emailContent.trim()) {
@@ -435,8 +541,111 @@ export function SmartImportDialog({
     }
   }
 
+  const processCalendarFile = async (file: File | undefined) => {
+    if (!file) return
+
+    setCalendarFile(file)
+    setCalendarEvents([])
+    setSelectedEvents([])
+    updateProcessing({
+      step: 'processing',
+      progress: 40,
+      message: 'Reading calendar file...',
+      errors: [],
+      warnings: []
+    })
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('action', 'preview')
+
+      const response = await fetch('/api/smart-import/calendar/ics', {
+        method: 'POST',
+        body: formData
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.errors?.join(', ') || result.error || 'Failed to read calendar file')
+      }
+
+      const events: CalendarEvent[] = result.data.map((event: any) => ({
+        ...event,
+        startTime: new Date(event.startTime),
+        endTime: new Date(event.endTime)
+      }))
+      setCalendarEvents(events)
+      setSelectedEvents(events.filter(event => event.eventType !== 'other').map(event => event.id))
+      updateProcessing({
+        step: 'complete',
+        progress: 100,
+        message: `Found ${events.length} ${events.length === 1 ? 'event' : 'events'}${result.calendarName ? ` in ${result.calendarName}` : ''}`,
+        warnings: result.warnings || []
+      })
+    } catch (error) {
+      updateProcessing({
+        step: 'idle',
+        progress: 0,
+        message: '',
+        errors: [error instanceof Error ? error.message : 'Failed to read calendar file']
+      })
+    }
+  }
+
+  // Tasks from an .ics file are saved server-side, where re-imported events update their earlier task
+  const importCalendarFile = async (file: File) => {
+    updateProcessing({
+      step: 'creating',
+      progress: 90,
+      message: `Importing ${selectedEvents.length} events...`
+    })
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('action', 'import')
+      formData.append('event_ids', JSON.stringify(selectedEvents))
+
+      const response = await fetch('/api/smart-import/calendar/ics', {
+        method: 'POST',
+        body: formData
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.errors?.join(', ') || result.error || 'Failed to import calendar file')
+      }
+
+      onTasksCreated?.(result.tasks || [])
+      toast.success(result.summary)
+
+      updateProcessing({
+        step: 'complete',
+        progress: 100,
+        message: result.summary,
+        errors: result.errors || []
+      })
+
+      if (!result.errors?.length) {
+        setTimeout(() => {
+          setIsOpen(false)
+          resetState()
+        }, 2000)
+      }
+    } catch (error) {
+      updateProcessing({
+        step: 'complete',
+        progress: 100,
+        message: '',
+        errors: [error instanceof Error ? error.message : 'Failed to import calendar file']
+      })
+    }
+  }
+
   const createTasksFromCalendar = async () => {
     if (selectedEvents.length === 0) return
+    if (calendarFile) return importCalendarFile(calendarFile)
 
     updateProcessing({
       step: 'creating',
@@ -556,16 +765,20 @@ export function SmartImportDialog({
             Smart Import
           </DialogTitle>
           <DialogDescription>
-            Automatically extract and import data from business cards, emails, and calendar events
+            Automatically extract and import data from business cards, vCards, emails, and calendar events
           </DialogDescription>
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as ImportType)}>
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="business-card" className="gap-2">
               <Camera className="h-4 w-4" />
               Business Card
             </TabsTrigger>
+            <TabsTrigger value="vcard" className="gap-2">
+              <Contact className="h-4 w-4" />
+              vCard
+            </TabsTrigger>
             <TabsTrigger value="email" className="gap-2">
               <Mail className="h-4 w-4" />
               Email Listing
@@ -677,6 +890,87 @@ export function SmartImportDialog({
             {renderProcessingStatus()}
           </TabsContent>
 
+          {/* vCard Tab */}
+          <TabsContent value="vcard" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Import Contacts</CardTitle>
+                <CardDescription>
+                  Upload a .vcf file exported from a phone or address book; files with many contacts are supported
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="vcard-upload">vCard File</Label>
+                  <Input
+                    id="vcard-upload"
+                    type="file"
+                    accept=".vcf,text/vcard,text/x-vcard"
+                    onChange={(e) => processVCardFile(e.target.files?.[0])}
+                    className="mt-1"
+                  />
+                </div>
+
+                {vcardContacts.length > 0 && (
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <Label>Contacts in {vcardFile?.name}</Label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSelectedContacts(
+                          selectedContacts.length > 0
+                            ? []
+                            : vcardContacts.flatMap((contact, index) => contact.missingFields.length === 0 ? [index] : [])
+                        )}
+                      >
+                        {selectedContacts.length > 0 ? 'Clear selection' : 'Select all'}
+                      </Button>
+                    </div>
+                    <div className="space-y-2 max-h-60 overflow-y-auto">
+                      {vcardContacts.map((contact, index) => (
+                        <Card key={index} className="p-3">
+                          <div className="flex items-start gap-2">
+                            <input
+                              type="checkbox"
+                              className="mt-1"
+                              disabled={contact.missingFields.length > 0}
+                              checked={selectedContacts.includes(index)}
+                              onChange={(e) => {
+                                if (e.target.checked) {
+                                  setSelectedContacts(prev => [...prev, index])
+                                } else {
+                                  setSelectedContacts(prev => prev.filter(i => i !== index))
+                                }
+                              }}
+                            />
+                            <div className="space-y-1 flex-1 min-w-0">
+                              <h4 className="font-medium truncate">{contact.name || contact.email || 'Unnamed contact'}</h4>
+                              <p className="text-sm text-gray-600 truncate">
+                                {[contact.company, contact.email, contact.phone].filter(Boolean).join(' • ')}
+                              </p>
+                              {contact.missingFields.length > 0 && (
+                                <p className="text-xs text-red-600">Missing {contact.missingFields.join(', ')}</p>
+                              )}
+                            </div>
+                          </div>
+                        </Card>
+                      ))}
+                    </div>
+
+                    {selectedContacts.length > 0 && processing.step !== 'creating' && (
+                      <Button onClick={createClientsFromVCard} className="w-full">
+                        <Users className="h-4 w-4 mr-2" />
+                        Create {selectedContacts.length} {selectedContacts.length === 1 ? 'Client' : 'Clients'}
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            {renderProcessingStatus()}
+          </TabsContent>
+
           {/* Email Tab */}
           <TabsContent value="email" className="space-y-4">
             <Card>
@@ -783,6 +1077,8 @@ export function SmartImportDialog({
                       </CardContent>
                     </Card>
 
+                    <ListingMatches listing={extractedPropertyData} />
+
                     {processing.step !== 'creating' && (
                       <Button onClick={createDealFromEmail} className="w-full">
                         <Building className="h-4 w-4 mr-2" />
@@ -826,9 +1122,23 @@ export function SmartImportDialog({
                   </Button>
                 )}
 
+                <div>
+                  <Label htmlFor="ics-upload">Or upload a calendar file</Label>
+                  <Input
+                    id="ics-upload"
+                    type="file"
+                    accept=".ics,text/calendar"
+                    onChange={(e) => processCalendarFile(e.target.files?.[0])}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    An .ics export from Google Calendar, Outlook or Apple Calendar. Importing the same file again updates the tasks it created.
+                  </p>
+                </div>
+
                 {calendarEvents.length > 0 && (
                   <div className="space-y-4">
-                    <Label>Real Estate Events Found</Label>
+                    <Label>{calendarFile ? `Events in ${calendarFile.name}` : 'Real Estate Events Found'}</Label>
                     <div className="space-y-2 max-h-60 overflow-y-auto">
                       {calendarEvents.map((event) => (
                         <Card key={event.id} className="p-3">
@@ -851,8 +1161,12 @@ export function SmartImportDialog({
                               </div>
                               <p className="text-sm text-gray-600">{event.description}</p>
                               <p className="text-xs text-gray-500">
-                                {event.startTime.toLocaleString()} • {event.location}
+                                {event.allDay ? event.startTime.toLocaleDateString(undefined, { timeZone: 'UTC' }) : event.startTime.toLocaleString()}
+                                {event.location && ` • ${event.location}`}
                               </p>
+                              {event.attendees && event.attendees.length > 0 && (
+                                <p className="text-xs text-gray-500 truncate">With {event.attendees.join(', ')}</p>
+                              )}
                             </div>
                           </div>
                         </Card>
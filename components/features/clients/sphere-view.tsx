@@ -0,0 +1,117 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2, Mail, Phone, RefreshCw } from "lucide-react"
+import { EmailDialog } from "@/components/features/messaging/email-dialog"
+import { useSphereContacts } from "@/hooks/use-client-lifecycle"
+import { SPHERE_STALE_DAYS, describeTouchAge, getLifecycleStageInfo } from "@/lib/clients/lifecycle"
+
+function displayName(contact: { first_name: string | null; last_name: string | null }) {
+  return `${contact.first_name || ''} ${contact.last_name || ''}`.trim() || 'Unnamed client'
+}
+
+/**
+ * Past clients and sphere contacts by last-touch age, overdue check-ins flagged
+ */
+export function SphereView() {
+  const [overdueOnly, setOverdueOnly] = useState(true)
+  const { contacts, staleAfterDays, loading, error, refreshContacts } = useSphereContacts(overdueOnly ? SPHERE_STALE_DAYS : 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <CardTitle className="text-lg">
+            {overdueOnly ? `Not contacted in ${staleAfterDays}+ days` : 'All past clients & sphere'}
+            {!loading && <Badge variant="outline" className="ml-2">{contacts.length}</Badge>}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant={overdueOnly ? 'default' : 'outline'}
+              onClick={() => setOverdueOnly(true)}
+            >
+              Overdue
+            </Button>
+            <Button
+              size="sm"
+              variant={overdueOnly ? 'outline' : 'default'}
+              onClick={() => setOverdueOnly(false)}
+            >
+              All
+            </Button>
+            <Button size="sm" variant="ghost" onClick={refreshContacts} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : contacts.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            {overdueOnly
+              ? 'Everyone in your sphere has been contacted recently'
+              : 'No past clients or sphere contacts yet. Closing a deal moves the client here automatically.'}
+          </p>
+        ) : (
+          <div className="divide-y">
+            {contacts.map(contact => {
+              const stage = getLifecycleStageInfo(contact.lifecycle_stage)
+              return (
+                <div key={contact.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Link href={`/client/${contact.id}`} className="font-medium hover:underline truncate">
+                        {displayName(contact)}
+                      </Link>
+                      <Badge className={stage.color} variant="secondary">{stage.label}</Badge>
+                    </div>
+                    <p className={`text-sm ${contact.stale ? 'text-red-600' : 'text-gray-500'}`}>
+                      Last touch: {describeTouchAge(contact.days_since_touch)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {contact.phone && (
+                      <Button asChild size="sm" variant="ghost" className="h-8 px-2">
+                        <a href={`tel:${contact.phone}`} aria-label="Call">
+                          <Phone className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    )}
+                    {contact.email && (
+                      <EmailDialog
+                        clientId={contact.id}
+                        clientName={displayName(contact)}
+                        clientEmail={contact.email}
+                        trigger={
+                          <Button size="sm" variant="ghost" className="h-8 px-2" aria-label="Email">
+                            <Mail className="h-4 w-4" />
+                          </Button>
+                        }
+                      />
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,223 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Copy, ExternalLink, Link2, Loader2, Lock } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { usePortalLinks } from "@/hooks/use-portal-links"
+import {
+  DEFAULT_PORTAL_EXPIRY_DAYS,
+  PORTAL_EXPIRY_OPTIONS,
+  getPortalLinkStatus,
+  type PortalLinkStatus
+} from "@/lib/transactions/portal"
+import { formatDate } from "@/lib/utils"
+import { type Deal } from "@/lib/types"
+
+interface DealClientPortalProps {
+  deal: Deal
+}
+
+const STATUS_BADGES: Record<PortalLinkStatus, { label: string; color: string }> = {
+  active: { label: 'Active', color: 'bg-green-100 text-green-800' },
+  expired: { label: 'Expired', color: 'bg-gray-100 text-gray-800' },
+  revoked: { label: 'Revoked', color: 'bg-red-100 text-red-800' }
+}
+
+/**
+ * Portal links for the deal's transaction and which documents the client can see
+ */
+export function DealClientPortal({ deal }: DealClientPortalProps) {
+  const [transactionId, setTransactionId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchTransaction() {
+      try {
+        const response = await fetch(`/api/transactions?deal_id=${deal.id}&limit=1`, {
+          credentials: 'include'
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setTransactionId(data.transactions?.[0]?.id || null)
+        }
+      } catch (error) {
+        console.error('Error fetching transaction:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchTransaction()
+  }, [deal.id])
+
+  if (loading || !transactionId) return null
+
+  return <ClientPortalCard transactionId={transactionId} />
+}
+
+function ClientPortalCard({ transactionId }: { transactionId: string }) {
+  const { links, documents, loading, error, createLink, revokeLink, setDocumentShared } = usePortalLinks(transactionId)
+  const [expiryDays, setExpiryDays] = useState(String(DEFAULT_PORTAL_EXPIRY_DAYS))
+  const [newUrl, setNewUrl] = useState<string | null>(null)
+  const [working, setWorking] = useState(false)
+  const { toast } = useToast()
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+      toast({ title: 'Portal link copied' })
+    } catch {
+      toast({ title: 'Could not copy link', description: url, variant: 'destructive' })
+    }
+  }
+
+  const handleCreate = async () => {
+    setWorking(true)
+    const url = await createLink(Number(expiryDays))
+    setWorking(false)
+    if (url) {
+      setNewUrl(url)
+      copy(url)
+    }
+  }
+
+  const handleRevoke = async (linkId: string) => {
+    if (!confirm('Turn off this portal link? Your client will no longer be able to open it.')) return
+    if (await revokeLink(linkId)) toast({ title: 'Portal link revoked' })
+  }
+
+  const sharedCount = documents.filter(document => document.shared_with_client).length
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Client Portal</CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={expiryDays} onValueChange={setExpiryDays}>
+              <SelectTrigger className="h-8 w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PORTAL_EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleCreate} disabled={working}>
+              {working ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Link2 className="h-4 w-4 mr-1" />}
+              New Link
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {newUrl && (
+          <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 space-y-2">
+            <p className="text-sm text-blue-900">
+              Send this link to your client. It won&apos;t be shown again once you leave this page.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate text-xs bg-white rounded px-2 py-1 border">{newUrl}</code>
+              <Button size="sm" variant="outline" onClick={() => copy(newUrl)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="outline" asChild>
+                <a href={newUrl} target="_blank" rel="noopener noreferrer" aria-label="Open portal">
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <>
+            {links.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No portal links yet. Create one to let your client check milestones, dates and shared documents.
+              </p>
+            ) : (
+              <div className="divide-y">
+                {links.map(link => {
+                  const status = getPortalLinkStatus(link)
+                  const badge = STATUS_BADGES[status]
+                  return (
+                    <div key={link.id} className="flex items-center justify-between gap-3 py-2">
+                      <div className="min-w-0 text-sm">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary" className={badge.color}>{badge.label}</Badge>
+                          <span className="text-gray-600">
+                            {status === 'revoked' && link.revoked_at
+                              ? `Revoked ${formatDate(link.revoked_at)}`
+                              : `${status === 'expired' ? 'Expired' : 'Expires'} ${formatDate(link.expires_at)}`}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {link.view_count > 0 && link.last_viewed_at
+                            ? `Viewed ${link.view_count} ${link.view_count === 1 ? 'time' : 'times'}, last ${formatDate(link.last_viewed_at)}`
+                            : 'Not opened yet'}
+                        </p>
+                      </div>
+                      {status === 'active' && (
+                        <Button size="sm" variant="ghost" className="text-red-600" onClick={() => handleRevoke(link.id)}>
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            <div>
+              <div className="text-sm font-medium text-gray-900 mb-2">
+                Shared documents
+                <span className="text-gray-500 font-normal"> · {sharedCount} of {documents.length}</span>
+              </div>
+              {documents.length === 0 ? (
+                <p className="text-sm text-gray-500">No transaction documents uploaded yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {documents.map(document => (
+                    <div key={document.id} className="flex items-center justify-between gap-3">
+                      <span className="text-sm text-gray-700 truncate">{document.document_name}</span>
+                      {document.is_locked ? (
+                        <span className="flex items-center gap-1 text-xs text-gray-500">
+                          <Lock className="h-3 w-3" />
+                          Locked
+                        </span>
+                      ) : (
+                        <Switch
+                          checked={!!document.shared_with_client}
+                          onCheckedChange={checked => setDocumentShared(document.id, checked)}
+                          aria-label={`Share ${document.document_name} with client`}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,175 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { FileText, Lock, RefreshCw, CheckCircle } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useRBAC } from "@/lib/rbac/context"
+import { type CommissionDisbursement } from "@/lib/commissions/cda"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import { type Deal } from "@/lib/types"
+
+interface DealCommissionDisbursementProps {
+  deal: Deal
+}
+
+export function DealCommissionDisbursement({ deal }: DealCommissionDisbursementProps) {
+  const [transactionId, setTransactionId] = useState<string | null>(null)
+  const [disbursement, setDisbursement] = useState<CommissionDisbursement | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const { toast } = useToast()
+  const { currentTenant, hasPermission } = useRBAC()
+
+  useEffect(() => {
+    async function fetchDisbursement() {
+      try {
+        const response = await fetch(`/api/commission-disbursements?deal_id=${deal.id}`, {
+          credentials: 'include'
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setTransactionId(data.transaction_id)
+          setDisbursement(data.disbursement)
+        }
+      } catch (error) {
+        console.error('Error fetching CDA:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchDisbursement()
+  }, [deal.id])
+
+  const generate = async () => {
+    if (!transactionId) return
+    setWorking(true)
+    try {
+      const response = await fetch('/api/commission-disbursements', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ transaction_id: transactionId })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to generate CDA')
+
+      setDisbursement(data.disbursement)
+      toast({ title: 'CDA draft updated' })
+    } catch (error) {
+      toast({
+        title: 'Could not generate CDA',
+        description: error instanceof Error ? error.message : 'Failed to generate CDA',
+        variant: 'destructive'
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const approve = async () => {
+    if (!disbursement || !currentTenant) return
+    setWorking(true)
+    try {
+      const response = await fetch(`/api/commission-disbursements/${disbursement.id}/approve?tenantId=${currentTenant}`, {
+        method: 'POST',
+        credentials: 'include'
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to approve CDA')
+
+      setDisbursement(data.disbursement)
+      toast({ title: 'CDA approved', description: 'The signed CDA has been attached to the transaction documents.' })
+    } catch (error) {
+      toast({
+        title: 'Could not approve CDA',
+        description: error instanceof Error ? error.message : 'Failed to approve CDA',
+        variant: 'destructive'
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  if (loading || !transactionId) return null
+
+  const approved = disbursement?.status === 'approved'
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Commission Disbursement</CardTitle>
+          {disbursement && (
+            <Badge variant="secondary" className={approved ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"}>
+              {approved ? 'Approved' : 'Draft'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!disbursement ? (
+          <p className="text-sm text-gray-500">
+            No CDA yet. One is drafted automatically when the deal closes, or generate it now.
+          </p>
+        ) : (
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">{disbursement.document.reference}</span>
+              <span className="font-medium">{formatCurrency(disbursement.document.grossCommission)}</span>
+            </div>
+            <div className="text-gray-600">
+              To: {disbursement.document.titleCompany || 'Title company not set'}
+            </div>
+            {disbursement.document.disbursements.map((payee) => (
+              <div key={`${payee.role}-${payee.name}`} className="flex justify-between text-xs text-gray-500">
+                <span>{payee.name} · {payee.role}</span>
+                <span>{formatCurrency(payee.amount)}</span>
+              </div>
+            ))}
+            {approved && disbursement.document.approval && (
+              <div className="flex items-center gap-1 text-xs text-gray-600 pt-1">
+                <Lock className="h-3 w-3" />
+                Locked · approved by {disbursement.document.approval.approvedBy} on {formatDate(disbursement.document.approval.approvedAt)}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {disbursement && (
+            <>
+              <Button size="sm" variant="outline" asChild>
+                <a href={`/api/commission-disbursements/${disbursement.id}/document?format=html`} target="_blank" rel="noopener noreferrer">
+                  <FileText className="h-4 w-4 mr-1" />
+                  Print
+                </a>
+              </Button>
+              <Button size="sm" variant="outline" asChild>
+                <a href={`/api/commission-disbursements/${disbursement.id}/document?format=pdf`} target="_blank" rel="noopener noreferrer">
+                  <FileText className="h-4 w-4 mr-1" />
+                  PDF
+                </a>
+              </Button>
+            </>
+          )}
+          {!approved && (
+            <Button size="sm" variant="outline" onClick={generate} disabled={working}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              {disbursement ? 'Regenerate' : 'Generate CDA'}
+            </Button>
+          )}
+          {disbursement && !approved && hasPermission('DEALS_APPROVE') && (
+            <Button size="sm" onClick={approve} disabled={working}>
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Approve
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,296 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useRBAC } from "@/lib/rbac/context"
+import { createClient } from "@/lib/supabase/client"
+import {
+  buildCommissionLedger,
+  getParticipantRoleLabel,
+  PARTICIPANT_ROLES,
+  type CommissionParticipant,
+  type ParticipantAmountType,
+  type ParticipantRole
+} from "@/lib/commissions/ledger"
+import { formatCurrency } from "@/lib/utils"
+import { type Deal } from "@/lib/types"
+
+interface DealCommissionSplitProps {
+  deal: Deal
+}
+
+interface TeamMember {
+  user_id: string
+  name: string
+}
+
+const isExternalRole = (role: ParticipantRole) =>
+  PARTICIPANT_ROLES.find(option => option.value === role)?.external ?? false
+
+export function DealCommissionSplit({ deal }: DealCommissionSplitProps) {
+  const [participants, setParticipants] = useState<CommissionParticipant[]>([])
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [saving, setSaving] = useState(false)
+  const [dirty, setDirty] = useState(false)
+  const { toast } = useToast()
+  const { currentTenant } = useRBAC()
+
+  const grossCommission = parseFloat(deal.commission.replace(/[$,]/g, '')) || 0
+
+  useEffect(() => {
+    async function fetchParticipants() {
+      try {
+        const response = await fetch(`/api/deals/${deal.id}/commission-participants`, {
+          credentials: 'include'
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setParticipants(data.participants || [])
+        }
+      } catch (error) {
+        console.error('Error fetching commission participants:', error)
+      }
+    }
+
+    fetchParticipants()
+  }, [deal.id])
+
+  useEffect(() => {
+    if (!currentTenant) return
+
+    async function fetchMembers() {
+      const supabase = createClient()
+      const { data } = await supabase
+        .from('tenant_members')
+        .select('user_id, users(name, email)')
+        .eq('tenant_id', currentTenant)
+        .eq('status', 'active')
+
+      setMembers((data || []).map((member: any) => ({
+        user_id: member.user_id,
+        name: member.users?.name || member.users?.email || 'Team member'
+      })))
+    }
+
+    fetchMembers()
+  }, [currentTenant])
+
+  const ledger = useMemo(
+    () => buildCommissionLedger(grossCommission, participants, { userId: null, name: 'You' }),
+    [grossCommission, participants]
+  )
+
+  const updateParticipant = (index: number, changes: Partial<CommissionParticipant>) => {
+    setParticipants(current => current.map((participant, i) => i === index ? { ...participant, ...changes } : participant))
+    setDirty(true)
+  }
+
+  const moveParticipant = (index: number, direction: -1 | 1) => {
+    setParticipants(current => {
+      const next = [...current]
+      const [moved] = next.splice(index, 1)
+      next.splice(index + direction, 0, moved)
+      return next.map((participant, position) => ({ ...participant, position }))
+    })
+    setDirty(true)
+  }
+
+  const addParticipant = () => {
+    setParticipants(current => [
+      ...current,
+      {
+        role: 'co_listing_agent',
+        participant_user_id: null,
+        name: '',
+        amount_type: 'percentage',
+        amount: 50,
+        position: current.length
+      }
+    ])
+    setDirty(true)
+  }
+
+  const removeParticipant = (index: number) => {
+    setParticipants(current => current
+      .filter((_, i) => i !== index)
+      .map((participant, position) => ({ ...participant, position })))
+    setDirty(true)
+  }
+
+  const saveParticipants = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/deals/${deal.id}/commission-participants`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          participants: participants.map(({ role, participant_user_id, name, amount_type, amount }) => ({
+            role,
+            participant_user_id: isExternalRole(role) ? null : participant_user_id,
+            name,
+            amount_type,
+            amount
+          }))
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save commission split')
+      }
+
+      setParticipants(data.participants || [])
+      setDirty(false)
+      toast({ title: 'Commission split saved' })
+    } catch (error) {
+      toast({
+        title: 'Could not save commission split',
+        description: error instanceof Error ? error.message : 'Failed to save commission split',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Commission Split</CardTitle>
+          <Button size="sm" variant="outline" onClick={addParticipant}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Participant
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {participants.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-2">
+            The full {formatCurrency(grossCommission)} commission goes to you
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">
+              Applied top to bottom; percentages are taken from what is left after the rows above.
+            </p>
+            {participants.map((participant, index) => (
+              <div key={participant.id || index} className="grid grid-cols-1 md:grid-cols-[auto_1fr_1fr_auto_auto_auto] gap-2 items-center">
+                <div className="flex flex-col">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-5 w-6"
+                    disabled={index === 0}
+                    onClick={() => moveParticipant(index, -1)}
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-5 w-6"
+                    disabled={index === participants.length - 1}
+                    onClick={() => moveParticipant(index, 1)}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                </div>
+                <Select
+                  value={participant.role}
+                  onValueChange={(role: ParticipantRole) => updateParticipant(index, {
+                    role,
+                    participant_user_id: isExternalRole(role) ? null : participant.participant_user_id
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PARTICIPANT_ROLES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {isExternalRole(participant.role) || members.length === 0 ? (
+                  <Input
+                    placeholder={isExternalRole(participant.role) ? 'Brokerage name' : 'Agent name'}
+                    value={participant.name}
+                    onChange={(e) => updateParticipant(index, { name: e.target.value })}
+                  />
+                ) : (
+                  <Select
+                    value={participant.participant_user_id || ''}
+                    onValueChange={(userId) => updateParticipant(index, {
+                      participant_user_id: userId,
+                      name: members.find(member => member.user_id === userId)?.name || ''
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select agent" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {members.map(member => (
+                        <SelectItem key={member.user_id} value={member.user_id}>{member.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Select
+                  value={participant.amount_type}
+                  onValueChange={(amountType: ParticipantAmountType) => updateParticipant(index, { amount_type: amountType })}
+                >
+                  <SelectTrigger className="w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">%</SelectItem>
+                    <SelectItem value="flat">$</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  className="w-28"
+                  value={participant.amount}
+                  onChange={(e) => updateParticipant(index, { amount: parseFloat(e.target.value) || 0 })}
+                />
+                <Button size="icon" variant="ghost" onClick={() => removeParticipant(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="border-t pt-3 space-y-1">
+          {ledger.entries.map((entry, index) => (
+            <div key={entry.participantId || `${entry.role}-${index}`} className="flex items-center justify-between text-sm">
+              <span className="text-gray-600">
+                {getParticipantRoleLabel(entry.role)}{entry.name && ` · ${entry.name}`}
+              </span>
+              <span className="font-medium">
+                {formatCurrency(entry.amount)}
+                <span className="text-xs text-gray-500 ml-1">({entry.percentageOfGross}%)</span>
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {dirty && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={saveParticipants} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Split'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
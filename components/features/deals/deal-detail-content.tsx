@@ -8,9 +8,15 @@ import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Progress } from "@/components/ui/progress"
-import { Loader2, DollarSign, Calendar, MapPin, Building2, User, Plus, AlertCircle, Bed, Bath, Square } from "lucide-react"
+import { Loader2, DollarSign, Calendar, MapPin, Building2, User, Plus, AlertCircle, Bed, Bath, Square, History, ArrowRight } from "lucide-react"
 import { createClient } from '@/lib/supabase/client'
+import { usePipelines } from "@/hooks/use-pipelines"
+import { findStage, getStageColorClasses } from "@/lib/pipeline/stages"
 import { type Deal } from "@/lib/types"
+import { DealCommissionSplit } from "@/components/features/deals/deal-commission-split"
+import { DealCommissionDisbursement } from "@/components/features/deals/deal-commission-disbursement"
+import { DealClientPortal } from "@/components/features/deals/deal-client-portal"
+import { ShowingTours } from "@/components/features/showings/showing-tours"
 import { formatDate, formatCurrency } from "@/lib/utils"
 
 interface DealDetailContentProps {
@@ -26,6 +32,12 @@ interface Client {
   status: string
 }
 
+interface HouseholdParty {
+  id: string
+  name: string
+  members: { id: string; first_name: string; last_name: string }[]
+}
+
 interface Task {
   id: string
   title: string
@@ -40,11 +52,25 @@ interface Note {
   created_at: string
 }
 
+interface StageHistoryEntry {
+  id: string
+  from_stage: string | null
+  to_stage: string
+  changed_at: string
+  changed_by_name: string | null
+  reason: string | null
+  duration_days: number
+}
+
 export function DealDetailContent({ deal }: DealDetailContentProps) {
   const router = useRouter()
   const [client, setClient] = useState<Client | null>(null)
+  const [household, setHousehold] = useState<HouseholdParty | null>(null)
   const [tasks, setTasks] = useState<Task[]>([])
   const [notes, setNotes] = useState<Note[]>([])
+  const [stageHistory, setStageHistory] = useState<StageHistoryEntry[]>([])
+  const [daysInStage, setDaysInStage] = useState<number | null>(null)
+  const { allStages } = usePipelines()
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -73,6 +99,15 @@ export function DealDetailContent({ deal }: DealDetailContentProps) {
           }
         }
 
+        // Household parties are shown alongside the client but never block the page
+        if (deal.householdId) {
+          const householdResponse = await fetch(`/api/households/${deal.householdId}`, { credentials: 'include' })
+          if (householdResponse.ok) {
+            const householdData = await householdResponse.json()
+            setHousehold(householdData.household)
+          }
+        }
+
         // Fetch tasks for this deal
         const { data: tasksData, error: tasksError } = await supabase
           .from('tasks')
@@ -93,6 +128,14 @@ export function DealDetailContent({ deal }: DealDetailContentProps) {
         //   .limit(5)
         // if (notesError) throw notesError
 
+        // Stage history is non-critical; the page still renders without it
+        const historyResponse = await fetch(`/api/deals/${deal.id}/history`, { credentials: 'include' })
+        if (historyResponse.ok) {
+          const historyData = await historyResponse.json()
+          setStageHistory(historyData.history || [])
+          setDaysInStage(historyData.days_in_current_stage)
+        }
+
         setClient(clientData)
         setTasks(tasksData || [])
         setNotes([]) // Notes disabled - table doesn't exist
@@ -104,7 +147,12 @@ export function DealDetailContent({ deal }: DealDetailContentProps) {
     }
 
     fetchDealData()
-  }, [deal.id, deal.clientId])
+  }, [deal.id, deal.clientId, deal.householdId, deal.status])
+
+  const getStageBadgeColor = (stageName: string): string => {
+    const stage = findStage(allStages, stageName)
+    return getStageColorClasses(stage?.color || 'gray').badge
+  }
 
 
   const getStatusColor = (status: string): string => {
@@ -198,6 +246,16 @@ export function DealDetailContent({ deal }: DealDetailContentProps) {
                 </div>
               </div>
 
+              {daysInStage !== null && (
+                <div className="flex items-center gap-3">
+                  <History className="h-5 w-5 text-gray-400" />
+                  <div>
+                    <span className="text-sm font-medium">In {deal.status}:</span>
+                    <span className="ml-2 text-sm">{daysInStage} {daysInStage === 1 ? 'day' : 'days'}</span>
+                  </div>
+                </div>
+              )}
+
               <div className="pt-2 border-t">
                 <div className="flex items-center justify-between text-sm mb-2">
                   <span className="text-gray-600">Probability</span>
@@ -232,6 +290,16 @@ export function DealDetailContent({ deal }: DealDetailContentProps) {
                   </div>
                 </div>
 
+                {household && (
+                  <div className="text-sm">
+                    <span className="text-gray-600">Party: </span>
+                    <span className="font-medium">{household.name}</span>
+                    <span className="text-gray-600">
+                      {` (${household.members.map(member => `${member.first_name} ${member.last_name}`).join(', ')})`}
+                    </span>
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   {client.email && (
                     <div className="text-sm">
@@ -422,6 +490,59 @@ export function DealDetailContent({ deal }: DealDetailContentProps) {
         </Card>
       </div>
 
+      {/* Commission Split */}
+      <DealCommissionSplit deal={deal} />
+      <DealCommissionDisbursement deal={deal} />
+
+      {/* Client Portal */}
+      <DealClientPortal deal={deal} />
+
+      {/* Showings */}
+      {deal.clientId && <ShowingTours clientId={deal.clientId} dealId={deal.id} />}
+
+      {/* Stage History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Stage History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {stageHistory.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No stage changes recorded yet</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+              {[...stageHistory].reverse().map((entry) => (
+                <li key={entry.id} className="ml-4">
+                  <div className="absolute w-3 h-3 bg-gray-300 rounded-full -left-1.5 mt-1.5 border border-white" />
+                  <div className="flex flex-wrap items-center gap-2">
+                    {entry.from_stage ? (
+                      <>
+                        <Badge className={getStageBadgeColor(entry.from_stage)} variant="secondary">
+                          {entry.from_stage}
+                        </Badge>
+                        <ArrowRight className="h-3 w-3 text-gray-400" />
+                      </>
+                    ) : (
+                      <span className="text-xs text-gray-500">Created in</span>
+                    )}
+                    <Badge className={getStageBadgeColor(entry.to_stage)} variant="secondary">
+                      {entry.to_stage}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-gray-600 mt-1">
+                    {formatDate(entry.changed_at)}
+                    {entry.changed_by_name && ` by ${entry.changed_by_name}`}
+                    {` · ${entry.duration_days} ${entry.duration_days === 1 ? 'day' : 'days'} in stage`}
+                  </div>
+                  {entry.reason && (
+                    <p className="text-sm text-gray-700 mt-1">Reason: {entry.reason}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
@@ -12,9 +12,18 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Loader2, Save, X } from 'lucide-react'
 import { useDeals } from '@/hooks/use-deals'
 import { useClients } from '@/hooks/use-clients'
+import { usePipelines } from '@/hooks/use-pipelines'
+import { useHouseholds } from '@/hooks/use-households'
+import { useCustomFields } from '@/hooks/use-custom-fields'
+import { CustomFieldInputs } from '@/components/shared/custom-field-inputs'
+import { validateCustomFieldValues, type CustomFieldValues } from '@/lib/custom-fields/fields'
+import { findStage, getInitialStage, stageRequiresReason } from '@/lib/pipeline/stages'
 import { type Deal } from '@/lib/types'
 import { calculateCommission, formatCurrency as formatCommissionCurrency } from '@/lib/commission'
 
+// Radix Select cannot hold an empty value
+const CLIENT_ONLY = '__client'
+
 interface DealFormProps {
   deal?: Deal
   mode: 'create' | 'edit'
@@ -23,19 +32,26 @@ interface DealFormProps {
 export function DealForm({ deal, mode }: DealFormProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
-  const { createDeal, updateDeal } = useDeals()
+  const { createDeal, updateDeal, moveDealStage } = useDeals()
   const { clients: clientOptions } = useClients()
+  const { pipelines, getPipeline } = usePipelines()
+  const { getClientHousehold } = useHouseholds()
+  const { fields: customFields } = useCustomFields('deals')
 
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>(deal?.customFields ?? {})
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({})
 
   const [formData, setFormData] = useState({
     title: deal?.title || '',
     clientId: deal?.clientId || searchParams.get('client') || '',
+    householdId: deal?.householdId || '',
     value: deal?.value?.replace(/[$,]/g, '') || '',
     commission: deal?.commission?.replace(/[$,]/g, '') || '',
     commissionPercentage: deal?.commissionPercentage?.toString() || '',
-    status: deal?.status || 'Qualified',
+    pipelineId: deal?.pipelineId || searchParams.get('pipeline') || '',
+    status: deal?.status || searchParams.get('status') || '',
     probability: deal?.probability?.toString() || '0',
     expectedCloseDate: deal?.expectedCloseDate && deal.expectedCloseDate !== 'Not set'
       ? new Date(deal.expectedCloseDate).toISOString().split('T')[0]
@@ -44,16 +60,21 @@ export function DealForm({ deal, mode }: DealFormProps) {
     propertyType: deal?.property?.type || '',
     propertyBedrooms: deal?.property?.bedrooms?.toString() || '',
     propertyBathrooms: deal?.property?.bathrooms?.toString() || '',
-    propertySqft: deal?.property?.sqft?.toString() || ''
+    propertySqft: deal?.property?.sqft?.toString() || '',
+    stageChangeReason: ''
   })
 
-  const statusOptions = [
-    { value: 'Qualified', label: 'Qualified' },
-    { value: 'In Progress', label: 'In Progress' },
-    { value: 'Under Contract', label: 'Under Contract' },
-    { value: 'Closed', label: 'Closed' },
-    { value: 'Lost', label: 'Lost' }
-  ]
+  // The household can only be the party when the selected client belongs to it
+  const clientHousehold = getClientHousehold(formData.clientId)
+  const partyHouseholdId = clientHousehold && formData.householdId === clientHousehold.id ? clientHousehold.id : null
+
+  const selectedPipeline = getPipeline(formData.pipelineId)
+  const statusOptions = selectedPipeline.stages.map(stage => ({ value: stage.name, label: stage.name }))
+  const selectedStage = findStage(selectedPipeline.stages, formData.status)
+  const stageChanged = mode === 'edit' && !!deal && (
+    formData.status !== deal.status || selectedPipeline.id !== getPipeline(deal.pipelineId).id
+  )
+  const needsStageReason = stageChanged && !!selectedStage && stageRequiresReason(selectedStage)
 
   const propertyTypes = [
     { value: 'Single Family', label: 'Single Family Home' },
@@ -94,6 +115,28 @@ export function DealForm({ deal, mode }: DealFormProps) {
     if (error) setError(null)
   }
 
+  // Picking a stage pre-fills its default probability; switching pipelines resets the stage
+  const handleStageChange = (value: string) => {
+    const stage = findStage(selectedPipeline.stages, value)
+    setFormData(prev => ({
+      ...prev,
+      status: value,
+      probability: stage ? stage.probability.toString() : prev.probability
+    }))
+    if (error) setError(null)
+  }
+
+  const handlePipelineChange = (value: string) => {
+    const stage = getInitialStage(getPipeline(value).stages)
+    setFormData(prev => ({
+      ...prev,
+      pipelineId: value,
+      status: stage.name,
+      probability: stage.probability.toString()
+    }))
+    if (error) setError(null)
+  }
+
   const formatCurrency = (value: string): string => {
     const number = parseFloat(value.replace(/[^\d.]/g, ''))
     if (isNaN(number)) return ''
@@ -126,6 +169,20 @@ export function DealForm({ deal, mode }: DealFormProps) {
       return false
     }
 
+    if (needsStageReason && !formData.stageChangeReason.trim()) {
+      setError(`Please give a reason for moving this deal to ${selectedStage!.name}`)
+      return false
+    }
+
+    const customFieldResult = validateCustomFieldValues(customFields, customFieldValues)
+    setCustomFieldErrors(Object.fromEntries(
+      customFieldResult.errors.map(fieldError => [fieldError.field.replace('custom_fields.', ''), fieldError.message])
+    ))
+    if (customFieldResult.errors.length > 0) {
+      setError('Please fix the highlighted fields')
+      return false
+    }
+
     return true
   }
 
@@ -141,10 +198,12 @@ export function DealForm({ deal, mode }: DealFormProps) {
       const dealData: Partial<Deal> = {
         title: formData.title.trim(),
         clientId: formData.clientId,
+        householdId: partyHouseholdId,
         value: formData.value ? `$${formatCurrency(formData.value)}` : '$0',
         commission: formData.commission ? `$${formatCurrency(formData.commission)}` : '$0',
         commissionPercentage: formData.commissionPercentage ? parseFloat(formData.commissionPercentage) : undefined,
-        status: formData.status as Deal['status'],
+        status: formData.status || getInitialStage(selectedPipeline.stages).name,
+        pipelineId: selectedPipeline.id,
         probability: parseInt(formData.probability) || 0,
         expectedCloseDate: formData.expectedCloseDate || undefined,
         property: {
@@ -153,13 +212,27 @@ export function DealForm({ deal, mode }: DealFormProps) {
           bedrooms: formData.propertyBedrooms ? parseInt(formData.propertyBedrooms) : undefined,
           bathrooms: formData.propertyBathrooms ? parseInt(formData.propertyBathrooms) : undefined,
           sqft: formData.propertySqft ? parseInt(formData.propertySqft) : undefined
-        }
+        },
+        customFields: customFieldValues
       }
 
       let result
       if (mode === 'create') {
         result = await createDeal(dealData)
       } else if (deal) {
+        // Stage moves go through the guarded path first so a rejected move leaves the deal untouched
+        if (stageChanged) {
+          const move = await moveDealStage(
+            deal.id,
+            dealData.status!,
+            formData.stageChangeReason.trim() || undefined,
+            selectedPipeline.id
+          )
+          if (!move.deal) {
+            setError(move.error || 'Failed to move deal. Please try again.')
+            return
+          }
+        }
         result = await updateDeal(deal.id, dealData)
       }
 
@@ -233,6 +306,26 @@ export function DealForm({ deal, mode }: DealFormProps) {
                 </div>
               </div>
 
+              {clientHousehold && (
+                <div className="space-y-2">
+                  <Label htmlFor="party">Party</Label>
+                  <Select
+                    value={partyHouseholdId || CLIENT_ONLY}
+                    onValueChange={(value) => handleInputChange('householdId', value === CLIENT_ONLY ? '' : value)}
+                  >
+                    <SelectTrigger id="party">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CLIENT_ONLY}>Client only</SelectItem>
+                      <SelectItem value={clientHousehold.id}>
+                        {`${clientHousehold.name} (${clientHousehold.members.length} members)`}
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="value">Deal Value</Label>
@@ -295,10 +388,28 @@ export function DealForm({ deal, mode }: DealFormProps) {
                 </div>
               </div>
 
+              {pipelines.length > 1 && (
+                <div className="space-y-2">
+                  <Label htmlFor="pipeline">Pipeline</Label>
+                  <Select value={selectedPipeline.id} onValueChange={handlePipelineChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select pipeline" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pipelines.map((pipeline) => (
+                        <SelectItem key={pipeline.id} value={pipeline.id}>
+                          {pipeline.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="status">Status</Label>
-                  <Select value={formData.status} onValueChange={(value) => handleInputChange('status', value)}>
+                  <Select value={formData.status} onValueChange={handleStageChange}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select status" />
                     </SelectTrigger>
@@ -321,6 +432,20 @@ export function DealForm({ deal, mode }: DealFormProps) {
                     onChange={(e) => handleInputChange('expectedCloseDate', e.target.value)}
                   />
                 </div>
+
+                {needsStageReason && (
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="stageChangeReason">Reason for moving to {selectedStage!.name} *</Label>
+                    <Textarea
+                      id="stageChangeReason"
+                      value={formData.stageChangeReason}
+                      onChange={(e) => handleInputChange('stageChangeReason', e.target.value)}
+                      placeholder="e.g. Client chose another agent, financing fell through"
+                      maxLength={500}
+                      rows={2}
+                    />
+                  </div>
+                )}
               </div>
             </div>
 
@@ -396,6 +521,21 @@ export function DealForm({ deal, mode }: DealFormProps) {
               </div>
             </div>
 
+            {customFields.length > 0 && (
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium">Additional Details</h3>
+                <CustomFieldInputs
+                  fields={customFields}
+                  values={customFieldValues}
+                  onChange={(values) => {
+                    setCustomFieldValues(values)
+                    if (error) setError(null)
+                  }}
+                  errors={customFieldErrors}
+                />
+              </div>
+            )}
+
             <div className="flex items-center justify-end space-x-4 pt-6 border-t">
               <Button
                 type="button"
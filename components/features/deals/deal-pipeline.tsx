@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import React, { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -9,9 +9,14 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { MoreHorizontal, DollarSign, Calendar, MapPin, Loader2, AlertCircle, Plus } from 'lucide-react'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { useDeals } from '@/hooks/use-deals'
+import { usePipelines } from '@/hooks/use-pipelines'
 import { createClient } from '@/lib/supabase/client'
+import { useToast } from '@/hooks/use-toast'
+import { findStage, getStageColorClasses, stageRequiresReason, type PipelineStage } from '@/lib/pipeline/stages'
 import { type Deal } from '@/lib/types'
+import { StageReasonDialog } from './stage-reason-dialog'
 
 interface ClientData {
   [key: string]: {
@@ -21,7 +26,7 @@ interface ClientData {
 }
 
 interface PipelineColumn {
-  status: Deal['status']
+  status: string
   title: string
   color: string
   deals: Deal[]
@@ -29,40 +34,26 @@ interface PipelineColumn {
 
 export function DealPipeline() {
   const router = useRouter()
-  const { deals, loading, error, updateDeal, deleteDeal } = useDeals()
+  const { deals, loading, error, moveDealStage, deleteDeal } = useDeals()
+  const { pipelines, getPipeline, loading: pipelinesLoading } = usePipelines()
+  const [selectedPipelineId, setSelectedPipelineId] = useState<string | null>(null)
   const [clients, setClients] = useState<ClientData>({})
   const [updatingDeal, setUpdatingDeal] = useState<string | null>(null)
   const [deleting, setDeleting] = useState<string | null>(null)
+  const [draggingDealId, setDraggingDealId] = useState<string | null>(null)
+  const [dragOverStatus, setDragOverStatus] = useState<string | null>(null)
+  const [pendingMove, setPendingMove] = useState<{ deal: Deal; stage: PipelineStage } | null>(null)
+  const { toast } = useToast()
 
   const supabase = createClient()
 
-  const columns: Omit<PipelineColumn, 'deals'>[] = [
-    {
-      status: 'Lead',
-      title: 'Leads',
-      color: 'bg-gray-100 border-gray-300'
-    },
-    {
-      status: 'In Progress',
-      title: 'In Progress',
-      color: 'bg-blue-100 border-blue-300'
-    },
-    {
-      status: 'Under Contract',
-      title: 'Under Contract',
-      color: 'bg-yellow-100 border-yellow-300'
-    },
-    {
-      status: 'Closed',
-      title: 'Closed',
-      color: 'bg-green-100 border-green-300'
-    },
-    {
-      status: 'Lost',
-      title: 'Lost',
-      color: 'bg-red-100 border-red-300'
-    }
-  ]
+  const pipeline = getPipeline(selectedPipelineId)
+
+  const columns: Omit<PipelineColumn, 'deals'>[] = pipeline.stages.map(stage => ({
+    status: stage.name,
+    title: stage.name,
+    color: getStageColorClasses(stage.color).column
+  }))
 
   useEffect(() => {
     const fetchClients = async () => {
@@ -96,22 +87,59 @@ export function DealPipeline() {
   }, [deals])
 
   const getPipelineColumns = (): PipelineColumn[] => {
+    const pipelineDeals = deals.filter(deal => getPipeline(deal.pipelineId).id === pipeline.id)
+
     return columns.map(column => ({
       ...column,
-      deals: deals.filter(deal => deal.status === column.status)
+      deals: pipelineDeals.filter(deal => findStage(pipeline.stages, deal.status)?.name === column.status)
     }))
   }
 
-  const handleStatusChange = async (dealId: string, newStatus: Deal['status']) => {
-    setUpdatingDeal(dealId)
-    const success = await updateDeal(dealId, { status: newStatus })
-    
-    if (!success) {
-      alert('Failed to update deal status. Please try again.')
+  const moveDeal = async (deal: Deal, stage: PipelineStage, reason?: string) => {
+    setUpdatingDeal(deal.id)
+    const result = await moveDealStage(deal.id, stage.name, reason)
+
+    if (!result.deal) {
+      toast({
+        title: `Couldn't move to ${stage.name}`,
+        description: result.error || 'Failed to update deal status. Please try again.',
+        variant: 'destructive',
+      })
     }
     setUpdatingDeal(null)
   }
 
+  // Entry point for both the dropdown and drag-and-drop; stages that need a reason ask for it first
+  const handleStatusChange = (deal: Deal, newStatus: string) => {
+    const stage = findStage(pipeline.stages, newStatus)
+    if (!stage || findStage(pipeline.stages, deal.status)?.id === stage.id) return
+
+    if (stageRequiresReason(stage)) {
+      setPendingMove({ deal, stage })
+      return
+    }
+    moveDeal(deal, stage)
+  }
+
+  const handleDragStart = (e: React.DragEvent, dealId: string) => {
+    e.dataTransfer.setData('text/plain', dealId)
+    e.dataTransfer.effectAllowed = 'move'
+    setDraggingDealId(dealId)
+  }
+
+  const handleDragEnd = () => {
+    setDraggingDealId(null)
+    setDragOverStatus(null)
+  }
+
+  const handleDrop = (e: React.DragEvent, status: string) => {
+    e.preventDefault()
+    const dealId = e.dataTransfer.getData('text/plain') || draggingDealId
+    const deal = deals.find(d => d.id === dealId)
+    handleDragEnd()
+    if (deal) handleStatusChange(deal, status)
+  }
+
   const handleViewDeal = (dealId: string) => {
     router.push(`/deal/${dealId}`)
   }
@@ -148,7 +176,7 @@ export function DealPipeline() {
     }).format(total)
   }
 
-  if (loading) {
+  if (loading || pipelinesLoading) {
     return (
       <div className="flex items-center justify-center py-12">
         <div className="flex items-center space-x-2">
@@ -172,10 +200,33 @@ export function DealPipeline() {
 
   const pipelineColumns = getPipelineColumns()
 
+  // Stage count varies per pipeline, so the desktop column template comes through a CSS variable
+  const gridStyle = {
+    '--pipeline-columns': `repeat(${pipelineColumns.length}, minmax(220px, 1fr))`
+  } as React.CSSProperties
+
   return (
     <div className="space-y-6">
+      {pipelines.length > 1 && (
+        <div className="flex items-center gap-3">
+          <span className="text-sm font-medium text-gray-700">Pipeline</span>
+          <Select value={pipeline.id} onValueChange={setSelectedPipelineId}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Select pipeline" />
+            </SelectTrigger>
+            <SelectContent>
+              {pipelines.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* Pipeline Summary */}
-      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+      <div className="grid grid-cols-1 gap-4 overflow-x-auto lg:[grid-template-columns:var(--pipeline-columns)]" style={gridStyle}>
         {pipelineColumns.map((column) => (
           <Card key={column.status} className={`${column.color} border-2`}>
             <CardHeader className="pb-2">
@@ -196,7 +247,7 @@ export function DealPipeline() {
       </div>
 
       {/* Pipeline Columns */}
-      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 min-h-screen">
+      <div className="grid grid-cols-1 gap-6 min-h-screen overflow-x-auto lg:[grid-template-columns:var(--pipeline-columns)]" style={gridStyle}>
         {pipelineColumns.map((column) => (
           <div key={column.status} className="space-y-4">
             <div className="flex items-center justify-between">
@@ -209,14 +260,28 @@ export function DealPipeline() {
               <Button
                 size="sm"
                 variant="outline"
-                onClick={() => router.push(`/deals/new?status=${column.status}`)}
+                onClick={() => router.push(`/deals/new?status=${encodeURIComponent(column.status)}&pipeline=${pipeline.id}`)}
                 className="h-6 w-6 p-0"
               >
                 <Plus className="h-3 w-3" />
               </Button>
             </div>
 
-            <div className={`min-h-[600px] ${column.color} border-2 border-dashed rounded-lg p-4 space-y-3`}>
+            <div
+              className={`min-h-[600px] ${column.color} border-2 border-dashed rounded-lg p-4 space-y-3 transition-shadow ${
+                dragOverStatus === column.status ? 'ring-2 ring-blue-500 ring-offset-2' : ''
+              }`}
+              onDragOver={(e) => {
+                if (!draggingDealId) return
+                e.preventDefault()
+                e.dataTransfer.dropEffect = 'move'
+                if (dragOverStatus !== column.status) setDragOverStatus(column.status)
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragOverStatus(null)
+              }}
+              onDrop={(e) => handleDrop(e, column.status)}
+            >
               {column.deals.length === 0 ? (
                 <div className="flex items-center justify-center h-32 text-gray-500 text-sm">
                   No deals in {column.title.toLowerCase()}
@@ -230,7 +295,12 @@ export function DealPipeline() {
                   return (
                     <Card 
                       key={deal.id} 
-                      className="bg-white shadow-sm hover:shadow-md transition-shadow cursor-pointer"
+                      className={`bg-white shadow-sm hover:shadow-md transition-shadow cursor-grab active:cursor-grabbing ${
+                        draggingDealId === deal.id ? 'opacity-50' : ''
+                      }`}
+                      draggable={!isUpdating && !isDeleting}
+                      onDragStart={(e) => handleDragStart(e, deal.id)}
+                      onDragEnd={handleDragEnd}
                       onClick={() => handleViewDeal(deal.id)}
                     >
                       <CardHeader className="pb-2">
@@ -269,13 +339,13 @@ export function DealPipeline() {
                                 Edit Deal
                               </DropdownMenuItem>
                               {columns
-                                .filter(col => col.status !== deal.status)
+                                .filter(col => findStage(pipeline.stages, deal.status)?.name !== col.status)
                                 .map(col => (
                                   <DropdownMenuItem 
                                     key={col.status}
                                     onClick={(e) => {
                                       e.stopPropagation()
-                                      handleStatusChange(deal.id, col.status)
+                                      handleStatusChange(deal, col.status)
                                     }}
                                   >
                                     Move to {col.title}
@@ -357,6 +427,17 @@ export function DealPipeline() {
           </div>
         ))}
       </div>
+
+      <StageReasonDialog
+        open={!!pendingMove}
+        stageName={pendingMove?.stage.name || ''}
+        dealTitle={pendingMove?.deal.title}
+        onCancel={() => setPendingMove(null)}
+        onConfirm={(reason) => {
+          if (pendingMove) moveDeal(pendingMove.deal, pendingMove.stage, reason)
+          setPendingMove(null)
+        }}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -2,7 +2,7 @@
 
 import { useState } from "react"
 import { useRouter } from "next/navigation"
-import { Search, Plus, Filter, TrendingUp, Calendar, DollarSign, Home, X, Download } from "lucide-react"
+import { Search, Plus, Filter, TrendingUp, Calendar, DollarSign, Home, X, Download, Upload } from "lucide-react"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { SidebarTrigger } from "@/components/ui/sidebar"
@@ -12,11 +12,17 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Calendar as CalendarComponent } from "@/components/ui/calendar"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
+import { usePipelines } from "@/hooks/use-pipelines"
+import { CsvImportDialog } from "@/components/shared/csv-import-dialog"
+import { CustomFieldFilters, countCustomFieldFilters } from "@/components/shared/custom-field-filters"
+import { useCustomFields } from "@/hooks/use-custom-fields"
+import { getCustomFieldFilterParams, type CustomFieldFilter } from "@/lib/custom-fields/fields"
 
 interface DealsHeaderProps {
   onSearchChange: (search: string) => void
   onStatusChange: (status: string) => void
   onFiltersChange: (filters: DealFilters) => void
+  onImported?: () => void
 }
 
 interface DealFilters {
@@ -28,27 +34,27 @@ interface DealFilters {
     from: Date | undefined
     to: Date | undefined
   }
+  customFields: CustomFieldFilter[]
 }
 
-export function DealsHeader({ onSearchChange, onStatusChange, onFiltersChange }: DealsHeaderProps) {
+export function DealsHeader({ onSearchChange, onStatusChange, onFiltersChange, onImported }: DealsHeaderProps) {
   const router = useRouter()
+  const { allStages } = usePipelines()
+  const { fields: customFields } = useCustomFields('deals')
   const [searchValue, setSearchValue] = useState('')
   const [filters, setFilters] = useState<DealFilters>({
     status: '',
     propertyType: '',
     minValue: '',
     maxValue: '',
-    dateRange: { from: undefined, to: undefined }
+    dateRange: { from: undefined, to: undefined },
+    customFields: []
   })
   const [showFilters, setShowFilters] = useState(false)
 
   const statusOptions = [
     { value: '', label: 'All Statuses' },
-    { value: 'Lead', label: 'Lead' },
-    { value: 'In Progress', label: 'In Progress' },
-    { value: 'Under Contract', label: 'Under Contract' },
-    { value: 'Closed', label: 'Closed' },
-    { value: 'Lost', label: 'Lost' }
+    ...allStages.map(stage => ({ value: stage.name, label: stage.name }))
   ]
 
   const propertyTypes = [
@@ -85,7 +91,8 @@ export function DealsHeader({ onSearchChange, onStatusChange, onFiltersChange }:
       propertyType: '',
       minValue: '',
       maxValue: '',
-      dateRange: { from: undefined, to: undefined }
+      dateRange: { from: undefined, to: undefined },
+      customFields: []
     }
     setFilters(emptyFilters)
     onStatusChange('')
@@ -98,6 +105,7 @@ export function DealsHeader({ onSearchChange, onStatusChange, onFiltersChange }:
     if (filters.propertyType) count++
     if (filters.minValue || filters.maxValue) count++
     if (filters.dateRange.from || filters.dateRange.to) count++
+    count += countCustomFieldFilters(filters.customFields)
     return count
   }
 
@@ -120,6 +128,7 @@ export function DealsHeader({ onSearchChange, onStatusChange, onFiltersChange }:
       if (filters.maxValue) queryParams.append('max_value', filters.maxValue)
       if (filters.dateRange.from) queryParams.append('date_from', filters.dateRange.from.toISOString())
       if (filters.dateRange.to) queryParams.append('date_to', filters.dateRange.to.toISOString())
+      getCustomFieldFilterParams(filters.customFields).forEach(([name, value]) => queryParams.append(name, value))
       
       const response = await fetch(`/api/deals/export?${queryParams.toString()}`)
       
@@ -283,10 +292,28 @@ export function DealsHeader({ onSearchChange, onStatusChange, onFiltersChange }:
                       </PopoverContent>
                     </Popover>
                   </div>
+
+                  {/* Custom Field Filters */}
+                  <CustomFieldFilters
+                    fields={customFields}
+                    filters={filters.customFields}
+                    onChange={(customFieldFilters) => handleFilterChange('customFields', customFieldFilters)}
+                  />
                 </div>
               </PopoverContent>
             </Popover>
 
+            <CsvImportDialog
+              entity="deals"
+              onImported={onImported}
+              trigger={
+                <Button variant="outline" size="sm">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+              }
+            />
+
             <Button variant="outline" size="sm" onClick={handleExport}>
               <Download className="h-4 w-4 mr-2" />
               Export
@@ -352,6 +379,16 @@ export function DealsHeader({ onSearchChange, onStatusChange, onFiltersChange }:
                 />
               </Badge>
             )}
+            {filters.customFields.map(filter => (
+              <Badge key={filter.key} variant="secondary" className="flex items-center gap-1">
+                {customFields.find(field => field.key === filter.key)?.label || filter.key}:{' '}
+                {filter.value || `${filter.min || '…'} - ${filter.max || '…'}`}
+                <X
+                  className="h-3 w-3 cursor-pointer"
+                  onClick={() => handleFilterChange('customFields', filters.customFields.filter(item => item.key !== filter.key))}
+                />
+              </Badge>
+            ))}
           </div>
         </div>
       )}
@@ -11,6 +11,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { MoreHorizontal, DollarSign, Calendar, MapPin, Loader2, AlertCircle } from "lucide-react"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { useDeals } from "@/hooks/use-deals"
+import { useCustomFields } from "@/hooks/use-custom-fields"
+import type { CustomFieldFilter } from "@/lib/custom-fields/fields"
 import { createClient } from '@/lib/supabase/client'
 
 interface DealFilters {
@@ -22,6 +24,7 @@ interface DealFilters {
     from: Date | undefined
     to: Date | undefined
   }
+  customFields?: CustomFieldFilter[]
 }
 
 interface DealsListProps {
@@ -39,13 +42,17 @@ interface ClientData {
 
 export function DealsList({ search, status, filters }: DealsListProps) {
   const router = useRouter()
+  const { fields: customFields } = useCustomFields('deals')
   const { deals, loading, error, deleteDeal } = useDeals({ 
     search, 
     status,
     propertyType: filters?.propertyType,
     minValue: filters?.minValue,
     maxValue: filters?.maxValue,
-    dateRange: filters?.dateRange
+    dateRange: filters?.dateRange,
+    customFieldFilters: filters?.customFields?.length
+      ? { fields: customFields, filters: filters.customFields }
+      : undefined
   })
   const [clients, setClients] = useState<ClientData>({})
   const [deleting, setDeleting] = useState<string | null>(null)
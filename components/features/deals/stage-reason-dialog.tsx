@@ -0,0 +1,65 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+
+interface StageReasonDialogProps {
+  open: boolean
+  stageName: string
+  dealTitle?: string
+  onConfirm: (reason: string) => void
+  onCancel: () => void
+}
+
+// Asked before a move into a stage that requires a reason (lost stages, or stages configured with requires_reason)
+export function StageReasonDialog({ open, stageName, dealTitle, onConfirm, onCancel }: StageReasonDialogProps) {
+  const [reason, setReason] = useState('')
+
+  useEffect(() => {
+    if (open) setReason('')
+  }, [open])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!reason.trim()) return
+    onConfirm(reason.trim())
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Move to {stageName}</DialogTitle>
+            <DialogDescription>
+              {dealTitle ? `Why is "${dealTitle}" moving to ${stageName}?` : `A reason is required to move this deal to ${stageName}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="stage-change-reason">Reason</Label>
+            <Textarea
+              id="stage-change-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Client chose another agent, financing fell through"
+              maxLength={500}
+              rows={3}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!reason.trim()}>
+              Move Deal
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
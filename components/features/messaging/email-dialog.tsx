@@ -6,20 +6,24 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Mail, Send, Loader2, CheckCircle, AlertCircle, FileText, Sparkles } from "lucide-react"
 import { useEmail } from "@/hooks/use-email"
+import { getRelatedClientName, type HouseholdWithMembers } from "@/lib/clients/relationships"
 
 interface EmailDialogProps {
   trigger?: React.ReactNode
   clientId?: string
   clientName?: string
   clientEmail?: string
+  // Offers copying everyone else in the client's household
+  household?: HouseholdWithMembers | null
 }
 
-export function EmailDialog({ trigger, clientId, clientName, clientEmail }: EmailDialogProps) {
+export function EmailDialog({ trigger, clientId, clientName, clientEmail, household }: EmailDialogProps) {
   const [open, setOpen] = useState(false)
   const [email, setEmail] = useState(clientEmail || '')
   const [subject, setSubject] = useState('')
@@ -28,6 +32,9 @@ export function EmailDialog({ trigger, clientId, clientName, clientEmail }: Emai
   const [selectedTemplate, setSelectedTemplate] = useState<string>('')
   const [templates, setTemplates] = useState<any[]>([])
   const [activeTab, setActiveTab] = useState('compose')
+  const [includeHousehold, setIncludeHousehold] = useState(false)
+
+  const otherHouseholdMembers = (household?.members || []).filter(member => member.id !== clientId && member.email)
   
   const { sendEmail, getEmailTemplates, processTemplate, loading, error } = useEmail()
 
@@ -67,7 +74,8 @@ export function EmailDialog({ trigger, clientId, clientName, clientEmail }: Emai
       subject: subject.trim(),
       message: message.trim(),
       clientId,
-      templateId: selectedTemplate || undefined
+      templateId: selectedTemplate || undefined,
+      includeHousehold: includeHousehold && otherHouseholdMembers.length > 0
     })
 
     if (success) {
@@ -200,6 +208,19 @@ export function EmailDialog({ trigger, clientId, clientName, clientEmail }: Emai
                   )}
                 </div>
 
+                {household && otherHouseholdMembers.length > 0 && (
+                  <div className="flex items-start space-x-2">
+                    <Checkbox
+                      id="includeHousehold"
+                      checked={includeHousehold}
+                      onCheckedChange={(checked) => setIncludeHousehold(checked === true)}
+                    />
+                    <Label htmlFor="includeHousehold" className="font-normal leading-snug">
+                      Send to the whole household ({otherHouseholdMembers.map(member => getRelatedClientName(member)).join(', ')})
+                    </Label>
+                  </div>
+                )}
+
                 <div>
                   <Label htmlFor="subject">Subject</Label>
                   <Input
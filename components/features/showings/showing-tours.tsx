@@ -0,0 +1,380 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { CalendarClock, Copy, Link2, Loader2, MapPin, Phone, Plus, Trash2, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useShowings } from "@/hooks/use-showings"
+import {
+  DEFAULT_SHOWING_MINUTES,
+  MAX_TOUR_STOPS,
+  SHOWING_CONFIRMATIONS,
+  canRequestFeedback,
+  formatShowingWindow,
+  getInterestLevelLabel,
+  getPriceOpinionLabel,
+  getShowingConfirmation,
+  type Showing,
+  type ShowingConfirmation,
+  type ShowingStopInput
+} from "@/lib/showings/schedule"
+
+interface ShowingToursProps {
+  clientId: string
+  dealId?: string
+}
+
+interface StopFormState {
+  address: string
+  date: string
+  startTime: string
+  endTime: string
+  listingPrice: string
+  agentName: string
+  agentEmail: string
+  agentPhone: string
+}
+
+function addMinutes(time: string, minutes: number): string {
+  const [hours, mins] = time.split(':').map(Number)
+  const total = Math.min(hours * 60 + mins + minutes, 23 * 60 + 59)
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`
+}
+
+// A new stop picks up where the previous one ends
+function nextStop(previous?: StopFormState): StopFormState {
+  const startTime = previous ? previous.endTime : '10:00'
+  return {
+    address: '',
+    date: previous?.date || new Date().toISOString().split('T')[0],
+    startTime,
+    endTime: addMinutes(startTime, DEFAULT_SHOWING_MINUTES),
+    listingPrice: '',
+    agentName: '',
+    agentEmail: '',
+    agentPhone: ''
+  }
+}
+
+function toStopInput(stop: StopFormState): ShowingStopInput {
+  return {
+    property_address: stop.address,
+    listing_price: stop.listingPrice.trim() === '' ? null : Number(stop.listingPrice),
+    listing_agent_name: stop.agentName.trim() || null,
+    listing_agent_email: stop.agentEmail.trim() || null,
+    listing_agent_phone: stop.agentPhone.trim() || null,
+    start_time: new Date(`${stop.date}T${stop.startTime}`).toISOString(),
+    end_time: new Date(`${stop.date}T${stop.endTime}`).toISOString()
+  }
+}
+
+/**
+ * Property showings for a buyer, grouped into tours, with the listing agent's
+ * confirmation and the buyer's feedback for each stop
+ */
+export function ShowingTours({ clientId, dealId }: ShowingToursProps) {
+  const { tours, loading, error, createTour, updateShowing, deleteShowing, createFeedbackLink } = useShowings({ clientId, dealId })
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [stops, setStops] = useState<StopFormState[]>([nextStop()])
+  const [saving, setSaving] = useState(false)
+  const [linkingId, setLinkingId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const openCreate = () => {
+    setStops([nextStop()])
+    setDialogOpen(true)
+  }
+
+  const updateStop = (index: number, changes: Partial<StopFormState>) => {
+    setStops(prev => prev.map((stop, i) => {
+      if (i !== index) return stop
+      const updated = { ...stop, ...changes }
+      // Keep the showing length when the start moves
+      if (changes.startTime) updated.endTime = addMinutes(changes.startTime, DEFAULT_SHOWING_MINUTES)
+      return updated
+    }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    const saved = await createTour(stops.map(toStopInput))
+    setSaving(false)
+    if (saved) {
+      setDialogOpen(false)
+      toast({ title: stops.length > 1 ? `Tour of ${stops.length} properties scheduled` : 'Showing scheduled' })
+    }
+  }
+
+  const handleCancel = async (showing: Showing) => {
+    if (!confirm(`Cancel the showing at ${showing.property_address}?`)) return
+    await updateShowing(showing.id, { status: 'cancelled' })
+  }
+
+  const handleDelete = async (showing: Showing) => {
+    if (!confirm(`Remove the showing at ${showing.property_address}? This can't be undone.`)) return
+    await deleteShowing(showing.id)
+  }
+
+  const handleFeedbackLink = async (showing: Showing) => {
+    setLinkingId(showing.id)
+    const url = await createFeedbackLink(showing.id)
+    setLinkingId(null)
+    if (!url) return
+
+    try {
+      await navigator.clipboard.writeText(url)
+      toast({ title: 'Feedback link copied', description: 'Send it to your buyer to hear what they thought.' })
+    } catch {
+      toast({ title: 'Could not copy link', description: url, variant: 'destructive' })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Showings
+          </CardTitle>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-blue-600 border-blue-600 hover:bg-blue-600 hover:text-white"
+            onClick={openCreate}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Schedule Tour
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && !dialogOpen && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : tours.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No showings yet. Schedule a tour to line up one or more properties for this buyer.
+          </p>
+        ) : (
+          tours.map(tour => (
+            <div key={tour.tour_id} className="border rounded-lg">
+              <div className="px-3 py-2 border-b bg-gray-50 text-sm font-medium">
+                {formatShowingWindow(tour.start_time, tour.end_time)}
+                {tour.stops.length > 1 && (
+                  <span className="text-gray-500 font-normal"> · {tour.stops.length} stops</span>
+                )}
+              </div>
+              <div className="divide-y">
+                {tour.stops.map((showing, index) => {
+                  const confirmation = getShowingConfirmation(showing.confirmation_status)
+                  const cancelled = showing.status === 'cancelled'
+                  return (
+                    <div key={showing.id} className={`p-3 space-y-2 ${cancelled ? 'opacity-60' : ''}`}>
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className={`font-medium flex items-center gap-1 ${cancelled ? 'line-through' : ''}`}>
+                            <MapPin className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                            <span className="truncate">{index + 1}. {showing.property_address}</span>
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatShowingWindow(showing.start_time, showing.end_time)}
+                            {showing.listing_price !== null && ` · $${showing.listing_price.toLocaleString()}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          {cancelled ? (
+                            <Badge variant="secondary">Cancelled</Badge>
+                          ) : showing.status === 'completed' ? (
+                            <Badge variant="secondary">Completed</Badge>
+                          ) : (
+                            <Select
+                              value={showing.confirmation_status}
+                              onValueChange={value => updateShowing(showing.id, { confirmation_status: value as ShowingConfirmation })}
+                            >
+                              <SelectTrigger className={`h-7 w-[170px] text-xs ${confirmation.color}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {SHOWING_CONFIRMATIONS.map(option => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          {!cancelled && showing.status === 'scheduled' && (
+                            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleCancel(showing)} aria-label="Cancel showing">
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleDelete(showing)} aria-label="Remove showing">
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </div>
+                      </div>
+
+                      {(showing.listing_agent_name || showing.listing_agent_phone || showing.listing_agent_email) && (
+                        <p className="text-xs text-gray-600 flex items-center gap-1">
+                          <Phone className="h-3 w-3" />
+                          Listing agent: {[showing.listing_agent_name, showing.listing_agent_phone, showing.listing_agent_email].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+
+                      {showing.feedback ? (
+                        <div className="rounded bg-blue-50 border border-blue-100 p-2 text-sm space-y-1">
+                          <div className="flex flex-wrap gap-1">
+                            <Badge variant="outline" className="bg-white">{getInterestLevelLabel(showing.feedback.interest_level)}</Badge>
+                            <Badge variant="outline" className="bg-white">{getPriceOpinionLabel(showing.feedback.price_opinion)}</Badge>
+                          </div>
+                          {showing.feedback.comments && (
+                            <p className="text-gray-700">&ldquo;{showing.feedback.comments}&rdquo;</p>
+                          )}
+                        </div>
+                      ) : canRequestFeedback(showing) && (
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-xs text-gray-500">
+                            {showing.feedback_requested_at
+                              ? `Feedback requested ${new Date(showing.feedback_requested_at).toLocaleDateString()}`
+                              : 'No feedback yet'}
+                          </p>
+                          <Button size="sm" variant="outline" className="h-7" onClick={() => handleFeedbackLink(showing)} disabled={linkingId === showing.id}>
+                            {linkingId === showing.id
+                              ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                              : showing.feedback_requested_at ? <Copy className="h-3 w-3 mr-1" /> : <Link2 className="h-3 w-3 mr-1" />}
+                            {showing.feedback_requested_at ? 'New Link' : 'Feedback Link'}
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Schedule Tour</DialogTitle>
+            <DialogDescription>
+              Add each property in visiting order. Times can&apos;t overlap, and each showing stays pending until the listing agent confirms.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {stops.map((stop, index) => (
+              <div key={index} className="border rounded-lg p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">Stop {index + 1}</p>
+                  {stops.length > 1 && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={() => setStops(prev => prev.filter((_, i) => i !== index))}
+                      aria-label="Remove stop"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor={`stop-address-${index}`}>Property Address</Label>
+                  <Input
+                    id={`stop-address-${index}`}
+                    placeholder="123 Main St, Austin, TX"
+                    value={stop.address}
+                    onChange={e => updateStop(index, { address: e.target.value })}
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor={`stop-date-${index}`}>Date</Label>
+                    <Input id={`stop-date-${index}`} type="date" value={stop.date}
+                      onChange={e => updateStop(index, { date: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`stop-start-${index}`}>Start</Label>
+                    <Input id={`stop-start-${index}`} type="time" value={stop.startTime}
+                      onChange={e => updateStop(index, { startTime: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`stop-end-${index}`}>End</Label>
+                    <Input id={`stop-end-${index}`} type="time" value={stop.endTime}
+                      onChange={e => updateStop(index, { endTime: e.target.value })} />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor={`stop-price-${index}`}>List Price</Label>
+                    <Input id={`stop-price-${index}`} type="number" min={0} value={stop.listingPrice}
+                      onChange={e => updateStop(index, { listingPrice: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`stop-agent-${index}`}>Listing Agent</Label>
+                    <Input id={`stop-agent-${index}`} value={stop.agentName}
+                      onChange={e => updateStop(index, { agentName: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`stop-agent-phone-${index}`}>Agent Phone</Label>
+                    <Input id={`stop-agent-phone-${index}`} type="tel" value={stop.agentPhone}
+                      onChange={e => updateStop(index, { agentPhone: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`stop-agent-email-${index}`}>Agent Email</Label>
+                    <Input id={`stop-agent-email-${index}`} type="email" value={stop.agentEmail}
+                      onChange={e => updateStop(index, { agentEmail: e.target.value })} />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            {stops.length < MAX_TOUR_STOPS && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => setStops(prev => [...prev, nextStop(prev[prev.length - 1])])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Another Property
+              </Button>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving || stops.some(stop => !stop.address.trim())}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {stops.length > 1 ? `Schedule ${stops.length} Showings` : 'Schedule Showing'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -1,12 +1,13 @@
 "use client"
 
 import { useRouter } from "next/navigation"
-import { Search, Plus, Filter, Calendar } from "lucide-react"
+import { Search, Plus, Filter, Calendar, Upload } from "lucide-react"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { SidebarTrigger } from "@/components/ui/sidebar"
 import { GlobalSearch } from "@/components/shared/global-search"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { CsvImportDialog } from "@/components/shared/csv-import-dialog"
 
 interface TasksHeaderProps {
   onSearchChange?: (search: string) => void
@@ -14,6 +15,7 @@ interface TasksHeaderProps {
   onPriorityChange?: (priority: string) => void
   onDueSoonChange?: (dueSoon: boolean) => void
   onOverdueChange?: (overdue: boolean) => void
+  onImported?: () => void
   currentSearch?: string
   currentStatus?: string
   currentPriority?: string
@@ -27,6 +29,7 @@ export function TasksHeader({
   onPriorityChange = () => {},
   onDueSoonChange = () => {},
   onOverdueChange = () => {},
+  onImported,
   currentSearch = '',
   currentStatus = '',
   currentPriority = '',
@@ -104,6 +107,17 @@ export function TasksHeader({
               Due Soon
             </Button>
 
+            <CsvImportDialog
+              entity="tasks"
+              onImported={onImported}
+              trigger={
+                <Button variant="outline" size="sm">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+              }
+            />
+
             <Button 
               className="bg-dealvize-teal hover:bg-dealvize-teal-dark text-white"
               onClick={() => router.push('/tasks/new')}
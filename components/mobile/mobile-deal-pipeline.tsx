@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useState, useEffect, useMemo, useRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -21,10 +21,14 @@ import {
   TrendingUp,
   Clock,
   Target,
-  CheckCircle2
+  CheckCircle2,
+  GripVertical
 } from 'lucide-react'
 import Link from 'next/link'
 import { cn } from '@/lib/utils'
+import { useToast } from '@/hooks/use-toast'
+import { findStage, stageRequiresReason, type PipelineDefinition, type StageCategory } from '@/lib/pipeline/stages'
+import { StageReasonDialog } from '@/components/features/deals/stage-reason-dialog'
 
 interface Deal {
   id: string
@@ -51,7 +55,9 @@ interface Deal {
 interface Stage {
   id: string
   name: string
+  category: StageCategory
   color: string
+  requiresReason: boolean
   deals: Deal[]
   totalValue: number
   averageProbability: number
@@ -60,7 +66,8 @@ interface Stage {
 interface MobileDealPipelineProps {
   stages: Stage[]
   onDealSelect?: (deal: Deal) => void
-  onStageChange?: (dealId: string, newStage: string) => void
+  // Resolve with an error to roll the optimistic move back
+  onStageChange?: (dealId: string, newStage: string, reason?: string) => Promise<{ error?: string } | void> | void
 }
 
 const priorityColors = {
@@ -69,19 +76,115 @@ const priorityColors = {
   low: 'bg-green-100 text-green-800 border-green-200'
 }
 
-const stageIcons = {
-  'initial_contact': User,
-  'qualification': Target,
-  'proposal': Building2,
-  'negotiation': TrendingUp,
-  'closed_won': CheckCircle2,
-  'closed_lost': Clock
+const categoryIcons: Record<StageCategory, typeof Building2> = {
+  open: TrendingUp,
+  won: CheckCircle2,
+  lost: Clock
 }
 
-export function MobileDealPipeline({ stages, onDealSelect, onStageChange }: MobileDealPipelineProps) {
-  const [selectedStage, setSelectedStage] = useState<string>(stages[0]?.id || '')
+/**
+ * Group deals into the stages of a pipeline definition, in stage order
+ */
+export function buildMobileStages(pipeline: PipelineDefinition, deals: Deal[]): Stage[] {
+  return pipeline.stages.map(stage => {
+    const stageDeals = deals.filter(deal => findStage(pipeline.stages, deal.stage || deal.status)?.id === stage.id)
+    const totalValue = stageDeals.reduce((sum, deal) => sum + deal.value, 0)
+    const averageProbability = stageDeals.length > 0
+      ? stageDeals.reduce((sum, deal) => sum + deal.probability, 0) / stageDeals.length
+      : stage.probability
+
+    return {
+      id: stage.id,
+      name: stage.name,
+      category: stage.category,
+      color: stage.color,
+      requiresReason: stageRequiresReason(stage),
+      deals: stageDeals,
+      totalValue,
+      averageProbability
+    }
+  })
+}
+
+export function MobileDealPipeline({ stages: stagesProp, onDealSelect, onStageChange }: MobileDealPipelineProps) {
+  const [selectedStage, setSelectedStage] = useState<string>(stagesProp[0]?.id || '')
   const [showFilters, setShowFilters] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
+  // dealId -> stageId for moves still waiting on onStageChange
+  const [optimisticMoves, setOptimisticMoves] = useState<Record<string, string>>({})
+  const [draggingDealId, setDraggingDealId] = useState<string | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+  const [pendingMove, setPendingMove] = useState<{ deal: Deal; stage: Stage } | null>(null)
+  const dropTargetRef = useRef<string | null>(null)
+  const { toast } = useToast()
+
+  // Fresh props from the parent already reflect any confirmed move
+  useEffect(() => {
+    setOptimisticMoves({})
+  }, [stagesProp])
+
+  const stages = useMemo(() => {
+    const moved = Object.keys(optimisticMoves)
+    if (moved.length === 0) return stagesProp
+
+    const allDeals = stagesProp.flatMap(stage => stage.deals)
+    return stagesProp.map(stage => {
+      const deals = allDeals.filter(deal =>
+        optimisticMoves[deal.id]
+          ? optimisticMoves[deal.id] === stage.id
+          : stage.deals.some(d => d.id === deal.id)
+      )
+      return { ...stage, deals, totalValue: deals.reduce((sum, deal) => sum + deal.value, 0) }
+    })
+  }, [stagesProp, optimisticMoves])
+
+  const applyMove = async (deal: Deal, stage: Stage, reason?: string) => {
+    setOptimisticMoves(prev => ({ ...prev, [deal.id]: stage.id }))
+
+    const result = await onStageChange?.(deal.id, stage.name, reason)
+    if (result && result.error) {
+      setOptimisticMoves(prev => {
+        const { [deal.id]: _, ...rest } = prev
+        return rest
+      })
+      toast({
+        title: `Couldn't move to ${stage.name}`,
+        description: result.error,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const requestMove = (deal: Deal, stageId: string) => {
+    const stage = stages.find(s => s.id === stageId)
+    if (!stage || stage.deals.some(d => d.id === deal.id)) return
+
+    if (stage.requiresReason) {
+      setPendingMove({ deal, stage })
+      return
+    }
+    applyMove(deal, stage)
+  }
+
+  // Touch drag starts from the grip handle (touch-action: none) so list scrolling is unaffected;
+  // drop targets are any element tagged with data-stage-drop
+  const handleTouchMove = (e: React.TouchEvent) => {
+    const touch = e.touches[0]
+    const target = document
+      .elementFromPoint(touch.clientX, touch.clientY)
+      ?.closest<HTMLElement>('[data-stage-drop]')
+    const stageId = target?.dataset.stageDrop || null
+    dropTargetRef.current = stageId
+    setDropTargetId(stageId)
+  }
+
+  const handleTouchEnd = (deal: Deal) => {
+    const stageId = dropTargetRef.current
+    dropTargetRef.current = null
+    setDraggingDealId(null)
+    setDropTargetId(null)
+    if (stageId) requestMove(deal, stageId)
+  }
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -135,16 +238,18 @@ export function MobileDealPipeline({ stages, onDealSelect, onStageChange }: Mobi
         {/* Stage Selector */}
         <div className="flex space-x-2 overflow-x-auto pb-2">
           {stages.map((stage) => {
-            const Icon = stageIcons[stage.id as keyof typeof stageIcons] || Building2
+            const Icon = categoryIcons[stage.category] || Target
             return (
               <button
                 key={stage.id}
+                data-stage-drop={stage.id}
                 onClick={() => setSelectedStage(stage.id)}
                 className={cn(
                   'flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium whitespace-nowrap border',
                   selectedStage === stage.id
                     ? 'bg-blue-600 text-white border-blue-600'
-                    : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                    : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50',
+                  dropTargetId === stage.id && 'ring-2 ring-blue-500 ring-offset-1'
                 )}
               >
                 <Icon className="h-4 w-4" />
@@ -209,7 +314,10 @@ export function MobileDealPipeline({ stages, onDealSelect, onStageChange }: Mobi
             currentStage?.deals.map((deal) => (
               <Card 
                 key={deal.id} 
-                className="cursor-pointer hover:shadow-md transition-shadow"
+                className={cn(
+                  'cursor-pointer hover:shadow-md transition-shadow',
+                  draggingDealId === deal.id && 'opacity-60 shadow-lg ring-2 ring-blue-300'
+                )}
                 onClick={() => onDealSelect?.(deal)}
               >
                 <CardContent className="p-4">
@@ -220,9 +328,28 @@ export function MobileDealPipeline({ stages, onDealSelect, onStageChange }: Mobi
                         <h3 className="font-medium text-gray-900 truncate">{deal.title}</h3>
                         <p className="text-sm text-gray-600 line-clamp-2">{deal.description}</p>
                       </div>
-                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0 ml-2">
-                        <MoreVertical className="h-3 w-3" />
-                      </Button>
+                      <div className="flex items-center ml-2">
+                        {onStageChange && (
+                          <div
+                            className="h-8 w-8 flex items-center justify-center text-gray-400 touch-none"
+                            aria-label="Drag to another stage"
+                            onClick={(e) => e.stopPropagation()}
+                            onTouchStart={() => setDraggingDealId(deal.id)}
+                            onTouchMove={handleTouchMove}
+                            onTouchEnd={() => handleTouchEnd(deal)}
+                            onTouchCancel={() => {
+                              dropTargetRef.current = null
+                              setDraggingDealId(null)
+                              setDropTargetId(null)
+                            }}
+                          >
+                            <GripVertical className="h-4 w-4" />
+                          </div>
+                        )}
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                          <MoreVertical className="h-3 w-3" />
+                        </Button>
+                      </div>
                     </div>
 
                     {/* Deal Value and Probability */}
@@ -313,8 +440,8 @@ export function MobileDealPipeline({ stages, onDealSelect, onStageChange }: Mobi
         </div>
       </ScrollArea>
 
-      {/* Stage Change Actions */}
-      {currentStage && currentStage.deals.length > 0 && (
+      {/* Stage Drop Targets - shown while a deal is being dragged */}
+      {draggingDealId && (
         <div className="fixed bottom-20 left-4 right-4 lg:hidden">
           <div className="bg-white border border-gray-200 rounded-lg shadow-lg p-3">
             <div className="flex space-x-2 overflow-x-auto">
@@ -323,11 +450,9 @@ export function MobileDealPipeline({ stages, onDealSelect, onStageChange }: Mobi
                 .map((stage) => (
                   <Button
                     key={stage.id}
-                    variant="outline"
+                    data-stage-drop={stage.id}
+                    variant={dropTargetId === stage.id ? 'default' : 'outline'}
                     size="sm"
-                    onClick={() => {
-                      // Handle stage change for selected deals
-                    }}
                     className="whitespace-nowrap"
                   >
                     Move to {stage.name}
@@ -338,6 +463,17 @@ export function MobileDealPipeline({ stages, onDealSelect, onStageChange }: Mobi
           </div>
         </div>
       )}
+
+      <StageReasonDialog
+        open={!!pendingMove}
+        stageName={pendingMove?.stage.name || ''}
+        dealTitle={pendingMove?.deal.title}
+        onCancel={() => setPendingMove(null)}
+        onConfirm={(reason) => {
+          if (pendingMove) applyMove(pendingMove.deal, pendingMove.stage, reason)
+          setPendingMove(null)
+        }}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -6,7 +6,7 @@
  */
 
 import { useState, useEffect } from 'react'
-import { useForm } from 'react-hook-form'
+import { useFieldArray, useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -18,7 +18,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { Calculator, Save, RefreshCw } from 'lucide-react'
+import { Calculator, Save, RefreshCw, Plus, Trash2 } from 'lucide-react'
 import { CommissionSettingsSchema, COMMISSION_STRUCTURE_OPTIONS, SUPPORTED_CURRENCIES, type CommissionSettings } from '@/lib/validations/commission'
 import { useRBAC } from '@/lib/rbac/context'
 import { toast } from 'sonner'
@@ -43,10 +43,25 @@ export function CommissionForm({ userId, onSuccess }: CommissionFormProps) {
       commissionStructure: 'flat',
       customRates: {},
       currency: 'USD',
-      notes: ''
+      notes: '',
+      tiers: [],
+      annualCap: null,
+      anniversaryDate: null,
+      transactionFee: 0,
+      royaltyPercentage: 0,
+      royaltyCap: null
     }
   })
 
+  const { fields: tierFields, append: appendTier, remove: removeTier } = useFieldArray({
+    control: form.control,
+    name: 'tiers'
+  })
+  const commissionStructure = form.watch('commissionStructure')
+
+  // Blank numeric inputs clear optional plan amounts rather than sending NaN
+  const optionalNumber = (value: string) => value === '' ? null : parseFloat(value)
+
   // Load existing commission settings
   useEffect(() => {
     loadCommissionSettings()
@@ -70,7 +85,13 @@ export function CommissionForm({ userId, onSuccess }: CommissionFormProps) {
             customRates: settings.customRates || {},
             currency: settings.currency,
             effectiveDate: settings.effectiveDate,
-            notes: settings.notes || ''
+            notes: settings.notes || '',
+            tiers: settings.tiers || [],
+            annualCap: settings.annualCap ?? null,
+            anniversaryDate: settings.anniversaryDate ?? null,
+            transactionFee: settings.transactionFee ?? 0,
+            royaltyPercentage: settings.royaltyPercentage ?? 0,
+            royaltyCap: settings.royaltyCap ?? null
           })
           setIsEditing(true)
         }
@@ -158,7 +179,13 @@ export function CommissionForm({ userId, onSuccess }: CommissionFormProps) {
       commissionStructure: 'flat',
       customRates: {},
       currency: 'USD',
-      notes: ''
+      notes: '',
+      tiers: [],
+      annualCap: null,
+      anniversaryDate: null,
+      transactionFee: 0,
+      royaltyPercentage: 0,
+      royaltyCap: null
     })
     setCalculationResult(null)
     setIsEditing(false)
@@ -279,6 +306,211 @@ export function CommissionForm({ userId, onSuccess }: CommissionFormProps) {
               )}
             />
 
+            {/* GCI Tiers */}
+            {commissionStructure !== 'flat' && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label>GCI Tiers</Label>
+                    <p className="text-sm text-gray-500">
+                      Your split once year-to-date GCI reaches each threshold
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      const tiers = form.getValues('tiers') || []
+                      const last = tiers[tiers.length - 1]
+                      appendTier({
+                        threshold: last ? last.threshold + 50000 : 0,
+                        rate: last ? last.rate : 100 - form.getValues('brokerSplitPercentage'),
+                        label: `Tier ${tiers.length + 1}`
+                      })
+                    }}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Tier
+                  </Button>
+                </div>
+
+                {tierFields.map((tier, index) => (
+                  <div key={tier.id} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-start">
+                    <FormField
+                      control={form.control}
+                      name={`tiers.${index}.label`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="Label" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`tiers.${index}.threshold`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="0"
+                              placeholder="From GCI"
+                              {...field}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`tiers.${index}.rate`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="0"
+                              max="100"
+                              placeholder="Your split %"
+                              {...field}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => removeTier(index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {form.formState.errors.tiers?.root?.message && (
+                  <p className="text-sm font-medium text-destructive">{form.formState.errors.tiers.root.message}</p>
+                )}
+              </div>
+            )}
+
+            {/* Cap and Fees */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="annualCap"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Annual Cap</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="No cap"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(optionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Most you pay the broker per cap year
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="anniversaryDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Anniversary Date</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value || null)}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Your cap and tiers reset on this date each year
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="transactionFee"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Transaction Fee</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="0.00"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(optionalNumber(e.target.value) ?? 0)}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Flat fee charged on every closed transaction
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-2">
+                <FormField
+                  control={form.control}
+                  name="royaltyPercentage"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Royalty (%)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.01"
+                          placeholder="0"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(optionalNumber(e.target.value) ?? 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="royaltyCap"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Royalty Cap</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          placeholder="No cap"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(optionalNumber(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* Currency */}
               <FormField
@@ -384,7 +616,7 @@ export function CommissionForm({ userId, onSuccess }: CommissionFormProps) {
                               <span className="ml-2 font-medium">${calculationResult.totalCommission.toLocaleString()}</span>
                             </div>
                             <div>
-                              <span className="text-gray-600">Your Amount:</span>
+                              <span className="text-gray-600">Your Net:</span>
                               <span className="ml-2 font-medium text-green-600">${calculationResult.agentAmount.toLocaleString()}</span>
                             </div>
                             <div>
@@ -395,6 +627,20 @@ export function CommissionForm({ userId, onSuccess }: CommissionFormProps) {
                               <span className="text-gray-600">Split:</span>
                               <span className="ml-2 font-medium">{calculationResult.calculation.agentPercentage}% / {calculationResult.calculation.brokerPercentage}%</span>
                             </div>
+                            <div>
+                              <span className="text-gray-600">Year-to-Date GCI:</span>
+                              <span className="ml-2 font-medium">${calculationResult.breakdown.yearToDate.before.gci.toLocaleString()}</span>
+                            </div>
+                            <div>
+                              <span className="text-gray-600">Royalty + Transaction Fee:</span>
+                              <span className="ml-2 font-medium">${(calculationResult.breakdown.royaltyFee + calculationResult.breakdown.transactionFee).toLocaleString()}</span>
+                            </div>
+                            {calculationResult.breakdown.capCredit > 0 && (
+                              <div>
+                                <span className="text-gray-600">Cap Credit:</span>
+                                <span className="ml-2 font-medium text-green-600">${calculationResult.breakdown.capCredit.toLocaleString()}</span>
+                              </div>
+                            )}
                           </div>
                         </div>
                       </AlertDescription>
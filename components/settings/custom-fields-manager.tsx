@@ -0,0 +1,400 @@
+'use client'
+
+/**
+ * Custom Fields Manager Component
+ * Lets tenant admins define, order and remove custom fields per entity
+ */
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ArrowDown, ArrowUp, Edit, Plus, SlidersHorizontal, Trash2 } from 'lucide-react'
+import { useCustomFields } from '@/hooks/use-custom-fields'
+import { clearCache } from '@/lib/cache-utils'
+import {
+  CUSTOM_FIELD_ENTITIES,
+  CUSTOM_FIELD_TYPES,
+  hasOptions,
+  isNumericField,
+  slugifyFieldKey,
+  type CustomFieldDefinition,
+  type CustomFieldEntity,
+  type CustomFieldType
+} from '@/lib/custom-fields/fields'
+import { isWithinLimit } from '@/lib/tenants/plans'
+import { useRBAC } from '@/lib/rbac/context'
+import { toast } from 'sonner'
+
+interface FieldDraft {
+  id?: string
+  label: string
+  key: string
+  field_type: CustomFieldType
+  options: string
+  required: boolean
+  min: string
+  max: string
+  max_length: string
+  pattern: string
+  help_text: string
+}
+
+const EMPTY_DRAFT: FieldDraft = {
+  label: '',
+  key: '',
+  field_type: 'text',
+  options: '',
+  required: false,
+  min: '',
+  max: '',
+  max_length: '',
+  pattern: '',
+  help_text: ''
+}
+
+const optionalNumber = (value: string) => value.trim() === '' ? null : Number(value)
+
+function toDraft(field: CustomFieldDefinition): FieldDraft {
+  return {
+    id: field.id,
+    label: field.label,
+    key: field.key,
+    field_type: field.field_type,
+    options: field.options.join('\n'),
+    required: field.required,
+    min: field.validation.min?.toString() ?? '',
+    max: field.validation.max?.toString() ?? '',
+    max_length: field.validation.max_length?.toString() ?? '',
+    pattern: field.validation.pattern ?? '',
+    help_text: field.help_text ?? ''
+  }
+}
+
+export function CustomFieldsManager() {
+  const { currentTenant, hasPermission } = useRBAC()
+  const { fields, limit, used, loading, refreshFields } = useCustomFields()
+  const [entity, setEntity] = useState<CustomFieldEntity>('clients')
+  const [draft, setDraft] = useState<FieldDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  if (!hasPermission('SETTINGS_MANAGE')) return null
+
+  const canAdd = isWithinLimit(limit, used)
+  const entityFields = (type: CustomFieldEntity) => fields.filter(field => field.entity_type === type)
+
+  const refresh = async () => {
+    clearCache('custom-fields')
+    await refreshFields()
+  }
+
+  const request = async (method: string, body?: unknown, query = '') => {
+    const response = await fetch(`/api/custom-fields?tenantId=${currentTenant}${query}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    })
+    const result = await response.json()
+    if (!response.ok) {
+      const detail = Array.isArray(result.details) ? result.details[0] : undefined
+      throw new Error(typeof detail === 'string' ? detail : detail?.message || result.error || 'Request failed')
+    }
+    return result
+  }
+
+  const saveField = async () => {
+    if (!draft) return
+
+    const payload = {
+      label: draft.label,
+      options: hasOptions(draft.field_type)
+        ? draft.options.split('\n').map(option => option.trim()).filter(Boolean)
+        : [],
+      required: draft.required,
+      validation: {
+        min: isNumericField(draft.field_type) ? optionalNumber(draft.min) : null,
+        max: isNumericField(draft.field_type) ? optionalNumber(draft.max) : null,
+        max_length: draft.field_type === 'text' ? optionalNumber(draft.max_length) : null,
+        pattern: draft.field_type === 'text' && draft.pattern.trim() ? draft.pattern.trim() : null
+      },
+      help_text: draft.help_text.trim() || null
+    }
+
+    try {
+      setSaving(true)
+      if (draft.id) {
+        await request('PUT', { id: draft.id, ...payload })
+        toast.success('Custom field updated')
+      } else {
+        await request('POST', {
+          ...payload,
+          entity_type: entity,
+          key: draft.key.trim() || undefined,
+          field_type: draft.field_type
+        })
+        toast.success('Custom field added')
+      }
+      setDraft(null)
+      await refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save custom field')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteField = async (field: CustomFieldDefinition) => {
+    if (!confirm(`Delete "${field.label}"? Values already saved on records are kept but no longer shown.`)) return
+
+    try {
+      await request('DELETE', undefined, `&id=${field.id}`)
+      toast.success('Custom field deleted')
+      await refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete custom field')
+    }
+  }
+
+  const moveField = async (type: CustomFieldEntity, index: number, offset: number) => {
+    const order = entityFields(type).map(field => field.id)
+    const target = index + offset
+    if (target < 0 || target >= order.length) return
+    ;[order[index], order[target]] = [order[target], order[index]]
+
+    try {
+      await request('PATCH', { entity_type: type, order })
+      await refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reorder custom fields')
+    }
+  }
+
+  const updateDraft = (updates: Partial<FieldDraft>) => setDraft(prev => prev ? { ...prev, ...updates } : prev)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5" />
+              Custom Fields
+            </CardTitle>
+            <CardDescription>
+              Extra details to capture on clients, deals and transactions
+            </CardDescription>
+          </div>
+          <Badge variant="outline">
+            {limit < 0 ? `${used} used` : `${used} / ${limit} used`}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!loading && !canAdd && (
+          <Alert>
+            <AlertDescription>
+              Your plan allows {limit} custom fields. Upgrade to add more.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Tabs value={entity} onValueChange={(value) => setEntity(value as CustomFieldEntity)}>
+          <div className="flex items-center justify-between">
+            <TabsList>
+              {CUSTOM_FIELD_ENTITIES.map(option => (
+                <TabsTrigger key={option.value} value={option.value}>{option.label}</TabsTrigger>
+              ))}
+            </TabsList>
+            <Button size="sm" onClick={() => setDraft({ ...EMPTY_DRAFT })} disabled={!canAdd || loading}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Field
+            </Button>
+          </div>
+
+          {CUSTOM_FIELD_ENTITIES.map(option => (
+            <TabsContent key={option.value} value={option.value} className="space-y-2">
+              {entityFields(option.value).length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4">
+                  No custom fields for {option.label.toLowerCase()} yet.
+                </p>
+              ) : (
+                entityFields(option.value).map((field, index, list) => (
+                  <div key={field.id} className="flex items-center justify-between rounded-md border p-3">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{field.label}</span>
+                        <Badge variant="secondary">
+                          {CUSTOM_FIELD_TYPES.find(type => type.value === field.field_type)?.label}
+                        </Badge>
+                        {field.required && <Badge variant="outline">Required</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground font-mono">{field.key}</p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => moveField(option.value, index, -1)} disabled={index === 0}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => moveField(option.value, index, 1)} disabled={index === list.length - 1}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setDraft(toDraft(field))}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteField(field)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </TabsContent>
+          ))}
+        </Tabs>
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Custom Field' : 'Add Custom Field'}</DialogTitle>
+            <DialogDescription>
+              {draft?.id
+                ? 'The key and type cannot change once a field exists.'
+                : `New field for ${CUSTOM_FIELD_ENTITIES.find(option => option.value === entity)?.label.toLowerCase()}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-label">Label *</Label>
+                  <Input
+                    id="custom-field-label"
+                    value={draft.label}
+                    onChange={(e) => updateDraft({ label: e.target.value })}
+                    placeholder="Preferred school district"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-key">Key</Label>
+                  <Input
+                    id="custom-field-key"
+                    value={draft.key}
+                    onChange={(e) => updateDraft({ key: e.target.value })}
+                    placeholder={slugifyFieldKey(draft.label || 'field')}
+                    disabled={!!draft.id}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={draft.field_type}
+                  onValueChange={(value) => updateDraft({ field_type: value as CustomFieldType })}
+                  disabled={!!draft.id}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CUSTOM_FIELD_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {hasOptions(draft.field_type) && (
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-options">Options *</Label>
+                  <Textarea
+                    id="custom-field-options"
+                    value={draft.options}
+                    onChange={(e) => updateDraft({ options: e.target.value })}
+                    placeholder="One option per line"
+                    rows={4}
+                  />
+                </div>
+              )}
+
+              {isNumericField(draft.field_type) && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="custom-field-min">Minimum</Label>
+                    <Input id="custom-field-min" type="number" value={draft.min} onChange={(e) => updateDraft({ min: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="custom-field-max">Maximum</Label>
+                    <Input id="custom-field-max" type="number" value={draft.max} onChange={(e) => updateDraft({ max: e.target.value })} />
+                  </div>
+                </div>
+              )}
+
+              {draft.field_type === 'text' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="custom-field-max-length">Max length</Label>
+                    <Input
+                      id="custom-field-max-length"
+                      type="number"
+                      min="1"
+                      value={draft.max_length}
+                      onChange={(e) => updateDraft({ max_length: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="custom-field-pattern">Pattern</Label>
+                    <Input
+                      id="custom-field-pattern"
+                      value={draft.pattern}
+                      onChange={(e) => updateDraft({ pattern: e.target.value })}
+                      placeholder="^[A-Z]{2}-\d+$"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-help">Help text</Label>
+                <Input
+                  id="custom-field-help"
+                  value={draft.help_text}
+                  onChange={(e) => updateDraft({ help_text: e.target.value })}
+                />
+              </div>
+
+              {draft.field_type !== 'checkbox' && (
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="custom-field-required"
+                    checked={draft.required}
+                    onCheckedChange={(checked) => updateDraft({ required: checked })}
+                  />
+                  <Label htmlFor="custom-field-required">Required</Label>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={saveField} disabled={saving || !draft?.label.trim()}>
+              {saving ? 'Saving...' : 'Save Field'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
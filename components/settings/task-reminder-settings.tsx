@@ -0,0 +1,224 @@
+'use client'
+
+/**
+ * Task Reminder Settings Component
+ * Default reminder times, the morning overdue digest, delivery channels and quiet hours
+ */
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Separator } from '@/components/ui/separator'
+import { BellRing, Loader2, Save } from 'lucide-react'
+import { toast } from 'sonner'
+import { ReminderOffsetsPicker } from '@/components/shared/reminder-offsets-picker'
+import { defaultUserPreferences, type UserPreferences } from '@/lib/user/preferences'
+import { getReminderSettings } from '@/lib/tasks/reminders'
+
+export function TaskReminderSettings() {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [preferences, setPreferences] = useState<UserPreferences>(defaultUserPreferences)
+
+  useEffect(() => {
+    loadPreferences()
+  }, [])
+
+  const loadPreferences = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/user/preferences')
+      if (response.ok) {
+        const data = await response.json()
+        if (data.preferences) {
+          setPreferences({
+            ...defaultUserPreferences,
+            ...data.preferences,
+            reminders: getReminderSettings(data.preferences)
+          })
+        }
+      }
+    } catch (error) {
+      console.error('Error loading reminder settings:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const { reminders, pushNotifications, emailNotifications, inAppNotifications } = preferences
+  const quietHours = pushNotifications.quietHours
+
+  const updateReminders = (changes: Partial<UserPreferences['reminders']>) => {
+    setPreferences(prev => ({ ...prev, reminders: { ...prev.reminders, ...changes } }))
+  }
+
+  const updateQuietHours = (changes: Partial<UserPreferences['pushNotifications']['quietHours']>) => {
+    setPreferences(prev => ({
+      ...prev,
+      pushNotifications: { ...prev.pushNotifications, quietHours: { ...prev.pushNotifications.quietHours, ...changes } }
+    }))
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      // Sections are saved whole, so send the full objects back
+      const response = await fetch('/api/user/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          preferences: { reminders, pushNotifications, emailNotifications, inAppNotifications }
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save reminder settings')
+      toast.success('Reminder settings saved')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save reminder settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Task Reminders
+        </CardTitle>
+        <CardDescription>
+          When to remind you about upcoming tasks. Each task can override these on its edit page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading reminder settings...
+          </div>
+        ) : (
+          <>
+            <ReminderOffsetsPicker
+              value={reminders.defaultOffsets}
+              onChange={offsets => updateReminders({ defaultOffsets: offsets ?? [] })}
+            />
+
+            <Separator />
+
+            <div className="space-y-3">
+              <Label>Send reminders by</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="reminder-in-app" className="font-normal">In-app notification</Label>
+                <Switch
+                  id="reminder-in-app"
+                  checked={inAppNotifications.taskDeadlines}
+                  onCheckedChange={checked => setPreferences(prev => ({
+                    ...prev,
+                    inAppNotifications: { ...prev.inAppNotifications, taskDeadlines: checked }
+                  }))}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="reminder-email" className="font-normal">Email</Label>
+                <Switch
+                  id="reminder-email"
+                  checked={emailNotifications.taskReminders}
+                  onCheckedChange={checked => setPreferences(prev => ({
+                    ...prev,
+                    emailNotifications: { ...prev.emailNotifications, taskReminders: checked }
+                  }))}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="reminder-push" className="font-normal">Push notification</Label>
+                <Switch
+                  id="reminder-push"
+                  checked={pushNotifications.enabled}
+                  onCheckedChange={checked => setPreferences(prev => ({
+                    ...prev,
+                    pushNotifications: { ...prev.pushNotifications, enabled: checked }
+                  }))}
+                />
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="overdue-digest">Morning overdue digest</Label>
+                  <p className="text-xs text-gray-500">One summary of overdue tasks instead of a reminder for each</p>
+                </div>
+                <Switch
+                  id="overdue-digest"
+                  checked={reminders.overdueDigest}
+                  onCheckedChange={checked => updateReminders({ overdueDigest: checked })}
+                />
+              </div>
+              <div className="flex items-center gap-3">
+                <Label htmlFor="digest-time" className="font-normal">Send at</Label>
+                <Input
+                  id="digest-time"
+                  type="time"
+                  className="w-32"
+                  value={reminders.digestTime}
+                  onChange={event => event.target.value && updateReminders({ digestTime: event.target.value })}
+                  disabled={!reminders.overdueDigest}
+                />
+              </div>
+              <p className="text-xs text-gray-500">&ldquo;Remind me tomorrow&rdquo; snoozes also come back at this time.</p>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="quiet-hours">Quiet hours</Label>
+                  <p className="text-xs text-gray-500">Reminders that come due are held until quiet hours end</p>
+                </div>
+                <Switch
+                  id="quiet-hours"
+                  checked={quietHours.enabled}
+                  onCheckedChange={checked => updateQuietHours({ enabled: checked })}
+                />
+              </div>
+              <div className="flex items-center gap-3">
+                <Label htmlFor="quiet-start" className="font-normal">From</Label>
+                <Input
+                  id="quiet-start"
+                  type="time"
+                  className="w-32"
+                  value={quietHours.startTime}
+                  onChange={event => event.target.value && updateQuietHours({ startTime: event.target.value })}
+                  disabled={!quietHours.enabled}
+                />
+                <Label htmlFor="quiet-end" className="font-normal">to</Label>
+                <Input
+                  id="quiet-end"
+                  type="time"
+                  className="w-32"
+                  value={quietHours.endTime}
+                  onChange={event => event.target.value && updateQuietHours({ endTime: event.target.value })}
+                  disabled={!quietHours.enabled}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Reminders
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,512 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2, AlertCircle, CheckCircle, Undo2, Save } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { formatDate } from "@/lib/utils"
+import {
+  IMPORT_ENTITIES,
+  CUSTOM_FIELD_PREFIX,
+  toCustomFieldKey,
+  type ColumnMapping,
+  type ImportEntityType
+} from "@/lib/import/entities"
+import type { ImportBatch, ImportResult } from "@/lib/import/engine"
+import type { ImportPreset } from "@/lib/import/presets"
+
+interface CsvImportDialogProps {
+  entity: ImportEntityType
+  trigger?: React.ReactNode
+  // Controlled use, e.g. when opened from a dropdown menu item
+  open?: boolean
+  onOpenChange?: (open: boolean) => void
+  onImported?: () => void
+}
+
+type ImportStep = 'upload' | 'map' | 'review' | 'done'
+
+// Radix Select cannot hold an empty value, so skipped columns use a sentinel
+const SKIP_COLUMN = '__skip'
+const NO_PRESET = '__none'
+
+export function CsvImportDialog({ entity, trigger, open: controlledOpen, onOpenChange, onImported }: CsvImportDialogProps) {
+  const definition = IMPORT_ENTITIES[entity]
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false)
+  const open = controlledOpen ?? uncontrolledOpen
+  const setOpen = (value: boolean) => {
+    setUncontrolledOpen(value)
+    onOpenChange?.(value)
+  }
+  const [step, setStep] = useState<ImportStep>('upload')
+  const [file, setFile] = useState<File | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [upsertByEmail, setUpsertByEmail] = useState(false)
+  const [preview, setPreview] = useState<ImportResult | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [batches, setBatches] = useState<ImportBatch[]>([])
+  const [presets, setPresets] = useState<ImportPreset[]>([])
+  const [presetId, setPresetId] = useState<string>('')
+  const [presetName, setPresetName] = useState('')
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/import/batches?type=${entity}`, { credentials: 'include' })
+      if (response.ok) {
+        const data = await response.json()
+        setBatches(data.batches || [])
+      }
+    } catch (error) {
+      console.error('Error fetching import history:', error)
+    }
+  }, [entity])
+
+  const fetchPresets = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/import/presets?type=${entity}`, { credentials: 'include' })
+      if (response.ok) {
+        const data = await response.json()
+        setPresets(data.presets || [])
+      }
+    } catch (error) {
+      console.error('Error fetching import presets:', error)
+    }
+  }, [entity])
+
+  useEffect(() => {
+    if (open) {
+      fetchBatches()
+      fetchPresets()
+    }
+  }, [open, fetchBatches, fetchPresets])
+
+  const reset = () => {
+    setStep('upload')
+    setFile(null)
+    setMapping({})
+    setPreview(null)
+    setResult(null)
+    setError(null)
+    setPresetName('')
+  }
+
+  const submit = async (mode: 'preview' | 'dry_run' | 'commit', selectedFile: File, columnMapping?: ColumnMapping): Promise<ImportResult | null> => {
+    setWorking(true)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', selectedFile)
+      formData.append('type', entity)
+      formData.append('mode', mode)
+      if (columnMapping) formData.append('mapping', JSON.stringify(columnMapping))
+      // Sent with an edited mapping too, so the preset's value translations still apply
+      if (presetId) formData.append('preset', presetId)
+      if (upsertByEmail) formData.append('upsert_by_email', 'true')
+
+      const response = await fetch('/api/import', {
+        method: 'POST',
+        credentials: 'include',
+        body: formData
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details || data.error || 'Import failed')
+      return data
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Import failed')
+      return null
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleFile = async (selectedFile: File | undefined) => {
+    if (!selectedFile) return
+    setFile(selectedFile)
+    const data = await submit('preview', selectedFile)
+    if (data) {
+      setMapping(data.mapping)
+      setPreview(data)
+      setStep('map')
+    }
+  }
+
+  const updateMapping = (header: string, target: string) => {
+    setMapping(current => ({ ...current, [header]: target === SKIP_COLUMN ? '' : target }))
+  }
+
+  const refreshPreview = async () => {
+    if (!file) return
+    const data = await submit('preview', file, mapping)
+    if (data) setPreview(data)
+  }
+
+  const dryRun = async () => {
+    if (!file) return
+    const data = await submit('dry_run', file, mapping)
+    if (data) {
+      setResult(data)
+      setStep('review')
+    }
+  }
+
+  const commit = async () => {
+    if (!file) return
+    const data = await submit('commit', file, mapping)
+    if (data) {
+      setResult(data)
+      setStep('done')
+      fetchBatches()
+      onImported?.()
+    }
+  }
+
+  const savePreset = async () => {
+    const name = presetName.trim()
+    if (!name) return
+
+    setWorking(true)
+    try {
+      const response = await fetch('/api/import/presets', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          entity_type: entity,
+          column_mapping: mapping,
+          value_maps: presets.find(preset => preset.id === presetId)?.valueMaps
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save preset')
+
+      toast({ title: 'Preset saved', description: `"${data.preset.name}" is available to your team for future imports.` })
+      setPresetName('')
+      setPresetId(data.preset.id)
+      fetchPresets()
+    } catch (error) {
+      toast({
+        title: 'Could not save preset',
+        description: error instanceof Error ? error.message : 'Failed to save preset',
+        variant: 'destructive'
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const rollback = async (batchId: string) => {
+    setWorking(true)
+    try {
+      const response = await fetch(`/api/import/batches/${batchId}/rollback`, {
+        method: 'POST',
+        credentials: 'include'
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to roll back import')
+
+      toast({ title: 'Import rolled back', description: 'Imported records were removed and updated records restored.' })
+      fetchBatches()
+      onImported?.()
+      if (result?.batchId === batchId) reset()
+    } catch (error) {
+      toast({
+        title: 'Could not roll back import',
+        description: error instanceof Error ? error.message : 'Failed to roll back import',
+        variant: 'destructive'
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  // Joinable fields (address parts, notes) can take several columns, so list each once
+  const mappedFields = [...new Set(Object.values(mapping).filter(Boolean))]
+  const fieldLabel = (target: string) => target.startsWith(CUSTOM_FIELD_PREFIX)
+    ? `Custom: ${target.slice(CUSTOM_FIELD_PREFIX.length)}`
+    : definition.fields.find(field => field.key === target)?.label || target
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) reset() }}>
+      {trigger && <DialogTrigger asChild>{trigger}</DialogTrigger>}
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import {definition.label}</DialogTitle>
+          <DialogDescription>
+            Upload a CSV, map its columns, and check a dry run before anything is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === 'upload' && (
+          <div className="space-y-6">
+            {presets.length > 0 && (
+              <div className="space-y-2">
+                <Label>Exported from another CRM?</Label>
+                <Select value={presetId || NO_PRESET} onValueChange={(value) => setPresetId(value === NO_PRESET ? '' : value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PRESET}>No preset - match columns by name</SelectItem>
+                    {presets.map((preset) => (
+                      <SelectItem key={preset.id} value={preset.id}>
+                        {preset.name}{preset.builtIn ? '' : ' (saved)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {presetId && (
+                  <p className="text-xs text-gray-500">
+                    {presets.find(preset => preset.id === presetId)?.description}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor={`csv-import-${entity}`}>CSV file</Label>
+              <Input
+                id={`csv-import-${entity}`}
+                type="file"
+                accept=".csv,text/csv"
+                disabled={working}
+                onChange={(event) => handleFile(event.target.files?.[0])}
+              />
+              <p className="text-xs text-gray-500">
+                Need a starting point?{' '}
+                <a href={`/api/import/templates?type=${entity}`} className="text-blue-600 hover:underline">
+                  Download the template
+                </a>
+              </p>
+            </div>
+
+            {batches.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Recent imports</h4>
+                {batches.map((batch) => (
+                  <div key={batch.id} className="flex items-center justify-between p-2 rounded-lg border text-sm">
+                    <div>
+                      <span className="font-medium">{batch.file_name || 'Import'}</span>
+                      <span className="text-xs text-gray-500 ml-2">
+                        {formatDate(batch.created_at)} · {batch.created_count} created · {batch.updated_count} updated
+                      </span>
+                    </div>
+                    {batch.status === 'completed' ? (
+                      <Button size="sm" variant="outline" onClick={() => rollback(batch.id)} disabled={working}>
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Roll back
+                      </Button>
+                    ) : (
+                      <Badge variant="secondary">{batch.status.replace('_', ' ')}</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'map' && preview && (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Column mapping</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {preview.headers.map((header) => (
+                  <div key={header} className="flex items-center gap-2">
+                    <span className="w-1/2 truncate text-sm" title={header}>{header}</span>
+                    <Select
+                      value={mapping[header] || SKIP_COLUMN}
+                      onValueChange={(value) => updateMapping(header, value)}
+                    >
+                      <SelectTrigger className="w-1/2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SKIP_COLUMN}>Don't import</SelectItem>
+                        {definition.fields.map((field) => (
+                          <SelectItem
+                            key={field.key}
+                            value={field.key}
+                            disabled={!field.join && mapping[header] !== field.key && mappedFields.includes(field.key)}
+                          >
+                            {field.label}{field.required ? ' *' : ''}
+                          </SelectItem>
+                        ))}
+                        {definition.supportsCustomFields && toCustomFieldKey(header) && (
+                          <SelectItem value={`${CUSTOM_FIELD_PREFIX}${toCustomFieldKey(header)}`}>
+                            Custom field: {toCustomFieldKey(header)}
+                          </SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {preview.mappingErrors.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc pl-5">
+                  {preview.mappingErrors.map((message) => <li key={message}>{message}</li>)}
+                </ul>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium">Preview (first {preview.preview.length} rows)</h4>
+                <Button size="sm" variant="outline" onClick={refreshPreview} disabled={working}>
+                  Refresh preview
+                </Button>
+              </div>
+              <div className="overflow-x-auto border rounded-lg">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="p-2 text-left">Row</th>
+                      {mappedFields.map((target) => (
+                        <th key={target} className="p-2 text-left whitespace-nowrap">{fieldLabel(target)}</th>
+                      ))}
+                      <th className="p-2 text-left">Issues</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.preview.map((row) => (
+                      <tr key={row.row} className={`border-t ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                        <td className="p-2 text-gray-500">{row.row}</td>
+                        {mappedFields.map((target) => (
+                          <td key={target} className="p-2 max-w-[12rem] truncate">{row.values[target] || ''}</td>
+                        ))}
+                        <td className="p-2 text-red-600">{row.errors.join('; ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {definition.supportsUpsertByEmail && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`csv-upsert-${entity}`}
+                  checked={upsertByEmail}
+                  onCheckedChange={(checked) => setUpsertByEmail(checked === true)}
+                />
+                <Label htmlFor={`csv-upsert-${entity}`} className="text-sm font-normal">
+                  Update existing {definition.label.toLowerCase()} with a matching email instead of adding duplicates
+                </Label>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Save this mapping as a preset, e.g. Office CRM export"
+                value={presetName}
+                onChange={(event) => setPresetName(event.target.value)}
+                className="max-w-sm"
+              />
+              <Button size="sm" variant="outline" onClick={savePreset} disabled={working || !presetName.trim() || mappedFields.length === 0}>
+                <Save className="h-4 w-4 mr-1" />
+                Save preset
+              </Button>
+            </div>
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset} disabled={working}>Choose another file</Button>
+              <Button onClick={dryRun} disabled={working || preview.mappingErrors.length > 0}>
+                {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Dry run
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+              <div className="p-3 rounded-lg bg-gray-50">
+                <div className="text-2xl font-semibold">{result.totalRows}</div>
+                <div className="text-xs text-gray-500">Rows</div>
+              </div>
+              <div className="p-3 rounded-lg bg-green-50">
+                <div className="text-2xl font-semibold text-green-700">{result.created}</div>
+                <div className="text-xs text-gray-500">Will be created</div>
+              </div>
+              <div className="p-3 rounded-lg bg-blue-50">
+                <div className="text-2xl font-semibold text-blue-700">{result.updated}</div>
+                <div className="text-xs text-gray-500">Will be updated</div>
+              </div>
+              <div className="p-3 rounded-lg bg-red-50">
+                <div className="text-2xl font-semibold text-red-700">{result.errorCount}</div>
+                <div className="text-xs text-gray-500">Will be skipped</div>
+              </div>
+            </div>
+
+            {result.errors.length > 0 && (
+              <div className="max-h-48 overflow-y-auto border rounded-lg p-2 text-xs space-y-1">
+                {result.errors.map((rowError) => (
+                  <div key={rowError.row}>
+                    <span className="font-medium">Row {rowError.row}:</span> {rowError.errors.join('; ')}
+                  </div>
+                ))}
+                {result.errorCount > result.errors.length && (
+                  <div className="text-gray-500">…and {result.errorCount - result.errors.length} more</div>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('map')} disabled={working}>Back to mapping</Button>
+              <Button onClick={commit} disabled={working || result.created + result.updated === 0}>
+                {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import {result.created + result.updated} {definition.label.toLowerCase()}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-green-700">
+              <CheckCircle className="h-5 w-5" />
+              <span>
+                {result.created} created, {result.updated} updated
+                {result.errorCount > 0 ? `, ${result.errorCount} skipped` : ''}.
+              </span>
+            </div>
+            <div className="flex justify-between">
+              {result.batchId ? (
+                <Button variant="outline" onClick={() => rollback(result.batchId as string)} disabled={working}>
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Roll back this import
+                </Button>
+              ) : <span />}
+              <Button onClick={() => setOpen(false)}>Done</Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'upload' && working && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Reading file...
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
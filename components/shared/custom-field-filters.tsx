@@ -0,0 +1,102 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { CustomFieldDefinition, CustomFieldFilter } from '@/lib/custom-fields/fields'
+
+interface CustomFieldFiltersProps {
+  fields: CustomFieldDefinition[]
+  filters: CustomFieldFilter[]
+  onChange: (filters: CustomFieldFilter[]) => void
+}
+
+const ANY_VALUE = '__any'
+
+export function countCustomFieldFilters(filters: CustomFieldFilter[]): number {
+  return filters.filter(filter => filter.value || filter.min || filter.max).length
+}
+
+/**
+ * Filter controls for a list's custom fields, for use inside a filters popover
+ */
+export function CustomFieldFilters({ fields, filters, onChange }: CustomFieldFiltersProps) {
+  if (fields.length === 0) return null
+
+  const getFilter = (key: string): CustomFieldFilter => filters.find(filter => filter.key === key) || { key }
+
+  const updateFilter = (key: string, updates: Partial<CustomFieldFilter>) => {
+    const next = { ...getFilter(key), ...updates }
+    const others = filters.filter(filter => filter.key !== key)
+    onChange(next.value || next.min || next.max ? [...others, next] : others)
+  }
+
+  const renderControl = (field: CustomFieldDefinition) => {
+    const filter = getFilter(field.key)
+
+    switch (field.field_type) {
+      case 'number':
+      case 'currency':
+      case 'date': {
+        const type = field.field_type === 'date' ? 'date' : 'number'
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type={type}
+              placeholder="Min"
+              value={filter.min || ''}
+              onChange={(e) => updateFilter(field.key, { min: e.target.value })}
+            />
+            <Input
+              type={type}
+              placeholder="Max"
+              value={filter.max || ''}
+              onChange={(e) => updateFilter(field.key, { max: e.target.value })}
+            />
+          </div>
+        )
+      }
+      case 'select':
+      case 'multi_select':
+      case 'checkbox': {
+        const options = field.field_type === 'checkbox'
+          ? [{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }]
+          : field.options.map(option => ({ value: option, label: option }))
+        return (
+          <Select
+            value={filter.value || ANY_VALUE}
+            onValueChange={(value) => updateFilter(field.key, { value: value === ANY_VALUE ? undefined : value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_VALUE}>Any</SelectItem>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+      }
+      default:
+        return (
+          <Input
+            placeholder="Contains..."
+            value={filter.value || ''}
+            onChange={(e) => updateFilter(field.key, { value: e.target.value })}
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {fields.map(field => (
+        <div key={field.id} className="space-y-2">
+          <label className="text-sm font-medium">{field.label}</label>
+          {renderControl(field)}
+        </div>
+      ))}
+    </div>
+  )
+}
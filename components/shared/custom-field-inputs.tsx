@@ -0,0 +1,139 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { CustomFieldDefinition, CustomFieldValues } from '@/lib/custom-fields/fields'
+
+interface CustomFieldInputsProps {
+  fields: CustomFieldDefinition[]
+  values: CustomFieldValues
+  onChange: (values: CustomFieldValues) => void
+  // Messages keyed by field key
+  errors?: Record<string, string>
+  disabled?: boolean
+}
+
+// Radix Select cannot hold an empty value, so clearing goes through a sentinel
+const NO_VALUE = '__none'
+
+/**
+ * Inputs for a tenant's custom fields, in definition order
+ */
+export function CustomFieldInputs({ fields, values, onChange, errors = {}, disabled }: CustomFieldInputsProps) {
+  if (fields.length === 0) return null
+
+  const setValue = (key: string, value: unknown) => onChange({ ...values, [key]: value })
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const id = `custom-field-${field.key}`
+    const value = values[field.key]
+
+    switch (field.field_type) {
+      case 'checkbox':
+        return (
+          <div className="flex items-center space-x-2 pt-2">
+            <Checkbox
+              id={id}
+              checked={value === true}
+              onCheckedChange={(checked) => setValue(field.key, checked === true)}
+              disabled={disabled}
+            />
+            <Label htmlFor={id} className="font-normal">{field.help_text || field.label}</Label>
+          </div>
+        )
+      case 'select':
+        return (
+          <Select
+            value={typeof value === 'string' && value ? value : NO_VALUE}
+            onValueChange={(selected) => setValue(field.key, selected === NO_VALUE ? null : selected)}
+            disabled={disabled}
+          >
+            <SelectTrigger id={id}>
+              <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_VALUE}>None</SelectItem>
+              {field.options.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+      case 'multi_select': {
+        const selected = Array.isArray(value) ? value as string[] : []
+        return (
+          <div className="flex flex-wrap gap-x-4 gap-y-2 pt-2">
+            {field.options.map(option => (
+              <div key={option} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${id}-${option}`}
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => setValue(
+                    field.key,
+                    checked ? [...selected, option] : selected.filter(item => item !== option)
+                  )}
+                  disabled={disabled}
+                />
+                <Label htmlFor={`${id}-${option}`} className="font-normal">{option}</Label>
+              </div>
+            ))}
+          </div>
+        )
+      }
+      case 'currency':
+        return (
+          <div className="relative">
+            <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">$</span>
+            <Input
+              id={id}
+              type="number"
+              step="0.01"
+              className="pl-8"
+              placeholder="0"
+              value={value == null ? '' : String(value)}
+              onChange={(e) => setValue(field.key, e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+        )
+      default: {
+        const inputType = field.field_type === 'number' ? 'number' : field.field_type === 'date' ? 'date' : field.field_type === 'url' ? 'url' : 'text'
+        return (
+          <Input
+            id={id}
+            type={inputType}
+            step={field.field_type === 'number' ? 'any' : undefined}
+            min={field.field_type === 'number' ? field.validation.min ?? undefined : undefined}
+            max={field.field_type === 'number' ? field.validation.max ?? undefined : undefined}
+            maxLength={field.validation.max_length ?? undefined}
+            placeholder={field.field_type === 'url' ? 'https://' : undefined}
+            value={value == null ? '' : String(value)}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            disabled={disabled}
+          />
+        )
+      }
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {fields.map(field => (
+        <div key={field.id} className="space-y-2">
+          <Label htmlFor={`custom-field-${field.key}`}>
+            {field.label}{field.required && field.field_type !== 'checkbox' ? ' *' : ''}
+          </Label>
+          {renderInput(field)}
+          {field.help_text && field.field_type !== 'checkbox' && (
+            <p className="text-sm text-muted-foreground">{field.help_text}</p>
+          )}
+          {errors[field.key] && (
+            <p className="text-sm font-medium text-destructive">{errors[field.key]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { APIErrorBoundary } from "@/components/shared/error-boundary"
+import { getContingencyLabel } from '@/lib/transactions/contingencies'
+
+interface Deadline {
+  id: string
+  transaction_id: string
+  type: string
+  deadline: string
+  status: 'pending' | 'extended'
+  is_overdue: boolean
+  extensions: unknown[]
+  transaction?: {
+    id: string
+    deal?: { id: string; title: string } | null
+    client?: { id: string; first_name: string; last_name: string } | null
+  } | null
+  agent?: { id: string; name: string | null; email: string } | null
+}
+
+export function DeadlinesThisWeek() {
+  const [deadlines, setDeadlines] = useState<Deadline[]>([])
+  const [scope, setScope] = useState<'own' | 'team'>('own')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchDeadlines() {
+      try {
+        const response = await fetch('/api/transaction-contingencies/deadlines?days=7', {
+          credentials: 'include'
+        })
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            setDeadlines([])
+            return
+          }
+          throw new Error(`Failed to fetch deadlines: ${response.status}`)
+        }
+
+        const data = await response.json()
+        setDeadlines(data.deadlines || [])
+        setScope(data.scope || 'own')
+      } catch (err) {
+        console.error('Error fetching deadlines:', err)
+        setError('Unable to load deadlines at this time')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchDeadlines()
+  }, [])
+
+  const formatDeadline = (deadline: Deadline): string => {
+    if (deadline.is_overdue) return 'Overdue'
+
+    const date = new Date(deadline.deadline)
+    const today = new Date()
+    if (date.toDateString() === today.toDateString()) return 'Due today'
+
+    const tomorrow = new Date(today)
+    tomorrow.setDate(tomorrow.getDate() + 1)
+    if (date.toDateString() === tomorrow.toDateString()) return 'Due tomorrow'
+
+    return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-40" />
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="flex items-center justify-between p-2">
+              <Skeleton className="h-4 w-48" />
+              <Skeleton className="h-5 w-16" />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const overdueCount = deadlines.filter(d => d.is_overdue).length
+
+  return (
+    <APIErrorBoundary>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg font-semibold">
+              {scope === 'team' ? 'Team Deadlines This Week' : 'Deadlines This Week'}
+            </CardTitle>
+            <Badge variant="secondary" className={overdueCount > 0 ? "bg-red-100 text-red-800" : "bg-blue-100 text-blue-800"}>
+              {deadlines.length} {deadlines.length === 1 ? 'Deadline' : 'Deadlines'}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>{error}</p>
+            </div>
+          ) : deadlines.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>No contingency deadlines this week</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {deadlines.map((deadline) => {
+                const client = deadline.transaction?.client
+                const deal = deadline.transaction?.deal
+
+                return (
+                  <div key={deadline.id} className="flex items-center justify-between space-x-3 p-2 rounded-lg hover:bg-gray-50">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium truncate">
+                        {getContingencyLabel(deadline.type)}
+                        {deal && (
+                          <>
+                            {' · '}
+                            <Link href={`/deal/${deal.id}`} className="hover:underline">
+                              {deal.title}
+                            </Link>
+                          </>
+                        )}
+                      </div>
+                      <div className={`text-xs mt-1 ${deadline.is_overdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                        {formatDeadline(deadline)}
+                        {deadline.status === 'extended' && ` · extended ${deadline.extensions.length}x`}
+                        {scope === 'team' && deadline.agent && ` · ${deadline.agent.name || deadline.agent.email}`}
+                      </div>
+                    </div>
+                    {client && (
+                      <Badge variant="outline" className="text-xs">
+                        {`${client.first_name || ''} ${client.last_name || ''}`.trim() || 'Unknown'}
+                      </Badge>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </APIErrorBoundary>
+  )
+}
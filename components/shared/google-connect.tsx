@@ -5,13 +5,16 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Loader2, Mail, Calendar, CheckCircle, AlertCircle, ExternalLink } from 'lucide-react'
+import { Loader2, Mail, Calendar, CheckCircle, AlertCircle, ExternalLink, RefreshCw } from 'lucide-react'
+import { apiFetch } from '@/lib/api-fetch'
 
 interface GoogleIntegrationState {
     connected: boolean
     email?: string
     scopes?: string[]
     expiresAt?: string
+    // Granted permission to add and edit calendar events
+    calendarSync?: boolean
     loading: boolean
     error?: string
 }
@@ -21,6 +24,8 @@ export function GoogleConnect() {
         connected: false,
         loading: true,
     })
+    const [syncing, setSyncing] = useState(false)
+    const [syncMessage, setSyncMessage] = useState<string | null>(null)
 
     useEffect(() => {
         checkGoogleConnection()
@@ -36,6 +41,7 @@ export function GoogleConnect() {
                     email: data.email,
                     scopes: data.scopes,
                     expiresAt: data.expires_at,
+                    calendarSync: data.calendar_sync,
                     loading: false,
                 })
             } else {
@@ -89,6 +95,27 @@ export function GoogleConnect() {
         }
     }
 
+    const handleCalendarSync = async () => {
+        setSyncing(true)
+        setSyncMessage(null)
+        try {
+            const response = await apiFetch('/api/integrations/google/calendar-sync', { method: 'POST' })
+            const data = await response.json()
+            if (!response.ok) {
+                setState(prev => ({ ...prev, error: data.error || 'Failed to sync calendar' }))
+            } else {
+                const changes = data.created + data.updated + data.deleted
+                setSyncMessage(changes === 0
+                    ? 'Google Calendar is up to date'
+                    : `Synced ${changes} ${changes === 1 ? 'event' : 'events'}${data.conflicts ? `, ${data.conflicts} edited on both sides` : ''}`)
+            }
+        } catch (error) {
+            setState(prev => ({ ...prev, error: 'Failed to sync calendar' }))
+        } finally {
+            setSyncing(false)
+        }
+    }
+
     if (state.loading) {
         return (
             <Card>
@@ -142,7 +169,7 @@ export function GoogleConnect() {
                             </div>
                             <div className="flex items-center gap-2">
                                 <Calendar className="h-4 w-4 text-green-600" />
-                                <span>Calendar events monitored</span>
+                                <span>{state.calendarSync ? 'Calendar synced both ways' : 'Calendar events monitored'}</span>
                             </div>
                         </div>
 
@@ -159,9 +186,32 @@ export function GoogleConnect() {
                                 <li>• Tasks extracted via AI from email content</li>
                                 <li>• Closing events auto-detected from calendar</li>
                                 <li>• Preparation tasks created before closings</li>
+                                {state.calendarSync && (
+                                    <li>• Timed tasks, video meetings and showings appear in Google Calendar, and edits there come back</li>
+                                )}
                             </ul>
                         </div>
 
+                        {state.calendarSync ? (
+                            <div className="flex items-center gap-3">
+                                <Button variant="outline" size="sm" onClick={handleCalendarSync} disabled={syncing}>
+                                    {syncing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                                    Sync calendar now
+                                </Button>
+                                {syncMessage && <span className="text-sm text-gray-600">{syncMessage}</span>}
+                            </div>
+                        ) : (
+                            <Alert>
+                                <AlertCircle className="h-4 w-4" />
+                                <AlertDescription className="flex items-center justify-between gap-3">
+                                    <span>Reconnect to send your tasks and meetings to Google Calendar.</span>
+                                    <Button variant="outline" size="sm" onClick={handleConnect}>
+                                        Reconnect
+                                    </Button>
+                                </AlertDescription>
+                            </Alert>
+                        )}
+
                         <Button variant="destructive" onClick={handleDisconnect} disabled={state.loading}>
                             {state.loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                             Disconnect Google
@@ -182,10 +232,10 @@ export function GoogleConnect() {
                             <div className="border rounded-lg p-4">
                                 <div className="flex items-center gap-2 mb-2">
                                     <Calendar className="h-5 w-5 text-green-600" />
-                                    <h4 className="font-medium">Calendar Watch</h4>
+                                    <h4 className="font-medium">Calendar Sync</h4>
                                 </div>
                                 <p className="text-sm text-gray-600">
-                                    Detect closing and settlement events to automatically prepare tasks.
+                                    Detect closing events to prepare tasks, and keep timed tasks and meetings in step with your calendar.
                                 </p>
                             </div>
                         </div>
@@ -193,7 +243,7 @@ export function GoogleConnect() {
                         <Alert>
                             <AlertCircle className="h-4 w-4" />
                             <AlertDescription>
-                                Connecting will request read-only access to Gmail and Calendar. Your data stays secure.
+                                Connecting will request read access to Gmail and permission to manage your Calendar events. Your data stays secure.
                             </AlertDescription>
                         </Alert>
 
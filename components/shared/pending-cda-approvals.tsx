@@ -0,0 +1,101 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { APIErrorBoundary } from "@/components/shared/error-boundary"
+import { useToast } from '@/hooks/use-toast'
+import { useRBAC } from '@/lib/rbac/context'
+import { formatCurrency } from '@/lib/utils'
+import { type CommissionDisbursement } from '@/lib/commissions/cda'
+
+// Drafts awaiting broker sign-off; renders nothing for users without deals:approve
+export function PendingCdaApprovals() {
+  const [disbursements, setDisbursements] = useState<CommissionDisbursement[]>([])
+  const [approvingId, setApprovingId] = useState<string | null>(null)
+  const { toast } = useToast()
+  const { currentTenant, hasPermission } = useRBAC()
+  const canApprove = hasPermission('DEALS_APPROVE')
+
+  useEffect(() => {
+    if (!canApprove) return
+
+    async function fetchPending() {
+      try {
+        const response = await fetch('/api/commission-disbursements', { credentials: 'include' })
+        if (response.ok) {
+          const data = await response.json()
+          setDisbursements(data.disbursements || [])
+        }
+      } catch (error) {
+        console.error('Error fetching pending CDAs:', error)
+      }
+    }
+
+    fetchPending()
+  }, [canApprove])
+
+  const approve = async (disbursement: CommissionDisbursement) => {
+    if (!currentTenant) return
+    setApprovingId(disbursement.id)
+    try {
+      const response = await fetch(`/api/commission-disbursements/${disbursement.id}/approve?tenantId=${currentTenant}`, {
+        method: 'POST',
+        credentials: 'include'
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to approve CDA')
+
+      setDisbursements(current => current.filter(item => item.id !== disbursement.id))
+      toast({ title: 'CDA approved', description: `${disbursement.document.reference} is locked and filed.` })
+    } catch (error) {
+      toast({
+        title: 'Could not approve CDA',
+        description: error instanceof Error ? error.message : 'Failed to approve CDA',
+        variant: 'destructive'
+      })
+    } finally {
+      setApprovingId(null)
+    }
+  }
+
+  if (!canApprove || disbursements.length === 0) return null
+
+  return (
+    <APIErrorBoundary>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg font-semibold">CDAs Awaiting Approval</CardTitle>
+            <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
+              {disbursements.length}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {disbursements.map((disbursement) => (
+              <div key={disbursement.id} className="flex items-center justify-between space-x-3 p-2 rounded-lg hover:bg-gray-50">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{disbursement.document.propertyAddress}</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {disbursement.document.reference} · {disbursement.document.agentName} · {formatCurrency(disbursement.document.grossCommission)}
+                  </div>
+                </div>
+                <Button size="sm" variant="outline" asChild>
+                  <a href={`/api/commission-disbursements/${disbursement.id}/document?format=html`} target="_blank" rel="noopener noreferrer">
+                    Review
+                  </a>
+                </Button>
+                <Button size="sm" onClick={() => approve(disbursement)} disabled={approvingId === disbursement.id}>
+                  Approve
+                </Button>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </APIErrorBoundary>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Repeat } from 'lucide-react'
+import {
+  RECURRENCE_FREQUENCIES,
+  WEEKDAYS,
+  describeRecurrenceRule,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday
+} from '@/lib/tasks/recurrence'
+
+interface RecurrenceEditorProps {
+  value: string | null
+  onChange: (value: string | null) => void
+  // YYYY-MM-DD; the first occurrence, used for sensible defaults
+  dueDate?: string
+  disabled?: boolean
+}
+
+type EndMode = 'never' | 'count' | 'until'
+type MonthlyMode = 'day' | 'weekday' | 'last_weekday'
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth']
+
+function getDueDateParts(dueDate?: string) {
+  const date = dueDate && /^\d{4}-\d{2}-\d{2}$/.test(dueDate)
+    ? new Date(`${dueDate}T00:00:00Z`)
+    : new Date()
+  const day = dueDate ? date.getUTCDate() : date.getDate()
+  const weekdayPosition = ((dueDate ? date.getUTCDay() : date.getDay()) + 6) % 7
+  return {
+    day,
+    weekday: WEEKDAYS[weekdayPosition],
+    ordinal: Math.ceil(day / 7)
+  }
+}
+
+/**
+ * Picks how a task repeats and emits the matching RRULE
+ */
+export function RecurrenceEditor({ value, onChange, dueDate, disabled }: RecurrenceEditorProps) {
+  const rule = parseRecurrenceRule(value)
+  const dueParts = getDueDateParts(dueDate)
+
+  const update = (next: RecurrenceRule | null) => {
+    onChange(next ? serializeRecurrenceRule(next) : null)
+  }
+
+  const handleFrequencyChange = (freq: string) => {
+    if (freq === '__none') {
+      update(null)
+      return
+    }
+    update({
+      freq: freq as RecurrenceFrequency,
+      interval: rule?.interval || 1,
+      byDay: freq === 'WEEKLY' ? [{ weekday: dueParts.weekday.value }] : undefined,
+      count: rule?.count,
+      until: rule?.until
+    })
+  }
+
+  if (!rule) {
+    return (
+      <div className="space-y-2">
+        <Label>Repeat</Label>
+        <Select value="__none" onValueChange={handleFrequencyChange} disabled={disabled}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="__none">Does not repeat</SelectItem>
+            {RECURRENCE_FREQUENCIES.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    )
+  }
+
+  const unit = RECURRENCE_FREQUENCIES.find(option => option.value === rule.freq)!.unit
+  const endMode: EndMode = rule.count ? 'count' : rule.until ? 'until' : 'never'
+  const monthlyMode: MonthlyMode = rule.byDay?.[0]?.ordinal === -1
+    ? 'last_weekday'
+    : rule.byDay?.length ? 'weekday' : 'day'
+  const selectedWeekdays = new Set((rule.byDay || []).map(day => day.weekday))
+
+  const toggleWeekday = (weekday: Weekday) => {
+    const next = new Set(selectedWeekdays)
+    if (next.has(weekday)) {
+      next.delete(weekday)
+    } else {
+      next.add(weekday)
+    }
+    // A weekly rule always keeps at least one day
+    if (next.size === 0) return
+    update({
+      ...rule,
+      byDay: WEEKDAYS.filter(option => next.has(option.value)).map(option => ({ weekday: option.value }))
+    })
+  }
+
+  const handleMonthlyModeChange = (mode: string) => {
+    const weekday = dueParts.weekday.value
+    update({
+      ...rule,
+      byDay: mode === 'weekday'
+        ? [{ weekday, ordinal: Math.min(dueParts.ordinal, 4) }]
+        : mode === 'last_weekday' ? [{ weekday, ordinal: -1 }] : undefined
+    })
+  }
+
+  const handleEndModeChange = (mode: string) => {
+    update({
+      ...rule,
+      count: mode === 'count' ? rule.count || 10 : undefined,
+      until: mode === 'until' ? rule.until || dueDate || undefined : undefined
+    })
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label>Repeat</Label>
+          <Select value={rule.freq} onValueChange={handleFrequencyChange} disabled={disabled}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="__none">Does not repeat</SelectItem>
+              {RECURRENCE_FREQUENCIES.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="recurrence-interval">Every</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="recurrence-interval"
+              type="number"
+              min={1}
+              max={999}
+              value={rule.interval}
+              disabled={disabled}
+              onChange={e => update({ ...rule, interval: Math.min(999, Math.max(1, parseInt(e.target.value) || 1)) })}
+              className="w-24"
+            />
+            <span className="text-sm text-gray-600">{rule.interval === 1 ? unit : `${unit}s`}</span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Ends</Label>
+          <Select value={endMode} onValueChange={handleEndModeChange} disabled={disabled}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              <SelectItem value="count">After a number of times</SelectItem>
+              <SelectItem value="until">On a date</SelectItem>
+            </SelectContent>
+          </Select>
+          {endMode === 'count' && (
+            <Input
+              type="number"
+              min={1}
+              value={rule.count}
+              disabled={disabled}
+              onChange={e => update({ ...rule, count: Math.max(1, parseInt(e.target.value) || 1) })}
+            />
+          )}
+          {endMode === 'until' && (
+            <Input
+              type="date"
+              value={rule.until || ''}
+              disabled={disabled}
+              onChange={e => e.target.value && update({ ...rule, until: e.target.value })}
+            />
+          )}
+        </div>
+      </div>
+
+      {rule.freq === 'WEEKLY' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map(option => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={selectedWeekdays.has(option.value) ? 'default' : 'outline'}
+              disabled={disabled}
+              onClick={() => toggleWeekday(option.value)}
+            >
+              {option.short}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {rule.freq === 'MONTHLY' && (
+        <Select value={monthlyMode} onValueChange={handleMonthlyModeChange} disabled={disabled}>
+          <SelectTrigger className="md:w-1/2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day">On day {dueParts.day}</SelectItem>
+            <SelectItem value="weekday">
+              On the {ORDINALS[Math.min(dueParts.ordinal, 4) - 1]} {dueParts.weekday.label}
+            </SelectItem>
+            <SelectItem value="last_weekday">On the last {dueParts.weekday.label}</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      <p className="flex items-center gap-2 text-sm text-gray-600">
+        <Repeat className="h-4 w-4" />
+        {describeRecurrenceRule(rule)}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+'use client'
+
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Bell } from 'lucide-react'
+import {
+  DATE_ONLY_REMINDER_TIME,
+  MAX_REMINDER_OFFSETS,
+  TASK_REMINDER_OFFSETS,
+  getReminderOffsetLabel,
+  normalizeReminderOffsets
+} from '@/lib/tasks/reminders'
+
+interface ReminderOffsetsPickerProps {
+  // Minutes before the due time; null means the user's default reminders
+  value: number[] | null
+  onChange: (value: number[] | null) => void
+  // Offer "use my defaults" (null) - for a task, not for the defaults themselves
+  allowDefault?: boolean
+  defaultOffsets?: number[]
+  disabled?: boolean
+}
+
+/**
+ * Picks when to be reminded before a task is due
+ */
+export function ReminderOffsetsPicker({ value, onChange, allowDefault, defaultOffsets, disabled }: ReminderOffsetsPickerProps) {
+  const usingDefaults = allowDefault && value === null
+  const selected = value ?? defaultOffsets ?? []
+  // Keep offsets saved from elsewhere (an imported or older task) visible
+  const options = [
+    ...TASK_REMINDER_OFFSETS,
+    ...selected
+      .filter(offset => !TASK_REMINDER_OFFSETS.some(option => option.value === offset))
+      .map(offset => ({ value: offset, label: getReminderOffsetLabel(offset) }))
+  ]
+
+  const toggle = (offset: number, checked: boolean) => {
+    onChange(normalizeReminderOffsets(
+      checked ? [...selected, offset] : selected.filter(existing => existing !== offset)
+    ))
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        <Bell className="h-4 w-4" />
+        Reminders
+      </Label>
+      {allowDefault && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="reminders-use-defaults"
+            checked={usingDefaults}
+            onCheckedChange={checked => onChange(checked ? null : selected)}
+            disabled={disabled}
+          />
+          <Label htmlFor="reminders-use-defaults" className="font-normal">
+            Use my default reminders
+          </Label>
+        </div>
+      )}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {options.map(option => {
+          const checked = selected.includes(option.value)
+          return (
+            <div key={option.value} className="flex items-center gap-2">
+              <Checkbox
+                id={`reminder-${option.value}`}
+                checked={checked}
+                onCheckedChange={next => toggle(option.value, next as boolean)}
+                disabled={disabled || usingDefaults || (!checked && selected.length >= MAX_REMINDER_OFFSETS)}
+              />
+              <Label htmlFor={`reminder-${option.value}`} className="font-normal">
+                {option.label}
+              </Label>
+            </div>
+          )
+        })}
+      </div>
+      <p className="text-xs text-gray-500">
+        {selected.length === 0 && !usingDefaults
+          ? 'No reminders will be sent.'
+          : `Tasks due on a date without a time count back from ${DATE_ONLY_REMINDER_TIME}.`}
+      </p>
+    </div>
+  )
+}
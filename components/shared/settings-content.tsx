@@ -17,6 +17,8 @@ import { Share2 } from "lucide-react"
 import { SimpleBilling } from "@/components/shared/billing-simple"
 import { userProfileSchema, userPreferencesSchema, type UserProfileFormData, type UserPreferencesFormData } from "@/lib/validations"
 import { CommissionForm } from "@/components/settings/commission-form"
+import { CustomFieldsManager } from "@/components/settings/custom-fields-manager"
+import { TaskReminderSettings } from "@/components/settings/task-reminder-settings"
 import { TenantManagement } from "@/components/shared/tenant-management"
 import { GoogleConnect } from "@/components/shared/google-connect"
 
@@ -114,12 +116,16 @@ export function SettingsContent() {
         </CardContent>
       </Card>
 
+      <TaskReminderSettings />
+
       {/* Google Integration */}
       <GoogleConnect />
 
       {/* Organization & Team Management */}
       <TenantManagement />
 
+      <CustomFieldsManager />
+
       <CommissionForm onSuccess={() => setSuccess("Commission updated")} />
 
       {/* Billing Component - Fixed Import */}
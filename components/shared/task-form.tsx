@@ -11,10 +11,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { RecurrenceEditor } from '@/components/shared/recurrence-editor'
+import { ReminderOffsetsPicker } from '@/components/shared/reminder-offsets-picker'
 import { Loader2, Save, X } from 'lucide-react'
 import { useTasks } from '@/hooks/use-tasks'
 import { useClients } from '@/hooks/use-clients'
 import { useDeals } from '@/hooks/use-deals'
+import { type RecurrenceEditScope } from '@/lib/tasks/recurrence'
 import { z } from 'zod'
 
 const taskSchema = z.object({
@@ -25,7 +31,9 @@ const taskSchema = z.object({
   status: z.enum(['Pending', 'In Progress', 'Completed']).default('Pending'),
   type: z.enum(['Call', 'Email', 'Meeting', 'Document', 'Follow-up', 'Other']).default('Other'),
   clientId: z.string().optional(),
-  dealId: z.string().optional()
+  dealId: z.string().optional(),
+  recurrenceRule: z.string().nullable().optional(),
+  reminderOffsets: z.array(z.number()).nullable().optional()
 })
 
 type TaskFormData = z.infer<typeof taskSchema>
@@ -40,23 +48,33 @@ export function TaskForm({ task, mode }: TaskFormProps) {
   const { createTask, updateTask } = useTasks()
   const { clients } = useClients()
   const { deals } = useDeals()
+  const isRecurring = mode === 'edit' && !!task?.recurrenceRule
+  const [editScope, setEditScope] = useState<RecurrenceEditScope>('this')
+  const [shiftDependents, setShiftDependents] = useState(false)
+
+  const initialDueDate = task?.dueDate && task.dueDate !== 'No due date' && task.dueDate !== 'Today' && task.dueDate !== 'Tomorrow'
+    ? new Date(task.dueDate).toISOString().split('T')[0]
+    : ''
 
   const form = useForm<TaskFormData>({
     resolver: zodResolver(taskSchema),
     defaultValues: {
       title: task?.title ?? '',
       description: task?.description ?? '',
-      dueDate: task?.dueDate && task.dueDate !== 'No due date' && task.dueDate !== 'Today' && task.dueDate !== 'Tomorrow' 
-        ? new Date(task.dueDate).toISOString().split('T')[0] 
-        : '',
+      dueDate: initialDueDate,
       priority: task?.priority ?? 'Medium',
       status: task?.status ?? 'Pending',
       type: task?.type ?? 'Other',
       clientId: task?.clientId ?? 'none',
-      dealId: task?.dealId ?? 'none'
+      dealId: task?.dealId ?? 'none',
+      recurrenceRule: task?.recurrenceRule ?? null,
+      reminderOffsets: task?.reminderOffsets ?? null
     }
   })
 
+  const watchedDueDate = form.watch('dueDate')
+  const dueDateMoved = mode === 'edit' && !!initialDueDate && !!watchedDueDate && watchedDueDate !== initialDueDate
+
   const priorityOptions = [
     { value: 'Low', label: 'Low', color: 'bg-green-100 text-green-800' },
     { value: 'Medium', label: 'Medium', color: 'bg-yellow-100 text-yellow-800' },
@@ -88,14 +106,22 @@ export function TaskForm({ task, mode }: TaskFormProps) {
         status: data.status,
         type: data.type,
         clientId: data.clientId && data.clientId !== 'none' ? data.clientId : undefined,
-        dealId: data.dealId && data.dealId !== 'none' ? data.dealId : undefined
+        dealId: data.dealId && data.dealId !== 'none' ? data.dealId : undefined,
+        recurrenceRule: data.recurrenceRule ?? null,
+        reminderOffsets: data.reminderOffsets ?? null
       }
 
       let result
       if (mode === 'create') {
         result = await createTask(taskData)
       } else if (task) {
-        result = await updateTask(task.id, taskData)
+        // A single-occurrence edit leaves the series' repeat rule alone
+        result = await updateTask(
+          task.id,
+          isRecurring && editScope === 'this' ? { ...taskData, recurrenceRule: undefined } : taskData,
+          editScope,
+          shiftDependents && dueDateMoved
+        )
       }
 
       if (result) {
@@ -267,6 +293,69 @@ export function TaskForm({ task, mode }: TaskFormProps) {
                     </FormItem>
                   )}
                 />
+
+                {dueDateMoved && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="shift-dependents"
+                      checked={shiftDependents}
+                      onCheckedChange={checked => setShiftDependents(checked as boolean)}
+                    />
+                    <Label htmlFor="shift-dependents" className="font-normal">
+                      Also move open subtasks and tasks waiting on this one by the same number of days
+                    </Label>
+                  </div>
+                )}
+
+                {isRecurring && (
+                  <div className="space-y-2 rounded-lg bg-gray-50 p-4">
+                    <Label>This is a repeating task. Apply changes to</Label>
+                    <RadioGroup value={editScope} onValueChange={value => setEditScope(value as RecurrenceEditScope)}>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="this" id="scope-this" />
+                        <Label htmlFor="scope-this" className="font-normal">This occurrence</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="future" id="scope-future" />
+                        <Label htmlFor="scope-future" className="font-normal">This and all future occurrences</Label>
+                      </div>
+                    </RadioGroup>
+                  </div>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="recurrenceRule"
+                  render={({ field }) => (
+                    <FormItem>
+                      <RecurrenceEditor
+                        value={field.value ?? null}
+                        onChange={field.onChange}
+                        dueDate={watchedDueDate}
+                        disabled={isRecurring && editScope === 'this'}
+                      />
+                      {isRecurring && editScope === 'this' && (
+                        <p className="text-xs text-gray-500">Choose &ldquo;all future occurrences&rdquo; to change how this task repeats.</p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="reminderOffsets"
+                  render={({ field }) => (
+                    <FormItem>
+                      <ReminderOffsetsPicker
+                        value={field.value ?? null}
+                        onChange={field.onChange}
+                        allowDefault
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               {/* Associations */}
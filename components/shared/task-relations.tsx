@@ -0,0 +1,170 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, Lock, Plus, X } from 'lucide-react'
+import { useTasks } from '@/hooks/use-tasks'
+import { useTaskRelations } from '@/hooks/use-task-relations'
+import { isTaskCompleted, type RelatedTask } from '@/lib/tasks/dependencies'
+import { formatDate } from '@/lib/utils'
+
+interface TaskRelationsProps {
+  taskId: string
+}
+
+function RelatedTaskRow({ task, onRemove }: { task: RelatedTask; onRemove?: () => void }) {
+  const completed = isTaskCompleted(task.status)
+  return (
+    <div className="flex items-center justify-between gap-2 rounded border px-3 py-2 text-sm">
+      <span className={completed ? 'line-through text-gray-500' : 'text-gray-900'}>{task.title}</span>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        {task.due_date && <span className="text-xs text-gray-500">{formatDate(task.due_date)}</span>}
+        <Badge variant="outline" className={completed ? 'text-green-700' : ''}>{task.status}</Badge>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onRemove}>
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Checklist subtasks and "blocked by" links for one task
+ */
+export function TaskRelations({ taskId }: TaskRelationsProps) {
+  const { relations, loading, error, addBlocker, removeBlocker, addSubtask, setSubtaskCompleted } = useTaskRelations(taskId)
+  const { tasks } = useTasks()
+  const [subtaskTitle, setSubtaskTitle] = useState('')
+  const [blockerId, setBlockerId] = useState('__none')
+  const [saving, setSaving] = useState(false)
+
+  const linkedIds = new Set([taskId, ...relations.blocked_by.map(task => task.id)])
+  const blockerOptions = tasks.filter(task => !linkedIds.has(task.id) && !task.completed)
+  const subtasksDone = relations.subtasks.filter(subtask => isTaskCompleted(subtask.status)).length
+
+  const handleAddSubtask = async () => {
+    if (!subtaskTitle.trim()) return
+    setSaving(true)
+    if (await addSubtask(subtaskTitle.trim())) setSubtaskTitle('')
+    setSaving(false)
+  }
+
+  const handleAddBlocker = async () => {
+    if (blockerId === '__none') return
+    setSaving(true)
+    if (await addBlocker(blockerId)) setBlockerId('__none')
+    setSaving(false)
+  }
+
+  if (loading) {
+    return (
+      <Card className="max-w-4xl mx-auto mt-6">
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="max-w-4xl mx-auto mt-6">
+      <CardHeader>
+        <CardTitle>Checklist &amp; Dependencies</CardTitle>
+        <CardDescription>
+          {relations.parent
+            ? `This is a subtask of "${relations.parent.title}".`
+            : 'Break the task into steps and mark which tasks have to be done first.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!relations.parent && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">Subtasks</h3>
+              {relations.subtasks.length > 0 && (
+                <span className="text-xs text-gray-500">{subtasksDone} of {relations.subtasks.length} done</span>
+              )}
+            </div>
+            {relations.subtasks.map(subtask => (
+              <div key={subtask.id} className="flex items-center gap-3 text-sm">
+                <Checkbox
+                  checked={isTaskCompleted(subtask.status)}
+                  onCheckedChange={checked => setSubtaskCompleted(subtask.id, checked as boolean)}
+                />
+                <span className={isTaskCompleted(subtask.status) ? 'line-through text-gray-500' : ''}>{subtask.title}</span>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Input
+                placeholder="Add a subtask"
+                value={subtaskTitle}
+                onChange={e => setSubtaskTitle(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    handleAddSubtask()
+                  }
+                }}
+              />
+              <Button type="button" variant="outline" onClick={handleAddSubtask} disabled={saving || !subtaskTitle.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium flex items-center gap-2">
+            <Lock className="h-4 w-4" />
+            Blocked by
+          </h3>
+          {relations.blocked_by.length === 0 && (
+            <p className="text-sm text-gray-500">Nothing has to happen before this task.</p>
+          )}
+          {relations.blocked_by.map(blocker => (
+            <RelatedTaskRow key={blocker.id} task={blocker} onRemove={() => removeBlocker(blocker.id)} />
+          ))}
+          <div className="flex gap-2">
+            <Select value={blockerId} onValueChange={setBlockerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a task" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="__none">Choose a task that must finish first</SelectItem>
+                {blockerOptions.map(task => (
+                  <SelectItem key={task.id} value={task.id}>{task.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="button" variant="outline" onClick={handleAddBlocker} disabled={saving || blockerId === '__none'}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {relations.blocking.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">Waiting on this task</h3>
+            {relations.blocking.map(task => (
+              <RelatedTaskRow key={task.id} task={task} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
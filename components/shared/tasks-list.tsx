@@ -8,9 +8,11 @@ import { Button } from "@/components/ui/button"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { MoreHorizontal, Calendar, Loader2, AlertCircle, Plus } from "lucide-react"
+import { MoreHorizontal, Calendar, Loader2, AlertCircle, AlertTriangle, Plus, Repeat, ListChecks, Lock } from "lucide-react"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { useTasks } from "@/hooks/use-tasks"
+import { describeRecurrenceRule, parseRecurrenceRule } from "@/lib/tasks/recurrence"
+import { describeDependencyViolation, getDependencyViolations, getOpenBlockers } from "@/lib/tasks/dependencies"
 
 interface TasksListProps {
   search?: string
@@ -114,6 +116,9 @@ export function TasksList({ search = '', status = '', priority = '', dueSoon = f
         const isUpdating = updatingId === task.id
         const isDeleting = deletingId === task.id
         const isOverdue = task.dueDate === "Yesterday"
+        const recurrence = parseRecurrenceRule(task.recurrenceRule)
+        const violations = getDependencyViolations({ status: task.status, due_date: task.rawDueDate ?? null }, task.blockers || [])
+        const openBlockers = getOpenBlockers(task.blockers || [])
 
         return (
           <Card key={task.id} className={`hover:shadow-md transition-shadow ${task.completed ? "opacity-60" : ""}`}>
@@ -138,13 +143,45 @@ export function TasksList({ search = '', status = '', priority = '', dueSoon = f
                           {task.priority}
                         </Badge>
                         <Badge variant="outline">{task.type}</Badge>
+                        {!!task.subtaskCount && (
+                          <Badge variant="outline" className="gap-1">
+                            <ListChecks className="h-3 w-3" />
+                            {task.subtasksCompleted}/{task.subtaskCount}
+                          </Badge>
+                        )}
+                        {recurrence && (
+                          <Badge variant="outline" className="gap-1">
+                            <Repeat className="h-3 w-3" />
+                            {describeRecurrenceRule(recurrence)}
+                          </Badge>
+                        )}
                       </div>
                     </div>
 
+                    {task.parent && (
+                      <p className="text-xs text-gray-500">Subtask of {task.parent.title}</p>
+                    )}
+
                     {task.description && (
                       <p className="text-sm text-gray-600 line-clamp-2">{task.description}</p>
                     )}
 
+                    {violations.length > 0 ? (
+                      <div className="space-y-1">
+                        {violations.map(violation => (
+                          <p key={violation.blocker.id} className="flex items-center gap-1 text-xs text-red-600">
+                            <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                            {describeDependencyViolation(violation)}
+                          </p>
+                        ))}
+                      </div>
+                    ) : openBlockers.length > 0 && !task.completed && (
+                      <p className="flex items-center gap-1 text-xs text-gray-500">
+                        <Lock className="h-3 w-3 flex-shrink-0" />
+                        Waiting on {openBlockers.map(blocker => blocker.title).join(', ')}
+                      </p>
+                    )}
+
                     <div className="flex flex-col sm:flex-row gap-2 sm:gap-4 text-sm text-gray-500">
                       {task.client && (
                         <div className="flex items-center gap-2 min-w-0">
@@ -0,0 +1,150 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { apiFetch } from '@/lib/api-fetch'
+import type { ScheduleItem } from '@/lib/calendar/schedule'
+import type { CalendarFeed } from '@/lib/calendar/ical'
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => ({}))
+  return data.details?.[0]?.message || data.error || fallback
+}
+
+/**
+ * Everything on the calendar between two dates (YYYY-MM-DD, inclusive)
+ */
+export function useCalendarItems(from: string, to: string) {
+  const [items, setItems] = useState<ScheduleItem[]>([])
+  const [timeZone, setTimeZone] = useState<string | undefined>(undefined)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchItems = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetch(`/api/calendar/items?from=${from}&to=${to}`, { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load calendar'))
+      }
+      const data = await response.json()
+      setItems(data.items || [])
+      setTimeZone(data.time_zone || undefined)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [from, to])
+
+  useEffect(() => {
+    fetchItems()
+  }, [fetchItems])
+
+  /**
+   * Move an item to another day. The item moves right away and goes back if the server refuses
+   */
+  const moveItem = async (item: ScheduleItem, date: string): Promise<boolean> => {
+    if (!item.reschedulable || item.date === date) return false
+
+    const previous = items
+    setItems(current => current.map(entry => entry.id === item.id ? { ...entry, date } : entry))
+
+    try {
+      setError(null)
+      const response = await apiFetch('/api/calendar/items', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ source: item.source, id: item.source_id, date })
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to move item'))
+      }
+      // Reload so times, linked tasks and repeating projections reflect the move
+      await fetchItems()
+      return true
+    } catch (err) {
+      setItems(previous)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  return {
+    items,
+    timeZone,
+    loading,
+    error,
+    moveItem,
+    refreshItems: fetchItems
+  }
+}
+
+/**
+ * The user's iCalendar subscription. The URL itself is only known right after it's created
+ */
+export function useCalendarFeed() {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchFeed = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch('/api/calendar/feed-token', { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load calendar subscription'))
+      }
+      const data = await response.json()
+      setFeed(data.feed || null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchFeed()
+  }, [fetchFeed])
+
+  const createFeed = async (): Promise<{ url: string; webcal_url: string } | null> => {
+    try {
+      setError(null)
+      const response = await apiFetch('/api/calendar/feed-token', { method: 'POST', credentials: 'include' })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to create calendar subscription'))
+      }
+      const data = await response.json()
+      setFeed(data.feed)
+      return { url: data.url, webcal_url: data.webcal_url }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return null
+    }
+  }
+
+  const revokeFeed = async (): Promise<boolean> => {
+    try {
+      setError(null)
+      const response = await apiFetch('/api/calendar/feed-token', { method: 'DELETE', credentials: 'include' })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to turn off calendar subscription'))
+      }
+      setFeed(null)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  return {
+    feed,
+    loading,
+    error,
+    createFeed,
+    revokeFeed
+  }
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { ClientConsent, ConsentChannel, ConsentEvent, ConsentSource, ConsentStatus } from '@/lib/clients/consent'
+
+export interface ConsentChangeInput {
+  channels: ConsentChannel[]
+  status: ConsentStatus
+  source: ConsentSource
+  consent_text?: string
+}
+
+export interface ConsentReportFilters {
+  channel?: ConsentChannel
+  from?: string
+  to?: string
+}
+
+export interface ConsentReportSummary {
+  total: number
+  opted_out: number
+  opted_in: number
+}
+
+export function useClientConsent(clientId: string) {
+  const [consents, setConsents] = useState<ClientConsent[]>([])
+  const [events, setEvents] = useState<ConsentEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchConsent = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch(`/api/clients/${clientId}/consent`, { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch consent')
+      }
+      const data = await response.json()
+      setConsents(data.consents || [])
+      setEvents(data.events || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchConsent()
+  }, [fetchConsent])
+
+  const recordConsent = async (input: ConsentChangeInput): Promise<boolean> => {
+    try {
+      setError(null)
+      const response = await fetch(`/api/clients/${clientId}/consent`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(input)
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to record consent')
+      }
+      setConsents(data.consents || [])
+      setEvents(data.events || [])
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  return { consents, events, loading, error, recordConsent, refreshConsent: fetchConsent }
+}
+
+function reportParams(filters: ConsentReportFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.channel) params.set('channel', filters.channel)
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  return params
+}
+
+export function getConsentReportCsvUrl(filters: ConsentReportFilters): string {
+  const params = reportParams(filters)
+  params.set('format', 'csv')
+  return `/api/compliance/consent-report?${params.toString()}`
+}
+
+export function useConsentReport(filters: ConsentReportFilters) {
+  const [events, setEvents] = useState<ConsentEvent[]>([])
+  const [summary, setSummary] = useState<ConsentReportSummary>({ total: 0, opted_out: 0, opted_in: 0 })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { channel, from, to } = filters
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const params = reportParams({ channel, from, to })
+      const response = await fetch(`/api/compliance/consent-report?${params.toString()}`, { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch consent report')
+      }
+      const data = await response.json()
+      setEvents(data.events || [])
+      setSummary(data.summary || { total: 0, opted_out: 0, opted_in: 0 })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [channel, from, to])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  return { events, summary, loading, error, refreshReport: fetchReport }
+}
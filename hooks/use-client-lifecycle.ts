@@ -0,0 +1,96 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { clearCache } from '@/lib/cache-utils'
+import { SPHERE_STALE_DAYS, type LifecycleHistoryEntry, type LifecycleStage, type SphereContact } from '@/lib/clients/lifecycle'
+
+export function useClientLifecycle(clientId: string, initialStage: LifecycleStage) {
+  const [stage, setStage] = useState<LifecycleStage>(initialStage)
+  const [history, setHistory] = useState<LifecycleHistoryEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setStage(initialStage)
+  }, [initialStage])
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch(`/api/clients/${clientId}/lifecycle`, { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch lifecycle history')
+      }
+      const data = await response.json()
+      setHistory(data.history || [])
+      // Deal outcomes can move the stage after the client record was loaded
+      if (data.history?.[0]) setStage(data.history[0].to_stage)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  const changeStage = async (nextStage: LifecycleStage, reason?: string): Promise<boolean> => {
+    try {
+      setError(null)
+      const response = await fetch(`/api/clients/${clientId}/lifecycle`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ stage: nextStage, reason: reason || undefined })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to change stage')
+      }
+      setStage(nextStage)
+      setHistory(data.history || [])
+      clearCache('clients')
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  return { stage, history, loading, error, changeStage, refreshHistory: fetchHistory }
+}
+
+export function useSphereContacts(minDays = 0) {
+  const [contacts, setContacts] = useState<SphereContact[]>([])
+  const [staleAfterDays, setStaleAfterDays] = useState(SPHERE_STALE_DAYS)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchContacts = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const params = new URLSearchParams()
+      if (minDays > 0) params.set('minDays', String(minDays))
+      const response = await fetch(`/api/clients/sphere?${params.toString()}`, { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch sphere contacts')
+      }
+      const data = await response.json()
+      setContacts(data.contacts || [])
+      setStaleAfterDays(data.staleAfterDays || SPHERE_STALE_DAYS)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [minDays])
+
+  useEffect(() => {
+    fetchContacts()
+  }, [fetchContacts])
+
+  return { contacts, staleAfterDays, loading, error, refreshContacts: fetchContacts }
+}
@@ -0,0 +1,134 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { clearCache } from '@/lib/cache-utils'
+import type { ClientRelationshipGraph, RelationshipType } from '@/lib/clients/relationships'
+
+interface AddRelationshipParams {
+  relatedClientId: string
+  type: RelationshipType
+  notes?: string
+  addToHousehold?: boolean
+}
+
+interface HouseholdChanges {
+  name?: string
+  address?: string | null
+  addMemberIds?: string[]
+  removeMemberIds?: string[]
+  applyAddressToMembers?: boolean
+}
+
+export interface UseClientRelationshipsReturn extends ClientRelationshipGraph {
+  loading: boolean
+  error: string | null
+  addRelationship: (params: AddRelationshipParams) => Promise<boolean>
+  removeRelationship: (relationshipId: string) => Promise<boolean>
+  createHousehold: (name: string, address: string | null, memberIds: string[]) => Promise<boolean>
+  updateHousehold: (changes: HouseholdChanges) => Promise<boolean>
+  refreshRelationships: () => Promise<void>
+}
+
+const EMPTY_GRAPH: ClientRelationshipGraph = { relationships: [], household: null }
+
+export function useClientRelationships(clientId: string): UseClientRelationshipsReturn {
+  const [graph, setGraph] = useState<ClientRelationshipGraph>(EMPTY_GRAPH)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchGraph = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch(`/api/clients/${clientId}/relationships`, { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch relationships')
+      }
+      const data = await response.json()
+      setGraph({ relationships: data.relationships || [], household: data.household || null })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchGraph()
+  }, [fetchGraph])
+
+  // Runs a mutation, surfacing the API's message on failure
+  const mutate = async (url: string, method: string, body?: unknown): Promise<any> => {
+    setError(null)
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: body ? JSON.stringify(body) : undefined
+    })
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(data.details?.[0]?.message || data.error || 'Request failed')
+    }
+    // Household membership feeds deal party pickers elsewhere
+    clearCache('households')
+    return data
+  }
+
+  const run = async (action: () => Promise<void>): Promise<boolean> => {
+    try {
+      await action()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  const addRelationship = ({ relatedClientId, type, notes, addToHousehold }: AddRelationshipParams) => run(async () => {
+    const data = await mutate(`/api/clients/${clientId}/relationships`, 'POST', {
+      related_client_id: relatedClientId,
+      relationship_type: type,
+      notes: notes || null,
+      add_to_household: addToHousehold
+    })
+    setGraph({ relationships: data.relationships || [], household: data.household || null })
+  })
+
+  const removeRelationship = (relationshipId: string) => run(async () => {
+    const data = await mutate(`/api/clients/${clientId}/relationships?relationshipId=${relationshipId}`, 'DELETE')
+    setGraph({ relationships: data.relationships || [], household: data.household || null })
+  })
+
+  const createHousehold = (name: string, address: string | null, memberIds: string[]) => run(async () => {
+    const data = await mutate('/api/households', 'POST', {
+      name,
+      address,
+      member_ids: Array.from(new Set([clientId, ...memberIds]))
+    })
+    setGraph(prev => ({ ...prev, household: data.household }))
+  })
+
+  const updateHousehold = (changes: HouseholdChanges) => run(async () => {
+    if (!graph.household) throw new Error('Client is not in a household')
+    const data = await mutate(`/api/households/${graph.household.id}`, 'PUT', {
+      name: changes.name,
+      address: changes.address,
+      add_member_ids: changes.addMemberIds,
+      remove_member_ids: changes.removeMemberIds,
+      apply_address_to_members: changes.applyAddressToMembers
+    })
+    const stillMember = data.household.members.some((member: { id: string }) => member.id === clientId)
+    setGraph(prev => ({ ...prev, household: stillMember ? data.household : null }))
+  })
+
+  return {
+    ...graph,
+    loading,
+    error,
+    addRelationship,
+    removeRelationship,
+    createHousehold,
+    updateHousehold,
+    refreshRelationships: fetchGraph
+  }
+}
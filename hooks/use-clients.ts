@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback } from 'react'
 import { refreshDashboardMetrics } from '@/components/features/analytics/dashboard-metrics'
 import { getCache, setCache, clearCache, generateCacheKey } from '@/lib/cache-utils'
+import { getCustomFieldFilterParams, type CustomFieldFilter, type CustomFieldValues } from '@/lib/custom-fields/fields'
+import type { LifecycleStage } from '@/lib/clients/lifecycle'
 
 export interface Client {
   id: string;
@@ -14,19 +16,23 @@ export interface Client {
   address: string
   company: string
   status: 'Buyer' | 'Seller' | 'In Contract'
+  lifecycle_stage?: LifecycleStage | null
   statusColor: string
   lastContact: string
   dealValue: string
   initials: string
+  custom_fields?: CustomFieldValues
 }
 
 interface UseClientsParams {
   search?: string
   status?: string
+  lifecycleStage?: string
   page?: number
   limit?: number
   sortBy?: string
   sortOrder?: 'asc' | 'desc'
+  customFieldFilters?: CustomFieldFilter[]
 }
 
 interface UseClientsReturn {
@@ -41,7 +47,7 @@ interface UseClientsReturn {
   createClient: (clientData: Omit<Client, 'id' | 'name' | 'initials' | 'statusColor' | 'lastContact' | 'dealValue'>) => Promise<Client | null>
   updateClient: (id: string, clientData: Partial<Client>) => Promise<Client | null>
   deleteClient: (id: string) => Promise<boolean>
-  exportClients: () => Promise<void>
+  exportClients: (format?: 'csv' | 'vcf') => Promise<void>
   importClients: (file: File) => Promise<boolean>
 }
 
@@ -76,10 +82,12 @@ export function useClients(params: UseClientsParams = {}): UseClientsReturn {
       const searchParams = new URLSearchParams()
       if (params.search) searchParams.set('search', params.search)
       if (params.status) searchParams.set('status', params.status)
+      if (params.lifecycleStage) searchParams.set('lifecycle_stage', params.lifecycleStage)
       if (params.page) searchParams.set('page', params.page.toString())
       if (params.limit) searchParams.set('limit', params.limit.toString())
       if (params.sortBy) searchParams.set('sortBy', params.sortBy)
       if (params.sortOrder) searchParams.set('sortOrder', params.sortOrder)
+      getCustomFieldFilterParams(params.customFieldFilters || []).forEach(([name, value]) => searchParams.append(name, value))
 
       const response = await fetch(`/api/clients?${searchParams.toString()}`, {
         credentials: 'include'
@@ -108,7 +116,7 @@ export function useClients(params: UseClientsParams = {}): UseClientsReturn {
     } finally {
       setLoading(false)
     }
-  }, [params.search, params.status, params.page, params.limit, params.sortBy, params.sortOrder])
+  }, [params.search, params.status, params.lifecycleStage, params.page, params.limit, params.sortBy, params.sortOrder, JSON.stringify(params.customFieldFilters)])
 
   const createClient = async (clientData: Omit<Client, 'id' | 'name' | 'initials' | 'statusColor' | 'lastContact' | 'dealValue'>): Promise<Client | null> => {
     try {
@@ -187,7 +195,8 @@ export function useClients(params: UseClientsParams = {}): UseClientsReturn {
       })
 
       if (!response.ok) {
-        throw new Error('Failed to update client')
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details?.[0]?.message || 'Failed to update client')
       }
 
       const updatedClient = await response.json()
@@ -242,7 +251,7 @@ export function useClients(params: UseClientsParams = {}): UseClientsReturn {
     }
   }
 
-  const exportClients = async (): Promise<void> => {
+  const exportClients = async (format: 'csv' | 'vcf' = 'csv'): Promise<void> => {
     try {
       setError(null)
 
@@ -252,7 +261,8 @@ export function useClients(params: UseClientsParams = {}): UseClientsReturn {
       if (params.status) searchParams.set('status', params.status)
       if (params.sortBy) searchParams.set('sortBy', params.sortBy)
       if (params.sortOrder) searchParams.set('sortOrder', params.sortOrder)
-      searchParams.set('export', 'csv')
+      getCustomFieldFilterParams(params.customFieldFilters || []).forEach(([name, value]) => searchParams.append(name, value))
+      searchParams.set('export', format)
 
       const response = await fetch(`/api/clients?${searchParams.toString()}`, {
         credentials: 'include'
@@ -267,7 +277,7 @@ export function useClients(params: UseClientsParams = {}): UseClientsReturn {
       const url = window.URL.createObjectURL(blob)
       const a = document.createElement('a')
       a.href = url
-      a.download = 'clients.csv'
+      a.download = `clients.${format}`
       document.body.appendChild(a)
       a.click()
       document.body.removeChild(a)
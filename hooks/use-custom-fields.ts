@@ -0,0 +1,76 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { getCache, setCache, generateCacheKey } from '@/lib/cache-utils'
+import type { CustomFieldDefinition, CustomFieldEntity } from '@/lib/custom-fields/fields'
+
+interface CustomFieldsResponse {
+  fields: CustomFieldDefinition[]
+  limit: number
+  used: number
+}
+
+interface UseCustomFieldsReturn {
+  fields: CustomFieldDefinition[]
+  // Plan allowance across all entities; -1 is unlimited
+  limit: number
+  used: number
+  loading: boolean
+  error: string | null
+  refreshFields: () => Promise<void>
+}
+
+/**
+ * Custom field definitions for the user's tenant, optionally for one entity
+ */
+export function useCustomFields(entity?: CustomFieldEntity): UseCustomFieldsReturn {
+  const [data, setData] = useState<CustomFieldsResponse>({ fields: [], limit: 0, used: 0 })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchFields = useCallback(async () => {
+    const cacheKey = generateCacheKey('custom-fields', { entity: entity || 'all' })
+
+    try {
+      const cached = getCache<CustomFieldsResponse>(cacheKey)
+      if (cached) {
+        setData(cached)
+        setLoading(false)
+      }
+
+      setError(null)
+
+      const query = entity ? `?entity=${entity}` : ''
+      const response = await fetch(`/api/custom-fields${query}`, { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch custom fields')
+      }
+
+      const result = await response.json()
+      const loaded: CustomFieldsResponse = {
+        fields: result.fields || [],
+        limit: result.limit ?? 0,
+        used: result.used ?? 0
+      }
+      setData(loaded)
+      setCache(cacheKey, loaded)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [entity])
+
+  useEffect(() => {
+    fetchFields()
+  }, [fetchFields])
+
+  return {
+    fields: data.fields,
+    limit: data.limit,
+    used: data.used,
+    loading,
+    error,
+    refreshFields: fetchFields
+  }
+}
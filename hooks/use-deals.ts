@@ -3,6 +3,14 @@
 import { createResourceHook, type ResourceOptions } from './use-resource'
 import { type Deal } from '@/lib/types'
 import { refreshDashboardMetrics } from '@/components/features/analytics/dashboard-metrics'
+import { DEFAULT_PIPELINE_STAGES, findStage, getStageColorClasses } from '@/lib/pipeline/stages'
+
+export interface StageMoveResult {
+  deal: Deal | null
+  error?: string
+  // Set when a transition guard rejected the move, e.g. 'REASON_REQUIRED'
+  code?: string
+}
 
 interface UseDealsOptions extends ResourceOptions {
   status?: string
@@ -17,21 +25,10 @@ interface UseDealsOptions extends ResourceOptions {
 }
 
 // Utility functions for deal data transformation
+// Colors come from the stage definitions; unknown stages fall back to gray
 const getStatusColor = (status: string): string => {
-  switch (status?.toLowerCase()) {
-    case 'qualified':
-      return 'bg-gray-100 text-gray-800'
-    case 'in progress':
-      return 'bg-blue-100 text-blue-800'
-    case 'under contract':
-      return 'bg-yellow-100 text-yellow-800'
-    case 'closed':
-      return 'bg-green-100 text-green-800'
-    case 'lost':
-      return 'bg-red-100 text-red-800'
-    default:
-      return 'bg-gray-100 text-gray-800'
-  }
+  const stage = findStage(DEFAULT_PIPELINE_STAGES, status)
+  return getStageColorClasses(stage?.color || 'gray').badge
 }
 
 const formatCurrency = (amount: number | null): string => {
@@ -59,26 +56,33 @@ const transformDealData = (dealData: any): Deal => {
   return {
     id: dealData.id,
     clientId: dealData.client_id,
+    householdId: dealData.household_id || null,
     title: dealData.title || clientName,
     value: formatCurrency(dealData.value),
-    status: dealData.status as Deal['status'],
+    status: dealData.status || '',
     statusColor: getStatusColor(dealData.status),
+    pipelineId: dealData.pipeline_id || undefined,
     probability: dealData.probability || 0,
     expectedCloseDate: formatDate(dealData.expected_close_date),
     commission: formatCurrency(dealData.commission),
+    commissionParticipants: (dealData.deal_commission_participants || []).map((participant: any) => ({
+      ...participant,
+      amount: parseFloat(participant.amount) || 0
+    })),
     property: {
       address: dealData.property_address || '',
       type: dealData.property_type || '',
       bedrooms: dealData.property_bedrooms,
       bathrooms: dealData.property_bathrooms,
       sqft: dealData.property_sqft
-    }
+    },
+    customFields: dealData.custom_fields || {}
   }
 }
 
 const useDealsResource = createResourceHook<Deal>({
   tableName: 'deals',
-  selectQuery: `*, clients (id, first_name, last_name, email, status)`,
+  selectQuery: `*, clients (id, first_name, last_name, email, status), deal_commission_participants (id, deal_id, role, participant_user_id, name, amount_type, amount, position)`,
   transformData: transformDealData,
   defaultOrderBy: { column: 'created_at', ascending: false }
 })
@@ -121,7 +125,8 @@ export function useDeals(options: UseDealsOptions = {}) {
       ...transformDealData({
         ...dealData,
         id: tempId,
-        status: dealData.status || 'Qualified',
+        status: dealData.status || '',
+        pipeline_id: dealData.pipelineId,
         value: dealData.value ? parseFloat(dealData.value.replace(/[$,]/g, '')) : 0,
         commission: dealData.commission ? parseFloat(dealData.commission.replace(/[$,]/g, '')) : 0,
         created_at: new Date().toISOString()
@@ -134,17 +139,20 @@ export function useDeals(options: UseDealsOptions = {}) {
     try {
       const requestData = {
         client_id: dealData.clientId,
+        household_id: dealData.householdId || null,
         title: dealData.title,
         value: dealData.value ? parseFloat(dealData.value.replace(/[$,]/g, '')) : 0,
-        status: dealData.status || 'Qualified',
-        probability: dealData.probability || 0,
+        status: dealData.status,
+        pipeline_id: dealData.pipelineId,
+        probability: dealData.probability,
         expected_close_date: dealData.expectedCloseDate || null,
         commission: dealData.commission ? parseFloat(dealData.commission.replace(/[$,]/g, '')) : 0,
         property_address: dealData.property?.address || '',
         property_type: dealData.property?.type || '',
         property_bedrooms: dealData.property?.bedrooms || null,
         property_bathrooms: dealData.property?.bathrooms || null,
-        property_sqft: dealData.property?.sqft || null
+        property_sqft: dealData.property?.sqft || null,
+        custom_fields: dealData.customFields
       }
 
       // Get CSRF token from cookie
@@ -201,11 +209,14 @@ export function useDeals(options: UseDealsOptions = {}) {
       if (dealData.title !== undefined) updateData.title = dealData.title
       if (dealData.value !== undefined) updateData.value = parseFloat(dealData.value.replace(/[$,]/g, ''))
       if (dealData.status !== undefined) updateData.status = dealData.status
+      if (dealData.pipelineId !== undefined) updateData.pipeline_id = dealData.pipelineId
       if (dealData.probability !== undefined) updateData.probability = dealData.probability
       if (dealData.expectedCloseDate !== undefined) updateData.expected_close_date = dealData.expectedCloseDate
       if (dealData.commission !== undefined) updateData.commission = parseFloat(dealData.commission.replace(/[$,]/g, ''))
       if (dealData.property?.address !== undefined) updateData.property_address = dealData.property.address
       if (dealData.property?.type !== undefined) updateData.property_type = dealData.property.type
+      if (dealData.householdId !== undefined) updateData.household_id = dealData.householdId
+      if (dealData.customFields !== undefined) updateData.custom_fields = dealData.customFields
       // ... allow other fields
 
       // Get CSRF token from cookie
@@ -241,6 +252,48 @@ export function useDeals(options: UseDealsOptions = {}) {
     }
   }
 
+  // Kanban moves: optimistic like updateDeal, but surfaces the guard error so the board can react
+  const moveDealStage = async (id: string, status: string, reason?: string, pipelineId?: string): Promise<StageMoveResult> => {
+    const previousDeals = [...deals]
+
+    setData(deals.map(d =>
+      d.id === id ? { ...d, status, statusColor: getStatusColor(status) } : d
+    ))
+
+    try {
+      const csrfToken = document.cookie
+        .split(';')
+        .find(c => c.trim().startsWith('csrf-token-client='))
+        ?.split('=')[1]
+
+      const response = await fetch(`/api/deals/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(csrfToken && { 'x-csrf-token': decodeURIComponent(csrfToken) })
+        },
+        credentials: 'include',
+        body: JSON.stringify({ status, pipeline_id: pipelineId, stage_change_reason: reason }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        setData(previousDeals)
+        return { deal: null, error: errorData.error || 'Failed to move deal', code: errorData.code }
+      }
+
+      const transformedDeal = transformDealData(await response.json())
+      setData(previousDeals.map(deal => deal.id === id ? transformedDeal : deal))
+      refreshDashboardMetrics()
+
+      return { deal: transformedDeal }
+    } catch (error) {
+      setData(previousDeals)
+      console.error('Error moving deal:', error)
+      return { deal: null, error: 'Failed to move deal' }
+    }
+  }
+
   return {
     deals,
     loading,
@@ -248,6 +301,7 @@ export function useDeals(options: UseDealsOptions = {}) {
     totalCount,
     createDeal,
     updateDeal,
+    moveDealStage,
     deleteDeal: async (id: string) => {
       const previousDeals = [...deals]
       // Optimistic Update
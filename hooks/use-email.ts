@@ -8,6 +8,8 @@ interface SendEmailParams {
   message: string
   clientId?: string
   templateId?: string
+  // Also send to the other members of the client's household
+  includeHousehold?: boolean
 }
 
 interface EmailHistory {
@@ -55,7 +57,7 @@ export function useEmail(): UseEmailReturn {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const sendEmail = async ({ to, subject, message, clientId, templateId }: SendEmailParams): Promise<boolean> => {
+  const sendEmail = async ({ to, subject, message, clientId, templateId, includeHousehold }: SendEmailParams): Promise<boolean> => {
     setLoading(true)
     setError(null)
 
@@ -71,7 +73,8 @@ export function useEmail(): UseEmailReturn {
           subject,
           message,
           clientId,
-          templateId
+          templateId,
+          includeHousehold
         }),
       })
 
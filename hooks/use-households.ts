@@ -0,0 +1,62 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { getCache, setCache, generateCacheKey } from '@/lib/cache-utils'
+import type { HouseholdWithMembers } from '@/lib/clients/relationships'
+
+interface UseHouseholdsReturn {
+  households: HouseholdWithMembers[]
+  loading: boolean
+  error: string | null
+  // The household a client belongs to, if any
+  getClientHousehold: (clientId?: string | null) => HouseholdWithMembers | undefined
+  refreshHouseholds: () => Promise<void>
+}
+
+export function useHouseholds(): UseHouseholdsReturn {
+  const [households, setHouseholds] = useState<HouseholdWithMembers[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchHouseholds = useCallback(async () => {
+    const cacheKey = generateCacheKey('households', {})
+
+    try {
+      const cached = getCache<HouseholdWithMembers[]>(cacheKey)
+      if (cached) {
+        setHouseholds(cached)
+        setLoading(false)
+      }
+
+      setError(null)
+
+      const response = await fetch('/api/households', { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch households')
+      }
+
+      const data = await response.json()
+      const loaded: HouseholdWithMembers[] = data.households || []
+      setHouseholds(loaded)
+      setCache(cacheKey, loaded)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchHouseholds()
+  }, [fetchHouseholds])
+
+  return {
+    households,
+    loading,
+    error,
+    getClientHousehold: (clientId?: string | null) => clientId
+      ? households.find(household => household.members.some(member => member.id === clientId))
+      : undefined,
+    refreshHouseholds: fetchHouseholds
+  }
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { getCache, setCache, generateCacheKey } from '@/lib/cache-utils'
+import { DEFAULT_PIPELINE, resolvePipeline, type PipelineDefinition, type PipelineStage } from '@/lib/pipeline/stages'
+
+interface UsePipelinesReturn {
+  pipelines: PipelineDefinition[]
+  defaultPipeline: PipelineDefinition
+  // Every stage across the tenant's pipelines, for category lookups on mixed deal lists
+  allStages: PipelineStage[]
+  loading: boolean
+  error: string | null
+  getPipeline: (pipelineId?: string | null) => PipelineDefinition
+  refreshPipelines: () => Promise<void>
+}
+
+export function usePipelines(): UsePipelinesReturn {
+  const [pipelines, setPipelines] = useState<PipelineDefinition[]>([DEFAULT_PIPELINE])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPipelines = useCallback(async () => {
+    const cacheKey = generateCacheKey('pipelines', {})
+
+    try {
+      const cached = getCache<PipelineDefinition[]>(cacheKey)
+      if (cached) {
+        setPipelines(cached)
+        setLoading(false)
+      }
+
+      setError(null)
+
+      const response = await fetch('/api/pipelines', { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch pipelines')
+      }
+
+      const data = await response.json()
+      const loaded: PipelineDefinition[] = data.pipelines?.length ? data.pipelines : [DEFAULT_PIPELINE]
+      setPipelines(loaded)
+      setCache(cacheKey, loaded)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPipelines()
+  }, [fetchPipelines])
+
+  const allStages = useMemo(() => {
+    const seen = new Set<string>()
+    return pipelines.flatMap(pipeline => pipeline.stages).filter(stage => {
+      const key = stage.name.toLowerCase()
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }, [pipelines])
+
+  return {
+    pipelines,
+    defaultPipeline: resolvePipeline(pipelines),
+    allStages,
+    loading,
+    error,
+    getPipeline: (pipelineId?: string | null) => resolvePipeline(pipelines, pipelineId),
+    refreshPipelines: fetchPipelines
+  }
+}
@@ -0,0 +1,115 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { PortalLink } from '@/lib/transactions/portal'
+
+export interface PortalSharableDocument {
+  id: string
+  document_name: string
+  document_type: string
+  is_locked: boolean | null
+  shared_with_client: boolean | null
+}
+
+export interface UsePortalLinksReturn {
+  links: PortalLink[]
+  documents: PortalSharableDocument[]
+  loading: boolean
+  error: string | null
+  // Resolves to the new link's URL, which is only available at creation
+  createLink: (expiresInDays: number) => Promise<string | null>
+  revokeLink: (linkId: string) => Promise<boolean>
+  setDocumentShared: (documentId: string, shared: boolean) => Promise<boolean>
+  refreshLinks: () => Promise<void>
+}
+
+async function send(url: string, method: string, body?: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.details?.[0]?.message || data.error || 'Request failed')
+  }
+  return data
+}
+
+export function usePortalLinks(transactionId: string): UsePortalLinksReturn {
+  const [links, setLinks] = useState<PortalLink[]>([])
+  const [documents, setDocuments] = useState<PortalSharableDocument[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      setError(null)
+      const [linksResponse, documentsResponse] = await Promise.all([
+        fetch(`/api/portal-links?transaction_id=${transactionId}`, { credentials: 'include' }),
+        fetch(`/api/transaction-documents?transaction_id=${transactionId}`, { credentials: 'include' })
+      ])
+      if (!linksResponse.ok || !documentsResponse.ok) {
+        throw new Error('Failed to fetch client portal')
+      }
+      const [linksData, documentsData] = await Promise.all([linksResponse.json(), documentsResponse.json()])
+      setLinks(linksData.links || [])
+      setDocuments(documentsData.documents || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [transactionId])
+
+  useEffect(() => {
+    fetchLinks()
+  }, [fetchLinks])
+
+  const createLink = async (expiresInDays: number): Promise<string | null> => {
+    try {
+      setError(null)
+      const data = await send('/api/portal-links', 'POST', { transaction_id: transactionId, expires_in_days: expiresInDays })
+      setLinks(prev => [data.link, ...prev])
+      return data.url
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return null
+    }
+  }
+
+  const run = async (action: () => Promise<void>): Promise<boolean> => {
+    try {
+      setError(null)
+      await action()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  const revokeLink = (linkId: string) => run(async () => {
+    const data = await send(`/api/portal-links?id=${linkId}`, 'DELETE')
+    setLinks(prev => prev.map(link => link.id === linkId ? data.link : link))
+  })
+
+  const setDocumentShared = (documentId: string, shared: boolean) => run(async () => {
+    await send(`/api/transaction-documents?id=${documentId}`, 'PUT', { shared_with_client: shared })
+    setDocuments(prev => prev.map(document =>
+      document.id === documentId ? { ...document, shared_with_client: shared } : document
+    ))
+  })
+
+  return {
+    links,
+    documents,
+    loading,
+    error,
+    createLink,
+    revokeLink,
+    setDocumentShared,
+    refreshLinks: fetchLinks
+  }
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { getCache, setCache, clearCache, generateCacheKey } from '@/lib/cache-utils'
 import type { ApiError, PaginatedResponse } from '@/lib/types'
+import { applyCustomFieldFilters, type CustomFieldDefinition, type CustomFieldFilter } from '@/lib/custom-fields/fields'
 
 // Generic resource hook configuration
 export interface ResourceConfig<T> {
@@ -20,6 +21,8 @@ export interface ResourceOptions {
   page?: number
   limit?: number
   orderBy?: { column: string; ascending?: boolean }
+  // Filters on the table's custom_fields, checked against the tenant's definitions
+  customFieldFilters?: { fields: CustomFieldDefinition[]; filters: CustomFieldFilter[] }
 }
 
 // Generic return type for resource hooks
@@ -48,7 +51,8 @@ export function useResource<T extends { id: string }>(
     filters = {},
     page = 1,
     limit = 50,
-    orderBy = config.defaultOrderBy || { column: 'created_at', ascending: false }
+    orderBy = config.defaultOrderBy || { column: 'created_at', ascending: false },
+    customFieldFilters
   } = options
 
   const [data, setData] = useState<T[]>([])
@@ -63,7 +67,7 @@ export function useResource<T extends { id: string }>(
   const fetchData = useCallback(async () => {
     try {
       const cacheKey = generateCacheKey(config.tableName, {
-        search, filters, page, limit, orderBy
+        search, filters, page, limit, orderBy, customFieldFilters: customFieldFilters?.filters
       })
 
       // Try cache first
@@ -100,6 +104,10 @@ export function useResource<T extends { id: string }>(
         }
       })
 
+      if (customFieldFilters) {
+        query = applyCustomFieldFilters(query, customFieldFilters.fields, customFieldFilters.filters)
+      }
+
       // Apply pagination
       const from = (page - 1) * limit
       const to = from + limit - 1
@@ -138,7 +146,8 @@ export function useResource<T extends { id: string }>(
     JSON.stringify(filters),
     page,
     limit,
-    JSON.stringify(orderBy)
+    JSON.stringify(orderBy),
+    JSON.stringify(customFieldFilters)
   ])
 
   const create = async (itemData: Partial<T>): Promise<T | null> => {
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { BuyerSearchProfile, ListingMatch, SearchProfileInput } from '@/lib/clients/search-criteria'
+import type { PropertyDetails } from '@/lib/smart-import/types'
+
+export interface UseSearchProfilesReturn {
+  profiles: BuyerSearchProfile[]
+  loading: boolean
+  error: string | null
+  createProfile: (input: SearchProfileInput) => Promise<boolean>
+  updateProfile: (profileId: string, input: SearchProfileInput) => Promise<boolean>
+  deleteProfile: (profileId: string) => Promise<boolean>
+  refreshProfiles: () => Promise<void>
+}
+
+async function send(url: string, method: string, body?: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.details?.[0]?.message || data.error || 'Request failed')
+  }
+  return data
+}
+
+export function useSearchProfiles(clientId: string): UseSearchProfilesReturn {
+  const [profiles, setProfiles] = useState<BuyerSearchProfile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch(`/api/clients/${clientId}/search-profiles`, { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch search profiles')
+      }
+      const data = await response.json()
+      setProfiles(data.profiles || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchProfiles()
+  }, [fetchProfiles])
+
+  const run = async (action: () => Promise<void>): Promise<boolean> => {
+    try {
+      setError(null)
+      await action()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  const createProfile = (input: SearchProfileInput) => run(async () => {
+    const data = await send(`/api/clients/${clientId}/search-profiles`, 'POST', input)
+    setProfiles(prev => [...prev, data.profile])
+  })
+
+  const updateProfile = (profileId: string, input: SearchProfileInput) => run(async () => {
+    const data = await send(`/api/clients/${clientId}/search-profiles?profileId=${profileId}`, 'PUT', input)
+    setProfiles(prev => prev.map(profile => profile.id === profileId ? data.profile : profile))
+  })
+
+  const deleteProfile = (profileId: string) => run(async () => {
+    await send(`/api/clients/${clientId}/search-profiles?profileId=${profileId}`, 'DELETE')
+    setProfiles(prev => prev.filter(profile => profile.id !== profileId))
+  })
+
+  return {
+    profiles,
+    loading,
+    error,
+    createProfile,
+    updateProfile,
+    deleteProfile,
+    refreshProfiles: fetchProfiles
+  }
+}
+
+/**
+ * Clients whose active search profiles fit a listing, best match first
+ */
+export function useListingMatches() {
+  const [matches, setMatches] = useState<ListingMatch[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const findMatches = useCallback(async (listing: PropertyDetails, minScore?: number) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await send('/api/listings/match', 'POST', { listing, minScore })
+      setMatches(data.matches || [])
+    } catch (err) {
+      setMatches([])
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  return { matches, loading, error, findMatches }
+}
@@ -0,0 +1,131 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { apiFetch } from '@/lib/api-fetch'
+import {
+  groupShowingTours,
+  type Showing,
+  type ShowingConfirmation,
+  type ShowingStatus,
+  type ShowingStopInput,
+  type ShowingTour
+} from '@/lib/showings/schedule'
+
+export interface ShowingChanges extends Partial<ShowingStopInput> {
+  confirmation_status?: ShowingConfirmation
+  status?: ShowingStatus
+}
+
+export interface UseShowingsReturn {
+  showings: Showing[]
+  tours: ShowingTour[]
+  loading: boolean
+  error: string | null
+  createTour: (stops: ShowingStopInput[], tourId?: string) => Promise<boolean>
+  updateShowing: (showingId: string, changes: ShowingChanges) => Promise<boolean>
+  deleteShowing: (showingId: string) => Promise<boolean>
+  // Resolves to the feedback URL to share with the buyer, or null on failure
+  createFeedbackLink: (showingId: string) => Promise<string | null>
+  refreshShowings: () => Promise<void>
+}
+
+async function send(url: string, method: string, body?: unknown): Promise<any> {
+  const response = await apiFetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.details?.[0]?.message || data.error || 'Request failed')
+  }
+  return data
+}
+
+/**
+ * Showings for a buyer, optionally narrowed to one deal
+ */
+export function useShowings({ clientId, dealId }: { clientId: string; dealId?: string }): UseShowingsReturn {
+  const [showings, setShowings] = useState<Showing[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchShowings = useCallback(async () => {
+    try {
+      setError(null)
+      const params = new URLSearchParams({ client_id: clientId })
+      if (dealId) params.set('deal_id', dealId)
+      const response = await fetch(`/api/showings?${params}`, { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch showings')
+      }
+      const data = await response.json()
+      setShowings(data.showings || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [clientId, dealId])
+
+  useEffect(() => {
+    fetchShowings()
+  }, [fetchShowings])
+
+  const run = async (action: () => Promise<void>): Promise<boolean> => {
+    try {
+      setError(null)
+      await action()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  const replace = (updated: Showing) =>
+    setShowings(prev => prev.map(showing => showing.id === updated.id ? updated : showing))
+
+  const createTour = (stops: ShowingStopInput[], tourId?: string) => run(async () => {
+    const data = await send('/api/showings', 'POST', {
+      client_id: clientId,
+      deal_id: dealId || null,
+      tour_id: tourId,
+      stops
+    })
+    setShowings(prev => [...prev, ...data.showings])
+  })
+
+  const updateShowing = (showingId: string, changes: ShowingChanges) => run(async () => {
+    const data = await send(`/api/showings/${showingId}`, 'PUT', changes)
+    replace(data.showing)
+  })
+
+  const deleteShowing = (showingId: string) => run(async () => {
+    await send(`/api/showings/${showingId}`, 'DELETE')
+    setShowings(prev => prev.filter(showing => showing.id !== showingId))
+  })
+
+  const createFeedbackLink = async (showingId: string): Promise<string | null> => {
+    let url: string | null = null
+    await run(async () => {
+      const data = await send(`/api/showings/${showingId}/feedback-link`, 'POST')
+      replace(data.showing)
+      url = data.url
+    })
+    return url
+  }
+
+  return {
+    showings,
+    tours: groupShowingTours(showings),
+    loading,
+    error,
+    createTour,
+    updateShowing,
+    deleteShowing,
+    createFeedbackLink,
+    refreshShowings: fetchShowings
+  }
+}
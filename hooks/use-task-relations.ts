@@ -0,0 +1,140 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { apiFetch } from '@/lib/api-fetch'
+import type { RelatedTask } from '@/lib/tasks/dependencies'
+
+export interface TaskRelationsState {
+  parent: RelatedTask | null
+  subtasks: RelatedTask[]
+  blocked_by: RelatedTask[]
+  blocking: RelatedTask[]
+}
+
+const EMPTY_RELATIONS: TaskRelationsState = { parent: null, subtasks: [], blocked_by: [], blocking: [] }
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => ({}))
+  return data.details?.[0]?.message || data.error || fallback
+}
+
+export function useTaskRelations(taskId: string) {
+  const [relations, setRelations] = useState<TaskRelationsState>(EMPTY_RELATIONS)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRelations = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch(`/api/tasks/${taskId}/dependencies`, { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch subtasks and dependencies')
+      }
+      setRelations(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [taskId])
+
+  useEffect(() => {
+    fetchRelations()
+  }, [fetchRelations])
+
+  const addBlocker = async (blockerId: string): Promise<boolean> => {
+    try {
+      setError(null)
+      const response = await apiFetch(`/api/tasks/${taskId}/dependencies`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ blocked_by_task_id: blockerId })
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to add dependency'))
+      }
+      setRelations(await response.json())
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  const removeBlocker = async (blockerId: string): Promise<boolean> => {
+    try {
+      setError(null)
+      const response = await apiFetch(`/api/tasks/${taskId}/dependencies?blocked_by_task_id=${blockerId}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to remove dependency'))
+      }
+      setRelations(await response.json())
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  const addSubtask = async (title: string, dueDate?: string): Promise<boolean> => {
+    try {
+      setError(null)
+      const response = await apiFetch(`/api/tasks/${taskId}/subtasks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ title, due_date: dueDate || null })
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to add subtask'))
+      }
+      const data = await response.json()
+      setRelations(current => ({ ...current, subtasks: [...current.subtasks, data.subtask] }))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  const setSubtaskCompleted = async (subtaskId: string, completed: boolean): Promise<boolean> => {
+    try {
+      setError(null)
+      const response = await apiFetch(`/api/tasks/${subtaskId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ status: completed ? 'Completed' : 'Pending' })
+      })
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update subtask'))
+      }
+      const updated = await response.json()
+      setRelations(current => ({
+        ...current,
+        subtasks: current.subtasks.map(subtask =>
+          subtask.id === subtaskId ? { ...subtask, status: updated.status } : subtask
+        )
+      }))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return false
+    }
+  }
+
+  return {
+    relations,
+    loading,
+    error,
+    addBlocker,
+    removeBlocker,
+    addSubtask,
+    setSubtaskCompleted,
+    refreshRelations: fetchRelations
+  }
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useResource, createResourceHook, type ResourceOptions } from './use-resource'
 import { type Task } from '@/lib/types'
+import { type RecurrenceEditScope } from '@/lib/tasks/recurrence'
 import { getCache, setCache, clearCache, generateCacheKey } from '@/lib/cache-utils'
 
 interface UseTasksOptions extends ResourceOptions {
@@ -20,7 +21,7 @@ interface UseTasksReturn {
   error: string | null
   totalCount: number
   createTask: (taskData: Partial<Task>) => Promise<Task | null>
-  updateTask: (id: string, taskData: Partial<Task>) => Promise<Task | null>
+  updateTask: (id: string, taskData: Partial<Task>, scope?: RecurrenceEditScope, shiftDependents?: boolean) => Promise<Task | null>
   deleteTask: (id: string) => Promise<boolean>
   toggleTaskComplete: (id: string, completed: boolean) => Promise<boolean>
   refreshTasks: () => Promise<void>
@@ -91,7 +92,18 @@ const transformTaskData = (taskData: any): Task => {
     deal: taskData.deals ? {
       title: taskData.deals.title
     } : undefined,
-    completed: taskData.status === 'Completed'
+    completed: taskData.status === 'Completed',
+    recurrenceRule: taskData.recurrence_rule || null,
+    recurrenceSeriesId: taskData.recurrence_series_id || null,
+    recurrenceIndex: taskData.recurrence_index ?? 0,
+    occurrenceDate: taskData.occurrence_date || null,
+    reminderOffsets: taskData.reminder_offsets ?? null,
+    rawDueDate: taskData.due_date || null,
+    parentTaskId: taskData.parent_task_id || null,
+    parent: taskData.parent || null,
+    blockers: taskData.blockers || [],
+    subtaskCount: taskData.subtask_count || 0,
+    subtasksCompleted: taskData.subtasks_completed || 0
   }
 }
 
@@ -191,8 +203,11 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksReturn {
         priority: taskData.priority || 'Medium',
         status: taskData.status || 'Pending',
         client_id: taskData.clientId && taskData.clientId !== 'none' ? taskData.clientId : null,
+        parent_task_id: taskData.parentTaskId || null,
         deal_id: taskData.dealId && taskData.dealId !== 'none' ? taskData.dealId : null,
-        type: taskData.type || 'Other'
+        type: taskData.type || 'Other',
+        recurrence_rule: taskData.recurrenceRule || null,
+        reminder_offsets: taskData.reminderOffsets ?? null
       }
 
       // Get CSRF token from cookie
@@ -214,7 +229,7 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksReturn {
       if (!response.ok) {
         const errorData = await response.json()
         console.error('API Error:', errorData)
-        throw new Error(errorData.error || `Failed to create task (${response.status})`)
+        throw new Error(errorData.details?.[0]?.message || errorData.error || `Failed to create task (${response.status})`)
       }
 
       const createdTask = await response.json()
@@ -236,7 +251,12 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksReturn {
     }
   }
 
-  const updateTask = async (id: string, taskData: Partial<Task>): Promise<Task | null> => {
+  const updateTask = async (
+    id: string,
+    taskData: Partial<Task>,
+    scope: RecurrenceEditScope = 'this',
+    shiftDependents = false
+  ): Promise<Task | null> => {
     try {
       const updateData: any = {}
 
@@ -247,6 +267,10 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksReturn {
       if (taskData.status !== undefined) updateData.status = taskData.status
       if (taskData.assignedTo !== undefined) updateData.assigned_to = taskData.assignedTo
       if (taskData.type !== undefined) updateData.type = taskData.type
+      if (taskData.recurrenceRule !== undefined) updateData.recurrence_rule = taskData.recurrenceRule
+      if (taskData.reminderOffsets !== undefined) updateData.reminder_offsets = taskData.reminderOffsets
+      updateData.scope = scope
+      if (shiftDependents) updateData.shift_dependents = true
 
       // Get CSRF token from cookie
       const csrfToken = document.cookie
@@ -266,7 +290,7 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksReturn {
 
       if (!response.ok) {
         const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to update task')
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to update task')
       }
 
       const updatedTask = await response.json()
@@ -278,6 +302,10 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksReturn {
       // Invalidate tasks cache
       clearCache('tasks')
 
+      // Completing a repeating task created its next occurrence, and moving
+      // the due date may have moved other tasks with it
+      if (updatedTask.next_occurrence || updatedTask.shifted_dependents) await refresh()
+
       return transformedTask
     } catch (error) {
       console.error('Error updating task:', error)
@@ -353,6 +381,11 @@ export function useTasks(options: UseTasksOptions = {}): UseTasksReturn {
       // Invalidate tasks cache
       clearCache('tasks')
 
+      // Other listed tasks show this one as a blocker or count it as a subtask
+      const affectsOthers = !!updatedTask.parent_task_id ||
+        tasks.some(task => task.blockers?.some(blocker => blocker.id === id))
+      if (updatedTask.next_occurrence || affectsOthers) await refresh()
+
       return true
     } catch (error) {
       console.error('Error toggling task completion:', error)
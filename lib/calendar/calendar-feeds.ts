@@ -0,0 +1,92 @@
+/**
+ * Calendar Feeds - the secret token behind each user's iCalendar subscription
+ * URL. A user has at most one active feed; creating a new one turns the old
+ * URL off. Only the sha256 of the token is stored.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { AppError, NotFoundError } from '@/lib/errors'
+import type { CalendarFeed } from '@/lib/calendar/ical'
+
+const FEED_COLUMNS = 'id, user_id, created_at, revoked_at, last_accessed_at'
+
+function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export async function getActiveCalendarFeed(supabase: any, userId: string): Promise<CalendarFeed | null> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select(FEED_COLUMNS)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data || null
+}
+
+/**
+ * Turn off every active feed of the user. Returns how many were turned off
+ */
+export async function revokeCalendarFeeds(supabase: any, userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id')
+
+  if (error) throw error
+  return (data || []).length
+}
+
+/**
+ * Issue a new feed URL token, replacing any active one. The raw token is only
+ * returned here - it can't be recovered later
+ */
+export async function createCalendarFeed(supabase: any, userId: string): Promise<{ feed: CalendarFeed; token: string }> {
+  await revokeCalendarFeeds(supabase, userId)
+
+  const token = randomBytes(32).toString('hex')
+  const { data: feed, error } = await supabase
+    .from('calendar_feeds')
+    .insert({ user_id: userId, token_hash: hashFeedToken(token) })
+    .select(FEED_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return { feed, token }
+}
+
+/**
+ * Look up the feed behind a raw token. A replaced or turned-off feed is 410 so
+ * calendar apps stop polling it
+ */
+export async function resolveCalendarFeed(supabase: any, token: string): Promise<CalendarFeed> {
+  if (!/^[0-9a-f]{64}$/.test(token)) throw new NotFoundError('Calendar feed')
+
+  const { data: feed } = await supabase
+    .from('calendar_feeds')
+    .select(FEED_COLUMNS)
+    .eq('token_hash', hashFeedToken(token))
+    .maybeSingle()
+
+  if (!feed) throw new NotFoundError('Calendar feed')
+  if (feed.revoked_at) {
+    throw new AppError('This calendar feed has been turned off', 410, 'CALENDAR_FEED_REVOKED')
+  }
+
+  return feed
+}
+
+export async function recordCalendarFeedAccess(supabase: any, feed: CalendarFeed): Promise<void> {
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq('id', feed.id)
+
+  if (error) console.error('Error recording calendar feed access:', error)
+}
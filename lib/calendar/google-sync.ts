@@ -0,0 +1,699 @@
+/**
+ * Google Calendar Sync - keeps timed tasks, video meetings and showings in
+ * step with events on the user's primary Google calendar. Each synced record has a row
+ * in calendar_sync_links holding the Google event's etag and a hash of the
+ * event fields as last synced, so a change on either side can be told apart
+ * from the echo of our own write. When both sides changed, the later edit
+ * wins and the overwritten values go to audit_logs.
+ */
+
+import { createHash } from 'crypto'
+import type { calendar_v3 } from 'googleapis'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getActiveTenantId } from '@/lib/pipeline/definitions'
+import { isDateKey } from '@/lib/calendar/schedule'
+import { CALENDAR_EVENTS_SCOPE, deleteEvent, getEvent, insertEvent, patchEvent } from '@/lib/google'
+
+export type CalendarSyncSource = 'task' | 'meeting' | 'showing'
+
+export type CalendarSyncOutcome = 'created' | 'updated' | 'pulled' | 'conflict' | 'deleted' | 'unchanged' | 'skipped'
+
+export interface CalendarSyncIntegration {
+  user_id: string
+  access_token: string
+  refresh_token: string
+  scopes: string[] | null
+}
+
+export interface CalendarSyncLink {
+  id: string
+  user_id: string
+  source: CalendarSyncSource
+  source_id: string
+  calendar_id: string
+  google_event_id: string
+  google_etag: string | null
+  google_updated_at: string | null
+  crm_hash: string
+  synced_at: string
+}
+
+export interface CalendarSyncSummary {
+  created: number
+  updated: number
+  deleted: number
+  conflicts: number
+  errors: string[]
+}
+
+// The event fields both sides share
+interface SyncedEventFields {
+  title: string
+  description: string | null
+  location: string | null
+  start: string
+  end: string
+  href: string
+}
+
+interface SyncAdapter {
+  source: CalendarSyncSource
+  // entity_type written to audit_logs
+  entityType: string
+  load: (supabase: any, userId: string, id: string) => Promise<any | null>
+  listInRange: (supabase: any, userId: string, start: string, end: string) => Promise<any[]>
+  isSyncable: (record: any) => boolean
+  toEventFields: (record: any) => SyncedEventFields
+  applyEventFields: (supabase: any, userId: string, record: any, fields: SyncedEventFields) => Promise<void>
+  // Called when the Google event is deleted; the CRM record itself is kept
+  onEventCancelled?: (supabase: any, userId: string, record: any) => Promise<void>
+}
+
+interface SyncContext {
+  supabase: any
+  userId: string
+  integration: CalendarSyncIntegration
+}
+
+const CALENDAR_ID = 'primary'
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+// Tasks only have a due time, so their events get a fixed length
+const TASK_EVENT_MINUTES = 30
+const MEETING_DEFAULT_MINUTES = 60
+// Window the periodic reconcile looks at for records without a link yet
+export const SYNC_PAST_DAYS = 7
+export const SYNC_FUTURE_DAYS = 180
+
+function addMinutes(iso: string, minutes: number): string {
+  return new Date(new Date(iso).getTime() + minutes * MINUTE_MS).toISOString()
+}
+
+const taskAdapter: SyncAdapter = {
+  source: 'task',
+  entityType: 'task',
+  async load(supabase, userId, id) {
+    const { data } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    return data || null
+  },
+  async listInRange(supabase, userId, start, end) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('due_date', start)
+      .lt('due_date', end)
+    if (error) throw error
+    return data || []
+  },
+  isSyncable(task) {
+    // Date-only tasks stay off Google, as do tasks that came from a calendar
+    // and the follow-up tasks created alongside a video meeting
+    return Boolean(task.due_date) &&
+      !isDateKey(task.due_date) &&
+      task.metadata?.source !== 'calendar_import' &&
+      !task.metadata?.meeting_id
+  },
+  toEventFields(task) {
+    const start = new Date(task.due_date).toISOString()
+    return {
+      title: task.title,
+      description: task.description || null,
+      location: null,
+      start,
+      end: addMinutes(start, TASK_EVENT_MINUTES),
+      href: `/tasks/edit/${task.id}`
+    }
+  },
+  async applyEventFields(supabase, userId, task, fields) {
+    const { error } = await supabase
+      .from('tasks')
+      .update({ title: fields.title, description: fields.description || '', due_date: fields.start })
+      .eq('id', task.id)
+      .eq('user_id', userId)
+    if (error) throw error
+  }
+}
+
+const meetingAdapter: SyncAdapter = {
+  source: 'meeting',
+  entityType: 'video_meeting',
+  async load(supabase, userId, id) {
+    const { data } = await supabase
+      .from('video_meetings')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    return data || null
+  },
+  async listInRange(supabase, userId, start, end) {
+    const { data, error } = await supabase
+      .from('video_meetings')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('scheduled_start_time', start)
+      .lt('scheduled_start_time', end)
+    if (error) throw error
+    return data || []
+  },
+  isSyncable(meeting) {
+    return Boolean(meeting.scheduled_start_time) && meeting.status !== 'cancelled'
+  },
+  toEventFields(meeting) {
+    const start = new Date(meeting.scheduled_start_time).toISOString()
+    return {
+      title: meeting.title,
+      description: meeting.description || null,
+      location: meeting.meeting_url || null,
+      start,
+      end: meeting.scheduled_end_time
+        ? new Date(meeting.scheduled_end_time).toISOString()
+        : addMinutes(start, MEETING_DEFAULT_MINUTES),
+      href: '/communication'
+    }
+  },
+  async applyEventFields(supabase, userId, meeting, fields) {
+    // The join link belongs to the meeting platform, so location isn't pulled back
+    const { error } = await supabase
+      .from('video_meetings')
+      .update({
+        title: fields.title,
+        description: fields.description,
+        scheduled_start_time: fields.start,
+        scheduled_end_time: fields.end,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', meeting.id)
+      .eq('user_id', userId)
+    if (error) throw error
+  },
+  async onEventCancelled(supabase, userId, meeting) {
+    if (meeting.status !== 'scheduled') return
+    const { error } = await supabase
+      .from('video_meetings')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', meeting.id)
+      .eq('user_id', userId)
+    if (error) throw error
+  }
+}
+
+const showingAdapter: SyncAdapter = {
+  source: 'showing',
+  entityType: 'showing',
+  async load(supabase, userId, id) {
+    const { data } = await supabase
+      .from('showings')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    return data || null
+  },
+  async listInRange(supabase, userId, start, end) {
+    const { data, error } = await supabase
+      .from('showings')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('start_time', start)
+      .lt('start_time', end)
+    if (error) throw error
+    return data || []
+  },
+  isSyncable(showing) {
+    return showing.status !== 'cancelled' && showing.confirmation_status !== 'declined'
+  },
+  toEventFields(showing) {
+    return {
+      title: `Showing: ${showing.property_address}`,
+      description: showing.notes || null,
+      location: showing.property_address,
+      start: new Date(showing.start_time).toISOString(),
+      end: new Date(showing.end_time).toISOString(),
+      href: `/client/${showing.client_id}`
+    }
+  },
+  async applyEventFields(supabase, userId, showing, fields) {
+    // Title and location are the address, which is edited in the CRM only
+    const moved = fields.start !== new Date(showing.start_time).toISOString() ||
+      fields.end !== new Date(showing.end_time).toISOString()
+    const { error } = await supabase
+      .from('showings')
+      .update({
+        start_time: fields.start,
+        end_time: fields.end,
+        notes: fields.description,
+        ...(moved && showing.confirmation_status === 'confirmed' ? { confirmation_status: 'pending', confirmed_at: null } : {}),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', showing.id)
+      .eq('user_id', userId)
+    if (error) throw error
+  },
+  async onEventCancelled(supabase, userId, showing) {
+    if (showing.status !== 'scheduled') return
+    const { error } = await supabase
+      .from('showings')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', showing.id)
+      .eq('user_id', userId)
+    if (error) throw error
+  }
+}
+
+// Each CRM record type that syncs to Google contributes one adapter
+const SYNC_ADAPTERS: Record<CalendarSyncSource, SyncAdapter> = {
+  task: taskAdapter,
+  meeting: meetingAdapter,
+  showing: showingAdapter
+}
+
+function hashEventFields(fields: SyncedEventFields): string {
+  return createHash('sha256')
+    .update(JSON.stringify([fields.title, fields.description, fields.location, fields.start, fields.end]))
+    .digest('hex')
+}
+
+function toGoogleEvent(fields: SyncedEventFields, source: CalendarSyncSource, sourceId: string): calendar_v3.Schema$Event {
+  return {
+    summary: fields.title,
+    description: fields.description,
+    location: fields.location,
+    start: { dateTime: fields.start },
+    end: { dateTime: fields.end },
+    source: { title: 'Dealvize', url: `${process.env.NEXT_PUBLIC_APP_URL}${fields.href}` },
+    extendedProperties: { private: { dealvize_source: source, dealvize_id: sourceId } }
+  }
+}
+
+// An event moved to all day in Google keeps the CRM times; only timed items sync
+function fromGoogleEvent(event: calendar_v3.Schema$Event, current: SyncedEventFields): SyncedEventFields {
+  const start = event.start?.dateTime ? new Date(event.start.dateTime).toISOString() : current.start
+  const end = event.start?.dateTime && event.end?.dateTime ? new Date(event.end.dateTime).toISOString() : current.end
+  return {
+    ...current,
+    title: event.summary?.trim() || current.title,
+    description: event.description ?? null,
+    start,
+    end
+  }
+}
+
+/**
+ * Which side's edit stands when both changed since the last sync. A CRM
+ * record without its own timestamp counts as changed at the last sync
+ */
+function pickConflictWinner(crmChangedAt: string | null, googleChangedAt: string | null | undefined): 'crm' | 'google' {
+  const crmTime = crmChangedAt ? Date.parse(crmChangedAt) : 0
+  const googleTime = googleChangedAt ? Date.parse(googleChangedAt) : 0
+  return crmTime > googleTime ? 'crm' : 'google'
+}
+
+// Failures are logged so the audit write never blocks a sync
+async function writeSyncAudit(
+  userId: string,
+  action: string,
+  adapter: SyncAdapter,
+  entityId: string,
+  details: string,
+  metadata: Record<string, any>
+) {
+  const serviceClient = createServiceClient()
+  const tenantId = await getActiveTenantId(serviceClient, userId)
+
+  const { error } = await serviceClient
+    .from('audit_logs')
+    .insert({
+      user_id: userId,
+      tenant_id: tenantId,
+      action,
+      entity_type: adapter.entityType,
+      entity_id: entityId,
+      details,
+      metadata: { ...metadata, source: 'google_calendar_sync' },
+      severity: action === 'calendar_sync.conflict' ? 'medium' : 'low',
+      success: true,
+      created_at: new Date().toISOString()
+    })
+
+  if (error) {
+    console.error('Error writing calendar sync audit log:', error)
+  }
+}
+
+async function saveLink(
+  ctx: SyncContext,
+  adapter: SyncAdapter,
+  sourceId: string,
+  event: calendar_v3.Schema$Event,
+  fields: SyncedEventFields
+) {
+  const { error } = await ctx.supabase
+    .from('calendar_sync_links')
+    .upsert({
+      user_id: ctx.userId,
+      source: adapter.source,
+      source_id: sourceId,
+      calendar_id: CALENDAR_ID,
+      google_event_id: event.id,
+      google_etag: event.etag || null,
+      google_updated_at: event.updated || null,
+      crm_hash: hashEventFields(fields),
+      synced_at: new Date().toISOString()
+    }, {
+      onConflict: 'user_id,source,source_id'
+    })
+
+  if (error) throw error
+}
+
+async function removeLink(ctx: SyncContext, link: CalendarSyncLink) {
+  const { error } = await ctx.supabase
+    .from('calendar_sync_links')
+    .delete()
+    .eq('id', link.id)
+    .eq('user_id', ctx.userId)
+
+  if (error) throw error
+}
+
+async function getLink(ctx: SyncContext, source: CalendarSyncSource, sourceId: string): Promise<CalendarSyncLink | null> {
+  const { data, error } = await ctx.supabase
+    .from('calendar_sync_links')
+    .select('*')
+    .eq('user_id', ctx.userId)
+    .eq('source', source)
+    .eq('source_id', sourceId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data || null
+}
+
+async function fetchLinkedEvent(ctx: SyncContext, link: CalendarSyncLink): Promise<calendar_v3.Schema$Event | null> {
+  try {
+    const event = await getEvent(ctx.integration.access_token, ctx.integration.refresh_token, link.calendar_id, link.google_event_id)
+    return event.status === 'cancelled' ? null : event
+  } catch (error) {
+    const code = (error as { code?: number })?.code
+    if (code === 404 || code === 410) return null
+    throw error
+  }
+}
+
+async function pushFields(
+  ctx: SyncContext,
+  adapter: SyncAdapter,
+  sourceId: string,
+  fields: SyncedEventFields,
+  link: CalendarSyncLink | null
+): Promise<calendar_v3.Schema$Event> {
+  const { access_token, refresh_token } = ctx.integration
+  const body = toGoogleEvent(fields, adapter.source, sourceId)
+  const event = link
+    ? await patchEvent(access_token, refresh_token, link.calendar_id, link.google_event_id, body)
+    : await insertEvent(access_token, refresh_token, CALENDAR_ID, body)
+
+  await saveLink(ctx, adapter, sourceId, event, fields)
+  return event
+}
+
+async function pullFields(
+  ctx: SyncContext,
+  adapter: SyncAdapter,
+  record: any,
+  event: calendar_v3.Schema$Event
+) {
+  const fields = fromGoogleEvent(event, adapter.toEventFields(record))
+  await adapter.applyEventFields(ctx.supabase, ctx.userId, record, fields)
+
+  // Hash what the CRM now holds, which may differ from what Google sent
+  const updated = await adapter.load(ctx.supabase, ctx.userId, record.id)
+  await saveLink(ctx, adapter, record.id, event, updated ? adapter.toEventFields(updated) : fields)
+}
+
+async function resolveConflict(
+  ctx: SyncContext,
+  adapter: SyncAdapter,
+  record: any,
+  event: calendar_v3.Schema$Event,
+  link: CalendarSyncLink,
+  crmChangedAt: string | null
+): Promise<CalendarSyncOutcome> {
+  const crmFields = adapter.toEventFields(record)
+  const googleFields = fromGoogleEvent(event, crmFields)
+  const winner = pickConflictWinner(crmChangedAt, event.updated)
+
+  if (winner === 'crm') {
+    await pushFields(ctx, adapter, record.id, crmFields, link)
+  } else {
+    await pullFields(ctx, adapter, record, event)
+  }
+
+  await writeSyncAudit(
+    ctx.userId,
+    'calendar_sync.conflict',
+    adapter,
+    record.id,
+    `"${crmFields.title}" was edited in both Dealvize and Google Calendar; the ${winner === 'crm' ? 'Dealvize' : 'Google'} edit was kept`,
+    {
+      winner,
+      google_event_id: link.google_event_id,
+      crm_changed_at: crmChangedAt,
+      google_changed_at: event.updated || null,
+      crm: crmFields,
+      google: googleFields
+    }
+  )
+
+  return 'conflict'
+}
+
+/**
+ * Bring one CRM record and its Google event in line. A record that is gone or
+ * no longer syncable takes its event with it
+ */
+async function syncRecord(
+  ctx: SyncContext,
+  adapter: SyncAdapter,
+  sourceId: string,
+  record: any | null,
+  link: CalendarSyncLink | null,
+  crmChangedAt: string | null
+): Promise<CalendarSyncOutcome> {
+  if (!record || !adapter.isSyncable(record)) {
+    if (!link) return 'skipped'
+
+    await deleteEvent(ctx.integration.access_token, ctx.integration.refresh_token, link.calendar_id, link.google_event_id)
+    await removeLink(ctx, link)
+    await writeSyncAudit(
+      ctx.userId,
+      'calendar_sync.event_deleted',
+      adapter,
+      sourceId,
+      record ? 'Removed from Google Calendar because it no longer has a time' : 'Removed from Google Calendar because it was deleted',
+      { google_event_id: link.google_event_id }
+    )
+    return 'deleted'
+  }
+
+  const fields = adapter.toEventFields(record)
+  if (!link) {
+    await pushFields(ctx, adapter, sourceId, fields, null)
+    return 'created'
+  }
+
+  if (hashEventFields(fields) === link.crm_hash) return 'unchanged'
+
+  const event = await fetchLinkedEvent(ctx, link)
+  if (!event) {
+    // Deleted in Google but edited here since - put it back
+    await removeLink(ctx, link)
+    await pushFields(ctx, adapter, sourceId, fields, null)
+    return 'created'
+  }
+
+  if (event.etag === link.google_etag) {
+    await pushFields(ctx, adapter, sourceId, fields, link)
+    return 'updated'
+  }
+
+  return resolveConflict(ctx, adapter, record, event, link, crmChangedAt)
+}
+
+/**
+ * The user's Google integration when it can write calendar events. Accounts
+ * connected before two-way sync only granted read access and must reconnect
+ */
+export async function getCalendarSyncIntegration(supabase: any, userId: string): Promise<CalendarSyncIntegration | null> {
+  const { data: integration } = await supabase
+    .from('user_integrations')
+    .select('user_id, access_token, refresh_token, scopes')
+    .eq('user_id', userId)
+    .eq('provider', 'google')
+    .maybeSingle()
+
+  return hasCalendarWriteAccess(integration) ? integration : null
+}
+
+export function hasCalendarWriteAccess(integration: { access_token?: string | null; scopes?: string[] | null } | null): boolean {
+  return Boolean(integration?.access_token && integration.scopes?.includes(CALENDAR_EVENTS_SCOPE))
+}
+
+/**
+ * Push a CRM record the user just created, edited or deleted to Google.
+ * Does nothing without a connected calendar. Errors are logged rather than
+ * thrown so a sync problem never fails the CRM write; the periodic reconcile
+ * retries
+ */
+export async function syncCalendarItem(
+  supabase: any,
+  userId: string,
+  source: CalendarSyncSource,
+  id: string
+): Promise<void> {
+  try {
+    const integration = await getCalendarSyncIntegration(supabase, userId)
+    if (!integration) return
+
+    const ctx = { supabase, userId, integration }
+    const adapter = SYNC_ADAPTERS[source]
+    const [record, link] = await Promise.all([adapter.load(supabase, userId, id), getLink(ctx, source, id)])
+    // The edit happened just now, so it wins any conflict
+    await syncRecord(ctx, adapter, id, record, link, new Date().toISOString())
+  } catch (error) {
+    console.error(`Error syncing ${source} ${id} to Google Calendar:`, error)
+  }
+}
+
+/**
+ * Apply a changed Google event to the CRM record it was created from.
+ * Events that didn't come from the CRM are ignored
+ */
+export async function applyGoogleEventChange(
+  supabase: any,
+  integration: CalendarSyncIntegration,
+  event: calendar_v3.Schema$Event
+): Promise<CalendarSyncOutcome> {
+  if (!event.id) return 'skipped'
+
+  const ctx = { supabase, userId: integration.user_id, integration }
+  const { data: link, error } = await supabase
+    .from('calendar_sync_links')
+    .select('*')
+    .eq('user_id', ctx.userId)
+    .eq('google_event_id', event.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!link) return 'skipped'
+
+  // Our own write coming back through the watch channel
+  if (event.etag && event.etag === link.google_etag) return 'unchanged'
+
+  const adapter = SYNC_ADAPTERS[link.source as CalendarSyncSource]
+  if (!adapter) return 'skipped'
+  const record = await adapter.load(supabase, ctx.userId, link.source_id)
+
+  if (event.status === 'cancelled') {
+    if (record) await adapter.onEventCancelled?.(supabase, ctx.userId, record)
+    await removeLink(ctx, link)
+    await writeSyncAudit(
+      ctx.userId,
+      'calendar_sync.event_cancelled',
+      adapter,
+      link.source_id,
+      record
+        ? `"${adapter.toEventFields(record).title}" was deleted from Google Calendar and will no longer sync`
+        : 'The Google event of a deleted record was removed',
+      { google_event_id: link.google_event_id }
+    )
+    return 'deleted'
+  }
+
+  if (!record || !adapter.isSyncable(record)) {
+    return syncRecord(ctx, adapter, link.source_id, record, link, null)
+  }
+
+  if (hashEventFields(adapter.toEventFields(record)) !== link.crm_hash) {
+    return resolveConflict(ctx, adapter, record, event, link, record.updated_at || link.synced_at)
+  }
+
+  await pullFields(ctx, adapter, record, event)
+  await writeSyncAudit(
+    ctx.userId,
+    'calendar_sync.pulled',
+    adapter,
+    record.id,
+    `"${event.summary || adapter.toEventFields(record).title}" was updated from Google Calendar`,
+    {
+      google_event_id: link.google_event_id,
+      google_changed_at: event.updated || null,
+      before: adapter.toEventFields(record)
+    }
+  )
+  return 'pulled'
+}
+
+/**
+ * Reconcile every syncable record in the sync window, plus anything already
+ * linked, with Google. Catches up on edits made outside the routes that sync
+ * as they write, such as dependency shifts and generated occurrences
+ */
+export async function syncUserCalendar(
+  supabase: any,
+  userId: string,
+  integration: CalendarSyncIntegration
+): Promise<CalendarSyncSummary> {
+  const ctx = { supabase, userId, integration }
+  const summary: CalendarSyncSummary = { created: 0, updated: 0, deleted: 0, conflicts: 0, errors: [] }
+  const now = Date.now()
+  const start = new Date(now - SYNC_PAST_DAYS * DAY_MS).toISOString()
+  const end = new Date(now + SYNC_FUTURE_DAYS * DAY_MS).toISOString()
+
+  const { data: links, error } = await supabase
+    .from('calendar_sync_links')
+    .select('*')
+    .eq('user_id', userId)
+
+  if (error) throw error
+
+  const linksByKey = new Map<string, CalendarSyncLink>(
+    (links || []).map((link: CalendarSyncLink) => [`${link.source}:${link.source_id}`, link])
+  )
+
+  for (const adapter of Object.values(SYNC_ADAPTERS)) {
+    const records = await adapter.listInRange(supabase, userId, start, end)
+    const inWindow = new Set(records.map(record => record.id))
+
+    const pending: { id: string; record: any | null }[] = records.map(record => ({ id: record.id, record }))
+    // Linked records outside the window are checked in case they were deleted or lost their time
+    for (const link of linksByKey.values()) {
+      if (link.source === adapter.source && !inWindow.has(link.source_id)) {
+        pending.push({ id: link.source_id, record: await adapter.load(supabase, userId, link.source_id) })
+      }
+    }
+
+    for (const { id, record } of pending) {
+      const link = linksByKey.get(`${adapter.source}:${id}`) || null
+      try {
+        const outcome = await syncRecord(ctx, adapter, id, record, link, record?.updated_at || link?.synced_at || null)
+        if (outcome === 'created') summary.created++
+        if (outcome === 'updated') summary.updated++
+        if (outcome === 'deleted') summary.deleted++
+        if (outcome === 'conflict') summary.conflicts++
+      } catch (syncError) {
+        console.error(`Error syncing ${adapter.source} ${id} to Google Calendar:`, syncError)
+        summary.errors.push(`${adapter.source} ${id}: ${syncError instanceof Error ? syncError.message : 'sync failed'}`)
+      }
+    }
+  }
+
+  return summary
+}
@@ -0,0 +1,134 @@
+/**
+ * iCalendar Feed
+ * Renders schedule items as an RFC 5545 calendar that phone and desktop
+ * calendar apps can subscribe to through a secret per-user URL.
+ * Safe to import from client components - no server-only dependencies.
+ */
+
+import { getScheduleSource, type ScheduleItem } from '@/lib/calendar/schedule'
+
+export interface CalendarFeed {
+  id: string
+  user_id: string
+  created_at: string
+  revoked_at: string | null
+  last_accessed_at: string | null
+}
+
+// How far around today the feed reaches
+export const FEED_PAST_DAYS = 30
+export const FEED_FUTURE_DAYS = 180
+
+export function getCalendarFeedUrl(origin: string, token: string): string {
+  return `${origin.replace(/\/$/, '')}/api/calendar/feed/${token}.ics`
+}
+
+/**
+ * The same feed as a webcal:// link, which most calendar apps open as a subscription
+ */
+export function getWebcalUrl(feedUrl: string): string {
+  return feedUrl.replace(/^https?:\/\//, 'webcal://')
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Split a content line into 75-octet pieces, continuing each with a leading space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74
+    if (currentBytes + charBytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += charBytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function formatUtcDateTime(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function formatDateValue(dateKey: string): string {
+  return dateKey.replace(/-/g, '')
+}
+
+function nextDateKey(dateKey: string): string {
+  const date = new Date(`${dateKey}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + 1)
+  return date.toISOString().slice(0, 10)
+}
+
+function buildEvent(item: ScheduleItem, origin: string, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${item.id.replace(/:/g, '-')}@dealvize`,
+    `DTSTAMP:${stamp}`
+  ]
+
+  if (item.all_day || !item.start) {
+    lines.push(`DTSTART;VALUE=DATE:${formatDateValue(item.date)}`)
+    lines.push(`DTEND;VALUE=DATE:${formatDateValue(nextDateKey(item.date))}`)
+  } else {
+    lines.push(`DTSTART:${formatUtcDateTime(item.start)}`)
+    if (item.end && new Date(item.end) > new Date(item.start)) {
+      lines.push(`DTEND:${formatUtcDateTime(item.end)}`)
+    }
+  }
+
+  lines.push(`SUMMARY:${escapeText(item.title)}`)
+  if (item.description) lines.push(`DESCRIPTION:${escapeText(item.description)}`)
+  if (item.location) lines.push(`LOCATION:${escapeText(item.location)}`)
+  if (item.href) lines.push(`URL:${origin.replace(/\/$/, '')}${item.href}`)
+  lines.push(`CATEGORIES:${escapeText(getScheduleSource(item.source).label)}`)
+  if (item.status?.toLowerCase() === 'cancelled') lines.push('STATUS:CANCELLED')
+  // Meetings and showings block time; tasks and milestones are reminders
+  const blocksTime = item.source === 'meeting' || item.source === 'showing'
+  lines.push(`TRANSP:${blocksTime ? 'OPAQUE' : 'TRANSPARENT'}`, 'END:VEVENT')
+
+  return lines
+}
+
+/**
+ * A complete VCALENDAR document with CRLF line endings
+ */
+export function buildICalendar(
+  items: ScheduleItem[],
+  options: { name: string; origin: string; now?: Date }
+): string {
+  const stamp = formatUtcDateTime(options.now || new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Dealvize//CRM Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    // Hints for how often subscribers should check for changes
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...items.flatMap(item => buildEvent(item, options.origin, stamp)),
+    'END:VCALENDAR'
+  ]
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
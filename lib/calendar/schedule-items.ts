@@ -0,0 +1,376 @@
+/**
+ * Calendar Schedule Items - gathers tasks, repeating-task projections, video
+ * meetings, showings and transaction milestones into one date-ordered list,
+ * and moves an item to another day when it's dragged on the calendar
+ */
+
+import { AppError, NotFoundError } from '@/lib/errors'
+import { getUserTimezone, listProjectedOccurrences } from '@/lib/tasks/recurring-tasks'
+import { getOccurrenceDate, moveDueDateTo } from '@/lib/tasks/recurrence'
+import { isTaskCompleted } from '@/lib/tasks/dependencies'
+import { isDateKey, type ScheduleItem, type ScheduleItemSource } from '@/lib/calendar/schedule'
+
+interface ScheduleRange {
+  from: string
+  to: string
+  timeZone: string
+}
+
+type ScheduleLoader = (supabase: any, userId: string, range: ScheduleRange) => Promise<ScheduleItem[]>
+
+// Timestamp columns are queried a day wider on each side, then filtered on the local date
+function widenRange(range: ScheduleRange): { start: string; end: string } {
+  const start = new Date(`${range.from}T00:00:00Z`)
+  const end = new Date(`${range.to}T00:00:00Z`)
+  start.setUTCDate(start.getUTCDate() - 1)
+  end.setUTCDate(end.getUTCDate() + 2)
+  return { start: start.toISOString(), end: end.toISOString() }
+}
+
+function inRange(date: string, range: ScheduleRange): boolean {
+  return date >= range.from && date <= range.to
+}
+
+async function loadTasks(supabase: any, userId: string, range: ScheduleRange): Promise<ScheduleItem[]> {
+  const { start, end } = widenRange(range)
+  const { data: tasks, error } = await supabase
+    .from('tasks')
+    .select('id, title, description, due_date, status, priority')
+    .eq('user_id', userId)
+    .gte('due_date', start)
+    .lt('due_date', end)
+
+  if (error) {
+    console.error('Error fetching calendar tasks:', error)
+    throw new AppError('Failed to fetch tasks', 500, 'DATABASE_ERROR')
+  }
+
+  return (tasks || [])
+    .map((task: any): ScheduleItem => {
+      const allDay = isDateKey(task.due_date)
+      return {
+        id: `task:${task.id}`,
+        source: 'task',
+        source_id: task.id,
+        title: task.title,
+        date: getOccurrenceDate(task.due_date, range.timeZone),
+        start: allDay ? null : task.due_date,
+        end: null,
+        all_day: allDay,
+        status: task.status,
+        description: task.description || null,
+        location: null,
+        href: `/tasks/edit/${task.id}`,
+        reschedulable: !isTaskCompleted(task.status)
+      }
+    })
+    .filter((item: ScheduleItem) => inRange(item.date, range))
+}
+
+async function loadTaskOccurrences(supabase: any, userId: string, range: ScheduleRange): Promise<ScheduleItem[]> {
+  const occurrences = await listProjectedOccurrences(supabase, userId, range.from, range.to)
+
+  return occurrences.map(occurrence => {
+    const allDay = occurrence.due_date === occurrence.date
+    return {
+      id: `task_occurrence:${occurrence.series_id}:${occurrence.index}`,
+      source: 'task_occurrence',
+      source_id: occurrence.task_id,
+      title: occurrence.title,
+      date: occurrence.date,
+      start: allDay ? null : occurrence.due_date,
+      end: null,
+      all_day: allDay,
+      status: null,
+      description: 'Created when the previous occurrence is completed',
+      location: null,
+      href: `/tasks/edit/${occurrence.task_id}`,
+      // Projected occurrences aren't stored yet, so there is nothing to move
+      reschedulable: false
+    }
+  })
+}
+
+async function loadMeetings(supabase: any, userId: string, range: ScheduleRange): Promise<ScheduleItem[]> {
+  const { start, end } = widenRange(range)
+  const { data: meetings, error } = await supabase
+    .from('video_meetings')
+    .select('id, title, description, scheduled_start_time, scheduled_end_time, meeting_url, status')
+    .eq('user_id', userId)
+    .gte('scheduled_start_time', start)
+    .lt('scheduled_start_time', end)
+
+  if (error) {
+    console.error('Error fetching calendar meetings:', error)
+    throw new AppError('Failed to fetch meetings', 500, 'DATABASE_ERROR')
+  }
+
+  return (meetings || [])
+    .map((meeting: any): ScheduleItem => ({
+      id: `meeting:${meeting.id}`,
+      source: 'meeting',
+      source_id: meeting.id,
+      title: meeting.title,
+      date: getOccurrenceDate(meeting.scheduled_start_time, range.timeZone),
+      start: meeting.scheduled_start_time,
+      end: meeting.scheduled_end_time || null,
+      all_day: false,
+      status: meeting.status,
+      description: meeting.description || null,
+      location: meeting.meeting_url || null,
+      href: '/communication',
+      reschedulable: meeting.status === 'scheduled'
+    }))
+    .filter((item: ScheduleItem) => inRange(item.date, range))
+}
+
+async function loadShowings(supabase: any, userId: string, range: ScheduleRange): Promise<ScheduleItem[]> {
+  const { start, end } = widenRange(range)
+  const { data: showings, error } = await supabase
+    .from('showings')
+    .select('id, client_id, property_address, start_time, end_time, status, confirmation_status, notes')
+    .eq('user_id', userId)
+    .gte('start_time', start)
+    .lt('start_time', end)
+
+  if (error) {
+    console.error('Error fetching calendar showings:', error)
+    throw new AppError('Failed to fetch showings', 500, 'DATABASE_ERROR')
+  }
+
+  return (showings || [])
+    .map((showing: any): ScheduleItem => ({
+      id: `showing:${showing.id}`,
+      source: 'showing',
+      source_id: showing.id,
+      title: `Showing: ${showing.property_address}`,
+      date: getOccurrenceDate(showing.start_time, range.timeZone),
+      start: showing.start_time,
+      end: showing.end_time,
+      all_day: false,
+      status: showing.status === 'scheduled' ? showing.confirmation_status : showing.status,
+      description: showing.notes || null,
+      location: showing.property_address,
+      href: `/client/${showing.client_id}`,
+      reschedulable: showing.status === 'scheduled'
+    }))
+    .filter((item: ScheduleItem) => inRange(item.date, range))
+}
+
+async function loadMilestones(supabase: any, userId: string, range: ScheduleRange): Promise<ScheduleItem[]> {
+  const { start, end } = widenRange(range)
+  const { data: milestones, error } = await supabase
+    .from('transaction_timeline')
+    .select(`
+      id, milestone, milestone_date, status, notes,
+      transaction:transactions(id, deal_id, deal:deals(title, address))
+    `)
+    .eq('user_id', userId)
+    .gte('milestone_date', start)
+    .lt('milestone_date', end)
+
+  if (error) {
+    console.error('Error fetching calendar milestones:', error)
+    throw new AppError('Failed to fetch transaction milestones', 500, 'DATABASE_ERROR')
+  }
+
+  return (milestones || [])
+    .map((entry: any): ScheduleItem => {
+      const deal = entry.transaction?.deal
+      return {
+        id: `milestone:${entry.id}`,
+        source: 'milestone',
+        source_id: entry.id,
+        title: deal?.title ? `${entry.milestone} - ${deal.title}` : entry.milestone,
+        // Milestone dates are whole days stored as UTC midnight
+        date: getOccurrenceDate(entry.milestone_date, 'UTC'),
+        start: null,
+        end: null,
+        all_day: true,
+        status: entry.status,
+        description: entry.notes || null,
+        location: deal?.address || null,
+        href: entry.transaction?.deal_id ? `/deal/${entry.transaction.deal_id}` : null,
+        reschedulable: entry.status !== 'completed'
+      }
+    })
+    .filter((item: ScheduleItem) => inRange(item.date, range))
+}
+
+// Each source that shows on the calendar contributes one loader
+const SCHEDULE_LOADERS: ScheduleLoader[] = [loadTasks, loadTaskOccurrences, loadMeetings, loadShowings, loadMilestones]
+
+/**
+ * Everything on the user's calendar between two dates (YYYY-MM-DD, inclusive)
+ */
+export async function getScheduleItems(
+  supabase: any,
+  userId: string,
+  from: string,
+  to: string
+): Promise<{ items: ScheduleItem[]; time_zone: string }> {
+  const timeZone = await getUserTimezone(supabase, userId)
+  const range = { from, to, timeZone }
+
+  const results = await Promise.all(SCHEDULE_LOADERS.map(loader => loader(supabase, userId, range)))
+  const items = results.flat().sort((a, b) =>
+    a.date.localeCompare(b.date) || (a.start || '').localeCompare(b.start || '')
+  )
+
+  return { items, time_zone: timeZone }
+}
+
+async function rescheduleTask(supabase: any, userId: string, id: string, date: string, timeZone: string) {
+  const { data: task } = await supabase
+    .from('tasks')
+    .select('id, due_date, status')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!task) throw new NotFoundError('Task')
+  if (!task.due_date) throw new AppError('Only tasks with a due date can be moved', 400, 'NOT_RESCHEDULABLE')
+
+  // Moving a single occurrence of a repeating task leaves the series schedule alone
+  const { error } = await supabase
+    .from('tasks')
+    .update({ due_date: moveDueDateTo(task.due_date, date, timeZone) })
+    .eq('id', id)
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Error rescheduling task:', error)
+    throw new AppError('Failed to move task', 500, 'DATABASE_ERROR')
+  }
+}
+
+async function rescheduleMeeting(supabase: any, userId: string, id: string, date: string, timeZone: string) {
+  const { data: meeting } = await supabase
+    .from('video_meetings')
+    .select('id, scheduled_start_time, scheduled_end_time, status')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!meeting) throw new NotFoundError('Meeting')
+  if (meeting.status !== 'scheduled') {
+    throw new AppError('Only scheduled meetings can be moved', 400, 'NOT_RESCHEDULABLE')
+  }
+
+  const start = moveDueDateTo(meeting.scheduled_start_time, date, timeZone)
+  const duration = meeting.scheduled_end_time
+    ? new Date(meeting.scheduled_end_time).getTime() - new Date(meeting.scheduled_start_time).getTime()
+    : 0
+
+  const { error } = await supabase
+    .from('video_meetings')
+    .update({
+      scheduled_start_time: start,
+      scheduled_end_time: meeting.scheduled_end_time ? new Date(new Date(start).getTime() + duration).toISOString() : null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Error rescheduling meeting:', error)
+    throw new AppError('Failed to move meeting', 500, 'DATABASE_ERROR')
+  }
+}
+
+async function rescheduleShowing(supabase: any, userId: string, id: string, date: string, timeZone: string) {
+  const { data: showing } = await supabase
+    .from('showings')
+    .select('id, start_time, end_time, status')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!showing) throw new NotFoundError('Showing')
+  if (showing.status !== 'scheduled') {
+    throw new AppError('Only scheduled showings can be moved', 400, 'NOT_RESCHEDULABLE')
+  }
+
+  const start = moveDueDateTo(showing.start_time, date, timeZone)
+  const duration = new Date(showing.end_time).getTime() - new Date(showing.start_time).getTime()
+
+  const { error } = await supabase
+    .from('showings')
+    .update({
+      start_time: start,
+      end_time: new Date(new Date(start).getTime() + duration).toISOString(),
+      // The listing agent agreed to the old day, not the new one
+      confirmation_status: 'pending',
+      confirmed_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Error rescheduling showing:', error)
+    throw new AppError('Failed to move showing', 500, 'DATABASE_ERROR')
+  }
+}
+
+async function rescheduleMilestone(supabase: any, userId: string, id: string, date: string) {
+  const { data: entry } = await supabase
+    .from('transaction_timeline')
+    .select('id, milestone_date, status')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!entry) throw new NotFoundError('Milestone')
+  if (entry.status === 'completed') {
+    throw new AppError('Completed milestones cannot be moved', 400, 'NOT_RESCHEDULABLE')
+  }
+
+  const milestoneDate = entry.milestone_date ? moveDueDateTo(entry.milestone_date, date, 'UTC') : date
+  const { error } = await supabase
+    .from('transaction_timeline')
+    // Like an edit by hand, a dragged milestone no longer follows its template anchor
+    .update({ milestone_date: milestoneDate, anchor: null, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Error rescheduling milestone:', error)
+    throw new AppError('Failed to move milestone', 500, 'DATABASE_ERROR')
+  }
+
+  const { error: taskError } = await supabase
+    .from('tasks')
+    .update({ due_date: milestoneDate })
+    .eq('user_id', userId)
+    .eq('metadata->>timeline_id', id)
+    .not('status', 'ilike', 'completed')
+
+  if (taskError) console.error('Error moving milestone task:', taskError)
+}
+
+/**
+ * Move a calendar item to another day, keeping its time of day
+ */
+export async function rescheduleScheduleItem(
+  supabase: any,
+  userId: string,
+  source: ScheduleItemSource,
+  id: string,
+  date: string
+): Promise<void> {
+  const timeZone = await getUserTimezone(supabase, userId)
+
+  switch (source) {
+    case 'task':
+      return rescheduleTask(supabase, userId, id, date, timeZone)
+    case 'meeting':
+      return rescheduleMeeting(supabase, userId, id, date, timeZone)
+    case 'showing':
+      return rescheduleShowing(supabase, userId, id, date, timeZone)
+    case 'milestone':
+      return rescheduleMilestone(supabase, userId, id, date)
+    default:
+      throw new AppError('This item cannot be moved from the calendar', 400, 'NOT_RESCHEDULABLE')
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Calendar Schedule
+ * One shape for everything that lands on the calendar - tasks, projected
+ * occurrences of repeating tasks, video meetings, showings and transaction
+ * milestones - and the day/week/month grid helpers the calendar page uses.
+ * Safe to import from client components - no server-only dependencies.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns'
+
+export type ScheduleView = 'day' | 'week' | 'month'
+
+export type ScheduleItemSource = 'task' | 'task_occurrence' | 'meeting' | 'showing' | 'milestone'
+
+export interface ScheduleItem {
+  // Unique across sources, e.g. "task:<uuid>"
+  id: string
+  source: ScheduleItemSource
+  // The id of the row behind the item (for occurrences, the open task of the series)
+  source_id: string
+  title: string
+  // Calendar date the item falls on, in the user's timezone (YYYY-MM-DD)
+  date: string
+  // Exact start and end for timed items; null for all-day items
+  start: string | null
+  end: string | null
+  all_day: boolean
+  status: string | null
+  description: string | null
+  location: string | null
+  // Page in the app that opens the item
+  href: string | null
+  // Whether dragging the item to another day moves it
+  reschedulable: boolean
+}
+
+export const SCHEDULE_SOURCES: { value: ScheduleItemSource; label: string; className: string }[] = [
+  { value: 'task', label: 'Task', className: 'bg-blue-50 border-blue-200 text-blue-900' },
+  { value: 'task_occurrence', label: 'Repeating task', className: 'bg-white border-blue-200 border-dashed text-blue-800' },
+  { value: 'meeting', label: 'Meeting', className: 'bg-purple-50 border-purple-200 text-purple-900' },
+  { value: 'showing', label: 'Showing', className: 'bg-orange-50 border-orange-200 text-orange-900' },
+  { value: 'milestone', label: 'Milestone', className: 'bg-green-50 border-green-200 text-green-900' }
+]
+
+// Longest range the schedule API returns in one request (a month grid shows up to six weeks)
+export const MAX_SCHEDULE_RANGE_DAYS = 62
+
+const DATE_KEY_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+export function isDateKey(value: string | null | undefined): value is string {
+  return !!value && DATE_KEY_REGEX.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime())
+}
+
+export function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function getDaysBetween(from: string, to: string): number {
+  const fromTime = new Date(`${from}T00:00:00Z`).getTime()
+  const toTime = new Date(`${to}T00:00:00Z`).getTime()
+  return Math.round((toTime - fromTime) / (24 * 60 * 60 * 1000))
+}
+
+export function getScheduleSource(source: ScheduleItemSource) {
+  return SCHEDULE_SOURCES.find(option => option.value === source) || SCHEDULE_SOURCES[0]
+}
+
+/**
+ * First and last day shown by a view around the focused date. Weeks start on Sunday
+ */
+export function getViewRange(view: ScheduleView, date: Date): { start: Date; end: Date } {
+  if (view === 'day') return { start: date, end: date }
+  if (view === 'week') return { start: startOfWeek(date), end: endOfWeek(date) }
+  return { start: startOfWeek(startOfMonth(date)), end: endOfWeek(endOfMonth(date)) }
+}
+
+export function getViewDays(view: ScheduleView, date: Date): Date[] {
+  const { start, end } = getViewRange(view, date)
+  return eachDayOfInterval({ start, end })
+}
+
+/**
+ * The focused date one view-length earlier or later
+ */
+export function stepViewDate(view: ScheduleView, date: Date, direction: 1 | -1): Date {
+  if (view === 'day') return addDays(date, direction)
+  if (view === 'week') return addWeeks(date, direction)
+  return addMonths(date, direction)
+}
+
+export function getViewTitle(view: ScheduleView, date: Date): string {
+  if (view === 'day') return format(date, 'EEEE, MMMM d, yyyy')
+  if (view === 'month') return format(date, 'MMMM yyyy')
+
+  const { start, end } = getViewRange('week', date)
+  return start.getMonth() === end.getMonth()
+    ? `${format(start, 'MMMM d')} - ${format(end, 'd, yyyy')}`
+    : `${format(start, 'MMM d')} - ${format(end, 'MMM d, yyyy')}`
+}
+
+/**
+ * Items keyed by date, all-day items first and timed items in start order
+ */
+export function groupItemsByDate(items: ScheduleItem[]): Map<string, ScheduleItem[]> {
+  const sorted = [...items].sort((a, b) => {
+    if (a.all_day !== b.all_day) return a.all_day ? -1 : 1
+    if (a.start && b.start) return a.start.localeCompare(b.start)
+    return a.title.localeCompare(b.title)
+  })
+
+  const byDate = new Map<string, ScheduleItem[]>()
+  for (const item of sorted) {
+    const dayItems = byDate.get(item.date) || []
+    dayItems.push(item)
+    byDate.set(item.date, dayItems)
+  }
+  return byDate
+}
+
+/**
+ * "9:30 AM" style start time in the given timezone, or "All day"
+ */
+export function formatItemTime(item: ScheduleItem, timeZone?: string): string {
+  if (item.all_day || !item.start) return 'All day'
+
+  const formatter = new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: '2-digit', timeZone })
+  const start = formatter.format(new Date(item.start))
+  return item.end ? `${start} - ${formatter.format(new Date(item.end))}` : start
+}
@@ -0,0 +1,328 @@
+/**
+ * Client Consent Records - the current per-channel consent, the append-only
+ * change log behind the compliance report, and the checks every outbound
+ * email, SMS and WhatsApp path runs before sending
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { AppError, NotFoundError } from '@/lib/errors'
+import {
+  CONSENT_CHANNELS,
+  getConsentChannelLabel,
+  parseConsentReply,
+  type ClientConsent,
+  type ConsentChannel,
+  type ConsentEvent,
+  type ConsentSource,
+  type ConsentStatus
+} from '@/lib/clients/consent'
+
+export interface ConsentChangeOptions {
+  source: ConsentSource
+  consentText?: string | null
+  recordedBy?: string | null
+  metadata?: Record<string, any>
+}
+
+export interface ConsentEventQuery {
+  from?: string
+  to?: string
+  channel?: ConsentChannel
+  clientId?: string
+  limit?: number
+}
+
+export interface InboundConsentReply {
+  channel: ConsentChannel
+  text: string | null | undefined
+  email?: string | null
+  phone?: string | null
+  // Restrict the match to one agent's clients when the inbox is known
+  userId?: string | null
+  metadata?: Record<string, any>
+}
+
+/**
+ * Record a consent change for one channel. Returns null when the client was
+ * already in that state, so repeated STOP replies don't fill the log
+ */
+export async function recordConsent(
+  supabase: any,
+  userId: string,
+  clientId: string,
+  channel: ConsentChannel,
+  status: ConsentStatus,
+  options: ConsentChangeOptions
+): Promise<ConsentEvent | null> {
+  const { data: client } = await supabase
+    .from('clients')
+    .select('id')
+    .eq('id', clientId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!client) throw new NotFoundError('Client')
+
+  const { data: current } = await supabase
+    .from('client_consents')
+    .select('status')
+    .eq('client_id', clientId)
+    .eq('channel', channel)
+    .maybeSingle()
+
+  if (current?.status === status) return null
+
+  const changedAt = new Date().toISOString()
+  const { error } = await supabase
+    .from('client_consents')
+    .upsert({
+      user_id: userId,
+      client_id: clientId,
+      channel,
+      status,
+      source: options.source,
+      consent_text: options.consentText || null,
+      changed_at: changedAt,
+      updated_at: changedAt
+    }, { onConflict: 'client_id,channel' })
+
+  if (error) throw error
+
+  const { data: event, error: eventError } = await supabase
+    .from('client_consent_events')
+    .insert({
+      user_id: userId,
+      client_id: clientId,
+      channel,
+      from_status: current?.status || null,
+      to_status: status,
+      source: options.source,
+      consent_text: options.consentText || null,
+      recorded_by: options.recordedBy || null,
+      metadata: options.metadata || {},
+      recorded_at: changedAt
+    })
+    .select()
+    .single()
+
+  // The consent itself is saved; a missing log row shouldn't undo an opt-out
+  if (eventError) {
+    console.error('Error logging consent change:', eventError)
+    return null
+  }
+
+  return event
+}
+
+export async function getClientConsents(supabase: any, userId: string, clientId: string): Promise<ClientConsent[]> {
+  const { data, error } = await supabase
+    .from('client_consents')
+    .select('channel, status, source, consent_text, changed_at')
+    .eq('user_id', userId)
+    .eq('client_id', clientId)
+
+  if (error) throw error
+
+  return CONSENT_CHANNELS.map(({ value }) => {
+    const record = (data || []).find((consent: any) => consent.channel === value)
+    return {
+      channel: value,
+      status: record?.status || null,
+      source: record?.source || null,
+      consent_text: record?.consent_text || null,
+      changed_at: record?.changed_at || null
+    }
+  })
+}
+
+/**
+ * Which of these clients have opted out of a channel. Clients with no record
+ * are contactable - consent is only withheld once it has been withdrawn
+ */
+export async function getOptedOutClientIds(
+  supabase: any,
+  userId: string,
+  clientIds: string[],
+  channel: ConsentChannel
+): Promise<Set<string>> {
+  const ids = Array.from(new Set(clientIds.filter(Boolean)))
+  if (ids.length === 0) return new Set()
+
+  const { data, error } = await supabase
+    .from('client_consents')
+    .select('client_id')
+    .eq('user_id', userId)
+    .eq('channel', channel)
+    .eq('status', 'opted_out')
+    .in('client_id', ids)
+
+  if (error) throw error
+  return new Set((data || []).map((consent: any) => consent.client_id))
+}
+
+/**
+ * Throw when the client has opted out of the channel. Every send path goes
+ * through this (or getOptedOutClientIds for batches) before contacting anyone
+ */
+export async function assertContactAllowed(
+  supabase: any,
+  userId: string,
+  clientId: string,
+  channel: ConsentChannel
+): Promise<void> {
+  const optedOut = await getOptedOutClientIds(supabase, userId, [clientId], channel)
+  if (optedOut.has(clientId)) {
+    throw new AppError(
+      `This contact has opted out of ${getConsentChannelLabel(channel)} messages`,
+      403,
+      'CONTACT_OPTED_OUT'
+    )
+  }
+}
+
+export async function findClientIdsByEmail(supabase: any, email: string, userId?: string | null): Promise<{ id: string; user_id: string }[]> {
+  const address = email.trim().toLowerCase()
+  let query = supabase
+    .from('clients')
+    .select('id, user_id, email')
+    .ilike('email', address)
+    // Merged duplicates stay archived; the survivor carries the contact
+    .is('merged_into_id', null)
+
+  if (userId) query = query.eq('user_id', userId)
+
+  // ilike treats _ as a wildcard, so confirm the match exactly
+  const { data } = await query
+  return (data || [])
+    .filter((client: any) => client.email?.trim().toLowerCase() === address)
+    .map((client: any) => ({ id: client.id, user_id: client.user_id }))
+}
+
+function phoneDigits(phone: string): string {
+  return phone.replace(/\D/g, '').slice(-10)
+}
+
+/**
+ * Phone numbers are stored however the agent typed them, so match on the
+ * last ten digits rather than the raw string
+ */
+export async function findClientIdsByPhone(supabase: any, phone: string, userId?: string | null): Promise<{ id: string; user_id: string }[]> {
+  const digits = phoneDigits(phone)
+  if (digits.length < 7) return []
+
+  let query = supabase
+    .from('clients')
+    .select('id, user_id, phone')
+    .ilike('phone', `%${digits.slice(-4)}`)
+    .is('merged_into_id', null)
+
+  if (userId) query = query.eq('user_id', userId)
+
+  const { data } = await query
+  return (data || [])
+    .filter((client: any) => client.phone && phoneDigits(client.phone) === digits)
+    .map((client: any) => ({ id: client.id, user_id: client.user_id }))
+}
+
+/**
+ * Apply a STOP / START style reply to every client it came from. Returns the
+ * new status, or null when the message wasn't a consent keyword
+ */
+export async function applyInboundConsentReply(supabase: any, reply: InboundConsentReply): Promise<ConsentStatus | null> {
+  const status = parseConsentReply(reply.text)
+  if (!status) return null
+
+  const clients = reply.email
+    ? await findClientIdsByEmail(supabase, reply.email, reply.userId)
+    : reply.phone
+      ? await findClientIdsByPhone(supabase, reply.phone, reply.userId)
+      : []
+
+  for (const client of clients) {
+    try {
+      await recordConsent(supabase, client.user_id, client.id, reply.channel, status, {
+        source: 'inbound_reply',
+        consentText: reply.text?.trim() || null,
+        metadata: reply.metadata
+      })
+    } catch (error) {
+      console.error('Error applying inbound consent reply:', error)
+    }
+  }
+
+  return status
+}
+
+export async function listConsentEvents(supabase: any, userId: string, query: ConsentEventQuery = {}): Promise<ConsentEvent[]> {
+  let request = supabase
+    .from('client_consent_events')
+    .select(`
+      *,
+      client:clients(id, first_name, last_name, email, phone)
+    `)
+    .eq('user_id', userId)
+    .order('recorded_at', { ascending: false })
+    .limit(query.limit || 1000)
+
+  if (query.channel) request = request.eq('channel', query.channel)
+  if (query.clientId) request = request.eq('client_id', query.clientId)
+  if (query.from) request = request.gte('recorded_at', query.from)
+  if (query.to) request = request.lte('recorded_at', query.to)
+
+  const { data, error } = await request
+  if (error) throw error
+  return data || []
+}
+
+// Unsubscribe links are signed rather than stored, so every email can carry one.
+// The key is dedicated: without it no link is signed or accepted
+export function isUnsubscribeConfigured(): boolean {
+  return Boolean(process.env.UNSUBSCRIBE_SECRET)
+}
+
+function getUnsubscribeSecret(): string {
+  const secret = process.env.UNSUBSCRIBE_SECRET
+  if (!secret) throw new Error('UNSUBSCRIBE_SECRET is not configured')
+  return secret
+}
+
+function signUnsubscribePayload(payload: string): string {
+  return createHmac('sha256', getUnsubscribeSecret()).update(payload).digest('base64url')
+}
+
+export function createUnsubscribeToken(userId: string, clientId: string): string {
+  const payload = Buffer.from(`${userId}:${clientId}`).toString('base64url')
+  return `${payload}.${signUnsubscribePayload(payload)}`
+}
+
+export function verifyUnsubscribeToken(token: string): { userId: string; clientId: string } | null {
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) return null
+  if (!isUnsubscribeConfigured()) {
+    console.error('UNSUBSCRIBE_SECRET is not configured; rejecting unsubscribe link')
+    return null
+  }
+
+  const expected = Buffer.from(signUnsubscribePayload(payload))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  const [userId, clientId] = Buffer.from(payload, 'base64url').toString('utf-8').split(':')
+  return userId && clientId ? { userId, clientId } : null
+}
+
+export function getUnsubscribeUrl(origin: string, userId: string, clientId: string): string {
+  return `${origin.replace(/\/$/, '')}/unsubscribe/${createUnsubscribeToken(userId, clientId)}`
+}
+
+/**
+ * Plain-text and HTML footers carrying the client's unsubscribe link
+ */
+export function buildUnsubscribeFooter(origin: string, userId: string, clientId: string): { text: string; html: string; url: string } {
+  const url = getUnsubscribeUrl(origin, userId, clientId)
+  return {
+    url,
+    text: `\n\n--\nDon't want these emails? Unsubscribe: ${url}`,
+    html: `<br><br><p style="font-size:12px;color:#6b7280">Don't want these emails? <a href="${url}">Unsubscribe</a></p>`
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Communication Consent
+ * Per-client, per-channel permission to make contact, and the inbound
+ * keywords that withdraw or restore it.
+ * Safe to import from client components - no server-only dependencies.
+ */
+
+export type ConsentChannel = 'email' | 'sms' | 'phone' | 'whatsapp'
+
+export type ConsentStatus = 'opted_in' | 'opted_out'
+
+// Where a consent change came from
+export type ConsentSource =
+  | 'manual'
+  | 'verbal'
+  | 'web_form'
+  | 'import'
+  | 'inbound_reply'
+  | 'unsubscribe_link'
+
+export const CONSENT_CHANNELS: { value: ConsentChannel; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'whatsapp', label: 'WhatsApp' }
+]
+
+export const CONSENT_SOURCE_LABELS: Record<ConsentSource, string> = {
+  manual: 'Recorded by agent',
+  verbal: 'Verbal consent',
+  web_form: 'Web form',
+  import: 'Import',
+  inbound_reply: 'Replied STOP/START',
+  unsubscribe_link: 'Unsubscribe link'
+}
+
+// Sources an agent can pick when recording consent by hand
+export const MANUAL_CONSENT_SOURCES: ConsentSource[] = ['manual', 'verbal', 'web_form', 'import']
+
+// Standard carrier opt-out / opt-in keywords, matched against the whole reply
+const OPT_OUT_KEYWORDS = ['stop', 'stopall', 'unsubscribe', 'cancel', 'end', 'quit', 'optout', 'opt out', 'remove me']
+const OPT_IN_KEYWORDS = ['start', 'unstop', 'subscribe']
+
+export interface ClientConsent {
+  channel: ConsentChannel
+  // null when nothing has been recorded for the channel
+  status: ConsentStatus | null
+  source: ConsentSource | null
+  consent_text: string | null
+  changed_at: string | null
+}
+
+export interface ConsentEvent {
+  id: string
+  user_id: string
+  client_id: string
+  channel: ConsentChannel
+  from_status: ConsentStatus | null
+  to_status: ConsentStatus
+  source: ConsentSource
+  consent_text: string | null
+  recorded_by: string | null
+  metadata: Record<string, any> | null
+  recorded_at: string
+  client?: { id: string; first_name: string | null; last_name: string | null; email: string | null; phone: string | null } | null
+}
+
+export function isConsentChannel(value: unknown): value is ConsentChannel {
+  return typeof value === 'string' && CONSENT_CHANNELS.some(channel => channel.value === value)
+}
+
+export function getConsentChannelLabel(channel: ConsentChannel): string {
+  return CONSENT_CHANNELS.find(option => option.value === channel)?.label || channel
+}
+
+function normalizeReply(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    // Email subjects arrive as "Re: Unsubscribe"
+    .replace(/^((re|fwd?)\s*:\s*)+/, '')
+    .replace(/[^a-z\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Whether an inbound message is an opt-out or opt-in keyword reply. Only a
+ * reply that is just the keyword counts, so "please don't stop sending
+ * listings" is left alone
+ */
+export function parseConsentReply(text: string | null | undefined): ConsentStatus | null {
+  if (!text) return null
+  const reply = normalizeReply(text)
+  if (OPT_OUT_KEYWORDS.includes(reply)) return 'opted_out'
+  if (OPT_IN_KEYWORDS.includes(reply)) return 'opted_in'
+  return null
+}
+
+export function isContactAllowed(consents: ClientConsent[], channel: ConsentChannel): boolean {
+  return consents.find(consent => consent.channel === channel)?.status !== 'opted_out'
+}
@@ -0,0 +1,261 @@
+/**
+ * Client Duplicate Detection
+ * Normalized email, E.164 phone, and fuzzy name plus address matching.
+ * Safe to import from client components - no server-only dependencies.
+ */
+
+export type DuplicateReason = 'email' | 'phone' | 'name_address'
+
+export interface DuplicateCandidateClient {
+  id: string
+  first_name?: string | null
+  last_name?: string | null
+  name?: string | null
+  email?: string | null
+  phone?: string | null
+  address?: string | null
+  created_at?: string | null
+}
+
+export interface DuplicateMatch {
+  // The older record is listed first and suggested as the survivor
+  clientId: string
+  duplicateClientId: string
+  reasons: DuplicateReason[]
+  score: number
+}
+
+const NAME_THRESHOLD = 0.9
+const ADDRESS_THRESHOLD = 0.85
+
+// Providers that ignore dots in the local part
+const DOTLESS_EMAIL_DOMAINS = ['gmail.com', 'googlemail.com']
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', road: 'rd', drive: 'dr', boulevard: 'blvd', lane: 'ln',
+  court: 'ct', place: 'pl', terrace: 'ter', circle: 'cir', highway: 'hwy', parkway: 'pkwy',
+  north: 'n', south: 's', east: 'e', west: 'w', apartment: 'apt', suite: 'ste', unit: 'apt', '#': 'apt'
+}
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  if (!email) return null
+  const trimmed = email.trim().toLowerCase()
+  const at = trimmed.lastIndexOf('@')
+  if (at <= 0) return null
+
+  let local = trimmed.slice(0, at).split('+')[0]
+  let domain = trimmed.slice(at + 1)
+  if (DOTLESS_EMAIL_DOMAINS.includes(domain)) {
+    local = local.replace(/\./g, '')
+    domain = 'gmail.com'
+  }
+
+  return local ? `${local}@${domain}` : null
+}
+
+/**
+ * Normalize a phone number to E.164. Numbers without a country code are
+ * taken as North American (+1); anything too short to dial is dropped
+ */
+export function normalizePhone(phone: string | null | undefined, defaultCountryCode: string = '1'): string | null {
+  if (!phone) return null
+  const trimmed = phone.trim()
+  // Extensions are not part of the subscriber number
+  const withoutExtension = trimmed.split(/\s*(?:ext\.?|x|#)\s*\d+$/i)[0]
+  let digits = withoutExtension.replace(/\D/g, '')
+
+  if (withoutExtension.startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null
+  }
+  if (digits.startsWith('00')) {
+    digits = digits.slice(2)
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null
+  }
+  if (defaultCountryCode === '1') {
+    if (digits.length === 10) return `+1${digits}`
+    if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`
+    return null
+  }
+
+  return digits.length >= 7 && digits.length <= 15 - defaultCountryCode.length
+    ? `+${defaultCountryCode}${digits.replace(/^0/, '')}`
+    : null
+}
+
+export function getClientFullName(client: DuplicateCandidateClient): string {
+  const full = `${client.first_name || ''} ${client.last_name || ''}`.trim()
+  return full || client.name || ''
+}
+
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ')
+}
+
+export function normalizeAddress(address: string | null | undefined): string | null {
+  if (!address) return null
+  const normalized = address
+    .toLowerCase()
+    .replace(/#/g, ' # ')
+    .replace(/[.,]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(token => ADDRESS_ABBREVIATIONS[token] || token)
+    .join(' ')
+
+  return normalized || null
+}
+
+/**
+ * Jaro-Winkler similarity (0..1), forgiving of typos and transpositions in short strings
+ */
+export function stringSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b) return 1
+
+  const matchWindow = Math.max(Math.floor(Math.max(a.length, b.length) / 2) - 1, 0)
+  const aMatches = new Array(a.length).fill(false)
+  const bMatches = new Array(b.length).fill(false)
+  let matches = 0
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow)
+    const end = Math.min(i + matchWindow + 1, b.length)
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue
+      aMatches[i] = true
+      bMatches[j] = true
+      matches++
+      break
+    }
+  }
+
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  let k = 0
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue
+    while (!bMatches[k]) k++
+    if (a[i] !== b[k]) transpositions++
+    k++
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+
+  let prefix = 0
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++
+
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+/**
+ * Compare two clients; null when they do not look like the same person
+ */
+export function compareClients(a: DuplicateCandidateClient, b: DuplicateCandidateClient): Omit<DuplicateMatch, 'clientId' | 'duplicateClientId'> | null {
+  const reasons: DuplicateReason[] = []
+  let score = 0
+
+  const emailA = normalizeEmail(a.email)
+  if (emailA && emailA === normalizeEmail(b.email)) {
+    reasons.push('email')
+    score = Math.max(score, 0.95)
+  }
+
+  const phoneA = normalizePhone(a.phone)
+  if (phoneA && phoneA === normalizePhone(b.phone)) {
+    reasons.push('phone')
+    score = Math.max(score, 0.9)
+  }
+
+  const nameA = normalizeName(getClientFullName(a))
+  const nameB = normalizeName(getClientFullName(b))
+  const addressA = normalizeAddress(a.address)
+  const addressB = normalizeAddress(b.address)
+  if (nameA && nameB && addressA && addressB) {
+    const nameScore = stringSimilarity(nameA, nameB)
+    const addressScore = stringSimilarity(addressA, addressB)
+    if (nameScore >= NAME_THRESHOLD && addressScore >= ADDRESS_THRESHOLD) {
+      reasons.push('name_address')
+      score = Math.max(score, (nameScore + addressScore) / 2 * 0.9)
+    }
+  }
+
+  if (reasons.length === 0) return null
+
+  // Each additional signal makes the match more certain
+  return {
+    reasons,
+    score: Math.round(Math.min(1, score + (reasons.length - 1) * 0.05) * 100) / 100
+  }
+}
+
+function orderPair(a: DuplicateCandidateClient, b: DuplicateCandidateClient): [DuplicateCandidateClient, DuplicateCandidateClient] {
+  const aCreated = a.created_at ? new Date(a.created_at).getTime() : 0
+  const bCreated = b.created_at ? new Date(b.created_at).getTime() : 0
+  return aCreated <= bCreated ? [a, b] : [b, a]
+}
+
+/**
+ * Find likely duplicates among a user's clients. With targetIds, only pairs
+ * involving those clients are checked (e.g. right after an import).
+ * Pairs are only compared within blocks sharing an email, phone or name initial
+ */
+export function findDuplicateClients(
+  clients: DuplicateCandidateClient[],
+  targetIds?: string[]
+): DuplicateMatch[] {
+  const targets = targetIds ? new Set(targetIds) : null
+  const blocks = new Map<string, DuplicateCandidateClient[]>()
+
+  const addToBlock = (key: string | null, client: DuplicateCandidateClient) => {
+    if (!key) return
+    blocks.set(key, [...(blocks.get(key) || []), client])
+  }
+
+  for (const client of clients) {
+    addToBlock(normalizeEmail(client.email) && `e:${normalizeEmail(client.email)}`, client)
+    addToBlock(normalizePhone(client.phone) && `p:${normalizePhone(client.phone)}`, client)
+    const name = normalizeName(getClientFullName(client))
+    addToBlock(name && client.address ? `n:${name[0]}` : null, client)
+  }
+
+  const seen = new Set<string>()
+  const matches: DuplicateMatch[] = []
+
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const a = block[i]
+        const b = block[j]
+        if (a.id === b.id) continue
+        if (targets && !targets.has(a.id) && !targets.has(b.id)) continue
+
+        const [first, second] = orderPair(a, b)
+        const key = `${first.id}:${second.id}`
+        if (seen.has(key)) continue
+        seen.add(key)
+
+        const match = compareClients(first, second)
+        if (match) {
+          matches.push({ clientId: first.id, duplicateClientId: second.id, ...match })
+        }
+      }
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score)
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  name_address: 'Similar name and address'
+}
@@ -0,0 +1,375 @@
+/**
+ * Client Relationship Graph - relationship links, households and the
+ * household recipients used when email goes to everyone at an address
+ */
+
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors'
+import {
+  describeRelationship,
+  getRelatedClientName,
+  getRelationshipTypeInfo,
+  suggestHouseholdName,
+  type ClientRelationshipGraph,
+  type HouseholdWithMembers,
+  type RelatedClientSummary,
+  type RelationshipEdge,
+  type RelationshipType
+} from '@/lib/clients/relationships'
+
+const CLIENT_SUMMARY_FIELDS = 'id, first_name, last_name, email, phone, household_id'
+
+export interface CreateRelationshipInput {
+  client_id: string
+  related_client_id: string
+  relationship_type: RelationshipType
+  notes?: string | null
+  // For spouse/partner and household member links, put both clients in one household
+  add_to_household?: boolean
+}
+
+export interface HouseholdInput {
+  name?: string
+  address?: string | null
+  member_ids?: string[]
+}
+
+export interface HouseholdUpdate {
+  name?: string
+  address?: string | null
+  add_member_ids?: string[]
+  remove_member_ids?: string[]
+  // Copy the household address onto every member's client record
+  apply_address_to_members?: boolean
+}
+
+export interface HouseholdRecipient {
+  client_id: string
+  name: string
+  email: string
+}
+
+async function getOwnedClients(supabase: any, userId: string, clientIds: string[]) {
+  if (clientIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('clients')
+    .select(`${CLIENT_SUMMARY_FIELDS}, address`)
+    .eq('user_id', userId)
+    .in('id', clientIds)
+
+  if (error) throw error
+  if (!data || data.length !== new Set(clientIds).size) {
+    throw new NotFoundError('Client')
+  }
+  return data as (RelatedClientSummary & { address: string | null })[]
+}
+
+async function getHouseholdMembers(supabase: any, userId: string, householdId: string): Promise<RelatedClientSummary[]> {
+  const { data } = await supabase
+    .from('clients')
+    .select(CLIENT_SUMMARY_FIELDS)
+    .eq('user_id', userId)
+    .eq('household_id', householdId)
+    .order('first_name')
+
+  return data || []
+}
+
+/**
+ * A client's direct relationships, in both directions, plus their household
+ */
+export async function getClientRelationshipGraph(
+  supabase: any,
+  userId: string,
+  clientId: string
+): Promise<ClientRelationshipGraph> {
+  const [client] = await getOwnedClients(supabase, userId, [clientId])
+
+  const { data: links, error } = await supabase
+    .from('client_relationships')
+    .select('*')
+    .eq('user_id', userId)
+    .or(`client_id.eq.${clientId},related_client_id.eq.${clientId}`)
+    .order('created_at')
+
+  if (error) throw error
+
+  const otherIds = Array.from(new Set<string>((links || []).map((link: any) =>
+    link.client_id === clientId ? link.related_client_id : link.client_id
+  )))
+
+  const { data: others } = otherIds.length > 0
+    ? await supabase.from('clients').select(CLIENT_SUMMARY_FIELDS).eq('user_id', userId).in('id', otherIds)
+    : { data: [] }
+  const othersById = new Map<string, RelatedClientSummary>((others || []).map((other: any) => [other.id, other]))
+
+  const relationships: RelationshipEdge[] = (links || []).flatMap((link: any) => {
+    const outgoing = link.client_id === clientId
+    const other = othersById.get(outgoing ? link.related_client_id : link.client_id)
+    if (!other) return []
+    return [{
+      id: link.id,
+      relationship_type: link.relationship_type,
+      direction: outgoing ? 'outgoing' : 'incoming',
+      label: describeRelationship(link, clientId),
+      notes: link.notes,
+      client: other
+    }]
+  })
+
+  return {
+    relationships,
+    household: client.household_id ? await getHousehold(supabase, userId, client.household_id) : null
+  }
+}
+
+/**
+ * Link two clients. Symmetric types are stored once per pair regardless of
+ * which side they were added from
+ */
+export async function createClientRelationship(supabase: any, userId: string, input: CreateRelationshipInput) {
+  if (input.client_id === input.related_client_id) {
+    throw new ValidationError('A client cannot be related to themselves')
+  }
+
+  const pair = await getOwnedClients(supabase, userId, [input.client_id, input.related_client_id])
+  const client = pair.find(row => row.id === input.client_id)!
+  const related = pair.find(row => row.id === input.related_client_id)!
+
+  const info = getRelationshipTypeInfo(input.relationship_type)
+  const pairFilter = info.symmetric
+    ? `and(client_id.eq.${client.id},related_client_id.eq.${related.id}),and(client_id.eq.${related.id},related_client_id.eq.${client.id})`
+    : `and(client_id.eq.${client.id},related_client_id.eq.${related.id})`
+
+  const { data: existing } = await supabase
+    .from('client_relationships')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('relationship_type', input.relationship_type)
+    .or(pairFilter)
+    .limit(1)
+
+  if (existing && existing.length > 0) {
+    throw new ConflictError('These clients already have this relationship')
+  }
+
+  const { data: relationship, error } = await supabase
+    .from('client_relationships')
+    .insert({
+      user_id: userId,
+      client_id: client.id,
+      related_client_id: related.id,
+      relationship_type: input.relationship_type,
+      notes: input.notes || null
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  if (input.add_to_household && info.household) {
+    const householdId = client.household_id || related.household_id
+    if (householdId) {
+      await addHouseholdMembers(supabase, userId, householdId, [client.id, related.id])
+    } else {
+      await createHousehold(supabase, userId, {
+        name: suggestHouseholdName(client),
+        address: client.address || related.address,
+        member_ids: [client.id, related.id]
+      })
+    }
+  }
+
+  return relationship
+}
+
+export async function deleteClientRelationship(supabase: any, userId: string, relationshipId: string) {
+  const { data, error } = await supabase
+    .from('client_relationships')
+    .delete()
+    .eq('id', relationshipId)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) throw new NotFoundError('Relationship')
+}
+
+export async function listHouseholds(supabase: any, userId: string): Promise<HouseholdWithMembers[]> {
+  const { data: households, error } = await supabase
+    .from('households')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name')
+
+  if (error) throw error
+  if (!households || households.length === 0) return []
+
+  const { data: members } = await supabase
+    .from('clients')
+    .select(CLIENT_SUMMARY_FIELDS)
+    .eq('user_id', userId)
+    .in('household_id', households.map((household: any) => household.id))
+
+  return households.map((household: any) => ({
+    ...household,
+    members: (members || []).filter((member: any) => member.household_id === household.id)
+  }))
+}
+
+export async function getHousehold(supabase: any, userId: string, householdId: string): Promise<HouseholdWithMembers> {
+  const { data: household } = await supabase
+    .from('households')
+    .select('*')
+    .eq('id', householdId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!household) throw new NotFoundError('Household')
+
+  return { ...household, members: await getHouseholdMembers(supabase, userId, householdId) }
+}
+
+export async function createHousehold(supabase: any, userId: string, input: HouseholdInput): Promise<HouseholdWithMembers> {
+  const memberIds = input.member_ids || []
+  const members = await getOwnedClients(supabase, userId, memberIds)
+
+  const { data: household, error } = await supabase
+    .from('households')
+    .insert({
+      user_id: userId,
+      name: input.name?.trim() || (members[0] ? suggestHouseholdName(members[0]) : 'New Household'),
+      address: input.address ?? members.find(member => member.address)?.address ?? null
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  if (memberIds.length > 0) {
+    await addHouseholdMembers(supabase, userId, household.id, memberIds)
+  }
+
+  return getHousehold(supabase, userId, household.id)
+}
+
+// A client belongs to at most one household, so adding moves them
+async function addHouseholdMembers(supabase: any, userId: string, householdId: string, clientIds: string[]) {
+  const { error } = await supabase
+    .from('clients')
+    .update({ household_id: householdId, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .in('id', clientIds)
+
+  if (error) throw error
+}
+
+export async function updateHousehold(
+  supabase: any,
+  userId: string,
+  householdId: string,
+  updates: HouseholdUpdate
+): Promise<HouseholdWithMembers> {
+  const household = await getHousehold(supabase, userId, householdId)
+
+  const fields: Record<string, any> = {}
+  if (updates.name !== undefined) fields.name = updates.name.trim() || household.name
+  if (updates.address !== undefined) fields.address = updates.address || null
+
+  if (Object.keys(fields).length > 0) {
+    const { error } = await supabase
+      .from('households')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', householdId)
+      .eq('user_id', userId)
+
+    if (error) throw error
+  }
+
+  if (updates.add_member_ids?.length) {
+    await getOwnedClients(supabase, userId, updates.add_member_ids)
+    await addHouseholdMembers(supabase, userId, householdId, updates.add_member_ids)
+  }
+
+  if (updates.remove_member_ids?.length) {
+    const { error } = await supabase
+      .from('clients')
+      .update({ household_id: null, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('household_id', householdId)
+      .in('id', updates.remove_member_ids)
+
+    if (error) throw error
+  }
+
+  const address = fields.address !== undefined ? fields.address : household.address
+  if (updates.apply_address_to_members && address) {
+    const { error } = await supabase
+      .from('clients')
+      .update({ address, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('household_id', householdId)
+
+    if (error) throw error
+  }
+
+  return getHousehold(supabase, userId, householdId)
+}
+
+/**
+ * Remove a household. Members and deals stay, they just no longer point at it
+ */
+export async function deleteHousehold(supabase: any, userId: string, householdId: string) {
+  await getHousehold(supabase, userId, householdId)
+
+  await supabase
+    .from('clients')
+    .update({ household_id: null })
+    .eq('user_id', userId)
+    .eq('household_id', householdId)
+
+  await supabase
+    .from('deals')
+    .update({ household_id: null })
+    .eq('user_id', userId)
+    .eq('household_id', householdId)
+
+  const { error } = await supabase
+    .from('households')
+    .delete()
+    .eq('id', householdId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+/**
+ * Everyone in the client's household with an email address, the client first.
+ * Clients outside a household get just themselves
+ */
+export async function getHouseholdRecipients(
+  supabase: any,
+  userId: string,
+  clientId: string
+): Promise<HouseholdRecipient[]> {
+  const { data: client } = await supabase
+    .from('clients')
+    .select(CLIENT_SUMMARY_FIELDS)
+    .eq('id', clientId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!client) return []
+
+  const members: RelatedClientSummary[] = client.household_id
+    ? [client, ...(await getHouseholdMembers(supabase, userId, client.household_id)).filter(member => member.id !== client.id)]
+    : [client]
+
+  const seen = new Set<string>()
+  return members.flatMap(member => {
+    const email = member.email?.trim()
+    if (!email || seen.has(email.toLowerCase())) return []
+    seen.add(email.toLowerCase())
+    return [{ client_id: member.id, name: getRelatedClientName(member), email }]
+  })
+}
@@ -0,0 +1,192 @@
+/**
+ * Client Lifecycle History - stage changes, the automatic moves driven by
+ * deal outcomes, and the sphere-of-influence contact list
+ */
+
+import { NotFoundError } from '@/lib/errors'
+import { getUserPipelines } from '@/lib/pipeline/definitions'
+import { getStageCategory, resolvePipeline, type PipelineStage } from '@/lib/pipeline/stages'
+import {
+  SPHERE_STAGES,
+  SPHERE_STALE_DAYS,
+  getClientLifecycleStage,
+  getDaysSinceTouch,
+  type LifecycleHistoryEntry,
+  type LifecycleStage,
+  type LifecycleTrigger,
+  type SphereContact
+} from '@/lib/clients/lifecycle'
+
+export interface LifecycleChangeOptions {
+  trigger: LifecycleTrigger
+  changedBy?: string | null
+  dealId?: string | null
+  reason?: string | null
+}
+
+export interface SphereQuery {
+  // Only contacts not touched in at least this many days
+  minDaysSinceTouch?: number
+  stage?: LifecycleStage
+}
+
+/**
+ * Append an entry to client_lifecycle_history
+ * Failures are logged rather than thrown so history never blocks the stage change
+ */
+export async function recordLifecycleChange(
+  supabase: any,
+  userId: string,
+  clientId: string,
+  fromStage: LifecycleStage | null,
+  toStage: LifecycleStage,
+  options: LifecycleChangeOptions
+): Promise<LifecycleHistoryEntry | null> {
+  const { data, error } = await supabase
+    .from('client_lifecycle_history')
+    .insert({
+      client_id: clientId,
+      user_id: userId,
+      from_stage: fromStage,
+      to_stage: toStage,
+      trigger: options.trigger,
+      deal_id: options.dealId || null,
+      reason: options.reason || null,
+      changed_by: options.changedBy || null,
+      changed_at: new Date().toISOString()
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error recording lifecycle change:', error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Move a client to a new stage and log it. Returns null when the client was
+ * already in that stage
+ */
+export async function changeLifecycleStage(
+  supabase: any,
+  userId: string,
+  clientId: string,
+  toStage: LifecycleStage,
+  options: LifecycleChangeOptions
+): Promise<LifecycleHistoryEntry | null> {
+  const { data: client } = await supabase
+    .from('clients')
+    .select('id, status, lifecycle_stage')
+    .eq('id', clientId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!client) throw new NotFoundError('Client')
+
+  if (client.lifecycle_stage === toStage) return null
+  const fromStage = getClientLifecycleStage(client)
+
+  const changedAt = new Date().toISOString()
+  const { error } = await supabase
+    .from('clients')
+    .update({ lifecycle_stage: toStage, lifecycle_stage_changed_at: changedAt, updated_at: changedAt })
+    .eq('id', clientId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+
+  return recordLifecycleChange(supabase, userId, clientId, fromStage, toStage, options)
+}
+
+export async function getLifecycleHistory(supabase: any, userId: string, clientId: string): Promise<LifecycleHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('client_lifecycle_history')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('client_id', clientId)
+    .order('changed_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Keep the client's stage in step with a deal that just changed stage:
+ * under contract moves them to Under Contract, a close makes them a Past
+ * Client. A lost deal only moves them when it was their last open one -
+ * to Past Client if they've closed with us before, otherwise Dead
+ */
+export async function applyDealStageToClient(
+  supabase: any,
+  userId: string,
+  deal: { id: string; client_id: string | null },
+  stage: PipelineStage
+): Promise<LifecycleHistoryEntry | null> {
+  if (!deal.client_id) return null
+
+  const options = { changedBy: userId, dealId: deal.id }
+
+  if (stage.category === 'won') {
+    return changeLifecycleStage(supabase, userId, deal.client_id, 'past_client', { ...options, trigger: 'deal_won' })
+  }
+
+  if (stage.category === 'open') {
+    return stage.requires_transaction
+      ? changeLifecycleStage(supabase, userId, deal.client_id, 'under_contract', { ...options, trigger: 'deal_under_contract' })
+      : null
+  }
+
+  const { data: otherDeals } = await supabase
+    .from('deals')
+    .select('id, status, pipeline_id')
+    .eq('user_id', userId)
+    .eq('client_id', deal.client_id)
+    .neq('id', deal.id)
+
+  const pipelines = await getUserPipelines(supabase, userId)
+  const categories = (otherDeals || []).map((other: any) =>
+    getStageCategory(resolvePipeline(pipelines, other.pipeline_id).stages, other.status)
+  )
+
+  if (categories.includes('open')) return null
+
+  return changeLifecycleStage(
+    supabase,
+    userId,
+    deal.client_id,
+    categories.includes('won') ? 'past_client' : 'dead',
+    { ...options, trigger: 'deal_lost' }
+  )
+}
+
+/**
+ * Past clients and sphere contacts, least recently touched first
+ */
+export async function getSphereContacts(supabase: any, userId: string, query: SphereQuery = {}): Promise<SphereContact[]> {
+  const { data, error } = await supabase
+    .from('clients')
+    .select('id, first_name, last_name, email, phone, lifecycle_stage, last_contact')
+    .eq('user_id', userId)
+    .is('merged_into_id', null)
+    .in('lifecycle_stage', query.stage ? [query.stage] : SPHERE_STAGES)
+    .order('last_contact', { ascending: true, nullsFirst: true })
+
+  if (error) throw error
+
+  const now = new Date()
+  return (data || [])
+    .map((client: any) => {
+      const days = getDaysSinceTouch(client.last_contact, now)
+      return {
+        ...client,
+        days_since_touch: days,
+        stale: days === null || days >= SPHERE_STALE_DAYS
+      }
+    })
+    .filter((contact: SphereContact) =>
+      !query.minDaysSinceTouch || contact.days_since_touch === null || contact.days_since_touch >= query.minDaysSinceTouch
+    )
+}
@@ -0,0 +1,121 @@
+/**
+ * Client Lifecycle Stages
+ * Where a contact sits in the relationship, from first lead through past
+ * client and sphere of influence. Separate from `status`, which only says
+ * which side of a deal they're on.
+ * Safe to import from client components - no server-only dependencies.
+ */
+
+export type LifecycleStage =
+  | 'lead'
+  | 'active_buyer'
+  | 'active_seller'
+  | 'under_contract'
+  | 'past_client'
+  | 'sphere'
+  | 'dead'
+
+// What moved a client between stages
+export type LifecycleTrigger = 'created' | 'manual' | 'deal_under_contract' | 'deal_won' | 'deal_lost'
+
+interface LifecycleStageInfo {
+  value: LifecycleStage
+  label: string
+  color: string
+  // Past clients and sphere contacts are worked by staying in touch, not by deals
+  sphere: boolean
+}
+
+export const LIFECYCLE_STAGES: LifecycleStageInfo[] = [
+  { value: 'lead', label: 'Lead', color: 'bg-gray-100 text-gray-800', sphere: false },
+  { value: 'active_buyer', label: 'Active Buyer', color: 'bg-green-100 text-green-800', sphere: false },
+  { value: 'active_seller', label: 'Active Seller', color: 'bg-blue-100 text-blue-800', sphere: false },
+  { value: 'under_contract', label: 'Under Contract', color: 'bg-yellow-100 text-yellow-800', sphere: false },
+  { value: 'past_client', label: 'Past Client', color: 'bg-purple-100 text-purple-800', sphere: true },
+  { value: 'sphere', label: 'Sphere', color: 'bg-indigo-100 text-indigo-800', sphere: true },
+  { value: 'dead', label: 'Dead', color: 'bg-red-100 text-red-800', sphere: false }
+]
+
+export const LIFECYCLE_TRIGGER_LABELS: Record<LifecycleTrigger, string> = {
+  created: 'Client created',
+  manual: 'Changed manually',
+  deal_under_contract: 'Deal went under contract',
+  deal_won: 'Deal closed',
+  deal_lost: 'Deal lost'
+}
+
+export const SPHERE_STAGES: LifecycleStage[] = LIFECYCLE_STAGES
+  .filter(stage => stage.sphere)
+  .map(stage => stage.value)
+
+// Sphere contacts not touched in this long are due a check-in
+export const SPHERE_STALE_DAYS = 90
+
+export interface LifecycleHistoryEntry {
+  id: string
+  client_id: string
+  user_id: string
+  from_stage: LifecycleStage | null
+  to_stage: LifecycleStage
+  trigger: LifecycleTrigger
+  deal_id: string | null
+  reason: string | null
+  changed_by: string | null
+  changed_at: string
+}
+
+export interface SphereContact {
+  id: string
+  first_name: string | null
+  last_name: string | null
+  email: string | null
+  phone: string | null
+  lifecycle_stage: LifecycleStage
+  last_contact: string | null
+  // null when the client has never been contacted
+  days_since_touch: number | null
+  stale: boolean
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+export function isLifecycleStage(value: unknown): value is LifecycleStage {
+  return typeof value === 'string' && LIFECYCLE_STAGES.some(stage => stage.value === value)
+}
+
+export function getLifecycleStageInfo(stage: LifecycleStage): LifecycleStageInfo {
+  return LIFECYCLE_STAGES.find(info => info.value === stage) || LIFECYCLE_STAGES[0]
+}
+
+/**
+ * The stage a client starts in, or is treated as being in when it was
+ * created before lifecycle stages existed
+ */
+export function getDefaultLifecycleStage(status?: string | null): LifecycleStage {
+  switch (status) {
+    case 'Buyer': return 'active_buyer'
+    case 'Seller': return 'active_seller'
+    case 'In Contract': return 'under_contract'
+    default: return 'lead'
+  }
+}
+
+export function getClientLifecycleStage(client: { lifecycle_stage?: string | null; status?: string | null }): LifecycleStage {
+  return isLifecycleStage(client.lifecycle_stage) ? client.lifecycle_stage : getDefaultLifecycleStage(client.status)
+}
+
+export function getDaysSinceTouch(lastContact: string | null | undefined, now: Date = new Date()): number | null {
+  if (!lastContact) return null
+  const touched = new Date(lastContact).getTime()
+  if (Number.isNaN(touched)) return null
+  return Math.max(0, Math.floor((now.getTime() - touched) / DAY_MS))
+}
+
+export function describeTouchAge(days: number | null): string {
+  if (days === null) return 'Never contacted'
+  if (days === 0) return 'Today'
+  if (days === 1) return 'Yesterday'
+  if (days < 60) return `${days} days ago`
+  const months = Math.floor(days / 30)
+  return months < 24 ? `${months} months ago` : `${Math.floor(days / 365)} years ago`
+}
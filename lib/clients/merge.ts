@@ -0,0 +1,330 @@
+/**
+ * Client Merges - server-side duplicate queue, audited merges and undo
+ */
+
+import { createServiceClient } from '@/lib/supabase/server'
+import { ConflictError, NotFoundError } from '@/lib/errors'
+import { getActiveTenantId } from '@/lib/pipeline/definitions'
+import { findDuplicateClients, getClientFullName, type DuplicateCandidateClient, type DuplicateMatch } from '@/lib/clients/duplicates'
+
+// Tables whose rows follow the surviving client
+export const MERGED_CLIENT_TABLES = [
+  'notes',
+  'deals',
+  'tasks',
+  'messages',
+  'lead_activities',
+  'attribution_touchpoints',
+  'transactions'
+] as const
+
+// Contact fields copied from the duplicate when the survivor has none
+const FILLABLE_FIELDS = ['first_name', 'last_name', 'email', 'phone', 'address', 'company'] as const
+
+export type MovedRecords = Partial<Record<typeof MERGED_CLIENT_TABLES[number] | 'lead_scores', string[]>>
+
+export interface ClientMerge {
+  id: string
+  user_id: string
+  survivor_id: string
+  duplicate_id: string
+  // Survivor values overwritten by the merge, restored on undo
+  filled_fields: Record<string, { before: string | null; after: string }>
+  moved: MovedRecords
+  merged_at: string
+  undone_at: string | null
+}
+
+async function writeAuditLog(
+  userId: string,
+  action: string,
+  entityId: string,
+  details: string,
+  metadata: Record<string, any>
+) {
+  const serviceClient = createServiceClient()
+  const tenantId = await getActiveTenantId(serviceClient, userId)
+
+  const { error } = await serviceClient
+    .from('audit_logs')
+    .insert({
+      user_id: userId,
+      tenant_id: tenantId,
+      action,
+      entity_type: 'client',
+      entity_id: entityId,
+      details,
+      metadata,
+      severity: 'medium',
+      success: true,
+      created_at: new Date().toISOString()
+    })
+
+  if (error) {
+    console.error('Error writing client merge audit log:', error)
+  }
+}
+
+function clientName(client: DuplicateCandidateClient) {
+  return getClientFullName(client) || 'Unnamed client'
+}
+
+/**
+ * Scan a user's active clients and queue any new likely duplicates. With
+ * clientIds, only pairs involving those clients are checked. Pairs already in
+ * the queue, including dismissed ones, are left as they are
+ */
+export async function detectClientDuplicates(
+  supabase: any,
+  userId: string,
+  clientIds?: string[]
+): Promise<DuplicateMatch[]> {
+  if (clientIds && clientIds.length === 0) return []
+
+  const { data: clients, error } = await supabase
+    .from('clients')
+    .select('id, first_name, last_name, name, email, phone, address, created_at')
+    .eq('user_id', userId)
+    .is('merged_into_id', null)
+
+  if (error) {
+    throw new Error(`Failed to load clients: ${error.message}`)
+  }
+
+  const matches = findDuplicateClients(clients || [], clientIds)
+  if (matches.length === 0) return []
+
+  const { error: insertError } = await supabase
+    .from('client_duplicate_candidates')
+    .upsert(matches.map(match => ({
+      user_id: userId,
+      client_id: match.clientId,
+      duplicate_client_id: match.duplicateClientId,
+      reasons: match.reasons,
+      score: match.score,
+      status: 'pending'
+    })), {
+      onConflict: 'client_id,duplicate_client_id',
+      ignoreDuplicates: true
+    })
+
+  if (insertError) {
+    throw new Error(`Failed to queue duplicates: ${insertError.message}`)
+  }
+
+  return matches
+}
+
+/**
+ * Merge the duplicate into the survivor: fill the survivor's blank contact
+ * fields, move related records across, and archive the duplicate. Everything
+ * moved is recorded on the merge so it can be undone
+ */
+export async function mergeClients(
+  supabase: any,
+  userId: string,
+  survivorId: string,
+  duplicateId: string
+): Promise<ClientMerge> {
+  if (survivorId === duplicateId) {
+    throw new ConflictError('A client cannot be merged into itself')
+  }
+
+  const { data: clients } = await supabase
+    .from('clients')
+    .select('*')
+    .eq('user_id', userId)
+    .in('id', [survivorId, duplicateId])
+
+  const survivor = clients?.find((client: any) => client.id === survivorId)
+  const duplicate = clients?.find((client: any) => client.id === duplicateId)
+
+  if (!survivor || !duplicate) {
+    throw new NotFoundError('Client')
+  }
+  if (survivor.merged_into_id || duplicate.merged_into_id) {
+    throw new ConflictError('One of these clients has already been merged')
+  }
+
+  const filledFields: ClientMerge['filled_fields'] = {}
+  for (const field of FILLABLE_FIELDS) {
+    if (!survivor[field] && duplicate[field]) {
+      filledFields[field] = { before: survivor[field] ?? null, after: duplicate[field] }
+    }
+  }
+
+  const moved: MovedRecords = {}
+  for (const table of MERGED_CLIENT_TABLES) {
+    const { data: rows } = await supabase
+      .from(table)
+      .select('id')
+      .eq('client_id', duplicateId)
+
+    const ids = (rows || []).map((row: { id: string }) => row.id)
+    if (ids.length === 0) continue
+
+    const { error } = await supabase
+      .from(table)
+      .update({ client_id: survivorId })
+      .in('id', ids)
+
+    if (error) {
+      throw new Error(`Failed to move ${table}: ${error.message}`)
+    }
+    moved[table] = ids
+  }
+
+  // Lead scores are one per client; the duplicate's only moves if the survivor has none
+  const { data: scores } = await supabase
+    .from('lead_scores')
+    .select('id, client_id')
+    .in('client_id', [survivorId, duplicateId])
+
+  const survivorHasScore = (scores || []).some((score: any) => score.client_id === survivorId)
+  const duplicateScores = (scores || []).filter((score: any) => score.client_id === duplicateId)
+  if (!survivorHasScore && duplicateScores.length > 0) {
+    const ids = duplicateScores.map((score: { id: string }) => score.id)
+    await supabase.from('lead_scores').update({ client_id: survivorId }).in('id', ids)
+    moved.lead_scores = ids
+  }
+
+  const mergedAt = new Date().toISOString()
+
+  if (Object.keys(filledFields).length > 0) {
+    await supabase
+      .from('clients')
+      .update({
+        ...Object.fromEntries(Object.entries(filledFields).map(([field, value]) => [field, value.after])),
+        updated_at: mergedAt
+      })
+      .eq('id', survivorId)
+  }
+
+  await supabase
+    .from('clients')
+    .update({ merged_into_id: survivorId, merged_at: mergedAt, updated_at: mergedAt })
+    .eq('id', duplicateId)
+
+  const { data: merge, error: mergeError } = await supabase
+    .from('client_merges')
+    .insert({
+      user_id: userId,
+      survivor_id: survivorId,
+      duplicate_id: duplicateId,
+      filled_fields: filledFields,
+      moved,
+      merged_at: mergedAt
+    })
+    .select()
+    .single()
+
+  if (mergeError) {
+    throw new Error(`Failed to record merge: ${mergeError.message}`)
+  }
+
+  // Every queued pair involving the archived client is resolved by this merge
+  await supabase
+    .from('client_duplicate_candidates')
+    .update({ status: 'merged', merge_id: merge.id, resolved_at: mergedAt })
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .or(`client_id.eq.${duplicateId},duplicate_client_id.eq.${duplicateId}`)
+
+  const movedCounts = Object.fromEntries(Object.entries(moved).map(([table, ids]) => [table, ids?.length || 0]))
+  await writeAuditLog(
+    userId,
+    'client.merged',
+    survivorId,
+    `Merged ${clientName(duplicate)} into ${clientName(survivor)}`,
+    { merge_id: merge.id, duplicate_id: duplicateId, filled_fields: Object.keys(filledFields), moved: movedCounts }
+  )
+
+  return merge
+}
+
+/**
+ * Reverse a merge: move the recorded records back, restore the survivor's
+ * filled fields, and return the duplicate and its queue entries to active.
+ * Records created on the survivor since the merge stay where they are
+ */
+export async function undoClientMerge(
+  supabase: any,
+  userId: string,
+  mergeId: string
+): Promise<ClientMerge> {
+  const { data: merge } = await supabase
+    .from('client_merges')
+    .select('*')
+    .eq('id', mergeId)
+    .eq('user_id', userId)
+    .single()
+
+  if (!merge) {
+    throw new NotFoundError('Merge')
+  }
+  if (merge.undone_at) {
+    throw new ConflictError('This merge has already been undone')
+  }
+
+  const { data: survivor } = await supabase
+    .from('clients')
+    .select('*')
+    .eq('id', merge.survivor_id)
+    .single()
+
+  for (const [table, ids] of Object.entries(merge.moved as MovedRecords)) {
+    if (!ids || ids.length === 0) continue
+
+    const { error } = await supabase
+      .from(table)
+      .update({ client_id: merge.duplicate_id })
+      .eq('client_id', merge.survivor_id)
+      .in('id', ids)
+
+    if (error) {
+      throw new Error(`Failed to restore ${table}: ${error.message}`)
+    }
+  }
+
+  const undoneAt = new Date().toISOString()
+
+  // Fields edited since the merge keep their new value
+  const restored = Object.fromEntries(
+    Object.entries(merge.filled_fields as ClientMerge['filled_fields'])
+      .filter(([field, value]) => survivor && survivor[field] === value.after)
+      .map(([field, value]) => [field, value.before])
+  )
+  if (Object.keys(restored).length > 0) {
+    await supabase
+      .from('clients')
+      .update({ ...restored, updated_at: undoneAt })
+      .eq('id', merge.survivor_id)
+  }
+
+  await supabase
+    .from('clients')
+    .update({ merged_into_id: null, merged_at: null, updated_at: undoneAt })
+    .eq('id', merge.duplicate_id)
+
+  const { data: undone } = await supabase
+    .from('client_merges')
+    .update({ undone_at: undoneAt })
+    .eq('id', mergeId)
+    .select()
+    .single()
+
+  await supabase
+    .from('client_duplicate_candidates')
+    .update({ status: 'pending', merge_id: null, resolved_at: null })
+    .eq('merge_id', mergeId)
+
+  await writeAuditLog(
+    userId,
+    'client.merge_undone',
+    merge.survivor_id,
+    `Undid merge of client ${merge.duplicate_id}`,
+    { merge_id: mergeId, duplicate_id: merge.duplicate_id, restored_fields: Object.keys(restored) }
+  )
+
+  return undone || { ...merge, undone_at: undoneAt }
+}
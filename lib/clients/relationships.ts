@@ -0,0 +1,108 @@
+/**
+ * Client Relationships and Households
+ * Typed links between contacts and the shared-address households they form.
+ * Safe to import from client components - no server-only dependencies.
+ */
+
+export type RelationshipType =
+  | 'spouse_partner'
+  | 'household_member'
+  | 'family'
+  | 'referred_by'
+  | 'attorney'
+  | 'lender'
+
+interface RelationshipTypeInfo {
+  value: RelationshipType
+  // How the related client is described from the client's side
+  label: string
+  // How the client is described from the related client's side
+  inverseLabel: string
+  // Symmetric links read the same in both directions and are stored once per pair
+  symmetric: boolean
+  // Links that usually mean the two people share a household
+  household: boolean
+}
+
+export const RELATIONSHIP_TYPES: RelationshipTypeInfo[] = [
+  { value: 'spouse_partner', label: 'Spouse / Partner', inverseLabel: 'Spouse / Partner', symmetric: true, household: true },
+  { value: 'household_member', label: 'Household Member', inverseLabel: 'Household Member', symmetric: true, household: true },
+  { value: 'family', label: 'Family', inverseLabel: 'Family', symmetric: true, household: false },
+  { value: 'referred_by', label: 'Referred By', inverseLabel: 'Referred', symmetric: false, household: false },
+  { value: 'attorney', label: 'Attorney', inverseLabel: 'Attorney For', symmetric: false, household: false },
+  { value: 'lender', label: 'Lender', inverseLabel: 'Lender For', symmetric: false, household: false }
+]
+
+export interface RelatedClientSummary {
+  id: string
+  first_name: string | null
+  last_name: string | null
+  email: string | null
+  phone: string | null
+  household_id?: string | null
+}
+
+// A stored link reads "related_client is the client's <type>"
+export interface ClientRelationship {
+  id: string
+  user_id: string
+  client_id: string
+  related_client_id: string
+  relationship_type: RelationshipType
+  notes: string | null
+  created_at: string
+}
+
+// One edge of a client's relationship graph, seen from that client
+export interface RelationshipEdge {
+  id: string
+  relationship_type: RelationshipType
+  direction: 'outgoing' | 'incoming'
+  label: string
+  notes: string | null
+  client: RelatedClientSummary
+}
+
+export interface Household {
+  id: string
+  user_id: string
+  name: string
+  address: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface HouseholdWithMembers extends Household {
+  members: RelatedClientSummary[]
+}
+
+export interface ClientRelationshipGraph {
+  relationships: RelationshipEdge[]
+  household: HouseholdWithMembers | null
+}
+
+export function isRelationshipType(value: unknown): value is RelationshipType {
+  return RELATIONSHIP_TYPES.some(type => type.value === value)
+}
+
+export function getRelationshipTypeInfo(type: RelationshipType): RelationshipTypeInfo {
+  return RELATIONSHIP_TYPES.find(info => info.value === type) || RELATIONSHIP_TYPES[0]
+}
+
+/**
+ * Label a stored relationship from one participant's point of view
+ */
+export function describeRelationship(relationship: Pick<ClientRelationship, 'client_id' | 'relationship_type'>, viewerId: string): string {
+  const info = getRelationshipTypeInfo(relationship.relationship_type)
+  return relationship.client_id === viewerId ? info.label : info.inverseLabel
+}
+
+export function getRelatedClientName(client: Pick<RelatedClientSummary, 'first_name' | 'last_name'>): string {
+  return `${client.first_name || ''} ${client.last_name || ''}`.trim() || 'Unnamed client'
+}
+
+// "The Garcia Household", falling back to the first name when there is no last name
+export function suggestHouseholdName(client: Pick<RelatedClientSummary, 'first_name' | 'last_name'>): string {
+  const family = client.last_name?.trim() || client.first_name?.trim()
+  return family ? `The ${family} Household` : 'New Household'
+}
@@ -0,0 +1,294 @@
+/**
+ * Buyer Search Criteria
+ * Saved search profiles for buyer clients and the scoring used to match
+ * listings against them.
+ * Safe to import from client components - no server-only dependencies.
+ */
+
+import type { PropertyDetails } from '@/lib/smart-import/types'
+
+export type SearchPropertyType =
+  | 'single_family'
+  | 'condo'
+  | 'townhouse'
+  | 'multi_family'
+  | 'land'
+  | 'commercial'
+  | 'mobile_home'
+
+export type SearchTimeline = 'immediate' | '30_days' | '90_days' | 'exploratory'
+
+export const SEARCH_PROPERTY_TYPES: { value: SearchPropertyType; label: string }[] = [
+  { value: 'single_family', label: 'Single Family' },
+  { value: 'condo', label: 'Condo' },
+  { value: 'townhouse', label: 'Townhouse' },
+  { value: 'multi_family', label: 'Multi-Family' },
+  { value: 'land', label: 'Land' },
+  { value: 'commercial', label: 'Commercial' },
+  { value: 'mobile_home', label: 'Mobile Home' }
+]
+
+export const SEARCH_TIMELINES: { value: SearchTimeline; label: string }[] = [
+  { value: 'immediate', label: 'Immediately' },
+  { value: '30_days', label: 'Within 30 days' },
+  { value: '90_days', label: 'Within 90 days' },
+  { value: 'exploratory', label: 'Just looking' }
+]
+
+// What counts as "residential" when an email only says that much
+const RESIDENTIAL_TYPES: SearchPropertyType[] = ['single_family', 'condo', 'townhouse', 'multi_family']
+
+// EmailParser property type keywords, mapped onto profile types
+const LISTING_TYPE_ALIASES: Record<string, SearchPropertyType> = {
+  'single family': 'single_family',
+  'condo': 'condo',
+  'condominium': 'condo',
+  'apartment': 'condo',
+  'townhouse': 'townhouse',
+  'duplex': 'multi_family',
+  'multi-family': 'multi_family',
+  'land': 'land',
+  'vacant lot': 'land',
+  'mobile home': 'mobile_home',
+  'manufactured home': 'mobile_home',
+  'commercial': 'commercial',
+  'office': 'commercial',
+  'retail': 'commercial',
+  'industrial': 'commercial'
+}
+
+export interface BuyerSearchProfile {
+  id: string
+  user_id: string
+  client_id: string
+  name: string
+  price_min: number | null
+  price_max: number | null
+  beds_min: number | null
+  baths_min: number | null
+  sqft_min: number | null
+  sqft_max: number | null
+  // Cities, neighbourhoods or 5-digit zips, matched against the listing address
+  locations: string[]
+  property_types: SearchPropertyType[]
+  must_have_features: string[]
+  timeline: SearchTimeline | null
+  is_active: boolean
+  source: 'manual' | 'email_extraction'
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type SearchProfileInput = Partial<Omit<BuyerSearchProfile, 'id' | 'user_id' | 'client_id' | 'created_at' | 'updated_at'>>
+
+export interface ListingScore {
+  score: number
+  // Hard misses rule the listing out for this profile regardless of score
+  disqualified: boolean
+  reasons: string[]
+  misses: string[]
+}
+
+export interface ListingMatch extends ListingScore {
+  profile_id: string
+  profile_name: string
+  client: {
+    id: string
+    first_name: string | null
+    last_name: string | null
+    email: string | null
+  }
+}
+
+// Out of 100 when every criterion is set
+const WEIGHTS = {
+  price: 30,
+  location: 25,
+  beds: 15,
+  baths: 10,
+  sqft: 10,
+  type: 10,
+  features: 10
+}
+
+// A listing this far over the buyer's max is still worth a look
+const PRICE_STRETCH = 0.05
+
+export function normalizeListingPropertyType(propertyType?: string | null): SearchPropertyType | null {
+  if (!propertyType) return null
+  const key = propertyType.trim().toLowerCase()
+  const asValue = key.replace(/[\s-]+/g, '_')
+  if (SEARCH_PROPERTY_TYPES.some(type => type.value === asValue)) {
+    return asValue as SearchPropertyType
+  }
+  return LISTING_TYPE_ALIASES[key] || null
+}
+
+export function getSearchPropertyTypeLabel(type: SearchPropertyType): string {
+  return SEARCH_PROPERTY_TYPES.find(option => option.value === type)?.label || type
+}
+
+function formatPrice(value: number): string {
+  return `$${value.toLocaleString()}`
+}
+
+export function describePriceRange(profile: Pick<BuyerSearchProfile, 'price_min' | 'price_max'>): string | null {
+  if (profile.price_min && profile.price_max) return `${formatPrice(profile.price_min)} - ${formatPrice(profile.price_max)}`
+  if (profile.price_max) return `Up to ${formatPrice(profile.price_max)}`
+  if (profile.price_min) return `From ${formatPrice(profile.price_min)}`
+  return null
+}
+
+function matchesLocation(address: string, location: string): boolean {
+  const wanted = location.trim().toLowerCase()
+  if (!wanted) return false
+  if (/^\d{5}$/.test(wanted)) {
+    return new RegExp(`\\b${wanted}\\b`).test(address)
+  }
+  return address.toLowerCase().includes(wanted)
+}
+
+function hasFeature(listing: PropertyDetails, feature: string): boolean {
+  const wanted = feature.trim().toLowerCase()
+  if (!wanted) return true
+  return (listing.features || []).some(listed => listed.toLowerCase().includes(wanted)) ||
+    (listing.description || '').toLowerCase().includes(wanted)
+}
+
+/**
+ * Score a listing against one profile. Criteria the profile leaves blank don't
+ * count; criteria the listing doesn't state earn half credit.
+ */
+export function scoreListing(profile: BuyerSearchProfile, listing: PropertyDetails): ListingScore {
+  const reasons: string[] = []
+  const misses: string[] = []
+  let disqualified = false
+  let earned = 0
+  let possible = 0
+
+  const criterion = (weight: number, outcome: 'match' | 'unknown' | 'miss' | 'fail', message?: string) => {
+    possible += weight
+    if (outcome === 'match') {
+      earned += weight
+      if (message) reasons.push(message)
+    } else if (outcome === 'unknown') {
+      earned += weight / 2
+    } else {
+      if (message) misses.push(message)
+      if (outcome === 'fail') disqualified = true
+    }
+  }
+
+  if (profile.price_min || profile.price_max) {
+    const range = describePriceRange(profile)
+    if (!listing.price) {
+      criterion(WEIGHTS.price, 'unknown')
+    } else if (profile.price_max && listing.price > profile.price_max * (1 + PRICE_STRETCH)) {
+      criterion(WEIGHTS.price, 'fail', `${formatPrice(listing.price)} is over budget (${range})`)
+    } else if (profile.price_max && listing.price > profile.price_max) {
+      criterion(WEIGHTS.price, 'miss', `${formatPrice(listing.price)} is slightly over budget (${range})`)
+    } else if (profile.price_min && listing.price < profile.price_min) {
+      criterion(WEIGHTS.price, 'miss', `${formatPrice(listing.price)} is below their range (${range})`)
+    } else {
+      criterion(WEIGHTS.price, 'match', `${formatPrice(listing.price)} is within budget`)
+    }
+  }
+
+  const locations = profile.locations.filter(location => location.trim())
+  if (locations.length > 0) {
+    const matched = listing.address ? locations.find(location => matchesLocation(listing.address, location)) : undefined
+    if (!listing.address) {
+      criterion(WEIGHTS.location, 'unknown')
+    } else if (matched) {
+      criterion(WEIGHTS.location, 'match', `In ${matched}`)
+    } else {
+      criterion(WEIGHTS.location, 'fail', `Not in ${locations.join(', ')}`)
+    }
+  }
+
+  if (profile.beds_min) {
+    if (listing.bedrooms === undefined) {
+      criterion(WEIGHTS.beds, 'unknown')
+    } else if (listing.bedrooms >= profile.beds_min) {
+      criterion(WEIGHTS.beds, 'match', `${listing.bedrooms} beds`)
+    } else {
+      criterion(WEIGHTS.beds, 'fail', `Only ${listing.bedrooms} beds (wants ${profile.beds_min}+)`)
+    }
+  }
+
+  if (profile.baths_min) {
+    if (listing.bathrooms === undefined) {
+      criterion(WEIGHTS.baths, 'unknown')
+    } else if (listing.bathrooms >= profile.baths_min) {
+      criterion(WEIGHTS.baths, 'match', `${listing.bathrooms} baths`)
+    } else {
+      criterion(WEIGHTS.baths, 'miss', `Only ${listing.bathrooms} baths (wants ${profile.baths_min}+)`)
+    }
+  }
+
+  if (profile.sqft_min || profile.sqft_max) {
+    if (!listing.sqft) {
+      criterion(WEIGHTS.sqft, 'unknown')
+    } else if (profile.sqft_min && listing.sqft < profile.sqft_min) {
+      criterion(WEIGHTS.sqft, 'miss', `${listing.sqft.toLocaleString()} sqft is smaller than wanted`)
+    } else if (profile.sqft_max && listing.sqft > profile.sqft_max) {
+      criterion(WEIGHTS.sqft, 'miss', `${listing.sqft.toLocaleString()} sqft is larger than wanted`)
+    } else {
+      criterion(WEIGHTS.sqft, 'match', `${listing.sqft.toLocaleString()} sqft`)
+    }
+  }
+
+  if (profile.property_types.length > 0) {
+    const listingType = normalizeListingPropertyType(listing.propertyType)
+    if (!listingType) {
+      criterion(WEIGHTS.type, 'unknown')
+    } else if (profile.property_types.includes(listingType)) {
+      criterion(WEIGHTS.type, 'match', getSearchPropertyTypeLabel(listingType))
+    } else {
+      criterion(WEIGHTS.type, 'fail', `${getSearchPropertyTypeLabel(listingType)} is not a type they want`)
+    }
+  }
+
+  const features = profile.must_have_features.filter(feature => feature.trim())
+  if (features.length > 0) {
+    const found = features.filter(feature => hasFeature(listing, feature))
+    const missing = features.filter(feature => !found.includes(feature))
+    possible += WEIGHTS.features
+    earned += WEIGHTS.features * (found.length / features.length)
+    if (found.length > 0) reasons.push(`Has ${found.join(', ')}`)
+    if (missing.length > 0) misses.push(`No mention of ${missing.join(', ')}`)
+  }
+
+  return {
+    score: possible > 0 ? Math.round((earned / possible) * 100) : 0,
+    disqualified,
+    reasons,
+    misses
+  }
+}
+
+/**
+ * Draft profile from what the email extractor pulled out of an inquiry.
+ * Returns null when the email said nothing usable about what they want
+ */
+export function searchProfileFromExtraction(deal: {
+  property_type: 'residential' | 'commercial' | null
+  budget_min: number | null
+  budget_max: number | null
+  timeline: SearchTimeline | null
+}): SearchProfileInput | null {
+  if (!deal.budget_min && !deal.budget_max && !deal.property_type) return null
+
+  return {
+    name: 'From email inquiry',
+    price_min: deal.budget_min || null,
+    price_max: deal.budget_max || null,
+    property_types: deal.property_type === 'commercial'
+      ? ['commercial']
+      : deal.property_type === 'residential' ? [...RESIDENTIAL_TYPES] : [],
+    timeline: deal.timeline,
+    source: 'email_extraction',
+    is_active: true
+  }
+}
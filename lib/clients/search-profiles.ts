@@ -0,0 +1,220 @@
+/**
+ * Buyer Search Profiles - saved criteria per buyer client and matching
+ * incoming listings against every active profile
+ */
+
+import { NotFoundError, ValidationError } from '@/lib/errors'
+import type { PropertyDetails } from '@/lib/smart-import/types'
+import {
+  scoreListing,
+  searchProfileFromExtraction,
+  type BuyerSearchProfile,
+  type ListingMatch,
+  type SearchProfileInput,
+  type SearchTimeline
+} from '@/lib/clients/search-criteria'
+
+// Below this a listing isn't worth suggesting
+const DEFAULT_MIN_MATCH_SCORE = 50
+
+async function assertClientOwned(supabase: any, userId: string, clientId: string) {
+  const { data: client } = await supabase
+    .from('clients')
+    .select('id')
+    .eq('id', clientId)
+    .eq('user_id', userId)
+    .is('merged_into_id', null)
+    .maybeSingle()
+
+  if (!client) throw new NotFoundError('Client')
+}
+
+function validateRanges(profile: SearchProfileInput) {
+  if (profile.price_min && profile.price_max && profile.price_min > profile.price_max) {
+    throw new ValidationError('Minimum price cannot be above maximum price', 'price_min')
+  }
+  if (profile.sqft_min && profile.sqft_max && profile.sqft_min > profile.sqft_max) {
+    throw new ValidationError('Minimum square feet cannot be above maximum', 'sqft_min')
+  }
+}
+
+function cleanList(values?: string[]) {
+  return values === undefined
+    ? undefined
+    : Array.from(new Set(values.map(value => value.trim()).filter(Boolean)))
+}
+
+export async function listSearchProfiles(supabase: any, userId: string, clientId: string): Promise<BuyerSearchProfile[]> {
+  await assertClientOwned(supabase, userId, clientId)
+
+  const { data, error } = await supabase
+    .from('buyer_search_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('client_id', clientId)
+    .order('created_at')
+
+  if (error) throw error
+  return data || []
+}
+
+export async function createSearchProfile(
+  supabase: any,
+  userId: string,
+  clientId: string,
+  input: SearchProfileInput
+): Promise<BuyerSearchProfile> {
+  await assertClientOwned(supabase, userId, clientId)
+  validateRanges(input)
+
+  const { data, error } = await supabase
+    .from('buyer_search_profiles')
+    .insert({
+      user_id: userId,
+      client_id: clientId,
+      name: input.name?.trim() || 'Home search',
+      price_min: input.price_min ?? null,
+      price_max: input.price_max ?? null,
+      beds_min: input.beds_min ?? null,
+      baths_min: input.baths_min ?? null,
+      sqft_min: input.sqft_min ?? null,
+      sqft_max: input.sqft_max ?? null,
+      locations: cleanList(input.locations) || [],
+      property_types: input.property_types || [],
+      must_have_features: cleanList(input.must_have_features) || [],
+      timeline: input.timeline ?? null,
+      is_active: input.is_active ?? true,
+      source: input.source || 'manual',
+      notes: input.notes || null
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function updateSearchProfile(
+  supabase: any,
+  userId: string,
+  profileId: string,
+  updates: SearchProfileInput
+): Promise<BuyerSearchProfile> {
+  const { data: existing } = await supabase
+    .from('buyer_search_profiles')
+    .select('*')
+    .eq('id', profileId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!existing) throw new NotFoundError('Search profile')
+  validateRanges({ ...existing, ...updates })
+
+  const fields: Record<string, any> = { ...updates }
+  if (updates.name !== undefined) fields.name = updates.name.trim() || existing.name
+  if (updates.locations !== undefined) fields.locations = cleanList(updates.locations)
+  if (updates.must_have_features !== undefined) fields.must_have_features = cleanList(updates.must_have_features)
+
+  const { data, error } = await supabase
+    .from('buyer_search_profiles')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', profileId)
+    .eq('user_id', userId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function deleteSearchProfile(supabase: any, userId: string, profileId: string) {
+  const { data, error } = await supabase
+    .from('buyer_search_profiles')
+    .delete()
+    .eq('id', profileId)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) throw new NotFoundError('Search profile')
+}
+
+/**
+ * Score a listing against every active profile and suggest the clients to
+ * send it to, best match first. A client with several profiles appears once,
+ * under their best-scoring one
+ */
+export async function matchListing(
+  supabase: any,
+  userId: string,
+  listing: PropertyDetails,
+  options: { minScore?: number; limit?: number } = {}
+): Promise<ListingMatch[]> {
+  const minScore = options.minScore ?? DEFAULT_MIN_MATCH_SCORE
+
+  const { data: profiles, error } = await supabase
+    .from('buyer_search_profiles')
+    .select('*, client:clients(id, first_name, last_name, email)')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+
+  if (error) throw error
+
+  const bestByClient = new Map<string, ListingMatch>()
+  for (const profile of profiles || []) {
+    if (!profile.client) continue
+
+    const result = scoreListing(profile, listing)
+    if (result.disqualified || result.score < minScore) continue
+
+    const current = bestByClient.get(profile.client_id)
+    if (!current || result.score > current.score) {
+      bestByClient.set(profile.client_id, {
+        ...result,
+        profile_id: profile.id,
+        profile_name: profile.name,
+        client: profile.client
+      })
+    }
+  }
+
+  const matches = Array.from(bestByClient.values()).sort((a, b) => b.score - a.score)
+  return options.limit ? matches.slice(0, options.limit) : matches
+}
+
+/**
+ * Keep the budget and property type an inbound email mentioned as a search
+ * profile. Only the first extraction is kept - once the client has any
+ * profile, the agent's edits win
+ */
+export async function captureSearchProfileFromExtraction(
+  supabase: any,
+  userId: string,
+  clientId: string,
+  deal: {
+    property_type: 'residential' | 'commercial' | null
+    budget_min: number | null
+    budget_max: number | null
+    timeline: SearchTimeline | null
+  }
+): Promise<BuyerSearchProfile | null> {
+  const draft = searchProfileFromExtraction(deal)
+  if (!draft) return null
+
+  const { data: existing } = await supabase
+    .from('buyer_search_profiles')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('client_id', clientId)
+    .limit(1)
+
+  if (existing && existing.length > 0) return null
+
+  try {
+    return await createSearchProfile(supabase, userId, clientId, draft)
+  } catch (error) {
+    // A min/max the model got backwards shouldn't fail the webhook
+    if (error instanceof ValidationError) return null
+    throw error
+  }
+}
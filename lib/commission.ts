@@ -1,4 +1,5 @@
 import { Deal } from '@/lib/types'
+import { DEFAULT_PIPELINE_STAGES, getStageCategory, type PipelineStage } from '@/lib/pipeline/stages'
 
 export const DEFAULT_COMMISSION_PERCENTAGE = 2.5
 
@@ -33,7 +34,10 @@ export function formatCommissionDisplay(
   return `${formatCurrency(commission)} (${percentage}%)`
 }
 
-export function calculateTotalCommissionRevenue(deals: Deal[]): {
+export function calculateTotalCommissionRevenue(
+  deals: Deal[],
+  stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES
+): {
   expected: number
   closed: number
   pipeline: number
@@ -45,14 +49,14 @@ export function calculateTotalCommissionRevenue(deals: Deal[]): {
   }, 0)
   
   const closed = deals
-    .filter(deal => deal.status === 'Closed')
+    .filter(deal => getStageCategory(stages, deal.status) === 'won')
     .reduce((total, deal) => {
       const value = parseFloat(deal.value.replace(/[$,]/g, ''))
       return total + calculateCommission(value, deal.commissionPercentage)
     }, 0)
   
   const pipeline = deals
-    .filter(deal => ['Lead', 'In Progress', 'Under Contract'].includes(deal.status))
+    .filter(deal => getStageCategory(stages, deal.status) === 'open')
     .reduce((total, deal) => {
       const value = parseFloat(deal.value.replace(/[$,]/g, ''))
       return total + calculateCommission(value, deal.commissionPercentage)
@@ -61,7 +65,10 @@ export function calculateTotalCommissionRevenue(deals: Deal[]): {
   return { expected, closed, pipeline }
 }
 
-export function getCommissionForecast(deals: Deal[]): {
+export function getCommissionForecast(
+  deals: Deal[],
+  stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES
+): {
   thisMonth: number
   nextMonth: number
   thisQuarter: number
@@ -89,8 +96,8 @@ export function getCommissionForecast(deals: Deal[]): {
   })
   
   return {
-    thisMonth: calculateTotalCommissionRevenue(thisMonthDeals).expected,
-    nextMonth: calculateTotalCommissionRevenue(nextMonthDeals).expected,
-    thisQuarter: calculateTotalCommissionRevenue(thisQuarterDeals).expected,
+    thisMonth: calculateTotalCommissionRevenue(thisMonthDeals, stages).expected,
+    nextMonth: calculateTotalCommissionRevenue(nextMonthDeals, stages).expected,
+    thisQuarter: calculateTotalCommissionRevenue(thisQuarterDeals, stages).expected,
   }
 }
\ No newline at end of file
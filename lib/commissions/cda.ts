@@ -0,0 +1,202 @@
+/**
+ * Commission Disbursement Authorization (CDA)
+ * Builds the disbursement instructions for the title company from a transaction
+ * and its split ledger, and renders them as printable HTML or PDF
+ */
+
+import { formatCurrency } from '@/lib/commission'
+import { renderTextPdf, type PdfLine } from '@/lib/documents/simple-pdf'
+import { getParticipantRoleLabel, PARTICIPANT_ROLES, type CommissionLedger } from '@/lib/commissions/ledger'
+
+export type CdaStatus = 'draft' | 'approved'
+
+export interface CdaPayee {
+  name: string
+  role: string
+  amount: number
+}
+
+export interface CdaDocument {
+  reference: string
+  generatedAt: string
+  brokerageName: string
+  agentName: string
+  titleCompany: string | null
+  propertyAddress: string
+  clientName: string
+  transactionType: string
+  closingDate: string | null
+  purchasePrice: number
+  grossCommission: number
+  // Paid by the title company at closing
+  disbursements: CdaPayee[]
+  // How the brokerage's share is distributed internally
+  agentSplits: CdaPayee[]
+  approval: { approvedBy: string; approvedAt: string } | null
+}
+
+export interface CommissionDisbursement {
+  id: string
+  user_id: string
+  tenant_id: string | null
+  transaction_id: string
+  deal_id: string | null
+  status: CdaStatus
+  document: CdaDocument
+  approved_by: string | null
+  approved_at: string | null
+  document_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+const EXTERNAL_ROLES = PARTICIPANT_ROLES.filter(option => option.external).map(option => option.value as string)
+
+export function buildCdaDocument(input: {
+  transactionId: string
+  brokerageName: string
+  agentName: string
+  titleCompany: string | null
+  propertyAddress: string
+  clientName: string
+  transactionType: string
+  closingDate: string | null
+  purchasePrice: number
+  ledger: CommissionLedger
+}): CdaDocument {
+  const external = input.ledger.entries.filter(entry => EXTERNAL_ROLES.includes(entry.role))
+  const internal = input.ledger.entries.filter(entry => !EXTERNAL_ROLES.includes(entry.role))
+  const brokerageAmount = internal.reduce((sum, entry) => sum + entry.amount, 0)
+
+  return {
+    reference: `CDA-${input.transactionId.slice(0, 8).toUpperCase()}`,
+    generatedAt: new Date().toISOString(),
+    brokerageName: input.brokerageName,
+    agentName: input.agentName,
+    titleCompany: input.titleCompany,
+    propertyAddress: input.propertyAddress,
+    clientName: input.clientName,
+    transactionType: input.transactionType,
+    closingDate: input.closingDate,
+    purchasePrice: input.purchasePrice,
+    grossCommission: input.ledger.grossCommission,
+    disbursements: [
+      { name: input.brokerageName, role: 'Listing/Selling Brokerage', amount: Math.round(brokerageAmount * 100) / 100 },
+      ...external.map(entry => ({ name: entry.name, role: getParticipantRoleLabel(entry.role), amount: entry.amount }))
+    ],
+    agentSplits: internal.map(entry => ({ name: entry.name, role: getParticipantRoleLabel(entry.role), amount: entry.amount })),
+    approval: null
+  }
+}
+
+const formatCdaDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }) : 'TBD'
+
+const formatAmount = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function renderCdaHtml(cda: CdaDocument): string {
+  const rows = (payees: CdaPayee[]) => payees.map(payee => `
+        <tr>
+          <td>${escapeHtml(payee.name)}</td>
+          <td>${escapeHtml(payee.role)}</td>
+          <td class="amount">${formatAmount(payee.amount)}</td>
+        </tr>`).join('')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(cda.reference)} - Commission Disbursement Authorization</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #111; max-width: 760px; margin: 40px auto; font-size: 14px; }
+    h1 { font-size: 20px; margin-bottom: 4px; }
+    h2 { font-size: 15px; margin-top: 28px; border-bottom: 1px solid #ccc; padding-bottom: 4px; }
+    table { width: 100%; border-collapse: collapse; }
+    td, th { padding: 6px 4px; text-align: left; }
+    th { font-size: 12px; text-transform: uppercase; color: #555; }
+    .amount { text-align: right; white-space: nowrap; }
+    .meta td:first-child { color: #555; width: 40%; }
+    .status { display: inline-block; padding: 2px 8px; border: 1px solid #999; font-size: 12px; }
+    .signature { margin-top: 48px; }
+    @media print { body { margin: 0 auto; } .no-print { display: none; } }
+  </style>
+</head>
+<body>
+  <button class="no-print" onclick="window.print()">Print</button>
+  <h1>Commission Disbursement Authorization</h1>
+  <div>${escapeHtml(cda.reference)} &middot; <span class="status">${cda.approval ? 'APPROVED' : 'DRAFT'}</span></div>
+
+  <h2>Transaction</h2>
+  <table class="meta">
+    <tr><td>To (Title / Escrow)</td><td>${escapeHtml(cda.titleCompany || 'Not specified')}</td></tr>
+    <tr><td>Property</td><td>${escapeHtml(cda.propertyAddress)}</td></tr>
+    <tr><td>Client</td><td>${escapeHtml(cda.clientName)}</td></tr>
+    <tr><td>Transaction Type</td><td>${escapeHtml(cda.transactionType)}</td></tr>
+    <tr><td>Closing Date</td><td>${formatCdaDate(cda.closingDate)}</td></tr>
+    <tr><td>Purchase Price</td><td>${formatAmount(cda.purchasePrice)}</td></tr>
+    <tr><td>Gross Commission</td><td>${formatAmount(cda.grossCommission)}</td></tr>
+  </table>
+
+  <h2>Disburse at Closing</h2>
+  <table>
+    <tr><th>Payee</th><th>Capacity</th><th class="amount">Amount</th></tr>${rows(cda.disbursements)}
+  </table>
+
+  <h2>Internal Distribution (${escapeHtml(cda.brokerageName)})</h2>
+  <table>
+    <tr><th>Agent</th><th>Role</th><th class="amount">Amount</th></tr>${rows(cda.agentSplits)}
+  </table>
+
+  <div class="signature">
+    ${cda.approval
+      ? `Approved by ${escapeHtml(cda.approval.approvedBy)} on ${formatCdaDate(cda.approval.approvedAt)}`
+      : 'Broker approval pending'}
+  </div>
+</body>
+</html>`
+}
+
+export function renderCdaPdf(cda: CdaDocument): Uint8Array {
+  const payeeLines = (payees: CdaPayee[]): PdfLine[] => payees.map(payee => ({
+    text: `${payee.name} (${payee.role})`,
+    column: formatAmount(payee.amount)
+  }))
+
+  const lines: PdfLine[] = [
+    { text: 'Commission Disbursement Authorization', size: 18, bold: true },
+    { text: `${cda.reference} - ${cda.approval ? 'APPROVED' : 'DRAFT'}`, size: 10 },
+    { text: 'Transaction', size: 12, bold: true, spaceBefore: 14, rule: true },
+    { text: 'To (Title / Escrow)', column: cda.titleCompany || 'Not specified' },
+    { text: 'Property', column: cda.propertyAddress },
+    { text: 'Client', column: cda.clientName },
+    { text: 'Transaction Type', column: cda.transactionType },
+    { text: 'Closing Date', column: formatCdaDate(cda.closingDate) },
+    { text: 'Purchase Price', column: formatAmount(cda.purchasePrice) },
+    { text: 'Gross Commission', column: formatAmount(cda.grossCommission), bold: true },
+    { text: 'Disburse at Closing', size: 12, bold: true, spaceBefore: 14, rule: true },
+    ...payeeLines(cda.disbursements),
+    { text: `Internal Distribution (${cda.brokerageName})`, size: 12, bold: true, spaceBefore: 14, rule: true },
+    ...payeeLines(cda.agentSplits),
+    {
+      text: cda.approval
+        ? `Approved by ${cda.approval.approvedBy} on ${formatCdaDate(cda.approval.approvedAt)}`
+        : 'Broker approval pending',
+      spaceBefore: 28
+    }
+  ]
+
+  return renderTextPdf(lines, `${cda.reference} Commission Disbursement Authorization`)
+}
+
+export function getCdaSummary(cda: CdaDocument): string {
+  return `${formatCurrency(cda.grossCommission)} gross commission on ${cda.propertyAddress}`
+}
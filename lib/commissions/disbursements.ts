@@ -0,0 +1,195 @@
+/**
+ * Commission Disbursements - server-side CDA drafts, approval and locking
+ */
+
+import { calculateCommission } from '@/lib/commission'
+import { ConflictError, NotFoundError } from '@/lib/errors'
+import { getActiveTenantId } from '@/lib/pipeline/definitions'
+import { buildCommissionLedger } from '@/lib/commissions/ledger'
+import { getDealCommissionParticipants } from '@/lib/commissions/participants'
+import { buildCdaDocument, getCdaSummary, type CommissionDisbursement } from '@/lib/commissions/cda'
+
+async function getUserName(supabase: any, userId: string): Promise<string> {
+  const { data } = await supabase
+    .from('users')
+    .select('name, email')
+    .eq('id', userId)
+    .single()
+
+  return data?.name || data?.email || 'Agent'
+}
+
+export async function getDisbursementForTransaction(
+  supabase: any,
+  transactionId: string
+): Promise<CommissionDisbursement | null> {
+  const { data } = await supabase
+    .from('commission_disbursements')
+    .select('*')
+    .eq('transaction_id', transactionId)
+    .maybeSingle()
+
+  return data || null
+}
+
+/**
+ * Create or refresh the draft CDA for a transaction from its current figures
+ * and split ledger. Approved CDAs are locked and cannot be regenerated
+ */
+export async function generateCommissionDisbursement(
+  supabase: any,
+  userId: string,
+  transactionId: string
+): Promise<CommissionDisbursement> {
+  const { data: transaction } = await supabase
+    .from('transactions')
+    .select(`
+      id,
+      user_id,
+      deal_id,
+      transaction_type,
+      title_company,
+      purchase_price,
+      commission_percentage,
+      commission_amount,
+      closing_date,
+      deal:deals(id, title, property_address),
+      client:clients(id, first_name, last_name)
+    `)
+    .eq('id', transactionId)
+    .eq('user_id', userId)
+    .single()
+
+  if (!transaction) {
+    throw new NotFoundError('Transaction')
+  }
+
+  const existing = await getDisbursementForTransaction(supabase, transactionId)
+  if (existing?.status === 'approved') {
+    throw new ConflictError('This CDA has been approved and is locked')
+  }
+
+  const purchasePrice = parseFloat(transaction.purchase_price) || 0
+  const grossCommission = transaction.commission_amount !== null && transaction.commission_amount !== undefined
+    ? parseFloat(transaction.commission_amount)
+    : calculateCommission(purchasePrice, transaction.commission_percentage ?? undefined)
+
+  const tenantId = await getActiveTenantId(supabase, userId)
+  let brokerageName = 'Brokerage'
+  if (tenantId) {
+    const { data: tenant } = await supabase.from('tenants').select('name').eq('id', tenantId).single()
+    brokerageName = tenant?.name || brokerageName
+  }
+
+  const agentName = await getUserName(supabase, userId)
+  const participants = transaction.deal_id ? await getDealCommissionParticipants(supabase, transaction.deal_id) : []
+  const ledger = buildCommissionLedger(grossCommission, participants, { userId, name: agentName })
+
+  const client = transaction.client
+  const document = buildCdaDocument({
+    transactionId,
+    brokerageName,
+    agentName,
+    titleCompany: transaction.title_company || null,
+    propertyAddress: transaction.deal?.property_address || transaction.deal?.title || 'Address not set',
+    clientName: client ? `${client.first_name || ''} ${client.last_name || ''}`.trim() : 'Unknown client',
+    transactionType: transaction.transaction_type,
+    closingDate: transaction.closing_date || null,
+    purchasePrice,
+    ledger
+  })
+
+  const { data: disbursement, error } = await supabase
+    .from('commission_disbursements')
+    .upsert({
+      ...(existing ? { id: existing.id } : {}),
+      user_id: userId,
+      tenant_id: tenantId,
+      transaction_id: transactionId,
+      deal_id: transaction.deal_id || null,
+      status: 'draft',
+      document,
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'transaction_id'
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save CDA: ${error.message}`)
+  }
+
+  return disbursement
+}
+
+/**
+ * Broker approval: stamp the CDA, lock it, and attach the PDF to the
+ * transaction's documents. Runs with the service client since the approver
+ * is usually not the transaction's agent
+ */
+export async function approveCommissionDisbursement(
+  serviceClient: any,
+  disbursement: CommissionDisbursement,
+  approverId: string
+): Promise<CommissionDisbursement> {
+  if (disbursement.status === 'approved') {
+    throw new ConflictError('This CDA has already been approved')
+  }
+
+  const approvedAt = new Date().toISOString()
+  const document = {
+    ...disbursement.document,
+    approval: { approvedBy: await getUserName(serviceClient, approverId), approvedAt }
+  }
+
+  // Only a draft is updated, so a concurrent approval cannot stamp it twice
+  const { data: approved, error } = await serviceClient
+    .from('commission_disbursements')
+    .update({
+      status: 'approved',
+      document,
+      approved_by: approverId,
+      approved_at: approvedAt,
+      updated_at: approvedAt
+    })
+    .eq('id', disbursement.id)
+    .eq('status', 'draft')
+    .select()
+    .single()
+
+  if (error || !approved) {
+    throw new ConflictError('This CDA has already been approved')
+  }
+
+  const { data: attachment, error: attachmentError } = await serviceClient
+    .from('transaction_documents')
+    .insert({
+      user_id: disbursement.user_id,
+      transaction_id: disbursement.transaction_id,
+      document_name: `${document.reference} Commission Disbursement Authorization.pdf`,
+      document_type: 'commission_disbursement',
+      file_url: `/api/commission-disbursements/${disbursement.id}/document?format=pdf`,
+      mime_type: 'application/pdf',
+      description: getCdaSummary(document),
+      is_required: false,
+      is_locked: true,
+      uploaded_at: approvedAt
+    })
+    .select('id')
+    .single()
+
+  if (attachmentError) {
+    console.error('Error attaching approved CDA:', attachmentError)
+    return approved
+  }
+
+  const { data: linked } = await serviceClient
+    .from('commission_disbursements')
+    .update({ document_id: attachment.id })
+    .eq('id', disbursement.id)
+    .select()
+    .single()
+
+  return linked || approved
+}
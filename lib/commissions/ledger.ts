@@ -0,0 +1,108 @@
+/**
+ * Commission Ledger - multi-party splits on a deal
+ * Participants are applied in position order, each taking a percentage of
+ * (or a flat amount from) what is left; the primary agent keeps the remainder
+ */
+
+export type ParticipantRole = 'co_listing_agent' | 'team_lead' | 'outside_referral' | 'in_house_referral'
+
+export type ParticipantAmountType = 'percentage' | 'flat'
+
+export interface CommissionParticipant {
+  id?: string
+  deal_id?: string
+  role: ParticipantRole
+  // In-house agents carry their user id; outside brokerages only a name
+  participant_user_id: string | null
+  name: string
+  amount_type: ParticipantAmountType
+  amount: number
+  position: number
+}
+
+export interface CommissionLedgerEntry {
+  participantId: string | null
+  role: ParticipantRole | 'primary_agent'
+  userId: string | null
+  name: string
+  // What was left of the gross when this entry was applied
+  basis: number
+  amount: number
+  percentageOfGross: number
+}
+
+export interface CommissionLedger {
+  grossCommission: number
+  entries: CommissionLedgerEntry[]
+  primaryAgentAmount: number
+}
+
+export const PARTICIPANT_ROLES: { value: ParticipantRole; label: string; external: boolean }[] = [
+  { value: 'outside_referral', label: 'Outside Referral Fee', external: true },
+  { value: 'co_listing_agent', label: 'Co-Listing Agent', external: false },
+  { value: 'in_house_referral', label: 'In-House Referral', external: false },
+  { value: 'team_lead', label: 'Team Lead Override', external: false }
+]
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100
+
+export function getParticipantRoleLabel(role: string): string {
+  if (role === 'primary_agent') return 'Primary Agent'
+  return PARTICIPANT_ROLES.find(option => option.value === role)?.label || role
+}
+
+export function buildCommissionLedger(
+  grossCommission: number,
+  participants: CommissionParticipant[],
+  primaryAgent: { userId: string | null; name: string }
+): CommissionLedger {
+  const gross = Math.max(grossCommission, 0)
+  const percentageOfGross = (amount: number) => gross > 0 ? roundCurrency((amount / gross) * 100) : 0
+  const entries: CommissionLedgerEntry[] = []
+  let remaining = gross
+
+  for (const participant of [...participants].sort((a, b) => a.position - b.position)) {
+    const requested = participant.amount_type === 'percentage'
+      ? (remaining * participant.amount) / 100
+      : participant.amount
+    const amount = roundCurrency(Math.min(Math.max(requested, 0), remaining))
+
+    entries.push({
+      participantId: participant.id || null,
+      role: participant.role,
+      userId: participant.participant_user_id,
+      name: participant.name,
+      basis: roundCurrency(remaining),
+      amount,
+      percentageOfGross: percentageOfGross(amount)
+    })
+    remaining = roundCurrency(remaining - amount)
+  }
+
+  entries.push({
+    participantId: null,
+    role: 'primary_agent',
+    userId: primaryAgent.userId,
+    name: primaryAgent.name,
+    basis: remaining,
+    amount: remaining,
+    percentageOfGross: percentageOfGross(remaining)
+  })
+
+  return {
+    grossCommission: roundCurrency(gross),
+    entries,
+    primaryAgentAmount: remaining
+  }
+}
+
+/**
+ * Everything a user takes from a ledger, across every role they hold on the deal
+ */
+export function getLedgerShare(ledger: CommissionLedger, userId: string): number {
+  return roundCurrency(
+    ledger.entries
+      .filter(entry => entry.userId === userId)
+      .reduce((sum, entry) => sum + entry.amount, 0)
+  )
+}
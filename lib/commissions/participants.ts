@@ -0,0 +1,118 @@
+/**
+ * Commission Participants - server-side loading and saving of a deal's split parties
+ */
+
+import type { CommissionParticipant } from '@/lib/commissions/ledger'
+
+const PARTICIPANT_COLUMNS = 'id, deal_id, role, participant_user_id, name, amount_type, amount, position'
+
+function toParticipant(row: any): CommissionParticipant {
+  return {
+    id: row.id,
+    deal_id: row.deal_id,
+    role: row.role,
+    participant_user_id: row.participant_user_id ?? null,
+    name: row.name,
+    amount_type: row.amount_type,
+    amount: parseFloat(row.amount),
+    position: row.position ?? 0
+  }
+}
+
+export async function getDealCommissionParticipants(supabase: any, dealId: string): Promise<CommissionParticipant[]> {
+  const { data, error } = await supabase
+    .from('deal_commission_participants')
+    .select(PARTICIPANT_COLUMNS)
+    .eq('deal_id', dealId)
+    .order('position', { ascending: true })
+
+  if (error) {
+    console.error('Error loading commission participants:', error)
+    return []
+  }
+
+  return (data || []).map(toParticipant)
+}
+
+/**
+ * Participants for many deals at once, keyed by deal id
+ */
+export async function getCommissionParticipantsByDeal(
+  supabase: any,
+  dealIds: string[]
+): Promise<Record<string, CommissionParticipant[]>> {
+  if (dealIds.length === 0) return {}
+
+  const { data, error } = await supabase
+    .from('deal_commission_participants')
+    .select(PARTICIPANT_COLUMNS)
+    .in('deal_id', dealIds)
+    .order('position', { ascending: true })
+
+  if (error) {
+    console.error('Error loading commission participants:', error)
+    return {}
+  }
+
+  return (data || []).reduce((byDeal: Record<string, CommissionParticipant[]>, row: any) => {
+    byDeal[row.deal_id] = [...(byDeal[row.deal_id] || []), toParticipant(row)]
+    return byDeal
+  }, {})
+}
+
+/**
+ * Deals the user takes a participant share on, whoever's deal it is
+ */
+export async function getParticipantDealIds(supabase: any, userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('deal_commission_participants')
+    .select('deal_id')
+    .eq('participant_user_id', userId)
+
+  if (error) {
+    throw new Error(`Failed to load commission participations: ${error.message}`)
+  }
+
+  return Array.from(new Set<string>((data || []).map((row: any) => row.deal_id)))
+}
+
+/**
+ * Replace a deal's participants; list order becomes the order of application
+ */
+export async function replaceDealCommissionParticipants(
+  supabase: any,
+  userId: string,
+  dealId: string,
+  participants: Omit<CommissionParticipant, 'id' | 'deal_id' | 'position'>[]
+): Promise<CommissionParticipant[]> {
+  const { error: deleteError } = await supabase
+    .from('deal_commission_participants')
+    .delete()
+    .eq('deal_id', dealId)
+
+  if (deleteError) {
+    throw new Error(`Failed to clear commission participants: ${deleteError.message}`)
+  }
+
+  if (participants.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('deal_commission_participants')
+    .insert(participants.map((participant, index) => ({
+      deal_id: dealId,
+      user_id: userId,
+      role: participant.role,
+      participant_user_id: participant.participant_user_id,
+      name: participant.name,
+      amount_type: participant.amount_type,
+      amount: participant.amount,
+      position: index
+    })))
+    .select(PARTICIPANT_COLUMNS)
+
+  if (error) {
+    throw new Error(`Failed to save commission participants: ${error.message}`)
+  }
+
+  return (data || []).map(toParticipant).sort((a: CommissionParticipant, b: CommissionParticipant) => a.position - b.position)
+}
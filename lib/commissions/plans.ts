@@ -0,0 +1,247 @@
+/**
+ * Commission Plans - GCI tiers, annual caps and fees
+ * Pure calculations shared by the calculate API and the commission dashboard
+ */
+
+import type { CommissionStructure, TieredRates } from '@/lib/validations/commission'
+
+// threshold is the year-to-date GCI where the tier starts, rate is the agent's share (%) within it
+export type CommissionTier = TieredRates[number]
+
+export interface CommissionPlan {
+  structure: CommissionStructure
+  tiers: CommissionTier[]
+  // Most company dollar the brokerage keeps per cap year; null for uncapped plans
+  annualCap: number | null
+  // YYYY-MM-DD; the cap year restarts on this month and day
+  anniversaryDate: string | null
+  transactionFee: number
+  royaltyPercentage: number
+  royaltyCap: number | null
+}
+
+export interface CapYear {
+  start: string
+  end: string
+}
+
+export interface YearToDateProduction {
+  gci: number
+  companyDollar: number
+  royaltyPaid: number
+  transactions: number
+}
+
+export interface CommissionTierPortion {
+  label: string
+  rate: number
+  gross: number
+  agentAmount: number
+  brokerAmount: number
+}
+
+export interface CommissionBreakdown {
+  grossCommission: number
+  portions: CommissionTierPortion[]
+  agentSplitAmount: number
+  brokerSplitAmount: number
+  capCredit: number
+  companyDollar: number
+  royaltyFee: number
+  transactionFee: number
+  agentNet: number
+  effectiveAgentSplit: number
+  capReached: boolean
+  capRemaining: number | null
+  yearToDate: {
+    before: YearToDateProduction
+    after: YearToDateProduction
+  }
+}
+
+export const EMPTY_PRODUCTION: YearToDateProduction = {
+  gci: 0,
+  companyDollar: 0,
+  royaltyPaid: 0,
+  transactions: 0
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Build a plan from commission settings. A flat plan (or one without tiers)
+ * is a single tier at 100 - brokerSplitPercentage
+ */
+export function buildCommissionPlan(settings: {
+  brokerSplitPercentage: number
+  commissionStructure: CommissionStructure
+  tiers?: CommissionTier[] | null
+  annualCap?: number | null
+  anniversaryDate?: string | null
+  transactionFee?: number | null
+  royaltyPercentage?: number | null
+  royaltyCap?: number | null
+}): CommissionPlan {
+  const tiers = settings.commissionStructure !== 'flat' && settings.tiers && settings.tiers.length > 0
+    ? [...settings.tiers].sort((a, b) => a.threshold - b.threshold)
+    : [{ threshold: 0, rate: 100 - settings.brokerSplitPercentage, label: 'Standard' }]
+
+  return {
+    structure: tiers.length > 1 ? settings.commissionStructure : 'flat',
+    tiers,
+    annualCap: settings.annualCap ?? null,
+    anniversaryDate: settings.anniversaryDate ?? null,
+    transactionFee: settings.transactionFee ?? 0,
+    royaltyPercentage: settings.royaltyPercentage ?? 0,
+    royaltyCap: settings.royaltyCap ?? null
+  }
+}
+
+/**
+ * Map the plan columns of a commission_settings row to the API's camelCase fields
+ */
+export function mapCommissionPlanColumns(row: any) {
+  const toNumber = (value: any) => value === null || value === undefined ? null : parseFloat(value)
+
+  return {
+    tiers: Array.isArray(row?.commission_tiers) ? row.commission_tiers : [],
+    annualCap: toNumber(row?.annual_cap),
+    anniversaryDate: row?.anniversary_date ?? null,
+    transactionFee: toNumber(row?.transaction_fee) ?? 0,
+    royaltyPercentage: toNumber(row?.royalty_percentage) ?? 0,
+    royaltyCap: toNumber(row?.royalty_cap)
+  }
+}
+
+/**
+ * The cap year containing asOf: from the most recent anniversary to the next one.
+ * Agents without an anniversary date run on the calendar year
+ */
+export function getCapYear(anniversaryDate: string | null, asOf: Date = new Date()): CapYear {
+  const [, month, day] = anniversaryDate
+    ? anniversaryDate.split('-').map(Number)
+    : [0, 1, 1]
+
+  let year = asOf.getUTCFullYear()
+  let start = new Date(Date.UTC(year, month - 1, day))
+  if (start > asOf) {
+    year -= 1
+    start = new Date(Date.UTC(year, month - 1, day))
+  }
+  const end = new Date(Date.UTC(year + 1, month - 1, day))
+
+  return {
+    start: start.toISOString().split('T')[0],
+    end: end.toISOString().split('T')[0]
+  }
+}
+
+export function getTierForGci(tiers: CommissionTier[], gci: number): CommissionTier {
+  let current = tiers[0]
+  for (const tier of tiers) {
+    if (gci >= tier.threshold) current = tier
+  }
+  return current
+}
+
+/**
+ * Split one gross commission under a plan, given what the agent has already
+ * produced this cap year.
+ *
+ * Tiered plans pay the whole deal at the tier the agent is in when it closes;
+ * progressive plans split the deal across every tier boundary it crosses.
+ * Once company dollar reaches the annual cap the rest of the broker share goes
+ * to the agent. Royalty (up to its own cap) and the transaction fee come out of
+ * the agent's side.
+ */
+export function calculateCommissionBreakdown(
+  grossCommission: number,
+  plan: CommissionPlan,
+  before: YearToDateProduction = EMPTY_PRODUCTION
+): CommissionBreakdown {
+  const gross = Math.max(grossCommission, 0)
+  const portions: CommissionTierPortion[] = []
+
+  const addPortion = (tier: CommissionTier, amount: number) => {
+    const agentAmount = (amount * tier.rate) / 100
+    portions.push({
+      label: tier.label,
+      rate: tier.rate,
+      gross: roundCurrency(amount),
+      agentAmount: roundCurrency(agentAmount),
+      brokerAmount: roundCurrency(amount - agentAmount)
+    })
+  }
+
+  if (plan.structure === 'progressive') {
+    let remaining = gross
+    let position = before.gci
+
+    plan.tiers.forEach((tier, index) => {
+      const next = plan.tiers[index + 1]
+      const tierEnd = next ? next.threshold : Infinity
+      if (remaining <= 0 || position >= tierEnd) return
+
+      const amount = Math.min(remaining, tierEnd - position)
+      addPortion(tier, amount)
+      remaining -= amount
+      position += amount
+    })
+  } else {
+    addPortion(getTierForGci(plan.tiers, before.gci), gross)
+  }
+
+  const agentSplitAmount = portions.reduce((sum, portion) => sum + portion.agentAmount, 0)
+  const brokerSplitAmount = portions.reduce((sum, portion) => sum + portion.brokerAmount, 0)
+
+  let companyDollar = brokerSplitAmount
+  let capRemaining: number | null = null
+  if (plan.annualCap !== null) {
+    const remainingCap = Math.max(plan.annualCap - before.companyDollar, 0)
+    companyDollar = Math.min(brokerSplitAmount, remainingCap)
+    capRemaining = roundCurrency(remainingCap - companyDollar)
+  }
+  const capCredit = brokerSplitAmount - companyDollar
+
+  let royaltyFee = (gross * plan.royaltyPercentage) / 100
+  if (plan.royaltyCap !== null) {
+    royaltyFee = Math.min(royaltyFee, Math.max(plan.royaltyCap - before.royaltyPaid, 0))
+  }
+
+  const transactionFee = gross > 0 ? plan.transactionFee : 0
+  const agentNet = agentSplitAmount + capCredit - royaltyFee - transactionFee
+
+  return {
+    grossCommission: roundCurrency(gross),
+    portions,
+    agentSplitAmount: roundCurrency(agentSplitAmount),
+    brokerSplitAmount: roundCurrency(brokerSplitAmount),
+    capCredit: roundCurrency(capCredit),
+    companyDollar: roundCurrency(companyDollar),
+    royaltyFee: roundCurrency(royaltyFee),
+    transactionFee: roundCurrency(transactionFee),
+    agentNet: roundCurrency(agentNet),
+    effectiveAgentSplit: gross > 0 ? roundCurrency((agentNet / gross) * 100) : 0,
+    capReached: capRemaining === 0,
+    capRemaining,
+    yearToDate: {
+      before,
+      after: {
+        gci: roundCurrency(before.gci + gross),
+        companyDollar: roundCurrency(before.companyDollar + companyDollar),
+        royaltyPaid: roundCurrency(before.royaltyPaid + royaltyFee),
+        transactions: before.transactions + (gross > 0 ? 1 : 0)
+      }
+    }
+  }
+}
+
+/**
+ * Replay a cap year's closed commissions (oldest first) through the plan
+ */
+export function accumulateYearToDate(grossCommissions: number[], plan: CommissionPlan): YearToDateProduction {
+  return grossCommissions.reduce(
+    (production, gross) => calculateCommissionBreakdown(gross, plan, production).yearToDate.after,
+    EMPTY_PRODUCTION
+  )
+}
@@ -0,0 +1,148 @@
+/**
+ * Commission Production - server-side plan loading and year-to-date GCI
+ */
+
+import { calculateCommission } from '@/lib/commission'
+import { buildCommissionLedger, getLedgerShare } from '@/lib/commissions/ledger'
+import { getCommissionParticipantsByDeal, getParticipantDealIds } from '@/lib/commissions/participants'
+import { DEFAULT_COMMISSION_SETTINGS } from '@/lib/validations/commission'
+import {
+  accumulateYearToDate,
+  buildCommissionPlan,
+  getCapYear,
+  mapCommissionPlanColumns,
+  type CapYear,
+  type CommissionPlan,
+  type YearToDateProduction
+} from '@/lib/commissions/plans'
+
+export interface YearToDateResult {
+  capYear: CapYear
+  production: YearToDateProduction
+}
+
+/**
+ * Whether the user is an active member of the tenant. Checked before reading
+ * another agent's commission data with the service client
+ */
+export async function isActiveTenantMember(supabase: any, userId: string, tenantId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('tenant_members')
+    .select('user_id')
+    .eq('user_id', userId)
+    .eq('tenant_id', tenantId)
+    .eq('status', 'active')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error checking tenant membership:', error)
+    return false
+  }
+
+  return !!data
+}
+
+/**
+ * Load a user's commission plan in a tenant, falling back to the default flat split
+ */
+export async function getCommissionPlan(supabase: any, userId: string, tenantId: string): Promise<CommissionPlan> {
+  const { data: settings, error } = await supabase
+    .from('commission_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('tenant_id', tenantId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading commission plan:', error)
+  }
+
+  if (!settings) {
+    return buildCommissionPlan(DEFAULT_COMMISSION_SETTINGS)
+  }
+
+  return buildCommissionPlan({
+    brokerSplitPercentage: parseFloat(settings.broker_split_percentage),
+    commissionStructure: settings.commission_structure,
+    ...mapCommissionPlanColumns(settings)
+  })
+}
+
+type ProductionOptions = { asOf?: Date; excludeTransactionId?: string; tenantId?: string }
+
+function closedTransactionsQuery(supabase: any, capYear: CapYear, asOf: Date, options: ProductionOptions) {
+  let query = supabase
+    .from('transactions')
+    .select(options.tenantId
+      ? 'id, user_id, deal_id, closing_date, purchase_price, commission_percentage, commission_amount, deal:deals!inner(tenant_id)'
+      : 'id, user_id, deal_id, closing_date, purchase_price, commission_percentage, commission_amount')
+    .eq('status', 'closed')
+    .gte('closing_date', capYear.start)
+    .lte('closing_date', asOf.toISOString().split('T')[0])
+    .order('closing_date', { ascending: true })
+
+  if (options.tenantId) {
+    query = query.eq('deal.tenant_id', options.tenantId)
+  }
+
+  if (options.excludeTransactionId) {
+    query = query.neq('id', options.excludeTransactionId)
+  }
+
+  return query
+}
+
+/**
+ * Total the agent's closed transactions in the current cap year up to asOf,
+ * plus their participant share of colleagues' closings. Deals with split
+ * participants count only the agent's ledger share
+ */
+export async function getYearToDateProduction(
+  supabase: any,
+  userId: string,
+  plan: CommissionPlan,
+  // tenantId limits production to closings on the tenant's deals
+  options: ProductionOptions = {}
+): Promise<YearToDateResult> {
+  const asOf = options.asOf || new Date()
+  const capYear = getCapYear(plan.anniversaryDate, asOf)
+
+  const participantDealIds = await getParticipantDealIds(supabase, userId)
+
+  const [own, shared] = await Promise.all([
+    closedTransactionsQuery(supabase, capYear, asOf, options).eq('user_id', userId),
+    participantDealIds.length > 0
+      ? closedTransactionsQuery(supabase, capYear, asOf, options).in('deal_id', participantDealIds).neq('user_id', userId)
+      : Promise.resolve({ data: [], error: null })
+  ])
+
+  const error = own.error || shared.error
+  if (error) {
+    throw new Error(`Failed to load closed transactions: ${error.message}`)
+  }
+
+  const transactions = [...(own.data || []), ...(shared.data || [])]
+    .sort((a: any, b: any) => String(a.closing_date).localeCompare(String(b.closing_date)))
+
+  const participantsByDeal = await getCommissionParticipantsByDeal(
+    supabase,
+    transactions.map((transaction: any) => transaction.deal_id).filter(Boolean)
+  )
+
+  const grossCommissions = transactions.map((transaction: any) => {
+    const gross = transaction.commission_amount !== null && transaction.commission_amount !== undefined
+      ? parseFloat(transaction.commission_amount)
+      : calculateCommission(transaction.purchase_price || 0, transaction.commission_percentage ?? undefined)
+
+    const participants = participantsByDeal[transaction.deal_id]
+    if (!participants || participants.length === 0) return gross
+
+    // The transaction's owner is the primary agent on the ledger
+    return getLedgerShare(buildCommissionLedger(gross, participants, { userId: transaction.user_id, name: '' }), userId)
+  })
+
+  return {
+    capYear,
+    production: accumulateYearToDate(grossCommissions, plan)
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Custom Field Definitions - server-side loading and value validation
+ */
+
+import { getActiveTenantId } from '@/lib/pipeline/definitions'
+import { getPlanLimits } from '@/lib/tenants/plans'
+import {
+  mergeCustomFieldValues,
+  validateCustomFieldValues,
+  type CustomFieldDefinition,
+  type CustomFieldEntity,
+  type CustomFieldError,
+  type CustomFieldValues
+} from '@/lib/custom-fields/fields'
+
+function toDefinition(row: any): CustomFieldDefinition {
+  return {
+    id: row.id,
+    tenant_id: row.tenant_id,
+    entity_type: row.entity_type,
+    key: row.key,
+    label: row.label,
+    field_type: row.field_type,
+    options: Array.isArray(row.options) ? row.options : [],
+    required: !!row.required,
+    validation: row.validation || {},
+    help_text: row.help_text || null,
+    position: row.position ?? 0
+  }
+}
+
+/**
+ * Load a tenant's ordered field definitions, optionally for one entity
+ */
+export async function getTenantCustomFields(
+  supabase: any,
+  tenantId: string | null,
+  entity?: CustomFieldEntity
+): Promise<CustomFieldDefinition[]> {
+  if (!tenantId) return []
+
+  let query = supabase
+    .from('custom_field_definitions')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('position', { ascending: true })
+
+  if (entity) query = query.eq('entity_type', entity)
+
+  const { data, error } = await query
+  if (error) {
+    console.error('Error loading custom field definitions:', error)
+    return []
+  }
+
+  return (data || []).map(toDefinition)
+}
+
+/**
+ * Load the field definitions visible to a user through their active tenant
+ */
+export async function getUserCustomFields(
+  supabase: any,
+  userId: string,
+  entity?: CustomFieldEntity
+): Promise<CustomFieldDefinition[]> {
+  const tenantId = await getActiveTenantId(supabase, userId)
+  return getTenantCustomFields(supabase, tenantId, entity)
+}
+
+/**
+ * How many custom fields the tenant's plan allows (-1 for unlimited) and how
+ * many it has defined across all entities
+ */
+export async function getCustomFieldUsage(
+  supabase: any,
+  tenantId: string
+): Promise<{ limit: number; used: number }> {
+  const [{ data: tenant }, { count }] = await Promise.all([
+    supabase.from('tenants').select('plan_type').eq('id', tenantId).maybeSingle(),
+    supabase
+      .from('custom_field_definitions')
+      .select('id', { count: 'exact', head: true })
+      .eq('tenant_id', tenantId)
+  ])
+
+  return {
+    limit: getPlanLimits(tenant?.plan_type).max_custom_fields,
+    used: count || 0
+  }
+}
+
+/**
+ * Validate custom field values submitted with a record and merge them into
+ * what the record already stores. Pass `existing` on updates so only the
+ * submitted fields are checked.
+ */
+export async function resolveCustomFieldValues(
+  supabase: any,
+  userId: string,
+  entity: CustomFieldEntity,
+  submitted: CustomFieldValues | null | undefined,
+  existing?: CustomFieldValues | null
+): Promise<{ values: CustomFieldValues; errors: CustomFieldError[] }> {
+  const definitions = await getUserCustomFields(supabase, userId, entity)
+  const { values, errors } = validateCustomFieldValues(definitions, submitted, { partial: existing !== undefined })
+
+  return { values: mergeCustomFieldValues(existing, values), errors }
+}
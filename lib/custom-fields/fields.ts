@@ -0,0 +1,442 @@
+// Tenant-defined custom fields for clients, deals and transactions.
+// Values live in each record's custom_fields JSONB, keyed by the field key.
+// Safe to import from client components - no server-only dependencies.
+
+export type CustomFieldEntity = 'clients' | 'deals' | 'transactions'
+
+export type CustomFieldType =
+  | 'text'
+  | 'number'
+  | 'currency'
+  | 'date'
+  | 'select'
+  | 'multi_select'
+  | 'checkbox'
+  | 'url'
+
+export interface CustomFieldValidation {
+  min?: number | null
+  max?: number | null
+  max_length?: number | null
+  pattern?: string | null
+}
+
+export interface CustomFieldDefinition {
+  id: string
+  tenant_id: string
+  entity_type: CustomFieldEntity
+  key: string
+  label: string
+  field_type: CustomFieldType
+  // Choices for select and multi_select fields
+  options: string[]
+  required: boolean
+  validation: CustomFieldValidation
+  help_text: string | null
+  position: number
+}
+
+export type CustomFieldValues = Record<string, unknown>
+
+export interface CustomFieldError {
+  field: string
+  message: string
+}
+
+export const CUSTOM_FIELD_ENTITIES: { value: CustomFieldEntity; label: string }[] = [
+  { value: 'clients', label: 'Clients' },
+  { value: 'deals', label: 'Deals' },
+  { value: 'transactions', label: 'Transactions' }
+]
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Single select' },
+  { value: 'multi_select', label: 'Multi-select' },
+  { value: 'checkbox', label: 'Checkbox' },
+  { value: 'url', label: 'URL' }
+]
+
+// Keys end up in PostgREST filter strings, so they stay strictly snake_case
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+// Admin-supplied patterns run on the server, so keep them short, reject nested
+// quantifiers like (a+)+ that backtrack exponentially, and cap the text tested
+const MAX_PATTERN_LENGTH = 200
+const MAX_PATTERN_INPUT_LENGTH = 1000
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)\s*[+*{]/
+
+export function isCustomFieldEntity(value: unknown): value is CustomFieldEntity {
+  return CUSTOM_FIELD_ENTITIES.some(entity => entity.value === value)
+}
+
+export function hasOptions(type: CustomFieldType): boolean {
+  return type === 'select' || type === 'multi_select'
+}
+
+export function isNumericField(type: CustomFieldType): boolean {
+  return type === 'number' || type === 'currency'
+}
+
+export function slugifyFieldKey(label: string): string {
+  const key = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 50)
+  return /^[a-z]/.test(key) ? key : `field_${key}`.slice(0, 50)
+}
+
+/**
+ * Validate a field definition before it is persisted
+ * Returns a list of human-readable problems, empty when valid
+ */
+export function validateCustomFieldDefinition(
+  definition: Pick<CustomFieldDefinition, 'key' | 'label' | 'field_type' | 'options' | 'validation'>
+): string[] {
+  const errors: string[] = []
+  const { min, max, max_length, pattern } = definition.validation || {}
+
+  if (!FIELD_KEY_PATTERN.test(definition.key)) {
+    errors.push('Field key must start with a letter and use only lowercase letters, numbers and underscores')
+  }
+
+  if (hasOptions(definition.field_type)) {
+    const options = definition.options.map(option => option.trim().toLowerCase())
+    if (options.length === 0) errors.push(`"${definition.label}" needs at least one option`)
+    if (options.some(option => !option)) errors.push('Options cannot be blank')
+    if (new Set(options).size !== options.length) errors.push('Options must be unique')
+  }
+
+  if (min != null && max != null && min > max) {
+    errors.push('Minimum cannot be greater than maximum')
+  }
+
+  if (max_length != null && max_length < 1) {
+    errors.push('Maximum length must be at least 1')
+  }
+
+  if (pattern) {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      errors.push(`Pattern must be ${MAX_PATTERN_LENGTH} characters or fewer`)
+    } else if (NESTED_QUANTIFIER.test(pattern)) {
+      errors.push('Pattern cannot repeat a group that itself repeats, e.g. (a+)+')
+    } else {
+      try {
+        new RegExp(pattern)
+      } catch {
+        errors.push('Pattern is not a valid regular expression')
+      }
+    }
+  }
+
+  return errors
+}
+
+// Patterns saved before the length and nesting checks fail closed rather than run
+function matchesPattern(pattern: string, text: string): boolean {
+  if (pattern.length > MAX_PATTERN_LENGTH || NESTED_QUANTIFIER.test(pattern)) return false
+  if (text.length > MAX_PATTERN_INPUT_LENGTH) return false
+  try {
+    return new RegExp(pattern).test(text)
+  } catch {
+    return false
+  }
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value
+  const normalized = String(value).trim().toLowerCase()
+  if (['true', 'yes', 'y', '1', 'on'].includes(normalized)) return true
+  if (['false', 'no', 'n', '0', 'off'].includes(normalized)) return false
+  return null
+}
+
+function matchOption(options: string[], value: unknown): string | undefined {
+  const normalized = String(value).trim().toLowerCase()
+  return options.find(option => option.toLowerCase() === normalized)
+}
+
+/**
+ * Coerce one submitted value to the field's type
+ * Returns the stored value, or an error message
+ */
+function normalizeValue(definition: CustomFieldDefinition, value: unknown): { value: unknown } | { error: string } {
+  const { min, max, max_length, pattern } = definition.validation || {}
+  const label = definition.label
+
+  switch (definition.field_type) {
+    case 'number':
+    case 'currency': {
+      const number = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]/g, ''))
+      if (!Number.isFinite(number)) return { error: `${label} must be a number` }
+      if (min != null && number < min) return { error: `${label} must be at least ${min}` }
+      if (max != null && number > max) return { error: `${label} must be at most ${max}` }
+      return { value: definition.field_type === 'currency' ? Math.round(number * 100) / 100 : number }
+    }
+    case 'date': {
+      const text = String(value).trim()
+      const parsed = DATE_PATTERN.test(text) ? new Date(`${text}T00:00:00Z`) : new Date(text)
+      if (Number.isNaN(parsed.getTime())) return { error: `${label} must be a valid date` }
+      return { value: DATE_PATTERN.test(text) ? text : parsed.toISOString().split('T')[0] }
+    }
+    case 'select': {
+      const option = matchOption(definition.options, value)
+      if (!option) return { error: `${label} must be one of: ${definition.options.join(', ')}` }
+      return { value: option }
+    }
+    case 'multi_select': {
+      const items = Array.isArray(value) ? value : String(value).split(',')
+      const selected: string[] = []
+      for (const item of items.filter(item => !isEmptyValue(item))) {
+        const option = matchOption(definition.options, item)
+        if (!option) return { error: `"${String(item).trim()}" is not an option for ${label}` }
+        if (!selected.includes(option)) selected.push(option)
+      }
+      return { value: selected }
+    }
+    case 'checkbox': {
+      const checked = toBoolean(value)
+      if (checked === null) return { error: `${label} must be true or false` }
+      return { value: checked }
+    }
+    case 'url': {
+      const text = String(value).trim()
+      const candidate = /^[a-z][a-z0-9+.-]*:/i.test(text) ? text : `https://${text}`
+      try {
+        const url = new URL(candidate)
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error()
+        return { value: url.toString() }
+      } catch {
+        return { error: `${label} must be a valid URL` }
+      }
+    }
+    default: {
+      const text = String(value).trim()
+      if (max_length != null && text.length > max_length) {
+        return { error: `${label} must be ${max_length} characters or fewer` }
+      }
+      if (pattern && !matchesPattern(pattern, text)) {
+        return { error: `${label} is not in the expected format` }
+      }
+      return { value: text }
+    }
+  }
+}
+
+/**
+ * Validate submitted custom field values against the tenant's definitions.
+ * Unknown keys are dropped; cleared values come back as null so callers can
+ * remove them. With `partial`, required fields only apply when submitted.
+ */
+export function validateCustomFieldValues(
+  definitions: CustomFieldDefinition[],
+  values: CustomFieldValues | null | undefined,
+  options: { partial?: boolean } = {}
+): { values: CustomFieldValues; errors: CustomFieldError[] } {
+  const submitted = values || {}
+  const result: CustomFieldValues = {}
+  const errors: CustomFieldError[] = []
+
+  for (const definition of definitions) {
+    const provided = Object.prototype.hasOwnProperty.call(submitted, definition.key)
+    if (options.partial && !provided) continue
+
+    const value = submitted[definition.key]
+    if (isEmptyValue(value)) {
+      // An unchecked checkbox is a valid answer, so required never applies to one
+      if (definition.required && definition.field_type !== 'checkbox') {
+        errors.push({ field: `custom_fields.${definition.key}`, message: `${definition.label} is required` })
+      } else if (provided) {
+        result[definition.key] = null
+      }
+      continue
+    }
+
+    const normalized = normalizeValue(definition, value)
+    if ('error' in normalized) {
+      errors.push({ field: `custom_fields.${definition.key}`, message: normalized.error })
+    } else {
+      result[definition.key] = normalized.value
+    }
+  }
+
+  return { values: result, errors }
+}
+
+/**
+ * Merge validated values into a record's stored custom_fields, dropping
+ * cleared fields. Keys without a definition (e.g. imported columns) are kept.
+ */
+export function mergeCustomFieldValues(
+  existing: CustomFieldValues | null | undefined,
+  updates: CustomFieldValues
+): CustomFieldValues {
+  const merged: CustomFieldValues = { ...(existing || {}), ...updates }
+  Object.keys(merged).forEach(key => {
+    if (merged[key] === null) delete merged[key]
+  })
+  return merged
+}
+
+export function formatCustomFieldValue(definition: CustomFieldDefinition, value: unknown): string {
+  if (isEmptyValue(value)) return ''
+
+  switch (definition.field_type) {
+    case 'currency':
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(Number(value))
+    case 'number':
+      return new Intl.NumberFormat('en-US').format(Number(value))
+    case 'date':
+      return new Date(`${value}T00:00:00`).toLocaleDateString()
+    case 'multi_select':
+      return Array.isArray(value) ? value.join(', ') : String(value)
+    case 'checkbox':
+      return value === true ? 'Yes' : 'No'
+    default:
+      return String(value)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// References, filtering and search
+// List filters and report fields refer to a custom field as cf.<key>. List
+// endpoints accept cf.<key>=<value>, plus cf.<key>.min / cf.<key>.max for
+// number, currency and date fields
+// ---------------------------------------------------------------------------
+
+export const CUSTOM_FIELD_REF_PREFIX = 'cf.'
+
+export function findCustomFieldByRef(
+  definitions: CustomFieldDefinition[],
+  ref: string
+): CustomFieldDefinition | undefined {
+  if (!ref.startsWith(CUSTOM_FIELD_REF_PREFIX)) return undefined
+  const key = ref.slice(CUSTOM_FIELD_REF_PREFIX.length)
+  return definitions.find(definition => definition.key === key)
+}
+
+/**
+ * JSON path of a field's value for PostgREST selects, filters and ordering.
+ * Numbers keep their jsonb type so they compare and sort numerically.
+ */
+export function getCustomFieldColumn(definition: CustomFieldDefinition): string {
+  return isNumericField(definition.field_type)
+    ? `custom_fields->${definition.key}`
+    : `custom_fields->>${definition.key}`
+}
+
+export interface CustomFieldFilter {
+  key: string
+  value?: string
+  min?: string
+  max?: string
+}
+
+export function getCustomFieldFilterParams(filters: CustomFieldFilter[]): [string, string][] {
+  return filters.flatMap(filter => {
+    const params: [string, string][] = []
+    const name = `${CUSTOM_FIELD_REF_PREFIX}${filter.key}`
+    if (filter.value) params.push([name, filter.value])
+    if (filter.min) params.push([`${name}.min`, filter.min])
+    if (filter.max) params.push([`${name}.max`, filter.max])
+    return params
+  })
+}
+
+/**
+ * Read cf.* query params, keeping only keys the tenant has defined
+ */
+export function parseCustomFieldFilters(
+  searchParams: URLSearchParams,
+  definitions: CustomFieldDefinition[]
+): CustomFieldFilter[] {
+  const keys = new Set(definitions.map(definition => definition.key))
+  const filters = new Map<string, CustomFieldFilter>()
+
+  searchParams.forEach((value, name) => {
+    if (!name.startsWith(CUSTOM_FIELD_REF_PREFIX) || !value) return
+    const [key, bound] = name.slice(CUSTOM_FIELD_REF_PREFIX.length).split('.')
+    if (!keys.has(key)) return
+
+    const filter = filters.get(key) || { key }
+    if (bound === 'min' || bound === 'max') filter[bound] = value
+    else if (!bound) filter.value = value
+    filters.set(key, filter)
+  })
+
+  return Array.from(filters.values())
+}
+
+/**
+ * Apply custom field filters to a Supabase query on a table with custom_fields
+ */
+export function applyCustomFieldFilters<Q>(
+  query: Q,
+  definitions: CustomFieldDefinition[],
+  filters: CustomFieldFilter[]
+): Q {
+  let filtered: any = query
+
+  for (const filter of filters) {
+    const definition = definitions.find(field => field.key === filter.key)
+    if (!definition) continue
+
+    const textPath = `custom_fields->>${definition.key}`
+    const jsonPath = `custom_fields->${definition.key}`
+
+    switch (definition.field_type) {
+      case 'number':
+      case 'currency': {
+        // jsonb comparison keeps numeric ordering
+        const min = Number(filter.min)
+        const max = Number(filter.max)
+        const exact = Number(filter.value)
+        if (filter.value && Number.isFinite(exact)) filtered = filtered.eq(jsonPath, exact)
+        if (filter.min && Number.isFinite(min)) filtered = filtered.gte(jsonPath, min)
+        if (filter.max && Number.isFinite(max)) filtered = filtered.lte(jsonPath, max)
+        break
+      }
+      case 'date':
+        if (filter.value) filtered = filtered.eq(textPath, filter.value)
+        if (filter.min) filtered = filtered.gte(textPath, filter.min)
+        if (filter.max) filtered = filtered.lte(textPath, filter.max)
+        break
+      case 'checkbox': {
+        const checked = filter.value ? toBoolean(filter.value) : null
+        if (checked === true) filtered = filtered.eq(jsonPath, true)
+        // Records saved before the field existed have no value at all
+        if (checked === false) filtered = filtered.or(`${jsonPath}.is.null,${jsonPath}.eq.false`)
+        break
+      }
+      case 'select':
+        if (filter.value) filtered = filtered.eq(textPath, filter.value)
+        break
+      case 'multi_select':
+        if (filter.value) filtered = filtered.contains('custom_fields', { [definition.key]: [filter.value] })
+        break
+      default:
+        if (filter.value) filtered = filtered.ilike(textPath, `%${filter.value}%`)
+    }
+  }
+
+  return filtered as Q
+}
+
+/**
+ * PostgREST `or` conditions that match free-text search against text-like
+ * custom fields, for combining with a list's own search conditions
+ */
+export function getCustomFieldSearchConditions(definitions: CustomFieldDefinition[], term: string): string[] {
+  // Same sanitizing as the built-in search columns; anything else could break the or() grammar
+  const safeTerm = term.replace(/[^\w\s@.-]/g, '').trim()
+  if (!safeTerm) return []
+
+  return definitions
+    .filter(definition => ['text', 'url', 'select', 'multi_select'].includes(definition.field_type))
+    .map(definition => `custom_fields->>${definition.key}.ilike.%${safeTerm}%`)
+}
@@ -0,0 +1,104 @@
+/**
+ * Simple PDF - a minimal text-only PDF 1.4 writer (US Letter, Helvetica)
+ * Enough for generated letters and statements without a rendering dependency
+ */
+
+export interface PdfLine {
+  text: string
+  size?: number
+  bold?: boolean
+  // Second column, drawn at a fixed offset from the left margin
+  column?: string
+  // Extra space above the line, in points
+  spaceBefore?: number
+  rule?: boolean
+}
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 72
+const COLUMN_OFFSET = 340
+
+// Helvetica uses WinAnsiEncoding; anything outside printable ASCII is approximated
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\x7E]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)')
+}
+
+function paginate(lines: PdfLine[]): string[] {
+  const pages: string[] = []
+  let operations: string[] = []
+  let y = PAGE_HEIGHT - MARGIN
+
+  for (const line of lines) {
+    const size = line.size || 10
+    const advance = size * 1.4 + (line.spaceBefore || 0)
+
+    if (y - advance < MARGIN) {
+      pages.push(operations.join('\n'))
+      operations = []
+      y = PAGE_HEIGHT - MARGIN
+    }
+    y -= advance
+
+    if (line.rule) {
+      operations.push(`0.6 w ${MARGIN} ${y + size} m ${PAGE_WIDTH - MARGIN} ${y + size} l S`)
+    }
+
+    const font = line.bold ? 'F2' : 'F1'
+    if (line.text) {
+      operations.push(`BT /${font} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${escapePdfText(line.text)}) Tj ET`)
+    }
+    if (line.column) {
+      operations.push(`BT /${font} ${size} Tf ${MARGIN + COLUMN_OFFSET} ${y.toFixed(2)} Td (${escapePdfText(line.column)}) Tj ET`)
+    }
+  }
+
+  pages.push(operations.join('\n'))
+  return pages
+}
+
+export function renderTextPdf(lines: PdfLine[], title?: string): Uint8Array {
+  const pageContents = paginate(lines)
+  const objects: string[] = []
+
+  // 1: catalog, 2: page tree, 3-4: fonts, 5: info, then a page and content stream per page
+  const firstPageObject = 6
+  const pageRefs = pageContents.map((_, index) => `${firstPageObject + index * 2} 0 R`)
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>')
+  objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pageContents.length} >>`)
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+  objects.push(`<< /Producer (Dealvize)${title ? ` /Title (${escapePdfText(title)})` : ''} >>`)
+
+  pageContents.forEach((content, index) => {
+    const contentObject = firstPageObject + index * 2 + 1
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentObject} 0 R >>`
+    )
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+  })
+
+  // Content is plain ASCII, so string length equals byte length for the xref offsets
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length)
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`
+  })
+
+  const xrefOffset = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return new TextEncoder().encode(pdf)
+}
@@ -1,9 +1,12 @@
 import { google } from 'googleapis'
 
+// Read and write access to events, for two-way sync of tasks and meetings
+export const CALENDAR_EVENTS_SCOPE = 'https://www.googleapis.com/auth/calendar.events'
+
 const SCOPES = [
     'https://www.googleapis.com/auth/gmail.readonly',
     'https://www.googleapis.com/auth/gmail.modify',
-    'https://www.googleapis.com/auth/calendar.readonly',
+    CALENDAR_EVENTS_SCOPE,
     'https://www.googleapis.com/auth/userinfo.email',
 ]
 
@@ -71,21 +71,90 @@ export async function getUpdatedEvents(
     const params: calendar_v3.Params$Resource$Events$List = {
         calendarId,
         singleEvents: true,
-        orderBy: 'startTime',
     }
 
+    // Google rejects ordering and time bounds on incremental requests
     if (syncToken) {
         params.syncToken = syncToken
     } else {
+        params.orderBy = 'startTime'
         params.timeMin = new Date().toISOString()
         params.timeMax = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
     }
 
-    const response = await calendar.events.list(params)
+    // The sync token only comes with the last page
+    const events: calendar_v3.Schema$Event[] = []
+    let pageToken: string | undefined
+    let nextSyncToken: string | undefined
+    do {
+        const response = await calendar.events.list({ ...params, pageToken })
+        events.push(...(response.data.items || []))
+        pageToken = response.data.nextPageToken || undefined
+        nextSyncToken = response.data.nextSyncToken || undefined
+    } while (pageToken)
+
+    return { events, nextSyncToken }
+}
+
+/**
+ * Google answers 410 Gone once a sync token has expired; the caller should
+ * start over without one
+ */
+export function isSyncTokenExpired(error: unknown): boolean {
+    return (error as { code?: number })?.code === 410
+}
+
+export async function insertEvent(
+    accessToken: string,
+    refreshToken: string,
+    calendarId: string,
+    event: calendar_v3.Schema$Event
+): Promise<calendar_v3.Schema$Event> {
+    const auth = getAuthenticatedClient(accessToken, refreshToken)
+    const calendar = google.calendar({ version: 'v3', auth })
+
+    const response = await calendar.events.insert({
+        calendarId,
+        requestBody: event,
+    })
+
+    return response.data
+}
+
+export async function patchEvent(
+    accessToken: string,
+    refreshToken: string,
+    calendarId: string,
+    eventId: string,
+    event: calendar_v3.Schema$Event
+): Promise<calendar_v3.Schema$Event> {
+    const auth = getAuthenticatedClient(accessToken, refreshToken)
+    const calendar = google.calendar({ version: 'v3', auth })
+
+    const response = await calendar.events.patch({
+        calendarId,
+        eventId,
+        requestBody: event,
+    })
+
+    return response.data
+}
+
+export async function deleteEvent(
+    accessToken: string,
+    refreshToken: string,
+    calendarId: string,
+    eventId: string
+): Promise<void> {
+    const auth = getAuthenticatedClient(accessToken, refreshToken)
+    const calendar = google.calendar({ version: 'v3', auth })
 
-    return {
-        events: response.data.items || [],
-        nextSyncToken: response.data.nextSyncToken || undefined,
+    try {
+        await calendar.events.delete({ calendarId, eventId })
+    } catch (error) {
+        // Already deleted on the Google side
+        const code = (error as { code?: number })?.code
+        if (code !== 404 && code !== 410) throw error
     }
 }
 
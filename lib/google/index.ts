@@ -1,3 +1,13 @@
-export { getAuthUrl, getTokensFromCode, getAuthenticatedClient, getUserEmail, oauth2Client } from './auth'
+export { getAuthUrl, getTokensFromCode, getAuthenticatedClient, getUserEmail, oauth2Client, CALENDAR_EVENTS_SCOPE } from './auth'
 export { watchUserMailbox, stopWatch, getMessage, getHistoryChanges, parseEmailContent } from './gmail'
-export { watchCalendar, stopCalendarWatch, getEvent, getUpdatedEvents, isClosingEvent } from './calendar'
+export {
+    watchCalendar,
+    stopCalendarWatch,
+    getEvent,
+    getUpdatedEvents,
+    isSyncTokenExpired,
+    insertEvent,
+    patchEvent,
+    deleteEvent,
+    isClosingEvent,
+} from './calendar'
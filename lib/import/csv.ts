@@ -0,0 +1,150 @@
+/**
+ * RFC 4180 CSV Parser
+ * Incremental, so large files are parsed as they stream in. Handles quoted
+ * fields with embedded commas, quotes and line breaks, CRLF/LF/CR line
+ * endings, and a leading UTF-8 byte order mark.
+ */
+
+export class CsvParser {
+  private field = ''
+  private row: string[] = []
+  private inQuotes = false
+  // A quote inside a quoted field: either the closing quote or the first half of ""
+  private pendingQuote = false
+  private pendingCarriageReturn = false
+  private started = false
+  private fieldStarted = false
+
+  constructor(private readonly delimiter: string = ',') {}
+
+  /**
+   * Feed the next chunk of text; returns the rows it completed
+   */
+  push(chunk: string): string[][] {
+    const rows: string[][] = []
+    let text = chunk
+
+    if (!this.started && text.length > 0) {
+      this.started = true
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1)
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      if (this.pendingCarriageReturn) {
+        this.pendingCarriageReturn = false
+        if (char === '\n') continue
+      }
+
+      if (this.inQuotes) {
+        if (this.pendingQuote) {
+          this.pendingQuote = false
+          if (char === '"') {
+            this.field += '"'
+            continue
+          }
+          this.inQuotes = false
+          // Fall through: the closing quote was followed by this character
+        } else if (char === '"') {
+          this.pendingQuote = true
+          continue
+        } else {
+          this.field += char
+          continue
+        }
+      }
+
+      if (char === '"' && !this.fieldStarted) {
+        this.inQuotes = true
+        this.fieldStarted = true
+      } else if (char === this.delimiter) {
+        this.endField()
+      } else if (char === '\n' || char === '\r') {
+        this.pendingCarriageReturn = char === '\r'
+        const row = this.endRow()
+        if (row) rows.push(row)
+      } else {
+        // Stray quotes in an unquoted field are kept as-is, as most spreadsheets do
+        this.field += char
+        this.fieldStarted = true
+      }
+    }
+
+    return rows
+  }
+
+  /**
+   * Flush the final row once the input is exhausted
+   */
+  end(): string[][] {
+    if (this.inQuotes && !this.pendingQuote) {
+      throw new CsvParseError('Unterminated quoted field at end of file')
+    }
+    this.inQuotes = false
+    this.pendingQuote = false
+    const row = this.endRow()
+    return row ? [row] : []
+  }
+
+  private endField() {
+    this.row.push(this.field)
+    this.field = ''
+    this.fieldStarted = false
+  }
+
+  // Blank lines are skipped rather than returned as a single empty cell
+  private endRow(): string[] | null {
+    if (this.row.length === 0 && !this.fieldStarted && this.field === '') {
+      return null
+    }
+    this.endField()
+    const row = this.row
+    this.row = []
+    return row
+  }
+}
+
+export class CsvParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CsvParseError'
+  }
+}
+
+/**
+ * Parse a byte stream (e.g. File.stream()) row by row without holding the
+ * whole file in memory
+ */
+export async function* parseCsvStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<string[]> {
+  const parser = new CsvParser()
+  const decoder = new TextDecoder('utf-8')
+  const reader = stream.getReader()
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      yield* parser.push(decoder.decode(value, { stream: true }))
+    }
+    yield* parser.push(decoder.decode())
+    yield* parser.end()
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+export function parseCsv(text: string): string[][] {
+  const parser = new CsvParser()
+  return [...parser.push(text), ...parser.end()]
+}
+
+function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n')
+}
@@ -0,0 +1,642 @@
+/**
+ * Import Engine - server-side CSV imports for clients, deals and tasks.
+ * Every committed import is recorded as a batch so it can be rolled back.
+ */
+
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors'
+import { getPipelineForUser } from '@/lib/pipeline/definitions'
+import { findStage, getInitialStage, DEFAULT_PIPELINE_ID } from '@/lib/pipeline/stages'
+import { detectClientDuplicates } from '@/lib/clients/merge'
+import { parseCsvStream } from '@/lib/import/csv'
+import { getPresetColumnMapping } from '@/lib/import/presets'
+import { getImportPreset } from '@/lib/import/saved-presets'
+import {
+  applyColumnMapping,
+  suggestColumnMapping,
+  validateColumnMapping,
+  validateImportRow,
+  type ColumnMapping,
+  type ImportEntityType,
+  type MappedRow,
+  type ValueMaps
+} from '@/lib/import/entities'
+
+export type ImportMode = 'preview' | 'dry_run' | 'commit'
+
+export const MAX_IMPORT_ROWS = 10000
+const DEFAULT_PREVIEW_ROWS = 10
+const WRITE_CHUNK_SIZE = 200
+// Row errors beyond this are counted but not returned
+const MAX_REPORTED_ERRORS = 200
+
+export interface ImportOptions {
+  entity: ImportEntityType
+  mode: ImportMode
+  mapping?: ColumnMapping
+  // Built-in or saved preset; supplies the mapping and value translations
+  presetId?: string
+  upsertByEmail?: boolean
+  previewRows?: number
+  fileName?: string
+}
+
+export interface ImportRowError {
+  // 1-based line in the spreadsheet, counting the header as row 1
+  row: number
+  errors: string[]
+}
+
+export interface ImportPreviewRow {
+  row: number
+  values: MappedRow
+  errors: string[]
+}
+
+export interface ImportResult {
+  entity: ImportEntityType
+  mode: ImportMode
+  headers: string[]
+  mapping: ColumnMapping
+  mappingErrors: string[]
+  presetId: string | null
+  valueMaps: ValueMaps
+  preview: ImportPreviewRow[]
+  totalRows: number
+  validRows: number
+  created: number
+  updated: number
+  errorCount: number
+  errors: ImportRowError[]
+  batchId: string | null
+}
+
+interface UpdatedRecord {
+  id: string
+  previous: Record<string, any>
+}
+
+type RelatedIds = { notes?: string[] }
+
+export interface ImportBatch {
+  id: string
+  user_id: string
+  entity_type: ImportEntityType
+  file_name: string | null
+  status: 'running' | 'completed' | 'failed' | 'rolled_back'
+  total_rows: number
+  created_count: number
+  updated_count: number
+  error_count: number
+  created_ids: string[]
+  updated_records: UpdatedRecord[]
+  // Rows created in other tables alongside the records, e.g. notes
+  related_ids: RelatedIds
+  created_at: string
+  completed_at: string | null
+  rolled_back_at: string | null
+}
+
+interface PendingRow {
+  row: number
+  values: MappedRow
+  record: Record<string, any>
+  clientName?: string
+  notes?: string
+}
+
+const MODES: ImportMode[] = ['preview', 'dry_run', 'commit']
+
+/**
+ * Read import options from a multipart upload: file, mode, mapping (JSON),
+ * preset, upsert_by_email and preview_rows. Without a mode the file is imported
+ * straight away using the suggested mapping
+ */
+export function getImportRequest(
+  formData: FormData,
+  entity: ImportEntityType
+): { file: File; options: ImportOptions } {
+  const file = formData.get('file')
+  if (!(file instanceof File)) {
+    throw new ValidationError('No file provided')
+  }
+  if (!file.name.toLowerCase().endsWith('.csv') && !['text/csv', 'application/vnd.ms-excel', 'text/plain'].includes(file.type)) {
+    throw new ValidationError('File must be a CSV')
+  }
+
+  const mode = (formData.get('mode') as string | null) || 'commit'
+  if (!MODES.includes(mode as ImportMode)) {
+    throw new ValidationError(`Unknown import mode "${mode}"`)
+  }
+
+  let mapping: ColumnMapping | undefined
+  const rawMapping = formData.get('mapping') as string | null
+  if (rawMapping) {
+    try {
+      mapping = JSON.parse(rawMapping)
+    } catch {
+      throw new ValidationError('Column mapping must be valid JSON')
+    }
+    if (!mapping || typeof mapping !== 'object' || Object.values(mapping).some(value => typeof value !== 'string')) {
+      throw new ValidationError('Column mapping must map each column header to a field name')
+    }
+  }
+
+  const previewRows = parseInt((formData.get('preview_rows') as string | null) || '', 10)
+
+  return {
+    file,
+    options: {
+      entity,
+      mode: mode as ImportMode,
+      mapping,
+      presetId: (formData.get('preset') as string | null) || undefined,
+      upsertByEmail: formData.get('upsert_by_email') === 'true',
+      previewRows: Number.isFinite(previewRows) ? Math.min(Math.max(previewRows, 1), 100) : undefined,
+      fileName: file.name
+    }
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size))
+  return chunks
+}
+
+function emptyResult(options: ImportOptions, headers: string[], mapping: ColumnMapping): ImportResult {
+  return {
+    entity: options.entity,
+    mode: options.mode,
+    headers,
+    mapping,
+    mappingErrors: [],
+    presetId: options.presetId || null,
+    valueMaps: {},
+    preview: [],
+    totalRows: 0,
+    validRows: 0,
+    created: 0,
+    updated: 0,
+    errorCount: 0,
+    errors: [],
+    batchId: null
+  }
+}
+
+function clientNameKey(name: string) {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+async function loadClientLookup(supabase: any, userId: string): Promise<Map<string, string>> {
+  const { data: clients } = await supabase
+    .from('clients')
+    .select('id, first_name, last_name, name, email')
+    .eq('user_id', userId)
+    .is('merged_into_id', null)
+
+  const lookup = new Map<string, string>()
+  for (const client of clients || []) {
+    const fullName = `${client.first_name || ''} ${client.last_name || ''}`.trim() || client.name
+    if (fullName && !lookup.has(clientNameKey(fullName))) lookup.set(clientNameKey(fullName), client.id)
+    if (client.email && !lookup.has(client.email.toLowerCase())) lookup.set(client.email.toLowerCase(), client.id)
+  }
+  return lookup
+}
+
+/**
+ * Resolve references that need the database - client names and pipeline
+ * stages - and attach them to each record. Rows that fail are moved to errors
+ */
+async function resolveReferences(
+  supabase: any,
+  userId: string,
+  entity: ImportEntityType,
+  rows: PendingRow[],
+  addError: (row: number, errors: string[]) => void
+): Promise<PendingRow[]> {
+  if (entity === 'clients') return rows
+
+  const clients = await loadClientLookup(supabase, userId)
+  const pipeline = entity === 'deals' ? await getPipelineForUser(supabase, userId) : null
+  const resolved: PendingRow[] = []
+
+  for (const pending of rows) {
+    const errors: string[] = []
+    const record = { ...pending.record }
+
+    if (pending.clientName) {
+      const clientId = clients.get(clientNameKey(pending.clientName))
+      if (clientId) record.client_id = clientId
+      else errors.push(`No client named "${pending.clientName}"`)
+    }
+
+    if (pipeline) {
+      const stage = record.status ? findStage(pipeline.stages, record.status) : getInitialStage(pipeline.stages)
+      if (stage) {
+        record.status = stage.name
+        record.probability = record.probability ?? stage.probability
+        record.pipeline_id = pipeline.id === DEFAULT_PIPELINE_ID ? null : pipeline.id
+      } else {
+        errors.push(`"${record.status}" is not a stage in the ${pipeline.name} pipeline`)
+      }
+    }
+
+    if (errors.length > 0) addError(pending.row, errors)
+    else resolved.push({ ...pending, record })
+  }
+
+  return resolved
+}
+
+/**
+ * Split client rows into inserts and updates by matching email against the
+ * user's existing clients. Repeated emails within the file collapse into one
+ * record, later rows taking precedence
+ */
+async function partitionByEmail(
+  supabase: any,
+  userId: string,
+  rows: PendingRow[]
+): Promise<{ inserts: PendingRow[]; updates: { existing: Record<string, any>; pending: PendingRow }[] }> {
+  const { data: existingClients } = await supabase
+    .from('clients')
+    .select('*')
+    .eq('user_id', userId)
+    .is('merged_into_id', null)
+    .not('email', 'is', null)
+
+  const existingByEmail = new Map<string, Record<string, any>>()
+  for (const client of existingClients || []) {
+    existingByEmail.set(client.email.toLowerCase(), client)
+  }
+
+  const byEmail = new Map<string, PendingRow>()
+  const inserts: PendingRow[] = []
+  for (const pending of rows) {
+    const email = pending.record.email
+    if (!email) {
+      inserts.push(pending)
+      continue
+    }
+    const earlier = byEmail.get(email)
+    byEmail.set(email, earlier
+      ? {
+          ...pending,
+          values: { ...earlier.values, ...pending.values },
+          record: { ...earlier.record, ...withoutEmpty(pending.record) },
+          notes: [earlier.notes, pending.notes].filter(Boolean).join('\n\n') || undefined
+        }
+      : pending)
+  }
+
+  const updates: { existing: Record<string, any>; pending: PendingRow }[] = []
+  for (const [email, pending] of byEmail) {
+    const existing = existingByEmail.get(email)
+    if (existing) updates.push({ existing, pending })
+    else inserts.push(pending)
+  }
+
+  return { inserts, updates }
+}
+
+function withoutEmpty(record: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== null && value !== undefined && value !== ''))
+}
+
+/**
+ * Only overwrite fields the file actually provides; a status column that was
+ * not mapped must not reset the client's existing status
+ */
+function buildClientUpdate(existing: Record<string, any>, pending: PendingRow): Record<string, any> {
+  const update = withoutEmpty(pending.record)
+  if (!pending.values.status) delete update.status
+  if (!pending.values.name && !pending.values.first_name && !pending.values.last_name) {
+    delete update.name
+  }
+  if (update.custom_fields) {
+    update.custom_fields = { ...(existing.custom_fields || {}), ...update.custom_fields }
+  }
+  if (update.tags) {
+    update.tags = [...new Set([...(existing.tags || []), ...update.tags])]
+  }
+
+  return Object.fromEntries(Object.entries(update).filter(([key, value]) =>
+    JSON.stringify(existing[key] ?? null) !== JSON.stringify(value)
+  ))
+}
+
+async function undoWrites(
+  supabase: any,
+  userId: string,
+  entity: ImportEntityType,
+  createdIds: string[],
+  updatedRecords: UpdatedRecord[],
+  relatedIds: RelatedIds = {}
+) {
+  for (const ids of chunk(relatedIds.notes || [], WRITE_CHUNK_SIZE)) {
+    const { error } = await supabase.from('notes').delete().eq('user_id', userId).in('id', ids)
+    if (error) throw new Error(`Failed to remove imported notes: ${error.message}`)
+  }
+
+  for (const ids of chunk(createdIds, WRITE_CHUNK_SIZE)) {
+    if (entity === 'deals') {
+      const { error } = await supabase.from('deal_stage_history').delete().eq('user_id', userId).in('deal_id', ids)
+      if (error) throw new Error(`Failed to remove imported deal stage history: ${error.message}`)
+    }
+    const { error } = await supabase.from(entity).delete().eq('user_id', userId).in('id', ids)
+    if (error) throw new Error(`Failed to remove imported ${entity}: ${error.message}`)
+  }
+
+  for (const { id, previous } of updatedRecords) {
+    const { error } = await supabase.from(entity).update(previous).eq('id', id).eq('user_id', userId)
+    if (error) throw new Error(`Failed to restore ${entity} ${id}: ${error.message}`)
+  }
+}
+
+// Opening stage entries, as for deals created one at a time
+async function recordImportedDealStages(supabase: any, userId: string, dealIds: string[]) {
+  const changedAt = new Date().toISOString()
+
+  for (const ids of chunk(dealIds, WRITE_CHUNK_SIZE)) {
+    const { data: deals, error } = await supabase
+      .from('deals')
+      .select('id, status, pipeline_id')
+      .eq('user_id', userId)
+      .in('id', ids)
+
+    if (error) throw new Error(`Loading imported deals: ${error.message}`)
+
+    const entries = (deals || [])
+      .filter((deal: { status: string | null }) => deal.status)
+      .map((deal: { id: string; status: string; pipeline_id: string | null }) => ({
+        deal_id: deal.id,
+        user_id: userId,
+        changed_by: userId,
+        pipeline_id: deal.pipeline_id ?? null,
+        from_stage: null,
+        to_stage: deal.status,
+        reason: null,
+        changed_at: changedAt
+      }))
+    if (entries.length === 0) continue
+
+    const { error: insertError } = await supabase.from('deal_stage_history').insert(entries)
+    if (insertError) throw new Error(`Recording imported deal stages: ${insertError.message}`)
+  }
+}
+
+/**
+ * Run an import over a CSV byte stream.
+ * - preview: parse the first rows only and report how they map and validate
+ * - dry_run: validate the whole file and count what would be created/updated
+ * - commit: write it as a batch; a failure part-way undoes the rows already written
+ */
+export async function runImport(
+  supabase: any,
+  userId: string,
+  stream: ReadableStream<Uint8Array>,
+  options: ImportOptions
+): Promise<ImportResult> {
+  const previewLimit = options.previewRows ?? DEFAULT_PREVIEW_ROWS
+  let headers: string[] | null = null
+  let mapping: ColumnMapping = {}
+  let valueMaps: ValueMaps = {}
+  let result: ImportResult | null = null
+  const pending: PendingRow[] = []
+  let rowNumber = 1
+
+  const addError = (row: number, errors: string[]) => {
+    if (!result) return
+    result.errorCount++
+    if (result.errors.length < MAX_REPORTED_ERRORS) result.errors.push({ row, errors })
+  }
+
+  for await (const cells of parseCsvStream(stream)) {
+    if (!headers) {
+      headers = cells.map(cell => cell.trim())
+      const preset = options.presetId
+        ? await getImportPreset(supabase, userId, options.presetId, options.entity)
+        : null
+      mapping = options.mapping
+        || (preset ? getPresetColumnMapping(headers, preset) : suggestColumnMapping(headers, options.entity))
+      valueMaps = preset?.valueMaps || {}
+      result = emptyResult(options, headers, mapping)
+      result.valueMaps = valueMaps
+      result.mappingErrors = validateColumnMapping(mapping, options.entity)
+      if (result.mappingErrors.length > 0 && options.mode !== 'preview') {
+        throw new ValidationError(result.mappingErrors.join('; '))
+      }
+      continue
+    }
+
+    rowNumber++
+    const current = result as ImportResult
+    if (cells.every(cell => cell.trim() === '')) continue
+
+    if (current.totalRows >= MAX_IMPORT_ROWS) {
+      throw new ValidationError(`Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file and try again`)
+    }
+    current.totalRows++
+
+    const values = applyColumnMapping(headers, cells, mapping, options.entity, valueMaps)
+    const validation = validateImportRow(options.entity, values)
+
+    if (options.mode === 'preview') {
+      current.preview.push({ row: rowNumber, values, errors: validation.errors })
+      if (validation.record) current.validRows++
+      else current.errorCount++
+      // Stop reading once the preview is full
+      if (current.preview.length >= previewLimit) break
+      continue
+    }
+
+    if (!validation.record) {
+      addError(rowNumber, validation.errors)
+      continue
+    }
+    pending.push({
+      row: rowNumber,
+      values,
+      record: validation.record,
+      clientName: validation.references?.clientName,
+      notes: validation.notes
+    })
+  }
+
+  if (!headers || !result) {
+    throw new ValidationError('The file is empty; it needs a header row and at least one data row')
+  }
+  if (options.mode === 'preview') return result
+
+  const resolved = await resolveReferences(supabase, userId, options.entity, pending, addError)
+
+  const upsert = options.upsertByEmail && options.entity === 'clients'
+  const { inserts, updates } = upsert
+    ? await partitionByEmail(supabase, userId, resolved)
+    : { inserts: resolved, updates: [] }
+
+  const plannedUpdates = updates
+    .map(({ existing, pending: row }) => ({ existing, changes: buildClientUpdate(existing, row) }))
+    .filter(({ changes }) => Object.keys(changes).length > 0)
+
+  result.validRows = resolved.length
+  result.created = inserts.length
+  result.updated = plannedUpdates.length
+
+  if (options.mode === 'dry_run') return result
+  if (inserts.length === 0 && plannedUpdates.length === 0 && !updates.some(({ pending: row }) => row.notes)) {
+    return result
+  }
+
+  const { data: batch, error: batchError } = await supabase
+    .from('import_batches')
+    .insert({
+      user_id: userId,
+      entity_type: options.entity,
+      file_name: options.fileName || null,
+      status: 'running',
+      total_rows: result.totalRows,
+      created_ids: [],
+      updated_records: [],
+      related_ids: {}
+    })
+    .select('id')
+    .single()
+
+  if (batchError) {
+    throw new Error(`Failed to start import: ${batchError.message}`)
+  }
+
+  const createdIds: string[] = []
+  const updatedRecords: UpdatedRecord[] = []
+  const relatedIds: RelatedIds = {}
+  const notes: Record<string, any>[] = []
+
+  const queueNote = (content: string | undefined, record: Record<string, any>, recordId: string) => {
+    if (!content) return
+    notes.push(options.entity === 'deals'
+      ? { content, deal_id: recordId, client_id: record.client_id, user_id: userId }
+      : { content, client_id: recordId, user_id: userId })
+  }
+
+  try {
+    for (const rows of chunk(inserts, WRITE_CHUNK_SIZE)) {
+      const { data: inserted, error } = await supabase
+        .from(options.entity)
+        .insert(rows.map(row => ({ ...row.record, user_id: userId })))
+        .select('id')
+
+      if (error) throw new Error(`Rows ${rows[0].row}-${rows[rows.length - 1].row}: ${error.message}`)
+      // Inserted rows come back in the order they were sent
+      ;(inserted || []).forEach((row: { id: string }, index: number) => {
+        createdIds.push(row.id)
+        queueNote(rows[index]?.notes, rows[index]?.record || {}, row.id)
+      })
+    }
+
+    for (const { existing, changes } of plannedUpdates) {
+      const previous = Object.fromEntries(Object.keys(changes).map(key => [key, existing[key] ?? null]))
+      const { error } = await supabase
+        .from(options.entity)
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .eq('user_id', userId)
+
+      if (error) throw new Error(`Updating ${existing.email}: ${error.message}`)
+      updatedRecords.push({ id: existing.id, previous })
+    }
+
+    for (const { existing, pending: row } of updates) {
+      queueNote(row.notes, row.record, existing.id)
+    }
+
+    for (const rows of chunk(notes, WRITE_CHUNK_SIZE)) {
+      const { data: inserted, error } = await supabase.from('notes').insert(rows).select('id')
+      if (error) throw new Error(`Saving notes: ${error.message}`)
+      relatedIds.notes = [...(relatedIds.notes || []), ...(inserted || []).map((note: { id: string }) => note.id)]
+    }
+  } catch (error) {
+    await undoWrites(supabase, userId, options.entity, createdIds, updatedRecords, relatedIds)
+    await supabase
+      .from('import_batches')
+      .update({ status: 'failed', error_count: result.errorCount, completed_at: new Date().toISOString() })
+      .eq('id', batch.id)
+
+    throw error
+  }
+
+  await supabase
+    .from('import_batches')
+    .update({
+      status: 'completed',
+      created_ids: createdIds,
+      updated_records: updatedRecords,
+      related_ids: relatedIds,
+      created_count: createdIds.length,
+      updated_count: updatedRecords.length,
+      error_count: result.errorCount,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', batch.id)
+
+  result.batchId = batch.id
+  result.created = createdIds.length
+  result.updated = updatedRecords.length
+
+  // Awaited so it finishes before the function is frozen; failures are logged
+  // and don't fail an import that has already been written
+  try {
+    if (options.entity === 'clients') {
+      await detectClientDuplicates(supabase, userId, createdIds)
+    } else if (options.entity === 'deals') {
+      await recordImportedDealStages(supabase, userId, createdIds)
+    }
+  } catch (error) {
+    console.error(`Error after importing ${options.entity}:`, error)
+  }
+
+  return result
+}
+
+/**
+ * Roll back a completed import: delete the records and notes it created and
+ * restore the fields it overwrote. Records edited since the import keep those edits only
+ * where the import did not touch the same field
+ */
+export async function rollbackImportBatch(
+  supabase: any,
+  userId: string,
+  batchId: string
+): Promise<ImportBatch> {
+  const { data: batch } = await supabase
+    .from('import_batches')
+    .select('*')
+    .eq('id', batchId)
+    .eq('user_id', userId)
+    .single()
+
+  if (!batch) {
+    throw new NotFoundError('Import')
+  }
+  if (batch.status !== 'completed') {
+    throw new ConflictError(`Only completed imports can be rolled back (this one is ${batch.status.replace('_', ' ')})`)
+  }
+
+  await undoWrites(
+    supabase,
+    userId,
+    batch.entity_type,
+    batch.created_ids || [],
+    batch.updated_records || [],
+    batch.related_ids || {}
+  )
+
+  const { data: rolledBack } = await supabase
+    .from('import_batches')
+    .update({ status: 'rolled_back', rolled_back_at: new Date().toISOString() })
+    .eq('id', batchId)
+    .select()
+    .single()
+
+  return rolledBack || batch
+}
@@ -0,0 +1,379 @@
+/**
+ * Import Entity Definitions
+ * Field catalogue, header aliases and row validation for each importable
+ * record type. Shared by the import engine, the templates endpoint and the
+ * mapping UI, so it must stay free of server-only dependencies.
+ */
+
+export type ImportEntityType = 'clients' | 'deals' | 'tasks'
+
+export interface ImportField {
+  key: string
+  label: string
+  required?: boolean
+  // Lowercased header spellings recognised when suggesting a mapping
+  aliases: string[]
+  description?: string
+  // Several columns may map to this field; their values are joined with this
+  join?: string
+}
+
+export interface ImportEntityDefinition {
+  type: ImportEntityType
+  label: string
+  fields: ImportField[]
+  // At least one of these must be mapped, on top of the required fields
+  requireOneOf?: string[]
+  // Whether unknown columns can be mapped into the record's custom_fields
+  supportsCustomFields: boolean
+  supportsUpsertByEmail: boolean
+}
+
+// Values from one CSV row, keyed by target field; custom fields as custom:<key>
+export type MappedRow = Record<string, string>
+
+// Column header -> target field key, 'custom:<key>', or '' to skip the column
+export type ColumnMapping = Record<string, string>
+
+// Foreign value (lowercased) -> our value, per target field. '*' catches
+// unlisted values; mapping to '' drops the value so the default applies
+export type ValueMaps = Record<string, Record<string, string>>
+
+export interface RowValidationResult {
+  record: Record<string, any> | null
+  errors: string[]
+  // Looked up by the engine after validation (e.g. client_name -> client_id)
+  references?: { clientName?: string }
+  // Written to the notes table against the imported record
+  notes?: string
+}
+
+export const CUSTOM_FIELD_PREFIX = 'custom:'
+
+export const CLIENT_STATUSES = ['Buyer', 'Seller', 'In Contract'] as const
+export const TASK_PRIORITIES = ['Low', 'Medium', 'High'] as const
+export const TASK_STATUSES = ['Pending', 'In Progress', 'Completed'] as const
+export const TASK_TYPES = ['Call', 'Email', 'Meeting', 'Document', 'Follow-up', 'Other'] as const
+
+export const IMPORT_ENTITIES: Record<ImportEntityType, ImportEntityDefinition> = {
+  clients: {
+    type: 'clients',
+    label: 'Clients',
+    requireOneOf: ['name', 'first_name', 'email'],
+    supportsCustomFields: true,
+    supportsUpsertByEmail: true,
+    fields: [
+      { key: 'name', label: 'Full Name', aliases: ['name', 'full name', 'fullname', 'contact name', 'client name'], description: 'Split into first and last name' },
+      { key: 'first_name', label: 'First Name', aliases: ['first name', 'firstname', 'first', 'given name'] },
+      { key: 'last_name', label: 'Last Name', aliases: ['last name', 'lastname', 'last', 'surname', 'family name'] },
+      { key: 'email', label: 'Email', aliases: ['email', 'e-mail', 'email address', 'primary email'] },
+      { key: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'mobile', 'cell', 'mobile phone', 'telephone'] },
+      { key: 'address', label: 'Address', aliases: ['address', 'street address', 'mailing address', 'home address'], join: ', ' },
+      { key: 'company', label: 'Company', aliases: ['company', 'organization', 'organisation', 'company name', 'employer'] },
+      { key: 'status', label: 'Status', aliases: ['status', 'client type', 'type'], description: CLIENT_STATUSES.join(', ') },
+      { key: 'tags', label: 'Tags', aliases: ['tags', 'labels', 'categories'], join: ',', description: 'Comma, semicolon or pipe separated' },
+      { key: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comments', 'background'], join: '\n\n', description: 'Saved as a note on the client' }
+    ]
+  },
+  deals: {
+    type: 'deals',
+    label: 'Deals',
+    supportsCustomFields: true,
+    supportsUpsertByEmail: false,
+    fields: [
+      { key: 'title', label: 'Title', required: true, aliases: ['title', 'deal', 'deal name', 'name'] },
+      { key: 'client_name', label: 'Client Name', required: true, aliases: ['client_name', 'client name', 'client', 'contact', 'contact name'], description: 'Matched to an existing client' },
+      { key: 'value', label: 'Value', required: true, aliases: ['value', 'amount', 'price', 'deal value', 'sale price'] },
+      { key: 'status', label: 'Stage', aliases: ['status', 'stage', 'deal stage'], description: 'A stage in your pipeline' },
+      { key: 'probability', label: 'Probability', aliases: ['probability', 'win probability', 'probability %'], description: '0-100; defaults to the stage\'s probability' },
+      { key: 'property_address', label: 'Property Address', aliases: ['property_address', 'property address', 'address'], join: ', ' },
+      { key: 'property_type', label: 'Property Type', aliases: ['property_type', 'property type'] },
+      { key: 'expected_close_date', label: 'Expected Close Date', aliases: ['expected_close_date', 'expected close date', 'close date', 'closing date'], description: 'YYYY-MM-DD' },
+      { key: 'commission', label: 'Commission', aliases: ['commission', 'commission amount'] },
+      { key: 'notes', label: 'Notes', aliases: ['notes', 'note', 'description', 'comments'], join: '\n\n', description: 'Saved as a note on the deal' }
+    ]
+  },
+  tasks: {
+    type: 'tasks',
+    label: 'Tasks',
+    supportsCustomFields: false,
+    supportsUpsertByEmail: false,
+    fields: [
+      { key: 'title', label: 'Title', required: true, aliases: ['title', 'task', 'subject', 'name'] },
+      { key: 'description', label: 'Description', aliases: ['description', 'notes', 'details'] },
+      { key: 'due_date', label: 'Due Date', aliases: ['due_date', 'due date', 'due', 'deadline'], description: 'YYYY-MM-DD' },
+      { key: 'priority', label: 'Priority', aliases: ['priority'], description: TASK_PRIORITIES.join(', ') },
+      { key: 'status', label: 'Status', aliases: ['status'], description: TASK_STATUSES.join(', ') },
+      { key: 'type', label: 'Type', aliases: ['type', 'task type'], description: TASK_TYPES.join(', ') },
+      { key: 'client_name', label: 'Client Name', aliases: ['client_name', 'client name', 'client', 'contact'], description: 'Matched to an existing client' }
+    ]
+  }
+}
+
+export function isImportEntityType(value: string | null | undefined): value is ImportEntityType {
+  return !!value && value in IMPORT_ENTITIES
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_\s]+/g, ' ')
+}
+
+export function toCustomFieldKey(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+}
+
+/**
+ * Suggest a mapping from the CSV headers; each field is used at most once and
+ * unrecognised columns are skipped
+ */
+export function suggestColumnMapping(headers: string[], entity: ImportEntityType): ColumnMapping {
+  const { fields } = IMPORT_ENTITIES[entity]
+  const used = new Set<string>()
+  const mapping: ColumnMapping = {}
+
+  for (const header of headers) {
+    const normalized = normalizeHeader(header)
+    const field = fields.find(candidate =>
+      !used.has(candidate.key) &&
+      (candidate.key === normalized.replace(/ /g, '_') || candidate.aliases.some(alias => normalizeHeader(alias) === normalized))
+    )
+    mapping[header] = field?.key || ''
+    if (field) used.add(field.key)
+  }
+
+  return mapping
+}
+
+/**
+ * Check a mapping covers the entity's required fields; returns error messages
+ */
+export function validateColumnMapping(mapping: ColumnMapping, entity: ImportEntityType): string[] {
+  const definition = IMPORT_ENTITIES[entity]
+  const targets = Object.values(mapping).filter(Boolean)
+  const errors: string[] = []
+
+  for (const field of definition.fields.filter(candidate => candidate.required)) {
+    if (!targets.includes(field.key)) errors.push(`${field.label} must be mapped to a column`)
+  }
+
+  if (definition.requireOneOf && !definition.requireOneOf.some(key => targets.includes(key))) {
+    const labels = definition.requireOneOf.map(key => definition.fields.find(field => field.key === key)?.label || key)
+    errors.push(`Map at least one of: ${labels.join(', ')}`)
+  }
+
+  const joinable = new Set(definition.fields.filter(field => field.join).map(field => field.key))
+  const duplicates = targets.filter((target, index) => !joinable.has(target) && targets.indexOf(target) !== index)
+  for (const target of [...new Set(duplicates)]) {
+    errors.push(`More than one column is mapped to ${target}`)
+  }
+
+  if (!definition.supportsCustomFields && targets.some(target => target.startsWith(CUSTOM_FIELD_PREFIX))) {
+    errors.push(`${definition.label} do not support custom fields`)
+  }
+
+  return errors
+}
+
+export function applyColumnMapping(
+  headers: string[],
+  row: string[],
+  mapping: ColumnMapping,
+  entity: ImportEntityType,
+  valueMaps: ValueMaps = {}
+): MappedRow {
+  const { fields } = IMPORT_ENTITIES[entity]
+  const collected: Record<string, { header: string; value: string }[]> = {}
+
+  headers.forEach((header, index) => {
+    const target = mapping[header]
+    if (!target) return
+    const value = (row[index] ?? '').trim()
+    if (value !== '') (collected[target] ||= []).push({ header, value })
+  })
+
+  const mapped: MappedRow = {}
+  for (const [target, values] of Object.entries(collected)) {
+    const join = fields.find(field => field.key === target)?.join
+    // Several note columns keep their header so the note stays readable
+    mapped[target] = join === undefined
+      ? values[values.length - 1].value
+      : values.map(({ header, value }) => target === 'notes' && values.length > 1 ? `${header}: ${value}` : value).join(join)
+
+    const translations = valueMaps[target]
+    if (translations) {
+      const translated = translations[mapped[target].toLowerCase()] ?? translations['*']
+      if (translated === '') delete mapped[target]
+      else if (translated !== undefined) mapped[target] = translated
+    }
+  }
+
+  return mapped
+}
+
+function matchOption<T extends string>(options: readonly T[], value: string): T | undefined {
+  const normalized = value.trim().toLowerCase().replace(/[_-]+/g, ' ')
+  return options.find(option => option.toLowerCase().replace(/[_-]+/g, ' ') === normalized)
+}
+
+function parseAmount(value: string): number | null {
+  const amount = parseFloat(value.replace(/[$,\s]/g, ''))
+  return Number.isFinite(amount) && amount >= 0 ? amount : null
+}
+
+// Accepts YYYY-MM-DD and US-style M/D/YYYY
+function parseDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : us ? [us[3], us[1], us[2]] : []
+  if (!year) return null
+
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)))
+  if (Number.isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) return null
+  return date.toISOString().split('T')[0]
+}
+
+function splitFullName(name: string): { first_name: string; last_name: string } {
+  const parts = name.trim().split(/\s+/)
+  if (parts.length === 1) return { first_name: parts[0], last_name: '' }
+  return { first_name: parts.slice(0, -1).join(' '), last_name: parts[parts.length - 1] }
+}
+
+function parseTags(value: string | undefined): string[] | undefined {
+  if (!value) return undefined
+  const tags = [...new Set(value.split(/[,;|]/).map(tag => tag.trim()).filter(Boolean))]
+  return tags.length > 0 ? tags : undefined
+}
+
+function collectCustomFields(row: MappedRow): Record<string, string> | undefined {
+  const entries = Object.entries(row)
+    .filter(([key]) => key.startsWith(CUSTOM_FIELD_PREFIX))
+    .map(([key, value]) => [key.slice(CUSTOM_FIELD_PREFIX.length), value])
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+function validateClientRow(row: MappedRow): RowValidationResult {
+  const errors: string[] = []
+  const names = row.first_name || row.last_name
+    ? { first_name: row.first_name || '', last_name: row.last_name || '' }
+    : row.name ? splitFullName(row.name) : { first_name: '', last_name: '' }
+
+  if (!names.first_name && !names.last_name && !row.email) {
+    errors.push('Missing both name and email')
+  }
+  if (row.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(row.email)) {
+    errors.push(`Invalid email "${row.email}"`)
+  }
+  if (names.first_name.length > 50 || names.last_name.length > 50) {
+    errors.push('Name too long')
+  }
+
+  let status: string = 'Buyer'
+  if (row.status) {
+    const matched = matchOption(CLIENT_STATUSES, row.status)
+    if (matched) status = matched
+    else errors.push(`Unknown status "${row.status}" (expected ${CLIENT_STATUSES.join(', ')})`)
+  }
+
+  if (errors.length > 0) return { record: null, errors }
+
+  const fullName = `${names.first_name} ${names.last_name}`.trim()
+  return {
+    errors,
+    record: {
+      first_name: names.first_name || null,
+      last_name: names.last_name || null,
+      name: fullName || row.email,
+      email: row.email ? row.email.toLowerCase() : null,
+      phone: row.phone || null,
+      address: row.address || null,
+      company: row.company || null,
+      status,
+      tags: parseTags(row.tags),
+      custom_fields: collectCustomFields(row)
+    },
+    notes: row.notes
+  }
+}
+
+function validateDealRow(row: MappedRow): RowValidationResult {
+  const errors: string[] = []
+  if (!row.title) errors.push('Missing title')
+  if (!row.client_name) errors.push('Missing client name')
+
+  const value = row.value ? parseAmount(row.value) : null
+  if (row.value === undefined) errors.push('Missing value')
+  else if (value === null) errors.push(`Invalid value "${row.value}"`)
+
+  const commission = row.commission ? parseAmount(row.commission) : null
+  if (row.commission && commission === null) errors.push(`Invalid commission "${row.commission}"`)
+
+  const closeDate = row.expected_close_date ? parseDate(row.expected_close_date) : null
+  if (row.expected_close_date && !closeDate) errors.push(`Invalid expected close date "${row.expected_close_date}"`)
+
+  const probability = row.probability ? parseAmount(row.probability.replace('%', '')) : null
+  if (row.probability && (probability === null || probability > 100)) errors.push(`Invalid probability "${row.probability}" (expected 0-100)`)
+
+  if (errors.length > 0) return { record: null, errors }
+
+  return {
+    errors,
+    references: { clientName: row.client_name },
+    record: {
+      title: row.title,
+      value,
+      // Resolved against the pipeline by the engine
+      status: row.status || null,
+      // Left null for the engine to fill from the stage
+      probability,
+      property_address: row.property_address || null,
+      property_type: row.property_type || null,
+      expected_close_date: closeDate,
+      commission,
+      custom_fields: collectCustomFields(row)
+    },
+    notes: row.notes
+  }
+}
+
+function validateTaskRow(row: MappedRow): RowValidationResult {
+  const errors: string[] = []
+  if (!row.title) errors.push('Missing title')
+  else if (row.title.length > 200) errors.push('Title too long')
+
+  const dueDate = row.due_date ? parseDate(row.due_date) : null
+  if (row.due_date && !dueDate) errors.push(`Invalid due date "${row.due_date}"`)
+
+  const priority = row.priority ? matchOption(TASK_PRIORITIES, row.priority) : 'Medium'
+  if (!priority) errors.push(`Unknown priority "${row.priority}" (expected ${TASK_PRIORITIES.join(', ')})`)
+
+  const status = row.status ? matchOption(TASK_STATUSES, row.status) : 'Pending'
+  if (!status) errors.push(`Unknown status "${row.status}" (expected ${TASK_STATUSES.join(', ')})`)
+
+  const type = row.type ? matchOption(TASK_TYPES, row.type) : 'Other'
+  if (!type) errors.push(`Unknown type "${row.type}" (expected ${TASK_TYPES.join(', ')})`)
+
+  if (errors.length > 0) return { record: null, errors }
+
+  return {
+    errors,
+    references: row.client_name ? { clientName: row.client_name } : undefined,
+    record: {
+      title: row.title,
+      description: row.description || null,
+      due_date: dueDate,
+      priority,
+      status,
+      type
+    }
+  }
+}
+
+export function validateImportRow(entity: ImportEntityType, row: MappedRow): RowValidationResult {
+  switch (entity) {
+    case 'clients': return validateClientRow(row)
+    case 'deals': return validateDealRow(row)
+    case 'tasks': return validateTaskRow(row)
+  }
+}
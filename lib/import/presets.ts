@@ -0,0 +1,251 @@
+/**
+ * Import Presets
+ * Column layouts and value vocabularies of other real-estate CRMs' CSV
+ * exports, so a file exported elsewhere imports without manual mapping.
+ * Tenants can save their own mappings alongside the built-in presets.
+ */
+
+import {
+  IMPORT_ENTITIES,
+  type ColumnMapping,
+  type ImportEntityType,
+  type ValueMaps
+} from '@/lib/import/entities'
+
+export interface ImportPreset {
+  id: string
+  name: string
+  // The product the export comes from, shown alongside the name
+  source: string | null
+  entity: ImportEntityType
+  description: string | null
+  // Foreign column header -> our field, as in a column mapping
+  columns: ColumnMapping
+  valueMaps: ValueMaps
+  builtIn: boolean
+  createdBy?: string | null
+}
+
+// Client statuses in those CRMs are lead stages; only a live contract maps onto ours
+const CONTRACT_STAGE_MAP: Record<string, string> = {
+  'under contract': 'In Contract',
+  'pending': 'In Contract',
+  'in escrow': 'In Contract',
+  '*': ''
+}
+
+const LEAD_TYPE_MAP: Record<string, string> = {
+  buyer: 'Buyer',
+  seller: 'Seller',
+  'buyer/seller': 'Buyer',
+  both: 'Buyer',
+  '*': ''
+}
+
+export const BUILT_IN_IMPORT_PRESETS: ImportPreset[] = [
+  {
+    id: 'follow_up_boss_people',
+    name: 'Follow Up Boss - People',
+    source: 'Follow Up Boss',
+    entity: 'clients',
+    description: 'People export, including tags, background and address columns',
+    builtIn: true,
+    columns: {
+      'First Name': 'first_name',
+      'Last Name': 'last_name',
+      'Email 1': 'email',
+      'Phone 1': 'phone',
+      'Address 1 - Street': 'address',
+      'Address 1 - City': 'address',
+      'Address 1 - State': 'address',
+      'Address 1 - Zip': 'address',
+      'Stage': 'status',
+      'Tags': 'tags',
+      'Background': 'notes',
+      'Notes': 'notes'
+    },
+    valueMaps: { status: CONTRACT_STAGE_MAP }
+  },
+  {
+    id: 'follow_up_boss_deals',
+    name: 'Follow Up Boss - Deals',
+    source: 'Follow Up Boss',
+    entity: 'deals',
+    description: 'Deals export; people are matched to existing clients by name',
+    builtIn: true,
+    columns: {
+      'Deal Name': 'title',
+      'People': 'client_name',
+      'Price': 'value',
+      'Stage': 'status',
+      'Property Street': 'property_address',
+      'Property City': 'property_address',
+      'Property State': 'property_address',
+      'Property Zip': 'property_address',
+      'Projected Close Date': 'expected_close_date',
+      'Commission': 'commission',
+      'Description': 'notes'
+    },
+    valueMaps: {
+      status: {
+        'offer': 'In Progress',
+        'active': 'In Progress',
+        'under contract': 'Under Contract',
+        'pending': 'Under Contract',
+        'closed': 'Closed',
+        'lost': 'Lost',
+        'terminated': 'Lost',
+        '*': ''
+      }
+    }
+  },
+  {
+    id: 'follow_up_boss_tasks',
+    name: 'Follow Up Boss - Tasks',
+    source: 'Follow Up Boss',
+    entity: 'tasks',
+    description: 'Tasks export; completed tasks import as Completed',
+    builtIn: true,
+    columns: {
+      'Name': 'title',
+      'Type': 'type',
+      'Due Date': 'due_date',
+      'Completed': 'status',
+      'Person': 'client_name',
+      'Note': 'description'
+    },
+    valueMaps: {
+      status: { yes: 'Completed', true: 'Completed', no: 'Pending', false: 'Pending', '*': '' },
+      type: {
+        call: 'Call',
+        email: 'Email',
+        text: 'Follow-up',
+        'follow up': 'Follow-up',
+        appointment: 'Meeting',
+        showing: 'Meeting',
+        'closing help': 'Document',
+        '*': 'Other'
+      }
+    }
+  },
+  {
+    id: 'kvcore_contacts',
+    name: 'kvCORE - Contacts',
+    source: 'kvCORE',
+    entity: 'clients',
+    description: 'Contacts export with lead type, hashtags and notes',
+    builtIn: true,
+    columns: {
+      'First Name': 'first_name',
+      'Last Name': 'last_name',
+      'Email': 'email',
+      'Cell Phone': 'phone',
+      'Primary Address': 'address',
+      'Primary City': 'address',
+      'Primary State': 'address',
+      'Primary Zip': 'address',
+      'Lead Type': 'status',
+      'Hashtags': 'tags',
+      'Notes': 'notes'
+    },
+    valueMaps: { status: LEAD_TYPE_MAP }
+  },
+  {
+    id: 'liondesk_contacts',
+    name: 'LionDesk - Contacts',
+    source: 'LionDesk',
+    entity: 'clients',
+    description: 'Contacts export with tags and notes',
+    builtIn: true,
+    columns: {
+      'First Name': 'first_name',
+      'Last Name': 'last_name',
+      'Email': 'email',
+      'Mobile Phone': 'phone',
+      'Street Address': 'address',
+      'City': 'address',
+      'State': 'address',
+      'Zip': 'address',
+      'Company': 'company',
+      'Tags': 'tags',
+      'Notes': 'notes'
+    },
+    valueMaps: {}
+  },
+  {
+    id: 'wise_agent_contacts',
+    name: 'Wise Agent - Contacts',
+    source: 'Wise Agent',
+    entity: 'clients',
+    description: 'Contacts export; categories become tags',
+    builtIn: true,
+    columns: {
+      'First Name': 'first_name',
+      'Last Name': 'last_name',
+      'Email': 'email',
+      'Cell Phone': 'phone',
+      'Address': 'address',
+      'City': 'address',
+      'State': 'address',
+      'Zip': 'address',
+      'Company': 'company',
+      'Contact Type': 'status',
+      'Categories': 'tags',
+      'Notes': 'notes'
+    },
+    valueMaps: { status: LEAD_TYPE_MAP }
+  }
+]
+
+export function getBuiltInPresets(entity?: ImportEntityType): ImportPreset[] {
+  return entity ? BUILT_IN_IMPORT_PRESETS.filter(preset => preset.entity === entity) : BUILT_IN_IMPORT_PRESETS
+}
+
+function headerKey(header: string) {
+  return header.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * Map a file's headers through a preset. Headers the preset does not know
+ * are skipped; they can still be mapped by hand
+ */
+export function getPresetColumnMapping(headers: string[], preset: ImportPreset): ColumnMapping {
+  const columns = new Map(Object.entries(preset.columns).map(([header, target]) => [headerKey(header), target]))
+  return Object.fromEntries(headers.map(header => [header, columns.get(headerKey(header)) || '']))
+}
+
+/**
+ * Share of a preset's columns present in the file, used to suggest a preset
+ */
+export function getPresetMatchScore(headers: string[], preset: ImportPreset): number {
+  const present = new Set(headers.map(headerKey))
+  const columns = Object.keys(preset.columns)
+  if (columns.length === 0) return 0
+  return columns.filter(column => present.has(headerKey(column))).length / columns.length
+}
+
+/**
+ * Keep only mappings and value maps that target real fields of the entity,
+ * so a saved preset cannot smuggle arbitrary columns into an insert
+ */
+export function sanitizePreset(
+  entity: ImportEntityType,
+  columns: ColumnMapping,
+  valueMaps: ValueMaps = {}
+): { columns: ColumnMapping; valueMaps: ValueMaps } {
+  const definition = IMPORT_ENTITIES[entity]
+  const fieldKeys = new Set(definition.fields.map(field => field.key))
+  const isTarget = (target: string) =>
+    fieldKeys.has(target) || (definition.supportsCustomFields && /^custom:[a-z0-9_]+$/.test(target))
+
+  return {
+    columns: Object.fromEntries(Object.entries(columns).filter(([, target]) => target && isTarget(target))),
+    valueMaps: Object.fromEntries(
+      Object.entries(valueMaps)
+        .filter(([field]) => fieldKeys.has(field))
+        .map(([field, values]) => [field, Object.fromEntries(
+          Object.entries(values).map(([from, to]) => [from.trim().toLowerCase(), to])
+        )])
+    )
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Saved Import Presets - server-side storage of tenant-defined presets
+ */
+
+import { ConflictError, NotFoundError } from '@/lib/errors'
+import { getActiveTenantId } from '@/lib/pipeline/definitions'
+import { type ImportEntityType, type ColumnMapping, type ValueMaps } from '@/lib/import/entities'
+import { getBuiltInPresets, sanitizePreset, type ImportPreset } from '@/lib/import/presets'
+
+export interface SaveImportPresetInput {
+  name: string
+  entity: ImportEntityType
+  source?: string | null
+  description?: string | null
+  columns: ColumnMapping
+  valueMaps?: ValueMaps
+}
+
+function toPreset(row: any): ImportPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    source: row.source || null,
+    entity: row.entity_type,
+    description: row.description || null,
+    columns: row.column_mapping || {},
+    valueMaps: row.value_maps || {},
+    builtIn: false,
+    createdBy: row.created_by
+  }
+}
+
+// Presets are shared across the tenant; users without one keep their own
+async function scopeQuery(supabase: any, userId: string, query: any) {
+  const tenantId = await getActiveTenantId(supabase, userId)
+  return tenantId
+    ? query.eq('tenant_id', tenantId)
+    : query.is('tenant_id', null).eq('created_by', userId)
+}
+
+export async function getImportPresets(
+  supabase: any,
+  userId: string,
+  entity?: ImportEntityType
+): Promise<ImportPreset[]> {
+  let query = supabase
+    .from('import_presets')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (entity) query = query.eq('entity_type', entity)
+
+  const { data, error } = await scopeQuery(supabase, userId, query)
+  if (error) {
+    console.error('Error fetching import presets:', error)
+  }
+
+  return [...getBuiltInPresets(entity), ...(data || []).map(toPreset)]
+}
+
+export async function getImportPreset(
+  supabase: any,
+  userId: string,
+  presetId: string,
+  entity: ImportEntityType
+): Promise<ImportPreset> {
+  const builtIn = getBuiltInPresets(entity).find(preset => preset.id === presetId)
+  if (builtIn) return builtIn
+
+  const query = supabase
+    .from('import_presets')
+    .select('*')
+    .eq('id', presetId)
+    .eq('entity_type', entity)
+
+  const { data } = await (await scopeQuery(supabase, userId, query)).maybeSingle()
+  if (!data) {
+    throw new NotFoundError('Import preset')
+  }
+
+  return toPreset(data)
+}
+
+export async function saveImportPreset(
+  supabase: any,
+  userId: string,
+  input: SaveImportPresetInput
+): Promise<ImportPreset> {
+  const tenantId = await getActiveTenantId(supabase, userId)
+  const { columns, valueMaps } = sanitizePreset(input.entity, input.columns, input.valueMaps)
+
+  const { data, error } = await supabase
+    .from('import_presets')
+    .insert({
+      tenant_id: tenantId,
+      created_by: userId,
+      name: input.name.trim(),
+      source: input.source?.trim() || null,
+      entity_type: input.entity,
+      description: input.description?.trim() || null,
+      column_mapping: columns,
+      value_maps: valueMaps
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // Unique on (tenant_id, entity_type, name)
+    if (error.code === '23505') {
+      throw new ConflictError(`A preset named "${input.name.trim()}" already exists`)
+    }
+    throw new Error(`Failed to save preset: ${error.message}`)
+  }
+
+  return toPreset(data)
+}
+
+// Only the member who saved a preset can remove it
+export async function deleteImportPreset(supabase: any, userId: string, presetId: string): Promise<void> {
+  const { data } = await supabase
+    .from('import_presets')
+    .delete()
+    .eq('id', presetId)
+    .eq('created_by', userId)
+    .select('id')
+
+  if (!data || data.length === 0) {
+    throw new NotFoundError('Import preset')
+  }
+}
@@ -7,6 +7,9 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { LeadScoringService } from '@/lib/lead-scoring/lead-service'
+import { getPipelineForUser, getUserPipelines } from '@/lib/pipeline/definitions'
+import { recordStageTransition } from '@/lib/pipeline/stage-history'
+import { getInitialStage, getStageCategory, resolvePipeline, DEFAULT_PIPELINE_ID } from '@/lib/pipeline/stages'
 
 export interface LeadConversionResult {
   success: boolean
@@ -35,6 +38,27 @@ export class LeadConversionService {
     timeThreshold: 30
   }
 
+  /**
+   * Clients with a deal still in an open stage of its pipeline. Stages are
+   * configurable per tenant, so this goes by stage category, not status name
+   */
+  private static async getOpenDealClientIds(supabase: any, userId: string, clientId?: string): Promise<Set<string>> {
+    let query = supabase
+      .from('deals')
+      .select('client_id, status, pipeline_id')
+      .eq('user_id', userId)
+
+    if (clientId) query = query.eq('client_id', clientId)
+
+    const [{ data: deals }, pipelines] = await Promise.all([query, getUserPipelines(supabase, userId)])
+
+    return new Set<string>(
+      (deals || [])
+        .filter((deal: any) => getStageCategory(resolvePipeline(pipelines, deal.pipeline_id).stages, deal.status) === 'open')
+        .map((deal: any) => deal.client_id)
+    )
+  }
+
   /**
    * Checks if a lead is ready for conversion to deal
    */
@@ -117,28 +141,25 @@ export class LeadConversionService {
       const leadScore = await LeadScoringService.getLeadScore(userId, clientId)
 
       // Check if client already has an active deal
-      const { data: existingDeals } = await supabase
-        .from('deals')
-        .select('id, status')
-        .eq('user_id', userId)
-        .eq('client_id', clientId)
-        .in('status', ['Qualified', 'In Progress', 'Under Contract'])
-
-      if (existingDeals && existingDeals.length > 0) {
+      const openDealClientIds = await this.getOpenDealClientIds(supabase, userId, clientId)
+      if (openDealClientIds.has(clientId)) {
         return {
           success: false,
           error: 'Client already has an active deal'
         }
       }
 
-      // Create the deal (converted from lead)
+      // Create the deal (converted from lead) in the first stage of the user's pipeline
+      const pipeline = await getPipelineForUser(supabase, userId)
+      const stage = getInitialStage(pipeline.stages)
       const { data: deal, error: dealError } = await supabase
         .from('deals')
         .insert({
           ...dealData,
           client_id: clientId,
           user_id: userId,
-          status: 'Qualified', // Industry standard: qualified leads become qualified deals
+          status: stage.name,
+          pipeline_id: pipeline.id === DEFAULT_PIPELINE_ID ? null : pipeline.id,
           probability: Math.min(leadScore?.current_score || 50, 90), // Use lead score for initial probability
           created_at: new Date().toISOString()
         })
@@ -152,6 +173,16 @@ export class LeadConversionService {
         }
       }
 
+      // Opening entry so time-in-stage is measured from creation
+      await recordStageTransition(supabase, {
+        dealId: deal.id,
+        userId,
+        changedBy: userId,
+        fromStage: null,
+        toStage: stage.name,
+        pipelineId: deal.pipeline_id
+      })
+
       // Record lead conversion activity
       await LeadScoringService.recordActivityWithScoring(
         userId,
@@ -219,13 +250,7 @@ export class LeadConversionService {
       if (!leadScores) return []
 
       // Filter leads that don't already have active deals
-      const { data: existingDeals } = await supabase
-        .from('deals')
-        .select('client_id')
-        .eq('user_id', userId)
-        .in('status', ['Qualified', 'In Progress', 'Under Contract'])
-
-      const dealsClientIds = new Set(existingDeals?.map(d => d.client_id) || [])
+      const dealsClientIds = await this.getOpenDealClientIds(supabase, userId)
 
       // Filter and check qualification criteria
       const qualifiedLeads = []
@@ -11,7 +11,8 @@ import {
   NotificationStats,
   NotificationPreferences,
   defaultNotificationPreferences,
-  NotificationData
+  NotificationData,
+  NotificationAction
 } from '@/lib/notifications/types'
 import { logger } from '@/lib/errors'
 
@@ -302,19 +303,81 @@ export class NotificationManager {
     })
   }
 
-  async taskReminder(taskId: string, title: string, message: string, userId: string): Promise<BaseNotification> {
+  async taskReminder(
+    taskId: string,
+    title: string,
+    message: string,
+    userId: string,
+    options: { channels?: NotificationChannel[]; data?: NotificationData; actions?: NotificationAction[] } = {}
+  ): Promise<BaseNotification> {
     return this.send({
       type: 'task_reminder',
       priority: 'high',
       title,
       message,
       userId,
-      channels: ['in_app', 'email', 'push'],
+      channels: options.channels || ['in_app', 'email', 'push'],
+      data: options.data,
+      entityType: 'task',
+      entityId: taskId,
+      actions: options.actions,
+    })
+  }
+
+  async overdueTaskDigest(
+    title: string,
+    message: string,
+    userId: string,
+    channels: NotificationChannel[],
+    data?: NotificationData
+  ): Promise<BaseNotification> {
+    return this.send({
+      type: 'task_reminder',
+      priority: 'medium',
+      title,
+      message,
+      userId,
+      channels,
+      data,
+      entityType: 'task_digest',
+    })
+  }
+
+  async taskUnblocked(taskId: string, title: string, message: string, userId: string, data?: NotificationData): Promise<BaseNotification> {
+    return this.send({
+      type: 'task_reminder',
+      priority: 'medium',
+      title,
+      message,
+      userId,
+      channels: ['in_app', 'email'],
+      data,
       entityType: 'task',
       entityId: taskId,
     })
   }
 
+  async deadlineAlert(
+    contingencyId: string,
+    title: string,
+    message: string,
+    userId: string,
+    priority: NotificationPriority,
+    data?: NotificationData
+  ): Promise<BaseNotification> {
+    return this.send({
+      type: 'milestone',
+      priority,
+      title,
+      message,
+      userId,
+      channels: priority === 'medium' ? ['in_app', 'email'] : ['in_app', 'email', 'push'],
+      data,
+      entityType: 'transaction_contingency',
+      entityId: contingencyId,
+    })
+  }
+
   // Get notifications for user
   async getUserNotifications(userId: string, filter?: NotificationFilter): Promise<BaseNotification[]> {
     const userNotifications = Array.from(this.notifications.values())
@@ -0,0 +1,74 @@
+/**
+ * Pipeline Definitions - server-side loading of tenant pipelines
+ * Tenants without their own definitions fall back to DEFAULT_PIPELINE
+ */
+
+import { DEFAULT_PIPELINE, resolvePipeline, type PipelineDefinition } from '@/lib/pipeline/stages'
+
+/**
+ * Resolve the tenant a user is working in (their oldest active membership)
+ */
+export async function getActiveTenantId(supabase: any, userId: string): Promise<string | null> {
+  const { data: memberships, error } = await supabase
+    .from('tenant_members')
+    .select('tenant_id')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .order('joined_at', { ascending: true })
+    .limit(1)
+
+  if (error || !memberships || memberships.length === 0) {
+    return null
+  }
+
+  return memberships[0].tenant_id
+}
+
+/**
+ * Load the ordered pipeline definitions for a tenant
+ */
+export async function getTenantPipelines(supabase: any, tenantId: string | null): Promise<PipelineDefinition[]> {
+  if (!tenantId) return [DEFAULT_PIPELINE]
+
+  const { data, error } = await supabase
+    .from('pipeline_definitions')
+    .select('id, tenant_id, name, stages, is_default, position')
+    .eq('tenant_id', tenantId)
+    .order('position', { ascending: true })
+
+  if (error) {
+    console.error('Error loading pipeline definitions:', error)
+    return [DEFAULT_PIPELINE]
+  }
+
+  if (!data || data.length === 0) return [DEFAULT_PIPELINE]
+
+  return data.map((row: any) => ({
+    id: row.id,
+    tenant_id: row.tenant_id,
+    name: row.name,
+    stages: Array.isArray(row.stages) ? row.stages : [],
+    is_default: !!row.is_default,
+    position: row.position ?? 0
+  }))
+}
+
+/**
+ * Load the pipelines visible to a user through their active tenant
+ */
+export async function getUserPipelines(supabase: any, userId: string): Promise<PipelineDefinition[]> {
+  const tenantId = await getActiveTenantId(supabase, userId)
+  return getTenantPipelines(supabase, tenantId)
+}
+
+/**
+ * Load the pipeline a deal belongs to (or the tenant default)
+ */
+export async function getPipelineForUser(
+  supabase: any,
+  userId: string,
+  pipelineId?: string | null
+): Promise<PipelineDefinition> {
+  const pipelines = await getUserPipelines(supabase, userId)
+  return resolvePipeline(pipelines, pipelineId)
+}
@@ -0,0 +1,169 @@
+/**
+ * Deal Stage History
+ * Records every stage transition for a deal and derives velocity, conversion
+ * and bottleneck metrics from the real transition log
+ */
+
+import { type PipelineStage } from '@/lib/pipeline/stages'
+
+export interface DealStageTransition {
+  id: string
+  deal_id: string
+  user_id: string
+  pipeline_id: string | null
+  from_stage: string | null
+  to_stage: string
+  changed_by: string
+  changed_at: string
+  reason: string | null
+}
+
+export interface StageStay {
+  deal_id: string
+  stage: string
+  entered_at: string
+  exited_at: string | null
+  next_stage: string | null
+  duration_days: number
+}
+
+export interface StageMetrics {
+  stage: string
+  entered_count: number
+  current_count: number
+  avg_time_in_stage: number
+  conversion_rate: number
+  loss_rate: number
+}
+
+export interface RecordTransitionInput {
+  dealId: string
+  userId: string
+  changedBy: string
+  fromStage: string | null
+  toStage: string
+  pipelineId?: string | null
+  reason?: string | null
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+/**
+ * Append a transition to deal_stage_history
+ * Failures are logged rather than thrown so a history write never blocks the deal update
+ */
+export async function recordStageTransition(supabase: any, input: RecordTransitionInput): Promise<DealStageTransition | null> {
+  if (input.fromStage === input.toStage) return null
+
+  const { data, error } = await supabase
+    .from('deal_stage_history')
+    .insert({
+      deal_id: input.dealId,
+      user_id: input.userId,
+      changed_by: input.changedBy,
+      pipeline_id: input.pipelineId ?? null,
+      from_stage: input.fromStage,
+      to_stage: input.toStage,
+      reason: input.reason || null,
+      changed_at: new Date().toISOString()
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error recording stage transition:', error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Turn an ordered transition log into stage stays (time spent in each stage)
+ * The last stay of each deal is open-ended and measured up to `now`
+ */
+export function buildStageStays(transitions: DealStageTransition[], now: Date = new Date()): StageStay[] {
+  const byDeal = new Map<string, DealStageTransition[]>()
+  transitions.forEach(transition => {
+    const list = byDeal.get(transition.deal_id) || []
+    list.push(transition)
+    byDeal.set(transition.deal_id, list)
+  })
+
+  const stays: StageStay[] = []
+
+  byDeal.forEach((dealTransitions, dealId) => {
+    const ordered = [...dealTransitions].sort(
+      (a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime()
+    )
+
+    ordered.forEach((transition, index) => {
+      const next = ordered[index + 1]
+      const enteredAt = new Date(transition.changed_at)
+      const exitedAt = next ? new Date(next.changed_at) : null
+
+      stays.push({
+        deal_id: dealId,
+        stage: transition.to_stage,
+        entered_at: transition.changed_at,
+        exited_at: next ? next.changed_at : null,
+        next_stage: next ? next.to_stage : null,
+        duration_days: Math.max(0, ((exitedAt || now).getTime() - enteredAt.getTime()) / DAY_MS)
+      })
+    })
+  })
+
+  return stays
+}
+
+/**
+ * Days the deal has spent in its current stage, or null without history
+ */
+export function getDaysInCurrentStage(transitions: DealStageTransition[], now: Date = new Date()): number | null {
+  if (transitions.length === 0) return null
+  const latest = transitions.reduce((a, b) => new Date(a.changed_at) > new Date(b.changed_at) ? a : b)
+  return Math.floor((now.getTime() - new Date(latest.changed_at).getTime()) / DAY_MS)
+}
+
+/**
+ * Per-stage velocity and conversion from the transition log
+ * A stay converts when the deal next moves to a later stage in the pipeline order
+ * (or straight to a won stage); it is lost when the next stage is a lost stage
+ */
+export function calculateStageMetrics(
+  transitions: DealStageTransition[],
+  stages: PipelineStage[],
+  now: Date = new Date()
+): StageMetrics[] {
+  const stays = buildStageStays(transitions, now)
+  const position = new Map(stages.map((stage, index) => [stage.name.toLowerCase(), index]))
+  const category = new Map(stages.map(stage => [stage.name.toLowerCase(), stage.category]))
+
+  return stages.map(stage => {
+    const key = stage.name.toLowerCase()
+    const stageStays = stays.filter(stay => stay.stage.toLowerCase() === key)
+    const exited = stageStays.filter(stay => stay.next_stage)
+    const current = stageStays.filter(stay => !stay.next_stage)
+
+    const converted = exited.filter(stay => {
+      const nextKey = stay.next_stage!.toLowerCase()
+      if (category.get(nextKey) === 'won') return true
+      if (category.get(nextKey) === 'lost') return false
+      return (position.get(nextKey) ?? -1) > (position.get(key) ?? -1)
+    })
+    const lost = exited.filter(stay => category.get(stay.next_stage!.toLowerCase()) === 'lost')
+
+    const avgTime = stageStays.length > 0
+      ? stageStays.reduce((sum, stay) => sum + stay.duration_days, 0) / stageStays.length
+      : 0
+
+    return {
+      stage: stage.name,
+      entered_count: stageStays.length,
+      current_count: current.length,
+      avg_time_in_stage: Math.round(avgTime * 10) / 10,
+      conversion_rate: exited.length > 0 ? Math.round((converted.length / exited.length) * 100) : 0,
+      loss_rate: exited.length > 0 ? Math.round((lost.length / exited.length) * 100) : 0
+    }
+  })
+}
@@ -0,0 +1,144 @@
+// Pipeline stage definitions shared by the deals API, analytics and the pipeline boards.
+// Safe to import from client components - no server-only dependencies.
+
+export type StageCategory = 'open' | 'won' | 'lost'
+
+export interface PipelineStage {
+  id: string
+  name: string
+  category: StageCategory
+  probability: number
+  color: string
+  // Transition guards - see lib/pipeline/transition-guards.ts
+  requires_transaction?: boolean
+  requires_reason?: boolean
+}
+
+export interface PipelineDefinition {
+  id: string
+  tenant_id: string | null
+  name: string
+  stages: PipelineStage[]
+  is_default: boolean
+  position: number
+}
+
+export const DEFAULT_PIPELINE_ID = 'default'
+
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'lead', name: 'Lead', category: 'open', probability: 10, color: 'gray' },
+  { id: 'in_progress', name: 'In Progress', category: 'open', probability: 40, color: 'blue' },
+  { id: 'under_contract', name: 'Under Contract', category: 'open', probability: 80, color: 'yellow', requires_transaction: true },
+  { id: 'closed', name: 'Closed', category: 'won', probability: 100, color: 'green' },
+  { id: 'lost', name: 'Lost', category: 'lost', probability: 0, color: 'red' }
+]
+
+export const DEFAULT_PIPELINE: PipelineDefinition = {
+  id: DEFAULT_PIPELINE_ID,
+  tenant_id: null,
+  name: 'Sales Pipeline',
+  stages: DEFAULT_PIPELINE_STAGES,
+  is_default: true,
+  position: 0
+}
+
+// Legacy status values that predate configurable pipelines
+const LEGACY_STATUS_ALIASES: Record<string, string> = {
+  qualified: 'Lead'
+}
+
+export const STAGE_COLORS = ['gray', 'blue', 'indigo', 'purple', 'yellow', 'orange', 'green', 'red'] as const
+
+const STAGE_COLOR_CLASSES: Record<string, { column: string; badge: string; hex: string }> = {
+  gray: { column: 'bg-gray-100 border-gray-300', badge: 'bg-gray-100 text-gray-800', hex: '#6b7280' },
+  blue: { column: 'bg-blue-100 border-blue-300', badge: 'bg-blue-100 text-blue-800', hex: '#3b82f6' },
+  indigo: { column: 'bg-indigo-100 border-indigo-300', badge: 'bg-indigo-100 text-indigo-800', hex: '#6366f1' },
+  purple: { column: 'bg-purple-100 border-purple-300', badge: 'bg-purple-100 text-purple-800', hex: '#a855f7' },
+  yellow: { column: 'bg-yellow-100 border-yellow-300', badge: 'bg-yellow-100 text-yellow-800', hex: '#eab308' },
+  orange: { column: 'bg-orange-100 border-orange-300', badge: 'bg-orange-100 text-orange-800', hex: '#f97316' },
+  green: { column: 'bg-green-100 border-green-300', badge: 'bg-green-100 text-green-800', hex: '#22c55e' },
+  red: { column: 'bg-red-100 border-red-300', badge: 'bg-red-100 text-red-800', hex: '#ef4444' }
+}
+
+export function getStageColorClasses(color: string) {
+  return STAGE_COLOR_CLASSES[color] || STAGE_COLOR_CLASSES.gray
+}
+
+/**
+ * Find a stage by its display name (the value stored in deals.status).
+ * Falls back to the legacy aliases so older rows still resolve.
+ */
+export function findStage(stages: PipelineStage[], status: string | null | undefined): PipelineStage | undefined {
+  if (!status) return undefined
+  const normalized = status.trim().toLowerCase()
+  const match = stages.find(stage => stage.name.toLowerCase() === normalized || stage.id === normalized)
+  if (match) return match
+
+  const alias = LEGACY_STATUS_ALIASES[normalized]
+  return alias ? stages.find(stage => stage.name === alias) : undefined
+}
+
+export function getStageCategory(stages: PipelineStage[], status: string | null | undefined): StageCategory {
+  return findStage(stages, status)?.category || 'open'
+}
+
+export function getStagesByCategory(stages: PipelineStage[], category: StageCategory): PipelineStage[] {
+  return stages.filter(stage => stage.category === category)
+}
+
+/**
+ * Whether moving into a stage needs a reason (lost stages always do)
+ */
+export function stageRequiresReason(stage: PipelineStage): boolean {
+  return stage.category === 'lost' || !!stage.requires_reason
+}
+
+export function getInitialStage(stages: PipelineStage[]): PipelineStage {
+  return getStagesByCategory(stages, 'open')[0] || stages[0] || DEFAULT_PIPELINE_STAGES[0]
+}
+
+/**
+ * Resolve the pipeline a deal belongs to, falling back to the tenant default
+ */
+export function resolvePipeline(
+  definitions: PipelineDefinition[],
+  pipelineId?: string | null
+): PipelineDefinition {
+  if (pipelineId) {
+    const match = definitions.find(definition => definition.id === pipelineId)
+    if (match) return match
+  }
+  return definitions.find(definition => definition.is_default) || definitions[0] || DEFAULT_PIPELINE
+}
+
+/**
+ * Validate a stage list before it is persisted
+ * Returns a list of human-readable problems, empty when valid
+ */
+export function validatePipelineStages(stages: PipelineStage[]): string[] {
+  const errors: string[] = []
+  const names = new Set<string>()
+  const ids = new Set<string>()
+
+  if (stages.length === 0) {
+    errors.push('A pipeline needs at least one stage')
+  }
+
+  stages.forEach(stage => {
+    const name = stage.name.trim().toLowerCase()
+    if (names.has(name)) errors.push(`Duplicate stage name "${stage.name}"`)
+    if (ids.has(stage.id)) errors.push(`Duplicate stage id "${stage.id}"`)
+    names.add(name)
+    ids.add(stage.id)
+  })
+
+  if (getStagesByCategory(stages, 'open').length === 0) {
+    errors.push('A pipeline needs at least one open stage')
+  }
+
+  return errors
+}
+
+export function slugifyStageName(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+}
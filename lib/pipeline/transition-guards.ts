@@ -0,0 +1,58 @@
+/**
+ * Deal stage transition guards
+ * Checked server-side before a deal's status changes, so the board, the deal
+ * form and the API all enforce the same rules
+ */
+
+import { stageRequiresReason, type PipelineStage } from '@/lib/pipeline/stages'
+
+export interface StageTransitionCheck {
+  dealId: string
+  userId: string
+  toStage: PipelineStage
+  reason?: string | null
+}
+
+export interface StageTransitionViolation {
+  field: 'status' | 'stage_change_reason'
+  code: 'TRANSACTION_REQUIRED' | 'REASON_REQUIRED'
+  message: string
+}
+
+/**
+ * Returns the first rule the move breaks, or null when it is allowed
+ */
+export async function checkStageTransition(
+  supabase: any,
+  { dealId, userId, toStage, reason }: StageTransitionCheck
+): Promise<StageTransitionViolation | null> {
+  if (stageRequiresReason(toStage) && !reason?.trim()) {
+    return {
+      field: 'stage_change_reason',
+      code: 'REASON_REQUIRED',
+      message: `A reason is required to move a deal to ${toStage.name}`
+    }
+  }
+
+  if (toStage.requires_transaction) {
+    const { count, error } = await supabase
+      .from('transactions')
+      .select('id', { count: 'exact', head: true })
+      .eq('deal_id', dealId)
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Error checking deal transaction:', error)
+    }
+
+    if (!count) {
+      return {
+        field: 'status',
+        code: 'TRANSACTION_REQUIRED',
+        message: `Create a transaction for this deal before moving it to ${toStage.name}`
+      }
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,23 @@
+/**
+ * Webhook Signatures
+ * Check HMAC-SHA256 signatures on inbound webhooks against the raw request body
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * Whether `signature` (hex, optionally prefixed "sha256=") is the HMAC of the
+ * body under `secret`. A missing signature or secret never verifies
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signature: string | null | undefined,
+  secret: string | null | undefined
+): boolean {
+  if (!signature || !secret) return false
+
+  const provided = Buffer.from(signature.replace(/^sha256=/, ''), 'utf-8')
+  const expected = Buffer.from(createHmac('sha256', secret).update(rawBody, 'utf-8').digest('hex'), 'utf-8')
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
@@ -0,0 +1,188 @@
+/**
+ * Showings
+ * Property showings for buyer clients, grouped into tours, and the buyer
+ * feedback collected after each one.
+ * Safe to import from client components - no server-only dependencies.
+ */
+
+export type ShowingStatus = 'scheduled' | 'completed' | 'cancelled'
+
+// Whether the listing agent has agreed to the requested time
+export type ShowingConfirmation = 'pending' | 'confirmed' | 'declined'
+
+export type ShowingInterestLevel = 'not_interested' | 'somewhat_interested' | 'very_interested' | 'ready_to_offer'
+
+export type ShowingPriceOpinion = 'too_high' | 'about_right' | 'good_value'
+
+export const SHOWING_CONFIRMATIONS: { value: ShowingConfirmation; label: string; color: string }[] = [
+  { value: 'pending', label: 'Awaiting listing agent', color: 'bg-yellow-100 text-yellow-800' },
+  { value: 'confirmed', label: 'Confirmed', color: 'bg-green-100 text-green-800' },
+  { value: 'declined', label: 'Declined', color: 'bg-red-100 text-red-800' }
+]
+
+export const SHOWING_INTEREST_LEVELS: { value: ShowingInterestLevel; label: string }[] = [
+  { value: 'not_interested', label: 'Not interested' },
+  { value: 'somewhat_interested', label: 'Somewhat interested' },
+  { value: 'very_interested', label: 'Very interested' },
+  { value: 'ready_to_offer', label: 'Ready to make an offer' }
+]
+
+export const SHOWING_PRICE_OPINIONS: { value: ShowingPriceOpinion; label: string }[] = [
+  { value: 'too_high', label: 'Priced too high' },
+  { value: 'about_right', label: 'About right' },
+  { value: 'good_value', label: 'Good value' }
+]
+
+export const DEFAULT_SHOWING_MINUTES = 30
+export const MAX_TOUR_STOPS = 12
+// How long a buyer has to answer a feedback request
+export const FEEDBACK_LINK_DAYS = 14
+
+export interface ShowingFeedback {
+  id: string
+  showing_id: string
+  deal_id: string | null
+  client_id: string
+  interest_level: ShowingInterestLevel
+  price_opinion: ShowingPriceOpinion
+  comments: string | null
+  submitted_at: string
+}
+
+export interface Showing {
+  id: string
+  user_id: string
+  client_id: string
+  deal_id: string | null
+  tour_id: string
+  property_address: string
+  listing_price: number | null
+  mls_number: string | null
+  listing_agent_name: string | null
+  listing_agent_email: string | null
+  listing_agent_phone: string | null
+  start_time: string
+  end_time: string
+  confirmation_status: ShowingConfirmation
+  confirmed_at: string | null
+  status: ShowingStatus
+  notes: string | null
+  feedback_requested_at: string | null
+  feedback_link_expires_at: string | null
+  created_at: string
+  client?: { id: string; first_name: string | null; last_name: string | null } | null
+  feedback?: ShowingFeedback | null
+}
+
+export interface ShowingStopInput {
+  property_address: string
+  listing_price?: number | null
+  mls_number?: string | null
+  listing_agent_name?: string | null
+  listing_agent_email?: string | null
+  listing_agent_phone?: string | null
+  start_time: string
+  end_time: string
+  notes?: string | null
+}
+
+export interface ShowingTour {
+  tour_id: string
+  client_id: string
+  start_time: string
+  end_time: string
+  // In visiting order
+  stops: Showing[]
+}
+
+// What the buyer sees on the feedback page
+export interface ShowingFeedbackRequest {
+  property_address: string
+  start_time: string
+  agent_name: string | null
+  client_first_name: string | null
+  submitted: boolean
+  expires_at: string
+}
+
+export function getShowingConfirmation(value: ShowingConfirmation) {
+  return SHOWING_CONFIRMATIONS.find(option => option.value === value) || SHOWING_CONFIRMATIONS[0]
+}
+
+export function getInterestLevelLabel(value: ShowingInterestLevel): string {
+  return SHOWING_INTEREST_LEVELS.find(option => option.value === value)?.label || value
+}
+
+export function getPriceOpinionLabel(value: ShowingPriceOpinion): string {
+  return SHOWING_PRICE_OPINIONS.find(option => option.value === value)?.label || value
+}
+
+/**
+ * Stops in visiting order. Order always follows the time window, so moving a
+ * stop's time re-orders the tour
+ */
+export function orderTourStops<T extends Pick<Showing, 'start_time' | 'property_address'>>(stops: T[]): T[] {
+  return [...stops].sort((a, b) =>
+    new Date(a.start_time).getTime() - new Date(b.start_time).getTime() ||
+    a.property_address.localeCompare(b.property_address)
+  )
+}
+
+/**
+ * The first pair of stops whose time windows overlap, if any. Back-to-back
+ * stops (one ending as the next starts) don't count
+ */
+export function findOverlappingStops<T extends Pick<Showing, 'start_time' | 'end_time' | 'property_address'>>(
+  stops: T[]
+): [T, T] | null {
+  const ordered = orderTourStops(stops)
+  for (let i = 1; i < ordered.length; i++) {
+    if (new Date(ordered[i].start_time).getTime() < new Date(ordered[i - 1].end_time).getTime()) {
+      return [ordered[i - 1], ordered[i]]
+    }
+  }
+  return null
+}
+
+/**
+ * Group showings into tours, earliest tour first. Cancelled stops stay in
+ * their tour so the history reads the same as what was planned
+ */
+export function groupShowingTours(showings: Showing[]): ShowingTour[] {
+  const byTour = new Map<string, Showing[]>()
+  for (const showing of showings) {
+    byTour.set(showing.tour_id, [...(byTour.get(showing.tour_id) || []), showing])
+  }
+
+  return Array.from(byTour.entries())
+    .map(([tourId, stops]) => {
+      const ordered = orderTourStops(stops)
+      return {
+        tour_id: tourId,
+        client_id: ordered[0].client_id,
+        start_time: ordered[0].start_time,
+        end_time: ordered.reduce((latest, stop) =>
+          new Date(stop.end_time).getTime() > new Date(latest).getTime() ? stop.end_time : latest,
+        ordered[0].end_time),
+        stops: ordered
+      }
+    })
+    .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+}
+
+/**
+ * Feedback can be asked for once the showing has started
+ */
+export function canRequestFeedback(showing: Pick<Showing, 'status' | 'start_time'>, now: Date = new Date()): boolean {
+  return showing.status !== 'cancelled' && new Date(showing.start_time).getTime() <= now.getTime()
+}
+
+export function getShowingFeedbackUrl(origin: string, token: string): string {
+  return `${origin.replace(/\/$/, '')}/showing-feedback/${token}`
+}
+
+export function formatShowingWindow(start: string, end: string): string {
+  const startDate = new Date(start)
+  const time = (date: Date) => date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })
+  return `${startDate.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}, ${time(startDate)} - ${time(new Date(end))}`
+}
@@ -0,0 +1,409 @@
+/**
+ * Showing Records - scheduling showings and tours for buyer clients, and the
+ * secret feedback link sent to the buyer afterwards. As with portal links,
+ * only the sha256 of a feedback token is stored.
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto'
+import { AppError, ConflictError, NotFoundError, ValidationError } from '@/lib/errors'
+import {
+  FEEDBACK_LINK_DAYS,
+  MAX_TOUR_STOPS,
+  canRequestFeedback,
+  findOverlappingStops,
+  orderTourStops,
+  type Showing,
+  type ShowingConfirmation,
+  type ShowingFeedback,
+  type ShowingFeedbackRequest,
+  type ShowingInterestLevel,
+  type ShowingPriceOpinion,
+  type ShowingStatus,
+  type ShowingStopInput
+} from '@/lib/showings/schedule'
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+const SHOWING_SELECT = `
+  *,
+  client:clients(id, first_name, last_name),
+  feedback:showing_feedback(id, showing_id, deal_id, client_id, interest_level, price_opinion, comments, submitted_at)
+`
+
+export interface ShowingFilters {
+  clientId?: string
+  dealId?: string
+  from?: string
+  to?: string
+}
+
+export interface CreateTourInput {
+  client_id: string
+  deal_id?: string | null
+  // Adds the stops to an existing tour of the same buyer
+  tour_id?: string
+  stops: ShowingStopInput[]
+}
+
+export interface ShowingUpdate extends Partial<ShowingStopInput> {
+  confirmation_status?: ShowingConfirmation
+  status?: ShowingStatus
+  deal_id?: string | null
+}
+
+export interface FeedbackInput {
+  interest_level: ShowingInterestLevel
+  price_opinion: ShowingPriceOpinion
+  comments?: string | null
+}
+
+function hashFeedbackToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// The feedback embed comes back as a list; a showing has at most one
+function toShowing(row: any): Showing {
+  const { feedback_token_hash, ...showing } = row
+  const feedback = Array.isArray(row.feedback) ? row.feedback[0] || null : row.feedback || null
+  return { ...showing, feedback }
+}
+
+function assertWindow(start: string, end: string, field: string = 'end_time') {
+  if (new Date(end).getTime() <= new Date(start).getTime()) {
+    throw new ValidationError('End time must be after start time', field)
+  }
+}
+
+function assertNoOverlap(stops: Pick<Showing, 'start_time' | 'end_time' | 'property_address'>[]) {
+  const overlap = findOverlappingStops(stops)
+  if (overlap) {
+    throw new AppError(
+      `${overlap[1].property_address} starts before ${overlap[0].property_address} ends`,
+      400,
+      'SHOWING_OVERLAP'
+    )
+  }
+}
+
+async function assertClientOwned(supabase: any, userId: string, clientId: string) {
+  const { data: client } = await supabase
+    .from('clients')
+    .select('id')
+    .eq('id', clientId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!client) throw new NotFoundError('Client')
+}
+
+async function assertDealOwned(supabase: any, userId: string, dealId: string) {
+  const { data: deal } = await supabase
+    .from('deals')
+    .select('id')
+    .eq('id', dealId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!deal) throw new NotFoundError('Deal')
+}
+
+async function getTourStops(supabase: any, userId: string, tourId: string): Promise<Showing[]> {
+  const { data, error } = await supabase
+    .from('showings')
+    .select(SHOWING_SELECT)
+    .eq('user_id', userId)
+    .eq('tour_id', tourId)
+
+  if (error) throw error
+  return (data || []).map(toShowing)
+}
+
+export async function listShowings(supabase: any, userId: string, filters: ShowingFilters = {}): Promise<Showing[]> {
+  let query = supabase
+    .from('showings')
+    .select(SHOWING_SELECT)
+    .eq('user_id', userId)
+
+  if (filters.clientId) query = query.eq('client_id', filters.clientId)
+  if (filters.dealId) query = query.eq('deal_id', filters.dealId)
+  if (filters.from) query = query.gte('start_time', filters.from)
+  if (filters.to) query = query.lt('start_time', filters.to)
+
+  const { data, error } = await query.order('start_time', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map(toShowing)
+}
+
+export async function getShowing(supabase: any, userId: string, id: string): Promise<Showing> {
+  const { data } = await supabase
+    .from('showings')
+    .select(SHOWING_SELECT)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!data) throw new NotFoundError('Showing')
+  return toShowing(data)
+}
+
+/**
+ * Schedule one or more properties for a buyer. All stops of a tour share a
+ * tour_id and are visited in time order; their windows may not overlap
+ */
+export async function createShowingTour(supabase: any, userId: string, input: CreateTourInput): Promise<Showing[]> {
+  await assertClientOwned(supabase, userId, input.client_id)
+  if (input.deal_id) await assertDealOwned(supabase, userId, input.deal_id)
+
+  input.stops.forEach((stop, index) => assertWindow(stop.start_time, stop.end_time, `stops.${index}.end_time`))
+
+  let existingStops: Showing[] = []
+  if (input.tour_id) {
+    existingStops = await getTourStops(supabase, userId, input.tour_id)
+    if (existingStops.length === 0) throw new NotFoundError('Tour')
+    if (existingStops[0].client_id !== input.client_id) {
+      throw new ValidationError('A tour is for a single buyer', 'client_id')
+    }
+  }
+
+  const activeStops = existingStops.filter(stop => stop.status !== 'cancelled')
+  if (activeStops.length + input.stops.length > MAX_TOUR_STOPS) {
+    throw new ValidationError(`A tour can have at most ${MAX_TOUR_STOPS} stops`, 'stops')
+  }
+  assertNoOverlap([...activeStops, ...input.stops])
+
+  const tourId = input.tour_id || randomUUID()
+  const { data, error } = await supabase
+    .from('showings')
+    .insert(input.stops.map(stop => ({
+      user_id: userId,
+      client_id: input.client_id,
+      deal_id: input.deal_id ?? existingStops[0]?.deal_id ?? null,
+      tour_id: tourId,
+      property_address: stop.property_address.trim(),
+      listing_price: stop.listing_price ?? null,
+      mls_number: stop.mls_number?.trim() || null,
+      listing_agent_name: stop.listing_agent_name?.trim() || null,
+      listing_agent_email: stop.listing_agent_email?.trim() || null,
+      listing_agent_phone: stop.listing_agent_phone?.trim() || null,
+      start_time: new Date(stop.start_time).toISOString(),
+      end_time: new Date(stop.end_time).toISOString(),
+      confirmation_status: 'pending',
+      status: 'scheduled',
+      notes: stop.notes?.trim() || null
+    })))
+    .select(SHOWING_SELECT)
+
+  if (error) throw error
+  return orderTourStops((data || []).map(toShowing))
+}
+
+export async function updateShowing(supabase: any, userId: string, id: string, input: ShowingUpdate): Promise<Showing> {
+  const existing = await getShowing(supabase, userId, id)
+  if (input.deal_id) await assertDealOwned(supabase, userId, input.deal_id)
+
+  const startTime = input.start_time ? new Date(input.start_time).toISOString() : existing.start_time
+  const endTime = input.end_time ? new Date(input.end_time).toISOString() : existing.end_time
+  const timesChanged = Boolean(input.start_time || input.end_time)
+  const status = input.status || existing.status
+
+  if (timesChanged) assertWindow(startTime, endTime)
+  if ((timesChanged || input.status) && status !== 'cancelled') {
+    const otherStops = (await getTourStops(supabase, userId, existing.tour_id))
+      .filter(stop => stop.id !== id && stop.status !== 'cancelled')
+    assertNoOverlap([...otherStops, { ...existing, start_time: startTime, end_time: endTime }])
+  }
+
+  const updates: Record<string, any> = { updated_at: new Date().toISOString() }
+  if (input.property_address !== undefined) updates.property_address = input.property_address.trim()
+  if (input.listing_price !== undefined) updates.listing_price = input.listing_price
+  if (input.mls_number !== undefined) updates.mls_number = input.mls_number?.trim() || null
+  if (input.listing_agent_name !== undefined) updates.listing_agent_name = input.listing_agent_name?.trim() || null
+  if (input.listing_agent_email !== undefined) updates.listing_agent_email = input.listing_agent_email?.trim() || null
+  if (input.listing_agent_phone !== undefined) updates.listing_agent_phone = input.listing_agent_phone?.trim() || null
+  if (input.notes !== undefined) updates.notes = input.notes?.trim() || null
+  if (input.deal_id !== undefined) updates.deal_id = input.deal_id
+  if (input.status) updates.status = input.status
+  if (timesChanged) {
+    updates.start_time = startTime
+    updates.end_time = endTime
+  }
+
+  if (input.confirmation_status && input.confirmation_status !== existing.confirmation_status) {
+    updates.confirmation_status = input.confirmation_status
+    updates.confirmed_at = input.confirmation_status === 'confirmed' ? new Date().toISOString() : null
+  } else if (timesChanged && existing.confirmation_status === 'confirmed') {
+    // A new time needs the listing agent's go-ahead again
+    updates.confirmation_status = 'pending'
+    updates.confirmed_at = null
+  }
+
+  const { data, error } = await supabase
+    .from('showings')
+    .update(updates)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select(SHOWING_SELECT)
+    .single()
+
+  if (error) throw error
+  return toShowing(data)
+}
+
+export async function deleteShowing(supabase: any, userId: string, id: string): Promise<void> {
+  await getShowing(supabase, userId, id)
+
+  const { error } = await supabase
+    .from('showings')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+/**
+ * Issue the buyer's feedback link for a showing, replacing any earlier one.
+ * The raw token is only returned here - it can't be recovered later
+ */
+export async function createFeedbackLink(
+  supabase: any,
+  userId: string,
+  id: string
+): Promise<{ showing: Showing; token: string }> {
+  const existing = await getShowing(supabase, userId, id)
+
+  if (existing.feedback) throw new ConflictError('The buyer has already left feedback for this showing')
+  if (!canRequestFeedback(existing)) {
+    throw new AppError(
+      existing.status === 'cancelled'
+        ? 'Cancelled showings have no feedback to collect'
+        : 'Feedback can be requested once the showing has started',
+      400,
+      'FEEDBACK_NOT_AVAILABLE'
+    )
+  }
+
+  const token = randomBytes(32).toString('hex')
+  const now = new Date()
+  const { data, error } = await supabase
+    .from('showings')
+    .update({
+      feedback_token_hash: hashFeedbackToken(token),
+      feedback_requested_at: now.toISOString(),
+      feedback_link_expires_at: new Date(now.getTime() + FEEDBACK_LINK_DAYS * DAY_MS).toISOString(),
+      updated_at: now.toISOString()
+    })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select(SHOWING_SELECT)
+    .single()
+
+  if (error) throw error
+  return { showing: toShowing(data), token }
+}
+
+/**
+ * Look up the showing behind a raw feedback token. Expired links are 410 so
+ * the page can tell the buyer to ask their agent
+ */
+export async function resolveFeedbackLink(supabase: any, token: string): Promise<Showing> {
+  if (!/^[0-9a-f]{64}$/.test(token)) throw new NotFoundError('Feedback link')
+
+  const { data } = await supabase
+    .from('showings')
+    .select(SHOWING_SELECT)
+    .eq('feedback_token_hash', hashFeedbackToken(token))
+    .maybeSingle()
+
+  if (!data) throw new NotFoundError('Feedback link')
+
+  const showing = toShowing(data)
+  if (showing.status === 'cancelled') {
+    throw new AppError('This showing was cancelled', 410, 'SHOWING_CANCELLED')
+  }
+  if (!showing.feedback && showing.feedback_link_expires_at && new Date(showing.feedback_link_expires_at).getTime() <= Date.now()) {
+    throw new AppError('This feedback link has expired', 410, 'FEEDBACK_LINK_EXPIRED')
+  }
+
+  return showing
+}
+
+export async function getFeedbackRequest(supabase: any, showing: Showing): Promise<ShowingFeedbackRequest> {
+  const { data: agent } = await supabase
+    .from('users')
+    .select('name')
+    .eq('id', showing.user_id)
+    .maybeSingle()
+
+  return {
+    property_address: showing.property_address,
+    start_time: showing.start_time,
+    agent_name: agent?.name || null,
+    client_first_name: showing.client?.first_name || null,
+    submitted: Boolean(showing.feedback),
+    expires_at: showing.feedback_link_expires_at || showing.start_time
+  }
+}
+
+/**
+ * Save the buyer's feedback against the showing's deal, mark the showing as
+ * done and log the visit as a property_viewed lead activity. A showing takes
+ * one answer; later ones are refused
+ */
+export async function submitShowingFeedback(supabase: any, showing: Showing, input: FeedbackInput): Promise<ShowingFeedback> {
+  if (showing.feedback) throw new ConflictError('Thanks - your feedback for this showing was already received')
+
+  const submittedAt = new Date().toISOString()
+  const { data: feedback, error } = await supabase
+    .from('showing_feedback')
+    .insert({
+      user_id: showing.user_id,
+      showing_id: showing.id,
+      deal_id: showing.deal_id,
+      client_id: showing.client_id,
+      interest_level: input.interest_level,
+      price_opinion: input.price_opinion,
+      comments: input.comments?.trim() || null,
+      submitted_at: submittedAt
+    })
+    .select('id, showing_id, deal_id, client_id, interest_level, price_opinion, comments, submitted_at')
+    .single()
+
+  if (error) {
+    // Unique on showing_id - a double submit lost the race
+    if (error.code === '23505') throw new ConflictError('Thanks - your feedback for this showing was already received')
+    throw error
+  }
+
+  const [{ error: showingError }, { error: activityError }] = await Promise.all([
+    supabase
+      .from('showings')
+      .update({ status: 'completed', updated_at: submittedAt })
+      .eq('id', showing.id)
+      .eq('status', 'scheduled'),
+    supabase
+      .from('lead_activities')
+      .insert({
+        user_id: showing.user_id,
+        client_id: showing.client_id,
+        activity_type: 'property_viewed',
+        activity_data: {
+          showing_id: showing.id,
+          deal_id: showing.deal_id,
+          property_address: showing.property_address,
+          mls_number: showing.mls_number,
+          interest_level: input.interest_level,
+          price_opinion: input.price_opinion,
+          viewed_at: showing.start_time
+        },
+        score_awarded: 15,
+        source: 'showing_feedback'
+      })
+  ])
+
+  if (showingError) console.error('Error completing showing after feedback:', showingError)
+  if (activityError) console.error('Error logging property view:', activityError)
+
+  return feedback
+}
@@ -1,6 +1,32 @@
-import { CalendarEvent, CalendarImportResult } from '@/lib/smart-import/types'
+import { CalendarEvent, CalendarImportResult, ICalendarParseResult } from '@/lib/smart-import/types'
+import { ICalendarParser, type ICalendarParseOptions } from '@/lib/smart-import/icalendar'
+import { normalizeEmail } from '@/lib/clients/duplicates'
 import { Task } from '@/lib/types'
 
+export interface CalendarImportContext {
+  supabase: any
+  userId: string
+  // Recorded on each task so re-imports from the same source find it
+  provider: 'google' | 'outlook' | 'ics'
+}
+
+// Keeps each UID lookup's URL and each insert request a reasonable size
+const UID_LOOKUP_CHUNK_SIZE = 100
+const INSERT_CHUNK_SIZE = 200
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size))
+  return chunks
+}
+
+interface ImportClient {
+  id: string
+  first_name: string | null
+  last_name: string | null
+  email: string | null
+}
+
 /**
  * Calendar Integration Service
  * Handles calendar sync and automatic task creation from appointments
@@ -30,15 +56,18 @@ export class CalendarIntegration {
   }
 
   /**
-   * Import calendar events and convert to tasks
+   * Import calendar events as tasks, linked to the matching client. Events
+   * imported before (same UID and occurrence) update their task instead of
+   * creating another; completed tasks are left alone
    */
   static async importCalendarEvents(
-    events: CalendarEvent[], 
+    events: CalendarEvent[],
     options: {
       autoCreateTasks?: boolean
       defaultPriority?: Task['priority']
       filterRealEstateOnly?: boolean
-    } = {}
+    } = {},
+    context: CalendarImportContext
   ): Promise<CalendarImportResult> {
     try {
       const {
@@ -53,29 +82,88 @@ export class CalendarIntegration {
         filteredEvents = events.filter(event => this.isRealEstateEvent(event))
       }
 
-      const tasksCreated: Partial<Task>[] = []
-      const clientsLinked: string[] = []
+      const savedTasks: Record<string, any>[] = []
+      const clientsLinked = new Set<string>()
+      const errors: string[] = []
+      let tasksUpdated = 0
+      const inserts: { title: string; row: Record<string, any> }[] = []
+
+      if (autoCreateTasks && filteredEvents.length > 0) {
+        const [clients, existingTasks] = await Promise.all([
+          this.loadClients(context),
+          this.loadImportedTasks(context, filteredEvents)
+        ])
 
-      if (autoCreateTasks) {
         for (const event of filteredEvents) {
           const task = this.convertEventToTask(event, defaultPriority)
-          if (task) {
-            tasksCreated.push(task)
-            
-            // Try to link to existing client
-            const linkedClient = await this.findMatchingClient(event)
-            if (linkedClient) {
-              clientsLinked.push(linkedClient)
+          if (!task) continue
+
+          // Try to link to existing client
+          const linkedClient = this.findMatchingClient(event, clients)
+          if (linkedClient) clientsLinked.add(linkedClient)
+
+          const existing = existingTasks.get(this.getImportKey(event))
+          if (existing && existing.status?.toLowerCase() === 'completed') continue
+
+          const row = {
+            title: task.title,
+            description: task.description,
+            due_date: task.dueDate,
+            type: task.type,
+            client_id: linkedClient || existing?.client_id || null,
+            metadata: {
+              ...(existing?.metadata || {}),
+              source: 'calendar_import',
+              provider: context.provider,
+              calendar_uid: event.uid || event.id,
+              calendar_occurrence: event.recurrenceId || null
             }
           }
+
+          if (!existing) {
+            inserts.push({ title: event.title, row: { ...row, user_id: context.userId, priority: task.priority, status: 'Pending' } })
+            continue
+          }
+
+          const { error } = await context.supabase
+            .from('tasks')
+            .update(row)
+            .eq('id', existing.id)
+            .eq('user_id', context.userId)
+
+          if (error) {
+            console.error('Error saving task from calendar event:', error)
+            errors.push(`Could not save "${event.title}"`)
+            continue
+          }
+
+          tasksUpdated++
+        }
+
+        for (const batch of chunk(inserts, INSERT_CHUNK_SIZE)) {
+          const { data: saved, error } = await context.supabase
+            .from('tasks')
+            .insert(batch.map(insert => insert.row))
+            .select()
+
+          if (error) {
+            console.error('Error saving tasks from calendar events:', error)
+            errors.push(...batch.map(insert => `Could not save "${insert.title}"`))
+            continue
+          }
+
+          savedTasks.push(...(saved || []))
         }
       }
 
       return {
         success: true,
         data: filteredEvents,
-        tasksCreated: tasksCreated.length,
-        clientsLinked: [...new Set(clientsLinked)].length,
+        tasksCreated: savedTasks.length,
+        tasksUpdated,
+        clientsLinked: clientsLinked.size,
+        tasks: savedTasks,
+        errors: errors.length > 0 ? errors : undefined,
         source: 'calendar'
       }
     } catch (error) {
@@ -87,6 +175,65 @@ export class CalendarIntegration {
     }
   }
 
+  /**
+   * Read an uploaded .ics file into events, inferring each event's type
+   */
+  static parseICalendarEvents(text: string, options: ICalendarParseOptions): ICalendarParseResult {
+    const result = ICalendarParser.parse(text, options)
+    return {
+      ...result,
+      data: result.data?.map(event => ({
+        ...event,
+        eventType: this.inferEventType(event.title, event.description)
+      }))
+    }
+  }
+
+  // Dedupe key: one task per event, or per occurrence of a recurring event
+  private static getImportKey(event: Pick<CalendarEvent, 'id' | 'uid' | 'recurrenceId'>): string {
+    return `${event.uid || event.id}|${event.recurrenceId || ''}`
+  }
+
+  private static async loadImportedTasks(
+    context: CalendarImportContext,
+    events: CalendarEvent[]
+  ): Promise<Map<string, any>> {
+    const uids = Array.from(new Set(events.map(event => event.uid || event.id)))
+    const tasks: any[] = []
+
+    for (const batch of chunk(uids, UID_LOOKUP_CHUNK_SIZE)) {
+      const { data, error } = await context.supabase
+        .from('tasks')
+        .select('id, status, client_id, metadata')
+        .eq('user_id', context.userId)
+        .in('metadata->>calendar_uid', batch)
+
+      if (error) throw error
+      tasks.push(...(data || []))
+    }
+
+    return new Map(tasks.map((task: any) => [
+      this.getImportKey({
+        id: task.metadata.calendar_uid,
+        uid: task.metadata.calendar_uid,
+        recurrenceId: task.metadata.calendar_occurrence || undefined
+      }),
+      task
+    ]))
+  }
+
+  private static async loadClients(context: CalendarImportContext): Promise<ImportClient[]> {
+    const { data, error } = await context.supabase
+      .from('clients')
+      .select('id, first_name, last_name, email')
+      .eq('user_id', context.userId)
+      // Merged duplicates share the survivor's name and email
+      .is('merged_into_id', null)
+
+    if (error) throw error
+    return data || []
+  }
+
   /**
    * Check if calendar event is real estate related
    */
@@ -115,7 +262,8 @@ export class CalendarIntegration {
       const task: Partial<Task> = {
         title: this.generateTaskTitle(event),
         description: this.generateTaskDescription(event),
-        dueDate: event.startTime.toISOString(),
+        // All-day events start at UTC midnight and stay date-only
+        dueDate: event.allDay ? event.startTime.toISOString().slice(0, 10) : event.startTime.toISOString(),
         priority,
         status: 'Pending',
         type: taskType,
@@ -294,19 +442,31 @@ export class CalendarIntegration {
   }
 
   /**
-   * Find matching client based on event information
+   * Find the agent's client behind an event: an attendee's email first, then
+   * a client name mentioned in the title or description
    */
-  private static async findMatchingClient(event: CalendarEvent): Promise<string | null> {
+  private static findMatchingClient(event: CalendarEvent, clients: ImportClient[]): string | null {
     try {
-      const clientInfo = this.extractClientInfo(event)
-      
-      if (!clientInfo.clientEmail && !clientInfo.clientName) {
-        return null
+      const organizer = normalizeEmail(event.organizer)
+      const attendeeEmails = (event.attendees || [])
+        .map(email => normalizeEmail(email))
+        .filter((email): email is string => !!email && email !== organizer)
+
+      if (attendeeEmails.length > 0) {
+        const byEmail = clients.find(client => {
+          const email = normalizeEmail(client.email)
+          return email !== null && attendeeEmails.includes(email)
+        })
+        if (byEmail) return byEmail.id
       }
 
-      // This would typically make an API call to find matching clients
-      // For now, return null (will be implemented in the API endpoint)
-      return null
+      const clientName = this.extractClientInfo(event).clientName?.toLowerCase()
+      if (!clientName) return null
+
+      const byName = clients.find(client =>
+        `${client.first_name || ''} ${client.last_name || ''}`.trim().toLowerCase() === clientName
+      )
+      return byName?.id || null
     } catch (error) {
       console.error('Error finding matching client:', error)
       return null
@@ -325,10 +485,20 @@ export class CalendarIntegration {
       endTime: new Date(event.end?.dateTime || event.end?.date),
       location: event.location,
       attendees: event.attendees?.map((attendee: any) => attendee.email) || [],
-      eventType: this.inferEventType(event.summary, event.description)
+      eventType: this.inferEventType(event.summary, event.description),
+      uid: event.iCalUID || event.id,
+      recurrenceId: event.recurringEventId ? this.toRecurrenceKey(event.originalStartTime) : undefined,
+      allDay: !event.start?.dateTime,
+      organizer: event.organizer?.email
     }))
   }
 
+  // Same form as .ics occurrences, so a Google import and an .ics export of the same calendar dedupe
+  private static toRecurrenceKey(originalStart?: { dateTime?: string; date?: string }): string | undefined {
+    if (originalStart?.dateTime) return new Date(originalStart.dateTime).toISOString()
+    return originalStart?.date
+  }
+
   /**
    * Parse Outlook Calendar API response
    */
@@ -341,7 +511,11 @@ export class CalendarIntegration {
       endTime: new Date(event.end?.dateTime),
       location: event.location?.displayName,
       attendees: event.attendees?.map((attendee: any) => attendee.emailAddress?.address) || [],
-      eventType: this.inferEventType(event.subject, event.body?.content)
+      eventType: this.inferEventType(event.subject, event.body?.content),
+      uid: event.iCalUId || event.id,
+      recurrenceId: event.seriesMasterId && event.originalStart ? new Date(event.originalStart).toISOString() : undefined,
+      allDay: !!event.isAllDay,
+      organizer: event.organizer?.emailAddress?.address
     }))
   }
 
@@ -378,6 +552,10 @@ export class CalendarIntegration {
       parts.push(`${result.tasksCreated} tasks created`)
     }
 
+    if (result.tasksUpdated && result.tasksUpdated > 0) {
+      parts.push(`${result.tasksUpdated} previously imported tasks updated`)
+    }
+
     if (result.clientsLinked && result.clientsLinked > 0) {
       parts.push(`${result.clientsLinked} clients linked`)
     }
@@ -0,0 +1,562 @@
+import { CalendarAttendee, CalendarEvent, ICalendarParseResult } from '@/lib/smart-import/types'
+import {
+  getNextOccurrence,
+  isValidTimeZone,
+  parseRecurrenceRule,
+  zonedTimeToUtc,
+  type RecurrenceRule
+} from '@/lib/tasks/recurrence'
+
+interface ICalProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+interface ICalComponent {
+  type: string
+  properties: ICalProperty[]
+  children: ICalComponent[]
+}
+
+// A DTSTART/DTEND/EXDATE value before it's placed on the timeline
+interface ICalDateValue {
+  date: string
+  // HH:MM:SS, or null for all-day (VALUE=DATE) values
+  time: string | null
+  // 'UTC' for values ending in Z, the TZID parameter, or null for floating times
+  tzid: string | null
+}
+
+// One STANDARD or DAYLIGHT block of a VTIMEZONE
+interface TimeZoneObservance {
+  start: string
+  offsetFrom: number
+  offsetTo: number
+  rule?: { month: number; ordinal?: number; weekday?: number; monthDay?: number; until?: string }
+}
+
+export interface ICalendarParseOptions {
+  // Only occurrences starting inside the window are returned
+  windowStart: Date
+  windowEnd: Date
+  // Used for floating times and TZIDs that can't be resolved
+  defaultTimeZone: string
+}
+
+// Default import window around today
+export const ICS_IMPORT_PAST_DAYS = 30
+export const ICS_IMPORT_FUTURE_DAYS = 365
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+/**
+ * iCalendar Parser
+ * Reads .ics files exported from Google Calendar, Outlook and Apple Calendar
+ * into calendar events. Recurring events are expanded within a window, times
+ * are placed using the file's VTIMEZONE blocks or IANA zone names, and
+ * cancelled or excluded occurrences are left out.
+ */
+export class ICalendarParser {
+  static readonly MIME_TYPE = 'text/calendar'
+  // Upper bound on occurrences one file can produce, so a daily event with no end can't flood the importer
+  static readonly MAX_OCCURRENCES = 2000
+  private static readonly MAX_RECURRENCE_STEPS = 50000
+
+  static parse(text: string, options: ICalendarParseOptions): ICalendarParseResult {
+    const warnings = new Set<string>()
+    const root = this.buildTree(this.unfold(text))
+    const calendar = root.children.find(component => component.type === 'VCALENDAR')
+
+    if (!calendar) {
+      return {
+        success: false,
+        errors: ['No calendar found. Make sure the file is an iCalendar (.ics) export.'],
+        source: 'calendar'
+      }
+    }
+
+    const timeZones = new Map<string, TimeZoneObservance[]>()
+    for (const component of calendar.children.filter(child => child.type === 'VTIMEZONE')) {
+      const tzid = this.getValue(component, 'TZID')
+      if (tzid) timeZones.set(tzid, this.parseTimeZone(component))
+    }
+
+    const vevents = calendar.children.filter(child => child.type === 'VEVENT')
+    const masters = vevents.filter(event => !this.getProperty(event, 'RECURRENCE-ID'))
+    const overrides = new Map<string, ICalComponent>()
+    for (const event of vevents.filter(event => this.getProperty(event, 'RECURRENCE-ID'))) {
+      const recurrenceId = this.parseDateValue(this.getProperty(event, 'RECURRENCE-ID')!)
+      const uid = this.getValue(event, 'UID')
+      if (uid && recurrenceId) {
+        overrides.set(`${uid}|${this.instantKey(recurrenceId, timeZones, options, warnings)}`, event)
+      }
+    }
+
+    const events: CalendarEvent[] = []
+    let outsideWindow = 0
+
+    for (const master of masters) {
+      const start = this.getProperty(master, 'DTSTART')
+      const startValue = start && this.parseDateValue(start)
+      if (!startValue) {
+        warnings.add(`Skipped "${this.getText(master, 'SUMMARY') || 'an event'}" because it has no start time`)
+        continue
+      }
+
+      const uid = this.getValue(master, 'UID') || `${this.getText(master, 'SUMMARY') || 'event'}-${startValue.date}`
+      const occurrences = this.expandOccurrences(master, startValue, timeZones, options, warnings)
+      const recurring = !!this.getValue(master, 'RRULE') || this.getProperties(master, 'RDATE').length > 0
+
+      for (const occurrence of occurrences) {
+        const instant = this.toInstant(occurrence, timeZones, options, warnings)
+        const key = this.instantKey(occurrence, timeZones, options, warnings)
+        const override = recurring ? overrides.get(`${uid}|${key}`) : undefined
+        const source = override || master
+
+        if (this.getValue(source, 'STATUS')?.toUpperCase() === 'CANCELLED') continue
+
+        const event = override
+          ? this.toEvent(override, uid, timeZones, options, warnings)
+          : this.toEvent(master, uid, timeZones, options, warnings, instant)
+        if (!event) continue
+
+        if (event.startTime < options.windowStart || event.startTime > options.windowEnd) {
+          outsideWindow++
+          continue
+        }
+
+        if (recurring) {
+          event.recurrenceId = key
+          event.id = `${uid}/${key}`
+        }
+        events.push(event)
+      }
+    }
+
+    if (outsideWindow > 0) {
+      warnings.add(`${outsideWindow} ${outsideWindow === 1 ? 'event falls' : 'events fall'} outside the import window and ${outsideWindow === 1 ? 'was' : 'were'} skipped`)
+    }
+
+    events.sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+    if (events.length > this.MAX_OCCURRENCES) {
+      warnings.add(`Only the first ${this.MAX_OCCURRENCES} events were read`)
+      events.length = this.MAX_OCCURRENCES
+    }
+
+    if (events.length === 0) {
+      return {
+        success: false,
+        errors: ['No events found in the import window.'],
+        warnings: warnings.size > 0 ? [...warnings] : undefined,
+        source: 'calendar'
+      }
+    }
+
+    return {
+      success: true,
+      data: events,
+      warnings: warnings.size > 0 ? [...warnings] : undefined,
+      calendarName: this.getText(calendar, 'X-WR-CALNAME') || undefined,
+      source: 'calendar'
+    }
+  }
+
+  private static toEvent(
+    component: ICalComponent,
+    uid: string,
+    timeZones: Map<string, TimeZoneObservance[]>,
+    options: ICalendarParseOptions,
+    warnings: Set<string>,
+    occurrenceStart?: number
+  ): CalendarEvent | null {
+    const startValue = this.parseDateValue(this.getProperty(component, 'DTSTART')!)
+    if (!startValue) return null
+
+    const originalStart = this.toInstant(startValue, timeZones, options, warnings)
+    const endProperty = this.getProperty(component, 'DTEND')
+    const endValue = endProperty && this.parseDateValue(endProperty)
+    const durationText = this.getValue(component, 'DURATION')
+
+    let duration = startValue.time ? 0 : DAY_MS
+    if (endValue) {
+      duration = Math.max(0, this.toInstant(endValue, timeZones, options, warnings) - originalStart)
+    } else if (durationText) {
+      duration = this.parseDuration(durationText) ?? duration
+    }
+
+    const start = occurrenceStart ?? originalStart
+    const attendeeDetails = this.getProperties(component, 'ATTENDEE')
+      .map(property => this.toAttendee(property))
+      .filter((attendee): attendee is CalendarAttendee => attendee !== null)
+    const organizer = this.getProperty(component, 'ORGANIZER')
+
+    return {
+      id: uid,
+      uid,
+      title: this.getText(component, 'SUMMARY') || 'Untitled Event',
+      description: this.getText(component, 'DESCRIPTION') || undefined,
+      location: this.getText(component, 'LOCATION') || undefined,
+      startTime: new Date(start),
+      endTime: new Date(start + duration),
+      allDay: !startValue.time,
+      organizer: organizer ? this.toAttendee(organizer)?.email : undefined,
+      attendees: attendeeDetails.map(attendee => attendee.email),
+      attendeeDetails
+    }
+  }
+
+  private static toAttendee(property: ICalProperty): CalendarAttendee | null {
+    const email = property.value.replace(/^mailto:/i, '').trim() || property.params.EMAIL
+    if (!email || !email.includes('@')) return null
+
+    return {
+      email: email.toLowerCase(),
+      ...(property.params.CN && { name: property.params.CN }),
+      ...(property.params.ROLE && { role: property.params.ROLE.toUpperCase() }),
+      ...(property.params.PARTSTAT && { status: property.params.PARTSTAT.toUpperCase() })
+    }
+  }
+
+  /**
+   * Start values of every occurrence of a VEVENT: DTSTART, the RRULE
+   * expansion up to the window's end and any RDATEs, minus EXDATEs
+   */
+  private static expandOccurrences(
+    component: ICalComponent,
+    start: ICalDateValue,
+    timeZones: Map<string, TimeZoneObservance[]>,
+    options: ICalendarParseOptions,
+    warnings: Set<string>
+  ): ICalDateValue[] {
+    const rruleText = this.getValue(component, 'RRULE')
+    const rdates = this.getDateList(component, 'RDATE')
+    if (!rruleText && rdates.length === 0) return [start]
+
+    const occurrences: ICalDateValue[] = [start]
+
+    if (rruleText) {
+      const rule = this.toRecurrenceRule(rruleText, start.date)
+      if (!rule) {
+        warnings.add(`"${this.getText(component, 'SUMMARY') || 'An event'}" repeats in a way that can't be imported, so only its first occurrence was read`)
+      } else {
+        // Expanding on calendar dates keeps the event's local time across DST changes
+        const windowEnd = new Date(options.windowEnd.getTime() + DAY_MS).toISOString().slice(0, 10)
+        let date: string | null = start.date
+        for (let index = 0; index < this.MAX_RECURRENCE_STEPS; index++) {
+          date = getNextOccurrence(rule, date, index)
+          if (!date || date > windowEnd) break
+          occurrences.push({ ...start, date })
+        }
+      }
+    }
+
+    occurrences.push(...rdates)
+
+    const excluded = new Set(
+      this.getDateList(component, 'EXDATE').map(value => this.instantKey(value, timeZones, options, warnings))
+    )
+    const seen = new Set<string>()
+    return occurrences.filter(occurrence => {
+      const key = this.instantKey(occurrence, timeZones, options, warnings)
+      if (excluded.has(key) || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+
+  /**
+   * Read an RRULE into the task recurrence model. Parts that only restate
+   * DTSTART (BYMONTH of a yearly rule, WKST) are dropped; anything else the
+   * model can't express returns null
+   */
+  private static toRecurrenceRule(text: string, startDate: string): RecurrenceRule | null {
+    const startMonth = String(parseInt(startDate.slice(5, 7), 10))
+    const parts = text.split(';').filter(part => {
+      const [key, value] = part.split('=')
+      const name = key.toUpperCase()
+      if (name === 'WKST') return false
+      if (name === 'BYMONTH' && /FREQ=YEARLY/i.test(text) && value === startMonth) return false
+      return true
+    })
+
+    return parseRecurrenceRule(parts.join(';'))
+  }
+
+  // Timeline position of a value, used to match EXDATE and RECURRENCE-ID against occurrences
+  private static instantKey(
+    value: ICalDateValue,
+    timeZones: Map<string, TimeZoneObservance[]>,
+    options: ICalendarParseOptions,
+    warnings: Set<string>
+  ): string {
+    if (!value.time) return value.date
+    return new Date(this.toInstant(value, timeZones, options, warnings)).toISOString()
+  }
+
+  /**
+   * Milliseconds since the epoch. All-day values are placed at UTC midnight
+   */
+  private static toInstant(
+    value: ICalDateValue,
+    timeZones: Map<string, TimeZoneObservance[]>,
+    options: ICalendarParseOptions,
+    warnings: Set<string>
+  ): number {
+    if (!value.time) return Date.parse(`${value.date}T00:00:00Z`)
+    if (value.tzid === 'UTC') return Date.parse(`${value.date}T${value.time}Z`)
+
+    if (value.tzid) {
+      const ianaZone = this.toIanaZone(value.tzid)
+      if (ianaZone) return Date.parse(zonedTimeToUtc(value.date, value.time, ianaZone))
+
+      const observances = timeZones.get(value.tzid)
+      if (observances && observances.length > 0) {
+        const wallClock = Date.parse(`${value.date}T${value.time}Z`)
+        return wallClock - this.getObservedOffset(observances, wallClock) * MINUTE_MS
+      }
+
+      warnings.add(`Unknown timezone "${value.tzid}"; its times were read as ${options.defaultTimeZone}`)
+    }
+
+    return Date.parse(zonedTimeToUtc(value.date, value.time, options.defaultTimeZone))
+  }
+
+  // Some exporters prefix the IANA name, e.g. "/mozilla.org/20050126_1/America/New_York"
+  private static toIanaZone(tzid: string): string | null {
+    if (isValidTimeZone(tzid)) return tzid
+    const suffix = /([A-Za-z_]+\/[A-Za-z_]+(?:\/[A-Za-z_]+)?)$/.exec(tzid)?.[1]
+    return isValidTimeZone(suffix) ? suffix : null
+  }
+
+  /**
+   * UTC offset in minutes in force at a wall-clock time, from the observance
+   * whose most recent onset is latest
+   */
+  private static getObservedOffset(observances: TimeZoneObservance[], wallClock: number): number {
+    let latest: { onset: number; offset: number } | null = null
+    const year = new Date(wallClock).getUTCFullYear()
+
+    for (const observance of observances) {
+      const start = Date.parse(`${observance.start}Z`)
+      const onsets = observance.rule
+        ? [year, year - 1].map(onsetYear => this.getRuleOnset(observance, onsetYear)).filter((onset): onset is number => onset !== null)
+        : [start]
+
+      for (const onset of onsets) {
+        if (onset < start || onset > wallClock) continue
+        if (!latest || onset > latest.onset) latest = { onset, offset: observance.offsetTo }
+      }
+    }
+
+    if (latest) return latest.offset
+    // Before every onset: the earliest observance's prior offset applies
+    const earliest = [...observances].sort((a, b) => a.start.localeCompare(b.start))[0]
+    return earliest.offsetFrom
+  }
+
+  private static getRuleOnset(observance: TimeZoneObservance, year: number): number | null {
+    const rule = observance.rule!
+    const time = observance.start.slice(11)
+    const lastDay = new Date(Date.UTC(year, rule.month, 0)).getUTCDate()
+    let day: number | undefined
+
+    if (rule.monthDay) {
+      day = rule.monthDay > 0 ? rule.monthDay : lastDay + rule.monthDay + 1
+    } else if (rule.weekday !== undefined) {
+      const matches: number[] = []
+      for (let candidate = 1; candidate <= lastDay; candidate++) {
+        if (new Date(Date.UTC(year, rule.month - 1, candidate)).getUTCDay() === rule.weekday) matches.push(candidate)
+      }
+      const ordinal = rule.ordinal || 1
+      day = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal]
+    }
+
+    if (!day) return null
+    const date = `${year}-${String(rule.month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+    if (rule.until && date > rule.until) return null
+    return Date.parse(`${date}T${time}Z`)
+  }
+
+  private static parseTimeZone(component: ICalComponent): TimeZoneObservance[] {
+    return component.children
+      .filter(child => child.type === 'STANDARD' || child.type === 'DAYLIGHT')
+      .flatMap(child => {
+        const start = this.getProperty(child, 'DTSTART')
+        const startValue = start && this.parseDateValue(start)
+        const offsetFrom = this.parseOffset(this.getValue(child, 'TZOFFSETFROM'))
+        const offsetTo = this.parseOffset(this.getValue(child, 'TZOFFSETTO'))
+        if (!startValue || offsetTo === null) return []
+
+        const observance: TimeZoneObservance = {
+          start: `${startValue.date}T${startValue.time || '00:00:00'}`,
+          offsetFrom: offsetFrom ?? offsetTo,
+          offsetTo
+        }
+
+        const rrule = this.getValue(child, 'RRULE')
+        if (rrule) {
+          const parts = new Map(rrule.split(';').map(part => {
+            const [key, value] = part.split('=')
+            return [key.toUpperCase(), (value || '').toUpperCase()] as [string, string]
+          }))
+          const byDay = parts.get('BYDAY')?.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/)
+          observance.rule = {
+            month: parseInt(parts.get('BYMONTH') || startValue.date.slice(5, 7), 10),
+            ...(byDay && { ordinal: byDay[1] ? parseInt(byDay[1], 10) : 1, weekday: WEEKDAY_CODES.indexOf(byDay[2]) }),
+            ...(parts.get('BYMONTHDAY') && { monthDay: parseInt(parts.get('BYMONTHDAY')!, 10) }),
+            ...(parts.get('UNTIL') && { until: this.parseDateText(parts.get('UNTIL')!)?.date })
+          }
+        }
+
+        return [observance]
+      })
+  }
+
+  // "+0530" / "-0400" as minutes east of UTC
+  private static parseOffset(value: string | undefined): number | null {
+    const match = value?.match(/^([+-])(\d{2})(\d{2})(\d{2})?$/)
+    if (!match) return null
+    const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10)
+    return match[1] === '-' ? -minutes : minutes
+  }
+
+  // "PT1H30M", "P1D", "P2W" as milliseconds
+  private static parseDuration(value: string): number | null {
+    const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i)
+    if (!match) return null
+    const [, sign, weeks, days, hours, minutes, seconds] = match
+    const total =
+      (parseInt(weeks || '0', 10) * 7 + parseInt(days || '0', 10)) * DAY_MS +
+      (parseInt(hours || '0', 10) * 60 + parseInt(minutes || '0', 10)) * MINUTE_MS +
+      parseInt(seconds || '0', 10) * 1000
+    return sign === '-' ? -total : total
+  }
+
+  private static parseDateValue(property: ICalProperty): ICalDateValue | null {
+    const value = this.parseDateText(property.value.split(',')[0])
+    if (!value) return null
+    return value.tzid === null && value.time && property.params.TZID
+      ? { ...value, tzid: property.params.TZID }
+      : value
+  }
+
+  private static parseDateText(text: string): ICalDateValue | null {
+    const match = text.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i)
+    if (!match) return null
+    const [, year, month, day, hour, minute, second, utc] = match
+    return {
+      date: `${year}-${month}-${day}`,
+      time: hour ? `${hour}:${minute}:${second}` : null,
+      tzid: utc ? 'UTC' : null
+    }
+  }
+
+  // EXDATE and RDATE may list several values per line and appear more than once
+  private static getDateList(component: ICalComponent, name: string): ICalDateValue[] {
+    return this.getProperties(component, name).flatMap(property =>
+      property.value
+        .split(',')
+        .map(text => this.parseDateValue({ ...property, value: text }))
+        .filter((value): value is ICalDateValue => value !== null)
+    )
+  }
+
+  private static getProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+    return component.properties.find(property => property.name === name)
+  }
+
+  private static getProperties(component: ICalComponent, name: string): ICalProperty[] {
+    return component.properties.filter(property => property.name === name)
+  }
+
+  private static getValue(component: ICalComponent, name: string): string | undefined {
+    return this.getProperty(component, name)?.value.trim() || undefined
+  }
+
+  private static getText(component: ICalComponent, name: string): string | undefined {
+    const value = this.getValue(component, name)
+    return value ? this.unescape(value).trim() : undefined
+  }
+
+  private static unescape(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char))
+  }
+
+  private static buildTree(lines: string[]): ICalComponent {
+    const root: ICalComponent = { type: 'ROOT', properties: [], children: [] }
+    const stack: ICalComponent[] = [root]
+
+    for (const line of lines) {
+      const property = this.parseLine(line)
+      if (!property) continue
+
+      if (property.name === 'BEGIN') {
+        const component: ICalComponent = { type: property.value.trim().toUpperCase(), properties: [], children: [] }
+        stack[stack.length - 1].children.push(component)
+        stack.push(component)
+      } else if (property.name === 'END') {
+        if (stack.length > 1) stack.pop()
+      } else {
+        stack[stack.length - 1].properties.push(property)
+      }
+    }
+
+    return root
+  }
+
+  // Continuation lines start with a space or tab
+  private static unfold(text: string): string[] {
+    const lines: string[] = []
+    for (const raw of text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)) {
+      if (/^[ \t]/.test(raw) && lines.length > 0) {
+        lines[lines.length - 1] += raw.slice(1)
+      } else {
+        lines.push(raw)
+      }
+    }
+    return lines.filter(line => line.trim() !== '')
+  }
+
+  private static parseLine(line: string): ICalProperty | null {
+    let inQuotes = false
+    let colon = -1
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes
+      else if (line[i] === ':' && !inQuotes) {
+        colon = i
+        break
+      }
+    }
+    if (colon === -1) return null
+
+    const [rawName, ...rawParams] = this.splitUnquoted(line.slice(0, colon), ';')
+    const params: Record<string, string> = {}
+    for (const param of rawParams) {
+      const equals = param.indexOf('=')
+      if (equals === -1) continue
+      params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '')
+    }
+
+    return { name: rawName.toUpperCase(), params, value: line.slice(colon + 1) }
+  }
+
+  private static splitUnquoted(text: string, separator: string): string[] {
+    const parts: string[] = []
+    let current = ''
+    let inQuotes = false
+    for (const char of text) {
+      if (char === '"') inQuotes = !inQuotes
+      if (char === separator && !inQuotes) {
+        parts.push(current)
+        current = ''
+      } else {
+        current += char
+      }
+    }
+    parts.push(current)
+    return parts
+  }
+}
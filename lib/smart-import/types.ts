@@ -1,6 +1,9 @@
 // Smart Import feature types and interfaces
 export interface BusinessCardData {
   name?: string
+  // Structured name parts, when the source has them (vCard N)
+  firstName?: string
+  lastName?: string
   title?: string
   company?: string
   email?: string
@@ -32,6 +35,14 @@ export interface PropertyDetails {
   }
 }
 
+export interface CalendarAttendee {
+  email: string
+  name?: string
+  // ATTENDEE ROLE and PARTSTAT from .ics files, e.g. REQ-PARTICIPANT / ACCEPTED
+  role?: string
+  status?: string
+}
+
 export interface CalendarEvent {
   id: string
   title: string
@@ -41,6 +52,14 @@ export interface CalendarEvent {
   location?: string
   attendees?: string[]
   eventType?: 'showing' | 'meeting' | 'call' | 'inspection' | 'closing' | 'other'
+  // iCalendar UID shared by every occurrence of a recurring event
+  uid?: string
+  // Original start of this occurrence (YYYY-MM-DD for all-day events), set on recurring events
+  recurrenceId?: string
+  // All-day events start at UTC midnight of their date
+  allDay?: boolean
+  organizer?: string
+  attendeeDetails?: CalendarAttendee[]
 }
 
 export interface SmartImportResult<T = unknown> {
@@ -49,7 +68,7 @@ export interface SmartImportResult<T = unknown> {
   errors?: string[]
   warnings?: string[]
   confidence?: number
-  source: 'business-card' | 'email' | 'calendar' | 'manual'
+  source: 'business-card' | 'email' | 'calendar' | 'vcard' | 'manual'
 }
 
 export interface BusinessCardScanResult extends SmartImportResult<BusinessCardData> {
@@ -66,9 +85,20 @@ export interface EmailParseResult extends SmartImportResult<PropertyDetails> {
   }
 }
 
+export interface VCardParseResult extends SmartImportResult<BusinessCardData[]> {
+  version?: string
+}
+
 export interface CalendarImportResult extends SmartImportResult<CalendarEvent[]> {
   tasksCreated?: number
+  // Tasks from an earlier import of the same events, updated in place
+  tasksUpdated?: number
   clientsLinked?: number
+  tasks?: Record<string, any>[]
+}
+
+export interface ICalendarParseResult extends SmartImportResult<CalendarEvent[]> {
+  calendarName?: string
 }
 
 // Configuration interfaces
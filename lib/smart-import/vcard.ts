@@ -0,0 +1,375 @@
+import { BusinessCardData, VCardParseResult } from '@/lib/smart-import/types'
+import { normalizePhone } from '@/lib/clients/duplicates'
+
+export type VCardVersion = '3.0' | '4.0'
+
+export interface VCardContact extends BusinessCardData {
+  uid?: string
+  updatedAt?: string
+}
+
+interface VCardProperty {
+  name: string
+  params: Record<string, string[]>
+  types: string[]
+  value: string
+}
+
+interface ClientLike {
+  id?: string
+  first_name?: string | null
+  last_name?: string | null
+  name?: string | null
+  email?: string | null
+  phone?: string | null
+  address?: string | null
+  company?: string | null
+  updated_at?: string | null
+}
+
+/**
+ * vCard Service
+ * Reads vCard 3.0/4.0 files (one or many contacts, as phones and address
+ * books export them) and writes clients back out as vCards
+ */
+export class VCardConverter {
+  static readonly MIME_TYPE = 'text/vcard'
+  private static readonly MAX_LINE_OCTETS = 75
+
+  /**
+   * Parse a .vcf file into contacts in the same shape the business card
+   * scanner produces, so both feed the same client creation path
+   */
+  static parse(text: string): VCardParseResult {
+    const contacts: BusinessCardData[] = []
+    const warnings: string[] = []
+    const versions = new Set<string>()
+    let current: VCardProperty[] | null = null
+
+    for (const line of this.unfold(text)) {
+      const property = this.parseLine(line)
+      if (!property) continue
+
+      if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VCARD') {
+        current = []
+      } else if (property.name === 'END' && property.value.toUpperCase() === 'VCARD') {
+        if (current) {
+          const contact = this.toContact(current)
+          const version = current.find(p => p.name === 'VERSION')?.value
+          if (version) versions.add(version)
+          if (Object.keys(contact).length > 0) contacts.push(contact)
+          else warnings.push(`Contact ${contacts.length + warnings.length + 1} has no usable fields`)
+        }
+        current = null
+      } else if (current) {
+        current.push(property)
+      }
+    }
+
+    if (contacts.length === 0) {
+      return {
+        success: false,
+        errors: ['No contacts found. Make sure the file is a vCard (.vcf) export.'],
+        source: 'vcard'
+      }
+    }
+
+    const unsupported = [...versions].filter(version => !['2.1', '3.0', '4.0'].includes(version))
+    if (unsupported.length > 0) {
+      warnings.push(`Unrecognized vCard version ${unsupported.join(', ')}; fields were read on a best-effort basis`)
+    }
+
+    return {
+      success: true,
+      data: contacts,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      version: versions.size === 1 ? [...versions][0] : undefined,
+      source: 'vcard'
+    }
+  }
+
+  /**
+   * Fields /api/clients requires that a parsed contact is missing
+   */
+  static getMissingClientFields(contact: BusinessCardData): string[] {
+    const missing: string[] = []
+    const firstName = contact.firstName || contact.name?.split(' ')[0]
+    const lastName = contact.lastName ?? contact.name?.split(' ').slice(1).join(' ')
+    if (!firstName) missing.push('first name')
+    if (!lastName) missing.push('last name')
+    if (!contact.phone) missing.push('phone')
+    return missing
+  }
+
+  static fromClient(client: ClientLike): VCardContact {
+    const name = `${client.first_name || ''} ${client.last_name || ''}`.trim() || client.name || undefined
+    return {
+      uid: client.id,
+      name,
+      firstName: client.first_name || undefined,
+      lastName: client.last_name || undefined,
+      email: client.email || undefined,
+      phone: client.phone || undefined,
+      address: client.address || undefined,
+      company: client.company || undefined,
+      updatedAt: client.updated_at || undefined
+    }
+  }
+
+  /**
+   * Serialize one or more contacts into a single .vcf document
+   */
+  static serialize(contacts: VCardContact[], version: VCardVersion = '3.0'): string {
+    return contacts.map(contact => this.serializeContact(contact, version)).join('')
+  }
+
+  static getFileName(contacts: VCardContact[], fallback = 'contacts'): string {
+    const base = contacts.length === 1 && contacts[0].name ? contacts[0].name : fallback
+    return `${base.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || fallback}.vcf`
+  }
+
+  private static serializeContact(contact: VCardContact, version: VCardVersion): string {
+    const lines = ['BEGIN:VCARD', `VERSION:${version}`, 'PRODID:-//Dealvize//CRM//EN']
+    const fullName = contact.name || [contact.firstName, contact.lastName].filter(Boolean).join(' ') || contact.company || ''
+
+    if (version === '4.0') lines.push('KIND:individual')
+    lines.push(`N:${[contact.lastName || '', contact.firstName || '', '', '', ''].map(part => this.escape(part)).join(';')}`)
+    // FN is required by both versions even when only a company is known
+    lines.push(`FN:${this.escape(fullName)}`)
+    if (contact.company) lines.push(`ORG:${this.escape(contact.company)}`)
+    if (contact.title) lines.push(`TITLE:${this.escape(contact.title)}`)
+
+    if (contact.email) {
+      lines.push(version === '4.0'
+        ? `EMAIL;TYPE=home:${this.escape(contact.email)}`
+        : `EMAIL;TYPE=INTERNET,HOME:${this.escape(contact.email)}`)
+    }
+
+    if (contact.phone) {
+      const e164 = normalizePhone(contact.phone)
+      lines.push(version === '4.0' && e164
+        ? `TEL;VALUE=uri;TYPE=cell:tel:${e164}`
+        : `TEL;TYPE=${version === '4.0' ? 'cell' : 'CELL'}:${this.escape(contact.phone)}`)
+    }
+
+    if (contact.address) {
+      // Stored addresses are free text, so the whole line goes in the street component
+      lines.push(`ADR;TYPE=${version === '4.0' ? 'home' : 'HOME'}:;;${this.escape(contact.address)};;;;`)
+    }
+    if (contact.website) lines.push(`URL:${this.escape(contact.website)}`)
+    if (contact.linkedin) lines.push(`X-SOCIALPROFILE;TYPE=linkedin:${this.escape(contact.linkedin)}`)
+    if (contact.notes) lines.push(`NOTE:${this.escape(contact.notes)}`)
+    if (contact.uid) lines.push(`UID:${version === '4.0' ? `urn:uuid:${contact.uid}` : contact.uid}`)
+    if (contact.updatedAt) lines.push(`REV:${new Date(contact.updatedAt).toISOString().replace(/[-:]|\.\d{3}/g, '')}`)
+    lines.push('END:VCARD')
+
+    return lines.map(line => this.fold(line)).join('\r\n') + '\r\n'
+  }
+
+  // Continuation lines start with a space or tab; vCard 2.1 quoted-printable
+  // values continue after a trailing '='
+  private static unfold(text: string): string[] {
+    const lines: string[] = []
+    for (const raw of text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)) {
+      const previous = lines[lines.length - 1]
+      if (/^[ \t]/.test(raw) && lines.length > 0) {
+        lines[lines.length - 1] = previous + raw.slice(1)
+      } else if (previous !== undefined && /QUOTED-PRINTABLE/i.test(previous.split(':')[0]) && previous.endsWith('=')) {
+        lines[lines.length - 1] = previous.slice(0, -1) + raw
+      } else {
+        lines.push(raw)
+      }
+    }
+    return lines.filter(line => line.trim() !== '')
+  }
+
+  private static fold(line: string): string {
+    const encoder = new TextEncoder()
+    const parts: string[] = []
+    let current = ''
+    let octets = 0
+
+    for (const char of line) {
+      const size = encoder.encode(char).length
+      // Continuation lines lose one octet to the leading space
+      const limit = parts.length === 0 ? this.MAX_LINE_OCTETS : this.MAX_LINE_OCTETS - 1
+      if (octets + size > limit) {
+        parts.push(current)
+        current = ''
+        octets = 0
+      }
+      current += char
+      octets += size
+    }
+    parts.push(current)
+
+    return parts.join('\r\n ')
+  }
+
+  private static parseLine(line: string): VCardProperty | null {
+    let inQuotes = false
+    let colon = -1
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes
+      else if (line[i] === ':' && !inQuotes) {
+        colon = i
+        break
+      }
+    }
+    if (colon === -1) return null
+
+    const [rawName, ...rawParams] = this.splitUnquoted(line.slice(0, colon), ';')
+    // Drop any group prefix, e.g. "item1.EMAIL"
+    const name = rawName.split('.').pop()!.toUpperCase()
+    const params: Record<string, string[]> = {}
+    const types: string[] = []
+
+    for (const param of rawParams) {
+      const equals = param.indexOf('=')
+      // vCard 2.1/3.0 allow bare type names, e.g. "TEL;CELL:"
+      const key = equals === -1 ? 'TYPE' : param.slice(0, equals).toUpperCase()
+      const values = this.splitUnquoted(equals === -1 ? param : param.slice(equals + 1), ',')
+        .map(value => value.replace(/^"|"$/g, ''))
+      params[key] = [...(params[key] || []), ...values]
+      if (key === 'TYPE') types.push(...values.map(value => value.toLowerCase()))
+    }
+
+    let value = line.slice(colon + 1)
+    const encoding = params.ENCODING?.[0]?.toUpperCase()
+    if (encoding === 'QUOTED-PRINTABLE') value = this.decodeQuotedPrintable(value)
+
+    return { name, params, types, value }
+  }
+
+  private static splitUnquoted(text: string, separator: string): string[] {
+    const parts: string[] = []
+    let current = ''
+    let inQuotes = false
+    for (const char of text) {
+      if (char === '"') inQuotes = !inQuotes
+      if (char === separator && !inQuotes) {
+        parts.push(current)
+        current = ''
+      } else {
+        current += char
+      }
+    }
+    parts.push(current)
+    return parts
+  }
+
+  private static decodeQuotedPrintable(value: string): string {
+    const bytes: number[] = []
+    for (let i = 0; i < value.length; i++) {
+      if (value[i] === '=' && /^[0-9A-F]{2}$/i.test(value.slice(i + 1, i + 3))) {
+        bytes.push(parseInt(value.slice(i + 1, i + 3), 16))
+        i += 2
+      } else {
+        bytes.push(...new TextEncoder().encode(value[i]))
+      }
+    }
+    return new TextDecoder().decode(new Uint8Array(bytes))
+  }
+
+  // Split a structured value (N, ADR, ORG) on unescaped semicolons
+  private static components(value: string): string[] {
+    const parts: string[] = []
+    let current = ''
+    for (let i = 0; i < value.length; i++) {
+      if (value[i] === '\\' && i + 1 < value.length) {
+        current += value[i] + value[i + 1]
+        i++
+      } else if (value[i] === ';') {
+        parts.push(current)
+        current = ''
+      } else {
+        current += value[i]
+      }
+    }
+    parts.push(current)
+    return parts.map(part => this.unescape(part).trim())
+  }
+
+  private static unescape(value: string): string {
+    return value.replace(/\\([nN,;\\:])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/\r?\n/g, '\\n')
+      .replace(/,/g, '\\,')
+      .replace(/;/g, '\\;')
+  }
+
+  // PREF=1 (4.0) or TYPE=pref (3.0) wins, then the earliest property
+  private static preferred(properties: VCardProperty[], favoured: string[] = []): VCardProperty | undefined {
+    const rank = (property: VCardProperty) => {
+      const pref = property.params.PREF?.[0]
+      if (pref) return parseInt(pref, 10) || 1
+      if (property.types.includes('pref')) return 1
+      return favoured.some(type => property.types.includes(type)) ? 50 : 100
+    }
+    return [...properties].sort((a, b) => rank(a) - rank(b))[0]
+  }
+
+  private static toContact(properties: VCardProperty[]): BusinessCardData {
+    const all = (name: string) => properties.filter(property => property.name === name && property.value.trim())
+    const contact: BusinessCardData = {}
+
+    const n = all('N')[0]
+    if (n) {
+      const [family, given, additional] = this.components(n.value)
+      const first = [given, additional].filter(Boolean).join(' ')
+      if (first) contact.firstName = first
+      if (family) contact.lastName = family
+    }
+
+    const fn = all('FN')[0]
+    const name = fn ? this.unescape(fn.value).trim() : [contact.firstName, contact.lastName].filter(Boolean).join(' ')
+    if (name) contact.name = name
+
+    const org = all('ORG')[0]
+    if (org) {
+      const company = this.components(org.value)[0]
+      if (company) contact.company = company
+    }
+
+    const title = all('TITLE')[0] || all('ROLE')[0]
+    if (title) contact.title = this.unescape(title.value).trim()
+
+    const email = this.preferred(all('EMAIL'))
+    if (email) contact.email = this.unescape(email.value).replace(/^mailto:/i, '').trim()
+
+    const tel = this.preferred(all('TEL'), ['cell', 'mobile', 'iphone'])
+    if (tel) {
+      // 4.0 phones may be tel: URIs, e.g. "tel:+1-555-555-0100;ext=102"
+      contact.phone = this.unescape(tel.value).replace(/^tel:/i, '').replace(/;ext=/i, ' x').trim()
+    }
+
+    const adr = this.preferred(all('ADR'), ['home'])
+    if (adr) {
+      const [, extended, street, locality, region, postalCode, country] = this.components(adr.value)
+      const address = [
+        [street, extended].filter(Boolean).join(' ').replace(/\s*\n\s*/g, ', '),
+        locality,
+        [region, postalCode].filter(Boolean).join(' '),
+        country
+      ].filter(Boolean).join(', ')
+      if (address) contact.address = address
+    }
+
+    const urls = all('URL').map(property => this.unescape(property.value).trim())
+    const social = [...all('X-SOCIALPROFILE'), ...all('X-LINKEDIN')]
+      .map(property => this.unescape(property.value).trim())
+    const linkedin = [...social, ...urls].find(url => /linkedin\.com/i.test(url))
+    if (linkedin) contact.linkedin = linkedin
+    const website = urls.find(url => url !== linkedin)
+    if (website) contact.website = website
+
+    const notes = all('NOTE').map(property => this.unescape(property.value).trim()).filter(Boolean)
+    if (notes.length > 0) contact.notes = notes.join('\n\n')
+
+    return contact
+  }
+}
@@ -85,6 +85,17 @@ export async function updateSession(request: NextRequest) {
     '/api/webhooks/email',
   ]
 
+  // Secret-link pages and APIs - the token in the path is the credential
+  const publicTokenPrefixes = [
+    '/portal/',
+    '/api/portal/',
+    '/unsubscribe/',
+    '/api/unsubscribe/',
+    '/api/calendar/feed/',
+    '/showing-feedback/',
+    '/api/showing-feedback/',
+  ]
+
   // Auth routes
   const authRoutes = [
     '/auth/signin',
@@ -107,7 +118,7 @@ export async function updateSession(request: NextRequest) {
   // Check if current path is a public API endpoint
   const isPublicApiRoute = publicApiRoutes.some(route =>
     pathname === route || pathname === route + '/'
-  )
+  ) || publicTokenPrefixes.some(prefix => pathname.startsWith(prefix))
 
   // Check if current path is an auth route
   const isAuthRoute = authRoutes.includes(pathname)
@@ -0,0 +1,125 @@
+/**
+ * Task Dependencies
+ * "Blocked by" links between tasks and the checks that flag a task being
+ * worked on, or scheduled, ahead of the tasks it waits on.
+ * Safe to import from client components - no server-only dependencies.
+ */
+
+export interface TaskDependency {
+  id: string
+  user_id: string
+  // The task that has to wait
+  task_id: string
+  // The task that has to be completed first
+  blocked_by_task_id: string
+  created_at: string
+}
+
+// The parts of a related task shown alongside the one being viewed
+export interface RelatedTask {
+  id: string
+  title: string
+  status: string
+  due_date: string | null
+  assigned_to?: string | null
+}
+
+export type DependencyViolationType = 'started_while_blocked' | 'due_before_blocker'
+
+export interface DependencyViolation {
+  type: DependencyViolationType
+  blocker: RelatedTask
+}
+
+export function isTaskCompleted(status: string | null | undefined): boolean {
+  return status?.toLowerCase() === 'completed'
+}
+
+function isTaskStarted(status: string | null | undefined): boolean {
+  const normalized = status?.toLowerCase().replace(/[\s_-]/g, '')
+  return normalized === 'inprogress' || normalized === 'completed'
+}
+
+export function getOpenBlockers(blockers: RelatedTask[]): RelatedTask[] {
+  return blockers.filter(blocker => !isTaskCompleted(blocker.status))
+}
+
+/**
+ * Ways a task is out of step with its open blockers: already started or done
+ * while one is open, or due before one of them is
+ */
+export function getDependencyViolations(
+  task: { status: string; due_date: string | null },
+  blockers: RelatedTask[]
+): DependencyViolation[] {
+  const violations: DependencyViolation[] = []
+
+  for (const blocker of getOpenBlockers(blockers)) {
+    if (isTaskStarted(task.status)) {
+      violations.push({ type: 'started_while_blocked', blocker })
+    } else if (task.due_date && blocker.due_date && new Date(task.due_date) < new Date(blocker.due_date)) {
+      violations.push({ type: 'due_before_blocker', blocker })
+    }
+  }
+
+  return violations
+}
+
+export function describeDependencyViolation(violation: DependencyViolation): string {
+  return violation.type === 'started_while_blocked'
+    ? `Started before "${violation.blocker.title}" was completed`
+    : `Due before "${violation.blocker.title}", which it waits on`
+}
+
+/**
+ * Whether making `taskId` wait on `blockerId` would close a loop, i.e. the
+ * blocker already waits on the task, directly or through other tasks
+ */
+export function wouldCreateCycle(
+  dependencies: Pick<TaskDependency, 'task_id' | 'blocked_by_task_id'>[],
+  taskId: string,
+  blockerId: string
+): boolean {
+  if (taskId === blockerId) return true
+
+  const visited = new Set<string>()
+  const pending = [blockerId]
+
+  while (pending.length > 0) {
+    const current = pending.pop()!
+    if (current === taskId) return true
+    if (visited.has(current)) continue
+    visited.add(current)
+    for (const dependency of dependencies) {
+      if (dependency.task_id === current) pending.push(dependency.blocked_by_task_id)
+    }
+  }
+
+  return false
+}
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+function parseDueDate(dueDate: string): Date {
+  return new Date(DATE_ONLY_REGEX.test(dueDate) ? `${dueDate}T00:00:00Z` : dueDate)
+}
+
+/**
+ * Move a due date by whole days, keeping date-only values date-only
+ */
+export function shiftDueDate(dueDate: string, days: number): string {
+  const date = parseDueDate(dueDate)
+  date.setUTCDate(date.getUTCDate() + days)
+  return DATE_ONLY_REGEX.test(dueDate) ? date.toISOString().slice(0, 10) : date.toISOString()
+}
+
+/**
+ * Whole days between two due dates
+ */
+export function getDueDateShiftDays(from: string, to: string): number {
+  const toUtcDay = (value: string) => {
+    const date = parseDueDate(value)
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  }
+  return Math.round((toUtcDay(to) - toUtcDay(from)) / (24 * 60 * 60 * 1000))
+}
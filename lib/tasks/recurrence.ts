@@ -0,0 +1,449 @@
+/**
+ * Task Recurrence
+ * The subset of RFC 5545 RRULE used for repeating tasks: FREQ (DAILY, WEEKLY,
+ * MONTHLY, YEARLY) with INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL.
+ * Occurrences are calendar dates (YYYY-MM-DD) in the user's timezone.
+ * Safe to import from client components - no server-only dependencies.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'
+
+// Which occurrences an edit to a recurring task applies to
+export type RecurrenceEditScope = 'this' | 'future'
+
+export interface RecurrenceByDay {
+  weekday: Weekday
+  // MONTHLY only: 1 = first, -1 = last
+  ordinal?: number
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  byDay?: RecurrenceByDay[]
+  byMonthDay?: number[]
+  count?: number
+  // Inclusive, YYYY-MM-DD
+  until?: string
+}
+
+export interface ProjectedOccurrence {
+  date: string
+  index: number
+}
+
+// A later occurrence of a repeating task, projected for the calendar
+export interface ProjectedTaskOccurrence {
+  task_id: string
+  series_id: string
+  title: string
+  priority: string
+  type: string
+  recurrence_rule: string
+  client_id: string | null
+  deal_id: string | null
+  date: string
+  due_date: string
+  index: number
+}
+
+export const RECURRENCE_FREQUENCIES: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: 'DAILY', label: 'Daily', unit: 'day' },
+  { value: 'WEEKLY', label: 'Weekly', unit: 'week' },
+  { value: 'MONTHLY', label: 'Monthly', unit: 'month' },
+  { value: 'YEARLY', label: 'Yearly', unit: 'year' }
+]
+
+// Week starts on Monday (RRULE's default WKST)
+export const WEEKDAYS: { value: Weekday; label: string; short: string }[] = [
+  { value: 'MO', label: 'Monday', short: 'Mon' },
+  { value: 'TU', label: 'Tuesday', short: 'Tue' },
+  { value: 'WE', label: 'Wednesday', short: 'Wed' },
+  { value: 'TH', label: 'Thursday', short: 'Thu' },
+  { value: 'FR', label: 'Friday', short: 'Fri' },
+  { value: 'SA', label: 'Saturday', short: 'Sat' },
+  { value: 'SU', label: 'Sunday', short: 'Sun' }
+]
+
+export const MAX_RECURRENCE_INTERVAL = 999
+
+// Upper bound on steps when looking ahead, so a rule that rarely matches
+// (e.g. the 5th Friday every 12 months) can't loop forever
+const MAX_ITERATIONS = 1000
+
+const ORDINAL_LABELS: Record<string, string> = {
+  '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '5': 'fifth', '-1': 'last'
+}
+
+const DATE_KEY_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function addDays(key: string, days: number): string {
+  const date = fromDateKey(key)
+  date.setUTCDate(date.getUTCDate() + days)
+  return toDateKey(date)
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+// Monday = 0 ... Sunday = 6
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7
+}
+
+function weekdayPosition(weekday: Weekday): number {
+  return WEEKDAYS.findIndex(option => option.value === weekday)
+}
+
+function parseInteger(value: string): number | null {
+  return /^[+-]?\d+$/.test(value) ? parseInt(value, 10) : null
+}
+
+function parseUntil(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/)
+  if (!match) return null
+  const key = `${match[1]}-${match[2]}-${match[3]}`
+  return toDateKey(fromDateKey(key)) === key ? key : null
+}
+
+function parseRule(input: string): { rule?: RecurrenceRule; error?: string } {
+  const value = input.trim().replace(/^RRULE:/i, '')
+  if (!value) return { error: 'Recurrence rule is empty' }
+
+  const parts = new Map<string, string>()
+  for (const part of value.split(';')) {
+    const [key, partValue] = part.split('=')
+    if (!key || partValue === undefined || partValue === '') {
+      return { error: `Malformed recurrence rule part "${part}"` }
+    }
+    parts.set(key.toUpperCase(), partValue.toUpperCase())
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined
+  if (!freq) return { error: 'Recurrence rule must include FREQ' }
+  if (!RECURRENCE_FREQUENCIES.some(option => option.value === freq)) {
+    return { error: `Unsupported frequency ${freq}` }
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 }
+
+  for (const [key, partValue] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break
+      case 'INTERVAL': {
+        const interval = parseInteger(partValue)
+        if (!interval || interval < 1 || interval > MAX_RECURRENCE_INTERVAL) {
+          return { error: `INTERVAL must be between 1 and ${MAX_RECURRENCE_INTERVAL}` }
+        }
+        rule.interval = interval
+        break
+      }
+      case 'BYDAY': {
+        if (freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+          return { error: 'BYDAY is only supported for weekly and monthly rules' }
+        }
+        const byDay: RecurrenceByDay[] = []
+        for (const item of partValue.split(',')) {
+          const match = item.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/)
+          if (!match) return { error: `Invalid BYDAY value ${item}` }
+          const byDayItem: RecurrenceByDay = { weekday: match[2] as Weekday }
+          if (match[1]) {
+            const ordinal = parseInt(match[1], 10)
+            if (freq !== 'MONTHLY') return { error: 'Numbered BYDAY values need a monthly rule' }
+            if (!ORDINAL_LABELS[String(ordinal)]) return { error: `Invalid BYDAY position ${item}` }
+            byDayItem.ordinal = ordinal
+          }
+          byDay.push(byDayItem)
+        }
+        rule.byDay = byDay
+        break
+      }
+      case 'BYMONTHDAY': {
+        if (freq !== 'MONTHLY') return { error: 'BYMONTHDAY is only supported for monthly rules' }
+        const byMonthDay: number[] = []
+        for (const item of partValue.split(',')) {
+          const day = parseInteger(item)
+          if (!day || day < -31 || day > 31) return { error: `Invalid BYMONTHDAY value ${item}` }
+          byMonthDay.push(day)
+        }
+        rule.byMonthDay = byMonthDay
+        break
+      }
+      case 'COUNT': {
+        const count = parseInteger(partValue)
+        if (!count || count < 1) return { error: 'COUNT must be a positive number' }
+        rule.count = count
+        break
+      }
+      case 'UNTIL': {
+        const until = parseUntil(partValue)
+        if (!until) return { error: 'UNTIL must be a date like 20261231' }
+        rule.until = until
+        break
+      }
+      default:
+        return { error: `Unsupported recurrence rule part ${key}` }
+    }
+  }
+
+  if (rule.count && rule.until) return { error: 'Use either COUNT or UNTIL, not both' }
+  if (rule.byDay && rule.byMonthDay) return { error: 'Use either BYDAY or BYMONTHDAY, not both' }
+
+  return { rule }
+}
+
+export function parseRecurrenceRule(input: string | null | undefined): RecurrenceRule | null {
+  if (!input) return null
+  return parseRule(input).rule || null
+}
+
+/**
+ * Why a rule can't be used, or null when it parses
+ */
+export function getRecurrenceRuleError(input: string): string | null {
+  return parseRule(input).error || null
+}
+
+export function serializeRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`)
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`)
+  return parts.join(';')
+}
+
+function describeMonthDay(day: number): string {
+  if (day === -1) return 'the last day'
+  if (day < 0) return `${Math.abs(day)} days before month end`
+  return `day ${day}`
+}
+
+/**
+ * Plain-English summary, e.g. "Every 2 weeks on Mon, Fri, 10 times"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const frequency = RECURRENCE_FREQUENCIES.find(option => option.value === rule.freq)!
+  let description = rule.interval === 1
+    ? frequency.label
+    : `Every ${rule.interval} ${frequency.unit}s`
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(day => {
+      const option = WEEKDAYS[weekdayPosition(day.weekday)]
+      return day.ordinal ? `the ${ORDINAL_LABELS[String(day.ordinal)]} ${option.label}` : option.short
+    })
+    description += ` on ${days.join(', ')}`
+  } else if (rule.byMonthDay?.length) {
+    description += ` on ${rule.byMonthDay.map(describeMonthDay).join(', ')}`
+  }
+
+  if (rule.count) {
+    description += rule.count === 1 ? ', once' : `, ${rule.count} times`
+  } else if (rule.until) {
+    description += `, until ${fromDateKey(rule.until).toLocaleDateString('en-US', {
+      month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC'
+    })}`
+  }
+
+  return description
+}
+
+// Matching days of a month, ascending. The anchor day is used when the rule
+// names no days, so "monthly" from the 15th stays on the 15th
+function monthlyDays(rule: RecurrenceRule, year: number, month: number, anchorDay: number): number[] {
+  const lastDay = daysInMonth(year, month)
+  const days = new Set<number>()
+
+  if (rule.byMonthDay?.length) {
+    for (const day of rule.byMonthDay) {
+      const resolved = day > 0 ? day : lastDay + day + 1
+      if (resolved >= 1 && resolved <= lastDay) days.add(resolved)
+    }
+  } else if (rule.byDay?.length) {
+    const firstWeekday = weekdayIndex(new Date(Date.UTC(year, month, 1)))
+    for (const byDay of rule.byDay) {
+      const firstMatch = 1 + ((weekdayPosition(byDay.weekday) - firstWeekday + 7) % 7)
+      const matches: number[] = []
+      for (let day = firstMatch; day <= lastDay; day += 7) matches.push(day)
+      if (!byDay.ordinal) {
+        matches.forEach(day => days.add(day))
+      } else {
+        const match = byDay.ordinal > 0 ? matches[byDay.ordinal - 1] : matches[matches.length + byDay.ordinal]
+        if (match) days.add(match)
+      }
+    }
+  } else if (anchorDay <= lastDay) {
+    days.add(anchorDay)
+  }
+
+  return Array.from(days).sort((a, b) => a - b)
+}
+
+function nextCandidate(rule: RecurrenceRule, from: string): string | null {
+  const date = fromDateKey(from)
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return addDays(from, rule.interval)
+
+    case 'WEEKLY': {
+      const current = weekdayIndex(date)
+      const positions = rule.byDay?.length
+        ? Array.from(new Set(rule.byDay.map(day => weekdayPosition(day.weekday)))).sort((a, b) => a - b)
+        : [current]
+      const laterThisWeek = positions.find(position => position > current)
+      if (laterThisWeek !== undefined) return addDays(from, laterThisWeek - current)
+      return addDays(from, 7 * rule.interval - current + positions[0])
+    }
+
+    case 'MONTHLY': {
+      const anchorDay = date.getUTCDate()
+      const laterThisMonth = monthlyDays(rule, date.getUTCFullYear(), date.getUTCMonth(), anchorDay)
+        .find(day => day > anchorDay)
+      if (laterThisMonth) {
+        return toDateKey(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), laterThisMonth)))
+      }
+      for (let step = 1; step <= MAX_ITERATIONS; step++) {
+        const month = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + step * rule.interval, 1))
+        const days = monthlyDays(rule, month.getUTCFullYear(), month.getUTCMonth(), anchorDay)
+        if (days.length) {
+          return toDateKey(new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), days[0])))
+        }
+      }
+      return null
+    }
+
+    case 'YEARLY': {
+      // Feb 29 only recurs in leap years
+      for (let step = 1; step <= MAX_ITERATIONS; step++) {
+        const year = date.getUTCFullYear() + step * rule.interval
+        if (date.getUTCDate() <= daysInMonth(year, date.getUTCMonth())) {
+          return toDateKey(new Date(Date.UTC(year, date.getUTCMonth(), date.getUTCDate())))
+        }
+      }
+      return null
+    }
+  }
+}
+
+/**
+ * The occurrence after `occurrenceDate`, which is occurrence number `index`
+ * (0-based) of the series, or null once COUNT or UNTIL is reached
+ */
+export function getNextOccurrence(rule: RecurrenceRule, occurrenceDate: string, index: number): string | null {
+  if (rule.count && index + 1 >= rule.count) return null
+  const next = nextCandidate(rule, occurrenceDate)
+  if (!next) return null
+  if (rule.until && next > rule.until) return null
+  return next
+}
+
+/**
+ * Occurrences still to come after the given one that fall within the range
+ * (inclusive, YYYY-MM-DD)
+ */
+export function projectOccurrences(
+  rule: RecurrenceRule,
+  occurrenceDate: string,
+  index: number,
+  rangeStart: string,
+  rangeEnd: string
+): ProjectedOccurrence[] {
+  const occurrences: ProjectedOccurrence[] = []
+  let date: string | null = occurrenceDate
+  let current = index
+
+  for (let step = 0; step < MAX_ITERATIONS && date; step++) {
+    date = getNextOccurrence(rule, date, current)
+    current++
+    if (!date || date > rangeEnd) break
+    if (date >= rangeStart) occurrences.push({ date, index: current })
+  }
+
+  return occurrences
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The wall-clock date (YYYY-MM-DD) and time (HH:MM:SS) of an instant in a timezone
+ */
+export function zonedParts(instant: Date, timeZone: string): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(instant)
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '00'
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}:${get('second')}`
+  }
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function zoneOffset(instant: number, timeZone: string): number {
+  const { date, time } = zonedParts(new Date(instant), timeZone)
+  const wallClock = Date.parse(`${date}T${time}Z`)
+  return wallClock - Math.floor(instant / 1000) * 1000
+}
+
+/**
+ * The UTC instant of a wall-clock date and time (HH:MM:SS) in a timezone
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): string {
+  const wallClock = Date.parse(`${date}T${time}Z`)
+  let instant = wallClock - zoneOffset(wallClock, timeZone)
+  // Second pass lands on the right side of a DST change
+  instant = wallClock - zoneOffset(instant, timeZone)
+  return new Date(instant).toISOString()
+}
+
+/**
+ * The calendar date a due date falls on for the user. Date-only due dates are
+ * already calendar dates; timestamps are converted to the user's timezone
+ */
+export function getOccurrenceDate(dueDate: string, timeZone: string): string {
+  if (DATE_KEY_REGEX.test(dueDate)) return dueDate
+  return zonedParts(new Date(dueDate), timeZone).date
+}
+
+/**
+ * Moves a due date to another calendar date, keeping its local time of day so
+ * a 9am task stays at 9am across daylight saving changes
+ */
+export function moveDueDateTo(dueDate: string, occurrenceDate: string, timeZone: string): string {
+  if (DATE_KEY_REGEX.test(dueDate)) return occurrenceDate
+  const { time } = zonedParts(new Date(dueDate), timeZone)
+  return zonedTimeToUtc(occurrenceDate, time, timeZone)
+}
@@ -0,0 +1,295 @@
+/**
+ * Recurring Tasks - each occurrence is its own task row linked by
+ * recurrence_series_id. Completing an occurrence creates the next one, and
+ * future occurrences are only projected (never stored) until then.
+ */
+
+import { randomUUID } from 'crypto'
+import { AppError } from '@/lib/errors'
+import { defaultUserPreferences } from '@/lib/user/preferences'
+import {
+  getNextOccurrence,
+  getOccurrenceDate,
+  getRecurrenceRuleError,
+  isValidTimeZone,
+  moveDueDateTo,
+  parseRecurrenceRule,
+  projectOccurrences,
+  serializeRecurrenceRule,
+  type ProjectedTaskOccurrence,
+  type RecurrenceEditScope
+} from '@/lib/tasks/recurrence'
+
+export interface RecurrenceFields {
+  recurrence_rule: string | null
+  recurrence_series_id?: string
+  recurrence_index?: number
+  occurrence_date?: string
+}
+
+export interface RecurrenceChange {
+  // undefined leaves the rule alone, null stops the series repeating
+  recurrence_rule?: string | null
+  due_date?: string | null
+  scope: RecurrenceEditScope
+}
+
+// Fields copied from one occurrence to the next. Each occurrence carries the
+// series' values in recurrence_template, so a "this occurrence" edit to one of
+// them isn't copied forward
+const SERIES_FIELDS = ['title', 'description', 'priority', 'type', 'client_id', 'deal_id', 'assigned_to', 'reminder_offsets'] as const
+
+/**
+ * The series values to store in recurrence_template, taken from a task
+ */
+export function buildSeriesTemplate(task: Record<string, any>): Record<string, any> {
+  const template: Record<string, any> = {}
+  for (const field of SERIES_FIELDS) {
+    template[field] = task[field] ?? null
+  }
+  return template
+}
+
+/**
+ * The recurrence_template to write with an edit, or undefined to leave it.
+ * Starting a series or an "all future" edit takes the edited values; a
+ * "this occurrence" edit keeps the series values from before it
+ */
+export function resolveSeriesTemplate(
+  task: any,
+  updates: Record<string, any>,
+  recurrenceFields: Partial<RecurrenceFields>,
+  scope: RecurrenceEditScope
+): Record<string, any> | undefined {
+  const edited = { ...task }
+  for (const [field, value] of Object.entries(updates)) {
+    if (value !== undefined) edited[field] = value
+  }
+
+  if (recurrenceFields.recurrence_series_id) return buildSeriesTemplate(edited)
+  if (!task.recurrence_series_id) return undefined
+  if (scope === 'future') return buildSeriesTemplate(edited)
+  // Rows from before templates were stored pin their values now
+  return task.recurrence_template ? undefined : buildSeriesTemplate(task)
+}
+
+/**
+ * The user's timezone preference, falling back to the server default
+ */
+export async function getUserTimezone(supabase: any, userId: string): Promise<string> {
+  const { data } = await supabase
+    .from('user_preferences')
+    .select('preferences')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  const timeZone = data?.preferences?.timezone
+  return isValidTimeZone(timeZone) ? timeZone : defaultUserPreferences.timezone
+}
+
+function normalizeRule(ruleString: string): string {
+  const error = getRecurrenceRuleError(ruleString)
+  if (error) throw new AppError(error, 400, 'INVALID_RECURRENCE_RULE')
+  return serializeRecurrenceRule(parseRecurrenceRule(ruleString)!)
+}
+
+/**
+ * Recurrence columns for a task that starts a new series
+ */
+export function buildSeriesFields(ruleString: string, dueDate: string | null | undefined, timeZone: string): RecurrenceFields {
+  const recurrenceRule = normalizeRule(ruleString)
+  if (!dueDate) {
+    throw new AppError('A repeating task needs a due date', 400, 'RECURRENCE_REQUIRES_DUE_DATE')
+  }
+
+  return {
+    recurrence_rule: recurrenceRule,
+    recurrence_series_id: randomUUID(),
+    recurrence_index: 0,
+    occurrence_date: getOccurrenceDate(dueDate, timeZone)
+  }
+}
+
+/**
+ * Recurrence columns to write on the edited occurrence. A "this occurrence"
+ * edit leaves the series schedule alone, so moving one occurrence doesn't
+ * move the ones after it; an "all future" edit re-anchors the series here
+ */
+export function resolveRecurrenceChange(task: any, change: RecurrenceChange, timeZone: string): Partial<RecurrenceFields> {
+  const dueDate = change.due_date ?? task.due_date
+
+  if (change.recurrence_rule === undefined) {
+    if (change.scope === 'future' && task.recurrence_rule && change.due_date) {
+      return { occurrence_date: getOccurrenceDate(change.due_date, timeZone) }
+    }
+    return {}
+  }
+
+  if (change.recurrence_rule === null) {
+    if (task.recurrence_rule && change.scope === 'this') {
+      throw new AppError('Stopping a repeating task applies to all future occurrences', 400, 'RECURRENCE_SCOPE_REQUIRED')
+    }
+    return { recurrence_rule: null }
+  }
+
+  const recurrenceRule = normalizeRule(change.recurrence_rule)
+  if (!task.recurrence_series_id) {
+    return buildSeriesFields(recurrenceRule, dueDate, timeZone)
+  }
+
+  if (recurrenceRule === task.recurrence_rule && change.scope === 'this') return {}
+  if (change.scope === 'this') {
+    throw new AppError('Changing how a task repeats applies to all future occurrences', 400, 'RECURRENCE_SCOPE_REQUIRED')
+  }
+  if (!dueDate) {
+    throw new AppError('A repeating task needs a due date', 400, 'RECURRENCE_REQUIRES_DUE_DATE')
+  }
+
+  return {
+    recurrence_rule: recurrenceRule,
+    occurrence_date: getOccurrenceDate(dueDate, timeZone)
+  }
+}
+
+/**
+ * Apply an "all future" edit to occurrences after this one that are still open
+ * (only present when an earlier occurrence was completed and then reopened)
+ */
+export async function updateFutureOccurrences(
+  supabase: any,
+  userId: string,
+  task: any,
+  updates: Record<string, any>
+): Promise<void> {
+  if (!task.recurrence_series_id) return
+
+  const seriesUpdates: Record<string, any> = {}
+  for (const field of [...SERIES_FIELDS, 'recurrence_rule', 'recurrence_template']) {
+    if (updates[field] !== undefined) seriesUpdates[field] = updates[field]
+  }
+  if (Object.keys(seriesUpdates).length === 0) return
+
+  const { error } = await supabase
+    .from('tasks')
+    .update(seriesUpdates)
+    .eq('user_id', userId)
+    .eq('recurrence_series_id', task.recurrence_series_id)
+    .gt('recurrence_index', task.recurrence_index ?? 0)
+    .neq('status', 'Completed')
+
+  if (error) {
+    console.error('Error updating future occurrences:', error)
+    throw new AppError('Failed to update future occurrences', 500, 'DATABASE_ERROR')
+  }
+}
+
+/**
+ * Create the occurrence after a completed one. Completing the same occurrence
+ * twice returns the occurrence created the first time
+ */
+export async function generateNextOccurrence(supabase: any, task: any): Promise<any | null> {
+  if (!task.recurrence_rule || !task.recurrence_series_id || !task.occurrence_date || !task.due_date) return null
+
+  const rule = parseRecurrenceRule(task.recurrence_rule)
+  if (!rule) return null
+
+  const index = task.recurrence_index ?? 0
+  const nextDate = getNextOccurrence(rule, task.occurrence_date, index)
+  if (!nextDate) return null
+
+  const { data: existing } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('recurrence_series_id', task.recurrence_series_id)
+    .eq('recurrence_index', index + 1)
+    .maybeSingle()
+
+  if (existing) return existing
+
+  const timeZone = await getUserTimezone(supabase, task.user_id)
+  const nextTask: Record<string, any> = {
+    user_id: task.user_id,
+    status: 'Pending',
+    due_date: moveDueDateTo(task.due_date, nextDate, timeZone),
+    recurrence_rule: task.recurrence_rule,
+    recurrence_series_id: task.recurrence_series_id,
+    recurrence_index: index + 1,
+    occurrence_date: nextDate
+  }
+  const template = task.recurrence_template || buildSeriesTemplate(task)
+  for (const field of SERIES_FIELDS) {
+    nextTask[field] = template[field] ?? null
+  }
+  nextTask.recurrence_template = buildSeriesTemplate(template)
+
+  const { data: created, error } = await supabase
+    .from('tasks')
+    .insert(nextTask)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating next occurrence:', error)
+    return null
+  }
+
+  return created
+}
+
+/**
+ * Upcoming occurrences of open recurring tasks within a date range
+ * (YYYY-MM-DD, inclusive), for showing on the calendar
+ */
+export async function listProjectedOccurrences(
+  supabase: any,
+  userId: string,
+  from: string,
+  to: string
+): Promise<ProjectedTaskOccurrence[]> {
+  const { data: tasks, error } = await supabase
+    .from('tasks')
+    .select('id, title, priority, type, client_id, deal_id, due_date, recurrence_rule, recurrence_series_id, recurrence_index, occurrence_date')
+    .eq('user_id', userId)
+    .not('recurrence_rule', 'is', null)
+    .neq('status', 'Completed')
+
+  if (error) {
+    console.error('Error fetching recurring tasks:', error)
+    throw new AppError('Failed to fetch recurring tasks', 500, 'DATABASE_ERROR')
+  }
+
+  // Project from the latest open occurrence of each series only
+  const latestBySeries = new Map<string, any>()
+  for (const task of tasks || []) {
+    if (!task.recurrence_series_id || !task.occurrence_date || !task.due_date) continue
+    const latest = latestBySeries.get(task.recurrence_series_id)
+    if (!latest || (task.recurrence_index ?? 0) > (latest.recurrence_index ?? 0)) {
+      latestBySeries.set(task.recurrence_series_id, task)
+    }
+  }
+
+  const timeZone = await getUserTimezone(supabase, userId)
+  const occurrences: ProjectedTaskOccurrence[] = []
+
+  for (const task of latestBySeries.values()) {
+    const rule = parseRecurrenceRule(task.recurrence_rule)
+    if (!rule) continue
+    for (const occurrence of projectOccurrences(rule, task.occurrence_date, task.recurrence_index ?? 0, from, to)) {
+      occurrences.push({
+        task_id: task.id,
+        series_id: task.recurrence_series_id,
+        title: task.title,
+        priority: task.priority,
+        type: task.type,
+        recurrence_rule: task.recurrence_rule,
+        client_id: task.client_id,
+        deal_id: task.deal_id,
+        date: occurrence.date,
+        due_date: moveDueDateTo(task.due_date, occurrence.date, timeZone),
+        index: occurrence.index
+      })
+    }
+  }
+
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date))
+}
@@ -0,0 +1,227 @@
+/**
+ * Task Reminders
+ * When a task's reminders come due, snoozing them, quiet hours and the
+ * morning overdue digest. Offsets are minutes before the due time; a task
+ * without its own offsets uses the user's defaults.
+ * Safe to import from client components - no server-only dependencies.
+ */
+
+import { defaultUserPreferences, type UserPreferences } from '@/lib/user/preferences'
+import { isDateKey } from '@/lib/calendar/schedule'
+import { isTaskCompleted } from '@/lib/tasks/dependencies'
+import { zonedParts, zonedTimeToUtc } from '@/lib/tasks/recurrence'
+
+export type ReminderSnooze = '1h' | 'tomorrow'
+
+export type TaskReminderSettings = UserPreferences['reminders']
+
+export interface QuietHours {
+  enabled: boolean
+  startTime: string
+  endTime: string
+}
+
+export interface ReminderTask {
+  due_date: string | null
+  status: string | null
+  reminder_offsets?: number[] | null
+  reminders_sent?: string[] | null
+  reminder_snoozed_until?: string | null
+}
+
+export type DueTaskReminder =
+  | { kind: 'offset'; offset: number; key: string }
+  | { kind: 'snoozed' }
+
+export const TASK_REMINDER_OFFSETS: { value: number; label: string }[] = [
+  { value: 0, label: 'At due time' },
+  { value: 15, label: '15 minutes before' },
+  { value: 60, label: '1 hour before' },
+  { value: 120, label: '2 hours before' },
+  { value: 1440, label: '1 day before' },
+  { value: 2880, label: '2 days before' },
+  { value: 10080, label: '1 week before' }
+]
+
+export const REMINDER_SNOOZES: { value: ReminderSnooze; label: string }[] = [
+  { value: '1h', label: 'Snooze 1 hour' },
+  { value: 'tomorrow', label: 'Remind me tomorrow' }
+]
+
+export const MAX_REMINDER_OFFSETS = 5
+export const MAX_REMINDER_OFFSET_MINUTES = 10080
+// Date-only tasks have no time, so their reminders count back from this
+export const DATE_ONLY_REMINDER_TIME = '09:00'
+// The at-due-time reminder may still go out this long after the due time
+// (a late cron run or quiet hours); after that the task waits for the digest
+export const REMINDER_GRACE_MINUTES = 60
+// The morning digest goes out within this many hours of the digest time
+export const DIGEST_WINDOW_HOURS = 3
+
+const MINUTE_MS = 60 * 1000
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export function isReminderTime(value: unknown): value is string {
+  return typeof value === 'string' && TIME_REGEX.test(value)
+}
+
+export function getReminderOffsetLabel(offset: number): string {
+  const option = TASK_REMINDER_OFFSETS.find(candidate => candidate.value === offset)
+  if (option) return option.label
+  if (offset % 1440 === 0) return `${offset / 1440} days before`
+  if (offset % 60 === 0) return `${offset / 60} hours before`
+  return `${offset} minutes before`
+}
+
+/**
+ * Offsets as stored - whole minutes, unique, largest (earliest reminder) first
+ */
+export function normalizeReminderOffsets(offsets: number[]): number[] {
+  return Array.from(new Set(offsets.map(offset => Math.round(offset))))
+    .filter(offset => offset >= 0 && offset <= MAX_REMINDER_OFFSET_MINUTES)
+    .sort((a, b) => b - a)
+    .slice(0, MAX_REMINDER_OFFSETS)
+}
+
+/**
+ * The user's reminder settings with defaults filled in for anything missing
+ */
+export function getReminderSettings(preferences: Partial<UserPreferences> | null | undefined): TaskReminderSettings {
+  const stored: Partial<TaskReminderSettings> = preferences?.reminders || {}
+  const defaults = defaultUserPreferences.reminders
+  return {
+    defaultOffsets: Array.isArray(stored.defaultOffsets)
+      ? normalizeReminderOffsets(stored.defaultOffsets)
+      : defaults.defaultOffsets,
+    overdueDigest: typeof stored.overdueDigest === 'boolean' ? stored.overdueDigest : defaults.overdueDigest,
+    digestTime: isReminderTime(stored.digestTime) ? stored.digestTime : defaults.digestTime
+  }
+}
+
+// An empty list on the task turns its reminders off; null falls back to the defaults
+export function getTaskReminderOffsets(task: Pick<ReminderTask, 'reminder_offsets'>, settings: TaskReminderSettings): number[] {
+  return Array.isArray(task.reminder_offsets) ? task.reminder_offsets : settings.defaultOffsets
+}
+
+/**
+ * The instant reminders count back from
+ */
+export function getReminderAnchor(dueDate: string, timeZone: string): Date {
+  return new Date(isDateKey(dueDate) ? zonedTimeToUtc(dueDate, `${DATE_ONLY_REMINDER_TIME}:00`, timeZone) : dueDate)
+}
+
+// Sent reminders are keyed by due date, so moving the task re-arms them
+function reminderKey(offset: number, dueDate: string): string {
+  return `${offset}@${dueDate}`
+}
+
+/**
+ * The reminder to send for a task now, if any. Only the closest reminder that
+ * has come due is sent, so a task created an hour before it's due doesn't
+ * also get its one-day reminder
+ */
+export function getDueTaskReminder(
+  task: ReminderTask,
+  settings: TaskReminderSettings,
+  timeZone: string,
+  now: Date = new Date()
+): DueTaskReminder | null {
+  if (!task.due_date || isTaskCompleted(task.status)) return null
+
+  if (task.reminder_snoozed_until) {
+    return new Date(task.reminder_snoozed_until).getTime() <= now.getTime() ? { kind: 'snoozed' } : null
+  }
+
+  const anchor = getReminderAnchor(task.due_date, timeZone).getTime()
+  if (now.getTime() >= anchor + REMINDER_GRACE_MINUTES * MINUTE_MS) return null
+
+  const reached = getTaskReminderOffsets(task, settings)
+    .filter(offset => anchor - offset * MINUTE_MS <= now.getTime())
+  if (reached.length === 0) return null
+
+  const offset = Math.min(...reached)
+  const key = reminderKey(offset, task.due_date)
+  if ((task.reminders_sent || []).includes(key)) return null
+
+  return { kind: 'offset', offset, key }
+}
+
+/**
+ * Reminder keys to store once a reminder went out - every offset that has
+ * come due for the current due date. Keys for earlier due dates are dropped
+ */
+export function markRemindersSent(
+  task: ReminderTask,
+  settings: TaskReminderSettings,
+  timeZone: string,
+  now: Date = new Date()
+): string[] {
+  if (!task.due_date) return []
+  const dueDate = task.due_date
+  const anchor = getReminderAnchor(dueDate, timeZone).getTime()
+  const reached = getTaskReminderOffsets(task, settings)
+    .filter(offset => anchor - offset * MINUTE_MS <= now.getTime())
+    .map(offset => reminderKey(offset, dueDate))
+  const current = (task.reminders_sent || []).filter(key => key.endsWith(`@${dueDate}`))
+  return Array.from(new Set([...current, ...reached]))
+}
+
+function addDaysToDateKey(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().split('T')[0]
+}
+
+/**
+ * When a snoozed reminder comes back: an hour from now, or tomorrow morning
+ * at the user's digest time
+ */
+export function getSnoozeUntil(
+  snooze: ReminderSnooze,
+  settings: TaskReminderSettings,
+  timeZone: string,
+  now: Date = new Date()
+): string {
+  if (snooze === '1h') return new Date(now.getTime() + 60 * MINUTE_MS).toISOString()
+  const tomorrow = addDaysToDateKey(zonedParts(now, timeZone).date, 1)
+  return zonedTimeToUtc(tomorrow, `${settings.digestTime}:00`, timeZone)
+}
+
+/**
+ * Whether the user's local time is inside their quiet hours. A window that
+ * crosses midnight (22:00 - 08:00) covers both sides of it
+ */
+export function isInQuietHours(quietHours: QuietHours | null | undefined, timeZone: string, now: Date = new Date()): boolean {
+  if (!quietHours?.enabled || !isReminderTime(quietHours.startTime) || !isReminderTime(quietHours.endTime)) return false
+
+  const time = zonedParts(now, timeZone).time.slice(0, 5)
+  const { startTime, endTime } = quietHours
+  if (startTime === endTime) return false
+  return startTime > endTime
+    ? time >= startTime || time < endTime
+    : time >= startTime && time < endTime
+}
+
+/**
+ * Past due as the user sees it - date-only tasks are overdue from the next day
+ */
+export function isTaskOverdue(task: Pick<ReminderTask, 'due_date' | 'status'>, timeZone: string, now: Date = new Date()): boolean {
+  if (!task.due_date || isTaskCompleted(task.status)) return false
+  if (isDateKey(task.due_date)) return task.due_date < zonedParts(now, timeZone).date
+  return new Date(task.due_date).getTime() < now.getTime()
+}
+
+/**
+ * Whether the morning digest window is open for the user. Returns the local
+ * date it covers, so each day's digest is sent once
+ */
+export function getDigestDate(settings: TaskReminderSettings, timeZone: string, now: Date = new Date()): string | null {
+  if (!settings.overdueDigest) return null
+
+  const { date, time } = zonedParts(now, timeZone)
+  const [hours, minutes] = settings.digestTime.split(':').map(Number)
+  const [nowHours, nowMinutes] = time.split(':').map(Number)
+  const minutesSince = nowHours * 60 + nowMinutes - (hours * 60 + minutes)
+
+  return minutesSince >= 0 && minutesSince < DIGEST_WINDOW_HOURS * 60 ? date : null
+}
@@ -0,0 +1,336 @@
+/**
+ * Task Dependencies and Subtasks - "blocked by" links in task_dependencies,
+ * one level of subtasks through tasks.parent_task_id, the notification sent
+ * when a task's last blocker is completed, and shifting dependents' due dates
+ */
+
+import { AppError, ConflictError, NotFoundError } from '@/lib/errors'
+import { notificationManager } from '@/lib/notifications/manager'
+import {
+  getOpenBlockers,
+  isTaskCompleted,
+  shiftDueDate,
+  wouldCreateCycle,
+  type RelatedTask
+} from '@/lib/tasks/dependencies'
+
+export interface TaskRelations {
+  parent: RelatedTask | null
+  subtasks: RelatedTask[]
+  blocked_by: RelatedTask[]
+  blocking: RelatedTask[]
+}
+
+export interface SubtaskInput {
+  title: string
+  due_date?: string | null
+  priority?: 'Low' | 'Medium' | 'High'
+}
+
+const RELATED_TASK_COLUMNS = 'id, title, status, due_date, assigned_to'
+
+async function getOwnedTask(supabase: any, userId: string, taskId: string) {
+  const { data: task } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!task) throw new NotFoundError('Task')
+  return task
+}
+
+async function getTasksByIds(supabase: any, userId: string, ids: string[]): Promise<RelatedTask[]> {
+  if (ids.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(RELATED_TASK_COLUMNS)
+    .eq('user_id', userId)
+    .in('id', ids)
+
+  if (error) {
+    console.error('Error fetching related tasks:', error)
+    throw new AppError('Failed to fetch related tasks', 500, 'DATABASE_ERROR')
+  }
+
+  return data || []
+}
+
+/**
+ * Parent, subtasks, blockers and the tasks waiting on one task
+ */
+export async function getTaskRelations(supabase: any, userId: string, taskId: string): Promise<TaskRelations> {
+  const task = await getOwnedTask(supabase, userId, taskId)
+
+  const [{ data: dependencies, error }, { data: subtasks }] = await Promise.all([
+    supabase
+      .from('task_dependencies')
+      .select('task_id, blocked_by_task_id')
+      .eq('user_id', userId)
+      .or(`task_id.eq.${taskId},blocked_by_task_id.eq.${taskId}`),
+    supabase
+      .from('tasks')
+      .select(RELATED_TASK_COLUMNS)
+      .eq('user_id', userId)
+      .eq('parent_task_id', taskId)
+      .order('created_at', { ascending: true })
+  ])
+
+  if (error) {
+    console.error('Error fetching task dependencies:', error)
+    throw new AppError('Failed to fetch task dependencies', 500, 'DATABASE_ERROR')
+  }
+
+  const blockerIds = (dependencies || []).filter((d: any) => d.task_id === taskId).map((d: any) => d.blocked_by_task_id)
+  const blockingIds = (dependencies || []).filter((d: any) => d.blocked_by_task_id === taskId).map((d: any) => d.task_id)
+  const related = await getTasksByIds(
+    supabase,
+    userId,
+    [...blockerIds, ...blockingIds, ...(task.parent_task_id ? [task.parent_task_id] : [])]
+  )
+
+  return {
+    parent: related.find(t => t.id === task.parent_task_id) || null,
+    subtasks: subtasks || [],
+    blocked_by: related.filter(t => blockerIds.includes(t.id)),
+    blocking: related.filter(t => blockingIds.includes(t.id))
+  }
+}
+
+/**
+ * Make one task wait on another. Links that would form a loop are refused
+ */
+export async function addTaskDependency(supabase: any, userId: string, taskId: string, blockerId: string) {
+  if (taskId === blockerId) {
+    throw new AppError('A task cannot be blocked by itself', 400, 'INVALID_DEPENDENCY')
+  }
+
+  await getOwnedTask(supabase, userId, taskId)
+  await getOwnedTask(supabase, userId, blockerId)
+
+  const { data: dependencies, error: fetchError } = await supabase
+    .from('task_dependencies')
+    .select('id, task_id, blocked_by_task_id')
+    .eq('user_id', userId)
+
+  if (fetchError) {
+    console.error('Error fetching task dependencies:', fetchError)
+    throw new AppError('Failed to fetch task dependencies', 500, 'DATABASE_ERROR')
+  }
+
+  const existing = (dependencies || []).find((d: any) => d.task_id === taskId && d.blocked_by_task_id === blockerId)
+  if (existing) return existing
+
+  if (wouldCreateCycle(dependencies || [], taskId, blockerId)) {
+    throw new ConflictError('That task already waits on this one, so it cannot block it')
+  }
+
+  const { data: dependency, error } = await supabase
+    .from('task_dependencies')
+    .insert({ user_id: userId, task_id: taskId, blocked_by_task_id: blockerId })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating task dependency:', error)
+    throw new AppError('Failed to add dependency', 500, 'DATABASE_ERROR')
+  }
+
+  return dependency
+}
+
+export async function removeTaskDependency(supabase: any, userId: string, taskId: string, blockerId: string) {
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .delete()
+    .eq('user_id', userId)
+    .eq('task_id', taskId)
+    .eq('blocked_by_task_id', blockerId)
+    .select('id')
+
+  if (error) {
+    console.error('Error removing task dependency:', error)
+    throw new AppError('Failed to remove dependency', 500, 'DATABASE_ERROR')
+  }
+  if (!data || data.length === 0) throw new NotFoundError('Dependency')
+}
+
+/**
+ * Add a subtask under a task, inheriting its client and deal
+ */
+export async function createSubtask(supabase: any, userId: string, parentId: string, input: SubtaskInput) {
+  const parent = await getOwnedTask(supabase, userId, parentId)
+  if (parent.parent_task_id) {
+    throw new AppError('Subtasks cannot have subtasks of their own', 400, 'NESTED_SUBTASK')
+  }
+
+  const { data: subtask, error } = await supabase
+    .from('tasks')
+    .insert({
+      user_id: userId,
+      parent_task_id: parentId,
+      title: input.title,
+      description: '',
+      due_date: input.due_date || null,
+      priority: input.priority || parent.priority || 'Medium',
+      status: 'Pending',
+      type: parent.type || 'Other',
+      client_id: parent.client_id || null,
+      deal_id: parent.deal_id || null
+    })
+    .select(RELATED_TASK_COLUMNS)
+    .single()
+
+  if (error) {
+    console.error('Error creating subtask:', error)
+    throw new AppError('Failed to create subtask', 500, 'DATABASE_ERROR')
+  }
+
+  return subtask
+}
+
+/**
+ * Attach blockers, subtask progress and the parent title to a page of tasks
+ */
+export async function attachTaskRelations(supabase: any, userId: string, tasks: any[]): Promise<any[]> {
+  if (tasks.length === 0) return tasks
+
+  const ids = tasks.map(task => task.id)
+  const [{ data: dependencies }, { data: subtasks }] = await Promise.all([
+    supabase
+      .from('task_dependencies')
+      .select('task_id, blocked_by_task_id')
+      .eq('user_id', userId)
+      .in('task_id', ids),
+    supabase
+      .from('tasks')
+      .select('parent_task_id, status')
+      .eq('user_id', userId)
+      .in('parent_task_id', ids)
+  ])
+
+  const parentIds = tasks.map(task => task.parent_task_id).filter(Boolean)
+  const blockerIds = (dependencies || []).map((d: any) => d.blocked_by_task_id)
+  const related = await getTasksByIds(supabase, userId, Array.from(new Set([...blockerIds, ...parentIds])))
+  const relatedById = new Map(related.map(task => [task.id, task]))
+
+  return tasks.map(task => {
+    const taskSubtasks = (subtasks || []).filter((subtask: any) => subtask.parent_task_id === task.id)
+    const parent = task.parent_task_id ? relatedById.get(task.parent_task_id) : null
+    return {
+      ...task,
+      blockers: (dependencies || [])
+        .filter((d: any) => d.task_id === task.id)
+        .map((d: any) => relatedById.get(d.blocked_by_task_id))
+        .filter(Boolean),
+      subtask_count: taskSubtasks.length,
+      subtasks_completed: taskSubtasks.filter((subtask: any) => isTaskCompleted(subtask.status)).length,
+      parent: parent ? { id: parent.id, title: parent.title } : null
+    }
+  })
+}
+
+/**
+ * Tell the assignee of each task the completed one was blocking, once nothing
+ * else blocks it. Failures are logged so they never undo the completion
+ */
+export async function notifyUnblockedTasks(supabase: any, completedTask: any): Promise<void> {
+  try {
+    const { data: dependents } = await supabase
+      .from('task_dependencies')
+      .select('task_id')
+      .eq('user_id', completedTask.user_id)
+      .eq('blocked_by_task_id', completedTask.id)
+
+    const dependentIds = (dependents || []).map((d: any) => d.task_id)
+    if (dependentIds.length === 0) return
+
+    const { data: allBlockers } = await supabase
+      .from('task_dependencies')
+      .select('task_id, blocked_by_task_id')
+      .eq('user_id', completedTask.user_id)
+      .in('task_id', dependentIds)
+
+    const tasks = await getTasksByIds(
+      supabase,
+      completedTask.user_id,
+      Array.from(new Set([...dependentIds, ...(allBlockers || []).map((d: any) => d.blocked_by_task_id)]))
+    )
+    const tasksById = new Map(tasks.map(task => [task.id, task]))
+
+    for (const dependentId of dependentIds) {
+      const dependent = tasksById.get(dependentId)
+      if (!dependent || isTaskCompleted(dependent.status)) continue
+
+      const blockers = (allBlockers || [])
+        .filter((d: any) => d.task_id === dependentId)
+        .map((d: any) => tasksById.get(d.blocked_by_task_id))
+        .filter(Boolean) as RelatedTask[]
+      if (getOpenBlockers(blockers).length > 0) continue
+
+      await notificationManager.taskUnblocked(
+        dependent.id,
+        `Ready to start: ${dependent.title}`,
+        `"${completedTask.title}" is done, so "${dependent.title}" is no longer blocked.`,
+        dependent.assigned_to || completedTask.user_id,
+        { task_id: dependent.id, unblocked_by: completedTask.id }
+      )
+    }
+  } catch (error) {
+    console.error('Error notifying unblocked tasks:', error)
+  }
+}
+
+/**
+ * Move the open subtasks and dependents of a task, and theirs in turn, by
+ * the same number of days its due date moved. Returns how many were moved
+ */
+export async function shiftDependentTasks(supabase: any, userId: string, taskId: string, days: number): Promise<number> {
+  if (days === 0) return 0
+
+  const visited = new Set<string>([taskId])
+  let frontier = [taskId]
+  let shifted = 0
+
+  while (frontier.length > 0) {
+    const [{ data: dependencies }, { data: subtasks }] = await Promise.all([
+      supabase
+        .from('task_dependencies')
+        .select('task_id')
+        .eq('user_id', userId)
+        .in('blocked_by_task_id', frontier),
+      supabase
+        .from('tasks')
+        .select('id')
+        .eq('user_id', userId)
+        .in('parent_task_id', frontier)
+    ])
+
+    const nextIds = [
+      ...(dependencies || []).map((d: any) => d.task_id),
+      ...(subtasks || []).map((subtask: any) => subtask.id)
+    ].filter(id => !visited.has(id))
+    nextIds.forEach(id => visited.add(id))
+
+    const nextTasks = await getTasksByIds(supabase, userId, Array.from(new Set(nextIds)))
+    for (const task of nextTasks) {
+      if (!task.due_date || isTaskCompleted(task.status)) continue
+      const { error } = await supabase
+        .from('tasks')
+        .update({ due_date: shiftDueDate(task.due_date, days) })
+        .eq('id', task.id)
+        .eq('user_id', userId)
+      if (error) {
+        console.error('Error shifting dependent task:', error)
+        continue
+      }
+      shifted++
+    }
+
+    frontier = nextTasks.map(task => task.id)
+  }
+
+  return shifted
+}
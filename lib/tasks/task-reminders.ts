@@ -0,0 +1,355 @@
+/**
+ * Task Reminder Delivery - the reminder and morning digest run behind the
+ * task-reminders cron, and snoozing a reminder from its notification
+ */
+
+import { AppError, NotFoundError } from '@/lib/errors'
+import { notificationManager } from '@/lib/notifications/manager'
+import { sendTaskReminderEmail } from '@/lib/notifications/email'
+import type { NotificationChannel } from '@/lib/notifications/types'
+import { defaultUserPreferences, type UserPreferences } from '@/lib/user/preferences'
+import { isDateKey } from '@/lib/calendar/schedule'
+import { isValidTimeZone, zonedParts } from '@/lib/tasks/recurrence'
+import {
+  MAX_REMINDER_OFFSET_MINUTES,
+  REMINDER_GRACE_MINUTES,
+  REMINDER_SNOOZES,
+  getDigestDate,
+  getDueTaskReminder,
+  getReminderOffsetLabel,
+  getReminderSettings,
+  getSnoozeUntil,
+  isInQuietHours,
+  isTaskOverdue,
+  markRemindersSent,
+  type ReminderSnooze,
+  type TaskReminderSettings
+} from '@/lib/tasks/reminders'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const TASK_PAGE_SIZE = 1000
+
+interface RecipientContext {
+  email: string | null
+  timeZone: string
+  settings: TaskReminderSettings
+  preferences: UserPreferences
+}
+
+export interface ReminderRunResult {
+  task_id?: string
+  user_id: string
+  kind: 'reminder' | 'snoozed' | 'digest'
+  success: boolean
+  error?: string
+}
+
+/**
+ * Every task a query matches, read a page at a time in due date order. A
+ * single capped batch let a pile of stale tasks anywhere crowd out everyone else
+ */
+async function loadTaskPages(buildQuery: () => any, description: string): Promise<any[]> {
+  const tasks: any[] = []
+  for (let from = 0; ; from += TASK_PAGE_SIZE) {
+    const { data, error } = await buildQuery()
+      .order('due_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + TASK_PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load ${description}: ${error.message}`)
+    tasks.push(...(data || []))
+    if (!data || data.length < TASK_PAGE_SIZE) return tasks
+  }
+}
+
+// Reminders go to whoever the task is assigned to, or its owner
+function getRecipientId(task: any): string {
+  return task.assigned_to || task.user_id
+}
+
+/**
+ * Preferences, timezone and email for every recipient in one pass
+ */
+async function loadRecipients(serviceClient: any, userIds: string[]): Promise<Map<string, RecipientContext>> {
+  const recipients = new Map<string, RecipientContext>()
+  if (userIds.length === 0) return recipients
+
+  const [{ data: preferenceRows }, { data: users }] = await Promise.all([
+    serviceClient.from('user_preferences').select('user_id, preferences').in('user_id', userIds),
+    serviceClient.from('users').select('id, email').in('id', userIds)
+  ])
+
+  for (const userId of userIds) {
+    const stored = (preferenceRows || []).find((row: any) => row.user_id === userId)?.preferences || {}
+    const preferences: UserPreferences = { ...defaultUserPreferences, ...stored }
+    recipients.set(userId, {
+      email: (users || []).find((user: any) => user.id === userId)?.email || null,
+      timeZone: isValidTimeZone(preferences.timezone) ? preferences.timezone : defaultUserPreferences.timezone,
+      settings: getReminderSettings(preferences),
+      preferences
+    })
+  }
+
+  return recipients
+}
+
+// Email goes out directly; in-app and push go through the notification manager
+function getNotificationChannels(preferences: UserPreferences): NotificationChannel[] {
+  const channels: NotificationChannel[] = []
+  if (preferences.inAppNotifications?.taskDeadlines !== false) channels.push('in_app')
+  if (preferences.pushNotifications?.enabled && !preferences.pushNotifications.urgentOnly) channels.push('push')
+  return channels
+}
+
+function wantsEmail(recipient: RecipientContext): boolean {
+  return Boolean(recipient.email) && recipient.preferences.emailNotifications?.taskReminders !== false
+}
+
+function describeDue(task: any, timeZone: string, now: Date): string {
+  if (isDateKey(task.due_date)) {
+    if (task.due_date === zonedParts(now, timeZone).date) return 'is due today'
+    const day = new Date(`${task.due_date}T12:00:00Z`)
+    return `is due ${day.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })}`
+  }
+
+  const due = new Date(task.due_date)
+  if (due.getTime() <= now.getTime()) return 'is due now'
+  const minutes = Math.round((due.getTime() - now.getTime()) / MINUTE_MS)
+  if (minutes < 60) return `is due in ${minutes} minutes`
+  if (minutes < 24 * 60) return `is due in ${Math.round(minutes / 60)} hours`
+  return `is due ${due.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone })}`
+}
+
+async function deliverReminder(task: any, recipientId: string, recipient: RecipientContext, reason: string, now: Date) {
+  const title = `Reminder: ${task.title}`
+  const message = `"${task.title}" ${describeDue(task, recipient.timeZone, now)}.`
+
+  const channels = getNotificationChannels(recipient.preferences)
+  if (channels.length > 0) {
+    await notificationManager.taskReminder(task.id, title, message, recipientId, {
+      channels,
+      data: { task_id: task.id, due_date: task.due_date, reminder: reason },
+      actions: REMINDER_SNOOZES.map(snooze => ({
+        id: `snooze_${snooze.value}`,
+        label: snooze.label,
+        type: 'api_call' as const,
+        url: `/api/tasks/${task.id}/snooze`,
+        method: 'POST' as const,
+        payload: { snooze: snooze.value },
+        style: 'secondary' as const
+      }))
+    })
+  }
+
+  if (wantsEmail(recipient)) {
+    await sendTaskReminderEmail(recipient.email!, [{ id: task.id, title: task.title, dueDate: task.due_date }])
+  }
+}
+
+/**
+ * Send every task reminder that has come due and record it on the task.
+ * Reminders that land in the recipient's quiet hours wait for the next run
+ * after they end. Runs from the task-reminders cron with the service client
+ */
+export async function sendDueTaskReminders(serviceClient: any, now: Date = new Date()): Promise<ReminderRunResult[]> {
+  // Date-only tasks are anchored inside their day, so look a day wider each side
+  const windowStart = new Date(now.getTime() - REMINDER_GRACE_MINUTES * MINUTE_MS - DAY_MS).toISOString()
+  const windowEnd = new Date(now.getTime() + MAX_REMINDER_OFFSET_MINUTES * MINUTE_MS + DAY_MS).toISOString()
+
+  const [upcoming, snoozed] = await Promise.all([
+    loadTaskPages(() => serviceClient
+      .from('tasks')
+      .select('id, user_id, assigned_to, title, due_date, status, reminder_offsets, reminders_sent, reminder_snoozed_until')
+      .neq('status', 'Completed')
+      .gte('due_date', windowStart)
+      .lt('due_date', windowEnd), 'tasks for reminders'),
+    loadTaskPages(() => serviceClient
+      .from('tasks')
+      .select('id, user_id, assigned_to, title, due_date, status, reminder_offsets, reminders_sent, reminder_snoozed_until')
+      .neq('status', 'Completed')
+      .lte('reminder_snoozed_until', now.toISOString()), 'snoozed tasks for reminders')
+  ])
+
+  const tasks = new Map<string, any>()
+  for (const task of [...upcoming, ...snoozed]) tasks.set(task.id, task)
+
+  const recipients = await loadRecipients(
+    serviceClient,
+    Array.from(new Set(Array.from(tasks.values()).map(getRecipientId)))
+  )
+
+  const results: ReminderRunResult[] = []
+
+  for (const task of tasks.values()) {
+    const recipientId = getRecipientId(task)
+    const recipient = recipients.get(recipientId)
+    if (!recipient) continue
+
+    const reminder = getDueTaskReminder(task, recipient.settings, recipient.timeZone, now)
+    if (!reminder) continue
+    if (isInQuietHours(recipient.preferences.pushNotifications?.quietHours, recipient.timeZone, now)) continue
+
+    try {
+      await deliverReminder(
+        task,
+        recipientId,
+        recipient,
+        reminder.kind === 'snoozed' ? 'snoozed' : getReminderOffsetLabel(reminder.offset),
+        now
+      )
+
+      // A snoozed reminder stands in for any that came due while it was snoozed
+      const { error: updateError } = await serviceClient
+        .from('tasks')
+        .update({
+          reminders_sent: markRemindersSent(task, recipient.settings, recipient.timeZone, now),
+          reminder_snoozed_until: null
+        })
+        .eq('id', task.id)
+
+      if (updateError) throw new Error(updateError.message)
+
+      results.push({ task_id: task.id, user_id: recipientId, kind: reminder.kind === 'snoozed' ? 'snoozed' : 'reminder', success: true })
+    } catch (error) {
+      console.error(`Error sending reminder for task ${task.id}:`, error)
+      results.push({
+        task_id: task.id,
+        user_id: recipientId,
+        kind: reminder.kind === 'snoozed' ? 'snoozed' : 'reminder',
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  return results
+}
+
+/**
+ * Send each user one roll-up of their overdue tasks in their morning digest
+ * window. task_reminder_digests (unique on user and date) is claimed before
+ * sending, so overlapping runs can't send the same day's digest twice; a
+ * failed send releases the claim so the next run tries again
+ */
+export async function sendOverdueDigests(serviceClient: any, now: Date = new Date()): Promise<ReminderRunResult[]> {
+  const overdue = await loadTaskPages(() => serviceClient
+    .from('tasks')
+    .select('id, user_id, assigned_to, title, due_date, status')
+    .neq('status', 'Completed')
+    .lt('due_date', now.toISOString()), 'overdue tasks')
+
+  const byRecipient = new Map<string, any[]>()
+  for (const task of overdue) {
+    const recipientId = getRecipientId(task)
+    byRecipient.set(recipientId, [...(byRecipient.get(recipientId) || []), task])
+  }
+
+  const recipients = await loadRecipients(serviceClient, Array.from(byRecipient.keys()))
+  const results: ReminderRunResult[] = []
+
+  for (const [recipientId, candidates] of byRecipient) {
+    const recipient = recipients.get(recipientId)
+    if (!recipient) continue
+
+    const digestDate = getDigestDate(recipient.settings, recipient.timeZone, now)
+    if (!digestDate) continue
+    if (isInQuietHours(recipient.preferences.pushNotifications?.quietHours, recipient.timeZone, now)) continue
+
+    const tasks = candidates.filter(task => isTaskOverdue(task, recipient.timeZone, now))
+    if (tasks.length === 0) continue
+
+    const { error: claimError } = await serviceClient
+      .from('task_reminder_digests')
+      .insert({ user_id: recipientId, digest_date: digestDate, task_count: tasks.length, sent_at: now.toISOString() })
+
+    if (claimError) {
+      // Already sent today
+      if (claimError.code === '23505') continue
+      results.push({ user_id: recipientId, kind: 'digest', success: false, error: claimError.message })
+      continue
+    }
+
+    try {
+      const channels = getNotificationChannels(recipient.preferences)
+      const title = tasks.length === 1 ? '1 overdue task' : `${tasks.length} overdue tasks`
+      const listed = tasks.slice(0, 3).map(task => `"${task.title}"`).join(', ')
+      const message = tasks.length > 3 ? `${listed} and ${tasks.length - 3} more are past due.` : `${listed} ${tasks.length === 1 ? 'is' : 'are'} past due.`
+
+      if (channels.length > 0) {
+        await notificationManager.overdueTaskDigest(title, message, recipientId, channels, {
+          task_ids: tasks.map(task => task.id),
+          digest_date: digestDate
+        })
+      }
+
+      if (wantsEmail(recipient)) {
+        await sendTaskReminderEmail(
+          recipient.email!,
+          tasks.map(task => ({ id: task.id, title: task.title, dueDate: task.due_date }))
+        )
+      }
+
+      results.push({ user_id: recipientId, kind: 'digest', success: true })
+    } catch (error) {
+      console.error(`Error sending overdue digest to ${recipientId}:`, error)
+
+      const { error: releaseError } = await serviceClient
+        .from('task_reminder_digests')
+        .delete()
+        .eq('user_id', recipientId)
+        .eq('digest_date', digestDate)
+      if (releaseError) {
+        console.error(`Error releasing overdue digest claim for ${recipientId}:`, releaseError)
+      }
+
+      results.push({
+        user_id: recipientId,
+        kind: 'digest',
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  return results
+}
+
+/**
+ * Push a task's next reminder out by an hour or to tomorrow morning. Only the
+ * task's owner or assignee can snooze it
+ */
+export async function snoozeTaskReminder(
+  supabase: any,
+  userId: string,
+  taskId: string,
+  snooze: ReminderSnooze,
+  now: Date = new Date()
+): Promise<{ task_id: string; snoozed_until: string }> {
+  const { data: task } = await supabase
+    .from('tasks')
+    .select('id, status, due_date')
+    .eq('id', taskId)
+    .or(`user_id.eq.${userId},assigned_to.eq.${userId}`)
+    .maybeSingle()
+
+  if (!task) throw new NotFoundError('Task')
+  if (task.status === 'Completed') {
+    throw new AppError('Completed tasks have no reminders to snooze', 400, 'TASK_COMPLETED')
+  }
+
+  const recipient = (await loadRecipients(supabase, [userId])).get(userId)!
+  const snoozedUntil = getSnoozeUntil(snooze, recipient.settings, recipient.timeZone, now)
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({ reminder_snoozed_until: snoozedUntil })
+    .eq('id', taskId)
+
+  if (error) {
+    console.error('Error snoozing task reminder:', error)
+    throw new AppError('Failed to snooze reminder', 500, 'DATABASE_ERROR')
+  }
+
+  return { task_id: taskId, snoozed_until: snoozedUntil }
+}
@@ -0,0 +1,62 @@
+/**
+ * Tenant Plans - per-plan usage limits
+ * A limit of -1 means unlimited
+ */
+
+export type PlanType = 'starter' | 'professional' | 'enterprise'
+
+export interface PlanLimits {
+  max_users: number
+  max_clients: number
+  max_deals: number
+  max_storage_gb: number
+  max_api_calls_per_month: number
+  max_email_sends_per_month: number
+  max_sms_sends_per_month: number
+  max_automations: number
+  max_custom_fields: number
+}
+
+const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
+  starter: {
+    max_users: 5,
+    max_clients: 1000,
+    max_deals: 500,
+    max_storage_gb: 5,
+    max_api_calls_per_month: 1000,
+    max_email_sends_per_month: 1000,
+    max_sms_sends_per_month: 100,
+    max_automations: 5,
+    max_custom_fields: 10
+  },
+  professional: {
+    max_users: 25,
+    max_clients: 10000,
+    max_deals: 5000,
+    max_storage_gb: 50,
+    max_api_calls_per_month: 10000,
+    max_email_sends_per_month: 10000,
+    max_sms_sends_per_month: 1000,
+    max_automations: 25,
+    max_custom_fields: 50
+  },
+  enterprise: {
+    max_users: -1, // unlimited
+    max_clients: -1,
+    max_deals: -1,
+    max_storage_gb: -1,
+    max_api_calls_per_month: -1,
+    max_email_sends_per_month: -1,
+    max_sms_sends_per_month: -1,
+    max_automations: -1,
+    max_custom_fields: -1
+  }
+}
+
+export function getPlanLimits(planType: string | null | undefined): PlanLimits {
+  return PLAN_LIMITS[planType as PlanType] || PLAN_LIMITS.starter
+}
+
+export function isWithinLimit(limit: number, used: number): boolean {
+  return limit < 0 || used < limit
+}
@@ -0,0 +1,144 @@
+// Typed transaction contingencies: deadline, status, extension history and alert windows.
+// Safe to import from client components - no server-only dependencies.
+
+import { zonedParts } from '@/lib/tasks/recurrence'
+
+export type ContingencyType =
+  | 'inspection'
+  | 'financing'
+  | 'appraisal'
+  | 'hoa_docs'
+  | 'sale_of_home'
+  | 'earnest_money'
+
+export type ContingencyStatus = 'pending' | 'satisfied' | 'waived' | 'extended'
+
+export type DeadlineAlertKey = '72h' | '24h' | 'day_of'
+
+export interface ContingencyExtension {
+  previous_deadline: string
+  new_deadline: string
+  reason: string | null
+  extended_by: string
+  extended_at: string
+}
+
+export interface TransactionContingency {
+  id: string
+  transaction_id: string
+  user_id: string
+  type: ContingencyType
+  deadline: string
+  status: ContingencyStatus
+  notes: string | null
+  extensions: ContingencyExtension[]
+  alerts_sent: DeadlineAlertKey[]
+  resolved_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// earnest_money is not a contingency as such, but its due date is tracked and alerted the same way
+export const CONTINGENCY_TYPES: { value: ContingencyType; label: string }[] = [
+  { value: 'inspection', label: 'Inspection' },
+  { value: 'financing', label: 'Financing' },
+  { value: 'appraisal', label: 'Appraisal' },
+  { value: 'hoa_docs', label: 'HOA Documents' },
+  { value: 'sale_of_home', label: 'Sale of Home' },
+  { value: 'earnest_money', label: 'Earnest Money' }
+]
+
+export const CONTINGENCY_STATUSES: ContingencyStatus[] = ['pending', 'satisfied', 'waived', 'extended']
+
+// Ordered least to most urgent
+export const DEADLINE_ALERTS: { key: DeadlineAlertKey; hours: number; priority: 'medium' | 'high' | 'urgent' }[] = [
+  { key: '72h', hours: 72, priority: 'medium' },
+  { key: '24h', hours: 24, priority: 'high' },
+  { key: 'day_of', hours: 0, priority: 'urgent' }
+]
+
+const HOUR_MS = 60 * 60 * 1000
+
+export function getContingencyLabel(type: string): string {
+  return CONTINGENCY_TYPES.find(option => option.value === type)?.label || type
+}
+
+export function isContingencyType(value: string): value is ContingencyType {
+  return CONTINGENCY_TYPES.some(option => option.value === value)
+}
+
+/**
+ * Pending and extended contingencies still have a live deadline
+ */
+export function isContingencyOpen(contingency: Pick<TransactionContingency, 'status'>): boolean {
+  return contingency.status === 'pending' || contingency.status === 'extended'
+}
+
+// Same calendar day for the user, not in UTC
+function isSameDay(a: Date, b: Date, timeZone: string): boolean {
+  return zonedParts(a, timeZone).date === zonedParts(b, timeZone).date
+}
+
+/**
+ * The most urgent alert window the deadline has entered that has not been sent yet
+ * Earlier windows are skipped once a later one applies, so a deadline entered
+ * 10 hours out only produces the 24h alert (then the day-of alert)
+ */
+export function getDueDeadlineAlert(
+  contingency: Pick<TransactionContingency, 'deadline' | 'status' | 'alerts_sent'>,
+  now: Date = new Date(),
+  timeZone: string = 'UTC'
+) {
+  if (!isContingencyOpen(contingency)) return null
+
+  const deadline = new Date(contingency.deadline)
+  const hoursLeft = (deadline.getTime() - now.getTime()) / HOUR_MS
+
+  const reached = DEADLINE_ALERTS.filter(alert =>
+    alert.key === 'day_of'
+      ? isSameDay(deadline, now, timeZone) || hoursLeft < 0
+      : hoursLeft <= alert.hours
+  )
+  const mostUrgent = reached[reached.length - 1]
+  if (!mostUrgent) return null
+
+  const sent = contingency.alerts_sent || []
+  if (sent.includes(mostUrgent.key)) return null
+
+  return mostUrgent
+}
+
+/**
+ * Alert keys to store after sending `key` - it and every less urgent window
+ */
+export function markAlertsSent(alreadySent: DeadlineAlertKey[], key: DeadlineAlertKey): DeadlineAlertKey[] {
+  const index = DEADLINE_ALERTS.findIndex(alert => alert.key === key)
+  const covered = DEADLINE_ALERTS.slice(0, index + 1).map(alert => alert.key)
+  return Array.from(new Set([...(alreadySent || []), ...covered]))
+}
+
+/**
+ * Push a deadline out, keeping the old date in the extension history
+ * Alerts start over for the new deadline
+ */
+export function extendContingency(
+  contingency: Pick<TransactionContingency, 'deadline' | 'extensions'>,
+  newDeadline: string,
+  extendedBy: string,
+  reason?: string | null
+) {
+  const extension: ContingencyExtension = {
+    previous_deadline: contingency.deadline,
+    new_deadline: newDeadline,
+    reason: reason || null,
+    extended_by: extendedBy,
+    extended_at: new Date().toISOString()
+  }
+
+  return {
+    deadline: newDeadline,
+    status: 'extended' as ContingencyStatus,
+    extensions: [...(contingency.extensions || []), extension],
+    alerts_sent: [] as DeadlineAlertKey[]
+  }
+}
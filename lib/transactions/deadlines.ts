@@ -0,0 +1,166 @@
+/**
+ * Transaction Deadlines - server-side contingency records and the
+ * 72h / 24h / day-of alert run
+ */
+
+import { notificationManager } from '@/lib/notifications/manager'
+import { getUserTimezone } from '@/lib/tasks/recurring-tasks'
+import {
+  getContingencyLabel,
+  getDueDeadlineAlert,
+  markAlertsSent,
+  type ContingencyType,
+  type TransactionContingency
+} from '@/lib/transactions/contingencies'
+
+export interface ContingencyInput {
+  type: ContingencyType
+  deadline: string
+  notes?: string | null
+}
+
+export async function createContingencies(
+  supabase: any,
+  userId: string,
+  transactionId: string,
+  contingencies: ContingencyInput[]
+): Promise<TransactionContingency[]> {
+  if (contingencies.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('transaction_contingencies')
+    .insert(contingencies.map(contingency => ({
+      user_id: userId,
+      transaction_id: transactionId,
+      type: contingency.type,
+      deadline: contingency.deadline,
+      notes: contingency.notes || null,
+      status: 'pending',
+      extensions: [],
+      alerts_sent: []
+    })))
+    .select()
+
+  if (error) {
+    console.error('Error creating contingencies:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Keep the earnest money deadline record in step with transactions.earnest_money_due_date
+ * A resolved (satisfied or waived) deposit is left alone
+ */
+export async function syncEarnestMoneyDeadline(
+  supabase: any,
+  userId: string,
+  transactionId: string,
+  dueDate: string | null
+) {
+  const { data: existing } = await supabase
+    .from('transaction_contingencies')
+    .select('id, status')
+    .eq('transaction_id', transactionId)
+    .eq('type', 'earnest_money')
+    .maybeSingle()
+
+  if (existing) {
+    if (existing.status === 'satisfied' || existing.status === 'waived') return
+    if (!dueDate) {
+      await supabase.from('transaction_contingencies').delete().eq('id', existing.id)
+      return
+    }
+    await supabase
+      .from('transaction_contingencies')
+      .update({ deadline: dueDate, alerts_sent: [], updated_at: new Date().toISOString() })
+      .eq('id', existing.id)
+    return
+  }
+
+  if (dueDate) {
+    await createContingencies(supabase, userId, transactionId, [{ type: 'earnest_money', deadline: dueDate }])
+  }
+}
+
+/**
+ * Send every deadline alert that has come due and record it on the contingency
+ * Runs from the contingency-alerts cron with the service client
+ */
+export async function sendDueDeadlineAlerts(serviceClient: any, now: Date = new Date()) {
+  // Anything inside the widest window (72h) or already past due
+  const horizon = new Date(now.getTime() + 72 * 60 * 60 * 1000).toISOString()
+
+  const { data: contingencies, error } = await serviceClient
+    .from('transaction_contingencies')
+    .select(`
+      *,
+      transaction:transactions(id, deal_id, deal:deals(id, title))
+    `)
+    .in('status', ['pending', 'extended'])
+    .lte('deadline', horizon)
+    // Past-due deadlines that already had their day-of alert need nothing more
+    // and would otherwise crowd new deadlines out of the batch
+    .not('alerts_sent', 'cs', '{day_of}')
+    .order('deadline', { ascending: true })
+    .limit(500)
+
+  if (error) {
+    throw new Error(`Failed to load contingencies: ${error.message}`)
+  }
+
+  const results = []
+  const timeZones = new Map<string, string>()
+
+  for (const contingency of contingencies || []) {
+    if (!timeZones.has(contingency.user_id)) {
+      timeZones.set(contingency.user_id, await getUserTimezone(serviceClient, contingency.user_id))
+    }
+    const timeZone = timeZones.get(contingency.user_id)!
+
+    const alert = getDueDeadlineAlert(contingency, now, timeZone)
+    if (!alert) continue
+
+    const label = getContingencyLabel(contingency.type)
+    const dealTitle = contingency.transaction?.deal?.title || 'transaction'
+    const deadline = new Date(contingency.deadline)
+    const when = alert.key === 'day_of'
+      ? (deadline < now ? 'is past due' : 'is due today')
+      : `is due in ${alert.key === '72h' ? '3 days' : '24 hours'}`
+
+    try {
+      await notificationManager.deadlineAlert(
+        contingency.id,
+        `${label} deadline ${alert.key === 'day_of' ? 'today' : 'approaching'}`,
+        `The ${label.toLowerCase()} deadline for ${dealTitle} ${when} (${deadline.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone })}).`,
+        contingency.user_id,
+        alert.priority,
+        {
+          transaction_id: contingency.transaction_id,
+          deal_id: contingency.transaction?.deal_id,
+          contingency_type: contingency.type,
+          deadline: contingency.deadline,
+          alert: alert.key
+        }
+      )
+
+      await serviceClient
+        .from('transaction_contingencies')
+        .update({ alerts_sent: markAlertsSent(contingency.alerts_sent, alert.key) })
+        .eq('id', contingency.id)
+
+      results.push({ contingency_id: contingency.id, alert: alert.key, success: true })
+    } catch (error) {
+      console.error(`Error sending deadline alert for ${contingency.id}:`, error)
+      results.push({
+        contingency_id: contingency.id,
+        alert: alert.key,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,116 @@
+// Transaction milestone templates shared by the transactions API and the template settings.
+// Safe to import from client components - no server-only dependencies.
+
+export type TransactionType = 'purchase' | 'sale' | 'lease' | 'rental'
+
+// 'contract' is the transaction's contract_date (or its creation date); 'closing' is closing_date
+export type MilestoneAnchor = 'contract' | 'closing'
+
+export interface MilestoneTemplateItem {
+  milestone: string
+  anchor: MilestoneAnchor
+  offset_days: number
+  notes?: string
+  priority: 'low' | 'medium' | 'high'
+  create_task: boolean
+  // Milestones whose tasks must be completed before this one's task can start
+  blocked_by?: string[]
+}
+
+export interface MilestoneTemplate {
+  id: string | null
+  tenant_id: string | null
+  transaction_type: TransactionType
+  items: MilestoneTemplateItem[]
+}
+
+export const TRANSACTION_TYPES: TransactionType[] = ['purchase', 'sale', 'lease', 'rental']
+
+// Closing-anchored milestones need a date even before closing is scheduled
+export const DEFAULT_CLOSING_OFFSET_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_MILESTONE_ITEMS: Record<TransactionType, MilestoneTemplateItem[]> = {
+  purchase: [
+    { milestone: 'Earnest Money Deposit', anchor: 'contract', offset_days: 3, notes: 'Submit earnest money deposit to secure the property', priority: 'high', create_task: true },
+    { milestone: 'Loan Application', anchor: 'contract', offset_days: 7, notes: 'Submit mortgage loan application to lender', priority: 'high', create_task: true },
+    { milestone: 'Home Inspection', anchor: 'contract', offset_days: 10, notes: 'Schedule and complete home inspection', priority: 'high', create_task: true },
+    { milestone: 'Appraisal', anchor: 'contract', offset_days: 14, notes: 'Property appraisal by lender', priority: 'medium', create_task: true },
+    { milestone: 'Loan Approval', anchor: 'contract', offset_days: 21, notes: 'Receive final loan approval from lender', priority: 'high', create_task: false },
+    { milestone: 'Final Walkthrough', anchor: 'closing', offset_days: -1, notes: 'Final property walkthrough before closing', priority: 'high', create_task: true, blocked_by: ['Home Inspection'] },
+    { milestone: 'Closing', anchor: 'closing', offset_days: 0, notes: 'Property closing and key transfer', priority: 'high', create_task: true, blocked_by: ['Final Walkthrough'] }
+  ],
+  sale: [
+    { milestone: 'Property Preparation', anchor: 'contract', offset_days: 7, notes: 'Prepare property for showing and listing', priority: 'medium', create_task: true },
+    { milestone: 'Professional Photography', anchor: 'contract', offset_days: 10, notes: 'Schedule professional property photography', priority: 'medium', create_task: true },
+    { milestone: 'MLS Listing', anchor: 'contract', offset_days: 14, notes: 'List property on MLS and marketing platforms', priority: 'high', create_task: true, blocked_by: ['Property Preparation', 'Professional Photography'] },
+    { milestone: 'Offer Review', anchor: 'contract', offset_days: 21, notes: 'Review and negotiate offers', priority: 'high', create_task: false },
+    { milestone: 'Purchase Agreement', anchor: 'contract', offset_days: 25, notes: 'Execute purchase agreement with buyer', priority: 'high', create_task: false }
+  ],
+  lease: [
+    { milestone: 'Rental Application', anchor: 'contract', offset_days: 2, notes: 'Submit rental application and supporting documents', priority: 'high', create_task: true },
+    { milestone: 'Security Deposit', anchor: 'contract', offset_days: 5, notes: 'Pay security deposit and first month\'s rent', priority: 'high', create_task: true },
+    { milestone: 'Lease Signing', anchor: 'closing', offset_days: -7, notes: 'Review and sign the lease agreement', priority: 'high', create_task: true },
+    { milestone: 'Move-in Inspection', anchor: 'closing', offset_days: 0, notes: 'Walk the unit with the landlord and record its condition', priority: 'medium', create_task: true, blocked_by: ['Lease Signing'] }
+  ],
+  rental: [
+    { milestone: 'Rental Listing', anchor: 'contract', offset_days: 3, notes: 'List the unit on rental platforms', priority: 'medium', create_task: true },
+    { milestone: 'Tenant Screening', anchor: 'contract', offset_days: 14, notes: 'Run credit, background and reference checks', priority: 'high', create_task: true },
+    { milestone: 'Lease Execution', anchor: 'closing', offset_days: -7, notes: 'Execute the lease with the approved tenant', priority: 'high', create_task: true },
+    { milestone: 'Move-in Inspection', anchor: 'closing', offset_days: 0, notes: 'Document unit condition with the tenant at move-in', priority: 'medium', create_task: true, blocked_by: ['Lease Execution'] }
+  ]
+}
+
+export function getDefaultMilestoneTemplate(transactionType: TransactionType): MilestoneTemplate {
+  return {
+    id: null,
+    tenant_id: null,
+    transaction_type: transactionType,
+    items: DEFAULT_MILESTONE_ITEMS[transactionType] || []
+  }
+}
+
+export function isTransactionType(value: string): value is TransactionType {
+  return (TRANSACTION_TYPES as string[]).includes(value)
+}
+
+export interface MilestoneAnchorDates {
+  contractDate?: string | Date | null
+  closingDate?: string | Date | null
+}
+
+/**
+ * Resolve the concrete anchor dates for a transaction
+ * Without a closing date, closing-anchored milestones assume a 30 day close
+ */
+export function resolveAnchorDates({ contractDate, closingDate }: MilestoneAnchorDates) {
+  const contract = contractDate ? new Date(contractDate) : new Date()
+  const closing = closingDate
+    ? new Date(closingDate)
+    : new Date(contract.getTime() + DEFAULT_CLOSING_OFFSET_DAYS * DAY_MS)
+
+  return { contract, closing }
+}
+
+export function calculateMilestoneDate(
+  anchor: MilestoneAnchor,
+  offsetDays: number,
+  anchors: MilestoneAnchorDates
+): string {
+  const { contract, closing } = resolveAnchorDates(anchors)
+  const base = anchor === 'closing' ? closing : contract
+  return new Date(base.getTime() + offsetDays * DAY_MS).toISOString()
+}
+
+/**
+ * Expand template items into dated milestones, ordered by date
+ */
+export function buildMilestonesFromTemplate(items: MilestoneTemplateItem[], anchors: MilestoneAnchorDates) {
+  return items
+    .map(item => ({
+      ...item,
+      milestone_date: calculateMilestoneDate(item.anchor, item.offset_days, anchors)
+    }))
+    .sort((a, b) => new Date(a.milestone_date).getTime() - new Date(b.milestone_date).getTime())
+}
@@ -0,0 +1,240 @@
+/**
+ * Transaction Milestones - server-side template loading, milestone creation
+ * and date recalculation when a transaction's anchor dates move
+ */
+
+import {
+  TRANSACTION_TYPES,
+  buildMilestonesFromTemplate,
+  calculateMilestoneDate,
+  getDefaultMilestoneTemplate,
+  type MilestoneAnchorDates,
+  type MilestoneTemplate,
+  type MilestoneTemplateItem,
+  type TransactionType
+} from '@/lib/transactions/milestone-templates'
+
+function toTemplate(row: any): MilestoneTemplate {
+  return {
+    id: row.id,
+    tenant_id: row.tenant_id,
+    transaction_type: row.transaction_type,
+    items: Array.isArray(row.items) ? row.items : []
+  }
+}
+
+/**
+ * Load the tenant's template for one transaction type, falling back to the built-in default
+ */
+export async function getMilestoneTemplate(
+  supabase: any,
+  tenantId: string | null,
+  transactionType: TransactionType
+): Promise<MilestoneTemplate> {
+  if (!tenantId) return getDefaultMilestoneTemplate(transactionType)
+
+  const { data, error } = await supabase
+    .from('milestone_templates')
+    .select('id, tenant_id, transaction_type, items')
+    .eq('tenant_id', tenantId)
+    .eq('transaction_type', transactionType)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading milestone template:', error)
+  }
+
+  return data ? toTemplate(data) : getDefaultMilestoneTemplate(transactionType)
+}
+
+/**
+ * Load one template per transaction type for a tenant
+ */
+export async function getTenantMilestoneTemplates(supabase: any, tenantId: string | null): Promise<MilestoneTemplate[]> {
+  if (!tenantId) return TRANSACTION_TYPES.map(getDefaultMilestoneTemplate)
+
+  const { data, error } = await supabase
+    .from('milestone_templates')
+    .select('id, tenant_id, transaction_type, items')
+    .eq('tenant_id', tenantId)
+
+  if (error) {
+    console.error('Error loading milestone templates:', error)
+  }
+
+  return TRANSACTION_TYPES.map(type => {
+    const row = (data || []).find((template: any) => template.transaction_type === type)
+    return row ? toTemplate(row) : getDefaultMilestoneTemplate(type)
+  })
+}
+
+interface CreateMilestonesInput {
+  userId: string
+  transactionId: string
+  clientId: string
+  dealId: string
+  template: MilestoneTemplate
+  anchors: MilestoneAnchorDates
+}
+
+/**
+ * Link the generated tasks the way the template's blocked_by lists describe,
+ * so e.g. the closing task waits on the final walkthrough
+ */
+async function createMilestoneTaskDependencies(
+  supabase: any,
+  userId: string,
+  milestones: MilestoneTemplateItem[],
+  tasks: { id: string; metadata: any }[]
+) {
+  const taskIdByMilestone = new Map(tasks.map(task => [task.metadata?.milestone_type, task.id]))
+  const rows = milestones.flatMap(milestone => {
+    const taskId = taskIdByMilestone.get(milestone.milestone)
+    if (!taskId) return []
+    return (milestone.blocked_by || [])
+      .map(name => taskIdByMilestone.get(name))
+      .filter((blockerId): blockerId is string => !!blockerId && blockerId !== taskId)
+      .map(blockerId => ({ user_id: userId, task_id: taskId, blocked_by_task_id: blockerId }))
+  })
+
+  if (rows.length === 0) return
+
+  const { error } = await supabase.from('task_dependencies').insert(rows)
+  if (error) {
+    console.error('Error linking milestone tasks:', error)
+  }
+}
+
+/**
+ * Create the timeline milestones for a new transaction and a task for each milestone that asks for one
+ * Anchor and offset are stored on the milestone so later date changes can recalculate it
+ */
+export async function createTransactionMilestones(supabase: any, input: CreateMilestonesInput) {
+  const milestones = buildMilestonesFromTemplate(input.template.items, input.anchors)
+  if (milestones.length === 0) return []
+
+  const { data: timeline, error } = await supabase
+    .from('transaction_timeline')
+    .insert(
+      milestones.map(milestone => ({
+        user_id: input.userId,
+        transaction_id: input.transactionId,
+        milestone: milestone.milestone,
+        milestone_date: milestone.milestone_date,
+        status: 'pending',
+        notes: milestone.notes || null,
+        anchor: milestone.anchor,
+        offset_days: milestone.offset_days
+      }))
+    )
+    .select()
+
+  if (error) {
+    console.error('Error creating transaction milestones:', error)
+    return []
+  }
+
+  const taskRows = (timeline || [])
+    .map((entry: any) => ({ entry, milestone: milestones.find(m => m.milestone === entry.milestone) }))
+    .filter(({ milestone }: any) => milestone?.create_task)
+    .map(({ entry, milestone }: any) => ({
+      user_id: input.userId,
+      client_id: input.clientId,
+      deal_id: input.dealId,
+      title: milestone.milestone,
+      description: milestone.notes || `Complete ${milestone.milestone.toLowerCase()} for transaction`,
+      task_type: 'transaction',
+      due_date: entry.milestone_date,
+      priority: milestone.priority || 'medium',
+      status: 'pending',
+      metadata: {
+        transaction_id: input.transactionId,
+        timeline_id: entry.id,
+        milestone_type: milestone.milestone,
+        auto_generated: true
+      }
+    }))
+
+  if (taskRows.length > 0) {
+    const { data: tasks, error: taskError } = await supabase
+      .from('tasks')
+      .insert(taskRows)
+      .select('id, metadata')
+    if (taskError) {
+      console.error('Error creating milestone tasks:', taskError)
+    } else {
+      await createMilestoneTaskDependencies(supabase, input.userId, milestones, tasks || [])
+    }
+  }
+
+  return timeline || []
+}
+
+/**
+ * Re-date the open, template-anchored milestones of a transaction and their auto-generated tasks
+ * Completed milestones and ones rescheduled by hand (no anchor) keep their dates
+ */
+export async function recalculateTransactionMilestones(
+  supabase: any,
+  userId: string,
+  transactionId: string,
+  anchors: MilestoneAnchorDates
+): Promise<number> {
+  const { data: timeline, error } = await supabase
+    .from('transaction_timeline')
+    .select('id, milestone, milestone_date, status, anchor, offset_days')
+    .eq('transaction_id', transactionId)
+    .eq('user_id', userId)
+    .not('status', 'ilike', 'completed')
+
+  if (error) {
+    console.error('Error loading milestones for recalculation:', error)
+    return 0
+  }
+
+  const changed = (timeline || [])
+    .filter((entry: any) => entry.anchor && entry.offset_days !== null && entry.offset_days !== undefined)
+    .map((entry: any) => ({
+      ...entry,
+      new_date: calculateMilestoneDate(entry.anchor, entry.offset_days, anchors)
+    }))
+    .filter((entry: any) => new Date(entry.milestone_date).getTime() !== new Date(entry.new_date).getTime())
+
+  if (changed.length === 0) return 0
+
+  await Promise.all(changed.map((entry: any) =>
+    supabase
+      .from('transaction_timeline')
+      .update({ milestone_date: entry.new_date, updated_at: new Date().toISOString() })
+      .eq('id', entry.id)
+  ))
+
+  const { data: tasks } = await supabase
+    .from('tasks')
+    .select('id, status, metadata')
+    .eq('user_id', userId)
+    .eq('metadata->>transaction_id', transactionId)
+    .not('status', 'ilike', 'completed')
+
+  const taskUpdates = (tasks || [])
+    .filter((task: any) => task.metadata?.auto_generated)
+    .map((task: any) => ({
+      task,
+      // Older auto-generated tasks predate timeline_id and only carry the milestone name
+      entry: changed.find((entry: any) =>
+        task.metadata.timeline_id
+          ? task.metadata.timeline_id === entry.id
+          : task.metadata.milestone_type === entry.milestone
+      )
+    }))
+    .filter(({ entry }: any) => entry)
+
+  await Promise.all(taskUpdates.map(({ task, entry }: any) =>
+    supabase
+      .from('tasks')
+      .update({ due_date: entry.new_date })
+      .eq('id', task.id)
+  ))
+
+  return changed.length
+}
@@ -0,0 +1,322 @@
+/**
+ * Client Portal Access - secret links to a transaction's status page, and
+ * everything the portal reads or writes on the client's behalf.
+ * Only the sha256 of a link's token is stored, so a leaked table can't be
+ * turned back into working links.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { AppError, NotFoundError } from '@/lib/errors'
+import { chatSecurity } from '@/lib/security/chat-security'
+import {
+  PORTAL_UPCOMING_DAYS,
+  getDaysUntil,
+  getPortalLinkStatus,
+  type PortalLink,
+  type PortalMessage,
+  type PortalUpcomingDate,
+  type PortalView
+} from '@/lib/transactions/portal'
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+function hashPortalToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Create a portal link for one of the agent's transactions. The raw token is
+ * only returned here - it can't be recovered later
+ */
+export async function createPortalLink(
+  supabase: any,
+  userId: string,
+  transactionId: string,
+  expiresInDays: number
+): Promise<{ link: PortalLink; token: string }> {
+  const { data: transaction } = await supabase
+    .from('transactions')
+    .select('id, client_id')
+    .eq('id', transactionId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!transaction) throw new NotFoundError('Transaction')
+
+  const token = randomBytes(32).toString('hex')
+  const { data: link, error } = await supabase
+    .from('client_portal_links')
+    .insert({
+      user_id: userId,
+      client_id: transaction.client_id,
+      transaction_id: transaction.id,
+      token_hash: hashPortalToken(token),
+      expires_at: new Date(Date.now() + expiresInDays * DAY_MS).toISOString(),
+      view_count: 0
+    })
+    .select('id, user_id, client_id, transaction_id, expires_at, revoked_at, last_viewed_at, view_count, created_at')
+    .single()
+
+  if (error) throw error
+  return { link, token }
+}
+
+export async function listPortalLinks(supabase: any, userId: string, transactionId: string): Promise<PortalLink[]> {
+  const { data, error } = await supabase
+    .from('client_portal_links')
+    .select('id, user_id, client_id, transaction_id, expires_at, revoked_at, last_viewed_at, view_count, created_at')
+    .eq('user_id', userId)
+    .eq('transaction_id', transactionId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function revokePortalLink(supabase: any, userId: string, linkId: string): Promise<PortalLink> {
+  const { data: existing } = await supabase
+    .from('client_portal_links')
+    .select('id, revoked_at')
+    .eq('id', linkId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!existing) throw new NotFoundError('Portal link')
+
+  const { data: link, error } = await supabase
+    .from('client_portal_links')
+    .update({ revoked_at: existing.revoked_at || new Date().toISOString() })
+    .eq('id', linkId)
+    .eq('user_id', userId)
+    .select('id, user_id, client_id, transaction_id, expires_at, revoked_at, last_viewed_at, view_count, created_at')
+    .single()
+
+  if (error) throw error
+  return link
+}
+
+/**
+ * Look up the link behind a raw token. Revoked and expired links are 410 so
+ * the portal can tell the client to ask their agent for a new one
+ */
+export async function resolvePortalLink(supabase: any, token: string): Promise<PortalLink> {
+  if (!/^[0-9a-f]{64}$/.test(token)) throw new NotFoundError('Portal link')
+
+  const { data: link } = await supabase
+    .from('client_portal_links')
+    .select('id, user_id, client_id, transaction_id, expires_at, revoked_at, last_viewed_at, view_count, created_at')
+    .eq('token_hash', hashPortalToken(token))
+    .maybeSingle()
+
+  if (!link) throw new NotFoundError('Portal link')
+
+  const status = getPortalLinkStatus(link)
+  if (status === 'revoked') {
+    throw new AppError('This portal link has been turned off by your agent', 410, 'PORTAL_LINK_REVOKED')
+  }
+  if (status === 'expired') {
+    throw new AppError('This portal link has expired', 410, 'PORTAL_LINK_EXPIRED')
+  }
+
+  return link
+}
+
+async function findPortalConversation(supabase: any, link: PortalLink, dealId: string | null): Promise<string | null> {
+  let query = supabase
+    .from('conversations')
+    .select('id')
+    .eq('customer_id', link.client_id)
+    .eq('assigned_agent_id', link.user_id)
+    .eq('channel_type', 'portal')
+
+  query = dealId ? query.eq('deal_id', dealId) : query.is('deal_id', null)
+
+  const { data } = await query.order('created_at', { ascending: true }).limit(1).maybeSingle()
+  return data?.id || null
+}
+
+/**
+ * Everything the client sees: milestones, dates coming up, the documents the
+ * agent chose to share and the message thread
+ */
+export async function getPortalView(supabase: any, link: PortalLink): Promise<PortalView> {
+  const { data: transaction } = await supabase
+    .from('transactions')
+    .select(`
+      id, deal_id, transaction_type, status, contract_date, closing_date,
+      deal:deals(address),
+      client:clients(first_name)
+    `)
+    .eq('id', link.transaction_id)
+    .eq('user_id', link.user_id)
+    .maybeSingle()
+
+  if (!transaction) throw new NotFoundError('Transaction')
+
+  const [{ data: agent }, { data: milestones }, { data: documents }, conversationId] = await Promise.all([
+    supabase.from('users').select('name, email').eq('id', link.user_id).maybeSingle(),
+    supabase
+      .from('transaction_timeline')
+      .select('id, milestone, milestone_date, status')
+      .eq('transaction_id', transaction.id)
+      .order('milestone_date', { ascending: true, nullsFirst: false }),
+    supabase
+      .from('transaction_documents')
+      .select('id, document_name, document_type, file_url, uploaded_at')
+      .eq('transaction_id', transaction.id)
+      .eq('shared_with_client', true)
+      .order('uploaded_at', { ascending: false }),
+    findPortalConversation(supabase, link, transaction.deal_id)
+  ])
+
+  let messages: PortalMessage[] = []
+  if (conversationId) {
+    const { data } = await supabase
+      .from('conversation_messages')
+      .select('id, content, direction, sender_name, sent_at')
+      .eq('conversation_id', conversationId)
+      .order('sent_at', { ascending: true })
+      .limit(100)
+    messages = data || []
+  }
+
+  const now = new Date()
+  const upcoming: PortalUpcomingDate[] = (milestones || [])
+    .filter((milestone: any) => milestone.status !== 'completed' && milestone.milestone_date)
+    .map((milestone: any) => ({
+      label: milestone.milestone,
+      date: milestone.milestone_date,
+      days_until: getDaysUntil(milestone.milestone_date, now)
+    }))
+
+  if (transaction.closing_date && !upcoming.some(date => date.label.toLowerCase().includes('closing'))) {
+    upcoming.push({ label: 'Closing', date: transaction.closing_date, days_until: getDaysUntil(transaction.closing_date, now) })
+  }
+
+  return {
+    client_first_name: (transaction.client as any)?.first_name || null,
+    agent: { name: agent?.name || null, email: agent?.email || null },
+    transaction: {
+      id: transaction.id,
+      transaction_type: transaction.transaction_type,
+      status: transaction.status,
+      property_address: (transaction.deal as any)?.address || null,
+      contract_date: transaction.contract_date,
+      closing_date: transaction.closing_date
+    },
+    milestones: milestones || [],
+    upcoming: upcoming
+      .filter(date => date.days_until >= 0 && date.days_until <= PORTAL_UPCOMING_DAYS)
+      .sort((a, b) => a.days_until - b.days_until),
+    documents: documents || [],
+    messages,
+    expires_at: link.expires_at
+  }
+}
+
+/**
+ * Count the view on the link and log it against the client as a lead activity.
+ * Failures are logged rather than thrown so a logging problem never hides the portal
+ */
+export async function recordPortalView(supabase: any, link: PortalLink): Promise<void> {
+  const viewedAt = new Date().toISOString()
+
+  const [{ error: linkError }, { error: activityError }] = await Promise.all([
+    supabase
+      .from('client_portal_links')
+      .update({ last_viewed_at: viewedAt, view_count: (link.view_count || 0) + 1 })
+      .eq('id', link.id),
+    supabase
+      .from('lead_activities')
+      .insert({
+        user_id: link.user_id,
+        client_id: link.client_id,
+        activity_type: 'portal_view',
+        activity_data: {
+          transaction_id: link.transaction_id,
+          portal_link_id: link.id,
+          viewed_at: viewedAt
+        },
+        score_awarded: 2,
+        source: 'client_portal'
+      })
+  ])
+
+  if (linkError) console.error('Error updating portal link view count:', linkError)
+  if (activityError) console.error('Error logging portal view:', activityError)
+}
+
+/**
+ * Post the client's message into the agent's portal conversation for this
+ * transaction, opening the conversation on first use
+ */
+export async function postPortalMessage(supabase: any, link: PortalLink, content: string): Promise<PortalMessage> {
+  const validation = chatSecurity.validateMessageContent(content)
+  if (!validation.isValid) {
+    throw new AppError(validation.errors[0] || 'Invalid message', 400, 'VALIDATION_ERROR')
+  }
+
+  const { data: transaction } = await supabase
+    .from('transactions')
+    .select(`
+      id, deal_id,
+      client:clients(first_name, last_name, email)
+    `)
+    .eq('id', link.transaction_id)
+    .eq('user_id', link.user_id)
+    .maybeSingle()
+
+  if (!transaction) throw new NotFoundError('Transaction')
+
+  const client = (transaction.client as any) || {}
+  const clientName = `${client.first_name || ''} ${client.last_name || ''}`.trim() || 'Client'
+
+  let conversationId = await findPortalConversation(supabase, link, transaction.deal_id)
+  if (!conversationId) {
+    const { data: conversation, error } = await supabase
+      .from('conversations')
+      .insert({
+        title: `Portal messages from ${clientName}`,
+        customer_id: link.client_id,
+        deal_id: transaction.deal_id,
+        channel_type: 'portal',
+        priority: 'normal',
+        assigned_agent_id: link.user_id,
+        status: 'open'
+      })
+      .select('id')
+      .single()
+
+    if (error) throw error
+    conversationId = conversation.id
+  }
+
+  const sentAt = new Date().toISOString()
+  const { data: message, error } = await supabase
+    .from('conversation_messages')
+    .insert({
+      conversation_id: conversationId,
+      sender_id: null,
+      sender_name: clientName,
+      sender_email: client.email || null,
+      // Stored as plain text - the portal and inbox both render it escaped
+      content: content.trim(),
+      message_type: 'text',
+      direction: 'inbound',
+      status: 'delivered',
+      priority: 'normal',
+      metadata: { source: 'client_portal', portal_link_id: link.id, transaction_id: link.transaction_id },
+      sent_at: sentAt
+    })
+    .select('id, content, direction, sender_name, sent_at')
+    .single()
+
+  if (error) throw error
+
+  await supabase
+    .from('conversations')
+    .update({ status: 'open', updated_at: sentAt })
+    .eq('id', conversationId)
+
+  return message
+}
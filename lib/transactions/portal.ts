@@ -0,0 +1,107 @@
+/**
+ * Client Portal
+ * Read-only transaction status shared with the client through a secret link.
+ * Safe to import from client components - no server-only dependencies.
+ */
+
+export type PortalLinkStatus = 'active' | 'expired' | 'revoked'
+
+export const PORTAL_EXPIRY_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 180, label: '6 months' }
+]
+
+export const DEFAULT_PORTAL_EXPIRY_DAYS = 30
+export const MAX_PORTAL_EXPIRY_DAYS = 365
+
+// Milestones and the closing date falling within this window show as upcoming
+export const PORTAL_UPCOMING_DAYS = 30
+
+export interface PortalLink {
+  id: string
+  user_id: string
+  client_id: string
+  transaction_id: string
+  expires_at: string
+  revoked_at: string | null
+  last_viewed_at: string | null
+  view_count: number
+  created_at: string
+}
+
+export interface PortalMilestone {
+  id: string
+  milestone: string
+  milestone_date: string | null
+  status: string
+}
+
+export interface PortalUpcomingDate {
+  label: string
+  date: string
+  days_until: number
+}
+
+export interface PortalDocument {
+  id: string
+  document_name: string
+  document_type: string
+  file_url: string
+  uploaded_at: string
+}
+
+export interface PortalMessage {
+  id: string
+  content: string
+  direction: 'inbound' | 'outbound'
+  sender_name: string | null
+  sent_at: string
+}
+
+export interface PortalView {
+  client_first_name: string | null
+  agent: { name: string | null; email: string | null }
+  transaction: {
+    id: string
+    transaction_type: string | null
+    status: string | null
+    property_address: string | null
+    contract_date: string | null
+    closing_date: string | null
+  }
+  milestones: PortalMilestone[]
+  upcoming: PortalUpcomingDate[]
+  documents: PortalDocument[]
+  messages: PortalMessage[]
+  expires_at: string
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+export function getPortalLinkStatus(link: Pick<PortalLink, 'expires_at' | 'revoked_at'>, now: Date = new Date()): PortalLinkStatus {
+  if (link.revoked_at) return 'revoked'
+  return new Date(link.expires_at).getTime() <= now.getTime() ? 'expired' : 'active'
+}
+
+export function getPortalUrl(origin: string, token: string): string {
+  return `${origin.replace(/\/$/, '')}/portal/${token}`
+}
+
+/**
+ * Days from today until a date, counting calendar days so a milestone due
+ * later today is 0 rather than rounding down to yesterday
+ */
+export function getDaysUntil(date: string, now: Date = new Date()): number {
+  const target = new Date(date)
+  const start = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())
+  const end = Date.UTC(target.getFullYear(), target.getMonth(), target.getDate())
+  return Math.round((end - start) / DAY_MS)
+}
+
+export function describeDaysUntil(days: number): string {
+  if (days === 0) return 'Today'
+  if (days === 1) return 'Tomorrow'
+  return `In ${days} days`
+}
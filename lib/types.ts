@@ -1,4 +1,6 @@
 import React from 'react'
+import type { CommissionParticipant } from '@/lib/commissions/ledger'
+import type { LifecycleStage } from '@/lib/clients/lifecycle'
 
 export interface Client {
   id: string;
@@ -11,23 +13,34 @@ export interface Client {
   company: string;
   status: 'Buyer' | 'Seller' | 'In Contract';
   statusColor: string;
+  // Unset on clients created before lifecycle stages; see getClientLifecycleStage
+  lifecycle_stage?: LifecycleStage | null;
   lastContact: string;
   dealValue: string;
   initials: string;
+  // Values for the tenant's custom fields, keyed by field key
+  custom_fields?: Record<string, unknown>;
+  household_id?: string | null;
 }
 
 export interface Deal {
   id: string;
   clientId: string;
+  // Set when the client's household, not just the client, is the party
+  householdId?: string | null;
   title: string;
   value: string;
-  status: 'Lead' | 'In Progress' | 'Under Contract' | 'Closed' | 'Lost';
+  // Stage name from the deal's pipeline definition (see lib/pipeline/stages.ts)
+  status: string;
   statusColor: string;
+  pipelineId?: string;
   probability: number;
   expectedCloseDate: string;
   commission: string;
   commissionPercentage?: number;
   commissionAmount?: number;
+  // Split parties in order of application (see lib/commissions/ledger.ts)
+  commissionParticipants?: CommissionParticipant[];
   property: {
     address: string;
     type: string;
@@ -35,6 +48,7 @@ export interface Deal {
     bathrooms?: number;
     sqft?: number;
   };
+  customFields?: Record<string, unknown>;
 }
 
 export interface CommissionSettings {
@@ -76,6 +90,21 @@ export interface Task {
     title: string;
   };
   completed?: boolean;
+  // RRULE for repeating tasks; each occurrence is its own task in the series
+  recurrenceRule?: string | null;
+  recurrenceSeriesId?: string | null;
+  recurrenceIndex?: number;
+  occurrenceDate?: string | null;
+  // Minutes before the due time to remind; null uses the user's defaults, [] turns reminders off
+  reminderOffsets?: number[] | null;
+  // due_date as stored; dueDate holds the display label
+  rawDueDate?: string | null;
+  parentTaskId?: string | null;
+  parent?: { id: string; title: string } | null;
+  // Tasks that must be completed before this one can start
+  blockers?: { id: string; title: string; status: string; due_date: string | null }[];
+  subtaskCount?: number;
+  subtasksCompleted?: number;
 }
 
 // Icon type definition for Lucide React icons
@@ -39,6 +39,13 @@ export interface UserPreferences {
     }
   }
   
+  // Task reminders: minutes before the due time, unless a task sets its own
+  reminders: {
+    defaultOffsets: number[]
+    overdueDigest: boolean
+    digestTime: string
+  }
+  
   // Business preferences
   defaultCurrency: string
   businessHours: {
@@ -105,6 +112,12 @@ export const defaultUserPreferences: UserPreferences = {
     },
   },
   
+  reminders: {
+    defaultOffsets: [1440, 60],
+    overdueDigest: true,
+    digestTime: '08:00',
+  },
+  
   defaultCurrency: 'USD',
   businessHours: {
     monday: { start: '09:00', end: '17:00', enabled: true },
@@ -59,9 +59,9 @@ export const dealSchema = z.object({
     }, "Deal value must be a positive number")
     .transform((val) => val.replace(/[^\d.]/g, '')),
   
-  status: z.enum(["Lead", "In Progress", "Under Contract", "Closed", "Lost"], {
+  status: z.string({
     required_error: "Please select a status"
-  }),
+  }).min(1, "Please select a status"),
   
   probability: z.number()
     .min(0, "Probability must be at least 0%")
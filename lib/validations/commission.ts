@@ -18,6 +18,26 @@ export const CustomRatesSchema = z.record(
     .max(100, 'Rate cannot exceed 100%')
 ).optional()
 
+// Tiered commission rates schema
+export const TieredRatesSchema = z.array(z.object({
+  threshold: z.number().min(0, 'Threshold must be 0 or greater'),
+  rate: z.number()
+    .min(0, 'Rate must be 0% or greater')
+    .max(100, 'Rate cannot exceed 100%'),
+  label: z.string().min(1, 'Rate label is required')
+})).refine(
+  (rates) => {
+    // Ensure thresholds are in ascending order
+    for (let i = 1; i < rates.length; i++) {
+      if (rates[i].threshold <= rates[i - 1].threshold) {
+        return false
+      }
+    }
+    return true
+  },
+  { message: 'Tiered rates must have ascending thresholds' }
+)
+
 // Main commission settings schema
 export const CommissionSettingsSchema = z.object({
   defaultCommissionRate: z.number()
@@ -46,7 +66,39 @@ export const CommissionSettingsSchema = z.object({
   notes: z.string()
     .max(500, 'Notes cannot exceed 500 characters')
     .optional()
-    .or(z.literal(''))
+    .or(z.literal('')),
+
+  // GCI tiers for tiered/progressive plans; rate is the agent's share within the tier
+  tiers: TieredRatesSchema
+    .refine(
+      (tiers) => tiers.length === 0 || tiers[0].threshold === 0,
+      { message: 'The first tier must start at $0 GCI' }
+    )
+    .optional(),
+
+  annualCap: z.number()
+    .positive('Annual cap must be positive')
+    .nullable()
+    .optional(),
+
+  anniversaryDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .nullable()
+    .optional(),
+
+  transactionFee: z.number()
+    .min(0, 'Transaction fee must be 0 or greater')
+    .optional(),
+
+  royaltyPercentage: z.number()
+    .min(0, 'Royalty must be 0% or greater')
+    .max(100, 'Royalty cannot exceed 100%')
+    .optional(),
+
+  royaltyCap: z.number()
+    .positive('Royalty cap must be positive')
+    .nullable()
+    .optional()
 })
 
 // Schema for updating commission settings (all fields optional except validation requirements)
@@ -58,14 +110,25 @@ export const CommissionCalculationSchema = z.object({
     .positive('Commission amount must be positive')
     .multipleOf(0.01, 'Commission amount must be to 2 decimal places'),
   
-  userId: z.string().uuid('Invalid user ID'),
+  userId: z.string().uuid('Invalid user ID').optional(),
   
   tenantId: z.string().uuid('Invalid tenant ID').optional(),
   
   dealValue: z.number()
     .positive('Deal value must be positive')
     .multipleOf(0.01, 'Deal value must be to 2 decimal places')
-    .optional()
+    .optional(),
+
+  // Cap year and prior closings are taken as of this date (defaults to today)
+  closingDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .optional(),
+
+  // Leave an already-closed transaction out of its own year-to-date GCI
+  transactionId: z.string().uuid('Invalid transaction ID').optional(),
+
+  // Split the commission through the deal's participant ledger first
+  dealId: z.string().uuid('Invalid deal ID').optional()
 })
 
 // Response schema for commission calculations
@@ -77,26 +140,6 @@ export const CommissionSplitSchema = z.object({
   effectiveRate: z.number().optional()
 })
 
-// Tiered commission rates schema
-export const TieredRatesSchema = z.array(z.object({
-  threshold: z.number().min(0, 'Threshold must be 0 or greater'),
-  rate: z.number()
-    .min(0, 'Rate must be 0% or greater')
-    .max(100, 'Rate cannot exceed 100%'),
-  label: z.string().min(1, 'Rate label is required')
-})).refine(
-  (rates) => {
-    // Ensure thresholds are in ascending order
-    for (let i = 1; i < rates.length; i++) {
-      if (rates[i].threshold <= rates[i - 1].threshold) {
-        return false
-      }
-    }
-    return true
-  },
-  { message: 'Tiered rates must have ascending thresholds' }
-)
-
 // Progressive commission rates schema  
 export const ProgressiveRatesSchema = z.array(z.object({
   minAmount: z.number().min(0, 'Minimum amount must be 0 or greater'),
@@ -153,7 +196,13 @@ export const DEFAULT_COMMISSION_SETTINGS: CommissionSettings = {
   brokerSplitPercentage: 50.00,
   commissionStructure: 'flat',
   customRates: {},
-  currency: 'USD'
+  currency: 'USD',
+  tiers: [],
+  annualCap: null,
+  anniversaryDate: null,
+  transactionFee: 0,
+  royaltyPercentage: 0,
+  royaltyCap: null
 }
 
 // Common currency options
@@ -175,11 +224,11 @@ export const COMMISSION_STRUCTURE_OPTIONS = [
   {
     value: 'tiered' as const,
     label: 'Tiered',
-    description: 'Different rates based on deal value tiers'
+    description: 'Whole deal split at your year-to-date GCI tier'
   },
   {
     value: 'progressive' as const,
     label: 'Progressive',
-    description: 'Increasing rates for higher deal values'
+    description: 'Each dollar split at the GCI tier it falls in'
   }
 ] as const
\ No newline at end of file
@@ -32,7 +32,9 @@ export const createDealSchema = z.object({
   client_id: idSchema,
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
   value: z.coerce.number().min(0, 'Value must be positive').optional(),
-  status: z.enum(['Lead', 'In Progress', 'Under Contract', 'Closed', 'Lost']).default('Lead'),
+  // Stage names come from the tenant's pipeline definition
+  status: z.string().min(1).max(60, 'Status too long').optional(),
+  pipeline_id: z.string().max(100).optional(),
   probability: z.coerce.number().min(0).max(100, 'Probability must be 0-100').optional(),
   expected_close_date: z.string().datetime().optional().or(z.literal('')),
   commission: z.coerce.number().min(0, 'Commission must be positive').optional(),
@@ -51,7 +53,8 @@ export const dealQuerySchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(10),
   search: z.string().max(100).optional(),
-  status: z.enum(['Lead', 'In Progress', 'Under Contract', 'Closed', 'Lost']).optional(),
+  status: z.string().max(60).optional(),
+  pipeline_id: z.string().max(100).optional(),
   client_id: idSchema.optional()
 })
 